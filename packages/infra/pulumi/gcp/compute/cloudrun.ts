@@ -47,6 +47,9 @@ interface CloudRunConfig {
 
     /** MongoDB connection string */
     mongodbUriId: pulumi.Input<string>;
+
+    /** Bearer token for the scheduler routes */
+    cronSecretId: pulumi.Input<string>;
   };
 }
 
@@ -200,6 +203,15 @@ export function createCloudRunService(config: CloudRunConfig) {
                   },
                 },
               },
+              {
+                name: 'CRON_SECRET',
+                valueFrom: {
+                  secretKeyRef: {
+                    name: config.secrets.cronSecretId,
+                    key: 'latest',
+                  },
+                },
+              },
             ],
           },
         ],
@@ -5,6 +5,7 @@
  * - MongoDB Atlas M0 (free tier, existing cluster)
  * - GCP Cloud Run (free tier: 2M requests/month)
  * - GCP Secret Manager (free tier: 6 secrets)
+ * - GCP Cloud Scheduler (free tier: 3 jobs)
  * - GCP Artifact Registry (~$0.30/month)
  *
  * **Estimated Cost:** $0.30 - $0.50/month
@@ -26,6 +27,7 @@
  * pulumi config set --secret nextauth-secret $(openssl rand -base64 32)
  * pulumi config set --secret mongodb-connection-string "mongodb+srv://..."
  * pulumi config set --secret openai-api-key "sk-..."
+ * pulumi config set --secret cron-secret $(openssl rand -base64 32)
  *
  * # Deploy
  * pnpm install
@@ -40,6 +42,7 @@
 import * as pulumi from '@pulumi/pulumi';
 import { createSecrets, grantSecretAccess } from './security/secrets';
 import { createCloudRunService } from './compute/cloudrun';
+import { createSchedulerJobs } from './scheduling/scheduler';
 
 // ==============================================================================
 // Configuration
@@ -95,6 +98,15 @@ const cloudrun = createCloudRunService({
 // 5. Grant Secret Access to Cloud Run
 const secretAccess = grantSecretAccess(secrets, cloudrun.serviceAccountEmail);
 
+// 6. Cloud Scheduler Jobs (FREE: first 3 jobs)
+const scheduler = createSchedulerJobs({
+  projectId: projectId,
+  region: region,
+  environment: environment,
+  serviceUrl: cloudrun.serviceUrl,
+  cronSecret: config.requireSecret('cron-secret'),
+});
+
 // ==============================================================================
 // Outputs
 // ==============================================================================
@@ -114,6 +126,9 @@ export const outputs = {
   serviceName: cloudrun.serviceName,
   serviceAccountEmail: cloudrun.serviceAccountEmail,
 
+  // Cloud Scheduler
+  schedulerJobs: scheduler.jobNames,
+
   // Configuration
   projectId: projectId,
   region: region,
@@ -167,6 +182,7 @@ export const outputs = {
    - Cloud Run: ✅ Always Free (2M req/month)
    - MongoDB Atlas: ✅ M0 Free Forever (512MB)
    - Secret Manager: ✅ Free (6 secrets)
+   - Cloud Scheduler: ✅ Free (3 jobs)
    - Artifact Registry: ⚠️  ~$0.30/month (only cost, managed manually)
    
    Estimated Monthly Cost: $0.30 - $0.50
@@ -0,0 +1,134 @@
+/**
+ * Cloud Scheduler Configuration
+ *
+ * Calls the ProcureFlow scheduler routes (/api/cron/*) on Cloud Run.
+ * The app does not run background timers, so work that has to happen on
+ * its own (e.g., draining the ERP outbox) is triggered from here.
+ *
+ * **FREE TIER Limits:**
+ * - First 3 jobs per billing account: FREE
+ * - Current usage: 2 jobs = $0.00 ✅
+ *
+ * **Jobs Created:**
+ * - erp-outbox: Send due ERP outbox entries (every minute)
+ * - webhook-deliveries: Retry due webhook deliveries (every minute)
+ *
+ * **Security Notes:**
+ * - Each request carries `Authorization: Bearer <cron-secret>`; the routes
+ *   refuse requests without it
+ * - The secret is the same Pulumi config value stored in Secret Manager
+ *   for Cloud Run (see security/secrets.ts)
+ *
+ * @module scheduling/scheduler
+ */
+
+import * as gcp from '@pulumi/gcp';
+import * as pulumi from '@pulumi/pulumi';
+
+/**
+ * Configuration for Cloud Scheduler jobs
+ */
+interface SchedulerConfig {
+  /** GCP Project ID */
+  projectId: string;
+
+  /** GCP region for the jobs (Cloud Scheduler location) */
+  region: string;
+
+  /** Environment name (dev/staging/prod) */
+  environment: string;
+
+  /** Cloud Run service URL (jobs call `${serviceUrl}/api/cron/<job>`) */
+  serviceUrl: pulumi.Input<string>;
+
+  /** Bearer token shared with the app (CRON_SECRET) */
+  cronSecret: pulumi.Input<string>;
+}
+
+/**
+ * Scheduler routes and how often they are called
+ */
+const CRON_JOBS = [
+  {
+    /** Route under /api/cron */
+    path: 'erp-outbox',
+
+    /** Send approved requests to the ERP (backoff starts at 30s) */
+    schedule: '* * * * *',
+  },
+  {
+    path: 'webhook-deliveries',
+
+    /** Retry due webhook deliveries (backoff starts at 10s) */
+    schedule: '* * * * *',
+  },
+];
+
+/**
+ * Creates the Cloud Scheduler jobs for ProcureFlow.
+ *
+ * One HTTP job per scheduler route, each POSTing to the Cloud Run service
+ * with the cron secret. Failed calls are retried by the next run, so jobs
+ * do not retry on their own.
+ *
+ * @param config - Cloud Scheduler configuration
+ * @returns Job resources keyed by route
+ *
+ * @example
+ * ```typescript
+ * const scheduler = createSchedulerJobs({
+ *   projectId: 'my-project',
+ *   region: 'us-central1',
+ *   environment: 'dev',
+ *   serviceUrl: cloudRun.serviceUrl,
+ *   cronSecret: config.requireSecret('cron-secret'),
+ * });
+ * ```
+ */
+export function createSchedulerJobs(config: SchedulerConfig) {
+  // Validate configuration
+  if (!config.projectId || !config.region) {
+    throw new Error('projectId and region are required for Cloud Scheduler');
+  }
+
+  const jobs: Record<string, gcp.cloudscheduler.Job> = {};
+
+  for (const job of CRON_JOBS) {
+    jobs[job.path] = new gcp.cloudscheduler.Job(`cron-${job.path}`, {
+      name: `procureflow-${job.path}`,
+      description: `Calls POST /api/cron/${job.path} (${config.environment})`,
+      region: config.region,
+      schedule: job.schedule,
+      timeZone: 'Etc/UTC',
+
+      // Matches the Cloud Run request timeout
+      attemptDeadline: '300s',
+
+      httpTarget: {
+        uri: pulumi.interpolate`${config.serviceUrl}/api/cron/${job.path}`,
+        httpMethod: 'POST',
+        headers: {
+          Authorization: pulumi.interpolate`Bearer ${config.cronSecret}`,
+        },
+      },
+    });
+  }
+
+  return {
+    jobs,
+    jobNames: CRON_JOBS.map((job) => `procureflow-${job.path}`),
+  };
+}
+
+/**
+ * Cloud Scheduler Pricing (FREE TIER):
+ *
+ * ✅ Free:
+ * - First 3 jobs per billing account: $0.00
+ *
+ * 💰 Paid (if exceeded):
+ * - Additional jobs: $0.10/job/month
+ *
+ * Every-minute jobs add ~43,200 Cloud Run requests/month per job
+ * (within the 2M free requests).
+ */
@@ -6,12 +6,13 @@
  * **FREE TIER Limits:**
  * - First 6 secret versions: FREE
  * - First 10,000 access operations/month: FREE
- * - Current usage: 3 secrets = $0.00 ✅
+ * - Current usage: 4 secrets = $0.00 ✅
  *
  * **Secrets Created:**
  * - nextauth-secret: NextAuth.js session encryption key
  * - openai-api-key: OpenAI API key (optional, agent features)
  * - mongodb-uri: MongoDB Atlas connection string
+ * - cron-secret: Bearer token Cloud Scheduler sends to the /api/cron routes
  *
  * **Security Notes:**
  * - Automatic replication across regions
@@ -39,10 +40,11 @@ interface SecretConfig {
 /**
  * Creates Secret Manager secrets for ProcureFlow application.
  *
- * Provisions three secrets with automatic replication:
+ * Provisions four secrets with automatic replication:
  * 1. NEXTAUTH_SECRET - Session encryption (required)
  * 2. OPENAI_API_KEY - AI features (optional)
  * 3. MONGODB_URI - Database connection (required)
+ * 4. CRON_SECRET - Scheduler route authentication (required)
  *
  * Secrets are sourced from Pulumi config (encrypted at rest in state file).
  *
@@ -168,6 +170,37 @@ export function createSecrets(
     }
   );
 
+  // ⏰ 4. CRON_SECRET - Bearer token for the scheduler routes (required)
+  // Shared with the Cloud Scheduler jobs (see scheduling/scheduler.ts)
+  // Generate with: openssl rand -base64 32
+  const cronSecret = new gcp.secretmanager.Secret(
+    'cron-secret',
+    {
+      secretId: 'cron-secret',
+      replication: {
+        auto: {},
+      },
+      labels: {
+        environment: config.environment,
+        managed_by: 'pulumi',
+        app: 'procureflow',
+      },
+    },
+    {
+      protect: false,
+      import: `projects/${config.projectId}/secrets/cron-secret`,
+      ignoreChanges: ['labels'],
+    }
+  );
+
+  const cronSecretVersion = new gcp.secretmanager.SecretVersion(
+    'cron-secret-v1',
+    {
+      secret: cronSecret.id,
+      secretData: pulumiConfig.requireSecret('cron-secret'),
+    }
+  );
+
   return {
     // Secret resources (for IAM bindings)
     nextauthSecret,
@@ -176,12 +209,15 @@ export function createSecrets(
     openaiApiKeyVersion,
     mongodbUriSecret,
     mongodbUriVersion,
+    cronSecret,
+    cronSecretVersion,
 
     // Secret IDs for Cloud Run environment variables
     secrets: {
       nextauthSecretId: nextauthSecret.secretId,
       openaiApiKeyId: openaiApiKey.secretId,
       mongodbUriId: mongodbUriSecret.secretId,
+      cronSecretId: cronSecret.secretId,
     },
   };
 }
@@ -241,10 +277,20 @@ export function grantSecretAccess(
     }
   );
 
+  const cronAccess = new gcp.secretmanager.SecretIamMember(
+    'cron-secret-access',
+    {
+      secretId: secrets.cronSecret.id,
+      role: 'roles/secretmanager.secretAccessor',
+      member: pulumi.interpolate`serviceAccount:${serviceAccountEmail}`,
+    }
+  );
+
   return {
     nextauthAccess,
     openaiAccess,
     mongodbAccess,
+    cronAccess,
   };
 }
 
@@ -259,5 +305,5 @@ export function grantSecretAccess(
  * - Additional secrets: $0.06/secret version/month
  * - Additional access: $0.03/10,000 operations
  *
- * Current usage: 3 secrets = FREE ✅
+ * Current usage: 4 secrets = FREE ✅
  */
@@ -0,0 +1,51 @@
+/**
+ * Backfill Item Embeddings Script
+ *
+ * Embeds every catalog item that has no current vector for the configured
+ * embedding provider (EMBEDDING_PROVIDER), so semantic search covers the
+ * whole catalog:
+ * - Items created before semantic search was enabled
+ * - Items whose background refresh failed
+ * - Every item after a provider or model switch
+ *
+ * Items whose vector is current are skipped, so the script can be re-run
+ * (e.g. from a nightly job).
+ *
+ * Usage:
+ *   pnpm --filter web db:backfill-embeddings
+ *
+ * Environment Variables Required:
+ *   MONGODB_URI - MongoDB connection string (loaded from .env.local)
+ *   EMBEDDING_PROVIDER and its API key, for hosted providers
+ */
+
+/* eslint-disable no-console */
+
+import { resolve } from 'path';
+
+import { config } from 'dotenv';
+
+// Load environment variables from .env.local
+config({ path: resolve(__dirname, '../.env.local') });
+
+import { backfillItemEmbeddings } from '@/features/catalog/lib/semantic-search.service';
+
+async function backfillEmbeddings() {
+  console.log('🧮 Backfilling item embeddings...\n');
+
+  try {
+    const { scanned, embedded } = await backfillItemEmbeddings();
+
+    console.log('✅ Backfill completed successfully!');
+    console.log(`   📦 Items checked: ${scanned}`);
+    console.log(`   🧮 Items embedded: ${embedded}`);
+
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Backfill failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run the backfill
+backfillEmbeddings();
@@ -62,7 +62,13 @@ const COMPOSITE_INDEXES: IndexSpec[] = [
     collection: 'carts',
     name: 'carts_userId_idx',
     keys: { userId: 1 },
-    options: { unique: true, background: true },
+    options: { unique: true, sparse: true, background: true },
+  },
+  {
+    collection: 'carts',
+    name: 'carts_members_userId_idx',
+    keys: { 'members.userId': 1 },
+    options: { background: true },
   },
 
   // Purchase requests collection
@@ -0,0 +1,151 @@
+/**
+ * Migrate Categories Script
+ *
+ * Moves free-text item categories into the category taxonomy:
+ * - Groups item category values that only differ in case, spacing or
+ *   punctuation ("Office Supplies", "office supplies", "Office-Supplies")
+ * - Creates a root category for each group without a taxonomy category,
+ *   named after the most used spelling
+ * - Renames the items (and category attribute schemas) of each group to
+ *   the category name
+ *
+ * Existing categories are kept, so categories arranged into a tree by an
+ * admin stay where they are. Purchase requests keep the category name
+ * they were submitted with; spend analytics match them by normalized
+ * name.
+ *
+ * Usage:
+ *   pnpm --filter web db:migrate-categories [--dry-run]
+ *
+ * Environment Variables Required:
+ *   MONGODB_URI - MongoDB connection string
+ */
+
+/* eslint-disable no-console */
+
+import path from 'path';
+
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+
+import type { Category } from '@/domain/entities';
+import {
+  normalizeCategoryKey,
+  planCategoryMigration,
+} from '@/features/catalog/lib/category-taxonomy';
+
+// Load environment variables from .env.local
+dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
+
+// MongoDB connection URI from environment
+const MONGODB_URI = process.env.MONGODB_URI || process.env.MONGODB_URI_TEST;
+
+// Print the plan without changing anything
+const DRY_RUN = process.argv.includes('--dry-run');
+
+async function migrateCategories() {
+  if (!MONGODB_URI) {
+    console.error('❌ MONGODB_URI is not set');
+    process.exit(1);
+  }
+
+  try {
+    console.log('🔌 Connecting to MongoDB...');
+    await mongoose.connect(MONGODB_URI);
+    console.log('✅ Connected to MongoDB');
+
+    const db = mongoose.connection.db;
+    if (!db) {
+      throw new Error('Database connection not available');
+    }
+
+    const categoriesCollection = db.collection('categories');
+    const itemsCollection = db.collection('items');
+    const schemasCollection = db.collection('category_attribute_schemas');
+
+    const categories: Category[] = (
+      await categoriesCollection.find({}).toArray()
+    ).map((category) => ({
+      id: category._id.toString(),
+      name: category.name,
+      parentCategoryId: category.parentCategoryId?.toString(),
+      createdAt: category.createdAt,
+      updatedAt: category.updatedAt,
+    }));
+
+    const usage = await itemsCollection
+      .aggregate<{
+        _id: string;
+        count: number;
+      }>([{ $group: { _id: '$category', count: { $sum: 1 } } }])
+      .toArray();
+
+    const groups = planCategoryMigration(
+      categories,
+      usage
+        .filter((entry) => typeof entry._id === 'string')
+        .map((entry) => ({ category: entry._id, count: entry.count }))
+    );
+
+    console.log(
+      `📋 ${usage.length} category values on items → ${groups.length} categories${DRY_RUN ? ' (dry run)' : ''}`
+    );
+
+    let createdCount = 0;
+    let renamedItems = 0;
+
+    for (const group of groups) {
+      const action = group.categoryId ? 'existing' : 'new';
+      const variants =
+        group.variants.length > 0 ? ` ← ${group.variants.join(', ')}` : '';
+      console.log(
+        `   ${group.name} (${action}, ${group.itemCount} items)${variants}`
+      );
+
+      if (DRY_RUN) {
+        continue;
+      }
+
+      if (!group.categoryId) {
+        const now = new Date();
+        await categoriesCollection.insertOne({
+          name: group.name,
+          key: normalizeCategoryKey(group.name),
+          createdAt: now,
+          updatedAt: now,
+        });
+        createdCount++;
+      }
+
+      if (group.variants.length > 0) {
+        const result = await itemsCollection.updateMany(
+          { category: { $in: group.variants } },
+          { $set: { category: group.name, updatedAt: new Date() } }
+        );
+        await schemasCollection.updateMany(
+          { category: { $in: group.variants } },
+          { $set: { category: group.name } }
+        );
+        renamedItems += result.modifiedCount;
+      }
+    }
+
+    if (DRY_RUN) {
+      console.log('\n🔍 Dry run: nothing was changed');
+      return;
+    }
+
+    console.log(`\n✅ Migration completed successfully!`);
+    console.log(`   📁 Created: ${createdCount} categories`);
+    console.log(`   🏷️  Renamed: ${renamedItems} items`);
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    console.log('👋 Disconnected from MongoDB');
+  }
+}
+
+// Run the migration
+migrateCategories();
@@ -0,0 +1,106 @@
+/**
+ * Migrate Shared Carts Script
+ *
+ * Prepares the carts collection for shared team carts:
+ * - Replaces the unique index on userId with a sparse one, so carts
+ *   without a userId (shared carts) are allowed
+ * - Adds an index on members.userId for listing a user's shared carts
+ *
+ * Existing carts stay personal carts; they need no changes.
+ *
+ * Usage:
+ *   pnpm --filter web db:migrate-shared-carts [--dry-run]
+ *
+ * Environment Variables Required:
+ *   MONGODB_URI - MongoDB connection string
+ */
+
+/* eslint-disable no-console */
+
+import path from 'path';
+
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+
+// Load environment variables from .env.local
+dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
+
+// MongoDB connection URI from environment
+const MONGODB_URI = process.env.MONGODB_URI || process.env.MONGODB_URI_TEST;
+
+// Print the plan without changing anything
+const DRY_RUN = process.argv.includes('--dry-run');
+
+async function migrateSharedCarts() {
+  if (!MONGODB_URI) {
+    console.error('❌ MONGODB_URI is not set');
+    process.exit(1);
+  }
+
+  try {
+    console.log('🔌 Connecting to MongoDB...');
+    await mongoose.connect(MONGODB_URI);
+    console.log('✅ Connected to MongoDB');
+
+    const db = mongoose.connection.db;
+    if (!db) {
+      throw new Error('Database connection not available');
+    }
+
+    const cartsCollection = db.collection('carts');
+    const indexes = await cartsCollection.indexes();
+
+    // Unique userId indexes that would reject carts without a userId
+    const userIdIndexes = indexes.filter(
+      (index) =>
+        index.unique &&
+        !index.sparse &&
+        Object.keys(index.key).length === 1 &&
+        index.key.userId === 1
+    );
+
+    for (const index of userIdIndexes) {
+      console.log(`   Replace ${index.name} with a sparse unique index`);
+      if (!DRY_RUN && index.name) {
+        await cartsCollection.dropIndex(index.name);
+        await cartsCollection.createIndex(
+          { userId: 1 },
+          { name: index.name, unique: true, sparse: true }
+        );
+      }
+    }
+
+    const hasMembersIndex = indexes.some(
+      (index) => index.key['members.userId'] === 1
+    );
+    if (!hasMembersIndex) {
+      console.log('   Create index on members.userId');
+      if (!DRY_RUN) {
+        await cartsCollection.createIndex(
+          { 'members.userId': 1 },
+          { name: 'carts_members_userId_idx' }
+        );
+      }
+    }
+
+    if (DRY_RUN) {
+      console.log('\n🔍 Dry run: nothing was changed');
+      return;
+    }
+
+    console.log(`\n✅ Migration completed successfully!`);
+    console.log(`   🔑 Replaced: ${userIdIndexes.length} userId indexes`);
+    console.log(
+      `   📇 Created: ${hasMembersIndex ? 0 : 1} members.userId index`
+    );
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    console.log('👋 Disconnected from MongoDB');
+  }
+}
+
+// Run the migration
+migrateSharedCarts();
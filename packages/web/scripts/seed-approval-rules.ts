@@ -0,0 +1,113 @@
+/**
+ * Seed Approval Rules Script
+ *
+ * Populates the approval_rules collection with a starter configuration:
+ * - Buyer review for every purchase request
+ * - IT review for Electronics / Technology Accessories
+ * - Admin approval for requests of $5,000 or more
+ *
+ * Without any rules in the database the application falls back to the
+ * built-in defaults (buyer review + admin approval above $5,000).
+ *
+ * Usage:
+ *   pnpm --filter web db:seed-approval-rules
+ *
+ * Environment Variables Required:
+ *   MONGODB_URI - MongoDB connection string
+ */
+
+/* eslint-disable no-console */
+
+import path from 'path';
+
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+
+// Load environment variables from .env.local
+dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
+
+// MongoDB connection URI from environment
+const MONGODB_URI = process.env.MONGODB_URI || process.env.MONGODB_URI_TEST;
+
+// Starter approval rules (chained in priority order when they match)
+const approvalRules = [
+  {
+    name: 'Buyer review',
+    description: 'Every purchase request is reviewed by procurement',
+    categories: [],
+    steps: [{ name: 'Buyer review', approverRole: 'buyer', approverIds: [] }],
+    priority: 10,
+  },
+  {
+    name: 'IT equipment review',
+    description: 'Technology purchases are checked against IT standards',
+    categories: ['Electronics', 'Technology Accessories'],
+    steps: [{ name: 'IT review', approverRole: 'admin', approverIds: [] }],
+    priority: 15,
+  },
+  {
+    name: 'High value purchases',
+    description: 'Requests of $5,000 or more need admin sign-off',
+    minTotal: 5000,
+    categories: [],
+    steps: [{ name: 'Admin approval', approverRole: 'admin', approverIds: [] }],
+    priority: 20,
+  },
+];
+
+async function seedApprovalRules() {
+  if (!MONGODB_URI) {
+    console.error('❌ MONGODB_URI is not set');
+    process.exit(1);
+  }
+
+  try {
+    console.log('🔌 Connecting to MongoDB...');
+    await mongoose.connect(MONGODB_URI);
+    console.log('✅ Connected to MongoDB');
+
+    const db = mongoose.connection.db;
+    if (!db) {
+      throw new Error('Database connection not available');
+    }
+
+    const collection = db.collection('approval_rules');
+
+    console.log(`📝 Seeding ${approvalRules.length} approval rules...`);
+
+    let insertedCount = 0;
+    let skippedCount = 0;
+
+    for (const rule of approvalRules) {
+      // Rules are unique by name
+      const existing = await collection.findOne({ name: rule.name });
+
+      if (existing) {
+        skippedCount++;
+        continue;
+      }
+
+      await collection.insertOne({
+        ...rule,
+        isActive: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      insertedCount++;
+    }
+
+    console.log(`\n✅ Seed completed successfully!`);
+    console.log(`   📊 Inserted: ${insertedCount} rules`);
+    console.log(`   ⏭️  Skipped: ${skippedCount} rules (already exist)`);
+  } catch (error) {
+    console.error('❌ Seed failed:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    console.log('👋 Disconnected from MongoDB');
+  }
+}
+
+// Run the seed
+seedApprovalRules();
@@ -0,0 +1,127 @@
+/**
+ * Seed Budgets Script
+ *
+ * Populates the budgets collection with department budgets for the
+ * current calendar year and assigns a default cost center to users
+ * that don't have one yet:
+ * - CC-100 Operations: $50,000, warns when exceeded
+ * - CC-200 IT: $25,000, blocks checkout when exceeded
+ *
+ * Usage:
+ *   pnpm --filter web db:seed-budgets
+ *
+ * Environment Variables Required:
+ *   MONGODB_URI - MongoDB connection string
+ */
+
+/* eslint-disable no-console */
+
+import path from 'path';
+
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+
+// Load environment variables from .env.local
+dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
+
+// MongoDB connection URI from environment
+const MONGODB_URI = process.env.MONGODB_URI || process.env.MONGODB_URI_TEST;
+
+// Cost center assigned to users without one
+const DEFAULT_COST_CENTER = 'CC-100';
+
+// Fiscal period: current calendar year
+const year = new Date().getFullYear();
+const periodStart = new Date(Date.UTC(year, 0, 1));
+const periodEnd = new Date(Date.UTC(year, 11, 31, 23, 59, 59, 999));
+
+// Starter budgets
+const budgets = [
+  {
+    name: `Operations FY${year}`,
+    costCenter: 'CC-100',
+    department: 'Operations',
+    amount: 50000,
+    enforcement: 'warn',
+  },
+  {
+    name: `IT FY${year}`,
+    costCenter: 'CC-200',
+    department: 'IT',
+    amount: 25000,
+    enforcement: 'block',
+  },
+];
+
+async function seedBudgets() {
+  if (!MONGODB_URI) {
+    console.error('❌ MONGODB_URI is not set');
+    process.exit(1);
+  }
+
+  try {
+    console.log('🔌 Connecting to MongoDB...');
+    await mongoose.connect(MONGODB_URI);
+    console.log('✅ Connected to MongoDB');
+
+    const db = mongoose.connection.db;
+    if (!db) {
+      throw new Error('Database connection not available');
+    }
+
+    const collection = db.collection('budgets');
+
+    console.log(`📝 Seeding ${budgets.length} budgets for FY${year}...`);
+
+    let insertedCount = 0;
+    let skippedCount = 0;
+
+    for (const budget of budgets) {
+      // One budget per cost center and period
+      const existing = await collection.findOne({
+        costCenter: budget.costCenter,
+        periodStart,
+      });
+
+      if (existing) {
+        skippedCount++;
+        continue;
+      }
+
+      await collection.insertOne({
+        ...budget,
+        periodStart,
+        periodEnd,
+        isActive: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      insertedCount++;
+    }
+
+    // Assign the default cost center to users without one
+    const usersResult = await db
+      .collection('users')
+      .updateMany(
+        { costCenter: { $exists: false } },
+        { $set: { costCenter: DEFAULT_COST_CENTER } }
+      );
+
+    console.log(`\n✅ Seed completed successfully!`);
+    console.log(`   📊 Inserted: ${insertedCount} budgets`);
+    console.log(`   ⏭️  Skipped: ${skippedCount} budgets (already exist)`);
+    console.log(
+      `   👤 Assigned ${DEFAULT_COST_CENTER} to ${usersResult.modifiedCount} users`
+    );
+  } catch (error) {
+    console.error('❌ Seed failed:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    console.log('👋 Disconnected from MongoDB');
+  }
+}
+
+// Run the seed
+seedBudgets();
@@ -0,0 +1,103 @@
+/**
+ * Seed Delivery Locations Script
+ *
+ * Populates the delivery_locations collection with sample company sites
+ * requesters can choose at checkout:
+ * - HQ receiving dock
+ * - Central warehouse
+ * - Remote office
+ *
+ * Usage:
+ *   pnpm --filter web db:seed-delivery-locations
+ *
+ * Environment Variables Required:
+ *   MONGODB_URI - MongoDB connection string
+ */
+
+/* eslint-disable no-console */
+
+import path from 'path';
+
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+
+// Load environment variables from .env.local
+dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
+
+// MongoDB connection URI from environment
+const MONGODB_URI = process.env.MONGODB_URI || process.env.MONGODB_URI_TEST;
+
+// Sample delivery locations
+const locations = [
+  {
+    name: 'HQ - Receiving dock',
+    address: '100 Market Street, Loading Bay 2, Springfield, IL 62701',
+  },
+  {
+    name: 'Central Warehouse',
+    address: '2400 Industrial Parkway, Dock 7, Springfield, IL 62703',
+  },
+  {
+    name: 'Remote Office - Chicago',
+    address: '350 N Wells Street, Suite 900, Chicago, IL 60654',
+  },
+];
+
+async function seedDeliveryLocations() {
+  if (!MONGODB_URI) {
+    console.error('❌ MONGODB_URI is not set');
+    process.exit(1);
+  }
+
+  try {
+    console.log('🔌 Connecting to MongoDB...');
+    await mongoose.connect(MONGODB_URI);
+    console.log('✅ Connected to MongoDB');
+
+    const db = mongoose.connection.db;
+    if (!db) {
+      throw new Error('Database connection not available');
+    }
+
+    const collection = db.collection('delivery_locations');
+
+    console.log(`📝 Seeding ${locations.length} delivery locations...`);
+
+    let insertedCount = 0;
+    let skippedCount = 0;
+
+    for (const location of locations) {
+      // Location names are unique
+      const existing = await collection.findOne({ name: location.name });
+
+      if (existing) {
+        skippedCount++;
+        continue;
+      }
+
+      await collection.insertOne({
+        ...location,
+        isActive: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      insertedCount++;
+    }
+
+    console.log(`\n✅ Seed completed successfully!`);
+    console.log(`   📍 Inserted: ${insertedCount} delivery locations`);
+    console.log(
+      `   ⏭️  Skipped: ${skippedCount} delivery locations (already exist)`
+    );
+  } catch (error) {
+    console.error('❌ Seed failed:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    console.log('👋 Disconnected from MongoDB');
+  }
+}
+
+// Run the seed
+seedDeliveryLocations();
@@ -0,0 +1,157 @@
+/**
+ * Seed Suppliers Script
+ *
+ * Populates the suppliers collection with sample vendors and links
+ * active catalog items without supplier offers to them:
+ * - Every item is offered by the general supplier at its estimated price
+ * - Items in matching categories get a second, specialist offer
+ *
+ * Usage:
+ *   pnpm --filter web db:seed-suppliers
+ *
+ * Environment Variables Required:
+ *   MONGODB_URI - MongoDB connection string
+ */
+
+/* eslint-disable no-console */
+
+import path from 'path';
+
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+
+// Load environment variables from .env.local
+dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
+
+// MongoDB connection URI from environment
+const MONGODB_URI = process.env.MONGODB_URI || process.env.MONGODB_URI_TEST;
+
+// Sample suppliers
+// `categories` and `priceFactor` only drive the item offers seeded below
+const suppliers = [
+  {
+    name: 'Acme Office Supply',
+    contact: { name: 'Jordan Miles', email: 'orders@acme-office.example' },
+    paymentTerms: 'net_30',
+    leadTimeDays: 3,
+    taxId: 'US-41-1000001',
+    categories: [] as string[],
+    priceFactor: 1,
+  },
+  {
+    name: 'TechSource Distribution',
+    contact: { name: 'Priya Shah', email: 'sales@techsource.example' },
+    paymentTerms: 'net_45',
+    leadTimeDays: 7,
+    taxId: 'US-41-1000002',
+    categories: ['Electronics', 'IT Equipment', 'Software'],
+    priceFactor: 0.95,
+  },
+  {
+    name: 'Paper & Co.',
+    contact: { name: 'Sam Ortega', email: 'hello@paperco.example' },
+    paymentTerms: 'net_15',
+    leadTimeDays: 2,
+    taxId: 'US-41-1000003',
+    categories: ['Office Supplies', 'Paper', 'Stationery'],
+    priceFactor: 0.9,
+  },
+];
+
+/**
+ * Round a price to cents (minimum $0.01)
+ */
+function toPrice(value: number): number {
+  return Math.max(0.01, Math.round(value * 100) / 100);
+}
+
+async function seedSuppliers() {
+  if (!MONGODB_URI) {
+    console.error('❌ MONGODB_URI is not set');
+    process.exit(1);
+  }
+
+  try {
+    console.log('🔌 Connecting to MongoDB...');
+    await mongoose.connect(MONGODB_URI);
+    console.log('✅ Connected to MongoDB');
+
+    const db = mongoose.connection.db;
+    if (!db) {
+      throw new Error('Database connection not available');
+    }
+
+    const collection = db.collection('suppliers');
+
+    console.log(`📝 Seeding ${suppliers.length} suppliers...`);
+
+    let insertedCount = 0;
+    const supplierIds = new Map<string, mongoose.Types.ObjectId>();
+
+    for (const supplier of suppliers) {
+      const existing = await collection.findOne({ name: supplier.name });
+
+      if (existing) {
+        supplierIds.set(supplier.name, existing._id);
+        continue;
+      }
+
+      const result = await collection.insertOne({
+        name: supplier.name,
+        contact: supplier.contact,
+        paymentTerms: supplier.paymentTerms,
+        leadTimeDays: supplier.leadTimeDays,
+        taxId: supplier.taxId,
+        status: 'active',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      supplierIds.set(supplier.name, result.insertedId);
+      insertedCount++;
+    }
+
+    // Link items that have no supplier offers yet
+    const items = await db
+      .collection('items')
+      .find({
+        status: 'active',
+        $or: [{ suppliers: { $exists: false } }, { suppliers: { $size: 0 } }],
+      })
+      .toArray();
+
+    for (const item of items) {
+      const offers = suppliers
+        .filter(
+          (supplier) =>
+            supplier.categories.length === 0 ||
+            supplier.categories.includes(item.category)
+        )
+        .map((supplier) => ({
+          supplierId: supplierIds.get(supplier.name),
+          unitPrice: toPrice(item.estimatedPrice * supplier.priceFactor),
+          leadTimeDays: supplier.leadTimeDays,
+        }));
+
+      await db
+        .collection('items')
+        .updateOne({ _id: item._id }, { $set: { suppliers: offers } });
+    }
+
+    console.log(`\n✅ Seed completed successfully!`);
+    console.log(`   📊 Inserted: ${insertedCount} suppliers`);
+    console.log(
+      `   ⏭️  Skipped: ${suppliers.length - insertedCount} suppliers (already exist)`
+    );
+    console.log(`   🔗 Linked ${items.length} items to suppliers`);
+  } catch (error) {
+    console.error('❌ Seed failed:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    console.log('👋 Disconnected from MongoDB');
+  }
+}
+
+// Run the seed
+seedSuppliers();
@@ -2,20 +2,24 @@
  * Agent Chat API Route
  *
  * POST /api/agent/chat - Send message to AI agent
+ *
+ * See POST /api/agent/chat/stream for the streaming (SSE) variant.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { ZodError } from 'zod';
 
+import {
+  AgentMessageRejectedError,
+  validateAgentInput,
+} from '@/features/agent/lib/agent-input';
 import {
   handleAgentMessage,
   ValidationError,
 } from '@/features/agent/lib/agent.service';
 import { withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
 import { logger } from '@/lib/logger/winston.config';
-import { validateWithModeration } from '@/lib/validation/moderation';
-import { validateUserInput } from '@/lib/validation/promptInjection';
-import { validateAgentMessageRequest } from '@/lib/validation/schemas';
 
 // Force dynamic rendering to prevent build-time errors with AI provider
 export const dynamic = 'force-dynamic';
@@ -30,137 +34,108 @@ export const dynamic = 'force-dynamic';
  * - message: string (required)
  * - conversationId?: string (optional, for continuing conversation)
  */
-export const POST = withAuth(async (request: NextRequest, { userId }) => {
-  try {
-    // Parse request body
-    const body = await request.json();
-
-    // Validate request structure with Zod
-    const validatedRequest = validateAgentMessageRequest(body);
-
-    // Check for prompt injection (strict mode for high-severity patterns)
-    let safeMessage: string;
+export const POST = withAuth(
+  { permissions: [Permission.AgentUse] },
+  async (request: NextRequest, { userId }) => {
     try {
-      safeMessage = validateUserInput(validatedRequest.message, {
-        strict: true, // Throw on high-severity injection attempts
-        sanitize: true,
-      });
-    } catch (error) {
-      logger.warn('Prompt injection blocked', {
-        userId,
-        messageLength: validatedRequest.message.length,
-        error: error instanceof Error ? error.message : String(error),
-      });
+      // Parse request body
+      const body = await request.json();
 
-      return NextResponse.json(
-        {
-          error: 'Validation failed',
-          message:
-            'Your message contains patterns that may violate safety policies. Please rephrase and try again.',
-        },
-        { status: 400 }
+      // Validate shape, prompt injection and moderation
+      const { message: safeMessage, conversationId } = await validateAgentInput(
+        body,
+        userId
       );
-    }
-
-    // Optional: OpenAI moderation (if enabled)
-    try {
-      await validateWithModeration(safeMessage);
-    } catch (error) {
-      logger.warn('Content moderation blocked message', {
-        userId,
-        messageLength: safeMessage.length,
-        error: error instanceof Error ? error.message : String(error),
-      });
 
-      return NextResponse.json(
-        {
-          error: 'Content policy violation',
-          message:
-            'Your message violates content safety policies. Please revise and try again.',
-        },
-        { status: 400 }
+      // Handle agent message with timeout (60 seconds)
+      const timeoutPromise = new Promise((_, reject) =>
+        setTimeout(() => reject(new Error('Request timeout after 60s')), 60000)
       );
-    }
-
-    // Handle agent message with timeout (60 seconds)
-    const timeoutPromise = new Promise((_, reject) =>
-      setTimeout(() => reject(new Error('Request timeout after 60s')), 60000)
-    );
-
-    // Call agent service
-    const responsePromise = handleAgentMessage({
-      userId,
-      message: safeMessage,
-      conversationId: validatedRequest.conversationId,
-    });
 
-    const response = await Promise.race([
-      responsePromise,
-      timeoutPromise,
-    ]).catch((error) => {
-      logger.error('Error or timeout in handleAgentMessage', {
-        error: error instanceof Error ? error.message : String(error),
+      // Call agent service
+      const responsePromise = handleAgentMessage({
         userId,
+        message: safeMessage,
+        conversationId,
       });
-      throw error;
-    });
 
-    // Type assertion for logging
-    const typedResponse = response as {
-      conversationId?: string;
-      messages?: Array<{ metadata?: Record<string, unknown> }>;
-    };
+      const response = await Promise.race([
+        responsePromise,
+        timeoutPromise,
+      ]).catch((error) => {
+        logger.error('Error or timeout in handleAgentMessage', {
+          error: error instanceof Error ? error.message : String(error),
+          userId,
+        });
+        throw error;
+      });
 
-    logger.debug('[API] Agent response ready', {
-      conversationId: typedResponse.conversationId,
-      messageCount: typedResponse.messages?.length || 0,
-      hasMessages: !!typedResponse.messages,
-      lastMessageHasMetadata: typedResponse.messages?.[
-        typedResponse.messages.length - 1
-      ]?.metadata
-        ? true
-        : false,
-      lastMessageMetadataKeys: typedResponse.messages?.[
-        typedResponse.messages.length - 1
-      ]?.metadata
-        ? Object.keys(
-            typedResponse.messages[typedResponse.messages.length - 1].metadata!
-          )
-        : [],
-    });
+      // Type assertion for logging
+      const typedResponse = response as {
+        conversationId?: string;
+        messages?: Array<{ metadata?: Record<string, unknown> }>;
+      };
+
+      logger.debug('[API] Agent response ready', {
+        conversationId: typedResponse.conversationId,
+        messageCount: typedResponse.messages?.length || 0,
+        hasMessages: !!typedResponse.messages,
+        lastMessageHasMetadata: typedResponse.messages?.[
+          typedResponse.messages.length - 1
+        ]?.metadata
+          ? true
+          : false,
+        lastMessageMetadataKeys: typedResponse.messages?.[
+          typedResponse.messages.length - 1
+        ]?.metadata
+          ? Object.keys(
+              typedResponse.messages[typedResponse.messages.length - 1]
+                .metadata!
+            )
+          : [],
+      });
 
-    return NextResponse.json(response);
-  } catch (error) {
-    logger.error('Error in POST /api/agent/chat', {
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-    });
+      return NextResponse.json(response);
+    } catch (error) {
+      // Safety checks already logged the rejection
+      if (error instanceof AgentMessageRejectedError) {
+        return NextResponse.json(
+          { error: error.error, message: error.message },
+          { status: 400 }
+        );
+      }
+
+      logger.error('Error in POST /api/agent/chat', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
 
-    // Handle Zod validation errors
-    if (error instanceof ZodError) {
-      const zodError = error as { issues: Array<{ message: string }> };
+      // Handle Zod validation errors
+      if (error instanceof ZodError) {
+        const zodError = error as { issues: Array<{ message: string }> };
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            message: zodError.issues[0]?.message || 'Invalid request format',
+            details: zodError.issues,
+          },
+          { status: 400 }
+        );
+      }
+
+      // Handle specific errors
+      if (error instanceof ValidationError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      // Generic error (don't leak internal details)
       return NextResponse.json(
         {
-          error: 'Validation failed',
-          message: zodError.issues[0]?.message || 'Invalid request format',
-          details: zodError.issues,
+          error: 'Agent error',
+          message:
+            'An error occurred while processing your request. Please try again.',
         },
-        { status: 400 }
+        { status: 500 }
       );
     }
-
-    // Handle specific errors
-    if (error instanceof ValidationError) {
-      return NextResponse.json({ error: error.message }, { status: 400 });
-    }
-    // Generic error (don't leak internal details)
-    return NextResponse.json(
-      {
-        error: 'Agent error',
-        message:
-          'An error occurred while processing your request. Please try again.',
-      },
-      { status: 500 }
-    );
   }
-});
+);
@@ -0,0 +1,150 @@
+/**
+ * Agent Chat Streaming API Route
+ *
+ * POST /api/agent/chat/stream - Send message to AI agent, stream progress (SSE)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+
+import {
+  AgentMessageRejectedError,
+  validateAgentInput,
+} from '@/features/agent/lib/agent-input';
+import {
+  handleAgentMessage,
+  ValidationError,
+} from '@/features/agent/lib/agent.service';
+import type { AgentStreamEvent } from '@/features/agent/types';
+import { withAuth } from '@/lib/api';
+import { formatSseEvent } from '@/lib/api/sse';
+import { Permission } from '@/lib/auth/permissions';
+import { logger } from '@/lib/logger/winston.config';
+
+// Force dynamic rendering to prevent build-time errors with AI provider
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/agent/chat/stream
+ *
+ * Same input and checks as POST /api/agent/chat, but the response is a
+ * text/event-stream. Events (data is JSON):
+ * - token: { delta } - text from the model as it is generated
+ * - tool_start: { toolCallId, name }
+ * - tool_end: { toolCallId, name, durationMs, success }
+ * - done: { conversationId, message } - final agent message with items,
+ *   cart, checkoutConfirmation and purchaseRequest
+ * - error: { message } - the turn failed
+ *
+ * Invalid or rejected messages fail with a JSON 400 before streaming starts.
+ * Requires authentication
+ *
+ * Body:
+ * - message: string (required)
+ * - conversationId?: string (optional, for continuing conversation)
+ */
+export const POST = withAuth(
+  { permissions: [Permission.AgentUse] },
+  async (request: NextRequest, { userId }) => {
+    let input: Awaited<ReturnType<typeof validateAgentInput>>;
+
+    try {
+      const body = await request.json();
+
+      input = await validateAgentInput(body, userId);
+    } catch (error) {
+      if (error instanceof AgentMessageRejectedError) {
+        return NextResponse.json(
+          { error: error.error, message: error.message },
+          { status: 400 }
+        );
+      }
+      if (error instanceof ZodError) {
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            message: error.issues[0]?.message || 'Invalid request format',
+            details: error.issues,
+          },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Validation failed', message: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let closed = false;
+
+        // The client may disconnect mid-turn; the turn still completes
+        // and is saved, events are just dropped
+        const send = (event: AgentStreamEvent) => {
+          if (closed) {
+            return;
+          }
+          try {
+            controller.enqueue(
+              encoder.encode(formatSseEvent(event.type, event))
+            );
+          } catch {
+            closed = true;
+          }
+        };
+
+        try {
+          const response = await handleAgentMessage({
+            userId,
+            message: input.message,
+            conversationId: input.conversationId,
+            onEvent: send,
+          });
+
+          const finalMessage =
+            response.messages.filter((msg) => msg.role === 'agent').pop() ??
+            null;
+
+          send({
+            type: 'done',
+            conversationId: response.conversationId,
+            message: finalMessage,
+          });
+        } catch (error) {
+          logger.error('Error in POST /api/agent/chat/stream', {
+            userId,
+            error: error instanceof Error ? error.message : String(error),
+            stack: error instanceof Error ? error.stack : undefined,
+          });
+
+          send({
+            type: 'error',
+            // Don't leak internal details
+            message:
+              error instanceof ValidationError
+                ? error.message
+                : 'An error occurred while processing your request. Please try again.',
+          });
+        } finally {
+          if (!closed) {
+            closed = true;
+            controller.close();
+          }
+        }
+      },
+    });
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        // Disable proxy buffering (nginx) so events arrive immediately
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  }
+);
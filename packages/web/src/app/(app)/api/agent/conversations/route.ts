@@ -1,45 +1,60 @@
 /**
  * Agent Conversations API Route
  * GET /api/agent/conversations - List user's conversation history
+ *
+ * Query params:
+ * - cursor: Cursor from the previous page (optional)
+ * - limit: Page size (optional, default 10, max 100)
  */
 
 import { NextResponse } from 'next/server';
 
 import { listConversationsForUser } from '@/features/agent/lib/agent.service';
-import { handleApiError, withAuth } from '@/lib/api';
+import { handleApiError, parsePageParams, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
 
 // Force dynamic rendering to prevent build-time errors with database
 export const dynamic = 'force-dynamic';
 
-export const GET = withAuth(async (request, { userId }) => {
-  try {
-    // Check if MongoDB is configured
-    if (!process.env.MONGODB_URI) {
-      return NextResponse.json(
-        {
-          success: true,
-          data: [], // Return empty array when DB not configured
-        },
-        { status: 200 }
-      );
-    }
+export const GET = withAuth(
+  { permissions: [Permission.AgentUse] },
+  async (request, { userId }) => {
+    try {
+      // Check if MongoDB is configured
+      if (!process.env.MONGODB_URI) {
+        return NextResponse.json(
+          {
+            success: true,
+            data: [], // Return empty array when DB not configured
+            nextCursor: null,
+            hasMore: false,
+          },
+          { status: 200 }
+        );
+      }
 
-    // Get limit from query params (optional)
-    const searchParams = request.nextUrl.searchParams;
-    const limitParam = searchParams.get('limit');
-    const limit = limitParam ? parseInt(limitParam, 10) : 10;
+      // Get cursor and limit from query params (optional)
+      const page = parsePageParams(request.nextUrl.searchParams, {
+        defaultLimit: 10,
+      });
 
-    // Fetch conversations for user
-    const conversations = await listConversationsForUser(userId, limit);
+      // Fetch conversations for user
+      const { items, nextCursor, hasMore } = await listConversationsForUser(
+        userId,
+        page
+      );
 
-    return NextResponse.json({
-      success: true,
-      data: conversations,
-    });
-  } catch (error) {
-    return handleApiError(error, {
-      route: 'GET /api/agent/conversations',
-      userId,
-    });
+      return NextResponse.json({
+        success: true,
+        data: items,
+        nextCursor,
+        hasMore,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/agent/conversations',
+        userId,
+      });
+    }
   }
-});
+);
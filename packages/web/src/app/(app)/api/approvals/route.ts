@@ -0,0 +1,38 @@
+/**
+ * Approvals API Route
+ *
+ * GET /api/approvals - List purchase requests awaiting the user's approval
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as approvalService from '@/features/approvals';
+import { handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/approvals
+ *
+ * Approver inbox: purchase requests whose current approval step the
+ * authenticated user can act on (oldest first)
+ */
+export const GET = withAuth(
+  { permissions: [Permission.ApprovalReview] },
+  async (_request, { userId }) => {
+    try {
+      const requests =
+        await approvalService.listPendingApprovalsForUser(userId);
+
+      return NextResponse.json({
+        success: true,
+        data: requests,
+        count: requests.length,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/approvals',
+        userId,
+      });
+    }
+  }
+);
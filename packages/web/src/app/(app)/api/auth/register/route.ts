@@ -3,11 +3,22 @@
  * POST /api/auth/register
  *
  * Creates a new user account with hashed password
+ *
+ * Public endpoint: self-registered accounts are always requesters.
+ * Creating buyer/admin accounts requires an admin session (users:manage).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
 
 import { registerUser } from '@/features/auth';
+import { forbidden } from '@/lib/api';
+import { authConfig } from '@/lib/auth/config';
+import {
+  DEFAULT_ROLE,
+  hasPermission,
+  Permission,
+} from '@/lib/auth/permissions';
 
 export async function POST(request: NextRequest) {
   try {
@@ -26,6 +37,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Only admins may assign elevated roles
+    if (role && role !== DEFAULT_ROLE) {
+      const session = await getServerSession(authConfig);
+      if (!hasPermission(session?.user?.role, Permission.UserManage)) {
+        return forbidden('Only administrators can assign elevated roles', {
+          route: 'POST /api/auth/register',
+          userId: session?.user?.id,
+        });
+      }
+    }
+
     // Register user
     const user = await registerUser({
       email,
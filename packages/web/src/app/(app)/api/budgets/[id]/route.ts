@@ -0,0 +1,90 @@
+/**
+ * Single Budget API Route
+ *
+ * GET /api/budgets/[id] - Get budget status and burn-down series
+ * PUT /api/budgets/[id] - Update a budget (admins only)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as budgetService from '@/features/budgets';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/budgets/[id]
+ *
+ * Get a budget's committed spend and daily burn-down series
+ * Non-admins may only view budgets for their own cost center.
+ */
+export const GET = withAuth(
+  { permissions: [Permission.BudgetRead] },
+  async (_request, { userId, role, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id) {
+        return badRequest('Budget ID is required', {
+          route: 'GET /api/budgets/[id]',
+          userId,
+        });
+      }
+
+      const burnDown = await budgetService.getBudgetBurnDown(id);
+
+      // Hide other cost centers' budgets from non-admins
+      if (!hasPermission(role, Permission.BudgetManage)) {
+        const costCenter = await budgetService.getUserCostCenter(userId);
+        if (costCenter !== burnDown.status.budget.costCenter) {
+          throw new budgetService.BudgetNotFoundError(id);
+        }
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: burnDown,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/budgets/[id]',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/budgets/[id]
+ *
+ * Update a budget (amount, period, enforcement, etc.)
+ * Requires budgets:manage permission (admins only)
+ */
+export const PUT = withAuth(
+  { permissions: [Permission.BudgetManage] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id) {
+        return badRequest('Budget ID is required', {
+          route: 'PUT /api/budgets/[id]',
+          userId,
+        });
+      }
+
+      const body = await request.json();
+
+      const budget = await budgetService.updateBudget(id, body);
+
+      return NextResponse.json({
+        success: true,
+        data: budget,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'PUT /api/budgets/[id]',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,36 @@
+/**
+ * Budget Check API Route
+ *
+ * GET /api/budgets/check - Check the current cart against the user's budget
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as budgetService from '@/features/budgets';
+import { handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/budgets/check
+ *
+ * Check the authenticated user's cart total against the active budget
+ * of their cost center. Returns null data when no budget applies.
+ */
+export const GET = withAuth(
+  { permissions: [Permission.CartManage] },
+  async (_request, { userId }) => {
+    try {
+      const check = await budgetService.checkCartBudget(userId);
+
+      return NextResponse.json({
+        success: true,
+        data: check,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/budgets/check',
+        userId,
+      });
+    }
+  }
+);
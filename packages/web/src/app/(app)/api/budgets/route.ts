@@ -0,0 +1,99 @@
+/**
+ * Budgets API Route
+ *
+ * GET /api/budgets - List department budgets with committed spend
+ * POST /api/budgets - Create a budget (admins only)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as budgetService from '@/features/budgets';
+import { handleApiError, withAuth } from '@/lib/api';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/budgets
+ *
+ * List budgets with committed spend and remaining balance
+ * Admins (budgets:manage) see every budget; other users only see
+ * budgets for their own cost center.
+ *
+ * Query params:
+ * - costCenter?: string (admins only)
+ * - active?: 'true' to return only active budgets
+ */
+export const GET = withAuth(
+  { permissions: [Permission.BudgetRead] },
+  async (request, { userId, role }) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const activeOnly = searchParams.get('active') === 'true';
+
+      let costCenter: string | undefined;
+      if (hasPermission(role, Permission.BudgetManage)) {
+        costCenter = searchParams.get('costCenter') || undefined;
+      } else {
+        costCenter = await budgetService.getUserCostCenter(userId);
+        if (!costCenter) {
+          return NextResponse.json({ success: true, data: [], count: 0 });
+        }
+      }
+
+      const budgets = await budgetService.listBudgetStatuses({
+        costCenter,
+        activeOnly,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: budgets,
+        count: budgets.length,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/budgets',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/budgets
+ *
+ * Create a budget for a cost center and fiscal period
+ * Requires budgets:manage permission (admins only)
+ *
+ * Body:
+ * - name: string
+ * - costCenter: string
+ * - department?: string
+ * - periodStart: string (ISO date)
+ * - periodEnd: string (ISO date)
+ * - amount: number
+ * - enforcement?: 'warn' | 'block' (default: 'warn')
+ * - isActive?: boolean (default: true)
+ */
+export const POST = withAuth(
+  { permissions: [Permission.BudgetManage] },
+  async (request, { userId }) => {
+    try {
+      const body = await request.json();
+
+      const budget = await budgetService.createBudget(body);
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: budget,
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/budgets',
+        userId,
+      });
+    }
+  }
+);
@@ -9,6 +9,7 @@ import { NextResponse } from 'next/server';
 
 import * as cartService from '@/features/cart';
 import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
 
 /**
  * PATCH /api/cart/items/[itemId]
@@ -19,49 +20,52 @@ import { badRequest, handleApiError, withAuth } from '@/lib/api';
  * Body:
  * - quantity: number (required, 1-999)
  */
-export const PATCH = withAuth(async (request, { userId, params }) => {
-  try {
-    // Get itemId from path
-    const itemId = params?.itemId;
+export const PATCH = withAuth(
+  { permissions: [Permission.CartManage] },
+  async (request, { userId, params }) => {
+    try {
+      // Get itemId from path
+      const itemId = params?.itemId;
 
-    if (!itemId) {
-      return badRequest('itemId is required', {
-        route: 'PATCH /api/cart/items/[itemId]',
-        userId,
-      });
-    }
+      if (!itemId) {
+        return badRequest('itemId is required', {
+          route: 'PATCH /api/cart/items/[itemId]',
+          userId,
+        });
+      }
 
-    // Parse request body
-    const body = await request.json();
+      // Parse request body
+      const body = await request.json();
+
+      // Validate quantity
+      if (
+        !body.quantity ||
+        typeof body.quantity !== 'number' ||
+        body.quantity < 1 ||
+        body.quantity > 999
+      ) {
+        return badRequest('quantity must be a number between 1 and 999', {
+          route: 'PATCH /api/cart/items/[itemId]',
+          userId,
+        });
+      }
+
+      // Update cart item quantity
+      const cart = await cartService.updateCartItemQuantity(
+        userId,
+        itemId,
+        body.quantity
+      );
 
-    // Validate quantity
-    if (
-      !body.quantity ||
-      typeof body.quantity !== 'number' ||
-      body.quantity < 1 ||
-      body.quantity > 999
-    ) {
-      return badRequest('quantity must be a number between 1 and 999', {
+      return NextResponse.json({ cart });
+    } catch (error) {
+      return handleApiError(error, {
         route: 'PATCH /api/cart/items/[itemId]',
         userId,
       });
     }
-
-    // Update cart item quantity
-    const cart = await cartService.updateCartItemQuantity(
-      userId,
-      itemId,
-      body.quantity
-    );
-
-    return NextResponse.json({ cart });
-  } catch (error) {
-    return handleApiError(error, {
-      route: 'PATCH /api/cart/items/[itemId]',
-      userId,
-    });
   }
-});
+);
 
 /**
  * DELETE /api/cart/items/[itemId]
@@ -69,26 +73,29 @@ export const PATCH = withAuth(async (request, { userId, params }) => {
  * Remove item from cart
  * Requires authentication
  */
-export const DELETE = withAuth(async (_request, { userId, params }) => {
-  try {
-    // Get itemId from path
-    const itemId = params?.itemId;
+export const DELETE = withAuth(
+  { permissions: [Permission.CartManage] },
+  async (_request, { userId, params }) => {
+    try {
+      // Get itemId from path
+      const itemId = params?.itemId;
+
+      if (!itemId) {
+        return badRequest('itemId is required', {
+          route: 'DELETE /api/cart/items/[itemId]',
+          userId,
+        });
+      }
 
-    if (!itemId) {
-      return badRequest('itemId is required', {
+      // Remove item from cart
+      const cart = await cartService.removeCartItem(userId, itemId);
+
+      return NextResponse.json({ cart });
+    } catch (error) {
+      return handleApiError(error, {
         route: 'DELETE /api/cart/items/[itemId]',
         userId,
       });
     }
-
-    // Remove item from cart
-    const cart = await cartService.removeCartItem(userId, itemId);
-
-    return NextResponse.json({ cart });
-  } catch (error) {
-    return handleApiError(error, {
-      route: 'DELETE /api/cart/items/[itemId]',
-      userId,
-    });
   }
-});
+);
@@ -8,6 +8,7 @@ import { NextResponse } from 'next/server';
 
 import * as cartService from '@/features/cart';
 import { handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
 
 /**
  * GET /api/cart
@@ -15,16 +16,19 @@ import { handleApiError, withAuth } from '@/lib/api';
  * Get current user's cart
  * Requires authentication
  */
-export const GET = withAuth(async (_request, { userId }) => {
-  try {
-    // Get cart for user
-    const cart = await cartService.getCartForUser(userId);
+export const GET = withAuth(
+  { permissions: [Permission.CartManage] },
+  async (_request, { userId }) => {
+    try {
+      // Get cart for user
+      const cart = await cartService.getCartForUser(userId);
 
-    return NextResponse.json({ cart });
-  } catch (error) {
-    return handleApiError(error, {
-      route: 'GET /api/cart',
-      userId,
-    });
+      return NextResponse.json({ cart });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/cart',
+        userId,
+      });
+    }
   }
-});
+);
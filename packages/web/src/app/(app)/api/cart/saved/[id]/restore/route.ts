@@ -0,0 +1,47 @@
+/**
+ * Saved Cart Restore API Route
+ *
+ * POST /api/cart/saved/[id]/restore - Restore a saved cart or apply a template
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as cartService from '@/features/cart';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * POST /api/cart/saved/[id]/restore
+ *
+ * Merge the lines of a saved cart or template into the cart at current
+ * catalog prices. A saved cart is removed afterwards; a template is kept.
+ * Deleted and archived items are skipped and listed in `skipped`.
+ * Requires authentication
+ */
+export const POST = withAuth(
+  { permissions: [Permission.CartManage] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid saved cart ID', {
+          route: 'POST /api/cart/saved/[id]/restore',
+          userId,
+        });
+      }
+
+      const result = await cartService.restoreSavedCart(userId, id);
+
+      return NextResponse.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/cart/saved/[id]/restore',
+        userId,
+      });
+    }
+  }
+);
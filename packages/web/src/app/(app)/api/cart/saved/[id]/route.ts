@@ -0,0 +1,42 @@
+/**
+ * Saved Cart API Route
+ *
+ * DELETE /api/cart/saved/[id] - Delete a saved cart or template
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as cartService from '@/features/cart';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * DELETE /api/cart/saved/[id]
+ *
+ * Delete one of the current user's saved carts or templates
+ * Requires authentication
+ */
+export const DELETE = withAuth(
+  { permissions: [Permission.CartManage] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid saved cart ID', {
+          route: 'DELETE /api/cart/saved/[id]',
+          userId,
+        });
+      }
+
+      await cartService.deleteSavedCart(userId, id);
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'DELETE /api/cart/saved/[id]',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,77 @@
+/**
+ * Saved Carts API Route
+ *
+ * GET /api/cart/saved - List the user's saved carts and templates
+ * POST /api/cart/saved - Save the cart under a name
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as cartService from '@/features/cart';
+import { handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/cart/saved
+ *
+ * List the current user's saved carts and templates, most recently
+ * updated first
+ * Requires authentication
+ */
+export const GET = withAuth(
+  { permissions: [Permission.CartManage] },
+  async (_request, { userId }) => {
+    try {
+      const savedCarts = await cartService.listSavedCarts(userId);
+
+      return NextResponse.json({
+        success: true,
+        data: savedCarts,
+        count: savedCarts.length,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/cart/saved',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/cart/saved
+ *
+ * Save the cart under a name. A saved cart empties the cart (parked for
+ * later); a template keeps it.
+ * Requires authentication
+ *
+ * Body:
+ * - name: string (unique per user)
+ * - kind?: 'saved' | 'template' (default 'saved')
+ */
+export const POST = withAuth(
+  { permissions: [Permission.CartManage] },
+  async (request, { userId }) => {
+    try {
+      const body = await request.json();
+
+      const savedCart = await cartService.saveCart(userId, {
+        name: body?.name,
+        kind: body?.kind,
+      });
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: savedCart,
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/cart/saved',
+        userId,
+      });
+    }
+  }
+);
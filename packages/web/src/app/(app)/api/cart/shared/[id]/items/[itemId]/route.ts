@@ -0,0 +1,143 @@
+/**
+ * Shared Cart Item API Route
+ *
+ * PATCH /api/cart/shared/[id]/items/[itemId] - Update item quantity
+ * DELETE /api/cart/shared/[id]/items/[itemId] - Remove item from the cart
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as cartService from '@/features/cart';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * PATCH /api/cart/shared/[id]/items/[itemId]
+ *
+ * Update item quantity in a shared cart
+ * Requires authentication; owner or collaborator
+ *
+ * Body:
+ * - quantity: number (required, 1-999)
+ * - version?: number (cart version the change is based on)
+ *
+ * Returns 409 CART_CONFLICT when the cart changed since that version.
+ */
+export const PATCH = withAuth(
+  { permissions: [Permission.CartManage] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+      const itemId = params?.itemId;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid cart ID', {
+          route: 'PATCH /api/cart/shared/[id]/items/[itemId]',
+          userId,
+        });
+      }
+      if (!itemId) {
+        return badRequest('itemId is required', {
+          route: 'PATCH /api/cart/shared/[id]/items/[itemId]',
+          userId,
+        });
+      }
+
+      const body = await request.json();
+
+      if (
+        !body.quantity ||
+        typeof body.quantity !== 'number' ||
+        body.quantity < 1 ||
+        body.quantity > 999
+      ) {
+        return badRequest('quantity must be a number between 1 and 999', {
+          route: 'PATCH /api/cart/shared/[id]/items/[itemId]',
+          userId,
+        });
+      }
+      if (body.version !== undefined && !Number.isInteger(body.version)) {
+        return badRequest('version must be an integer', {
+          route: 'PATCH /api/cart/shared/[id]/items/[itemId]',
+          userId,
+        });
+      }
+
+      const cart = await cartService.updateCartItemQuantity(
+        userId,
+        itemId,
+        body.quantity,
+        { cartId: id, version: body.version }
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: cart,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'PATCH /api/cart/shared/[id]/items/[itemId]',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/cart/shared/[id]/items/[itemId]
+ *
+ * Remove item from a shared cart
+ * Requires authentication; owner or collaborator
+ *
+ * Query:
+ * - version?: number (cart version the change is based on)
+ *
+ * Returns 409 CART_CONFLICT when the cart changed since that version.
+ */
+export const DELETE = withAuth(
+  { permissions: [Permission.CartManage] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+      const itemId = params?.itemId;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid cart ID', {
+          route: 'DELETE /api/cart/shared/[id]/items/[itemId]',
+          userId,
+        });
+      }
+      if (!itemId) {
+        return badRequest('itemId is required', {
+          route: 'DELETE /api/cart/shared/[id]/items/[itemId]',
+          userId,
+        });
+      }
+
+      const versionParam = request.nextUrl.searchParams.get('version');
+      const version = versionParam === null ? undefined : Number(versionParam);
+
+      if (version !== undefined && !Number.isInteger(version)) {
+        return badRequest('version must be an integer', {
+          route: 'DELETE /api/cart/shared/[id]/items/[itemId]',
+          userId,
+        });
+      }
+
+      const cart = await cartService.removeCartItem(userId, itemId, {
+        cartId: id,
+        version,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: cart,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'DELETE /api/cart/shared/[id]/items/[itemId]',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,82 @@
+/**
+ * Shared Cart Items API Route
+ *
+ * POST /api/cart/shared/[id]/items - Add item to a shared cart
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as cartService from '@/features/cart';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * POST /api/cart/shared/[id]/items
+ *
+ * Add item to a shared cart; the line records who added it
+ * Requires authentication; owner or collaborator
+ *
+ * Body:
+ * - itemId: string (required)
+ * - quantity: number (optional, default 1)
+ * - version?: number (cart version the change is based on)
+ *
+ * Returns 409 CART_CONFLICT when the cart changed since that version.
+ */
+export const POST = withAuth(
+  { permissions: [Permission.CartManage] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid cart ID', {
+          route: 'POST /api/cart/shared/[id]/items',
+          userId,
+        });
+      }
+
+      const body = await request.json();
+
+      if (!body.itemId) {
+        return badRequest('itemId is required', {
+          route: 'POST /api/cart/shared/[id]/items',
+          userId,
+        });
+      }
+      if (
+        body.quantity !== undefined &&
+        (typeof body.quantity !== 'number' ||
+          body.quantity < 1 ||
+          body.quantity > 999)
+      ) {
+        return badRequest('quantity must be between 1 and 999', {
+          route: 'POST /api/cart/shared/[id]/items',
+          userId,
+        });
+      }
+      if (body.version !== undefined && !Number.isInteger(body.version)) {
+        return badRequest('version must be an integer', {
+          route: 'POST /api/cart/shared/[id]/items',
+          userId,
+        });
+      }
+
+      const cart = await cartService.addItemToCart(
+        userId,
+        { itemId: body.itemId, quantity: body.quantity },
+        { cartId: id, version: body.version }
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: cart,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/cart/shared/[id]/items',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,53 @@
+/**
+ * Shared Cart Member API Route
+ *
+ * DELETE /api/cart/shared/[id]/members/[memberId] - Remove a collaborator
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as cartService from '@/features/cart';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * DELETE /api/cart/shared/[id]/members/[memberId]
+ *
+ * Remove a collaborator from the shared cart. The owner can remove any
+ * collaborator; a collaborator can remove themselves to leave the cart.
+ * Requires authentication
+ */
+export const DELETE = withAuth(
+  { permissions: [Permission.CartManage] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+      const memberId = params?.memberId;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid cart ID', {
+          route: 'DELETE /api/cart/shared/[id]/members/[memberId]',
+          userId,
+        });
+      }
+      if (!memberId || !/^[0-9a-fA-F]{24}$/.test(memberId)) {
+        return badRequest('Invalid member ID', {
+          route: 'DELETE /api/cart/shared/[id]/members/[memberId]',
+          userId,
+        });
+      }
+
+      const cart = await cartService.removeCartMember(userId, id, memberId);
+
+      return NextResponse.json({
+        success: true,
+        data: cart,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'DELETE /api/cart/shared/[id]/members/[memberId]',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,52 @@
+/**
+ * Shared Cart Members API Route
+ *
+ * POST /api/cart/shared/[id]/members - Invite a collaborator (owner only)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as cartService from '@/features/cart';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * POST /api/cart/shared/[id]/members
+ *
+ * Add a user as collaborator of the shared cart
+ * Requires authentication; only the owner can invite
+ *
+ * Body:
+ * - email: string (email of an existing user)
+ */
+export const POST = withAuth(
+  { permissions: [Permission.CartManage] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid cart ID', {
+          route: 'POST /api/cart/shared/[id]/members',
+          userId,
+        });
+      }
+
+      const body = await request.json();
+
+      const cart = await cartService.addCartCollaborator(userId, id, {
+        email: body?.email,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: cart,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/cart/shared/[id]/members',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,78 @@
+/**
+ * Shared Cart API Route
+ *
+ * GET /api/cart/shared/[id] - Get a shared cart
+ * DELETE /api/cart/shared/[id] - Delete a shared cart (owner only)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as cartService from '@/features/cart';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/cart/shared/[id]
+ *
+ * Get a shared cart the current user is a member of, with its members,
+ * who added each line and its version
+ * Requires authentication
+ */
+export const GET = withAuth(
+  { permissions: [Permission.CartManage] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid cart ID', {
+          route: 'GET /api/cart/shared/[id]',
+          userId,
+        });
+      }
+
+      const cart = await cartService.getCartForUser(userId, { cartId: id });
+
+      return NextResponse.json({
+        success: true,
+        data: cart,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/cart/shared/[id]',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/cart/shared/[id]
+ *
+ * Delete a shared cart and its lines
+ * Requires authentication; only the owner can delete
+ */
+export const DELETE = withAuth(
+  { permissions: [Permission.CartManage] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid cart ID', {
+          route: 'DELETE /api/cart/shared/[id]',
+          userId,
+        });
+      }
+
+      await cartService.deleteSharedCart(userId, id);
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'DELETE /api/cart/shared/[id]',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,74 @@
+/**
+ * Shared Carts API Route
+ *
+ * GET /api/cart/shared - List the shared carts the user is a member of
+ * POST /api/cart/shared - Create a shared cart
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as cartService from '@/features/cart';
+import { handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/cart/shared
+ *
+ * List the shared carts the current user owns or collaborates on, most
+ * recently updated first
+ * Requires authentication
+ */
+export const GET = withAuth(
+  { permissions: [Permission.CartManage] },
+  async (_request, { userId }) => {
+    try {
+      const carts = await cartService.listSharedCarts(userId);
+
+      return NextResponse.json({
+        success: true,
+        data: carts,
+        count: carts.length,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/cart/shared',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/cart/shared
+ *
+ * Create a shared cart owned by the current user
+ * Requires authentication
+ *
+ * Body:
+ * - name: string
+ */
+export const POST = withAuth(
+  { permissions: [Permission.CartManage] },
+  async (request, { userId }) => {
+    try {
+      const body = await request.json();
+
+      const cart = await cartService.createSharedCart(userId, {
+        name: body?.name,
+      });
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: cart,
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/cart/shared',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,41 @@
+/**
+ * Checkout Review API Route
+ *
+ * GET /api/checkout/review - Compare the cart against the live catalog
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as checkoutService from '@/features/checkout';
+import { handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/checkout/review
+ *
+ * Report price changes and unavailable items in the authenticated user's
+ * cart, with the total checkout will use. When confirmation is required,
+ * pass that total as confirmedTotal to POST /api/checkout.
+ *
+ * Query:
+ * - cartId?: string (shared cart to review; owner only)
+ */
+export const GET = withAuth(
+  { permissions: [Permission.PurchaseCreate] },
+  async (request, { userId }) => {
+    try {
+      const cartId = request.nextUrl.searchParams.get('cartId') ?? undefined;
+      const review = await checkoutService.reviewCart(userId, { cartId });
+
+      return NextResponse.json({
+        success: true,
+        data: review,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/checkout/review',
+        userId,
+      });
+    }
+  }
+);
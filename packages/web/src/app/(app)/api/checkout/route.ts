@@ -7,7 +7,8 @@
 import { NextResponse } from 'next/server';
 
 import * as checkoutService from '@/features/checkout';
-import { handleApiError, withAuth } from '@/lib/api';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
 
 /**
  * POST /api/checkout
@@ -15,32 +16,121 @@ import { handleApiError, withAuth } from '@/lib/api';
  * Complete checkout and create purchase request
  * Requires authentication
  *
+ * Headers:
+ * - Idempotency-Key?: string (1-255 visible ASCII characters, e.g. a UUID;
+ *   a repeated key with the same body returns the original purchase
+ *   request with 200 instead of creating another one; keys expire after
+ *   24 hours)
+ *
  * Body:
  * - notes?: string (optional justification/notes)
+ * - confirmedTotal?: number (total confirmed after reviewing cart changes)
+ * - cartId?: string (shared cart to check out; owner only)
+ * - version?: number (shared cart version the owner reviewed)
+ * - costCenter?: string (default: the requester's cost center; another
+ *   known cost center requires budget management permission)
+ * - glCode?: string (GL account code)
+ * - deliveryLocationId?: string (active delivery location)
+ * - requestedDeliveryDate?: string (YYYY-MM-DD; must leave every line its
+ *   supplier lead time)
+ * - lineOverrides?: Array<{ itemId: string; glCode?: string;
+ *   deliveryLocationId?: string; requestedDeliveryDate?: string }>
+ *
+ * Returns 409 CHECKOUT_CONFIRMATION_REQUIRED when prices changed or items
+ * became unavailable since they were added; review them with
+ * GET /api/checkout/review and resend with the confirmed total.
+ *
+ * The response includes the department budget check (null if no budget
+ * applies). Returns 409 BUDGET_EXCEEDED when a blocking budget would be
+ * exceeded. Returns 409 CART_CONFLICT when the shared cart changed since
+ * the given version. Returns 422 IDEMPOTENCY_KEY_REUSED when the
+ * Idempotency-Key was already used with a different body.
  */
-export const POST = withAuth(async (request, { userId }) => {
-  try {
-    // Parse request body
-    const body = await request.json().catch(() => ({}));
-
-    // Complete checkout
-    const purchaseRequest = await checkoutService.checkoutCart(
-      userId,
-      body.notes
-    );
-
-    return NextResponse.json(
-      {
-        message: 'Checkout completed successfully',
-        purchaseRequest,
-        note: 'This is a simulated ERP submission for the tech case',
-      },
-      { status: 201 }
-    );
-  } catch (error) {
-    return handleApiError(error, {
-      route: 'POST /api/checkout',
-      userId,
-    });
+export const POST = withAuth(
+  { permissions: [Permission.PurchaseCreate] },
+  async (request, { userId }) => {
+    try {
+      // Parse request body
+      const body = await request.json().catch(() => ({}));
+
+      if (
+        body.confirmedTotal !== undefined &&
+        (typeof body.confirmedTotal !== 'number' ||
+          !Number.isFinite(body.confirmedTotal))
+      ) {
+        return badRequest('confirmedTotal must be a number', {
+          route: 'POST /api/checkout',
+          userId,
+        });
+      }
+
+      if (body.cartId !== undefined && typeof body.cartId !== 'string') {
+        return badRequest('cartId must be a string', {
+          route: 'POST /api/checkout',
+          userId,
+        });
+      }
+      if (body.version !== undefined && !Number.isInteger(body.version)) {
+        return badRequest('version must be an integer', {
+          route: 'POST /api/checkout',
+          userId,
+        });
+      }
+
+      for (const field of [
+        'costCenter',
+        'glCode',
+        'deliveryLocationId',
+        'requestedDeliveryDate',
+      ]) {
+        if (body[field] !== undefined && typeof body[field] !== 'string') {
+          return badRequest(`${field} must be a string`, {
+            route: 'POST /api/checkout',
+            userId,
+          });
+        }
+      }
+      if (
+        body.lineOverrides !== undefined &&
+        !Array.isArray(body.lineOverrides)
+      ) {
+        return badRequest('lineOverrides must be an array', {
+          route: 'POST /api/checkout',
+          userId,
+        });
+      }
+
+      // Complete checkout
+      const { purchaseRequest, budgetCheck, replayed } =
+        await checkoutService.checkoutCart(userId, {
+          notes: body.notes,
+          confirmedTotal: body.confirmedTotal,
+          cartId: body.cartId,
+          version: body.version,
+          costCenter: body.costCenter,
+          glCode: body.glCode,
+          deliveryLocationId: body.deliveryLocationId,
+          requestedDeliveryDate: body.requestedDeliveryDate,
+          lineOverrides: body.lineOverrides,
+          idempotencyKey: request.headers.get('Idempotency-Key') ?? undefined,
+        });
+
+      return NextResponse.json(
+        {
+          message: replayed
+            ? 'Checkout already completed with this idempotency key'
+            : 'Checkout completed successfully',
+          purchaseRequest,
+          budget: budgetCheck,
+          note: 'This is a simulated ERP submission for the tech case',
+        },
+        { status: replayed ? 200 : 201 }
+      );
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/checkout',
+        userId,
+      });
+    }
   }
-});
+);
@@ -0,0 +1,84 @@
+/**
+ * Single Delivery Location API Route
+ *
+ * PUT /api/delivery-locations/[id] - Update a delivery location
+ * DELETE /api/delivery-locations/[id] - Delete a delivery location
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as deliveryLocationService from '@/features/delivery-locations';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * PUT /api/delivery-locations/[id]
+ *
+ * Update a delivery location (name, address, active flag)
+ * Set isActive to false to stop the location from being chosen at checkout.
+ * Requires delivery_locations:manage permission (admins)
+ */
+export const PUT = withAuth(
+  { permissions: [Permission.DeliveryLocationManage] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id) {
+        return badRequest('Delivery location ID is required', {
+          route: 'PUT /api/delivery-locations/[id]',
+          userId,
+        });
+      }
+
+      const body = await request.json();
+
+      const location = await deliveryLocationService.updateDeliveryLocation(
+        id,
+        body
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: location,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'PUT /api/delivery-locations/[id]',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/delivery-locations/[id]
+ *
+ * Delete a delivery location
+ * Submitted purchase requests keep their snapshot of the location.
+ * Requires delivery_locations:manage permission (admins)
+ */
+export const DELETE = withAuth(
+  { permissions: [Permission.DeliveryLocationManage] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id) {
+        return badRequest('Delivery location ID is required', {
+          route: 'DELETE /api/delivery-locations/[id]',
+          userId,
+        });
+      }
+
+      await deliveryLocationService.deleteDeliveryLocation(id);
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'DELETE /api/delivery-locations/[id]',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,85 @@
+/**
+ * Delivery Locations API Route
+ *
+ * GET /api/delivery-locations - List delivery locations
+ * POST /api/delivery-locations - Create a delivery location (admins)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as deliveryLocationService from '@/features/delivery-locations';
+import { handleApiError, withAuth } from '@/lib/api';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/delivery-locations
+ *
+ * List delivery locations sorted by name (active only, for the checkout
+ * picker)
+ * Requires purchase:create permission
+ *
+ * Query params:
+ * - includeInactive?: 'true' (admins only; ignored for other users)
+ */
+export const GET = withAuth(
+  { permissions: [Permission.PurchaseCreate] },
+  async (request, { userId, role }) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const includeInactive =
+        searchParams.get('includeInactive') === 'true' &&
+        hasPermission(role, Permission.DeliveryLocationManage);
+
+      const locations = await deliveryLocationService.listDeliveryLocations({
+        includeInactive,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: locations,
+        count: locations.length,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/delivery-locations',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/delivery-locations
+ *
+ * Create a delivery location
+ * Requires delivery_locations:manage permission (admins)
+ *
+ * Body:
+ * - name: string (unique)
+ * - address: string
+ * - isActive?: boolean (default: true)
+ */
+export const POST = withAuth(
+  { permissions: [Permission.DeliveryLocationManage] },
+  async (request, { userId }) => {
+    try {
+      const body = await request.json();
+
+      const location =
+        await deliveryLocationService.createDeliveryLocation(body);
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: location,
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/delivery-locations',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,45 @@
+/**
+ * ERP Outbox Entry Retry API Route
+ *
+ * POST /api/erp/outbox/[id]/retry - Requeue a failed outbox entry (admin)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as erpService from '@/features/erp';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * POST /api/erp/outbox/[id]/retry
+ *
+ * Reset a failed entry's attempts so the next run sends it again
+ * Requires erp:manage permission
+ */
+export const POST = withAuth(
+  { permissions: [Permission.ErpManage] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid outbox entry ID', {
+          route: 'POST /api/erp/outbox/[id]/retry',
+          userId,
+        });
+      }
+
+      const entry = await erpService.retryErpOutboxEntry(id);
+
+      return NextResponse.json({
+        success: true,
+        data: entry,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/erp/outbox/[id]/retry',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,51 @@
+/**
+ * ERP Outbox Processing API Route
+ *
+ * POST /api/erp/outbox/process - Send due outbox entries to the ERP (admin)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as erpService from '@/features/erp';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * POST /api/erp/outbox/process
+ *
+ * Drain due outbox entries through the configured ERP connector.
+ * Run by hand; the scheduler drains the outbox through
+ * POST /api/cron/erp-outbox. Safe to run concurrently.
+ * Requires erp:manage permission
+ *
+ * Body (optional):
+ * - limit?: number (1-100, default 20)
+ */
+export const POST = withAuth(
+  { permissions: [Permission.ErpManage] },
+  async (request, { userId }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const limit = body.limit ?? 20;
+
+      if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+        return badRequest('limit must be an integer between 1 and 100', {
+          route: 'POST /api/erp/outbox/process',
+          userId,
+        });
+      }
+
+      const summary = await erpService.processErpOutbox(limit);
+
+      return NextResponse.json({
+        success: true,
+        data: summary,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/erp/outbox/process',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,60 @@
+/**
+ * ERP Outbox API Route
+ *
+ * GET /api/erp/outbox - List queued, completed and failed ERP operations (admin)
+ */
+
+import { NextResponse } from 'next/server';
+
+import { ErpOutboxStatus } from '@/domain/entities';
+import * as erpService from '@/features/erp';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/erp/outbox
+ *
+ * List ERP outbox entries, most recent first
+ * Requires erp:manage permission
+ *
+ * Query params:
+ * - status?: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+ * - purchaseRequestId?: string
+ */
+export const GET = withAuth(
+  { permissions: [Permission.ErpManage] },
+  async (request, { userId }) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const status = searchParams.get('status') || undefined;
+      const purchaseRequestId =
+        searchParams.get('purchaseRequestId') || undefined;
+
+      if (
+        status &&
+        !Object.values(ErpOutboxStatus).includes(status as ErpOutboxStatus)
+      ) {
+        return badRequest(`Invalid outbox status: ${status}`, {
+          route: 'GET /api/erp/outbox',
+          userId,
+        });
+      }
+
+      const entries = await erpService.listErpOutboxEntries({
+        status: status as ErpOutboxStatus | undefined,
+        purchaseRequestId,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: entries,
+        count: entries.length,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/erp/outbox',
+        userId,
+      });
+    }
+  }
+);
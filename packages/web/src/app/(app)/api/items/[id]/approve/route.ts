@@ -0,0 +1,45 @@
+/**
+ * Item Approve API Route
+ *
+ * POST /api/items/[id]/approve - Approve a user-registered item
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as catalogService from '@/features/catalog';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * POST /api/items/[id]/approve
+ *
+ * Approve an item pending review; it joins the active catalog.
+ * Requires catalog:review permission (buyers and admins only)
+ */
+export const POST = withAuth(
+  { permissions: [Permission.CatalogReview] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid item ID format', {
+          route: 'POST /api/items/[id]/approve',
+          userId,
+        });
+      }
+
+      const item = await catalogService.approveItem(userId, id);
+
+      return NextResponse.json({
+        success: true,
+        data: item,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/items/[id]/approve',
+        userId,
+      });
+    }
+  }
+);
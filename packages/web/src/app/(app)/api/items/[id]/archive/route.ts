@@ -0,0 +1,48 @@
+/**
+ * Item Archive API Route
+ *
+ * POST /api/items/[id]/archive - Archive a catalog item
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as catalogService from '@/features/catalog';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * POST /api/items/[id]/archive
+ *
+ * Archive an item: it leaves search results and every cart, and stays
+ * resolvable from purchase request history. Archiving an archived item is
+ * a no-op.
+ * Requires catalog:update permission (buyers and admins only)
+ */
+export const POST = withAuth(
+  { permissions: [Permission.CatalogUpdate] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid item ID format', {
+          route: 'POST /api/items/[id]/archive',
+          userId,
+        });
+      }
+
+      const { item, cartsUpdated } = await catalogService.archiveItem(id);
+
+      return NextResponse.json({
+        success: true,
+        data: item,
+        cartsUpdated,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/items/[id]/archive',
+        userId,
+      });
+    }
+  }
+);
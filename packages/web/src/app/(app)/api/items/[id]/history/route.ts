@@ -0,0 +1,61 @@
+/**
+ * Item History API Route
+ *
+ * GET /api/items/[id]/history - List the revisions of a catalog item
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as catalogService from '@/features/catalog';
+import {
+  badRequest,
+  handleApiError,
+  parsePageParams,
+  withAuth,
+} from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/items/[id]/history
+ *
+ * Audit trail of an item, newest first: changed fields with old and new
+ * values, the user who made the change, when and why
+ * Requires catalog:read permission
+ *
+ * Query params:
+ * - cursor: Cursor from the previous page (optional)
+ * - limit: Page size (optional, default 20, max 100)
+ */
+export const GET = withAuth(
+  { permissions: [Permission.CatalogRead] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid item ID format', {
+          route: 'GET /api/items/[id]/history',
+          userId,
+        });
+      }
+
+      const { items, nextCursor, hasMore } =
+        await catalogService.listItemHistory(
+          id,
+          parsePageParams(request.nextUrl.searchParams)
+        );
+
+      return NextResponse.json({
+        success: true,
+        data: items,
+        nextCursor,
+        hasMore,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/items/[id]/history',
+        userId,
+      });
+    }
+  }
+);
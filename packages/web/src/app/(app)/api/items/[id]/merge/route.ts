@@ -0,0 +1,56 @@
+/**
+ * Item Merge API Route
+ *
+ * POST /api/items/[id]/merge - Merge a user-registered item into an
+ * existing item
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as catalogService from '@/features/catalog';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * POST /api/items/[id]/merge
+ *
+ * Merge an item pending review into an existing active item; the
+ * submission is archived and points the requester at the existing item.
+ * Requires catalog:review permission (buyers and admins only)
+ *
+ * Body:
+ * - targetItemId: string (required, an active item)
+ */
+export const POST = withAuth(
+  { permissions: [Permission.CatalogReview] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid item ID format', {
+          route: 'POST /api/items/[id]/merge',
+          userId,
+        });
+      }
+
+      const body = await request.json().catch(() => ({}));
+
+      const item = await catalogService.mergeItem(
+        userId,
+        id,
+        body.targetItemId
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: item,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/items/[id]/merge',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,58 @@
+/**
+ * Item Reject API Route
+ *
+ * POST /api/items/[id]/reject - Reject a user-registered item
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as catalogService from '@/features/catalog';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * POST /api/items/[id]/reject
+ *
+ * Reject an item pending review; it is archived and the reason is shown
+ * to the requester.
+ * Requires catalog:review permission (buyers and admins only)
+ *
+ * Body:
+ * - reason: string (required)
+ */
+export const POST = withAuth(
+  { permissions: [Permission.CatalogReview] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid item ID format', {
+          route: 'POST /api/items/[id]/reject',
+          userId,
+        });
+      }
+
+      const body = await request.json().catch(() => ({}));
+
+      if (typeof body.reason !== 'string') {
+        return badRequest('Reason must be a string', {
+          route: 'POST /api/items/[id]/reject',
+          userId,
+        });
+      }
+
+      const item = await catalogService.rejectItem(userId, id, body.reason);
+
+      return NextResponse.json({
+        success: true,
+        data: item,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/items/[id]/reject',
+        userId,
+      });
+    }
+  }
+);
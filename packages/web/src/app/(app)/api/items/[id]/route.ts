@@ -3,109 +3,156 @@
  *
  * GET /api/items/[id] - Get item by ID
  * PUT /api/items/[id] - Update item by ID
+ * DELETE /api/items/[id] - Delete an item no cart or purchase request uses
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 
 import * as catalogService from '@/features/catalog';
 import { badRequest, handleApiError, withAuth } from '@/lib/api';
-
-interface RouteContext {
-  params: Promise<{
-    id: string;
-  }>;
-}
+import { Permission } from '@/lib/auth/permissions';
 
 /**
  * GET /api/items/[id]
  *
  * Get single item by ID
- * Public endpoint (no authentication required)
+ * Requires catalog:read permission
  */
-export async function GET(_request: NextRequest, context: RouteContext) {
-  try {
-    const { id } = await context.params;
-
-    // Validate ID format (basic check)
-    if (!id || id.trim().length === 0) {
-      return NextResponse.json(
-        {
-          error: 'Invalid ID',
-          message: 'Item ID is required',
-        },
-        { status: 400 }
-      );
-    }
+export const GET = withAuth(
+  { permissions: [Permission.CatalogRead] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
 
-    // Fetch item by ID
-    const item = await catalogService.getItemById(id);
-
-    if (!item) {
-      return NextResponse.json(
-        {
-          error: 'Not found',
-          message: `Item with ID ${id} not found`,
-        },
-        { status: 404 }
-      );
-    }
+      // Validate ID format (basic check)
+      if (!id || id.trim().length === 0) {
+        return NextResponse.json(
+          {
+            error: 'Invalid ID',
+            message: 'Item ID is required',
+          },
+          { status: 400 }
+        );
+      }
 
-    return NextResponse.json(item);
-  } catch (error) {
-    // Handle invalid ObjectId error from MongoDB
-    if (error instanceof Error && error.message.includes('ObjectId')) {
-      return NextResponse.json(
-        {
-          error: 'Invalid ID',
-          message: 'Invalid item ID format',
-        },
-        { status: 400 }
-      );
-    }
+      // Fetch item by ID
+      const item = await catalogService.getItemById(id);
+
+      if (!item) {
+        return NextResponse.json(
+          {
+            error: 'Not found',
+            message: `Item with ID ${id} not found`,
+          },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(item);
+    } catch (error) {
+      // Handle invalid ObjectId error from MongoDB
+      if (error instanceof Error && error.message.includes('ObjectId')) {
+        return NextResponse.json(
+          {
+            error: 'Invalid ID',
+            message: 'Invalid item ID format',
+          },
+          { status: 400 }
+        );
+      }
 
-    return handleApiError(error, {
-      route: 'GET /api/items/[id]',
-    });
+      return handleApiError(error, {
+        route: 'GET /api/items/[id]',
+        userId,
+      });
+    }
   }
-}
+);
 
 /**
  * PUT /api/items/[id]
  *
- * Update an existing catalog item
- * Requires authentication
+ * Update an existing catalog item (including its price)
+ * Every change is recorded in the item history with the acting user.
+ * Requires catalog:update permission (buyers and admins only)
+ *
+ * Body:
+ * - Item fields to change (name, category, description, estimatedPrice,
+ *   unit, unitConversions, orderUnit, sku, attributes, parentItemId,
+ *   preferredSupplier, suppliers); an empty parentItemId detaches a variant
+ * - reason: string (optional, why the item is changed; a default reason
+ *   is recorded without it)
  */
-export const PUT = withAuth(async (request, { userId, params }) => {
-  try {
-    const id = params?.id;
+export const PUT = withAuth(
+  { permissions: [Permission.CatalogUpdate] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      // Validate ID format
+      if (!id || id.trim().length === 0) {
+        return badRequest('Item ID is required', {
+          route: 'PUT /api/items/[id]',
+          userId,
+        });
+      }
+
+      // Parse request body; the reason is recorded in the item history
+      const { reason, ...updates } = await request.json();
 
-    // Validate ID format
-    if (!id || id.trim().length === 0) {
-      return badRequest('Item ID is required', {
+      // Update item
+      const item = await catalogService.updateItem(id, updates, {
+        userId,
+        reason,
+      });
+
+      return NextResponse.json(item);
+    } catch (error) {
+      // Handle invalid ObjectId error from MongoDB
+      if (error instanceof Error && error.message.includes('ObjectId')) {
+        return badRequest('Invalid item ID format', {
+          route: 'PUT /api/items/[id]',
+          userId,
+        });
+      }
+
+      return handleApiError(error, {
         route: 'PUT /api/items/[id]',
         userId,
       });
     }
+  }
+);
 
-    // Parse request body
-    const body = await request.json();
+/**
+ * DELETE /api/items/[id]
+ *
+ * Delete a catalog item permanently
+ * Fails with 409 while the item is in an open cart or on a purchase
+ * request; archive it instead.
+ * Requires catalog:delete permission (admins only)
+ */
+export const DELETE = withAuth(
+  { permissions: [Permission.CatalogDelete] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
 
-    // Update item
-    const item = await catalogService.updateItem(id, body);
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid item ID format', {
+          route: 'DELETE /api/items/[id]',
+          userId,
+        });
+      }
 
-    return NextResponse.json(item);
-  } catch (error) {
-    // Handle invalid ObjectId error from MongoDB
-    if (error instanceof Error && error.message.includes('ObjectId')) {
-      return badRequest('Invalid item ID format', {
-        route: 'PUT /api/items/[id]',
+      await catalogService.deleteItem(id);
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'DELETE /api/items/[id]',
         userId,
       });
     }
-
-    return handleApiError(error, {
-      route: 'PUT /api/items/[id]',
-      userId,
-    });
   }
-});
+);
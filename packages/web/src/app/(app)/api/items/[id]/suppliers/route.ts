@@ -0,0 +1,57 @@
+/**
+ * Item Suppliers API Route
+ *
+ * GET /api/items/[id]/suppliers - List an item's supplier offers
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as supplierService from '@/features/suppliers';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/items/[id]/suppliers
+ *
+ * List the suppliers offering an item with their supplier-specific
+ * prices, cheapest first
+ * Requires catalog:read and suppliers:read permissions
+ */
+export const GET = withAuth(
+  { permissions: [Permission.CatalogRead, Permission.SupplierRead] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id) {
+        return badRequest('Item ID is required', {
+          route: 'GET /api/items/[id]/suppliers',
+          userId,
+        });
+      }
+
+      const offers = await supplierService.getItemSupplierOffers(id);
+
+      if (!offers) {
+        return NextResponse.json(
+          {
+            error: 'Not found',
+            message: `Item with ID ${id} not found`,
+          },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: offers,
+        count: offers.length,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/items/[id]/suppliers',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,46 @@
+/**
+ * Item Unarchive API Route
+ *
+ * POST /api/items/[id]/unarchive - Restore an archived catalog item
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as catalogService from '@/features/catalog';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * POST /api/items/[id]/unarchive
+ *
+ * Return an archived item to the active catalog. Carts it was removed
+ * from are not refilled.
+ * Requires catalog:update permission (buyers and admins only)
+ */
+export const POST = withAuth(
+  { permissions: [Permission.CatalogUpdate] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid item ID format', {
+          route: 'POST /api/items/[id]/unarchive',
+          userId,
+        });
+      }
+
+      const item = await catalogService.unarchiveItem(id);
+
+      return NextResponse.json({
+        success: true,
+        data: item,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/items/[id]/unarchive',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,48 @@
+/**
+ * Item Variants API Route
+ *
+ * GET /api/items/[id]/variants - List the variant family of a catalog item
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as catalogService from '@/features/catalog';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/items/[id]/variants
+ *
+ * The parent product and its variants (e.g., "Pen - Blue" and
+ * "Pen - Black" under "Pen"), parent first; works for the parent and for
+ * any of its variants
+ * Requires catalog:read permission
+ */
+export const GET = withAuth(
+  { permissions: [Permission.CatalogRead] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid item ID format', {
+          route: 'GET /api/items/[id]/variants',
+          userId,
+        });
+      }
+
+      const variants = await catalogService.listItemVariants(id);
+
+      return NextResponse.json({
+        success: true,
+        data: variants,
+        count: variants.length,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/items/[id]/variants',
+        userId,
+      });
+    }
+  }
+);
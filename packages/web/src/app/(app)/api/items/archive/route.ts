@@ -0,0 +1,51 @@
+/**
+ * Bulk Item Archive API Route
+ *
+ * POST /api/items/archive - Archive several catalog items at once
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as catalogService from '@/features/catalog';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * POST /api/items/archive
+ *
+ * Archive the given items (see POST /api/items/[id]/archive). All IDs
+ * must exist; nothing is archived otherwise.
+ * Requires catalog:update permission (buyers and admins only)
+ *
+ * Body:
+ * - itemIds: string[] (1-100 item IDs)
+ */
+export const POST = withAuth(
+  { permissions: [Permission.CatalogUpdate] },
+  async (request, { userId }) => {
+    try {
+      const body = await request.json().catch(() => null);
+
+      if (!body || typeof body !== 'object') {
+        return badRequest('Request body must be a JSON object', {
+          route: 'POST /api/items/archive',
+          userId,
+        });
+      }
+
+      const result = await catalogService.archiveItems(body.itemIds);
+
+      return NextResponse.json({
+        success: true,
+        data: result.items,
+        archivedCount: result.archivedCount,
+        cartsUpdated: result.cartsUpdated,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/items/archive',
+        userId,
+      });
+    }
+  }
+);
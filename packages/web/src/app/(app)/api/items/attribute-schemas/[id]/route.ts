@@ -0,0 +1,42 @@
+/**
+ * Single Category Attribute Schema API Route
+ *
+ * DELETE /api/items/attribute-schemas/[id] - Delete a category's schema
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as catalogService from '@/features/catalog';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * DELETE /api/items/attribute-schemas/[id]
+ *
+ * Delete a category attribute schema; items keep their attributes
+ * Requires catalog:update permission
+ */
+export const DELETE = withAuth(
+  { permissions: [Permission.CatalogUpdate] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid attribute schema ID', {
+          route: 'DELETE /api/items/attribute-schemas/[id]',
+          userId,
+        });
+      }
+
+      await catalogService.deleteCategoryAttributeSchema(id);
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'DELETE /api/items/attribute-schemas/[id]',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,82 @@
+/**
+ * Category Attribute Schemas API Route
+ *
+ * GET /api/items/attribute-schemas - List attribute schemas (or one category's)
+ * PUT /api/items/attribute-schemas - Create or replace a category's schema
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as catalogService from '@/features/catalog';
+import { handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/items/attribute-schemas
+ *
+ * List category attribute schemas, by category
+ * Requires catalog:read permission
+ *
+ * Query params:
+ * - category: Only the schema of this category (optional, any case)
+ */
+export const GET = withAuth(
+  { permissions: [Permission.CatalogRead] },
+  async (request, { userId }) => {
+    try {
+      const category = request.nextUrl.searchParams.get('category')?.trim();
+
+      const schemas = category
+        ? [await catalogService.getCategoryAttributeSchema(category)].filter(
+            (schema) => schema !== null
+          )
+        : await catalogService.listCategoryAttributeSchemas();
+
+      return NextResponse.json({
+        success: true,
+        data: schemas,
+        count: schemas.length,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/items/attribute-schemas',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/items/attribute-schemas
+ *
+ * Create or replace the attribute schema of a category
+ * Requires catalog:update permission
+ *
+ * Body:
+ * - category: string (required)
+ * - attributes: Array<{ key, label, type: 'text' | 'number' | 'select',
+ *   options?, unit?, required? }> (at most 20)
+ */
+export const PUT = withAuth(
+  { permissions: [Permission.CatalogUpdate] },
+  async (request, { userId }) => {
+    try {
+      const body = await request.json();
+
+      const schema = await catalogService.upsertCategoryAttributeSchema({
+        category: body?.category,
+        attributes: body?.attributes,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: schema,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'PUT /api/items/attribute-schemas',
+        userId,
+      });
+    }
+  }
+);
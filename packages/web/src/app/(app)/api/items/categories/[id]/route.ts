@@ -0,0 +1,90 @@
+/**
+ * Single Category API Route
+ *
+ * PUT /api/items/categories/[id] - Rename, recode or move a category (admin)
+ * DELETE /api/items/categories/[id] - Delete an unused category (admin)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as catalogService from '@/features/catalog';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * PUT /api/items/categories/[id]
+ *
+ * Update a category; a new name is applied to the category's items
+ * Requires catalog:categories permission
+ *
+ * Body (all optional):
+ * - name: string
+ * - code: string | null (null clears it)
+ * - description: string | null
+ * - parentCategoryId: string | null (null makes it a root category)
+ */
+export const PUT = withAuth(
+  { permissions: [Permission.CatalogCategoryManage] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid category ID', {
+          route: 'PUT /api/items/categories/[id]',
+          userId,
+        });
+      }
+
+      const body = await request.json();
+
+      const category = await catalogService.updateCategory(id, {
+        name: body?.name,
+        code: body?.code,
+        description: body?.description,
+        parentCategoryId: body?.parentCategoryId,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: category,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'PUT /api/items/categories/[id]',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/items/categories/[id]
+ *
+ * Delete a category without subcategories and items
+ * Requires catalog:categories permission
+ */
+export const DELETE = withAuth(
+  { permissions: [Permission.CatalogCategoryManage] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid category ID', {
+          route: 'DELETE /api/items/categories/[id]',
+          userId,
+        });
+      }
+
+      await catalogService.deleteCategory(id);
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'DELETE /api/items/categories/[id]',
+        userId,
+      });
+    }
+  }
+);
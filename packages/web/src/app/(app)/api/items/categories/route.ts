@@ -0,0 +1,80 @@
+/**
+ * Categories API Route
+ *
+ * GET /api/items/categories - List the category taxonomy
+ * POST /api/items/categories - Create a category (admin)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as catalogService from '@/features/catalog';
+import { handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/items/categories
+ *
+ * List every category of the taxonomy, by name (flat; parentCategoryId
+ * links subcategories to their parent)
+ * Requires catalog:read permission
+ */
+export const GET = withAuth(
+  { permissions: [Permission.CatalogRead] },
+  async (_request, { userId }) => {
+    try {
+      const categories = await catalogService.listCategories();
+
+      return NextResponse.json({
+        success: true,
+        data: categories,
+        count: categories.length,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/items/categories',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/items/categories
+ *
+ * Create a category
+ * Requires catalog:categories permission
+ *
+ * Body:
+ * - name: string (2-100 characters, unique across the taxonomy)
+ * - code?: string (classification code, e.g. UNSPSC; unique)
+ * - description?: string
+ * - parentCategoryId?: string (omit for a root category)
+ */
+export const POST = withAuth(
+  { permissions: [Permission.CatalogCategoryManage] },
+  async (request, { userId }) => {
+    try {
+      const body = await request.json();
+
+      const category = await catalogService.createCategory({
+        name: body?.name,
+        code: body?.code,
+        description: body?.description,
+        parentCategoryId: body?.parentCategoryId,
+      });
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: category,
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/items/categories',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,75 @@
+/**
+ * Category Spend API Route
+ *
+ * GET /api/items/categories/spend - Spend rolled up the category taxonomy
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as catalogService from '@/features/catalog';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/items/categories/spend
+ *
+ * Committed purchase request spend per category branch: each category
+ * lists its own spend and the total of its branch (with subcategories)
+ * Requires spend:read permission
+ *
+ * Query params:
+ * - startDate?: string (ISO date, inclusive)
+ * - endDate?: string (ISO date, inclusive)
+ */
+export const GET = withAuth(
+  { permissions: [Permission.SpendAnalyticsRead] },
+  async (request, { userId }) => {
+    try {
+      const searchParams = request.nextUrl.searchParams;
+      const context = { route: 'GET /api/items/categories/spend', userId };
+
+      const readDate = (name: string, endOfDay = false) => {
+        const value = searchParams.get(name);
+        if (!value) {
+          return undefined;
+        }
+        const date = new Date(value);
+        if (Number.isNaN(date.getTime())) {
+          return null;
+        }
+        // A plain date as end date covers the whole day
+        if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+          date.setUTCHours(23, 59, 59, 999);
+        }
+        return date;
+      };
+      const startDate = readDate('startDate');
+      const endDate = readDate('endDate', true);
+      if (startDate === null || endDate === null) {
+        return badRequest(
+          'startDate and endDate must be ISO dates (YYYY-MM-DD)',
+          context
+        );
+      }
+
+      const spend = await catalogService.getCategorySpend({
+        startDate,
+        endDate,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: spend,
+        filters: {
+          startDate: startDate?.toISOString(),
+          endDate: endDate?.toISOString(),
+        },
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/items/categories/spend',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,77 @@
+/**
+ * Catalog Export API Route
+ *
+ * GET /api/items/export - Download the filtered catalog (CSV/XLSX/JSON)
+ */
+
+import { NextResponse } from 'next/server';
+
+import { ItemStatus } from '@/domain/entities';
+import * as catalogService from '@/features/catalog';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/items/export
+ *
+ * Stream catalog items as a file download (newest first)
+ * The CSV/XLSX columns are accepted by POST /api/items/import.
+ * Requires catalog:read permission
+ *
+ * Query params:
+ * - format: 'csv' | 'xlsx' | 'json' (default: 'csv')
+ * - q: Keyword filter (optional)
+ * - category: Category filter, exact match (optional)
+ * - status: Item status or 'all' (default: 'active')
+ */
+export const GET = withAuth(
+  { permissions: [Permission.CatalogRead] },
+  async (request, { userId }) => {
+    try {
+      const searchParams = request.nextUrl.searchParams;
+
+      const format = (searchParams.get('format') ||
+        'csv') as catalogService.CatalogTransferFormat;
+      if (!catalogService.CATALOG_TRANSFER_FORMATS.includes(format)) {
+        return badRequest(
+          `format must be one of: ${catalogService.CATALOG_TRANSFER_FORMATS.join(', ')}`,
+          { route: 'GET /api/items/export', userId }
+        );
+      }
+
+      const status = (searchParams.get('status') || ItemStatus.Active) as
+        | ItemStatus
+        | 'all';
+      if (
+        status !== 'all' &&
+        !Object.values(ItemStatus).includes(status as ItemStatus)
+      ) {
+        return badRequest(
+          `status must be 'all' or one of: ${Object.values(ItemStatus).join(', ')}`,
+          { route: 'GET /api/items/export', userId }
+        );
+      }
+
+      const { stream, contentType, fileName } =
+        await catalogService.exportCatalog({
+          format,
+          q: searchParams.get('q') || undefined,
+          category: searchParams.get('category') || undefined,
+          status,
+        });
+
+      return new NextResponse(stream, {
+        headers: {
+          'Content-Type': contentType,
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/items/export',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,120 @@
+/**
+ * Catalog Import API Route
+ *
+ * POST /api/items/import - Validate (dry run) or import a CSV/XLSX/JSON file
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as catalogService from '@/features/catalog';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+const IMPORT_MODES: catalogService.CatalogImportMode[] = [
+  'all_or_nothing',
+  'per_row',
+];
+
+/**
+ * POST /api/items/import
+ *
+ * Bulk import catalog items from a file (multipart/form-data)
+ * Every row is checked like POST /api/items (required fields, duplicate
+ * detection, positive price). With dryRun the report is returned and
+ * nothing is created.
+ * Requires catalog:import permission
+ *
+ * Form fields:
+ * - file: File (.csv, .xlsx or .json; max 5 MB, 5000 rows)
+ * - dryRun?: 'true' | 'false' (default: 'true')
+ * - mode?: 'all_or_nothing' | 'per_row' (default: 'all_or_nothing')
+ *
+ * Responses:
+ * - 200: dry-run report, or import that created nothing
+ * - 201: import that created items
+ * - 409: all-or-nothing import rejected (report in data)
+ */
+export const POST = withAuth(
+  { permissions: [Permission.CatalogImport] },
+  async (request, { userId }) => {
+    try {
+      let formData: FormData;
+      try {
+        formData = await request.formData();
+      } catch {
+        return badRequest('Request must be multipart/form-data', {
+          route: 'POST /api/items/import',
+          userId,
+        });
+      }
+
+      const file = formData.get('file');
+      if (!(file instanceof File)) {
+        return badRequest('file is required', {
+          route: 'POST /api/items/import',
+          userId,
+        });
+      }
+      if (file.size > catalogService.MAX_CATALOG_IMPORT_BYTES) {
+        return badRequest('Import file must not exceed 5 MB', {
+          route: 'POST /api/items/import',
+          userId,
+        });
+      }
+
+      const mode = (formData.get('mode') ??
+        'all_or_nothing') as catalogService.CatalogImportMode;
+      if (!IMPORT_MODES.includes(mode)) {
+        return badRequest(`mode must be one of: ${IMPORT_MODES.join(', ')}`, {
+          route: 'POST /api/items/import',
+          userId,
+        });
+      }
+
+      const importFile = {
+        fileName: file.name,
+        data: Buffer.from(await file.arrayBuffer()),
+      };
+
+      if (formData.get('dryRun') !== 'false') {
+        const report = await catalogService.previewCatalogImport(importFile);
+
+        return NextResponse.json({
+          success: true,
+          data: { dryRun: true, mode, report },
+        });
+      }
+
+      const result = await catalogService.commitCatalogImport(importFile, {
+        mode,
+        userId,
+      });
+
+      if (!result.committed) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'IMPORT_REJECTED',
+            message:
+              'Nothing was imported: fix the invalid and duplicate rows or import per row',
+            data: { dryRun: false, ...result },
+          },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: { dryRun: false, ...result },
+        },
+        { status: result.created > 0 ? 201 : 200 }
+      );
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/items/import',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,46 @@
+/**
+ * Item Review Queue API Route
+ *
+ * GET /api/items/review - List user-registered items awaiting review
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as catalogService from '@/features/catalog';
+import { handleApiError, parsePageParams, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/items/review
+ *
+ * Review queue, oldest first. Each entry lists active items similar to
+ * the submission as merge candidates.
+ * Requires catalog:review permission (buyers and admins only)
+ *
+ * Query params:
+ * - cursor: Cursor from the previous page (optional)
+ * - limit: Page size (optional, default 20, max 100)
+ */
+export const GET = withAuth(
+  { permissions: [Permission.CatalogReview] },
+  async (request, { userId }) => {
+    try {
+      const { items, nextCursor, hasMore } =
+        await catalogService.listPendingItemReviews(
+          parsePageParams(request.nextUrl.searchParams)
+        );
+
+      return NextResponse.json({
+        success: true,
+        data: items,
+        nextCursor,
+        hasMore,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/items/review',
+        userId,
+      });
+    }
+  }
+);
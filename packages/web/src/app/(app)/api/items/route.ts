@@ -1,97 +1,236 @@
 /**
  * Catalog API Routes
  *
- * GET /api/items - Search items
+ * GET /api/items - Search items (with facet filters and counts)
  * POST /api/items - Create new item
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { Types } from 'mongoose';
+import { NextResponse } from 'next/server';
 
+import { ItemStatus } from '@/domain/entities';
 import * as catalogService from '@/features/catalog';
-import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import {
+  badRequest,
+  forbidden,
+  handleApiError,
+  parsePageParams,
+  withAuth,
+} from '@/lib/api';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
 
 /**
  * GET /api/items
  *
- * Search catalog items by keyword
+ * Search catalog items with facet filters
+ * Requires catalog:read permission
+ *
  * Query params:
  * - q: Search keyword (optional)
- * - limit: Max results (optional, default 50)
+ * - cursor: Cursor from the previous page (optional)
+ * - limit: Page size (optional, default 50, max 100)
+ * - category: Category filter (repeatable)
+ * - branch: Category branch filter, the category and its subcategories
+ *   (repeatable)
+ * - minPrice / maxPrice: Price range (optional)
+ * - supplierId: Supplier filter (repeatable)
+ * - unit: Unit of measure filter (repeatable)
+ * - status: Status filter (repeatable, default active)
+ * - sort: relevance | price_asc | price_desc | newest (default relevance)
+ * - mode: keyword | semantic (default keyword); semantic also finds items
+ *   described in other words ("something to sit on" finds chairs)
+ *
+ * The keyword tolerates typos and matches synonyms from the synonym
+ * dictionary.
+ *
+ * Returns a page of matching items (with nextCursor and hasMore), the total
+ * match count, facet counts and, when the keyword was misspelled, a
+ * didYouMean suggestion.
  */
-export async function GET(request: NextRequest) {
-  try {
-    const searchParams = request.nextUrl.searchParams;
-    const q = searchParams.get('q') || undefined;
-    const limit = searchParams.get('limit')
-      ? parseInt(searchParams.get('limit')!, 10)
-      : 50;
-
-    const items = await catalogService.searchItems({ q, limit });
-
-    return NextResponse.json({
-      items,
-      count: items.length,
-    });
-  } catch (error) {
-    return handleApiError(error, {
-      route: 'GET /api/items',
-    });
+export const GET = withAuth(
+  { permissions: [Permission.CatalogRead] },
+  async (request, { userId }) => {
+    try {
+      const searchParams = request.nextUrl.searchParams;
+      const q = searchParams.get('q') || undefined;
+      const { cursor, limit } = parsePageParams(searchParams, {
+        defaultLimit: 50,
+      });
+
+      const context = { route: 'GET /api/items', userId };
+
+      const readPrice = (name: string) => {
+        const value = searchParams.get(name);
+        if (value === null || value === '') {
+          return undefined;
+        }
+        const price = Number(value);
+        return Number.isFinite(price) && price >= 0 ? price : null;
+      };
+      const minPrice = readPrice('minPrice');
+      const maxPrice = readPrice('maxPrice');
+      if (minPrice === null || maxPrice === null) {
+        return badRequest(
+          'minPrice and maxPrice must be non-negative numbers',
+          context
+        );
+      }
+      if (
+        minPrice !== undefined &&
+        maxPrice !== undefined &&
+        minPrice > maxPrice
+      ) {
+        return badRequest('minPrice must not exceed maxPrice', context);
+      }
+
+      const sort = searchParams.get('sort') || 'relevance';
+      if (!catalogService.isCatalogSort(sort)) {
+        return badRequest(
+          `Invalid sort. Must be one of: ${catalogService.CATALOG_SORT_OPTIONS.join(', ')}`,
+          context
+        );
+      }
+
+      const mode = searchParams.get('mode') || 'keyword';
+      if (!catalogService.isCatalogSearchMode(mode)) {
+        return badRequest(
+          `Invalid mode. Must be one of: ${catalogService.CATALOG_SEARCH_MODES.join(', ')}`,
+          context
+        );
+      }
+
+      const statuses = searchParams.getAll('status');
+      const validStatuses = Object.values(ItemStatus) as string[];
+      if (statuses.some((status) => !validStatuses.includes(status))) {
+        return badRequest(
+          `Invalid status. Must be one of: ${validStatuses.join(', ')}`,
+          context
+        );
+      }
+
+      const supplierIds = searchParams.getAll('supplierId');
+      if (supplierIds.some((id) => !Types.ObjectId.isValid(id))) {
+        return badRequest('Invalid supplier ID', context);
+      }
+
+      const { items, nextCursor, hasMore, total, facets, didYouMean } =
+        await catalogService.searchItemsWithFacets({
+          q,
+          cursor,
+          limit,
+          categories: searchParams.getAll('category'),
+          branch: searchParams.getAll('branch'),
+          minPrice,
+          maxPrice,
+          supplierIds,
+          units: searchParams.getAll('unit'),
+          statuses:
+            statuses.length > 0 ? (statuses as ItemStatus[]) : undefined,
+          sort,
+          mode,
+        });
+
+      return NextResponse.json({
+        items,
+        count: items.length,
+        nextCursor,
+        hasMore,
+        total,
+        facets,
+        didYouMean,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/items',
+        userId,
+      });
+    }
   }
-}
+);
 
 /**
  * POST /api/items
  *
  * Create a new catalog item
- * Requires authentication
+ * Requires catalog:create permission
  *
  * Body:
  * - name: string (required)
  * - category: string (required)
  * - description: string (required)
  * - estimatedPrice: number (required)
- * - unit?: string (optional)
+ * - unit?: string (optional, base unit)
+ * - unitConversions?: Array<{ unit, factor }> (optional, e.g. box of 12)
+ * - orderUnit?: string (optional, one of unitConversions)
+ * - sku?: string (optional, unique)
+ * - attributes?: object (optional, checked against the category schema)
+ * - parentItemId?: string (optional, register as a variant of this item)
  * - preferredSupplier?: string (optional)
+ * - suppliers?: Array<{ supplierId, unitPrice, supplierSku?, leadTimeDays? }>
+ *   (optional, requires suppliers:manage)
+ *
+ * Items registered by users without catalog:review start pending review
+ * and stay out of search and carts until a buyer approves them.
  */
-export const POST = withAuth(async (request, { userId }) => {
-  try {
-    // Parse request body
-    const body = await request.json();
-
-    // Validate required fields
-    if (!body.name || !body.category || !body.description) {
-      return badRequest(
-        'Missing required fields: name, category, description',
-        {
+export const POST = withAuth(
+  { permissions: [Permission.CatalogCreate] },
+  async (request, { userId, role }) => {
+    try {
+      // Parse request body
+      const body = await request.json();
+
+      // Validate required fields
+      if (!body.name || !body.category || !body.description) {
+        return badRequest(
+          'Missing required fields: name, category, description',
+          {
+            route: 'POST /api/items',
+            userId,
+          }
+        );
+      }
+
+      if (typeof body.estimatedPrice !== 'number' || body.estimatedPrice <= 0) {
+        return badRequest('estimatedPrice must be a positive number', {
           route: 'POST /api/items',
           userId,
-        }
-      );
-    }
+        });
+      }
+
+      if (
+        body.suppliers !== undefined &&
+        !hasPermission(role, Permission.SupplierManage)
+      ) {
+        return forbidden('Only buyers can link items to suppliers', {
+          route: 'POST /api/items',
+          userId,
+        });
+      }
 
-    if (typeof body.estimatedPrice !== 'number' || body.estimatedPrice <= 0) {
-      return badRequest('estimatedPrice must be a positive number', {
+      // Create item via service
+      const item = await catalogService.createItem({
+        name: body.name,
+        category: body.category,
+        description: body.description,
+        estimatedPrice: body.estimatedPrice,
+        unit: body.unit,
+        unitConversions: body.unitConversions,
+        orderUnit: body.orderUnit,
+        sku: body.sku,
+        attributes: body.attributes,
+        parentItemId: body.parentItemId,
+        preferredSupplier: body.preferredSupplier,
+        suppliers: body.suppliers,
+        createdByUserId: userId,
+        requiresReview: !hasPermission(role, Permission.CatalogReview),
+      });
+
+      return NextResponse.json(item, { status: 201 });
+    } catch (error) {
+      return handleApiError(error, {
         route: 'POST /api/items',
         userId,
       });
     }
-
-    // Create item via service
-    const item = await catalogService.createItem({
-      name: body.name,
-      category: body.category,
-      description: body.description,
-      estimatedPrice: body.estimatedPrice,
-      unit: body.unit,
-      preferredSupplier: body.preferredSupplier,
-      createdByUserId: userId,
-    });
-
-    return NextResponse.json(item, { status: 201 });
-  } catch (error) {
-    return handleApiError(error, {
-      route: 'POST /api/items',
-      userId,
-    });
   }
-});
+);
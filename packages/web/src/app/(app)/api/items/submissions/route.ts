@@ -0,0 +1,48 @@
+/**
+ * Item Submissions API Route
+ *
+ * GET /api/items/submissions - List items registered by the current user
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as catalogService from '@/features/catalog';
+import { handleApiError, parsePageParams, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/items/submissions
+ *
+ * Items the authenticated user registered, newest first, with their
+ * status and review outcome (approved, rejected with reason, or merged
+ * into an existing item)
+ * Requires catalog:create permission
+ *
+ * Query params:
+ * - cursor: Cursor from the previous page (optional)
+ * - limit: Page size (optional, default 20, max 100)
+ */
+export const GET = withAuth(
+  { permissions: [Permission.CatalogCreate] },
+  async (request, { userId }) => {
+    try {
+      const { items, nextCursor, hasMore } =
+        await catalogService.listItemSubmissionsForUser(
+          userId,
+          parsePageParams(request.nextUrl.searchParams)
+        );
+
+      return NextResponse.json({
+        success: true,
+        data: items,
+        nextCursor,
+        hasMore,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/items/submissions',
+        userId,
+      });
+    }
+  }
+);
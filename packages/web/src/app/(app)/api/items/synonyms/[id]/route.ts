@@ -0,0 +1,84 @@
+/**
+ * Single Search Synonym API Route
+ *
+ * PUT /api/items/synonyms/[id] - Replace the terms of a group (admin)
+ * DELETE /api/items/synonyms/[id] - Delete a group (admin)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as catalogService from '@/features/catalog';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * PUT /api/items/synonyms/[id]
+ *
+ * Replace the terms of a synonym group
+ * Requires catalog:synonyms permission
+ *
+ * Body:
+ * - terms: string[] (2-20 terms)
+ */
+export const PUT = withAuth(
+  { permissions: [Permission.CatalogSynonymManage] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid synonym ID', {
+          route: 'PUT /api/items/synonyms/[id]',
+          userId,
+        });
+      }
+
+      const body = await request.json();
+
+      const synonym = await catalogService.updateSearchSynonym(id, {
+        terms: body?.terms,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: synonym,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'PUT /api/items/synonyms/[id]',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/items/synonyms/[id]
+ *
+ * Delete a synonym group
+ * Requires catalog:synonyms permission
+ */
+export const DELETE = withAuth(
+  { permissions: [Permission.CatalogSynonymManage] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid synonym ID', {
+          route: 'DELETE /api/items/synonyms/[id]',
+          userId,
+        });
+      }
+
+      await catalogService.deleteSearchSynonym(id);
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'DELETE /api/items/synonyms/[id]',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,74 @@
+/**
+ * Search Synonyms API Route
+ *
+ * GET /api/items/synonyms - List catalog search synonym groups (admin)
+ * POST /api/items/synonyms - Create a synonym group (admin)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as catalogService from '@/features/catalog';
+import { handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/items/synonyms
+ *
+ * List synonym groups, newest first
+ * Requires catalog:synonyms permission
+ */
+export const GET = withAuth(
+  { permissions: [Permission.CatalogSynonymManage] },
+  async (_request, { userId }) => {
+    try {
+      const synonyms = await catalogService.listSearchSynonyms();
+
+      return NextResponse.json({
+        success: true,
+        data: synonyms,
+        count: synonyms.length,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/items/synonyms',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/items/synonyms
+ *
+ * Create a synonym group; searching for any term also matches the others
+ * Requires catalog:synonyms permission
+ *
+ * Body:
+ * - terms: string[] (2-20 terms, e.g. ["notepad", "notebook"])
+ */
+export const POST = withAuth(
+  { permissions: [Permission.CatalogSynonymManage] },
+  async (request, { userId }) => {
+    try {
+      const body = await request.json();
+
+      const synonym = await catalogService.createSearchSynonym(
+        { terms: body?.terms },
+        userId
+      );
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: synonym,
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/items/synonyms',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,51 @@
+/**
+ * Purchase Order Document API Route
+ *
+ * GET /api/purchase-orders/[id]/document - Printable purchase order (HTML)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as purchaseOrderService from '@/features/purchase-orders';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/purchase-orders/[id]/document
+ *
+ * Render the purchase order as a printable HTML page
+ * (print or save as PDF from the browser to send to the supplier)
+ * Requires purchase_orders:read permission
+ */
+export const GET = withAuth(
+  { permissions: [Permission.PurchaseOrderRead] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id) {
+        return badRequest('Purchase order ID is required', {
+          route: 'GET /api/purchase-orders/[id]/document',
+          userId,
+        });
+      }
+
+      const purchaseOrder = await purchaseOrderService.getPurchaseOrderById(id);
+
+      return new NextResponse(
+        purchaseOrderService.renderPurchaseOrderHtml(purchaseOrder),
+        {
+          headers: {
+            'Content-Type': 'text/html; charset=utf-8',
+            'Content-Disposition': `inline; filename="${purchaseOrder.poNumber}.html"`,
+          },
+        }
+      );
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/purchase-orders/[id]/document',
+        userId,
+      });
+    }
+  }
+);
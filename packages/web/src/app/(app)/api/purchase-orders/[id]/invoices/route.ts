@@ -0,0 +1,106 @@
+/**
+ * Purchase Order Supplier Invoices API Route
+ *
+ * GET /api/purchase-orders/[id]/invoices - List invoices billed against an order
+ * POST /api/purchase-orders/[id]/invoices - Record a supplier invoice (buyers and admins)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as receivingService from '@/features/receiving';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/purchase-orders/[id]/invoices
+ *
+ * List supplier invoices recorded for a purchase order
+ * Requires purchase_orders:read permission
+ */
+export const GET = withAuth(
+  { permissions: [Permission.PurchaseOrderRead] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id) {
+        return badRequest('Purchase order ID is required', {
+          route: 'GET /api/purchase-orders/[id]/invoices',
+          userId,
+        });
+      }
+
+      const invoices = await receivingService.listSupplierInvoices(id);
+
+      return NextResponse.json({
+        success: true,
+        data: invoices,
+        count: invoices.length,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/purchase-orders/[id]/invoices',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/purchase-orders/[id]/invoices
+ *
+ * Record a supplier invoice for the three-way match
+ * Requires invoices:manage permission (buyers and admins)
+ *
+ * Body:
+ * - invoiceNumber: string (supplier's number, unique per supplier)
+ * - invoiceDate: ISO date
+ * - lines: { itemId, quantity, unitPrice }[]
+ */
+export const POST = withAuth(
+  { permissions: [Permission.InvoiceManage] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id) {
+        return badRequest('Purchase order ID is required', {
+          route: 'POST /api/purchase-orders/[id]/invoices',
+          userId,
+        });
+      }
+
+      const body = await request.json();
+
+      if (!Array.isArray(body.lines)) {
+        return badRequest('Lines must be an array', {
+          route: 'POST /api/purchase-orders/[id]/invoices',
+          userId,
+        });
+      }
+
+      const invoice = await receivingService.recordSupplierInvoice(
+        id,
+        {
+          invoiceNumber: body.invoiceNumber,
+          invoiceDate: body.invoiceDate,
+          lines: body.lines,
+        },
+        userId
+      );
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: invoice,
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/purchase-orders/[id]/invoices',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,46 @@
+/**
+ * Purchase Order Three-Way Match API Route
+ *
+ * GET /api/purchase-orders/[id]/match - Compare order, receipts and invoices
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as receivingService from '@/features/receiving';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/purchase-orders/[id]/match
+ *
+ * Three-way match of the purchase order with its goods receipts and
+ * supplier invoices (per line and overall)
+ * Requires purchase_orders:read permission
+ */
+export const GET = withAuth(
+  { permissions: [Permission.PurchaseOrderRead] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id) {
+        return badRequest('Purchase order ID is required', {
+          route: 'GET /api/purchase-orders/[id]/match',
+          userId,
+        });
+      }
+
+      const match = await receivingService.getThreeWayMatch(id);
+
+      return NextResponse.json({
+        success: true,
+        data: match,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/purchase-orders/[id]/match',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,109 @@
+/**
+ * Purchase Order Goods Receipts API Route
+ *
+ * GET /api/purchase-orders/[id]/receipts - List goods received against an order
+ * POST /api/purchase-orders/[id]/receipts - Record a delivery (buyers and admins)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as receivingService from '@/features/receiving';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/purchase-orders/[id]/receipts
+ *
+ * List goods receipts for a purchase order, oldest delivery first
+ * Requires purchase_orders:read permission
+ */
+export const GET = withAuth(
+  { permissions: [Permission.PurchaseOrderRead] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id) {
+        return badRequest('Purchase order ID is required', {
+          route: 'GET /api/purchase-orders/[id]/receipts',
+          userId,
+        });
+      }
+
+      const receipts = await receivingService.listGoodsReceipts({
+        purchaseOrderId: id,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: receipts,
+        count: receipts.length,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/purchase-orders/[id]/receipts',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/purchase-orders/[id]/receipts
+ *
+ * Record goods received against a purchase order.
+ * The order moves to partially received, or closed once fully received.
+ * Requires receiving:manage permission (buyers and admins)
+ *
+ * Body:
+ * - lines: { itemId, quantityReceived, quantityRejected?, rejectionReason?, note? }[]
+ * - notes?: string
+ * - receivedAt?: ISO date (defaults to now)
+ */
+export const POST = withAuth(
+  { permissions: [Permission.ReceivingManage] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id) {
+        return badRequest('Purchase order ID is required', {
+          route: 'POST /api/purchase-orders/[id]/receipts',
+          userId,
+        });
+      }
+
+      const body = await request.json();
+
+      if (!Array.isArray(body.lines)) {
+        return badRequest('Lines must be an array', {
+          route: 'POST /api/purchase-orders/[id]/receipts',
+          userId,
+        });
+      }
+
+      const receipt = await receivingService.recordGoodsReceipt(
+        id,
+        {
+          lines: body.lines,
+          notes: body.notes,
+          receivedAt: body.receivedAt,
+        },
+        userId
+      );
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: receipt,
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/purchase-orders/[id]/receipts',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,112 @@
+/**
+ * Single Purchase Order API Route
+ *
+ * GET /api/purchase-orders/[id] - Get a purchase order
+ * PUT /api/purchase-orders/[id] - Update a purchase order's status
+ */
+
+import { NextResponse } from 'next/server';
+
+import { PurchaseOrderStatus } from '@/domain/entities';
+import * as purchaseOrderService from '@/features/purchase-orders';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/purchase-orders/[id]
+ *
+ * Get a purchase order by ID
+ * Requires purchase_orders:read permission
+ */
+export const GET = withAuth(
+  { permissions: [Permission.PurchaseOrderRead] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id) {
+        return badRequest('Purchase order ID is required', {
+          route: 'GET /api/purchase-orders/[id]',
+          userId,
+        });
+      }
+
+      const purchaseOrder = await purchaseOrderService.getPurchaseOrderById(id);
+
+      return NextResponse.json({
+        success: true,
+        data: purchaseOrder,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/purchase-orders/[id]',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/purchase-orders/[id]
+ *
+ * Move a purchase order to its next status
+ * (issued → acknowledged → partially_received → closed; any open order can be closed)
+ * Requires purchase_orders:manage permission (buyers and admins)
+ *
+ * Body:
+ * - status: 'acknowledged' | 'partially_received' | 'closed'
+ * - note?: string
+ */
+export const PUT = withAuth(
+  { permissions: [Permission.PurchaseOrderManage] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id) {
+        return badRequest('Purchase order ID is required', {
+          route: 'PUT /api/purchase-orders/[id]',
+          userId,
+        });
+      }
+
+      const body = await request.json();
+
+      if (
+        !Object.values(PurchaseOrderStatus).includes(
+          body.status as PurchaseOrderStatus
+        )
+      ) {
+        return badRequest(`Invalid purchase order status: ${body.status}`, {
+          route: 'PUT /api/purchase-orders/[id]',
+          userId,
+        });
+      }
+
+      if (body.note !== undefined && typeof body.note !== 'string') {
+        return badRequest('Note must be a string', {
+          route: 'PUT /api/purchase-orders/[id]',
+          userId,
+        });
+      }
+
+      const purchaseOrder =
+        await purchaseOrderService.updatePurchaseOrderStatus(
+          id,
+          body.status,
+          userId,
+          body.note
+        );
+
+      return NextResponse.json({
+        success: true,
+        data: purchaseOrder,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'PUT /api/purchase-orders/[id]',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,65 @@
+/**
+ * Purchase Orders API Route
+ *
+ * GET /api/purchase-orders - List purchase orders (buyers and admins)
+ */
+
+import { NextResponse } from 'next/server';
+
+import { PurchaseOrderStatus } from '@/domain/entities';
+import * as purchaseOrderService from '@/features/purchase-orders';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/purchase-orders
+ *
+ * List purchase orders, most recent first
+ * Requires purchase_orders:read permission
+ *
+ * Query params:
+ * - status?: 'issued' | 'acknowledged' | 'partially_received' | 'closed'
+ * - supplierId?: string
+ * - purchaseRequestId?: string
+ */
+export const GET = withAuth(
+  { permissions: [Permission.PurchaseOrderRead] },
+  async (request, { userId }) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const status = searchParams.get('status') || undefined;
+      const supplierId = searchParams.get('supplierId') || undefined;
+      const purchaseRequestId =
+        searchParams.get('purchaseRequestId') || undefined;
+
+      if (
+        status &&
+        !Object.values(PurchaseOrderStatus).includes(
+          status as PurchaseOrderStatus
+        )
+      ) {
+        return badRequest(`Invalid purchase order status: ${status}`, {
+          route: 'GET /api/purchase-orders',
+          userId,
+        });
+      }
+
+      const purchaseOrders = await purchaseOrderService.listPurchaseOrders({
+        status: status as PurchaseOrderStatus | undefined,
+        supplierId,
+        purchaseRequestId,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: purchaseOrders,
+        count: purchaseOrders.length,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/purchase-orders',
+        userId,
+      });
+    }
+  }
+);
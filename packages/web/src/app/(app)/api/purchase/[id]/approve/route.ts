@@ -0,0 +1,62 @@
+/**
+ * Purchase Request Approve API Route
+ *
+ * POST /api/purchase/[id]/approve - Approve the current approval step
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as approvalService from '@/features/approvals';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * POST /api/purchase/[id]/approve
+ *
+ * Approve the current approval step of a purchase request.
+ * The authenticated user must be an approver for that step and cannot be
+ * the requester. Approving the last step moves the request to approved.
+ *
+ * Body:
+ * - comment?: string (optional)
+ */
+export const POST = withAuth(
+  { permissions: [Permission.ApprovalReview] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid purchase request ID', {
+          route: 'POST /api/purchase/[id]/approve',
+          userId,
+        });
+      }
+
+      const body = await request.json().catch(() => ({}));
+
+      if (body.comment !== undefined && typeof body.comment !== 'string') {
+        return badRequest('Comment must be a string', {
+          route: 'POST /api/purchase/[id]/approve',
+          userId,
+        });
+      }
+
+      const purchaseRequest = await approvalService.approvePurchaseRequest(
+        userId,
+        id,
+        body.comment
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: purchaseRequest,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/purchase/[id]/approve',
+        userId,
+      });
+    }
+  }
+);
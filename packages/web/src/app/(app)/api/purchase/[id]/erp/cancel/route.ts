@@ -0,0 +1,54 @@
+/**
+ * Purchase Request ERP Cancellation API Route
+ *
+ * POST /api/purchase/[id]/erp/cancel - Cancel a request in the ERP (admin)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as erpService from '@/features/erp';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * POST /api/purchase/[id]/erp/cancel
+ *
+ * Cancel a request in the ERP. A submission still in the outbox is
+ * dropped immediately; otherwise a cancel operation is queued and the
+ * ERP status changes once it is processed.
+ * Requires erp:manage permission
+ */
+export const POST = withAuth(
+  { permissions: [Permission.ErpManage] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid purchase request ID', {
+          route: 'POST /api/purchase/[id]/erp/cancel',
+          userId,
+        });
+      }
+
+      const purchaseRequest = await erpService.requestErpCancellation(id);
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: {
+            erpReference: purchaseRequest.erpReference,
+            erpStatus: purchaseRequest.erpStatus,
+            erpStatusUpdatedAt: purchaseRequest.erpStatusUpdatedAt,
+          },
+        },
+        { status: 202 }
+      );
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/purchase/[id]/erp/cancel',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,52 @@
+/**
+ * Purchase Request ERP Status API Route
+ *
+ * GET /api/purchase/[id]/erp - Poll the ERP for a request's status (admin)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as erpService from '@/features/erp';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/purchase/[id]/erp
+ *
+ * Fetch the current status from the ERP and record it on the request
+ * Requires erp:manage permission
+ *
+ * Returns 409 ERP_NOT_SUBMITTED if the request has no ERP reference yet
+ * and 502 ERP_UNAVAILABLE if the ERP cannot be reached.
+ */
+export const GET = withAuth(
+  { permissions: [Permission.ErpManage] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid purchase request ID', {
+          route: 'GET /api/purchase/[id]/erp',
+          userId,
+        });
+      }
+
+      const purchaseRequest = await erpService.refreshErpStatus(id);
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          erpReference: purchaseRequest.erpReference,
+          erpStatus: purchaseRequest.erpStatus,
+          erpStatusUpdatedAt: purchaseRequest.erpStatusUpdatedAt,
+        },
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/purchase/[id]/erp',
+        userId,
+      });
+    }
+  }
+);
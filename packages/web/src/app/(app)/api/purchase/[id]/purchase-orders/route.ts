@@ -0,0 +1,87 @@
+/**
+ * Purchase Request Purchase Orders API Route
+ *
+ * GET /api/purchase/[id]/purchase-orders - List orders issued for a request
+ * POST /api/purchase/[id]/purchase-orders - Issue orders for unordered lines
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as purchaseOrderService from '@/features/purchase-orders';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/purchase/[id]/purchase-orders
+ *
+ * List the purchase orders generated from a purchase request
+ * Requires purchase_orders:read permission
+ */
+export const GET = withAuth(
+  { permissions: [Permission.PurchaseOrderRead] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid purchase request ID', {
+          route: 'GET /api/purchase/[id]/purchase-orders',
+          userId,
+        });
+      }
+
+      const purchaseOrders = await purchaseOrderService.listPurchaseOrders({
+        purchaseRequestId: id,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: purchaseOrders,
+        count: purchaseOrders.length,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/purchase/[id]/purchase-orders',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/purchase/[id]/purchase-orders
+ *
+ * Generate purchase orders for an approved request.
+ * Orders are issued automatically on approval; use this to retry a failed
+ * generation or to order lines that had no active supplier at the time.
+ * Lines already on an order are never ordered twice.
+ * Requires purchase_orders:manage permission (buyers and admins)
+ */
+export const POST = withAuth(
+  { permissions: [Permission.PurchaseOrderManage] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid purchase request ID', {
+          route: 'POST /api/purchase/[id]/purchase-orders',
+          userId,
+        });
+      }
+
+      const result =
+        await purchaseOrderService.generatePurchaseOrdersForRequest(id);
+
+      return NextResponse.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/purchase/[id]/purchase-orders',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,48 @@
+/**
+ * Purchase Request Goods Receipts API Route
+ *
+ * GET /api/purchase/[id]/receipts - List goods received for a request
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as receivingService from '@/features/receiving';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/purchase/[id]/receipts
+ *
+ * List goods receipts across all purchase orders of a purchase request
+ * Requires purchase_orders:read permission
+ */
+export const GET = withAuth(
+  { permissions: [Permission.PurchaseOrderRead] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid purchase request ID', {
+          route: 'GET /api/purchase/[id]/receipts',
+          userId,
+        });
+      }
+
+      const receipts = await receivingService.listGoodsReceipts({
+        purchaseRequestId: id,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: receipts,
+        count: receipts.length,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/purchase/[id]/receipts',
+        userId,
+      });
+    }
+  }
+);
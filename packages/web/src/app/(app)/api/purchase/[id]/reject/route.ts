@@ -0,0 +1,61 @@
+/**
+ * Purchase Request Reject API Route
+ *
+ * POST /api/purchase/[id]/reject - Reject a purchase request
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as approvalService from '@/features/approvals';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * POST /api/purchase/[id]/reject
+ *
+ * Reject a purchase request at its current approval step.
+ * The authenticated user must be an approver for that step.
+ *
+ * Body:
+ * - comment: string (required, reason shown to the requester)
+ */
+export const POST = withAuth(
+  { permissions: [Permission.ApprovalReview] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid purchase request ID', {
+          route: 'POST /api/purchase/[id]/reject',
+          userId,
+        });
+      }
+
+      const body = await request.json().catch(() => ({}));
+
+      if (body.comment !== undefined && typeof body.comment !== 'string') {
+        return badRequest('Comment must be a string', {
+          route: 'POST /api/purchase/[id]/reject',
+          userId,
+        });
+      }
+
+      const purchaseRequest = await approvalService.rejectPurchaseRequest(
+        userId,
+        id,
+        body.comment ?? ''
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: purchaseRequest,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/purchase/[id]/reject',
+        userId,
+      });
+    }
+  }
+);
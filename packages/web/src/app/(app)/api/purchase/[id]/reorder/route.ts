@@ -0,0 +1,47 @@
+/**
+ * Purchase Request Reorder API Route
+ *
+ * POST /api/purchase/[id]/reorder - Rebuild the cart from a purchase request
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as cartService from '@/features/cart';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * POST /api/purchase/[id]/reorder
+ *
+ * Add the lines of one of the user's purchase requests to the cart at
+ * current catalog prices. Deleted and archived items are skipped and
+ * listed in `skipped`; `previousUnitPrice` shows the price paid then.
+ * Requires authentication
+ */
+export const POST = withAuth(
+  { permissions: [Permission.CartManage] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid purchase request ID', {
+          route: 'POST /api/purchase/[id]/reorder',
+          userId,
+        });
+      }
+
+      const result = await cartService.reorderPurchaseRequest(userId, id);
+
+      return NextResponse.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/purchase/[id]/reorder',
+        userId,
+      });
+    }
+  }
+);
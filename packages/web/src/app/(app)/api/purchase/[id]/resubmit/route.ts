@@ -0,0 +1,61 @@
+/**
+ * Purchase Request Resubmit API Route
+ *
+ * POST /api/purchase/[id]/resubmit - Resubmit a returned purchase request
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as approvalService from '@/features/approvals';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * POST /api/purchase/[id]/resubmit
+ *
+ * Resubmit a purchase request that was returned for changes.
+ * Only the requester can resubmit; the approval chain restarts.
+ *
+ * Body:
+ * - comment?: string (optional)
+ */
+export const POST = withAuth(
+  { permissions: [Permission.PurchaseCreate] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid purchase request ID', {
+          route: 'POST /api/purchase/[id]/resubmit',
+          userId,
+        });
+      }
+
+      const body = await request.json().catch(() => ({}));
+
+      if (body.comment !== undefined && typeof body.comment !== 'string') {
+        return badRequest('Comment must be a string', {
+          route: 'POST /api/purchase/[id]/resubmit',
+          userId,
+        });
+      }
+
+      const purchaseRequest = await approvalService.resubmitPurchaseRequest(
+        userId,
+        id,
+        body.comment
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: purchaseRequest,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/purchase/[id]/resubmit',
+        userId,
+      });
+    }
+  }
+);
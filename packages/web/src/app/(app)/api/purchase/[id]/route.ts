@@ -6,58 +6,70 @@
 
 import { NextResponse } from 'next/server';
 
+import * as approvalService from '@/features/approvals';
 import * as checkoutService from '@/features/checkout';
 import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
 
 /**
  * GET /api/purchase/[id]
  *
  * Get details of a specific purchase request
- * Only returns the request if it belongs to the authenticated user
+ * Returns the request if it belongs to the authenticated user, or if the
+ * user is an approver on its approval chain. `canAct` tells the client
+ * whether the user can decide the current approval step.
  */
-export const GET = withAuth(async (_request, { userId, params }) => {
-  try {
-    const id = params?.id;
+export const GET = withAuth(
+  { permissions: [Permission.PurchaseRead] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
 
-    if (!id) {
-      return badRequest('Purchase request ID is required', {
-        route: 'GET /api/purchase/[id]',
+      if (!id) {
+        return badRequest('Purchase request ID is required', {
+          route: 'GET /api/purchase/[id]',
+          userId,
+        });
+      }
+
+      // Validate ID format (MongoDB ObjectId)
+      if (!/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid purchase request ID', {
+          route: 'GET /api/purchase/[id]',
+          userId,
+        });
+      }
+
+      // Fetch purchase request (owner first, then approver access)
+      const ownRequest = await checkoutService.getPurchaseRequestById(
         userId,
-      });
-    }
+        id
+      );
+      const review = ownRequest
+        ? null
+        : await approvalService.getPurchaseRequestForReview(userId, id);
+      const purchaseRequest = ownRequest ?? review?.request;
 
-    // Validate ID format (MongoDB ObjectId)
-    if (!/^[0-9a-fA-F]{24}$/.test(id)) {
-      return badRequest('Invalid purchase request ID', {
+      if (!purchaseRequest) {
+        return NextResponse.json(
+          {
+            error: 'Not found',
+            message: 'Purchase request not found',
+          },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: purchaseRequest,
+        canAct: review?.canAct ?? false,
+      });
+    } catch (error) {
+      return handleApiError(error, {
         route: 'GET /api/purchase/[id]',
         userId,
       });
     }
-
-    // Fetch purchase request
-    const purchaseRequest = await checkoutService.getPurchaseRequestById(
-      userId,
-      id
-    );
-
-    if (!purchaseRequest) {
-      return NextResponse.json(
-        {
-          error: 'Not found',
-          message: 'Purchase request not found',
-        },
-        { status: 404 }
-      );
-    }
-
-    return NextResponse.json({
-      success: true,
-      data: purchaseRequest,
-    });
-  } catch (error) {
-    return handleApiError(error, {
-      route: 'GET /api/purchase/[id]',
-      userId,
-    });
   }
-});
+);
@@ -8,54 +8,66 @@ import { NextResponse } from 'next/server';
 
 import { PurchaseRequestStatus } from '@/domain/entities';
 import * as checkoutService from '@/features/checkout';
-import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import {
+  badRequest,
+  handleApiError,
+  parsePageParams,
+  withAuth,
+} from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
 
 /**
  * GET /api/purchase
  *
- * List all purchase requests for the authenticated user
- * Supports filtering by status
+ * List purchase requests for the authenticated user (most recent first)
+ * Supports filtering by status and cursor pagination
  *
  * Query Parameters:
  * - status: PurchaseRequestStatus (optional)
+ * - cursor: Cursor from the previous page (optional)
+ * - limit: Page size (optional, default 20, max 100)
  */
-export const GET = withAuth(async (request, { userId }) => {
-  try {
-    // Parse query parameters
-    const searchParams = request.nextUrl.searchParams;
-    const statusParam = searchParams.get('status');
+export const GET = withAuth(
+  { permissions: [Permission.PurchaseRead] },
+  async (request, { userId }) => {
+    try {
+      // Parse query parameters
+      const searchParams = request.nextUrl.searchParams;
+      const statusParam = searchParams.get('status');
+      const page = parsePageParams(searchParams);
 
-    // Build filters
-    const filters: { status?: PurchaseRequestStatus } = {};
+      // Build filters
+      const filters: { status?: PurchaseRequestStatus } = {};
 
-    if (statusParam) {
-      // Validate status parameter
-      const validStatuses = Object.values(PurchaseRequestStatus);
-      if (validStatuses.includes(statusParam as PurchaseRequestStatus)) {
-        filters.status = statusParam as PurchaseRequestStatus;
-      } else {
-        return badRequest(
-          `Invalid status. Must be one of: ${validStatuses.join(', ')}`,
-          { route: 'GET /api/purchase', userId }
-        );
+      if (statusParam) {
+        // Validate status parameter
+        const validStatuses = Object.values(PurchaseRequestStatus);
+        if (validStatuses.includes(statusParam as PurchaseRequestStatus)) {
+          filters.status = statusParam as PurchaseRequestStatus;
+        } else {
+          return badRequest(
+            `Invalid status. Must be one of: ${validStatuses.join(', ')}`,
+            { route: 'GET /api/purchase', userId }
+          );
+        }
       }
-    }
 
-    // Fetch purchase requests
-    const purchaseRequests = await checkoutService.getPurchaseRequestsForUser(
-      userId,
-      filters
-    );
+      // Fetch purchase requests
+      const { items, nextCursor, hasMore } =
+        await checkoutService.getPurchaseRequestsForUser(userId, filters, page);
 
-    return NextResponse.json({
-      success: true,
-      data: purchaseRequests,
-      count: purchaseRequests.length,
-    });
-  } catch (error) {
-    return handleApiError(error, {
-      route: 'GET /api/purchase',
-      userId,
-    });
+      return NextResponse.json({
+        success: true,
+        data: items,
+        count: items.length,
+        nextCursor,
+        hasMore,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/purchase',
+        userId,
+      });
+    }
   }
-});
+);
@@ -4,16 +4,18 @@
  * GET /api/settings/analytics - Get token usage analytics
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
 
 import { getTokenUsageAnalytics } from '@/features/settings';
-import { authConfig } from '@/lib/auth/config';
+import { withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
 import { logger } from '@/lib/logger/winston.config';
 
 /**
  * GET /api/settings/analytics
  *
+ * Analytics for the authenticated user's own usage (usage:read_own)
+ *
  * Query params:
  * - startDate?: string (ISO date, inclusive)
  * - endDate?: string (ISO date, inclusive)
@@ -25,68 +27,61 @@ import { logger } from '@/lib/logger/winston.config';
  * - Breakdowns by provider and model
  * - Top conversations by cost
  */
-export async function GET(request: NextRequest) {
-  try {
-    // Check authentication
-    const session = await getServerSession(authConfig);
-
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'User must be authenticated' },
-        { status: 401 }
-      );
-    }
-
-    // Parse query parameters
-    const { searchParams } = new URL(request.url);
-    const startDateParam = searchParams.get('startDate');
-    const endDateParam = searchParams.get('endDate');
-    const period = (searchParams.get('period') || 'day') as
-      | 'day'
-      | 'week'
-      | 'month';
-
-    // Default to last 30 days if no dates provided
-    const endDate = endDateParam ? new Date(endDateParam) : new Date();
-    const startDate = startDateParam
-      ? new Date(startDateParam)
-      : new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000); // 30 days ago
+export const GET = withAuth(
+  { permissions: [Permission.UsageReadOwn] },
+  async (request, { userId }) => {
+    try {
+      // Parse query parameters
+      const { searchParams } = new URL(request.url);
+      const startDateParam = searchParams.get('startDate');
+      const endDateParam = searchParams.get('endDate');
+      const period = (searchParams.get('period') || 'day') as
+        | 'day'
+        | 'week'
+        | 'month';
 
-    // Get analytics
-    const analytics = await getTokenUsageAnalytics({
-      userId: session.user.id,
-      startDate,
-      endDate,
-      period,
-    });
+      // Default to last 30 days if no dates provided
+      const endDate = endDateParam ? new Date(endDateParam) : new Date();
+      const startDate = startDateParam
+        ? new Date(startDateParam)
+        : new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000); // 30 days ago
 
-    logger.info('Token usage analytics retrieved', {
-      userId: session.user.id,
-      startDate: startDate.toISOString(),
-      endDate: endDate.toISOString(),
-      requestCount: analytics.summary.requestCount,
-    });
+      // Get analytics
+      const analytics = await getTokenUsageAnalytics({
+        userId,
+        startDate,
+        endDate,
+        period,
+      });
 
-    return NextResponse.json({
-      analytics,
-      filters: {
+      logger.info('Token usage analytics retrieved', {
+        userId,
         startDate: startDate.toISOString(),
         endDate: endDate.toISOString(),
-        period,
-      },
-    });
-  } catch (error) {
-    logger.error('Error in GET /api/settings/analytics', {
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-    });
+        requestCount: analytics.summary.requestCount,
+      });
+
+      return NextResponse.json({
+        analytics,
+        filters: {
+          startDate: startDate.toISOString(),
+          endDate: endDate.toISOString(),
+          period,
+        },
+      });
+    } catch (error) {
+      logger.error('Error in GET /api/settings/analytics', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
 
-    return NextResponse.json(
-      {
-        error: 'Analytics query failed',
-        message: 'An error occurred while fetching token usage analytics.',
-      },
-      { status: 500 }
-    );
+      return NextResponse.json(
+        {
+          error: 'Analytics query failed',
+          message: 'An error occurred while fetching token usage analytics.',
+        },
+        { status: 500 }
+      );
+    }
   }
-}
+);
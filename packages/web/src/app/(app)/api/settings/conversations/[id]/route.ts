@@ -7,25 +7,29 @@ import { NextResponse } from 'next/server';
 
 import { deleteConversation } from '@/features/settings';
 import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
 
-export const DELETE = withAuth(async (_request, { userId, params }) => {
-  try {
-    const id = params?.id;
+export const DELETE = withAuth(
+  { permissions: [Permission.SettingsManageOwn] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
 
-    if (!id) {
-      return badRequest('Conversation ID is required', {
+      if (!id) {
+        return badRequest('Conversation ID is required', {
+          route: 'DELETE /api/settings/conversations/[id]',
+          userId,
+        });
+      }
+
+      await deleteConversation(userId, id);
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      return handleApiError(error, {
         route: 'DELETE /api/settings/conversations/[id]',
         userId,
       });
     }
-
-    await deleteConversation(userId, id);
-
-    return NextResponse.json({ success: true });
-  } catch (error) {
-    return handleApiError(error, {
-      route: 'DELETE /api/settings/conversations/[id]',
-      userId,
-    });
   }
-});
+);
@@ -1,6 +1,7 @@
 /**
  * API Route: GET /api/settings/conversations
- * Gets all conversations for the authenticated user
+ * Gets conversations for the authenticated user (cursor-paginated:
+ * cursor, limit; default 20, max 100)
  *
  * API Route: DELETE /api/settings/conversations
  * Deletes all conversations for the authenticated user
@@ -12,30 +13,44 @@ import {
   deleteAllConversations,
   listUserConversations,
 } from '@/features/settings';
-import { handleApiError, withAuth } from '@/lib/api';
+import { handleApiError, parsePageParams, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
 
-export const GET = withAuth(async (_request, { userId }) => {
-  try {
-    const conversations = await listUserConversations(userId);
+export const GET = withAuth(
+  { permissions: [Permission.SettingsManageOwn] },
+  async (request, { userId }) => {
+    try {
+      const { items, nextCursor, hasMore } = await listUserConversations(
+        userId,
+        parsePageParams(request.nextUrl.searchParams)
+      );
 
-    return NextResponse.json({ conversations });
-  } catch (error) {
-    return handleApiError(error, {
-      route: 'GET /api/settings/conversations',
-      userId,
-    });
+      return NextResponse.json({
+        conversations: items,
+        nextCursor,
+        hasMore,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/settings/conversations',
+        userId,
+      });
+    }
   }
-});
+);
 
-export const DELETE = withAuth(async (_request, { userId }) => {
-  try {
-    const count = await deleteAllConversations(userId);
+export const DELETE = withAuth(
+  { permissions: [Permission.SettingsManageOwn] },
+  async (_request, { userId }) => {
+    try {
+      const count = await deleteAllConversations(userId);
 
-    return NextResponse.json({ count });
-  } catch (error) {
-    return handleApiError(error, {
-      route: 'DELETE /api/settings/conversations',
-      userId,
-    });
+      return NextResponse.json({ count });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'DELETE /api/settings/conversations',
+        userId,
+      });
+    }
   }
-});
+);
@@ -7,29 +7,33 @@ import { NextResponse } from 'next/server';
 
 import { updateUserName } from '@/features/settings';
 import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
 
-export const PATCH = withAuth(async (request, { userId }) => {
-  try {
-    const body = await request.json();
-    const { name } = body;
+export const PATCH = withAuth(
+  { permissions: [Permission.SettingsManageOwn] },
+  async (request, { userId }) => {
+    try {
+      const body = await request.json();
+      const { name } = body;
 
-    if (!name || typeof name !== 'string') {
-      return badRequest('Name is required', {
+      if (!name || typeof name !== 'string') {
+        return badRequest('Name is required', {
+          route: 'PATCH /api/settings/profile',
+          userId,
+        });
+      }
+
+      const updatedUser = await updateUserName({
+        userId,
+        name,
+      });
+
+      return NextResponse.json({ user: updatedUser });
+    } catch (error) {
+      return handleApiError(error, {
         route: 'PATCH /api/settings/profile',
         userId,
       });
     }
-
-    const updatedUser = await updateUserName({
-      userId,
-      name,
-    });
-
-    return NextResponse.json({ user: updatedUser });
-  } catch (error) {
-    return handleApiError(error, {
-      route: 'PATCH /api/settings/profile',
-      userId,
-    });
   }
-});
+);
@@ -0,0 +1,116 @@
+/**
+ * Single Supplier API Route
+ *
+ * GET /api/suppliers/[id] - Get a supplier
+ * PUT /api/suppliers/[id] - Update a supplier, including blocking it
+ * DELETE /api/suppliers/[id] - Delete a supplier not offered on any item
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as supplierService from '@/features/suppliers';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/suppliers/[id]
+ *
+ * Get a supplier by ID
+ * Requires suppliers:read permission
+ */
+export const GET = withAuth(
+  { permissions: [Permission.SupplierRead] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id) {
+        return badRequest('Supplier ID is required', {
+          route: 'GET /api/suppliers/[id]',
+          userId,
+        });
+      }
+
+      const supplier = await supplierService.getSupplierById(id);
+
+      return NextResponse.json({
+        success: true,
+        data: supplier,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/suppliers/[id]',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/suppliers/[id]
+ *
+ * Update a supplier (contact, terms, status, etc.)
+ * Set status to 'blocked' to stop routing new orders to the supplier.
+ * Requires suppliers:manage permission (buyers and admins)
+ */
+export const PUT = withAuth(
+  { permissions: [Permission.SupplierManage] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id) {
+        return badRequest('Supplier ID is required', {
+          route: 'PUT /api/suppliers/[id]',
+          userId,
+        });
+      }
+
+      const body = await request.json();
+
+      const supplier = await supplierService.updateSupplier(id, body);
+
+      return NextResponse.json({
+        success: true,
+        data: supplier,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'PUT /api/suppliers/[id]',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/suppliers/[id]
+ *
+ * Delete a supplier
+ * Fails with 409 while catalog items still list the supplier.
+ * Requires suppliers:manage permission (buyers and admins)
+ */
+export const DELETE = withAuth(
+  { permissions: [Permission.SupplierManage] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id) {
+        return badRequest('Supplier ID is required', {
+          route: 'DELETE /api/suppliers/[id]',
+          userId,
+        });
+      }
+
+      await supplierService.deleteSupplier(id);
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'DELETE /api/suppliers/[id]',
+        userId,
+      });
+    }
+  }
+);
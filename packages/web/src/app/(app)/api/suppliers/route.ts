@@ -0,0 +1,102 @@
+/**
+ * Suppliers API Route
+ *
+ * GET /api/suppliers - List suppliers
+ * POST /api/suppliers - Create a supplier (buyers and admins)
+ */
+
+import { NextResponse } from 'next/server';
+
+import { SupplierStatus } from '@/domain/entities';
+import * as supplierService from '@/features/suppliers';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/suppliers
+ *
+ * List suppliers sorted by name
+ * Requires suppliers:read permission
+ *
+ * Query params:
+ * - q?: string (matches name or tax ID)
+ * - status?: 'active' | 'blocked'
+ */
+export const GET = withAuth(
+  { permissions: [Permission.SupplierRead] },
+  async (request, { userId }) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const q = searchParams.get('q') || undefined;
+      const status = searchParams.get('status') || undefined;
+
+      if (
+        status &&
+        !Object.values(SupplierStatus).includes(status as SupplierStatus)
+      ) {
+        return badRequest(`Invalid supplier status: ${status}`, {
+          route: 'GET /api/suppliers',
+          userId,
+        });
+      }
+
+      const suppliers = await supplierService.listSuppliers({
+        q,
+        status: status as SupplierStatus | undefined,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: suppliers,
+        count: suppliers.length,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/suppliers',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/suppliers
+ *
+ * Create a supplier
+ * Requires suppliers:manage permission (buyers and admins)
+ *
+ * Body:
+ * - name: string (unique)
+ * - contact?: { name?: string; email?: string; phone?: string }
+ * - address?: string
+ * - website?: string
+ * - taxId?: string
+ * - paymentTerms?: 'prepaid' | 'net_15' | 'net_30' | 'net_45' | 'net_60' | 'net_90' (default: 'net_30')
+ * - leadTimeDays?: number
+ * - status?: 'active' | 'blocked' (default: 'active')
+ * - blockedReason?: string
+ * - notes?: string
+ */
+export const POST = withAuth(
+  { permissions: [Permission.SupplierManage] },
+  async (request, { userId }) => {
+    try {
+      const body = await request.json();
+
+      const supplier = await supplierService.createSupplier(body);
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: supplier,
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/suppliers',
+        userId,
+      });
+    }
+  }
+);
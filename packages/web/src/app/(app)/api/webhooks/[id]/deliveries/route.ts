@@ -0,0 +1,67 @@
+/**
+ * Webhook Delivery Log API Route
+ *
+ * GET /api/webhooks/[id]/deliveries - List an endpoint's deliveries (admin)
+ */
+
+import { NextResponse } from 'next/server';
+
+import { WebhookDeliveryStatus } from '@/domain/entities';
+import * as webhookService from '@/features/webhooks';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/webhooks/[id]/deliveries
+ *
+ * List deliveries with their attempt log, most recent first
+ * Requires webhooks:manage permission
+ *
+ * Query params:
+ * - status?: 'pending' | 'delivered' | 'failed'
+ */
+export const GET = withAuth(
+  { permissions: [Permission.WebhookManage] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid webhook ID', {
+          route: 'GET /api/webhooks/[id]/deliveries',
+          userId,
+        });
+      }
+
+      const { searchParams } = new URL(request.url);
+      const status = searchParams.get('status') || undefined;
+
+      if (
+        status &&
+        !Object.values(WebhookDeliveryStatus).includes(
+          status as WebhookDeliveryStatus
+        )
+      ) {
+        return badRequest(`Invalid delivery status: ${status}`, {
+          route: 'GET /api/webhooks/[id]/deliveries',
+          userId,
+        });
+      }
+
+      const deliveries = await webhookService.listWebhookDeliveries(id, {
+        status: status as WebhookDeliveryStatus | undefined,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: deliveries,
+        count: deliveries.length,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/webhooks/[id]/deliveries',
+        userId,
+      });
+    }
+  }
+);
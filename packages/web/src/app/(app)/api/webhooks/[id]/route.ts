@@ -0,0 +1,124 @@
+/**
+ * Single Webhook API Route
+ *
+ * GET /api/webhooks/[id] - Get a webhook endpoint (admin)
+ * PUT /api/webhooks/[id] - Update URL, events or active flag (admin)
+ * DELETE /api/webhooks/[id] - Remove an endpoint and its delivery log (admin)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as webhookService from '@/features/webhooks';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/webhooks/[id]
+ *
+ * Get a webhook endpoint by ID
+ * Requires webhooks:manage permission
+ */
+export const GET = withAuth(
+  { permissions: [Permission.WebhookManage] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid webhook ID', {
+          route: 'GET /api/webhooks/[id]',
+          userId,
+        });
+      }
+
+      const subscription = await webhookService.getWebhookSubscription(id);
+
+      return NextResponse.json({
+        success: true,
+        data: subscription,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/webhooks/[id]',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/webhooks/[id]
+ *
+ * Update a webhook endpoint
+ * Set active to false to pause deliveries without losing the log.
+ * Requires webhooks:manage permission
+ *
+ * Body (all optional):
+ * - url?: string
+ * - events?: string[]
+ * - description?: string
+ * - active?: boolean
+ */
+export const PUT = withAuth(
+  { permissions: [Permission.WebhookManage] },
+  async (request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid webhook ID', {
+          route: 'PUT /api/webhooks/[id]',
+          userId,
+        });
+      }
+
+      const body = await request.json();
+
+      const subscription = await webhookService.updateWebhookSubscription(
+        id,
+        body
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: subscription,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'PUT /api/webhooks/[id]',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/webhooks/[id]
+ *
+ * Remove a webhook endpoint together with its delivery log
+ * Requires webhooks:manage permission
+ */
+export const DELETE = withAuth(
+  { permissions: [Permission.WebhookManage] },
+  async (_request, { userId, params }) => {
+    try {
+      const id = params?.id;
+
+      if (!id || !/^[0-9a-fA-F]{24}$/.test(id)) {
+        return badRequest('Invalid webhook ID', {
+          route: 'DELETE /api/webhooks/[id]',
+          userId,
+        });
+      }
+
+      await webhookService.deleteWebhookSubscription(id);
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'DELETE /api/webhooks/[id]',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,50 @@
+/**
+ * Webhook Redelivery API Route
+ *
+ * POST /api/webhooks/deliveries/[deliveryId]/redeliver - Send an event again (admin)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as webhookService from '@/features/webhooks';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * POST /api/webhooks/deliveries/[deliveryId]/redeliver
+ *
+ * Create a new delivery of the same event and attempt it immediately
+ * Returns the new delivery with the outcome of its first attempt.
+ * Requires webhooks:manage permission
+ */
+export const POST = withAuth(
+  { permissions: [Permission.WebhookManage] },
+  async (_request, { userId, params }) => {
+    try {
+      const deliveryId = params?.deliveryId;
+
+      if (!deliveryId || !/^[0-9a-fA-F]{24}$/.test(deliveryId)) {
+        return badRequest('Invalid delivery ID', {
+          route: 'POST /api/webhooks/deliveries/[deliveryId]/redeliver',
+          userId,
+        });
+      }
+
+      const delivery =
+        await webhookService.redeliverWebhookDelivery(deliveryId);
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: delivery,
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/webhooks/deliveries/[deliveryId]/redeliver',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,51 @@
+/**
+ * Webhook Delivery Processing API Route
+ *
+ * POST /api/webhooks/deliveries/process - Attempt due webhook deliveries (admin)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as webhookService from '@/features/webhooks';
+import { badRequest, handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * POST /api/webhooks/deliveries/process
+ *
+ * Retry pending deliveries whose backoff has elapsed.
+ * Run by hand; the scheduler retries deliveries through
+ * POST /api/cron/webhook-deliveries. Safe to run concurrently.
+ * Requires webhooks:manage permission
+ *
+ * Body (optional):
+ * - limit?: number (1-100, default 20)
+ */
+export const POST = withAuth(
+  { permissions: [Permission.WebhookManage] },
+  async (request, { userId }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const limit = body.limit ?? 20;
+
+      if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+        return badRequest('limit must be an integer between 1 and 100', {
+          route: 'POST /api/webhooks/deliveries/process',
+          userId,
+        });
+      }
+
+      const summary = await webhookService.processWebhookDeliveries(limit);
+
+      return NextResponse.json({
+        success: true,
+        data: summary,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/webhooks/deliveries/process',
+        userId,
+      });
+    }
+  }
+);
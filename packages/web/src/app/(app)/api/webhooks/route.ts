@@ -0,0 +1,76 @@
+/**
+ * Webhooks API Route
+ *
+ * GET /api/webhooks - List registered webhook endpoints (admin)
+ * POST /api/webhooks - Register a webhook endpoint (admin)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as webhookService from '@/features/webhooks';
+import { handleApiError, withAuth } from '@/lib/api';
+import { Permission } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/webhooks
+ *
+ * List webhook endpoints, newest first (secrets are never returned)
+ * Requires webhooks:manage permission
+ */
+export const GET = withAuth(
+  { permissions: [Permission.WebhookManage] },
+  async (_request, { userId }) => {
+    try {
+      const subscriptions = await webhookService.listWebhookSubscriptions();
+
+      return NextResponse.json({
+        success: true,
+        data: subscriptions,
+        count: subscriptions.length,
+      });
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'GET /api/webhooks',
+        userId,
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/webhooks
+ *
+ * Register a webhook endpoint
+ * The response includes the signing secret; it is not shown again.
+ * Requires webhooks:manage permission
+ *
+ * Body:
+ * - url: string (http or https)
+ * - events: ('purchase_request.created' | 'purchase_request.status_changed' | 'item.created' | 'item.updated' | 'item.deleted' | 'item.reviewed')[]
+ * - description?: string
+ * - active?: boolean (default: true)
+ */
+export const POST = withAuth(
+  { permissions: [Permission.WebhookManage] },
+  async (request, { userId }) => {
+    try {
+      const body = await request.json();
+
+      const { subscription, secret } =
+        await webhookService.createWebhookSubscription(body, userId);
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: { ...subscription, secret },
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      return handleApiError(error, {
+        route: 'POST /api/webhooks',
+        userId,
+      });
+    }
+  }
+);
@@ -0,0 +1,26 @@
+import { Skeleton } from '@/components/ui/skeleton';
+
+export default function ApprovalsLoading() {
+  return (
+    <div className='container mx-auto p-6 space-y-6'>
+      <div className='space-y-2'>
+        <Skeleton className='h-8 w-48' />
+        <Skeleton className='h-4 w-72' />
+      </div>
+
+      <div className='rounded-lg border'>
+        {[...Array(5)].map((_, i) => (
+          <div key={i} className='p-4 border-b last:border-b-0 space-y-2'>
+            <div className='flex justify-between items-start'>
+              <div className='space-y-2'>
+                <Skeleton className='h-5 w-32' />
+                <Skeleton className='h-4 w-48' />
+              </div>
+              <Skeleton className='h-8 w-20' />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
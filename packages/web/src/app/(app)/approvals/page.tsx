@@ -0,0 +1,18 @@
+import { Metadata } from 'next';
+
+import { ApprovalInboxPageContent } from '@/features/approvals/components/ApprovalInboxPageContent';
+
+export const metadata: Metadata = {
+  title: 'Approvals | ProcureFlow',
+  description: 'Review purchase requests awaiting your approval',
+};
+
+export default function ApprovalsPage() {
+  return (
+    <div className='container mx-auto max-w-7xl'>
+      <div className='p-3 sm:p-4 md:p-6 lg:p-8'>
+        <ApprovalInboxPageContent />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { Metadata } from 'next';
+
+import { SharedCartPageContent } from '@/features/cart/components/SharedCartPageContent';
+
+export const metadata: Metadata = {
+  title: 'Shared Cart | ProcureFlow',
+  description: 'Fill a cart together with your team',
+};
+
+export default function SharedCartPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  return (
+    <div className='container mx-auto max-w-7xl'>
+      <div className='p-3 sm:p-4 md:p-6 lg:p-8'>
+        <SharedCartPageContent params={params} />
+      </div>
+    </div>
+  );
+}
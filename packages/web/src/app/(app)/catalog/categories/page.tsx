@@ -0,0 +1,18 @@
+import { Metadata } from 'next';
+
+import { CategoryTaxonomyPageContent } from '@/features/catalog/components/CategoryTaxonomyPageContent';
+
+export const metadata: Metadata = {
+  title: 'Categories | ProcureFlow',
+  description: 'Manage the catalog category tree and review spend per category',
+};
+
+export default function CategoriesPage() {
+  return (
+    <div className='container mx-auto max-w-7xl'>
+      <div className='p-3 sm:p-4 md:p-6 lg:p-8'>
+        <CategoryTaxonomyPageContent />
+      </div>
+    </div>
+  );
+}
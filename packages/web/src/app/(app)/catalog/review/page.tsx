@@ -0,0 +1,18 @@
+import { Metadata } from 'next';
+
+import { ItemReviewQueuePageContent } from '@/features/catalog/components/ItemReviewQueuePageContent';
+
+export const metadata: Metadata = {
+  title: 'Item Review | ProcureFlow',
+  description: 'Review items registered by users before they join the catalog',
+};
+
+export default function ItemReviewPage() {
+  return (
+    <div className='container mx-auto max-w-7xl'>
+      <div className='p-3 sm:p-4 md:p-6 lg:p-8'>
+        <ItemReviewQueuePageContent />
+      </div>
+    </div>
+  );
+}
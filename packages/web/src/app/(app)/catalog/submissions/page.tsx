@@ -0,0 +1,18 @@
+import { Metadata } from 'next';
+
+import { ItemSubmissionsPageContent } from '@/features/catalog/components/ItemSubmissionsPageContent';
+
+export const metadata: Metadata = {
+  title: 'My Submissions | ProcureFlow',
+  description: 'Items you registered and the outcome of their review',
+};
+
+export default function ItemSubmissionsPage() {
+  return (
+    <div className='container mx-auto max-w-7xl'>
+      <div className='p-3 sm:p-4 md:p-6 lg:p-8'>
+        <ItemSubmissionsPageContent />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { Metadata } from 'next';
+
+import { SearchSynonymsPageContent } from '@/features/catalog/components/SearchSynonymsPageContent';
+
+export const metadata: Metadata = {
+  title: 'Search Synonyms | ProcureFlow',
+  description: 'Manage the synonym dictionary used by catalog search',
+};
+
+export default function SearchSynonymsPage() {
+  return (
+    <div className='container mx-auto max-w-7xl'>
+      <div className='p-3 sm:p-4 md:p-6 lg:p-8'>
+        <SearchSynonymsPageContent />
+      </div>
+    </div>
+  );
+}
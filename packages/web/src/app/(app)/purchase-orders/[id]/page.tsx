@@ -0,0 +1,22 @@
+import { Metadata } from 'next';
+
+import { PurchaseOrderDetailPageContent } from '@/features/purchase-orders/components/PurchaseOrderDetailPageContent';
+
+export const metadata: Metadata = {
+  title: 'Purchase Order Details | ProcureFlow',
+  description: 'View a purchase order, its receipts and invoice match',
+};
+
+export default function PurchaseOrderDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  return (
+    <div className='container mx-auto max-w-7xl'>
+      <div className='p-3 sm:p-4 md:p-6 lg:p-8'>
+        <PurchaseOrderDetailPageContent params={params} />
+      </div>
+    </div>
+  );
+}
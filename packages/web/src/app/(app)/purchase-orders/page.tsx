@@ -0,0 +1,18 @@
+import { Metadata } from 'next';
+
+import { PurchaseOrdersPageContent } from '@/features/purchase-orders/components/PurchaseOrdersPageContent';
+
+export const metadata: Metadata = {
+  title: 'Purchase Orders | ProcureFlow',
+  description: 'Track purchase orders issued to suppliers',
+};
+
+export default function PurchaseOrdersPage() {
+  return (
+    <div className='container mx-auto max-w-7xl'>
+      <div className='p-3 sm:p-4 md:p-6 lg:p-8'>
+        <PurchaseOrdersPageContent />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+/**
+ * ERP Outbox Scheduler API Route
+ *
+ * POST /api/cron/erp-outbox - Send due outbox entries to the ERP (scheduler)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as erpService from '@/features/erp';
+import { handleApiError, withCronAuth } from '@/lib/api';
+
+// Outbox entries processed per scheduler run (the process endpoint's maximum)
+const ENTRIES_PER_RUN = 100;
+
+/**
+ * POST /api/cron/erp-outbox
+ *
+ * Drain due outbox entries through the configured ERP connector.
+ * Called every minute by the compose `scheduler` service and, on GCP,
+ * by the Cloud Scheduler job; safe to run concurrently.
+ * Requires `Authorization: Bearer <CRON_SECRET>`
+ */
+export const POST = withCronAuth(async () => {
+  try {
+    const summary = await erpService.processErpOutbox(ENTRIES_PER_RUN);
+
+    return NextResponse.json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    return handleApiError(error, {
+      route: 'POST /api/cron/erp-outbox',
+    });
+  }
+});
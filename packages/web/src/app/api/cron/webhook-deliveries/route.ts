@@ -0,0 +1,37 @@
+/**
+ * Webhook Delivery Scheduler API Route
+ *
+ * POST /api/cron/webhook-deliveries - Retry due webhook deliveries (scheduler)
+ */
+
+import { NextResponse } from 'next/server';
+
+import * as webhookService from '@/features/webhooks';
+import { handleApiError, withCronAuth } from '@/lib/api';
+
+// Deliveries attempted per scheduler run (the process endpoint's maximum)
+const DELIVERIES_PER_RUN = 100;
+
+/**
+ * POST /api/cron/webhook-deliveries
+ *
+ * Retry pending deliveries whose backoff has elapsed.
+ * Called every minute by the compose `scheduler` service and, on GCP,
+ * by the Cloud Scheduler job; safe to run concurrently.
+ * Requires `Authorization: Bearer <CRON_SECRET>`
+ */
+export const POST = withCronAuth(async () => {
+  try {
+    const summary =
+      await webhookService.processWebhookDeliveries(DELIVERIES_PER_RUN);
+
+    return NextResponse.json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    return handleApiError(error, {
+      route: 'POST /api/cron/webhook-deliveries',
+    });
+  }
+});
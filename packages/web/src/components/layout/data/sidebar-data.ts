@@ -1,4 +1,11 @@
-import { FileText, MessageSquare, Package, ShoppingCart } from 'lucide-react';
+import {
+  ClipboardCheck,
+  FileText,
+  MessageSquare,
+  Package,
+  ShoppingCart,
+  Truck,
+} from 'lucide-react';
 
 import type { SidebarData } from '../types';
 
@@ -23,6 +30,16 @@ export const sidebarData: SidebarData = {
           url: '/purchase',
           icon: FileText,
         },
+        {
+          title: 'Approvals',
+          url: '/approvals',
+          icon: ClipboardCheck,
+        },
+        {
+          title: 'Purchase Orders',
+          url: '/purchase-orders',
+          icon: Truck,
+        },
         {
           title: 'Agent',
           url: '/agent',
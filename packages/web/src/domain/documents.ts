@@ -28,9 +28,29 @@ import type {
   UserId,
   ItemId,
   AgentConversationId,
+  DeliveryLocationId,
   ItemStatus,
+  ItemReviewDecision,
+  ItemRevisionField,
+  ItemAttributeDefinition,
+  ItemAttributeValue,
+  ItemUnitConversion,
   PurchaseRequestStatus,
+  SavedCartKind,
+  CartRole,
   AgentActionType,
+  ApprovalAction,
+  ApprovalStepStatus,
+  BudgetEnforcement,
+  SupplierPaymentTerms,
+  SupplierStatus,
+  PurchaseOrderStatus,
+  ReceiptRejectionReason,
+  ErpSyncStatus,
+  ErpOperation,
+  ErpOutboxStatus,
+  WebhookEventType,
+  WebhookDeliveryStatus,
 } from './entities';
 
 // ============================================================================
@@ -67,6 +87,9 @@ export interface UserDocument {
   /** User role */
   role?: 'requester' | 'buyer' | 'admin'; // [Future]
 
+  /** Cost center the user's purchases are charged to */
+  costCenter?: string;
+
   /** Account creation timestamp */
   createdAt: Date;
 
@@ -110,11 +133,23 @@ export interface ItemDocument {
    */
   estimatedPrice: number;
 
-  /**
-   * Unit of measure (e.g., "each", "box", "pack")
-   * [Future]
-   */
-  unit?: string; // [Future]
+  /** Base unit of measure (e.g., "each", "kg") */
+  unit?: string;
+
+  /** Larger units in base units (embedded sub-documents) */
+  unitConversions?: ItemUnitConversion[];
+
+  /** Unit the item must be ordered in */
+  orderUnit?: string;
+
+  /** Stock keeping unit (unique, sparse index) */
+  sku?: string;
+
+  /** Structured attributes (mixed object keyed by attribute key) */
+  attributes?: Record<string, ItemAttributeValue>;
+
+  /** Reference to the parent product of a variant (ObjectId) */
+  parentItemId?: Types.ObjectId | string;
 
   /**
    * Item status in the catalog
@@ -122,11 +157,14 @@ export interface ItemDocument {
    */
   status: ItemStatus;
 
-  /**
-   * Preferred supplier name
-   * [Future]
-   */
-  preferredSupplier?: string; // [Future]
+  /** Preferred supplier name (free text) */
+  preferredSupplier?: string;
+
+  /** Supplier offers (embedded sub-documents) */
+  suppliers?: ItemSupplierOfferDocument[];
+
+  /** Buyer review of a user-registered item (embedded sub-document) */
+  review?: ItemReviewDocument;
 
   /**
    * User ID of the person who registered this item
@@ -145,6 +183,165 @@ export interface ItemDocument {
   __v?: number;
 }
 
+/**
+ * ItemReviewDocument represents the embedded buyer review of an item
+ */
+export interface ItemReviewDocument {
+  decision: ItemReviewDecision;
+
+  /** Rejection reason */
+  reason?: string;
+
+  /** Reference to the item the submission was merged into (ObjectId) */
+  mergedIntoItemId?: Types.ObjectId | string;
+
+  /** Reference to the reviewing buyer (ObjectId) */
+  reviewedByUserId: Types.ObjectId | string;
+
+  reviewedAt: Date;
+}
+
+/**
+ * CategoryAttributeSchemaDocument represents the MongoDB document for
+ * CategoryAttributeSchema entity
+ */
+export interface CategoryAttributeSchemaDocument {
+  /** MongoDB ObjectId (primary key) */
+  _id: Types.ObjectId | string;
+
+  /** Category name (unique, case-insensitive) */
+  category: string;
+
+  /** Attribute definitions (embedded sub-documents) */
+  attributes: ItemAttributeDefinition[];
+
+  /** Timestamps */
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * CategoryDocument represents the MongoDB document for Category entity
+ */
+export interface CategoryDocument {
+  /** MongoDB ObjectId (primary key) */
+  _id: Types.ObjectId | string;
+
+  /** Display name */
+  name: string;
+
+  /** Normalized name (unique) */
+  key: string;
+
+  /** Classification code (unique when set) */
+  code?: string;
+
+  description?: string;
+
+  /** Reference to the parent category (ObjectId) */
+  parentCategoryId?: Types.ObjectId | string;
+
+  /** Timestamps */
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * ItemRevisionDocument represents the MongoDB document for ItemRevision entity
+ */
+export interface ItemRevisionDocument {
+  /** MongoDB ObjectId (primary key) */
+  _id: Types.ObjectId | string;
+
+  /** Reference to the revised item (ObjectId) */
+  itemId: Types.ObjectId | string;
+
+  /** Changed fields (embedded sub-documents) */
+  changes: ItemFieldChangeDocument[];
+
+  /** Why the item was changed */
+  reason: string;
+
+  /** Reference to the user who changed the item (ObjectId) */
+  changedByUserId: Types.ObjectId | string;
+
+  /** Snapshot: name of the user who changed the item */
+  changedByName?: string;
+
+  /** Timestamps */
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * SearchSynonymDocument represents the MongoDB document for SearchSynonym entity
+ */
+export interface SearchSynonymDocument {
+  /** MongoDB ObjectId (primary key) */
+  _id: Types.ObjectId | string;
+
+  /** Equivalent terms (lowercase) */
+  terms: string[];
+
+  /** Reference to the admin who created the group (ObjectId) */
+  createdByUserId: Types.ObjectId | string;
+
+  /** Timestamps */
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * ItemEmbeddingDocument represents the stored embedding of an item
+ * (semantic search vector index; no domain entity)
+ */
+export interface ItemEmbeddingDocument {
+  /** MongoDB ObjectId (primary key) */
+  _id: Types.ObjectId | string;
+
+  /** Reference to the embedded item (ObjectId) */
+  itemId: Types.ObjectId | string;
+
+  /** Provider and model the vector was computed with */
+  provider: string;
+
+  /** SHA-256 of the embedded text */
+  contentHash: string;
+
+  /** Embedding vector */
+  vector: number[];
+
+  /** Timestamps */
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * ItemFieldChangeDocument represents one changed field of an item revision
+ */
+export interface ItemFieldChangeDocument {
+  field: ItemRevisionField;
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * ItemSupplierOfferDocument represents an embedded supplier offer on an item
+ */
+export interface ItemSupplierOfferDocument {
+  /** Reference to the supplier (ObjectId) */
+  supplierId: Types.ObjectId | string;
+
+  /** Supplier-specific unit price */
+  unitPrice: number;
+
+  /** Supplier's own SKU / part number */
+  supplierSku?: string;
+
+  /** Lead time for this item in days */
+  leadTimeDays?: number;
+}
+
 // ============================================================================
 // Cart Document
 // ============================================================================
@@ -155,19 +352,30 @@ export interface ItemDocument {
  *
  * Differences from domain Cart:
  * - _id: MongoDB ObjectId
- * - userId: stored as ObjectId reference
+ * - userId: stored as ObjectId reference; unset on shared carts, whose
+ *   owner is in members
  * - items: embedded array of CartItemDocument (sub-documents)
  * - totalCost: can be calculated or persisted (schema decision)
+ * - __v: version key, used for optimistic concurrency
  */
 export interface CartDocument {
   /** MongoDB ObjectId (primary key) */
   _id: Types.ObjectId | string;
 
   /**
-   * User who owns this cart
+   * User whose personal cart this is
    * Stored as ObjectId reference to User collection
    */
-  userId: Types.ObjectId | UserId;
+  userId?: Types.ObjectId | UserId | null;
+
+  /** Name of a shared cart */
+  name?: string;
+
+  /** Whether this is a shared team cart */
+  isShared?: boolean;
+
+  /** Owner and collaborators of a shared cart */
+  members?: CartMemberDocument[];
 
   /**
    * Line items in the cart (embedded sub-documents)
@@ -188,12 +396,6 @@ export interface CartDocument {
   /** Last update timestamp */
   updatedAt: Date;
 
-  /**
-   * Indicates if this is a saved cart draft
-   * [Future]
-   */
-  isDraft?: boolean; // [Future]
-
   /** Mongoose version key */
   __v?: number;
 }
@@ -230,10 +432,49 @@ export interface CartItemDocument {
   /** Timestamp when this item was added to cart */
   addedAt: Date;
 
+  /** User who added the line */
+  addedBy?: Types.ObjectId | UserId | null;
+
   /** Mongoose sub-document _id (auto-generated) */
   _id?: Types.ObjectId | string;
 }
 
+/**
+ * CartMemberDocument represents a member of a shared cart (embedded)
+ */
+export interface CartMemberDocument {
+  userId: Types.ObjectId | UserId;
+  name: string;
+  role: CartRole;
+  addedAt: Date;
+}
+
+/**
+ * SavedCartDocument represents the MongoDB document for SavedCart entity
+ * Lines are embedded like cart lines (without addedAt).
+ */
+export interface SavedCartDocument {
+  _id: Types.ObjectId | string;
+
+  userId: Types.ObjectId | UserId;
+
+  name: string;
+
+  kind: SavedCartKind;
+
+  items: Array<{
+    itemId: Types.ObjectId | ItemId;
+    name: string;
+    unitPrice: number;
+    quantity: number;
+  }>;
+
+  lastUsedAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // ============================================================================
 // PurchaseRequest Document
 // ============================================================================
@@ -294,16 +535,37 @@ export interface PurchaseRequestDocument {
   status: PurchaseRequestStatus;
 
   /**
-   * Delivery location
-   * [Future]
+   * Approval chain resolved at submission (embedded sub-documents)
+   * Optional for requests created before approval workflows existed
    */
-  deliveryLocation?: string; // [Future]
+  approvalSteps?: ApprovalStepDocument[];
 
-  /**
-   * Requested delivery date
-   * [Future]
-   */
-  requestedDeliveryDate?: Date; // [Future]
+  /** Index of the step currently awaiting a decision */
+  currentApprovalStep?: number | null;
+
+  /** State-machine transition history (embedded sub-documents) */
+  statusHistory?: PurchaseRequestStatusChangeDocument[];
+
+  /** Cost center charged for this request (chosen at checkout) */
+  costCenter?: string;
+
+  /** General ledger account the request is booked to */
+  glCode?: string;
+
+  /** Reference number assigned by the ERP */
+  erpReference?: string;
+
+  /** Last known ERP status */
+  erpStatus?: ErpSyncStatus;
+
+  /** When the ERP status last changed */
+  erpStatusUpdatedAt?: Date;
+
+  /** Delivery location (embedded snapshot) */
+  deliveryLocation?: DeliveryLocationSnapshotDocument;
+
+  /** Requested delivery date */
+  requestedDeliveryDate?: Date;
 
   /** Timestamp when the purchase request was created */
   createdAt: Date;
@@ -343,10 +605,694 @@ export interface PurchaseRequestItemDocument {
   /** Subtotal for this line (unitPrice * quantity) */
   subtotal: number;
 
+  /** GL code override for this line */
+  glCode?: string;
+
+  /** Delivery location override for this line (embedded snapshot) */
+  deliveryLocation?: DeliveryLocationSnapshotDocument;
+
+  /** Requested delivery date override for this line */
+  requestedDeliveryDate?: Date;
+
+  /** Mongoose sub-document _id (auto-generated) */
+  _id?: Types.ObjectId | string;
+}
+
+/**
+ * DeliveryLocationSnapshotDocument represents an embedded delivery
+ * location snapshot on a purchase request or request line
+ */
+export interface DeliveryLocationSnapshotDocument {
+  locationId: Types.ObjectId | DeliveryLocationId;
+  name: string;
+  address: string;
+}
+
+/**
+ * ApprovalStepDocument represents an embedded approval step sub-document
+ */
+export interface ApprovalStepDocument {
+  /** Step label */
+  name: string;
+
+  /** Role allowed to act on this step */
+  approverRole?: 'requester' | 'buyer' | 'admin';
+
+  /** Specific users allowed to act on this step */
+  approverIds?: Array<Types.ObjectId | UserId>;
+
+  /** Step decision status */
+  status: ApprovalStepStatus;
+
+  /** User who decided this step */
+  decidedByUserId?: Types.ObjectId | UserId;
+
+  /** Timestamp of the decision */
+  decidedAt?: Date;
+
+  /** Approver comment */
+  comment?: string;
+
+  /** Mongoose sub-document _id (auto-generated) */
+  _id?: Types.ObjectId | string;
+}
+
+/**
+ * PurchaseRequestStatusChangeDocument represents an embedded history entry
+ */
+export interface PurchaseRequestStatusChangeDocument {
+  /** Status before the transition */
+  fromStatus?: PurchaseRequestStatus;
+
+  /** Status after the transition */
+  toStatus: PurchaseRequestStatus;
+
+  /** Action that triggered the transition */
+  action: ApprovalAction;
+
+  /** User who performed the action */
+  actorUserId?: Types.ObjectId | UserId;
+
+  /** Approval step the action applied to */
+  stepName?: string;
+
+  /** Optional comment */
+  comment?: string;
+
+  /** Timestamp of the transition */
+  changedAt: Date;
+
   /** Mongoose sub-document _id (auto-generated) */
   _id?: Types.ObjectId | string;
 }
 
+// ============================================================================
+// ApprovalRule Document
+// ============================================================================
+
+/**
+ * ApprovalRuleDocument represents the MongoDB document for ApprovalRule entity
+ */
+export interface ApprovalRuleDocument {
+  /** MongoDB ObjectId (primary key) */
+  _id: Types.ObjectId | string;
+
+  /** Rule name */
+  name: string;
+
+  /** Optional description */
+  description?: string;
+
+  /** Inclusive lower bound on request total */
+  minTotal?: number;
+
+  /** Exclusive upper bound on request total */
+  maxTotal?: number;
+
+  /** Item categories this rule applies to */
+  categories?: string[];
+
+  /** Approval steps contributed by this rule */
+  steps: Array<{
+    name: string;
+    approverRole?: 'requester' | 'buyer' | 'admin';
+    approverIds?: Array<Types.ObjectId | UserId>;
+  }>;
+
+  /** Evaluation order (ascending) */
+  priority: number;
+
+  /** Whether the rule is considered during resolution */
+  isActive: boolean;
+
+  /** Rule creation timestamp */
+  createdAt: Date;
+
+  /** Last update timestamp */
+  updatedAt: Date;
+
+  /** Mongoose version key */
+  __v?: number;
+}
+
+// ============================================================================
+// DeliveryLocation Document
+// ============================================================================
+
+/**
+ * DeliveryLocationDocument represents the MongoDB document for
+ * DeliveryLocation entity
+ */
+export interface DeliveryLocationDocument {
+  /** MongoDB ObjectId (primary key) */
+  _id: Types.ObjectId | string;
+
+  /** Location name (unique) */
+  name: string;
+
+  /** Postal address */
+  address: string;
+
+  /** Whether the location can be chosen at checkout */
+  isActive: boolean;
+
+  /** Creation timestamp */
+  createdAt: Date;
+
+  /** Last update timestamp */
+  updatedAt: Date;
+
+  /** Mongoose version key */
+  __v?: number;
+}
+
+// ============================================================================
+// Supplier Document
+// ============================================================================
+
+/**
+ * SupplierDocument represents the MongoDB document for Supplier entity
+ */
+export interface SupplierDocument {
+  /** MongoDB ObjectId (primary key) */
+  _id: Types.ObjectId | string;
+
+  /** Supplier name (unique) */
+  name: string;
+
+  /** Primary contact (embedded) */
+  contact?: {
+    name?: string;
+    email?: string;
+    phone?: string;
+  };
+
+  /** Postal address */
+  address?: string;
+
+  /** Website URL */
+  website?: string;
+
+  /** Tax identification number */
+  taxId?: string;
+
+  /** Payment terms */
+  paymentTerms: SupplierPaymentTerms;
+
+  /** Default lead time in days */
+  leadTimeDays?: number;
+
+  /** Active / blocked status */
+  status: SupplierStatus;
+
+  /** Why the supplier was blocked */
+  blockedReason?: string;
+
+  /** Internal notes */
+  notes?: string;
+
+  /** Supplier creation timestamp */
+  createdAt: Date;
+
+  /** Last update timestamp */
+  updatedAt: Date;
+
+  /** Mongoose version key */
+  __v?: number;
+}
+
+// ============================================================================
+// PurchaseOrder Document
+// ============================================================================
+
+/**
+ * PurchaseOrderDocument represents the MongoDB document for PurchaseOrder entity
+ * Field names of embedded lines match the purchase request schema:
+ * `name`, `category`, `description` (not prefixed with `item`)
+ */
+export interface PurchaseOrderDocument {
+  /** MongoDB ObjectId (primary key) */
+  _id: Types.ObjectId | string;
+
+  /** Purchase order number (e.g., PO-2025-0001) */
+  poNumber: string;
+
+  /** Purchase request this order was generated from */
+  purchaseRequestId: Types.ObjectId | string;
+
+  /** Snapshot: purchase request number */
+  requestNumber: string;
+
+  /** Supplier receiving the order */
+  supplierId: Types.ObjectId | string;
+
+  /** Snapshot: supplier name */
+  supplierName: string;
+
+  /** Snapshot: supplier contact email */
+  supplierEmail?: string;
+
+  /** Snapshot: payment terms */
+  paymentTerms: SupplierPaymentTerms;
+
+  /** Order lines (embedded sub-documents) */
+  items: PurchaseOrderItemDocument[];
+
+  /** Order total */
+  total: number;
+
+  /** Current status */
+  status: PurchaseOrderStatus;
+
+  /** Status audit trail (embedded sub-documents) */
+  statusHistory?: PurchaseOrderStatusChangeDocument[];
+
+  /** Expected delivery date */
+  expectedDeliveryDate?: Date;
+
+  /** Cost center charged */
+  costCenter?: string;
+
+  /** Order creation (issue) timestamp */
+  createdAt: Date;
+
+  /** Last update timestamp */
+  updatedAt: Date;
+
+  /** Mongoose version key */
+  __v?: number;
+}
+
+/**
+ * PurchaseOrderItemDocument represents an embedded purchase order line
+ */
+export interface PurchaseOrderItemDocument {
+  /** Reference to the catalog item */
+  itemId: Types.ObjectId | ItemId;
+
+  /** Snapshot: item name */
+  name: string;
+
+  /** Snapshot: item category */
+  category: string;
+
+  /** Snapshot: item description */
+  description?: string;
+
+  /** Supplier's SKU */
+  supplierSku?: string;
+
+  /** Supplier-specific unit price */
+  unitPrice: number;
+
+  /** Quantity ordered */
+  quantity: number;
+
+  /** Subtotal for this line */
+  subtotal: number;
+
+  /** Lead time in days */
+  leadTimeDays?: number;
+
+  /** Mongoose sub-document _id (auto-generated) */
+  _id?: Types.ObjectId | string;
+}
+
+/**
+ * PurchaseOrderStatusChangeDocument represents an embedded status history entry
+ */
+export interface PurchaseOrderStatusChangeDocument {
+  fromStatus?: PurchaseOrderStatus;
+  toStatus: PurchaseOrderStatus;
+  userId?: Types.ObjectId | UserId;
+  note?: string;
+  changedAt: Date;
+}
+
+// ============================================================================
+// GoodsReceipt Document
+// ============================================================================
+
+/**
+ * GoodsReceiptDocument represents the MongoDB document for GoodsReceipt entity
+ */
+export interface GoodsReceiptDocument {
+  /** MongoDB ObjectId (primary key) */
+  _id: Types.ObjectId | string;
+
+  /** Receipt number (e.g., GR-2025-0001) */
+  receiptNumber: string;
+
+  /** Purchase order received against */
+  purchaseOrderId: Types.ObjectId | string;
+
+  /** Snapshot: purchase order number */
+  poNumber: string;
+
+  /** Purchase request the order was generated from */
+  purchaseRequestId: Types.ObjectId | string;
+
+  /** Snapshot: purchase request number */
+  requestNumber: string;
+
+  /** Received lines (embedded sub-documents) */
+  lines: GoodsReceiptLineDocument[];
+
+  /** Receiving note */
+  notes?: string;
+
+  /** User who recorded the receipt */
+  receivedByUserId: Types.ObjectId | UserId;
+
+  /** When the goods arrived */
+  receivedAt: Date;
+
+  /** Record creation timestamp */
+  createdAt: Date;
+
+  /** Last update timestamp */
+  updatedAt?: Date;
+
+  /** Mongoose version key */
+  __v?: number;
+}
+
+/**
+ * GoodsReceiptLineDocument represents an embedded receipt line
+ */
+export interface GoodsReceiptLineDocument {
+  itemId: Types.ObjectId | ItemId;
+  name: string;
+  quantityReceived: number;
+  quantityRejected: number;
+  rejectionReason?: ReceiptRejectionReason;
+  note?: string;
+}
+
+// ============================================================================
+// SupplierInvoice Document
+// ============================================================================
+
+/**
+ * SupplierInvoiceDocument represents the MongoDB document for SupplierInvoice entity
+ */
+export interface SupplierInvoiceDocument {
+  /** MongoDB ObjectId (primary key) */
+  _id: Types.ObjectId | string;
+
+  /** Supplier's invoice number */
+  invoiceNumber: string;
+
+  /** Purchase order billed */
+  purchaseOrderId: Types.ObjectId | string;
+
+  /** Supplier that issued the invoice */
+  supplierId: Types.ObjectId | string;
+
+  /** Invoice date */
+  invoiceDate: Date;
+
+  /** Billed lines (embedded sub-documents) */
+  lines: SupplierInvoiceLineDocument[];
+
+  /** Invoice total */
+  total: number;
+
+  /** User who recorded the invoice */
+  recordedByUserId: Types.ObjectId | UserId;
+
+  /** Record creation timestamp */
+  createdAt: Date;
+
+  /** Last update timestamp */
+  updatedAt?: Date;
+
+  /** Mongoose version key */
+  __v?: number;
+}
+
+/**
+ * SupplierInvoiceLineDocument represents an embedded invoice line
+ */
+export interface SupplierInvoiceLineDocument {
+  itemId: Types.ObjectId | ItemId;
+  quantity: number;
+  unitPrice: number;
+  subtotal: number;
+}
+
+// ============================================================================
+// IdempotencyKey Document
+// ============================================================================
+
+/**
+ * IdempotencyKeyDocument represents a checkout idempotency key
+ * (internal; no domain entity)
+ */
+export interface IdempotencyKeyDocument {
+  /** MongoDB ObjectId (primary key) */
+  _id: Types.ObjectId | string;
+
+  /** Client-generated key (unique) */
+  key: string;
+
+  /** User who sent the key */
+  userId: Types.ObjectId | string;
+
+  /** Purchase request created with the key */
+  purchaseRequestId: Types.ObjectId | string;
+
+  /** Fingerprint of the checkout request */
+  requestHash: string;
+
+  /** When the key was stored (expires after 24 hours) */
+  createdAt: Date;
+
+  /** Mongoose version key */
+  __v?: number;
+}
+
+// ============================================================================
+// SequenceCounter Document
+// ============================================================================
+
+/**
+ * SequenceCounterDocument represents a named counter for document numbers
+ * (internal; no domain entity)
+ */
+export interface SequenceCounterDocument {
+  /** Counter name (e.g., "purchase_order:2025") */
+  _id: string;
+
+  /** Last number handed out */
+  sequence: number;
+
+  /** Timestamps */
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// ErpOutboxEntry Document
+// ============================================================================
+
+/**
+ * ErpOutboxEntryDocument represents the MongoDB document for ErpOutboxEntry entity
+ */
+export interface ErpOutboxEntryDocument {
+  /** MongoDB ObjectId (primary key) */
+  _id: Types.ObjectId | string;
+
+  /** Purchase request the operation applies to */
+  purchaseRequestId: Types.ObjectId | string;
+
+  /** Snapshot: purchase request number */
+  requestNumber: string;
+
+  /** Operation to perform */
+  operation: ErpOperation;
+
+  /** Connector name */
+  connector: string;
+
+  /** Processing status */
+  status: ErpOutboxStatus;
+
+  /** Attempts made so far */
+  attempts: number;
+
+  /** Earliest time of the next attempt */
+  nextAttemptAt: Date;
+
+  /** When a worker claimed the entry (stale claims are retried) */
+  lockedAt?: Date | null;
+
+  /** Error message of the last failed attempt */
+  lastError?: string;
+
+  /** ERP reference returned by a successful submit */
+  erpReference?: string;
+
+  /** When the operation succeeded */
+  completedAt?: Date;
+
+  /** Timestamp when the entry was created */
+  createdAt: Date;
+
+  /** Last update timestamp */
+  updatedAt: Date;
+
+  /** Mongoose version key */
+  __v?: number;
+}
+
+// ============================================================================
+// Webhook Documents
+// ============================================================================
+
+/**
+ * WebhookSubscriptionDocument represents the MongoDB document for WebhookSubscription entity
+ *
+ * Differences from domain WebhookSubscription:
+ * - secret: HMAC signing secret (never mapped to the entity)
+ */
+export interface WebhookSubscriptionDocument {
+  /** MongoDB ObjectId (primary key) */
+  _id: Types.ObjectId | string;
+
+  /** Endpoint URL */
+  url: string;
+
+  /** Optional label */
+  description?: string;
+
+  /** Subscribed events */
+  events: WebhookEventType[];
+
+  /** HMAC-SHA256 signing secret */
+  secret: string;
+
+  /** Whether new events are delivered */
+  active: boolean;
+
+  /** User who registered the endpoint */
+  createdByUserId: Types.ObjectId | UserId;
+
+  /** Timestamp when the subscription was created */
+  createdAt: Date;
+
+  /** Last update timestamp */
+  updatedAt: Date;
+
+  /** Mongoose version key */
+  __v?: number;
+}
+
+/**
+ * WebhookDeliveryAttemptDocument represents an embedded delivery attempt
+ */
+export interface WebhookDeliveryAttemptDocument {
+  attemptedAt: Date;
+  responseStatus?: number;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * WebhookDeliveryDocument represents the MongoDB document for WebhookDelivery entity
+ */
+export interface WebhookDeliveryDocument {
+  /** MongoDB ObjectId (primary key) */
+  _id: Types.ObjectId | string;
+
+  /** Receiving subscription */
+  subscriptionId: Types.ObjectId | string;
+
+  /** Event identifier */
+  eventId: string;
+
+  /** Event type */
+  eventType: WebhookEventType;
+
+  /** Event envelope as posted */
+  payload: Record<string, unknown>;
+
+  /** Delivery status */
+  status: WebhookDeliveryStatus;
+
+  /** Attempts made so far */
+  attempts: number;
+
+  /** Earliest time of the next attempt */
+  nextAttemptAt: Date;
+
+  /** When a worker claimed the delivery */
+  lockedAt?: Date | null;
+
+  /** Most recent attempts (embedded sub-documents) */
+  attemptLog?: WebhookDeliveryAttemptDocument[];
+
+  /** When the endpoint accepted the event */
+  deliveredAt?: Date;
+
+  /** Delivery this one manually re-sends */
+  redeliveryOf?: Types.ObjectId | string;
+
+  /** Timestamp when the delivery was created */
+  createdAt: Date;
+
+  /** Last update timestamp */
+  updatedAt: Date;
+
+  /** Mongoose version key */
+  __v?: number;
+}
+
+// ============================================================================
+// Budget Document
+// ============================================================================
+
+/**
+ * BudgetDocument represents the MongoDB document for Budget entity
+ */
+export interface BudgetDocument {
+  /** MongoDB ObjectId (primary key) */
+  _id: Types.ObjectId | string;
+
+  /** Budget name */
+  name: string;
+
+  /** Cost center this budget applies to */
+  costCenter: string;
+
+  /** Optional department label */
+  department?: string;
+
+  /** Fiscal period start (inclusive) */
+  periodStart: Date;
+
+  /** Fiscal period end (inclusive) */
+  periodEnd: Date;
+
+  /** Budgeted amount for the period */
+  amount: number;
+
+  /** Checkout behavior when the budget would be exceeded */
+  enforcement: BudgetEnforcement;
+
+  /** Whether the budget is tracked and enforced */
+  isActive: boolean;
+
+  /** Budget creation timestamp */
+  createdAt: Date;
+
+  /** Last update timestamp */
+  updatedAt: Date;
+
+  /** Mongoose version key */
+  __v?: number;
+}
+
 // ============================================================================
 // AgentConversation Document
 // ============================================================================
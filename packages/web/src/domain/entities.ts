@@ -8,7 +8,13 @@
  * - User: Authentication and ownership
  * - Item (CatalogItem): Materials and services in the catalog
  * - Cart: Shopping cart and line items
- * - PurchaseRequest: Simulated ERP submissions
+ * - PurchaseRequest: Requests submitted to the ERP
+ * - Budget: Department / cost center spending limits
+ * - Supplier: Vendor master data
+ * - PurchaseOrder: Per-supplier orders generated from approved requests
+ * - GoodsReceipt / SupplierInvoice: Receiving and three-way match evidence
+ * - ErpOutboxEntry: Queued ERP operations with retry state
+ * - WebhookSubscription / WebhookDelivery: Outbound event notifications
  * - AgentConversation: AI agent interactions and logs
  *
  * Scope Indicators:
@@ -38,6 +44,11 @@ export type ItemId = string;
  */
 export type CartId = string;
 
+/**
+ * Saved cart identifier (string representation of MongoDB ObjectId)
+ */
+export type SavedCartId = string;
+
 /**
  * Purchase Request identifier (string representation of MongoDB ObjectId)
  * [MVP]
@@ -50,6 +61,66 @@ export type PurchaseRequestId = string;
  */
 export type AgentConversationId = string;
 
+/**
+ * Supplier identifier (string representation of MongoDB ObjectId)
+ */
+export type SupplierId = string;
+
+/**
+ * Purchase order identifier (string representation of MongoDB ObjectId)
+ */
+export type PurchaseOrderId = string;
+
+/**
+ * Item revision identifier (string representation of MongoDB ObjectId)
+ */
+export type ItemRevisionId = string;
+
+/**
+ * Search synonym group identifier (string representation of MongoDB ObjectId)
+ */
+export type SearchSynonymId = string;
+
+/**
+ * Category attribute schema identifier (string representation of MongoDB ObjectId)
+ */
+export type CategoryAttributeSchemaId = string;
+
+/**
+ * Category identifier (string representation of MongoDB ObjectId)
+ */
+export type CategoryId = string;
+
+/**
+ * Goods receipt identifier (string representation of MongoDB ObjectId)
+ */
+export type GoodsReceiptId = string;
+
+/**
+ * Supplier invoice identifier (string representation of MongoDB ObjectId)
+ */
+export type SupplierInvoiceId = string;
+
+/**
+ * ERP outbox entry identifier (string representation of MongoDB ObjectId)
+ */
+export type ErpOutboxEntryId = string;
+
+/**
+ * Webhook subscription identifier (string representation of MongoDB ObjectId)
+ */
+export type WebhookSubscriptionId = string;
+
+/**
+ * Webhook delivery identifier (string representation of MongoDB ObjectId)
+ */
+export type WebhookDeliveryId = string;
+
+/**
+ * Delivery location identifier (string representation of MongoDB ObjectId)
+ */
+export type DeliveryLocationId = string;
+
 // ============================================================================
 // Enums and Constants
 // ============================================================================
@@ -57,85 +128,1502 @@ export type AgentConversationId = string;
 /**
  * Item status in the catalog
  * [MVP]: Active - item is available for selection
- * [Future]: PendingReview - awaiting buyer approval
- * [Future]: Inactive - item removed from active catalog
+ * PendingReview - user-registered item awaiting buyer approval
+ * Inactive - item archived (removed from the active catalog and carts)
  */
 export enum ItemStatus {
   Active = 'active',
-  PendingReview = 'pending_review', // [Future]
-  Inactive = 'inactive', // [Future]
+  PendingReview = 'pending_review',
+  Inactive = 'inactive',
+}
+
+/**
+ * Buyer decision on a user-registered item
+ * Approved - item joins the active catalog
+ * Rejected - item is archived with a reason
+ * Merged - item is archived in favor of an existing catalog item
+ */
+export enum ItemReviewDecision {
+  Approved = 'approved',
+  Rejected = 'rejected',
+  Merged = 'merged',
+}
+
+/**
+ * Value type of a category attribute
+ * Text - free text (e.g., material)
+ * Number - numeric value, optionally with a unit (e.g., capacity in ml)
+ * Select - one of a fixed list of options (e.g., color)
+ */
+export enum ItemAttributeType {
+  Text = 'text',
+  Number = 'number',
+  Select = 'select',
+}
+
+/**
+ * Purchase request status
+ * [MVP]: Submitted - simulated submission to ERP
+ * PendingApproval, Approved, Rejected, ReturnedForChanges - approval workflow
+ */
+export enum PurchaseRequestStatus {
+  Submitted = 'submitted', // [MVP]
+  PendingApproval = 'pending_approval',
+  Approved = 'approved',
+  Rejected = 'rejected',
+  ReturnedForChanges = 'returned_for_changes',
+}
+
+/**
+ * Actions that move a purchase request through the approval state machine
+ */
+export enum ApprovalAction {
+  Submit = 'submit',
+  Approve = 'approve',
+  Reject = 'reject',
+  ReturnForChanges = 'return_for_changes',
+  Resubmit = 'resubmit',
+}
+
+/**
+ * Status of a single step in an approval chain
+ */
+export enum ApprovalStepStatus {
+  Pending = 'pending',
+  Approved = 'approved',
+  Rejected = 'rejected',
+  Returned = 'returned',
+}
+
+/**
+ * Supplier status
+ * Active - purchase requests can be routed to the supplier
+ * Blocked - supplier may not receive new orders
+ */
+export enum SupplierStatus {
+  Active = 'active',
+  Blocked = 'blocked',
+}
+
+/**
+ * Supplier payment terms
+ */
+export enum SupplierPaymentTerms {
+  Prepaid = 'prepaid',
+  Net15 = 'net_15',
+  Net30 = 'net_30',
+  Net45 = 'net_45',
+  Net60 = 'net_60',
+  Net90 = 'net_90',
+}
+
+/**
+ * Purchase order lifecycle
+ * Issued - sent to the supplier
+ * Acknowledged - supplier confirmed the order
+ * PartiallyReceived - some goods have been received
+ * Closed - order fulfilled or cancelled; no further changes
+ */
+export enum PurchaseOrderStatus {
+  Issued = 'issued',
+  Acknowledged = 'acknowledged',
+  PartiallyReceived = 'partially_received',
+  Closed = 'closed',
+}
+
+/**
+ * Why received goods were rejected at the dock
+ */
+export enum ReceiptRejectionReason {
+  Damaged = 'damaged',
+  WrongItem = 'wrong_item',
+  QualityIssue = 'quality_issue',
+  Other = 'other',
+}
+
+/**
+ * Three-way match result (PO vs. goods receipts vs. supplier invoices)
+ * Pending - not fully received and invoiced yet, no discrepancy so far
+ * Matched - ordered, received and invoiced quantities and prices agree
+ * QuantityMismatch - invoiced or received more than ordered, or invoiced more than received
+ * PriceMismatch - invoiced unit price differs from the PO price
+ */
+export enum ThreeWayMatchStatus {
+  Pending = 'pending',
+  Matched = 'matched',
+  QuantityMismatch = 'quantity_mismatch',
+  PriceMismatch = 'price_mismatch',
+}
+
+/**
+ * Where a purchase request stands in the ERP
+ * Queued - waiting in the outbox to be sent
+ * Submitted - accepted for processing by the ERP connector
+ * Accepted / Rejected - decision reported by the ERP
+ * Cancelled - cancelled in the ERP (or before it was sent)
+ * Failed - submission gave up after the maximum number of attempts
+ */
+export enum ErpSyncStatus {
+  Queued = 'queued',
+  Submitted = 'submitted',
+  Accepted = 'accepted',
+  Rejected = 'rejected',
+  Cancelled = 'cancelled',
+  Failed = 'failed',
+}
+
+/**
+ * Operation queued in the ERP outbox
+ */
+export enum ErpOperation {
+  Submit = 'submit',
+  Cancel = 'cancel',
+}
+
+/**
+ * ERP outbox entry processing status
+ */
+export enum ErpOutboxStatus {
+  Pending = 'pending',
+  Processing = 'processing',
+  Completed = 'completed',
+  Failed = 'failed',
+  Cancelled = 'cancelled',
+}
+
+/**
+ * Lifecycle events delivered to webhook subscribers
+ */
+export enum WebhookEventType {
+  PurchaseRequestCreated = 'purchase_request.created',
+  PurchaseRequestStatusChanged = 'purchase_request.status_changed',
+  ItemCreated = 'item.created',
+  ItemUpdated = 'item.updated',
+  ItemDeleted = 'item.deleted',
+  ItemReviewed = 'item.reviewed',
+}
+
+/**
+ * Webhook delivery status
+ * Pending - waiting for the first attempt or a retry
+ * Delivered - the endpoint answered with a 2xx status
+ * Failed - gave up after the maximum number of attempts
+ */
+export enum WebhookDeliveryStatus {
+  Pending = 'pending',
+  Delivered = 'delivered',
+  Failed = 'failed',
+}
+
+/**
+ * Kind of saved cart
+ * Saved - a cart parked for later; restoring it empties the saved cart
+ * Template - a reusable list (e.g., "Monthly kitchen restock"); applying
+ *   it keeps the template
+ */
+export enum SavedCartKind {
+  Saved = 'saved',
+  Template = 'template',
+}
+
+/**
+ * Role of a member of a shared cart
+ * Owner - created the cart; manages collaborators and is the only one
+ *   who can check out
+ * Collaborator - adds, changes and removes lines
+ */
+export enum CartRole {
+  Owner = 'owner',
+  Collaborator = 'collaborator',
+}
+
+/**
+ * What happens when a checkout would exceed the remaining budget
+ * Warn - checkout proceeds and the user is warned
+ * Block - checkout is rejected
+ */
+export enum BudgetEnforcement {
+  Warn = 'warn',
+  Block = 'block',
+}
+
+/**
+ * Agent message role
+ * [MVP]
+ */
+export enum AgentMessageRole {
+  User = 'user',
+  Agent = 'agent',
+  System = 'system',
+}
+
+/**
+ * Agent action types (tools/functions the agent can invoke)
+ * [MVP]
+ */
+export enum AgentActionType {
+  SearchCatalog = 'search_catalog',
+  RegisterItem = 'register_item',
+  AddToCart = 'add_to_cart',
+  UpdateCartItem = 'update_cart_item',
+  RemoveFromCart = 'remove_from_cart',
+  ViewCart = 'view_cart',
+  AnalyzeCart = 'analyze_cart',
+  Reorder = 'reorder',
+  Checkout = 'checkout',
+}
+
+// ============================================================================
+// User Entity
+// ============================================================================
+
+/**
+ * User entity
+ * Represents an authenticated user in the system.
+ * Kept minimal to support Auth.js integration and ownership of carts/requests.
+ * [MVP]
+ */
+export interface User {
+  /** Unique user identifier */
+  id: UserId;
+
+  /** User's email address (used for login) */
+  email: string;
+
+  /** User's display name */
+  name?: string;
+
+  /** Hashed password (only for Credentials provider) */
+  passwordHash?: string;
+
+  /** OAuth provider (e.g., 'google') if using OAuth */
+  provider?: string; // [Future]
+
+  /** OAuth provider user ID */
+  providerId?: string; // [Future]
+
+  /** User role - [Future]: for role-based access control */
+  role?: 'requester' | 'buyer' | 'admin'; // [Future]
+
+  /** Cost center the user's purchases are charged to (e.g., "CC-100") */
+  costCenter?: string;
+
+  /** Account creation timestamp */
+  createdAt: Date;
+
+  /** Last update timestamp */
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Item (CatalogItem) Entity
+// ============================================================================
+
+/**
+ * Item (CatalogItem) entity
+ * Represents a material or service in the procurement catalog.
+ * Can be seeded or registered by users.
+ * [MVP]
+ */
+export interface Item {
+  /** Unique item identifier */
+  id: ItemId;
+
+  /** Item name (required, should be descriptive) */
+  name: string;
+
+  /**
+   * Item category (e.g., "Office Supplies", "Electronics")
+   * Name of a category of the taxonomy, once the taxonomy has categories
+   */
+  category: string;
+
+  /** Detailed description of the item */
+  description: string;
+
+  /**
+   * Estimated unit price in the default currency (e.g., USD)
+   * Must be a positive number.
+   * [MVP]
+   */
+  estimatedPrice: number;
+
+  /**
+   * Base unit of measure (e.g., "each", "kg")
+   * Prices and cart quantities are expressed in this unit.
+   */
+  unit?: string;
+
+  /** Larger units the item comes in (e.g., 1 box = 12 each) */
+  unitConversions?: ItemUnitConversion[];
+
+  /**
+   * Unit the item must be ordered in (one of unitConversions)
+   * Cart quantities must be multiples of its size (the pack size).
+   */
+  orderUnit?: string;
+
+  /** Internal stock keeping unit (unique across the catalog) */
+  sku?: string;
+
+  /**
+   * Structured attributes, keyed by the attribute definitions of the
+   * item's category (e.g., { color: "Blue", capacity: 500 })
+   */
+  attributes?: Record<string, ItemAttributeValue>;
+
+  /**
+   * Parent product this item is a variant of (e.g., "Pen - Blue" under
+   * "Pen"). Variants are items of their own, with their own price and
+   * SKU; a parent and its variants form a variant family.
+   */
+  parentItemId?: ItemId;
+
+  /**
+   * Item status in the catalog
+   * [MVP]: Defaults to Active
+   * PendingReview for user-registered items awaiting buyer approval
+   */
+  status: ItemStatus;
+
+  /** Buyer review of a user-registered item (once decided) */
+  review?: ItemReview;
+
+  /**
+   * Preferred supplier name (free text, predates the supplier master data)
+   */
+  preferredSupplier?: string;
+
+  /** Suppliers offering this item, with supplier-specific prices */
+  suppliers: ItemSupplierOffer[];
+
+  /**
+   * Number of active (non-blocked) suppliers offering this item
+   * Populated by catalog search
+   */
+  supplierCount?: number;
+
+  /**
+   * User ID of the person who registered this item (if user-registered)
+   * [MVP]
+   */
+  createdByUserId?: UserId;
+
+  /** Item creation timestamp */
+  createdAt: Date;
+
+  /** Last update timestamp */
+  updatedAt: Date;
+}
+
+/**
+ * ItemReview records the buyer decision on a user-registered item
+ */
+export interface ItemReview {
+  decision: ItemReviewDecision;
+
+  /** Rejection reason shown to the requester */
+  reason?: string;
+
+  /** Existing item the submission was merged into */
+  mergedIntoItemId?: ItemId;
+
+  /** Buyer who decided */
+  reviewedByUserId: UserId;
+
+  reviewedAt: Date;
+}
+
+/**
+ * Item fields tracked by the revision history
+ */
+export type ItemRevisionField =
+  | 'name'
+  | 'category'
+  | 'description'
+  | 'estimatedPrice'
+  | 'unit'
+  | 'unitConversions'
+  | 'orderUnit'
+  | 'sku'
+  | 'attributes'
+  | 'parentItemId'
+  | 'preferredSupplier'
+  | 'suppliers';
+
+/**
+ * ItemFieldChange records the old and new value of one field
+ * Values are stored as they appear on the Item entity (undefined when the
+ * field was unset).
+ */
+export interface ItemFieldChange {
+  field: ItemRevisionField;
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * ItemRevision is one entry of a catalog item's audit trail
+ * Written for every item update; revisions are never edited.
+ */
+export interface ItemRevision {
+  /** Unique revision identifier */
+  id: ItemRevisionId;
+
+  /** Revised item */
+  itemId: ItemId;
+
+  /** Changed fields (at least one) */
+  changes: ItemFieldChange[];
+
+  /** Why the item was changed */
+  reason: string;
+
+  /** User who changed the item */
+  changedByUserId: UserId;
+
+  /** Snapshot: name of the user who changed the item */
+  changedByName?: string;
+
+  /** When the change was made */
+  createdAt: Date;
+}
+
+/**
+ * SearchSynonym is a group of equivalent catalog search terms
+ * Searching for any term of the group also matches the others
+ * (e.g., "notepad" / "notebook", "usb c" / "type c").
+ */
+export interface SearchSynonym {
+  /** Unique synonym group identifier */
+  id: SearchSynonymId;
+
+  /** Equivalent terms (lowercase, at least 2; may be multi-word) */
+  terms: string[];
+
+  /** Admin who created the group */
+  createdByUserId: UserId;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Value of an item attribute
+ */
+export type ItemAttributeValue = string | number;
+
+/**
+ * ItemUnitConversion defines a larger unit of an item in base units
+ * e.g., { unit: "box", factor: 12 } for a box of 12 each
+ */
+export interface ItemUnitConversion {
+  unit: string;
+
+  /** Base units per unit (greater than 1) */
+  factor: number;
+}
+
+/**
+ * ItemAttributeDefinition describes one attribute of a category
+ */
+export interface ItemAttributeDefinition {
+  /** Attribute key (lowercase letters, digits and underscores) */
+  key: string;
+
+  /** Display label */
+  label: string;
+
+  type: ItemAttributeType;
+
+  /** Allowed values (select attributes) */
+  options?: string[];
+
+  /** Unit shown after the value (number attributes, e.g., "ml") */
+  unit?: string;
+
+  /** Items of the category must set the attribute */
+  required: boolean;
+}
+
+/**
+ * CategoryAttributeSchema lists the attributes items of a category have
+ * Categories are matched case-insensitively.
+ */
+export interface CategoryAttributeSchema {
+  id: CategoryAttributeSchemaId;
+
+  /** Category name */
+  category: string;
+
+  attributes: ItemAttributeDefinition[];
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Category is a node of the catalog category taxonomy
+ * Names are unique across the tree (compared normalized, so "Office-
+ * Supplies" is "Office Supplies"); items reference categories by name.
+ */
+export interface Category {
+  id: CategoryId;
+
+  /** Display name (e.g., "Copy Paper") */
+  name: string;
+
+  /** Classification code (e.g., UNSPSC "14111507") */
+  code?: string;
+
+  description?: string;
+
+  /** Parent category (root categories have none) */
+  parentCategoryId?: CategoryId;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * ItemSupplierOffer links a catalog item to a supplier that sells it
+ */
+export interface ItemSupplierOffer {
+  /** Supplier offering the item */
+  supplierId: SupplierId;
+
+  /** Supplier-specific unit price */
+  unitPrice: number;
+
+  /** Supplier's own SKU / part number */
+  supplierSku?: string;
+
+  /** Lead time for this item (overrides the supplier default) */
+  leadTimeDays?: number;
+}
+
+// ============================================================================
+// Cart Entity
+// ============================================================================
+
+/**
+ * CartItem represents a single line item in a cart
+ * [MVP]
+ */
+export interface CartItem {
+  /** Reference to the catalog item */
+  itemId: ItemId;
+
+  /** Snapshot of item name at the time of adding to cart */
+  name: string;
+
+  /** Snapshot of item price at the time of adding to cart */
+  unitPrice: number;
+
+  /**
+   * Quantity of this item in the cart
+   * Must be >= 1 and <= 999 per BR-2.2
+   * [MVP]
+   */
+  quantity: number;
+
+  /**
+   * Subtotal for this line item (unitPrice * quantity)
+   * Calculated field, not persisted separately in some implementations
+   */
+  subtotal: number;
+
+  /** Timestamp when this item was added to cart */
+  addedAt: Date;
+
+  /** User who added the line (unset on lines from before attribution) */
+  addedBy?: UserId;
+
+  /** Name of the user who added the line (shared carts) */
+  addedByName?: string;
+}
+
+/**
+ * CartMember is a user with access to a shared cart
+ */
+export interface CartMember {
+  userId: UserId;
+
+  /** Snapshot of the user's name when they joined */
+  name: string;
+
+  role: CartRole;
+
+  addedAt: Date;
+}
+
+/**
+ * Cart entity
+ * Represents a user's shopping cart.
+ * [MVP]: Associated with authenticated user
+ * [Future]: Persist across sessions
+ *
+ * Each user has one personal cart; named carts and templates are
+ * SavedCarts. Shared team carts (e.g., "Office move") have an owner and
+ * collaborators who assemble one order together.
+ */
+export interface Cart {
+  /** Unique cart identifier */
+  id: CartId;
+
+  /** User who owns this cart */
+  userId: UserId;
+
+  /** Name of a shared cart */
+  name?: string;
+
+  /** Whether this is a shared team cart */
+  isShared: boolean;
+
+  /** Owner and collaborators of a shared cart (empty for a personal cart) */
+  members: CartMember[];
+
+  /**
+   * Version for optimistic concurrency; increases with every change
+   * Edits based on an older version are refused.
+   */
+  version: number;
+
+  /** Line items in the cart */
+  items: CartItem[];
+
+  /**
+   * Total estimated cost of all items in cart
+   * Sum of all item subtotals
+   * [MVP]
+   */
+  totalCost: number;
+
+  /** Cart creation timestamp */
+  createdAt: Date;
+
+  /** Last update timestamp (e.g., when items are added/removed) */
+  updatedAt: Date;
+}
+
+/**
+ * SavedCartItem represents a line of a saved cart
+ */
+export interface SavedCartItem {
+  /** Reference to the catalog item */
+  itemId: ItemId;
+
+  /** Snapshot of item name when the cart was saved */
+  name: string;
+
+  /** Snapshot of item price when the cart was saved */
+  unitPrice: number;
+
+  /** Quantity (base units) */
+  quantity: number;
+}
+
+/**
+ * SavedCart entity
+ * A named copy of a user's cart: a cart parked for later or a reusable
+ * template. Lines are re-priced against the catalog when restored.
+ */
+export interface SavedCart {
+  /** Unique saved cart identifier */
+  id: SavedCartId;
+
+  /** User who owns the saved cart */
+  userId: UserId;
+
+  /** Name (e.g., "Monthly kitchen restock"), unique per user */
+  name: string;
+
+  kind: SavedCartKind;
+
+  items: SavedCartItem[];
+
+  /** Total of the lines at the saved prices */
+  totalCost: number;
+
+  /** When the saved cart was last restored into the cart */
+  lastUsedAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Why a line could not be restored into the cart
+ * - not_found: the item was deleted from the catalog
+ * - archived: the item was archived
+ * - unavailable: the item cannot be ordered (e.g., pending review)
+ * - cart_full: the cart already has the maximum number of lines
+ * - quantity_limit: the cart line already has the maximum quantity
+ */
+export type CartRestoreSkipReason =
+  | 'not_found'
+  | 'archived'
+  | 'unavailable'
+  | 'cart_full'
+  | 'quantity_limit';
+
+/**
+ * Line restored into the cart at the current catalog price
+ */
+export interface CartRestoreLine {
+  itemId: ItemId;
+  name: string;
+
+  /** Quantity added (rounded up to whole packs) */
+  quantity: number;
+
+  /** Current catalog price */
+  unitPrice: number;
+
+  /** Price when the line was saved or ordered */
+  previousUnitPrice: number;
+}
+
+/**
+ * Line that could not be restored into the cart
+ */
+export interface CartRestoreSkip {
+  itemId: ItemId;
+  name: string;
+  quantity: number;
+  reason: CartRestoreSkipReason;
+}
+
+/**
+ * Outcome of restoring lines (saved cart, template or past purchase
+ * request) into the cart
+ */
+export interface CartRestoreResult {
+  cart: Cart;
+  added: CartRestoreLine[];
+  skipped: CartRestoreSkip[];
+}
+
+/**
+ * Why a cart line cannot be checked out
+ * - not_found: the item was deleted from the catalog
+ * - archived: the item was archived
+ * - unavailable: the item cannot be ordered (e.g., pending review)
+ */
+export type CheckoutUnavailableReason =
+  | 'not_found'
+  | 'archived'
+  | 'unavailable';
+
+/**
+ * Cart line whose catalog price changed since it was added
+ */
+export interface CheckoutPriceChange {
+  itemId: ItemId;
+  name: string;
+  quantity: number;
+
+  /** Price snapshot in the cart */
+  cartUnitPrice: number;
+
+  /** Current catalog price (what the purchase request will use) */
+  currentUnitPrice: number;
+}
+
+/**
+ * Cart line that will be left out of the purchase request
+ */
+export interface CheckoutUnavailableLine {
+  itemId: ItemId;
+  name: string;
+  quantity: number;
+  reason: CheckoutUnavailableReason;
+}
+
+/**
+ * CheckoutReview compares the cart against the live catalog before checkout
+ *
+ * Lines are ordered at the current catalog price and unavailable lines are
+ * dropped. Any such change has to be confirmed by the user: checkout then
+ * requires the confirmed total.
+ */
+export interface CheckoutReview {
+  priceChanges: CheckoutPriceChange[];
+  unavailable: CheckoutUnavailableLine[];
+
+  /** Total at the cart's price snapshots, all lines */
+  cartTotal: number;
+
+  /** Total the purchase request will have */
+  total: number;
+
+  /** True when there are price changes or unavailable lines */
+  requiresConfirmation: boolean;
+}
+
+// ============================================================================
+// PurchaseRequest Entity
+// ============================================================================
+
+/**
+ * PurchaseRequestItem represents a snapshot of an item at checkout time
+ * This is an immutable record of what was requested, even if catalog item changes later.
+ * [MVP]
+ */
+export interface PurchaseRequestItem {
+  /** Reference to the original catalog item (may change or be deleted later) */
+  itemId: ItemId;
+
+  /** Snapshot: item name at checkout */
+  itemName: string;
+
+  /** Snapshot: item category at checkout */
+  itemCategory: string;
+
+  /** Snapshot: item description at checkout */
+  itemDescription: string;
+
+  /** Snapshot: unit price at checkout */
+  unitPrice: number;
+
+  /** Quantity requested */
+  quantity: number;
+
+  /** Subtotal for this line (unitPrice * quantity) */
+  subtotal: number;
+
+  /** GL code for this line, when it differs from the request's */
+  glCode?: string;
+
+  /** Delivery location for this line, when it differs from the request's */
+  deliveryLocation?: DeliveryLocationSnapshot;
+
+  /** Requested delivery date for this line, when it differs */
+  requestedDeliveryDate?: Date;
+}
+
+/**
+ * PurchaseRequest entity
+ * Represents a simulated purchase request submitted to the ERP.
+ * In the tech case, this is logged to MongoDB rather than sent to a real ERP.
+ * [MVP]
+ */
+export interface PurchaseRequest {
+  /** Unique purchase request identifier */
+  id: PurchaseRequestId;
+
+  /** User who created this purchase request */
+  userId: UserId;
+
+  /** Purchase request number (e.g., PR-2024-0001) */
+  requestNumber: string;
+
+  /** List of items in this purchase request (immutable snapshots) */
+  items: PurchaseRequestItem[];
+
+  /**
+   * Total estimated cost of the purchase request
+   * Sum of all item subtotals
+   * [MVP]
+   */
+  total: number;
+
+  /**
+   * Optional notes or justification for the purchase
+   * [MVP]
+   */
+  notes?: string;
+
+  /**
+   * Source of the purchase request (UI or Agent)
+   */
+  source: 'ui' | 'agent';
+
+  /**
+   * Purchase request status
+   * [MVP]: Defaults to Submitted
+   * Moves through PendingApproval to Approved/Rejected via the approval chain
+   */
+  status: PurchaseRequestStatus;
+
+  /**
+   * Approval chain resolved at submission time (one entry per step)
+   * Empty when no approval rule matched the request
+   */
+  approvalSteps: ApprovalStep[];
+
+  /**
+   * Index of the step currently awaiting a decision
+   * Undefined once the chain is finished (approved/rejected)
+   */
+  currentApprovalStep?: number;
+
+  /** Full state-machine history, oldest first */
+  statusHistory: PurchaseRequestStatusChange[];
+
+  /**
+   * Cost center charged for this request, chosen at checkout (defaults to
+   * the requester's cost center); used for budget tracking
+   */
+  costCenter?: string;
+
+  /** General ledger account the request is booked to */
+  glCode?: string;
+
+  /** Reference number assigned by the ERP once submitted */
+  erpReference?: string;
+
+  /** Last known ERP status (undefined until the request is queued) */
+  erpStatus?: ErpSyncStatus;
+
+  /** When the ERP status last changed */
+  erpStatusUpdatedAt?: Date;
+
+  /**
+   * Company location to deliver to (snapshot at checkout)
+   * Lines may override it.
+   */
+  deliveryLocation?: DeliveryLocationSnapshot;
+
+  /**
+   * Requested delivery date, no earlier than the supplier lead time allows
+   * Lines may override it.
+   */
+  requestedDeliveryDate?: Date;
+
+  /** Timestamp when the purchase request was created */
+  createdAt: Date;
+
+  /** Last update timestamp */
+  updatedAt: Date;
+}
+
+/**
+ * ApprovalStep represents one approver assignment in a purchase request's chain
+ * Approvers are assigned by role, by explicit user IDs, or both.
+ */
+export interface ApprovalStep {
+  /** Step label shown to users (e.g., "Buyer review") */
+  name: string;
+
+  /** Role allowed to act on this step (any user with this role) */
+  approverRole?: 'requester' | 'buyer' | 'admin';
+
+  /** Specific users allowed to act on this step */
+  approverIds: UserId[];
+
+  /** Step decision status */
+  status: ApprovalStepStatus;
+
+  /** User who decided this step */
+  decidedByUserId?: UserId;
+
+  /** Timestamp of the decision */
+  decidedAt?: Date;
+
+  /** Approver comment attached to the decision */
+  comment?: string;
+}
+
+/**
+ * PurchaseRequestStatusChange records a single state-machine transition
+ */
+export interface PurchaseRequestStatusChange {
+  /** Status before the transition (undefined for the initial submission) */
+  fromStatus?: PurchaseRequestStatus;
+
+  /** Status after the transition */
+  toStatus: PurchaseRequestStatus;
+
+  /** Action that triggered the transition */
+  action: ApprovalAction;
+
+  /** User who performed the action (undefined for system transitions) */
+  actorUserId?: UserId;
+
+  /** Name of the approval step the action applied to, if any */
+  stepName?: string;
+
+  /** Optional comment provided with the action */
+  comment?: string;
+
+  /** Timestamp of the transition */
+  changedAt: Date;
+}
+
+/**
+ * ApprovalRule configures which approval steps apply to a purchase request
+ * A rule matches when the request total falls within [minTotal, maxTotal)
+ * and, if categories are set, at least one line item is in one of them.
+ * Steps of all matching rules are chained in priority order.
+ */
+export interface ApprovalRule {
+  /** Unique rule identifier */
+  id: string;
+
+  /** Rule name (e.g., "High value purchases") */
+  name: string;
+
+  /** Optional description for administrators */
+  description?: string;
+
+  /** Inclusive lower bound on request total */
+  minTotal?: number;
+
+  /** Exclusive upper bound on request total */
+  maxTotal?: number;
+
+  /** Item categories this rule applies to (case-insensitive) */
+  categories: string[];
+
+  /** Approval steps contributed by this rule, in order */
+  steps: Array<{
+    name: string;
+    approverRole?: 'requester' | 'buyer' | 'admin';
+    approverIds: UserId[];
+  }>;
+
+  /** Lower values are evaluated (and chained) first */
+  priority: number;
+
+  /** Inactive rules are ignored during resolution */
+  isActive: boolean;
+
+  /** Rule creation timestamp */
+  createdAt: Date;
+
+  /** Last update timestamp */
+  updatedAt: Date;
+}
+
+// ============================================================================
+// DeliveryLocation Entity
+// ============================================================================
+
+/**
+ * DeliveryLocation entity
+ * Company site purchases can be delivered to; managed by admins and
+ * chosen at checkout.
+ */
+export interface DeliveryLocation {
+  /** Unique delivery location identifier */
+  id: DeliveryLocationId;
+
+  /** Short name (e.g., "HQ - Receiving dock") */
+  name: string;
+
+  /** Full postal address */
+  address: string;
+
+  /** Whether the location can be chosen at checkout */
+  isActive: boolean;
+
+  /** Creation timestamp */
+  createdAt: Date;
+
+  /** Last update timestamp */
+  updatedAt: Date;
+}
+
+/**
+ * Delivery location as recorded on a purchase request
+ * Kept as a snapshot so later changes to the location don't alter it.
+ */
+export interface DeliveryLocationSnapshot {
+  /** Reference to the managed location */
+  locationId: DeliveryLocationId;
+
+  /** Snapshot: location name */
+  name: string;
+
+  /** Snapshot: postal address */
+  address: string;
+}
+
+// ============================================================================
+// Supplier Entity
+// ============================================================================
+
+/**
+ * SupplierContact holds the supplier's primary contact details
+ */
+export interface SupplierContact {
+  /** Contact person */
+  name?: string;
+
+  /** Contact email (used for purchase orders) */
+  email?: string;
+
+  /** Contact phone */
+  phone?: string;
+}
+
+/**
+ * Supplier entity
+ * Vendor master data used to route purchase requests to the right vendor.
+ */
+export interface Supplier {
+  /** Unique supplier identifier */
+  id: SupplierId;
+
+  /** Supplier (legal or trading) name */
+  name: string;
+
+  /** Primary contact */
+  contact: SupplierContact;
+
+  /** Postal address */
+  address?: string;
+
+  /** Website URL */
+  website?: string;
+
+  /** Tax identification number (e.g., VAT / EIN) */
+  taxId?: string;
+
+  /** Payment terms agreed with the supplier */
+  paymentTerms: SupplierPaymentTerms;
+
+  /** Default lead time in days */
+  leadTimeDays?: number;
+
+  /** Whether the supplier can receive new orders */
+  status: SupplierStatus;
+
+  /** Why the supplier was blocked */
+  blockedReason?: string;
+
+  /** Internal notes */
+  notes?: string;
+
+  /** Supplier creation timestamp */
+  createdAt: Date;
+
+  /** Last update timestamp */
+  updatedAt: Date;
+}
+
+// ============================================================================
+// PurchaseOrder Entity
+// ============================================================================
+
+/**
+ * PurchaseOrderItem is a line on a purchase order
+ * Snapshot of the purchase request line with the supplier's terms.
+ */
+export interface PurchaseOrderItem {
+  /** Reference to the catalog item */
+  itemId: ItemId;
+
+  /** Snapshot: item name */
+  itemName: string;
+
+  /** Snapshot: item category */
+  itemCategory: string;
+
+  /** Snapshot: item description */
+  itemDescription: string;
+
+  /** Supplier's SKU / part number */
+  supplierSku?: string;
+
+  /** Supplier-specific unit price */
+  unitPrice: number;
+
+  /** Quantity ordered */
+  quantity: number;
+
+  /** Subtotal for this line (unitPrice * quantity) */
+  subtotal: number;
+
+  /** Lead time quoted for this line, in days */
+  leadTimeDays?: number;
+}
+
+/**
+ * PurchaseOrderStatusChange records a purchase order status transition
+ */
+export interface PurchaseOrderStatusChange {
+  /** Status before the change (absent when the order was issued) */
+  fromStatus?: PurchaseOrderStatus;
+
+  /** Status after the change */
+  toStatus: PurchaseOrderStatus;
+
+  /** User who made the change (absent for system changes) */
+  userId?: UserId;
+
+  /** Optional note */
+  note?: string;
+
+  /** When the change happened */
+  changedAt: Date;
+}
+
+/**
+ * PurchaseOrder entity
+ * One order per supplier, generated when a purchase request is approved.
+ */
+export interface PurchaseOrder {
+  /** Unique purchase order identifier */
+  id: PurchaseOrderId;
+
+  /** Purchase order number (e.g., PO-2025-0001) */
+  poNumber: string;
+
+  /** Purchase request this order was generated from */
+  purchaseRequestId: PurchaseRequestId;
+
+  /** Snapshot: purchase request number */
+  requestNumber: string;
+
+  /** Supplier receiving the order */
+  supplierId: SupplierId;
+
+  /** Snapshot: supplier name */
+  supplierName: string;
+
+  /** Snapshot: supplier contact email (order recipient) */
+  supplierEmail?: string;
+
+  /** Snapshot: payment terms at issue time */
+  paymentTerms: SupplierPaymentTerms;
+
+  /** Order lines */
+  items: PurchaseOrderItem[];
+
+  /** Order total */
+  total: number;
+
+  /** Current status */
+  status: PurchaseOrderStatus;
+
+  /** Status audit trail */
+  statusHistory: PurchaseOrderStatusChange[];
+
+  /** Expected delivery date (issue date + longest line lead time) */
+  expectedDeliveryDate?: Date;
+
+  /** Cost center charged (copied from the purchase request) */
+  costCenter?: string;
+
+  /** Order creation (issue) timestamp */
+  createdAt: Date;
+
+  /** Last update timestamp */
+  updatedAt: Date;
+}
+
+// ============================================================================
+// GoodsReceipt Entity
+// ============================================================================
+
+/**
+ * GoodsReceiptLine records what arrived for one purchase order line
+ * Accepted quantity = quantityReceived - quantityRejected.
+ */
+export interface GoodsReceiptLine {
+  /** Catalog item (matches the purchase order / request line) */
+  itemId: ItemId;
+
+  /** Snapshot: item name */
+  itemName: string;
+
+  /** Units delivered */
+  quantityReceived: number;
+
+  /** Units rejected (damaged, wrong item, ...) */
+  quantityRejected: number;
+
+  /** Why units were rejected (required when quantityRejected > 0) */
+  rejectionReason?: ReceiptRejectionReason;
+
+  /** Line-level receiving note */
+  note?: string;
+}
+
+/**
+ * GoodsReceipt entity
+ * One delivery received against a purchase order. A purchase order can
+ * have several receipts (partial deliveries). Receipts are never edited.
+ */
+export interface GoodsReceipt {
+  /** Unique receipt identifier */
+  id: GoodsReceiptId;
+
+  /** Receipt number (e.g., GR-2025-0001) */
+  receiptNumber: string;
+
+  /** Purchase order received against */
+  purchaseOrderId: PurchaseOrderId;
+
+  /** Snapshot: purchase order number */
+  poNumber: string;
+
+  /** Purchase request the order was generated from */
+  purchaseRequestId: PurchaseRequestId;
+
+  /** Snapshot: purchase request number */
+  requestNumber: string;
+
+  /** Received lines */
+  lines: GoodsReceiptLine[];
+
+  /** Receiving note (e.g., carrier, packing slip number) */
+  notes?: string;
+
+  /** User who recorded the receipt */
+  receivedByUserId: UserId;
+
+  /** When the goods arrived */
+  receivedAt: Date;
+
+  /** Record creation timestamp */
+  createdAt: Date;
+}
+
+// ============================================================================
+// SupplierInvoice Entity
+// ============================================================================
+
+/**
+ * SupplierInvoiceLine is a billed line on a supplier invoice
+ */
+export interface SupplierInvoiceLine {
+  /** Catalog item (matches the purchase order line) */
+  itemId: ItemId;
+
+  /** Units billed */
+  quantity: number;
+
+  /** Billed unit price */
+  unitPrice: number;
+
+  /** Line amount (quantity * unitPrice) */
+  subtotal: number;
 }
 
 /**
- * Purchase request status
- * [MVP]: Submitted - simulated submission to ERP
- * [Future]: PendingApproval, Approved, Rejected - for approval workflows
+ * SupplierInvoice entity
+ * Invoice received from the supplier for a purchase order,
+ * recorded for the three-way match.
  */
-export enum PurchaseRequestStatus {
-  Submitted = 'submitted', // [MVP]
-  PendingApproval = 'pending_approval', // [Future]
-  Approved = 'approved', // [Future]
-  Rejected = 'rejected', // [Future]
+export interface SupplierInvoice {
+  /** Unique invoice identifier */
+  id: SupplierInvoiceId;
+
+  /** Supplier's invoice number (unique per supplier) */
+  invoiceNumber: string;
+
+  /** Purchase order billed */
+  purchaseOrderId: PurchaseOrderId;
+
+  /** Supplier that issued the invoice */
+  supplierId: SupplierId;
+
+  /** Invoice date */
+  invoiceDate: Date;
+
+  /** Billed lines */
+  lines: SupplierInvoiceLine[];
+
+  /** Invoice total */
+  total: number;
+
+  /** User who recorded the invoice */
+  recordedByUserId: UserId;
+
+  /** Record creation timestamp */
+  createdAt: Date;
 }
 
 /**
- * Agent message role
- * [MVP]
+ * ThreeWayMatchLine compares one purchase order line with its
+ * receipts and invoices
  */
-export enum AgentMessageRole {
-  User = 'user',
-  Agent = 'agent',
-  System = 'system',
+export interface ThreeWayMatchLine {
+  itemId: ItemId;
+  itemName: string;
+
+  /** Ordered quantity and price (purchase order) */
+  quantityOrdered: number;
+  unitPrice: number;
+
+  /** Accepted quantity across receipts */
+  quantityReceived: number;
+
+  /** Rejected quantity across receipts */
+  quantityRejected: number;
+
+  /** Billed quantity across invoices */
+  quantityInvoiced: number;
+
+  /** Billed amount across invoices */
+  amountInvoiced: number;
+
+  status: ThreeWayMatchStatus;
 }
 
 /**
- * Agent action types (tools/functions the agent can invoke)
- * [MVP]
+ * ThreeWayMatch is the computed match result for a purchase order
+ * (not persisted)
  */
-export enum AgentActionType {
-  SearchCatalog = 'search_catalog',
-  RegisterItem = 'register_item',
-  AddToCart = 'add_to_cart',
-  UpdateCartItem = 'update_cart_item',
-  RemoveFromCart = 'remove_from_cart',
-  ViewCart = 'view_cart',
-  AnalyzeCart = 'analyze_cart',
-  Checkout = 'checkout',
+export interface ThreeWayMatch {
+  purchaseOrderId: PurchaseOrderId;
+  poNumber: string;
+  status: ThreeWayMatchStatus;
+  lines: ThreeWayMatchLine[];
+
+  /** Invoice lines for items not on the purchase order */
+  unmatchedInvoiceItemIds: ItemId[];
 }
 
 // ============================================================================
-// User Entity
+// ErpOutboxEntry Entity
 // ============================================================================
 
 /**
- * User entity
- * Represents an authenticated user in the system.
- * Kept minimal to support Auth.js integration and ownership of carts/requests.
- * [MVP]
+ * ErpOutboxEntry - one ERP operation for a purchase request
+ *
+ * Operations are written to the outbox first and sent by a worker, so
+ * ERP outages never block approvals. Failed attempts are retried with
+ * exponential backoff until the maximum number of attempts.
  */
-export interface User {
-  /** Unique user identifier */
-  id: UserId;
+export interface ErpOutboxEntry {
+  /** Unique entry identifier (also sent as the idempotency key) */
+  id: ErpOutboxEntryId;
 
-  /** User's email address (used for login) */
-  email: string;
+  /** Purchase request the operation applies to */
+  purchaseRequestId: PurchaseRequestId;
 
-  /** User's display name */
-  name?: string;
+  /** Snapshot: purchase request number */
+  requestNumber: string;
 
-  /** Hashed password (only for Credentials provider) */
-  passwordHash?: string;
+  /** Operation to perform */
+  operation: ErpOperation;
 
-  /** OAuth provider (e.g., 'google') if using OAuth */
-  provider?: string; // [Future]
+  /** Connector the entry was (or will be) sent through */
+  connector: string;
 
-  /** OAuth provider user ID */
-  providerId?: string; // [Future]
+  /** Processing status */
+  status: ErpOutboxStatus;
 
-  /** User role - [Future]: for role-based access control */
-  role?: 'requester' | 'buyer' | 'admin'; // [Future]
+  /** Attempts made so far */
+  attempts: number;
 
-  /** Account creation timestamp */
+  /** Earliest time of the next attempt */
+  nextAttemptAt: Date;
+
+  /** Error message of the last failed attempt */
+  lastError?: string;
+
+  /** ERP reference returned by a successful submit */
+  erpReference?: string;
+
+  /** When the operation succeeded */
+  completedAt?: Date;
+
+  /** Timestamp when the entry was created */
   createdAt: Date;
 
   /** Last update timestamp */
@@ -143,231 +1631,208 @@ export interface User {
 }
 
 // ============================================================================
-// Item (CatalogItem) Entity
+// Webhook Entities
 // ============================================================================
 
 /**
- * Item (CatalogItem) entity
- * Represents a material or service in the procurement catalog.
- * Can be seeded or registered by users.
- * [MVP]
+ * WebhookSubscription - an endpoint receiving lifecycle events
+ * The signing secret is never part of the entity; it is returned once,
+ * when the subscription is created.
  */
-export interface Item {
-  /** Unique item identifier */
-  id: ItemId;
-
-  /** Item name (required, should be descriptive) */
-  name: string;
-
-  /** Item category (e.g., "Office Supplies", "Electronics") */
-  category: string;
-
-  /** Detailed description of the item */
-  description: string;
+export interface WebhookSubscription {
+  /** Unique subscription identifier */
+  id: WebhookSubscriptionId;
 
-  /**
-   * Estimated unit price in the default currency (e.g., USD)
-   * Must be a positive number.
-   * [MVP]
-   */
-  estimatedPrice: number;
+  /** Endpoint URL (http or https) */
+  url: string;
 
-  /**
-   * Unit of measure (e.g., "each", "box", "pack")
-   * [Future]: for more precise quantity management
-   */
-  unit?: string; // [Future]
+  /** Optional label (e.g., "Accounting sync") */
+  description?: string;
 
-  /**
-   * Item status in the catalog
-   * [MVP]: Defaults to Active
-   * [Future]: PendingReview for items awaiting buyer approval
-   */
-  status: ItemStatus;
+  /** Events delivered to the endpoint */
+  events: WebhookEventType[];
 
-  /**
-   * Preferred supplier name
-   * [Future]: for supplier relationship management
-   */
-  preferredSupplier?: string; // [Future]
+  /** Inactive subscriptions receive no new deliveries */
+  active: boolean;
 
-  /**
-   * User ID of the person who registered this item (if user-registered)
-   * [MVP]
-   */
-  createdByUserId?: UserId;
+  /** User who registered the endpoint */
+  createdByUserId: UserId;
 
-  /** Item creation timestamp */
+  /** Timestamp when the subscription was created */
   createdAt: Date;
 
   /** Last update timestamp */
   updatedAt: Date;
 }
 
-// ============================================================================
-// Cart Entity
-// ============================================================================
-
 /**
- * CartItem represents a single line item in a cart
- * [MVP]
+ * Envelope posted to webhook endpoints
  */
-export interface CartItem {
-  /** Reference to the catalog item */
-  itemId: ItemId;
+export interface WebhookEvent<TData = Record<string, unknown>> {
+  /** Event identifier (identical across redeliveries) */
+  id: string;
 
-  /** Snapshot of item name at the time of adding to cart */
-  name: string;
+  /** Event type */
+  type: WebhookEventType;
 
-  /** Snapshot of item price at the time of adding to cart */
-  unitPrice: number;
+  /** When the event happened (ISO 8601) */
+  createdAt: string;
 
-  /**
-   * Quantity of this item in the cart
-   * Must be >= 1 and <= 999 per BR-2.2
-   * [MVP]
-   */
-  quantity: number;
+  /** Event data (e.g., { purchaseRequest } or { item }) */
+  data: TData;
+}
 
-  /**
-   * Subtotal for this line item (unitPrice * quantity)
-   * Calculated field, not persisted separately in some implementations
-   */
-  subtotal: number;
+/**
+ * One HTTP attempt of a webhook delivery
+ */
+export interface WebhookDeliveryAttempt {
+  attemptedAt: Date;
 
-  /** Timestamp when this item was added to cart */
-  addedAt: Date;
+  /** HTTP status returned by the endpoint (absent on network errors) */
+  responseStatus?: number;
+
+  /** Error message for failed attempts */
+  error?: string;
+
+  /** Round-trip time in milliseconds */
+  durationMs: number;
 }
 
 /**
- * Cart entity
- * Represents a user's shopping cart.
- * [MVP]: Associated with authenticated user
- * [Future]: Persist across sessions
+ * WebhookDelivery - one event sent to one subscription
+ * Keeps a log of every attempt for troubleshooting.
  */
-export interface Cart {
-  /** Unique cart identifier */
-  id: CartId;
+export interface WebhookDelivery {
+  /** Unique delivery identifier */
+  id: WebhookDeliveryId;
 
-  /** User who owns this cart */
-  userId: UserId;
+  /** Receiving subscription */
+  subscriptionId: WebhookSubscriptionId;
 
-  /** Line items in the cart */
-  items: CartItem[];
+  /** Event posted to the endpoint */
+  event: WebhookEvent;
 
-  /**
-   * Total estimated cost of all items in cart
-   * Sum of all item subtotals
-   * [MVP]
-   */
-  totalCost: number;
+  /** Delivery status */
+  status: WebhookDeliveryStatus;
 
-  /** Cart creation timestamp */
+  /** Attempts made so far */
+  attempts: number;
+
+  /** Earliest time of the next attempt (pending deliveries) */
+  nextAttemptAt: Date;
+
+  /** Most recent attempts, oldest first */
+  attemptLog: WebhookDeliveryAttempt[];
+
+  /** When the endpoint accepted the event */
+  deliveredAt?: Date;
+
+  /** Delivery this one manually re-sends */
+  redeliveryOf?: WebhookDeliveryId;
+
+  /** Timestamp when the delivery was created */
   createdAt: Date;
 
-  /** Last update timestamp (e.g., when items are added/removed) */
+  /** Last update timestamp */
   updatedAt: Date;
-
-  /**
-   * Indicates if this is a saved cart draft
-   * [Future]: for saving carts without checking out
-   */
-  isDraft?: boolean; // [Future]
 }
 
 // ============================================================================
-// PurchaseRequest Entity
+// Budget Entity
 // ============================================================================
 
 /**
- * PurchaseRequestItem represents a snapshot of an item at checkout time
- * This is an immutable record of what was requested, even if catalog item changes later.
- * [MVP]
+ * Budget entity
+ * Spending limit for a department / cost center over a fiscal period.
+ * Committed spend is the sum of purchase request totals charged to the
+ * cost center that are submitted, in approval, or approved.
  */
-export interface PurchaseRequestItem {
-  /** Reference to the original catalog item (may change or be deleted later) */
-  itemId: ItemId;
+export interface Budget {
+  /** Unique budget identifier */
+  id: string;
 
-  /** Snapshot: item name at checkout */
-  itemName: string;
+  /** Budget name (e.g., "Operations FY2025") */
+  name: string;
 
-  /** Snapshot: item category at checkout */
-  itemCategory: string;
+  /** Cost center this budget applies to */
+  costCenter: string;
 
-  /** Snapshot: item description at checkout */
-  itemDescription: string;
+  /** Optional department label for display */
+  department?: string;
 
-  /** Snapshot: unit price at checkout */
-  unitPrice: number;
+  /** Fiscal period start (inclusive) */
+  periodStart: Date;
 
-  /** Quantity requested */
-  quantity: number;
+  /** Fiscal period end (inclusive) */
+  periodEnd: Date;
 
-  /** Subtotal for this line (unitPrice * quantity) */
-  subtotal: number;
+  /** Budgeted amount for the period */
+  amount: number;
+
+  /** Checkout behavior when the budget would be exceeded */
+  enforcement: BudgetEnforcement;
+
+  /** Inactive budgets are not tracked or enforced */
+  isActive: boolean;
+
+  /** Budget creation timestamp */
+  createdAt: Date;
+
+  /** Last update timestamp */
+  updatedAt: Date;
 }
 
 /**
- * PurchaseRequest entity
- * Represents a simulated purchase request submitted to the ERP.
- * In the tech case, this is logged to MongoDB rather than sent to a real ERP.
- * [MVP]
+ * BudgetStatus summarizes spend against a budget
  */
-export interface PurchaseRequest {
-  /** Unique purchase request identifier */
-  id: PurchaseRequestId;
+export interface BudgetStatus {
+  budget: Budget;
 
-  /** User who created this purchase request */
-  userId: UserId;
+  /** Sum of committed purchase request totals in the period */
+  committed: number;
 
-  /** Purchase request number (e.g., PR-2024-0001) */
-  requestNumber: string;
+  /** Budget amount minus committed spend (negative when overspent) */
+  remaining: number;
 
-  /** List of items in this purchase request (immutable snapshots) */
-  items: PurchaseRequestItem[];
+  /** Committed spend as a fraction of the budget amount */
+  utilization: number;
+}
 
-  /**
-   * Total estimated cost of the purchase request
-   * Sum of all item subtotals
-   * [MVP]
-   */
-  total: number;
+/**
+ * BudgetCheck is the result of checking a prospective spend against a budget
+ */
+export interface BudgetCheck extends BudgetStatus {
+  /** Amount being checked (e.g., the cart total) */
+  amount: number;
 
-  /**
-   * Optional notes or justification for the purchase
-   * [MVP]
-   */
-  notes?: string;
+  /** Remaining balance after the spend */
+  remainingAfter: number;
 
-  /**
-   * Source of the purchase request (UI or Agent)
-   */
-  source: 'ui' | 'agent';
+  /** Whether the spend exceeds the remaining balance */
+  exceedsBudget: boolean;
 
-  /**
-   * Purchase request status
-   * [MVP]: Defaults to Submitted
-   * [Future]: PendingApproval, Approved, Rejected
-   */
-  status: PurchaseRequestStatus;
+  /** Whether checkout must be blocked (exceeds and enforcement is block) */
+  blocked: boolean;
 
-  /**
-   * Delivery location
-   * [Future]: for more advanced logistics
-   */
-  deliveryLocation?: string; // [Future]
+  /** Human-readable summary for UI and agent responses */
+  message: string;
+}
 
-  /**
-   * Requested delivery date
-   * [Future]: for scheduling
-   */
-  requestedDeliveryDate?: Date; // [Future]
+/**
+ * BudgetBurnDownPoint is one day of a budget burn-down series
+ */
+export interface BudgetBurnDownPoint {
+  /** ISO date (YYYY-MM-DD) */
+  date: string;
 
-  /** Timestamp when the purchase request was created */
-  createdAt: Date;
+  /** Cumulative committed spend up to and including this day */
+  committed: number;
 
-  /** Last update timestamp */
-  updatedAt: Date;
+  /** Remaining balance at the end of this day */
+  remaining: number;
+
+  /** Remaining balance under an even spend rate across the period */
+  ideal: number;
 }
 
 // ============================================================================
@@ -399,6 +1864,7 @@ export interface AgentMessage {
     description: string;
     price: number;
     availability: 'in_stock' | 'out_of_stock' | 'limited';
+    supplierCount?: number;
   }>;
 
   /**
@@ -517,20 +1983,6 @@ export interface AgentConversation {
 // Future Entities (Out of Scope for MVP)
 // ============================================================================
 
-/**
- * Category entity
- * [Future]: Separate category collection instead of raw string in Item
- * Could include hierarchy, metadata, etc.
- */
-export interface Category {
-  id: string;
-  name: string;
-  description?: string;
-  parentCategoryId?: string; // For hierarchical categories
-  createdAt: Date;
-  updatedAt: Date;
-}
-
 /**
  * AgentActionLog entity
  * [Future]: More detailed, separate logging for agent actions
@@ -23,12 +23,15 @@ interface AgentChatMessagesProps {
   messages: AgentMessage[];
   onSendMessage?: (message: string) => void;
   isLoading?: boolean;
+  /** Loading indicator label (e.g., the tool currently running) */
+  loadingLabel?: string;
 }
 
 export function AgentChatMessages({
   messages,
   onSendMessage,
   isLoading = false,
+  loadingLabel = 'Thinking',
 }: AgentChatMessagesProps) {
   const bottomRef = useRef<HTMLDivElement>(null);
 
@@ -257,7 +260,7 @@ export function AgentChatMessages({
           );
         })}
 
-        {/* Loading indicator - "Thinking..." */}
+        {/* Loading indicator - "Thinking..." or the running tool */}
         {isLoading && (
           <div className='flex gap-3'>
             <div className='flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-black text-white'>
@@ -271,7 +274,7 @@ export function AgentChatMessages({
               </div>
               <div className='rounded-lg px-4 py-3 bg-card border border-border shadow-sm'>
                 <div className='flex items-center gap-2'>
-                  <span className='text-sm'>Thinking</span>
+                  <span className='text-sm'>{loadingLabel}</span>
                   <span className='flex gap-1'>
                     <span
                       className='animate-bounce'
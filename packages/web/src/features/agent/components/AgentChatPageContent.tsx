@@ -2,7 +2,9 @@
  * AgentChatPageContent Component
  *
  * Main chat page component that manages chat state and orchestrates
- * message display and input handling.
+ * message display and input handling. Agent responses are streamed over
+ * Server-Sent Events: text appears as it is generated and the loading
+ * indicator names the tool that is running.
  */
 
 'use client';
@@ -14,13 +16,30 @@ import { toast } from 'sonner';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useBreadcrumb } from '@/contexts/BreadcrumbContext';
 import { useCart } from '@/contexts/CartContext';
+import { createSseParser } from '@/lib/api/sse';
 
-import type { AgentMessage } from '../types';
+import type { AgentMessage, AgentStreamEvent } from '../types';
 
 import { AgentChatInput } from './AgentChatInput';
 import { AgentChatMessages } from './AgentChatMessages';
 import { AgentWelcome } from './AgentWelcome';
 
+/**
+ * Loading indicator labels for agent tools
+ */
+const TOOL_LABELS: Record<string, string> = {
+  search_catalog: 'Searching the catalog',
+  get_item_details: 'Looking up item details',
+  register_item: 'Registering the item',
+  add_to_cart: 'Adding to cart',
+  remove_from_cart: 'Updating your cart',
+  update_cart_quantity: 'Updating your cart',
+  get_cart: 'Checking your cart',
+  analyze_cart: 'Analyzing your cart',
+  reorder: 'Reordering',
+  checkout: 'Preparing checkout',
+};
+
 interface AgentChatPageContentProps {
   userName?: string;
   conversationId?: string;
@@ -32,6 +51,8 @@ export function AgentChatPageContent({
 }: AgentChatPageContentProps) {
   const [messages, setMessages] = useState<AgentMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreamingText, setIsStreamingText] = useState(false);
+  const [loadingLabel, setLoadingLabel] = useState<string | undefined>();
   const [hasStarted, setHasStarted] = useState(false);
   const [conversationId, setConversationId] = useState<string | undefined>(
     initialConversationId
@@ -194,15 +215,19 @@ export function AgentChatPageContent({
         id: 'user-' + Date.now().toString(),
         role: 'user',
         content,
+        timestamp: new Date(),
       };
+      const streamMessageId = `agent-${Date.now()}`;
 
       // Add user message to chat optimistically
       setMessages((prev) => [...prev, userMessage]);
       setIsLoading(true);
+      setIsStreamingText(false);
+      setLoadingLabel(undefined);
 
       try {
-        // Call API to get agent response
-        const response = await fetch('/api/agent/chat', {
+        // Call streaming API to get agent response
+        const response = await fetch('/api/agent/chat/stream', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -211,86 +236,139 @@ export function AgentChatPageContent({
           }),
         });
 
-        if (!response.ok) {
-          const errorData = await response.json();
+        if (!response.ok || !response.body) {
+          const errorData = await response.json().catch(() => ({}));
           throw new Error(errorData.message || 'Failed to get agent response');
         }
 
-        const data = await response.json();
+        const reader = response.body
+          .pipeThrough(new TextDecoderStream())
+          .getReader();
+        const parse = createSseParser();
+        let streamedContent = '';
+        let result: Extract<AgentStreamEvent, { type: 'done' }> | null = null;
+
+        while (!result) {
+          const { value, done } = await reader.read();
+          if (done) {
+            break;
+          }
+
+          for (const sse of parse(value)) {
+            const event = JSON.parse(sse.data) as AgentStreamEvent;
+
+            if (event.type === 'token') {
+              // Show text as it arrives in a provisional agent message
+              streamedContent += event.delta;
+              const text = streamedContent;
+              setIsStreamingText(true);
+              setLoadingLabel(undefined);
+              setMessages((prev) =>
+                prev.some((msg) => msg.id === streamMessageId)
+                  ? prev.map((msg) =>
+                      msg.id === streamMessageId
+                        ? { ...msg, content: text }
+                        : msg
+                    )
+                  : [
+                      ...prev,
+                      {
+                        id: streamMessageId,
+                        role: 'agent',
+                        content: text,
+                        timestamp: new Date(),
+                      },
+                    ]
+              );
+            } else if (event.type === 'tool_start') {
+              setLoadingLabel(TOOL_LABELS[event.name] ?? 'Working');
+            } else if (event.type === 'tool_end') {
+              setLoadingLabel(undefined);
+            } else if (event.type === 'done') {
+              result = event;
+            } else if (event.type === 'error') {
+              throw new Error(event.message);
+            }
+          }
+        }
+
+        if (!result) {
+          throw new Error('The connection closed before the agent finished');
+        }
 
         // Update conversationId if this is a new conversation
-        if (data.conversationId && !conversationId) {
-          setConversationId(data.conversationId);
+        if (result.conversationId && !conversationId) {
+          setConversationId(result.conversationId);
 
           // Update URL without reload for new conversations
           window.history.replaceState(
             null,
             '',
-            `/agent/${data.conversationId}`
+            `/agent/${result.conversationId}`
           );
         }
 
         // Trigger sidebar update
         triggerConversationUpdate();
 
-        // Get the latest agent message from the response
-        const apiMessages = data.messages || [];
-        const latestAgentMessage = apiMessages
-          .filter((msg: { role: string }) => msg.role === 'agent')
-          .pop();
-
-        if (latestAgentMessage) {
-          const agentMessage: AgentMessage = {
-            id: `agent-${Date.now()}`,
-            role: 'agent',
-            content: latestAgentMessage.content,
-            items:
-              Array.isArray(latestAgentMessage.items) &&
-              latestAgentMessage.items.length > 0
-                ? latestAgentMessage.items
-                : undefined, // Validate items array
-            cart:
-              latestAgentMessage.cart &&
-              typeof latestAgentMessage.cart === 'object'
-                ? latestAgentMessage.cart
-                : undefined, // Validate cart object
-            checkoutConfirmation:
-              latestAgentMessage.checkoutConfirmation &&
-              typeof latestAgentMessage.checkoutConfirmation === 'object'
-                ? latestAgentMessage.checkoutConfirmation
-                : undefined, // Validate checkout
-            purchaseRequest:
-              latestAgentMessage.purchaseRequest &&
-              typeof latestAgentMessage.purchaseRequest === 'object'
-                ? latestAgentMessage.purchaseRequest
-                : undefined, // Validate purchase request
-          };
-
-          setMessages((prev) => [...prev, agentMessage]);
-
-          // If this message includes a purchaseRequest, checkout was successful
-          // Zero the cart counter to match behavior in CartPageContent
-          if (agentMessage.purchaseRequest) {
-            setItemCount(0);
-          }
+        // Replace the provisional message with the final one (with metadata)
+        const latestAgentMessage = result.message;
+        const agentMessage: AgentMessage | null = latestAgentMessage
+          ? {
+              id: streamMessageId,
+              role: 'agent',
+              content: latestAgentMessage.content,
+              timestamp: new Date(),
+              items:
+                Array.isArray(latestAgentMessage.items) &&
+                latestAgentMessage.items.length > 0
+                  ? latestAgentMessage.items
+                  : undefined, // Validate items array
+              cart:
+                latestAgentMessage.cart &&
+                typeof latestAgentMessage.cart === 'object'
+                  ? latestAgentMessage.cart
+                  : undefined, // Validate cart object
+              checkoutConfirmation:
+                latestAgentMessage.checkoutConfirmation &&
+                typeof latestAgentMessage.checkoutConfirmation === 'object'
+                  ? latestAgentMessage.checkoutConfirmation
+                  : undefined, // Validate checkout
+              purchaseRequest:
+                latestAgentMessage.purchaseRequest &&
+                typeof latestAgentMessage.purchaseRequest === 'object'
+                  ? latestAgentMessage.purchaseRequest
+                  : undefined, // Validate purchase request
+            }
+          : null;
+
+        setMessages((prev) => [
+          ...prev.filter((msg) => msg.id !== streamMessageId),
+          ...(agentMessage ? [agentMessage] : []),
+        ]);
+
+        // If this message includes a purchaseRequest, checkout was successful
+        // Zero the cart counter to match behavior in CartPageContent
+        if (agentMessage?.purchaseRequest) {
+          setItemCount(0);
         }
       } catch (error) {
         console.error('Error sending message:', error);
 
-        // Remove optimistic user message and add error message
-        setMessages((prev) => {
-          const withoutOptimistic = prev.slice(0, -1);
-          return [
-            ...withoutOptimistic,
-            userMessage, // Re-add user message
-            {
-              id: `error-${Date.now()}`,
-              role: 'agent',
-              content:
-                'I apologize, but I encountered an error processing your request. Please try again.',
-            },
-          ];
-        });
+        // Drop any partial response and add error message
+        setMessages((prev) => [
+          ...prev.filter(
+            (msg) => msg.id !== userMessage.id && msg.id !== streamMessageId
+          ),
+          userMessage, // Re-add user message
+          {
+            id: `error-${Date.now()}`,
+            role: 'agent',
+            content:
+              'I apologize, but I encountered an error processing your request. Please try again.',
+            timestamp: new Date(),
+          },
+        ]);
 
         toast.error('Failed to send message', {
           description:
@@ -298,6 +376,8 @@ export function AgentChatPageContent({
         });
       } finally {
         setIsLoading(false);
+        setIsStreamingText(false);
+        setLoadingLabel(undefined);
       }
     },
     [conversationId, hasStarted, triggerConversationUpdate, setItemCount]
@@ -329,7 +409,9 @@ export function AgentChatPageContent({
           <AgentChatMessages
             messages={messages}
             onSendMessage={handleSendMessage}
-            isLoading={isLoading}
+            // Hide the indicator while text streams in, unless a tool runs
+            isLoading={isLoading && (!isStreamingText || !!loadingLabel)}
+            loadingLabel={loadingLabel}
           />
         ) : (
           <AgentWelcome onPromptClick={handleSendMessage} userName={userName} />
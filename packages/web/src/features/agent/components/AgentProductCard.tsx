@@ -6,7 +6,7 @@
 
 'use client';
 
-import { Minus, Plus, ShoppingCart } from 'lucide-react';
+import { Minus, Plus, ShoppingCart, Truck } from 'lucide-react';
 import { useState } from 'react';
 import { toast } from 'sonner';
 
@@ -141,6 +141,13 @@ export function AgentProductCard({ item }: AgentProductCardProps) {
       </CardHeader>
       <CardContent>
         <p className='text-sm text-muted-foreground'>{safeItem.description}</p>
+        {!!safeItem.supplierCount && (
+          <p className='mt-2 flex items-center gap-1 text-xs text-muted-foreground'>
+            <Truck className='h-3 w-3' />
+            Available from {safeItem.supplierCount}{' '}
+            {safeItem.supplierCount === 1 ? 'supplier' : 'suppliers'}
+          </p>
+        )}
       </CardContent>
       <CardFooter className='flex flex-col gap-3'>
         {/* Quantity Selector */}
@@ -12,6 +12,7 @@ export type {
   AgentMessage,
   AgentPurchaseRequest,
   AgentRole,
+  AgentStreamEvent,
 } from './types';
 
 // Mock data and logic
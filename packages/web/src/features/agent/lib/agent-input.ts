@@ -0,0 +1,103 @@
+/**
+ * Agent Input Validation
+ *
+ * Checks shared by the agent chat endpoints (JSON and streaming) before a
+ * message reaches the model:
+ * - Request shape (Zod)
+ * - Prompt injection detection (strict mode, sanitized output)
+ * - Optional OpenAI moderation
+ */
+
+import { logger } from '@/lib/logger/winston.config';
+import { validateWithModeration } from '@/lib/validation/moderation';
+import { validateUserInput } from '@/lib/validation/promptInjection';
+import { validateAgentMessageRequest } from '@/lib/validation/schemas';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ValidatedAgentInput {
+  /** Sanitized user message */
+  message: string;
+
+  /** Conversation to continue (new conversation when absent) */
+  conversationId?: string;
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+/**
+ * Message rejected by the safety checks
+ * `error` is the short error label returned to clients.
+ */
+export class AgentMessageRejectedError extends Error {
+  constructor(
+    public readonly error: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'AgentMessageRejectedError';
+  }
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Validate an agent chat request body
+ *
+ * @throws {ZodError} if the body has the wrong shape
+ * @throws {AgentMessageRejectedError} if the message fails a safety check
+ */
+export async function validateAgentInput(
+  body: unknown,
+  userId: string
+): Promise<ValidatedAgentInput> {
+  // Validate request structure with Zod
+  const validatedRequest = validateAgentMessageRequest(body);
+
+  // Check for prompt injection (strict mode for high-severity patterns)
+  let safeMessage: string;
+  try {
+    safeMessage = validateUserInput(validatedRequest.message, {
+      strict: true, // Throw on high-severity injection attempts
+      sanitize: true,
+    });
+  } catch (error) {
+    logger.warn('Prompt injection blocked', {
+      userId,
+      messageLength: validatedRequest.message.length,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    throw new AgentMessageRejectedError(
+      'Validation failed',
+      'Your message contains patterns that may violate safety policies. Please rephrase and try again.'
+    );
+  }
+
+  // Optional: OpenAI moderation (if enabled)
+  try {
+    await validateWithModeration(safeMessage);
+  } catch (error) {
+    logger.warn('Content moderation blocked message', {
+      userId,
+      messageLength: safeMessage.length,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    throw new AgentMessageRejectedError(
+      'Content policy violation',
+      'Your message violates content safety policies. Please revise and try again.'
+    );
+  }
+
+  return {
+    message: safeMessage,
+    conversationId: validatedRequest.conversationId,
+  };
+}
@@ -6,6 +6,8 @@
  * - Coordinates conversation manager and tool executor
  * - Handles rate limiting, retries, circuit breaker
  * - Tracks metrics and logs for observability
+ * - Optionally reports progress (token deltas, tool calls) while the
+ *   turn runs, for the streaming chat endpoint
  *
  * Part of Step 8: Agent Orchestrator Refactor
  */
@@ -14,8 +16,9 @@ import type { BaseMessage } from '@langchain/core/messages';
 import { AIMessage, ToolMessage } from '@langchain/core/messages';
 
 import type { AgentConversationDocument } from '@/domain/documents';
+import type { AgentStreamEvent } from '@/features/agent/types';
 import type { AIResponse } from '@/lib/ai/providerAdapter';
-import { invokeChat } from '@/lib/ai/providerAdapter';
+import { invokeChat, streamChat } from '@/lib/ai/providerAdapter';
 import { logger } from '@/lib/logger/winston.config';
 
 import { executeTool } from './agent-tool-executor';
@@ -36,27 +39,115 @@ const AGENT_TOOLS = [
   {
     name: 'search_catalog',
     description:
-      'Search for products in the catalog by keyword. Returns matching items with details (id, name, price, category, description). Use this when user asks to find, search, or browse items.',
+      'Search for products in the catalog by keyword or by a natural-language description of the need (semantic search, e.g. "something to sit on" finds chairs). Returns matching items with details (id, name, price, category, description, supplierCount = number of active suppliers offering the item) and facets: counts per category, supplier (id and name), unit and status for the matching items, to narrow the search with the filters. Use this when user asks to find, search, or browse items.',
     parameters: {
       type: 'object',
       properties: {
         query: {
           type: 'string',
           description:
-            'Search query or keyword (e.g., "ergonomic keyboard", "office supplies", "laptops under $500")',
+            'Search query, keyword or description of the need (e.g., "ergonomic keyboard", "office supplies", "laptops under $500", "something to keep drinks cold")',
         },
         limit: {
           type: 'number',
           description: 'Maximum number of results to return (default: 10)',
         },
+        category: {
+          type: 'string',
+          description:
+            'Category filter, exact category name (optional, e.g., "Furniture")',
+        },
+        categories: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Several categories, items in any of them (optional, e.g., ["Furniture", "Office Supplies"])',
+        },
+        suppliers: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Supplier IDs, items offered by any of them (optional). Take the IDs from the supplier facet of a previous search or from get_item_details',
+        },
+        units: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Units of measure, items sold in any of them (optional, e.g., ["box", "each"])',
+        },
+        status: {
+          type: 'array',
+          items: {
+            type: 'string',
+            enum: ['active', 'pending_review', 'inactive'],
+          },
+          description:
+            'Item statuses (optional, default: active only). Include pending_review to find items registered by users and awaiting buyer review',
+        },
+        minPrice: {
+          type: 'number',
+          description: 'Minimum price filter (optional)',
+        },
         maxPrice: {
           type: 'number',
           description: 'Maximum price filter (optional)',
         },
+        sort: {
+          type: 'string',
+          enum: ['relevance', 'price_asc', 'price_desc', 'newest'],
+          description:
+            'Result order (optional, default: relevance). Use price_asc for "cheapest" requests',
+        },
       },
       required: ['query'],
     },
   },
+  {
+    name: 'get_item_details',
+    description:
+      'Get full details of a catalog item (description, unit, price, supplier offers with prices and lead times). Use item ID from search results.',
+    parameters: {
+      type: 'object',
+      properties: {
+        itemId: {
+          type: 'string',
+          description: 'Item ID from search results',
+        },
+      },
+      required: ['itemId'],
+    },
+  },
+  {
+    name: 'register_item',
+    description:
+      'Register a new item in the catalog when search finds nothing suitable. Fails with DUPLICATE_ITEM and the similar items if one already exists; offer those instead. New items wait for buyer review and cannot be added to the cart until approved. Confirm the details with the user first.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Item name (2-200 characters)',
+        },
+        category: {
+          type: 'string',
+          description: 'Category (e.g., "Office Supplies", "Electronics")',
+        },
+        description: {
+          type: 'string',
+          description: 'Description (at least 10 characters)',
+        },
+        estimatedPrice: {
+          type: 'number',
+          description: 'Estimated unit price (must be positive)',
+        },
+        unit: {
+          type: 'string',
+          description: 'Unit of measure (e.g., "each", "box"; optional)',
+        },
+      },
+      required: ['name', 'category', 'description', 'estimatedPrice'],
+    },
+  },
   {
     name: 'add_to_cart',
     description:
@@ -90,6 +181,25 @@ const AGENT_TOOLS = [
       required: ['itemId'],
     },
   },
+  {
+    name: 'update_cart_quantity',
+    description:
+      'Set the quantity of an item already in the cart (0 removes it).',
+    parameters: {
+      type: 'object',
+      properties: {
+        itemId: {
+          type: 'string',
+          description: 'Item ID in the cart',
+        },
+        quantity: {
+          type: 'number',
+          description: 'New quantity',
+        },
+      },
+      required: ['itemId', 'quantity'],
+    },
+  },
   {
     name: 'get_cart',
     description: 'View current shopping cart contents.',
@@ -99,9 +209,35 @@ const AGENT_TOOLS = [
       required: [],
     },
   },
+  {
+    name: 'analyze_cart',
+    description:
+      'Summarize the cart: total units, distinct items, total cost, average/highest/lowest unit price and the most expensive line.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'reorder',
+    description:
+      "Add the items of one of the user's past purchase requests to the cart again, at current catalog prices. Reports lines whose price changed and items that were skipped because they were archived or deleted.",
+    parameters: {
+      type: 'object',
+      properties: {
+        purchaseRequest: {
+          type: 'string',
+          description: 'Purchase request number (e.g., "PR-2025-0001") or ID',
+        },
+      },
+      required: ['purchaseRequest'],
+    },
+  },
   {
     name: 'checkout',
-    description: 'Create purchase request from cart items.',
+    description:
+      'Create purchase request from cart items. Checks the department budget and reports warnings or a block. Fails with CONFIRMATION_REQUIRED when prices changed or items became unavailable since they were added; show the changes to the user and call again with confirmedTotal once they agree. Optionally records the cost center, GL code, delivery location and requested delivery date, for the whole request or per line; fails with UNKNOWN_DELIVERY_LOCATION (listing the available locations) when a location does not match. Retrying checkout in the same turn returns the purchase request already created.',
     parameters: {
       type: 'object',
       properties: {
@@ -109,6 +245,53 @@ const AGENT_TOOLS = [
           type: 'string',
           description: 'Optional purchase notes',
         },
+        confirmedTotal: {
+          type: 'number',
+          description:
+            'New total the user confirmed after a CONFIRMATION_REQUIRED result',
+        },
+        costCenter: {
+          type: 'string',
+          description:
+            "Cost center to charge (defaults to the user's cost center; only budget managers can charge another one)",
+        },
+        glCode: {
+          type: 'string',
+          description: 'GL account code to charge (e.g., "6100")',
+        },
+        deliveryLocation: {
+          type: 'string',
+          description: 'Name or ID of the company delivery location',
+        },
+        requestedDeliveryDate: {
+          type: 'string',
+          description:
+            'Requested delivery date (YYYY-MM-DD); must leave each item its supplier lead time',
+        },
+        lineOverrides: {
+          type: 'array',
+          description:
+            'Cart lines whose GL code, delivery location or date differ from the request',
+          items: {
+            type: 'object',
+            properties: {
+              itemId: {
+                type: 'string',
+                description: 'Item ID of the cart line (from get_cart)',
+              },
+              glCode: { type: 'string' },
+              deliveryLocation: {
+                type: 'string',
+                description: 'Name or ID of the delivery location',
+              },
+              requestedDeliveryDate: {
+                type: 'string',
+                description: 'YYYY-MM-DD',
+              },
+            },
+            required: ['itemId'],
+          },
+        },
       },
       required: [],
     },
@@ -132,8 +315,20 @@ export interface OrchestrateParams {
   /** Conversation ID for logging */
   conversationId: string;
 
+  /**
+   * Identifies this turn within the conversation (e.g., the position of the
+   * user message); keys the checkout tool idempotently
+   */
+  turnId: string;
+
   /** Max tokens for message history (default: 3000) */
   maxTokens?: number;
+
+  /**
+   * Progress listener; when set, LLM responses are streamed and token
+   * deltas and tool call start/finish are reported as they happen
+   */
+  onEvent?: (event: AgentStreamEvent) => void;
 }
 
 export interface OrchestrateResult {
@@ -188,7 +383,9 @@ export async function orchestrateAgentTurn(
     conversation,
     userId,
     conversationId,
+    turnId,
     maxTokens = 3000,
+    onEvent,
   } = params;
 
   const startTime = Date.now();
@@ -242,13 +439,19 @@ export async function orchestrateAgentTurn(
       });
 
       // 2a. Invoke LLM with current message history and available tools
-      const aiResponse: AIResponse = await invokeChat({
+      const chatParams = {
         messages: messageHistory,
         tools: AGENT_TOOLS,
         userId,
         conversationId,
         endpoint: '/agent',
-      });
+      };
+      const aiResponse: AIResponse = onEvent
+        ? await streamChat({
+            ...chatParams,
+            onToken: (delta) => onEvent({ type: 'token', delta }),
+          })
+        : await invokeChat(chatParams);
 
       logger.debug('[Orchestrator] LLM response received', {
         conversationId,
@@ -353,6 +556,13 @@ export async function orchestrateAgentTurn(
 
       const toolResults: ToolMessage[] = await Promise.all(
         toolCalls.map(async (toolCall): Promise<ToolMessage> => {
+          const toolStartTime = Date.now();
+          onEvent?.({
+            type: 'tool_start',
+            toolCallId: toolCall.id,
+            name: toolCall.name,
+          });
+
           try {
             // Parse arguments from JSON string
             const args =
@@ -366,6 +576,7 @@ export async function orchestrateAgentTurn(
               toolCallId: toolCall.id,
               userId,
               conversationId,
+              turnId,
             });
 
             logger.debug('[Orchestrator] Tool executed successfully', {
@@ -375,6 +586,14 @@ export async function orchestrateAgentTurn(
               success: result.success,
             });
 
+            onEvent?.({
+              type: 'tool_end',
+              toolCallId: toolCall.id,
+              name: toolCall.name,
+              durationMs: result.durationMs,
+              success: result.success,
+            });
+
             // Extract and accumulate metadata from tool result
             try {
               const toolOutput = JSON.parse(result.message.content as string);
@@ -403,11 +622,28 @@ export async function orchestrateAgentTurn(
                 }
               }
 
-              // Handle add_to_cart/remove_from_cart/get_cart results
+              // Handle get_item_details/register_item results
               if (
-                ['add_to_cart', 'remove_from_cart', 'get_cart'].includes(
-                  toolCall.name
-                )
+                ['get_item_details', 'register_item'].includes(toolCall.name)
+              ) {
+                // These return { item: {...} } (register_item also success)
+                if (toolOutput.item?.id) {
+                  accumulatedMetadata.items = [toolOutput.item];
+                } else if (Array.isArray(toolOutput.duplicates)) {
+                  // register_item found existing items instead
+                  accumulatedMetadata.items = toolOutput.duplicates;
+                }
+              }
+
+              // Handle cart mutation and get_cart results
+              if (
+                [
+                  'add_to_cart',
+                  'remove_from_cart',
+                  'update_cart_quantity',
+                  'get_cart',
+                  'reorder',
+                ].includes(toolCall.name)
               ) {
                 // These return { success: true, cart: { items: [...], totalCost: number } }
                 if (
@@ -523,6 +759,14 @@ export async function orchestrateAgentTurn(
               error: error instanceof Error ? error.message : String(error),
             });
 
+            onEvent?.({
+              type: 'tool_end',
+              toolCallId: toolCall.id,
+              name: toolCall.name,
+              durationMs: Date.now() - toolStartTime,
+              success: false,
+            });
+
             // Return error as tool result
             return new ToolMessage({
               tool_call_id: toolCall.id,
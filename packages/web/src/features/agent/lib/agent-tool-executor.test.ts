@@ -0,0 +1,500 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Cart, Item, PurchaseRequest } from '@/domain/entities';
+import { ItemStatus, PurchaseRequestStatus } from '@/domain/entities';
+import * as cartService from '@/features/cart';
+import * as catalogService from '@/features/catalog';
+import * as checkoutService from '@/features/checkout';
+
+import { executeTool } from './agent-tool-executor';
+
+vi.mock('@/features/catalog', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/features/catalog')>()),
+  getItemById: vi.fn(),
+  createItem: vi.fn(),
+  searchItemsWithFacets: vi.fn(),
+}));
+vi.mock('@/features/cart', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/features/cart')>()),
+  updateCartItemQuantity: vi.fn(),
+  removeCartItem: vi.fn(),
+  analyzeCart: vi.fn(),
+}));
+vi.mock('@/features/checkout', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/features/checkout')>()),
+  checkoutCart: vi.fn(),
+}));
+
+/**
+ * Agent Tool Executor Tests
+ *
+ * Services are mocked; the tests cover argument validation, how tool
+ * arguments reach the services and how service errors are reported to
+ * the LLM.
+ */
+
+const USER_ID = '507f1f77bcf86cd799439011';
+const CONVERSATION_ID = '507f1f77bcf86cd799439099';
+const ITEM_ID = '507f1f77bcf86cd799439022';
+
+const item: Item = {
+  id: ITEM_ID,
+  name: 'Office Chair',
+  category: 'Furniture',
+  description: 'Ergonomic office chair',
+  estimatedPrice: 150,
+  unit: 'each',
+  status: ItemStatus.Active,
+  preferredSupplier: 'Acme',
+  suppliers: [
+    {
+      supplierId: 'supplier-1',
+      unitPrice: 140,
+      supplierSku: 'AC-100',
+      leadTimeDays: 5,
+    },
+  ],
+  createdAt: new Date('2025-03-01'),
+  updatedAt: new Date('2025-03-01'),
+} as Item;
+
+const cart = (quantity: number): Cart =>
+  ({
+    id: 'cart-1',
+    userId: USER_ID,
+    isShared: false,
+    members: [],
+    version: 2,
+    items:
+      quantity > 0
+        ? [
+            {
+              itemId: ITEM_ID,
+              name: 'Office Chair',
+              unitPrice: 150,
+              quantity,
+              subtotal: 150 * quantity,
+              addedAt: new Date('2025-03-01'),
+            },
+          ]
+        : [],
+    totalCost: 150 * quantity,
+  }) as Cart;
+
+const purchaseRequest: PurchaseRequest = {
+  id: 'pr-1',
+  requestNumber: 'PR-2025-0001',
+  userId: USER_ID,
+  items: [
+    {
+      itemId: 'item-1',
+      itemName: 'Office Chair',
+      itemCategory: 'Furniture',
+      itemDescription: '',
+      unitPrice: 150,
+      quantity: 2,
+      subtotal: 300,
+    },
+  ],
+  total: 300,
+  status: PurchaseRequestStatus.Approved,
+  createdAt: new Date('2025-03-10'),
+  updatedAt: new Date('2025-03-10'),
+} as PurchaseRequest;
+
+/**
+ * Run a tool and return its parsed output
+ */
+async function runTool(
+  toolName: string,
+  args: Record<string, unknown>,
+  turnId = '0'
+) {
+  const result = await executeTool({
+    toolName,
+    args,
+    toolCallId: `call-${toolName}`,
+    userId: USER_ID,
+    conversationId: CONVERSATION_ID,
+    turnId,
+  });
+  return { ...result, output: JSON.parse(result.message.content as string) };
+}
+
+describe('agent-tool-executor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('search_catalog', () => {
+    const SUPPLIER_ID = '507f1f77bcf86cd799439033';
+
+    beforeEach(() => {
+      vi.mocked(catalogService.searchItemsWithFacets).mockResolvedValue({
+        items: [{ ...item, supplierCount: 1 }],
+        nextCursor: null,
+        hasMore: false,
+        total: 1,
+        facets: {
+          categories: [{ value: 'Furniture', count: 1 }],
+          suppliers: [{ value: SUPPLIER_ID, name: 'Acme', count: 1 }],
+          units: [{ value: 'each', count: 1 }],
+          statuses: [{ value: ItemStatus.Active, count: 1 }],
+          price: { min: 150, max: 150 },
+        },
+      });
+    });
+
+    it('should pass the facet filters to the catalog search', async () => {
+      const { success, output } = await runTool('search_catalog', {
+        query: 'chair',
+        category: 'Seating',
+        categories: ['Furniture'],
+        suppliers: [SUPPLIER_ID],
+        units: ['each'],
+        status: ['active', 'pending_review'],
+      });
+
+      expect(success).toBe(true);
+      expect(catalogService.searchItemsWithFacets).toHaveBeenCalledWith(
+        expect.objectContaining({
+          q: 'chair',
+          categories: ['Furniture', 'Seating'],
+          supplierIds: [SUPPLIER_ID],
+          units: ['each'],
+          statuses: ['active', 'pending_review'],
+          mode: 'semantic',
+        })
+      );
+      expect(output.items[0]).toMatchObject({ id: ITEM_ID, supplierCount: 1 });
+      expect(output.facets.suppliers).toEqual([
+        { id: SUPPLIER_ID, name: 'Acme', count: 1 },
+      ]);
+    });
+
+    it('should reject supplier names and unknown statuses', async () => {
+      const byName = await runTool('search_catalog', {
+        query: 'chair',
+        suppliers: ['Acme'],
+      });
+      const unknownStatus = await runTool('search_catalog', {
+        query: 'chair',
+        status: ['archived'],
+      });
+
+      expect(byName.success).toBe(false);
+      expect(unknownStatus.success).toBe(false);
+      expect(catalogService.searchItemsWithFacets).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('get_item_details', () => {
+    it('should return the item with its supplier offers', async () => {
+      vi.mocked(catalogService.getItemById).mockResolvedValue(item);
+
+      const { success, output } = await runTool('get_item_details', {
+        itemId: ITEM_ID,
+      });
+
+      expect(catalogService.getItemById).toHaveBeenCalledWith(ITEM_ID);
+      expect(success).toBe(true);
+      expect(output.item).toMatchObject({
+        id: ITEM_ID,
+        name: 'Office Chair',
+        availability: 'in_stock',
+        supplierCount: 1,
+        unit: 'each',
+        suppliers: [{ supplierId: 'supplier-1', unitPrice: 140 }],
+      });
+    });
+
+    it('should report unknown and malformed item IDs as not found', async () => {
+      vi.mocked(catalogService.getItemById).mockResolvedValue(null);
+
+      const unknown = await runTool('get_item_details', { itemId: ITEM_ID });
+      const malformed = await runTool('get_item_details', {
+        itemId: 'office-chair',
+      });
+
+      expect(unknown.success).toBe(false);
+      expect(unknown.output.error).toBe(`Item not found: ${ITEM_ID}`);
+      expect(malformed.output.error).toBe('Item not found: office-chair');
+      expect(catalogService.getItemById).toHaveBeenCalledOnce();
+    });
+
+    it('should reject a missing item ID', async () => {
+      const { success, output } = await runTool('get_item_details', {});
+
+      expect(success).toBe(false);
+      expect(output).toMatchObject({
+        errorType: 'ZodError',
+        toolName: 'get_item_details',
+      });
+      expect(catalogService.getItemById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('register_item', () => {
+    const args = {
+      name: 'Standing Desk',
+      category: 'Furniture',
+      description: 'Height-adjustable standing desk',
+      estimatedPrice: 450,
+    };
+
+    it('should register the item for buyer review', async () => {
+      vi.mocked(catalogService.createItem).mockResolvedValue({
+        ...item,
+        ...args,
+        status: ItemStatus.PendingReview,
+      });
+
+      const { output } = await runTool('register_item', args);
+
+      expect(catalogService.createItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ...args,
+          createdByUserId: USER_ID,
+          requiresReview: true,
+        })
+      );
+      expect(output).toMatchObject({
+        success: true,
+        pendingReview: true,
+        item: { name: 'Standing Desk' },
+      });
+    });
+
+    it('should return the duplicates of an existing item', async () => {
+      vi.mocked(catalogService.createItem).mockRejectedValue(
+        new catalogService.DuplicateItemError('Item already exists', [item])
+      );
+
+      const { success, output } = await runTool('register_item', args);
+
+      expect(success).toBe(true);
+      expect(output).toMatchObject({
+        success: false,
+        error: 'DUPLICATE_ITEM',
+        duplicates: [{ id: ITEM_ID }],
+      });
+    });
+
+    it('should reject a non-positive price before creating the item', async () => {
+      const { success, output } = await runTool('register_item', {
+        ...args,
+        estimatedPrice: 0,
+      });
+
+      expect(success).toBe(false);
+      expect(output.errorType).toBe('ZodError');
+      expect(catalogService.createItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update_cart_quantity', () => {
+    it('should set the quantity of the line', async () => {
+      vi.mocked(cartService.updateCartItemQuantity).mockResolvedValue(cart(3));
+
+      const { output } = await runTool('update_cart_quantity', {
+        itemId: ITEM_ID,
+        quantity: 3,
+      });
+
+      expect(cartService.updateCartItemQuantity).toHaveBeenCalledWith(
+        USER_ID,
+        ITEM_ID,
+        3
+      );
+      expect(output).toMatchObject({
+        success: true,
+        cart: { itemCount: 1, totalCost: 450, items: [{ quantity: 3 }] },
+      });
+    });
+
+    it('should remove the line when the quantity is 0', async () => {
+      vi.mocked(cartService.removeCartItem).mockResolvedValue(cart(0));
+
+      const { output } = await runTool('update_cart_quantity', {
+        itemId: ITEM_ID,
+        quantity: 0,
+      });
+
+      expect(cartService.removeCartItem).toHaveBeenCalledWith(USER_ID, ITEM_ID);
+      expect(cartService.updateCartItemQuantity).not.toHaveBeenCalled();
+      expect(output).toMatchObject({
+        success: true,
+        cart: { itemCount: 0, items: [] },
+      });
+    });
+
+    it('should reject negative and fractional quantities', async () => {
+      const negative = await runTool('update_cart_quantity', {
+        itemId: ITEM_ID,
+        quantity: -1,
+      });
+      const fractional = await runTool('update_cart_quantity', {
+        itemId: ITEM_ID,
+        quantity: 1.5,
+      });
+
+      expect(negative.success).toBe(false);
+      expect(fractional.success).toBe(false);
+      expect(cartService.removeCartItem).not.toHaveBeenCalled();
+      expect(cartService.updateCartItemQuantity).not.toHaveBeenCalled();
+    });
+
+    it('should report cart errors to the LLM', async () => {
+      vi.mocked(cartService.updateCartItemQuantity).mockRejectedValue(
+        new cartService.ItemNotFoundError(ITEM_ID)
+      );
+
+      const { success, output } = await runTool('update_cart_quantity', {
+        itemId: ITEM_ID,
+        quantity: 2,
+      });
+
+      expect(success).toBe(false);
+      expect(output).toMatchObject({
+        error: `Item not found: ${ITEM_ID}`,
+        errorType: 'ItemNotFoundError',
+        toolName: 'update_cart_quantity',
+      });
+    });
+  });
+
+  describe('analyze_cart', () => {
+    const emptyAnalysis = {
+      itemCount: 0,
+      uniqueItems: 0,
+      totalCost: 0,
+      highestUnitPrice: null,
+      lowestUnitPrice: null,
+      averageUnitPrice: 0,
+      mostExpensiveItem: null,
+    };
+
+    it('should return the cart analysis', async () => {
+      const analysis = {
+        itemCount: 3,
+        uniqueItems: 1,
+        totalCost: 450,
+        highestUnitPrice: { itemName: 'Office Chair', price: 150 },
+        lowestUnitPrice: { itemName: 'Office Chair', price: 150 },
+        averageUnitPrice: 150,
+        mostExpensiveItem: {
+          itemName: 'Office Chair',
+          subtotal: 450,
+          quantity: 3,
+        },
+      };
+      vi.mocked(cartService.analyzeCart).mockResolvedValue(analysis);
+
+      const { output } = await runTool('analyze_cart', {});
+
+      expect(cartService.analyzeCart).toHaveBeenCalledWith(USER_ID);
+      expect(output).toEqual(analysis);
+    });
+
+    it('should say when the cart is empty', async () => {
+      vi.mocked(cartService.analyzeCart).mockResolvedValue(emptyAnalysis);
+
+      const { output } = await runTool('analyze_cart', {});
+
+      expect(output).toEqual({
+        ...emptyAnalysis,
+        message: 'Your cart is empty',
+      });
+    });
+
+    it('should report analysis failures to the LLM', async () => {
+      vi.mocked(cartService.analyzeCart).mockRejectedValue(
+        new Error('Failed to analyze cart')
+      );
+
+      const { success, output } = await runTool('analyze_cart', {});
+
+      expect(success).toBe(false);
+      expect(output).toMatchObject({
+        error: 'Failed to analyze cart',
+        toolName: 'analyze_cart',
+      });
+    });
+  });
+
+  describe('checkout', () => {
+    beforeEach(() => {
+      vi.mocked(checkoutService.checkoutCart).mockResolvedValue({
+        purchaseRequest,
+        budgetCheck: null,
+        replayed: false,
+      });
+    });
+
+    it('should key the checkout by conversation and turn', async () => {
+      await runTool('checkout', {}, '4');
+
+      expect(checkoutService.checkoutCart).toHaveBeenCalledWith(
+        USER_ID,
+        expect.objectContaining({
+          idempotencyKey: `agent:${CONVERSATION_ID}:4`,
+        })
+      );
+    });
+
+    it('should reuse the key when the checkout is retried in the same turn', async () => {
+      await runTool('checkout', {}, '4');
+      vi.mocked(checkoutService.checkoutCart).mockResolvedValueOnce({
+        purchaseRequest,
+        budgetCheck: null,
+        replayed: true,
+      });
+      const retry = await runTool('checkout', {}, '4');
+
+      const [first, second] = vi.mocked(checkoutService.checkoutCart).mock
+        .calls;
+      expect(second[1]?.idempotencyKey).toBe(first[1]?.idempotencyKey);
+      expect(retry.output).toMatchObject({
+        success: true,
+        replayed: true,
+        purchaseRequest: { id: 'pr-1' },
+      });
+    });
+
+    it('should use a new key for a checkout in a later turn', async () => {
+      await runTool('checkout', {}, '4');
+      await runTool('checkout', {}, '6');
+
+      const [first, second] = vi.mocked(checkoutService.checkoutCart).mock
+        .calls;
+      expect(second[1]?.idempotencyKey).not.toBe(first[1]?.idempotencyKey);
+    });
+
+    it('should ignore an idempotency key made up by the LLM', async () => {
+      await runTool('checkout', { idempotencyKey: 'llm-key' }, '4');
+
+      expect(checkoutService.checkoutCart).toHaveBeenCalledWith(
+        USER_ID,
+        expect.objectContaining({
+          idempotencyKey: `agent:${CONVERSATION_ID}:4`,
+        })
+      );
+    });
+
+    it('should report a key reused for a different checkout', async () => {
+      vi.mocked(checkoutService.checkoutCart).mockRejectedValueOnce(
+        new checkoutService.IdempotencyKeyReusedError()
+      );
+
+      const { success, output } = await runTool('checkout', {
+        notes: 'Second cart',
+      });
+
+      expect(success).toBe(true);
+      expect(output).toMatchObject({
+        success: false,
+        error: 'ALREADY_CHECKED_OUT',
+      });
+    });
+  });
+});
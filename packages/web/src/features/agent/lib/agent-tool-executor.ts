@@ -12,9 +12,18 @@
 
 import { ToolMessage } from '@langchain/core/messages';
 
+import type {
+  BudgetCheck,
+  Cart,
+  DeliveryLocation,
+  Item,
+} from '@/domain/entities';
+import { ItemStatus } from '@/domain/entities';
+import { BudgetExceededError } from '@/features/budgets/lib/budget.service';
 import * as cartService from '@/features/cart';
 import * as catalogService from '@/features/catalog';
 import * as checkoutService from '@/features/checkout';
+import * as deliveryLocationService from '@/features/delivery-locations';
 import { logger } from '@/lib/logger/winston.config';
 import {
   toolExecutionDuration,
@@ -49,6 +58,13 @@ export interface ExecuteToolParams {
   /** Conversation ID for logging */
   conversationId?: string;
 
+  /**
+   * Turn of the conversation the tool runs in; with the conversation ID it
+   * keys the checkout idempotently, so a retried checkout in the same turn
+   * returns the purchase request already created
+   */
+  turnId?: string;
+
   /** Timeout in milliseconds (default 5000) */
   timeout?: number;
 }
@@ -92,6 +108,7 @@ export async function executeTool(
     toolCallId,
     userId,
     conversationId,
+    turnId,
     timeout = DEFAULT_TIMEOUT_MS,
   } = params;
 
@@ -120,7 +137,11 @@ export async function executeTool(
 
     // 2. Execute with timeout
     const result = await Promise.race([
-      executeToolInternal(toolName, validatedArgs, userId, conversationId),
+      executeToolInternal(toolName, validatedArgs, {
+        userId,
+        conversationId,
+        turnId,
+      }),
       timeoutPromise(timeout),
     ]);
 
@@ -193,18 +214,30 @@ async function executeToolInternal(
   toolName: string,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   args: Record<string, any>,
-  userId?: string,
-  conversationId?: string
+  context: Pick<ExecuteToolParams, 'userId' | 'conversationId' | 'turnId'>
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
 ): Promise<any> {
+  const { userId, conversationId, turnId } = context;
   logger.debug('Executing tool', { toolName, args, userId, conversationId });
 
   switch (toolName) {
     case 'search_catalog': {
-      const items = await catalogService.searchItems({
+      const categories = [
+        ...(args.categories ?? []),
+        ...(args.category ? [args.category] : []),
+      ];
+      const { items, facets } = await catalogService.searchItemsWithFacets({
         q: args.query,
         limit: args.limit,
+        categories: categories.length > 0 ? categories : undefined,
+        supplierIds: args.suppliers,
+        units: args.units,
+        statuses: args.status,
+        minPrice: args.minPrice,
         maxPrice: args.maxPrice,
+        sort: args.sort,
+        // Users describe needs in their own words ("something to sit on")
+        mode: 'semantic',
       });
 
       logger.debug('Search catalog result', {
@@ -240,9 +273,90 @@ async function executeToolInternal(
               typeof item.estimatedPrice === 'number' ? item.estimatedPrice : 0,
             availability:
               item.status === 'active' ? 'in_stock' : 'out_of_stock',
+            supplierCount: item.supplierCount ?? 0,
           };
         }),
         count: items.length,
+        // Values to narrow the search with (suppliers by ID)
+        facets: {
+          categories: facets.categories,
+          suppliers: facets.suppliers.map(({ value, name, count }) => ({
+            id: value,
+            name,
+            count,
+          })),
+          units: facets.units,
+          statuses: facets.statuses,
+        },
+      };
+    }
+
+    case 'get_item_details': {
+      const item = /^[0-9a-fA-F]{24}$/.test(args.itemId)
+        ? await catalogService.getItemById(args.itemId)
+        : null;
+
+      if (!item) {
+        throw new Error(`Item not found: ${args.itemId}`);
+      }
+
+      return {
+        item: {
+          ...formatItem(item),
+          // Offers on the item (blocked suppliers included)
+          supplierCount: item.suppliers.length,
+          unit: item.unit,
+          preferredSupplier: item.preferredSupplier,
+          suppliers: item.suppliers.map((offer) => ({
+            supplierId: offer.supplierId,
+            unitPrice: offer.unitPrice,
+            supplierSku: offer.supplierSku,
+            leadTimeDays: offer.leadTimeDays,
+          })),
+          createdAt: item.createdAt,
+          updatedAt: item.updatedAt,
+        },
+      };
+    }
+
+    case 'register_item': {
+      let item: Item;
+      try {
+        item = await catalogService.createItem({
+          name: args.name,
+          category: args.category,
+          description: args.description,
+          estimatedPrice: args.estimatedPrice,
+          unit: args.unit,
+          createdByUserId: userId,
+          // Items registered through the agent always go to the review queue
+          requiresReview: true,
+        });
+      } catch (error) {
+        // Let the LLM offer the existing items instead of failing the tool
+        if (error instanceof catalogService.DuplicateItemError) {
+          return {
+            success: false,
+            error: 'DUPLICATE_ITEM',
+            message: error.message,
+            duplicates: error.duplicates.map(formatItem),
+          };
+        }
+        throw error;
+      }
+
+      logger.info('Item registered by agent', {
+        userId,
+        itemId: item.id,
+        name: item.name,
+      });
+
+      return {
+        success: true,
+        item: formatItem(item),
+        pendingReview: item.status === ItemStatus.PendingReview,
+        message:
+          'Item submitted for buyer review. It can be ordered once a buyer approves it.',
       };
     }
 
@@ -258,16 +372,7 @@ async function executeToolInternal(
 
       return {
         success: true,
-        cart: {
-          items: result.items.map((item) => ({
-            itemId: item.itemId,
-            itemName: item.name,
-            itemPrice: item.unitPrice,
-            quantity: item.quantity,
-          })),
-          totalCost: result.totalCost,
-          itemCount: result.items.length,
-        },
+        cart: formatCart(result),
       };
     }
 
@@ -285,16 +390,34 @@ async function executeToolInternal(
 
       return {
         success: true,
-        cart: {
-          items: result.items.map((item) => ({
-            itemId: item.itemId,
-            itemName: item.name,
-            itemPrice: item.unitPrice,
-            quantity: item.quantity,
-          })),
-          totalCost: result.totalCost,
-          itemCount: result.items.length,
-        },
+        cart: formatCart(result),
+      };
+    }
+
+    case 'update_cart_quantity': {
+      if (!userId) {
+        throw new Error('User must be authenticated to update cart');
+      }
+
+      // Quantity 0 removes the line
+      const result =
+        args.quantity === 0
+          ? await cartService.removeCartItem(userId, args.itemId)
+          : await cartService.updateCartItemQuantity(
+              userId,
+              args.itemId,
+              args.quantity
+            );
+
+      logger.info('Cart item quantity updated', {
+        userId,
+        itemId: args.itemId,
+        quantity: args.quantity,
+      });
+
+      return {
+        success: true,
+        cart: formatCart(result),
       };
     }
 
@@ -340,24 +463,166 @@ async function executeToolInternal(
       };
     }
 
+    case 'analyze_cart': {
+      if (!userId) {
+        throw new Error('User must be authenticated to analyze cart');
+      }
+
+      const analysis = await cartService.analyzeCart(userId);
+
+      if (analysis.uniqueItems === 0) {
+        return {
+          ...analysis,
+          message: 'Your cart is empty',
+        };
+      }
+
+      return analysis;
+    }
+
+    case 'reorder': {
+      if (!userId) {
+        throw new Error('User must be authenticated to reorder');
+      }
+
+      const result = await cartService.reorderPurchaseRequest(
+        userId,
+        args.purchaseRequest
+      );
+
+      return {
+        success: true,
+        cart: formatCart(result.cart),
+        added: result.added.map((line) => ({
+          itemId: line.itemId,
+          itemName: line.name,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          previousUnitPrice: line.previousUnitPrice,
+          priceChanged: line.unitPrice !== line.previousUnitPrice,
+        })),
+        skipped: result.skipped.map((line) => ({
+          itemName: line.name,
+          quantity: line.quantity,
+          reason: line.reason,
+        })),
+      };
+    }
+
     case 'checkout': {
       if (!userId) {
         throw new Error('User must be authenticated to checkout');
       }
 
-      const purchaseRequest = await checkoutService.checkoutCart(
-        userId,
-        args.notes
+      // Resolve delivery locations given by name or ID
+      const lineOverrides: {
+        itemId: string;
+        glCode?: string;
+        deliveryLocation?: string;
+        requestedDeliveryDate?: string;
+      }[] = args.lineOverrides ?? [];
+      const locationRefs = [
+        args.deliveryLocation,
+        ...lineOverrides.map((override) => override.deliveryLocation),
+      ].filter((ref): ref is string => Boolean(ref));
+      const locations =
+        locationRefs.length > 0
+          ? await deliveryLocationService.listDeliveryLocations()
+          : [];
+      const unknownLocation = locationRefs.find(
+        (ref) => !findDeliveryLocation(locations, ref)
       );
+      if (unknownLocation) {
+        return {
+          success: false,
+          error: 'UNKNOWN_DELIVERY_LOCATION',
+          message: `No delivery location matches "${unknownLocation}"`,
+          availableLocations: locations.map((location) => ({
+            name: location.name,
+            address: location.address,
+          })),
+        };
+      }
+      const locationId = (ref?: string) =>
+        ref ? findDeliveryLocation(locations, ref)?.id : undefined;
+
+      let checkout: checkoutService.CheckoutResult;
+      try {
+        checkout = await checkoutService.checkoutCart(userId, {
+          notes: args.notes,
+          confirmedTotal: args.confirmedTotal,
+          costCenter: args.costCenter,
+          glCode: args.glCode,
+          deliveryLocationId: locationId(args.deliveryLocation),
+          requestedDeliveryDate: args.requestedDeliveryDate,
+          lineOverrides: lineOverrides.map((override) => ({
+            itemId: override.itemId,
+            glCode: override.glCode,
+            deliveryLocationId: locationId(override.deliveryLocation),
+            requestedDeliveryDate: override.requestedDeliveryDate,
+          })),
+          idempotencyKey: getAgentCheckoutKey(conversationId, turnId),
+        });
+      } catch (error) {
+        // Cart changes need the user's confirmation of the new total
+        if (
+          error instanceof checkoutService.CheckoutConfirmationRequiredError
+        ) {
+          return {
+            success: false,
+            error: 'CONFIRMATION_REQUIRED',
+            message: error.message,
+            priceChanges: error.review.priceChanges.map((line) => ({
+              itemName: line.name,
+              quantity: line.quantity,
+              previousUnitPrice: line.cartUnitPrice,
+              unitPrice: line.currentUnitPrice,
+            })),
+            unavailable: error.review.unavailable.map((line) => ({
+              itemName: line.name,
+              quantity: line.quantity,
+              reason: line.reason,
+            })),
+            previousTotal: error.review.cartTotal,
+            total: error.review.total,
+          };
+        }
+        // The turn already created a purchase request with other details
+        if (error instanceof checkoutService.IdempotencyKeyReusedError) {
+          return {
+            success: false,
+            error: 'ALREADY_CHECKED_OUT',
+            message:
+              'A purchase request was already created in this turn with different details. Ask the user before checking out again.',
+          };
+        }
+        // Surface blocking budget checks to the LLM instead of failing the tool
+        if (error instanceof BudgetExceededError) {
+          return {
+            success: false,
+            error: 'BUDGET_EXCEEDED',
+            message: error.message,
+            budget: formatBudgetCheck(error.check),
+          };
+        }
+        throw error;
+      }
 
-      logger.info('Purchase request created', {
-        userId,
-        purchaseRequestId: purchaseRequest.id,
-        totalCost: purchaseRequest.total,
-      });
+      const { purchaseRequest, budgetCheck, replayed } = checkout;
+
+      logger.info(
+        replayed ? 'Purchase request replayed' : 'Purchase request created',
+        {
+          userId,
+          purchaseRequestId: purchaseRequest.id,
+          totalCost: purchaseRequest.total,
+        }
+      );
 
       return {
         success: true,
+        // Already created earlier in this turn (retried checkout)
+        replayed,
         purchaseRequest: {
           id: purchaseRequest.id,
           items: purchaseRequest.items.map((item) => ({
@@ -369,8 +634,17 @@ async function executeToolInternal(
           })),
           total: purchaseRequest.total,
           status: purchaseRequest.status,
+          costCenter: purchaseRequest.costCenter,
+          glCode: purchaseRequest.glCode,
+          deliveryLocation: purchaseRequest.deliveryLocation?.name,
+          requestedDeliveryDate: purchaseRequest.requestedDeliveryDate
+            ? checkoutService.formatDeliveryDate(
+                purchaseRequest.requestedDeliveryDate
+              )
+            : undefined,
           createdAt: purchaseRequest.createdAt,
         },
+        budget: budgetCheck ? formatBudgetCheck(budgetCheck) : null,
       };
     }
 
@@ -379,6 +653,81 @@ async function executeToolInternal(
   }
 }
 
+/**
+ * Idempotency key of the agent's checkout, derived from the conversation
+ * and turn (never from the LLM, which could reuse or reinvent keys)
+ */
+function getAgentCheckoutKey(
+  conversationId?: string,
+  turnId?: string
+): string | undefined {
+  return conversationId && turnId
+    ? `agent:${conversationId}:${turnId}`
+    : undefined;
+}
+
+/**
+ * Find an active delivery location by ID or case-insensitive name
+ */
+function findDeliveryLocation(
+  locations: DeliveryLocation[],
+  ref: string
+): DeliveryLocation | undefined {
+  const name = ref.trim().toLowerCase();
+  return locations.find(
+    (location) => location.id === ref || location.name.toLowerCase() === name
+  );
+}
+
+/**
+ * Summarize an item for tool output (same shape as search results)
+ */
+function formatItem(item: Item) {
+  return {
+    id: item.id,
+    name: item.name,
+    category: item.category,
+    description: item.description,
+    estimatedPrice:
+      typeof item.estimatedPrice === 'number' ? item.estimatedPrice : 0,
+    availability: item.status === 'active' ? 'in_stock' : 'out_of_stock',
+    supplierCount: item.supplierCount ?? 0,
+  };
+}
+
+/**
+ * Summarize a cart for tool output
+ */
+function formatCart(cart: Cart) {
+  return {
+    items: cart.items.map((item) => ({
+      itemId: item.itemId,
+      itemName: item.name,
+      itemPrice: item.unitPrice,
+      quantity: item.quantity,
+    })),
+    totalCost: cart.totalCost,
+    itemCount: cart.items.length,
+  };
+}
+
+/**
+ * Summarize a budget check for tool output
+ */
+function formatBudgetCheck(check: BudgetCheck) {
+  return {
+    name: check.budget.name,
+    costCenter: check.budget.costCenter,
+    amount: check.budget.amount,
+    committed: check.committed,
+    remaining: check.remaining,
+    remainingAfter: check.remainingAfter,
+    exceedsBudget: check.exceedsBudget,
+    blocked: check.blocked,
+    message: check.message,
+  };
+}
+
 /**
  * Create a promise that rejects after timeout
  */
@@ -21,7 +21,10 @@ import type {
   AgentItem,
   AgentMessage,
   AgentPurchaseRequest,
+  AgentStreamEvent,
 } from '@/features/agent/types';
+import type { Page, PageParams } from '@/lib/api/pagination';
+import { buildCursorFilter, toPage } from '@/lib/api/pagination';
 import { mapConversationToSummary } from '@/lib/db/mappers';
 import { AgentConversationModel } from '@/lib/db/models';
 import connectDB from '@/lib/db/mongoose';
@@ -46,6 +49,9 @@ export interface HandleAgentMessageParams {
 
   /** Existing conversation ID (optional, creates new if not provided) */
   conversationId?: string;
+
+  /** Progress listener for streaming (token deltas, tool calls) */
+  onEvent?: (event: AgentStreamEvent) => void;
 }
 
 export interface AgentResponseCart {
@@ -97,7 +103,7 @@ export async function handleAgentMessage(
   params: HandleAgentMessageParams
 ): Promise<AgentResponse> {
   const startTime = Date.now();
-  const { userId, message, conversationId } = params;
+  const { userId, message, conversationId, onEvent } = params;
 
   // Log incoming request
   logger.info('Agent request received', {
@@ -165,7 +171,10 @@ export async function handleAgentMessage(
       conversation,
       userId: userId?.toString() || 'anonymous',
       conversationId: conversation._id?.toString() || 'new',
+      // Position of the user message that started this turn
+      turnId: String(conversation.messages.length - 1),
       maxTokens: 3000,
+      onEvent,
     });
 
     logger.info('Orchestration completed', {
@@ -344,35 +353,50 @@ export async function handleAgentMessage(
 // ============================================================================
 
 /**
- * List conversations for a user (sorted by most recent)
+ * List conversations for a user (most recent first, cursor-paginated)
  *
  * @param userId - User ID
- * @param limit - Maximum number of conversations to return
- * @returns Array of conversation summaries
+ * @param page - Page cursor and size (default 10)
+ * @returns Page of conversation summaries
+ * @throws {InvalidCursorError} if the cursor is invalid
  */
 export async function listConversationsForUser(
   userId: string,
-  limit = 10
-): Promise<AgentConversationSummary[]> {
+  page: PageParams = {}
+): Promise<Page<AgentConversationSummary>> {
   await connectDB();
 
+  const { cursor, limit = 10 } = page;
+  const cursorFilter = buildCursorFilter(cursor, 'updatedAt', -1);
+
   try {
     // Check if userId is a valid ObjectId (24 character hex string)
     const isValidObjectId = /^[0-9a-fA-F]{24}$/.test(userId);
 
     if (!isValidObjectId) {
       // If userId is not a valid ObjectId (e.g., demo user with id "1"),
-      // return empty array instead of querying
-      return [];
+      // return an empty page instead of querying
+      return { items: [], nextCursor: null, hasMore: false };
     }
 
-    const conversations = await AgentConversationModel.find({ userId })
-      .sort({ updatedAt: -1 })
-      .limit(limit)
+    const conversations = await AgentConversationModel.find({
+      userId,
+      ...cursorFilter,
+    })
+      .sort({ updatedAt: -1, _id: -1 })
+      .limit(limit + 1)
       .lean()
       .exec();
 
-    return conversations.map(mapConversationToSummary);
+    return toPage(
+      conversations.map(mapConversationToSummary),
+      limit,
+      (conversation) => ({
+        field: 'updatedAt',
+        value: new Date(conversation.updatedAt),
+        id: conversation.id,
+      })
+    );
   } catch (error) {
     logger.error('Error listing conversations', { userId, error });
     throw new Error('Failed to list conversations');
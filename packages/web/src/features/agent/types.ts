@@ -19,6 +19,9 @@ export interface AgentItem
     'id' | 'name' | 'category' | 'description' | 'estimatedPrice'
   > {
   availability: 'in_stock' | 'out_of_stock' | 'limited';
+
+  /** Number of active suppliers offering the item */
+  supplierCount?: number;
 }
 
 /**
@@ -85,3 +88,24 @@ export interface AgentConversationSummary {
   lastMessagePreview: string;
   updatedAt: string; // ISO date
 }
+
+/**
+ * Server-Sent Event emitted by POST /api/agent/chat/stream
+ * - token: text delta from the model
+ * - tool_start / tool_end: a tool call began / finished
+ * - done: turn complete; message carries the final metadata
+ *   (items, cart, checkoutConfirmation, purchaseRequest)
+ * - error: turn failed; no further events follow
+ */
+export type AgentStreamEvent =
+  | { type: 'token'; delta: string }
+  | { type: 'tool_start'; toolCallId: string; name: string }
+  | {
+      type: 'tool_end';
+      toolCallId: string;
+      name: string;
+      durationMs: number;
+      success: boolean;
+    }
+  | { type: 'done'; conversationId: string; message: AgentMessage | null }
+  | { type: 'error'; message: string };
@@ -0,0 +1,171 @@
+/**
+ * Approval Inbox Page Content
+ *
+ * Lists purchase requests whose current approval step the
+ * authenticated user can act on
+ */
+
+'use client';
+
+import { ClipboardCheck, Loader2 } from 'lucide-react';
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { PurchaseRequest } from '@/domain/entities';
+
+export function ApprovalInboxPageContent() {
+  const [requests, setRequests] = useState<PurchaseRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadRequests = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/approvals');
+
+      if (!response.ok) {
+        throw new Error('Failed to load pending approvals');
+      }
+
+      const data = await response.json();
+      setRequests(data.data || []);
+    } catch (error) {
+      console.error('Error loading pending approvals:', error);
+      toast.error('Failed to load approvals', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <div className='space-y-6'>
+      {/* Header */}
+      <div>
+        <h2 className='text-3xl font-bold tracking-tight text-foreground'>
+          Approvals
+        </h2>
+        <p className='mt-2 text-muted-foreground'>
+          Purchase requests waiting for your decision
+        </p>
+      </div>
+
+      <Card className='py-2'>
+        <CardContent>
+          {isLoading ? (
+            <div className='flex items-center justify-center py-12'>
+              <Loader2 className='h-8 w-8 animate-spin text-muted-foreground' />
+            </div>
+          ) : requests.length === 0 ? (
+            <div className='flex flex-col items-center justify-center py-12'>
+              <ClipboardCheck className='h-12 w-12 text-muted-foreground' />
+              <p className='mt-4 text-center text-muted-foreground'>
+                You&apos;re all caught up. No requests are awaiting your
+                approval.
+              </p>
+            </div>
+          ) : (
+            <div className='overflow-x-auto -mx-3 sm:mx-0'>
+              <div className='inline-block min-w-full align-middle px-3 sm:px-0'>
+                <div className='rounded-md border'>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className='whitespace-nowrap'>
+                          Request
+                        </TableHead>
+                        <TableHead className='whitespace-nowrap'>
+                          Submitted
+                        </TableHead>
+                        <TableHead className='whitespace-nowrap'>
+                          Step
+                        </TableHead>
+                        <TableHead className='whitespace-nowrap'>
+                          Items
+                        </TableHead>
+                        <TableHead className='whitespace-nowrap'>
+                          Total
+                        </TableHead>
+                        <TableHead className='text-right whitespace-nowrap'>
+                          Actions
+                        </TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {requests.map((request) => {
+                        const step =
+                          request.currentApprovalStep !== undefined
+                            ? request.approvalSteps[request.currentApprovalStep]
+                            : undefined;
+
+                        return (
+                          <TableRow key={request.id}>
+                            <TableCell className='font-mono text-sm'>
+                              {request.requestNumber}
+                            </TableCell>
+                            <TableCell className='text-sm whitespace-nowrap'>
+                              {formatDate(request.createdAt)}
+                            </TableCell>
+                            <TableCell>
+                              {step && (
+                                <Badge variant='secondary'>{step.name}</Badge>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <span className='text-sm text-muted-foreground'>
+                                {request.items.length} item
+                                {request.items.length !== 1 ? 's' : ''}
+                              </span>
+                            </TableCell>
+                            <TableCell className='font-semibold'>
+                              ${request.total.toFixed(2)}
+                            </TableCell>
+                            <TableCell className='text-right'>
+                              <Button asChild variant='ghost' size='sm'>
+                                <Link href={`/purchase/${request.id}`}>
+                                  Review
+                                </Link>
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+/**
+ * Purchase Request Approval Panel
+ *
+ * Shows the approval chain and status history of a purchase request,
+ * plus approve / reject / return / resubmit actions with a comment.
+ */
+
+'use client';
+
+import {
+  CheckCircle2,
+  Circle,
+  Loader2,
+  RotateCcw,
+  Undo2,
+  XCircle,
+} from 'lucide-react';
+import { useSession } from 'next-auth/react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { ApprovalStep, PurchaseRequest } from '@/domain/entities';
+import { ApprovalStepStatus, PurchaseRequestStatus } from '@/domain/entities';
+
+type ApprovalEndpoint = 'approve' | 'reject' | 'return' | 'resubmit';
+
+interface PurchaseRequestApprovalPanelProps {
+  purchaseRequest: PurchaseRequest;
+  /** Whether the current user can decide the current step */
+  canAct: boolean;
+  /** Called with the updated request after a successful action */
+  onUpdated: (purchaseRequest: PurchaseRequest) => void;
+}
+
+const ACTION_LABELS: Record<ApprovalEndpoint, string> = {
+  approve: 'Approved',
+  reject: 'Rejected',
+  return: 'Returned for changes',
+  resubmit: 'Resubmitted',
+};
+
+function StepIcon({ step }: { step: ApprovalStep }) {
+  switch (step.status) {
+    case ApprovalStepStatus.Approved:
+      return <CheckCircle2 className='h-4 w-4 text-green-500' />;
+    case ApprovalStepStatus.Rejected:
+      return <XCircle className='h-4 w-4 text-destructive' />;
+    case ApprovalStepStatus.Returned:
+      return <Undo2 className='h-4 w-4 text-amber-500' />;
+    default:
+      return <Circle className='h-4 w-4 text-muted-foreground' />;
+  }
+}
+
+export function PurchaseRequestApprovalPanel({
+  purchaseRequest,
+  canAct,
+  onUpdated,
+}: PurchaseRequestApprovalPanelProps) {
+  const { data: session } = useSession();
+  const [comment, setComment] = useState('');
+  const [pendingAction, setPendingAction] = useState<ApprovalEndpoint | null>(
+    null
+  );
+
+  const isOwner = session?.user?.id === purchaseRequest.userId;
+  const canResubmit =
+    isOwner &&
+    purchaseRequest.status === PurchaseRequestStatus.ReturnedForChanges;
+
+  const formatDate = (date: Date) =>
+    new Date(date).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const handleAction = async (action: ApprovalEndpoint) => {
+    const requiresComment = action === 'reject' || action === 'return';
+    if (requiresComment && !comment.trim()) {
+      toast.error('Please add a comment explaining your decision');
+      return;
+    }
+
+    setPendingAction(action);
+    try {
+      const response = await fetch(
+        `/api/purchase/${purchaseRequest.id}/${action}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ comment: comment.trim() || undefined }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to update purchase request');
+      }
+
+      toast.success(ACTION_LABELS[action]);
+      setComment('');
+      onUpdated(data.data);
+    } catch (error) {
+      toast.error('Action failed', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  if (
+    purchaseRequest.approvalSteps.length === 0 &&
+    purchaseRequest.statusHistory.length === 0
+  ) {
+    return null;
+  }
+
+  return (
+    <div className='space-y-6'>
+      {/* Approval chain */}
+      {purchaseRequest.approvalSteps.length > 0 && (
+        <div>
+          <h3 className='mb-4 text-lg font-semibold'>Approval Chain</h3>
+          <ol className='space-y-3'>
+            {purchaseRequest.approvalSteps.map((step, index) => (
+              <li key={`${step.name}-${index}`} className='flex gap-3'>
+                <StepIcon step={step} />
+                <div className='flex-1 text-sm'>
+                  <div className='flex items-center gap-2'>
+                    <span className='font-medium'>{step.name}</span>
+                    {step.approverRole && (
+                      <Badge variant='outline' className='capitalize'>
+                        {step.approverRole}
+                      </Badge>
+                    )}
+                    {index === purchaseRequest.currentApprovalStep && (
+                      <Badge variant='secondary'>Current</Badge>
+                    )}
+                  </div>
+                  {step.decidedAt && (
+                    <p className='text-xs text-muted-foreground'>
+                      {step.status} on {formatDate(step.decidedAt)}
+                    </p>
+                  )}
+                  {step.comment && (
+                    <p className='mt-1 rounded-md bg-muted p-2 text-xs'>
+                      {step.comment}
+                    </p>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {/* Actions */}
+      {(canAct || canResubmit) && (
+        <div className='space-y-3 rounded-md border p-4'>
+          <Label htmlFor='approval-comment'>Comment</Label>
+          <Textarea
+            id='approval-comment'
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={
+              canAct
+                ? 'Required when rejecting or returning for changes'
+                : 'Describe the changes you made (optional)'
+            }
+            maxLength={1000}
+          />
+          <div className='flex flex-wrap gap-2'>
+            {canAct && (
+              <>
+                <Button
+                  onClick={() => handleAction('approve')}
+                  disabled={pendingAction !== null}
+                >
+                  {pendingAction === 'approve' ? (
+                    <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+                  ) : (
+                    <CheckCircle2 className='mr-2 h-4 w-4' />
+                  )}
+                  Approve
+                </Button>
+                <Button
+                  variant='outline'
+                  onClick={() => handleAction('return')}
+                  disabled={pendingAction !== null}
+                >
+                  <Undo2 className='mr-2 h-4 w-4' />
+                  Return for Changes
+                </Button>
+                <Button
+                  variant='destructive'
+                  onClick={() => handleAction('reject')}
+                  disabled={pendingAction !== null}
+                >
+                  <XCircle className='mr-2 h-4 w-4' />
+                  Reject
+                </Button>
+              </>
+            )}
+            {canResubmit && (
+              <Button
+                onClick={() => handleAction('resubmit')}
+                disabled={pendingAction !== null}
+              >
+                {pendingAction === 'resubmit' ? (
+                  <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+                ) : (
+                  <RotateCcw className='mr-2 h-4 w-4' />
+                )}
+                Resubmit
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Status history */}
+      {purchaseRequest.statusHistory.length > 0 && (
+        <div>
+          <h3 className='mb-4 text-lg font-semibold'>History</h3>
+          <ul className='space-y-2 text-sm'>
+            {[...purchaseRequest.statusHistory].reverse().map((entry, i) => (
+              <li
+                key={`${entry.action}-${i}`}
+                className='flex flex-col border-l-2 pl-3'
+              >
+                <span>
+                  <span className='font-medium capitalize'>
+                    {entry.action.replace(/_/g, ' ')}
+                  </span>
+                  {entry.stepName && (
+                    <span className='text-muted-foreground'>
+                      {' '}
+                      · {entry.stepName}
+                    </span>
+                  )}
+                  <span className='text-muted-foreground'>
+                    {' '}
+                    → {entry.toStatus.replace(/_/g, ' ')}
+                  </span>
+                </span>
+                <span className='text-xs text-muted-foreground'>
+                  {formatDate(entry.changedAt)}
+                </span>
+                {entry.comment && (
+                  <span className='mt-1 text-xs italic'>“{entry.comment}”</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
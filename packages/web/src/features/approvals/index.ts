@@ -0,0 +1,9 @@
+/**
+ * Approvals Feature
+ * Multi-step approval workflow for purchase requests
+ */
+
+export * from './lib/approval-workflow';
+export * from './lib/approval.service';
+export { ApprovalInboxPageContent } from './components/ApprovalInboxPageContent';
+export { PurchaseRequestApprovalPanel } from './components/PurchaseRequestApprovalPanel';
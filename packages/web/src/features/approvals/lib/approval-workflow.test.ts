@@ -0,0 +1,244 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  ApprovalAction,
+  ApprovalStepStatus,
+  PurchaseRequestStatus,
+} from '@/domain/entities';
+
+import {
+  applyApprovalAction,
+  canUserActOnRequest,
+  DEFAULT_APPROVAL_RULES,
+  InvalidApprovalTransitionError,
+  resolveApprovalChain,
+  startApproval,
+  type ApprovalRuleDefinition,
+} from './approval-workflow';
+
+const REQUESTER_ID = '507f1f77bcf86cd799439011';
+const BUYER_ID = '507f1f77bcf86cd799439012';
+const ADMIN_ID = '507f1f77bcf86cd799439013';
+
+const officeItems = [{ itemCategory: 'Office Supplies' }];
+
+describe('approval-workflow', () => {
+  describe('resolveApprovalChain', () => {
+    it('should apply only buyer review below the admin threshold', () => {
+      const steps = resolveApprovalChain(
+        officeItems,
+        100,
+        DEFAULT_APPROVAL_RULES
+      );
+
+      expect(steps.map((step) => step.name)).toEqual(['Buyer review']);
+      expect(steps[0].status).toBe(ApprovalStepStatus.Pending);
+    });
+
+    it('should chain admin approval at or above the threshold', () => {
+      const steps = resolveApprovalChain(
+        officeItems,
+        5000,
+        DEFAULT_APPROVAL_RULES
+      );
+
+      expect(steps.map((step) => step.name)).toEqual([
+        'Buyer review',
+        'Admin approval',
+      ]);
+    });
+
+    it('should match category rules case-insensitively', () => {
+      const rules: ApprovalRuleDefinition[] = [
+        {
+          name: 'IT review',
+          categories: ['electronics'],
+          steps: [
+            { name: 'IT review', approverRole: 'admin', approverIds: [] },
+          ],
+          priority: 5,
+        },
+      ];
+
+      expect(
+        resolveApprovalChain([{ itemCategory: 'Electronics' }], 10, rules)
+      ).toHaveLength(1);
+      expect(resolveApprovalChain(officeItems, 10, rules)).toHaveLength(0);
+    });
+
+    it('should order steps by rule priority and respect maxTotal', () => {
+      const rules: ApprovalRuleDefinition[] = [
+        {
+          name: 'Second',
+          categories: [],
+          steps: [{ name: 'Second', approverRole: 'admin', approverIds: [] }],
+          priority: 20,
+        },
+        {
+          name: 'First',
+          maxTotal: 1000,
+          categories: [],
+          steps: [{ name: 'First', approverRole: 'buyer', approverIds: [] }],
+          priority: 10,
+        },
+      ];
+
+      expect(
+        resolveApprovalChain(officeItems, 500, rules).map((s) => s.name)
+      ).toEqual(['First', 'Second']);
+      expect(
+        resolveApprovalChain(officeItems, 1000, rules).map((s) => s.name)
+      ).toEqual(['Second']);
+    });
+  });
+
+  describe('state machine', () => {
+    const twoStepChain = () =>
+      resolveApprovalChain(officeItems, 6000, DEFAULT_APPROVAL_RULES);
+
+    it('should auto-approve requests without an approval chain', () => {
+      const state = startApproval([], REQUESTER_ID);
+
+      expect(state.status).toBe(PurchaseRequestStatus.Approved);
+      expect(state.currentApprovalStep).toBeUndefined();
+      expect(state.statusHistory).toHaveLength(1);
+      expect(state.statusHistory[0].action).toBe(ApprovalAction.Submit);
+    });
+
+    it('should advance through each step and finish as approved', () => {
+      let state = startApproval(twoStepChain(), REQUESTER_ID);
+      expect(state.status).toBe(PurchaseRequestStatus.PendingApproval);
+      expect(state.currentApprovalStep).toBe(0);
+
+      state = applyApprovalAction(state, {
+        action: ApprovalAction.Approve,
+        actorUserId: BUYER_ID,
+        comment: 'Looks good',
+      });
+      expect(state.status).toBe(PurchaseRequestStatus.PendingApproval);
+      expect(state.currentApprovalStep).toBe(1);
+      expect(state.approvalSteps[0].status).toBe(ApprovalStepStatus.Approved);
+      expect(state.approvalSteps[0].comment).toBe('Looks good');
+
+      state = applyApprovalAction(state, {
+        action: ApprovalAction.Approve,
+        actorUserId: ADMIN_ID,
+      });
+      expect(state.status).toBe(PurchaseRequestStatus.Approved);
+      expect(state.currentApprovalStep).toBeUndefined();
+      expect(state.statusHistory.map((entry) => entry.toStatus)).toEqual([
+        PurchaseRequestStatus.PendingApproval,
+        PurchaseRequestStatus.PendingApproval,
+        PurchaseRequestStatus.Approved,
+      ]);
+    });
+
+    it('should reject and stop the chain', () => {
+      const state = applyApprovalAction(
+        startApproval(twoStepChain(), REQUESTER_ID),
+        {
+          action: ApprovalAction.Reject,
+          actorUserId: BUYER_ID,
+          comment: 'Not budgeted',
+        }
+      );
+
+      expect(state.status).toBe(PurchaseRequestStatus.Rejected);
+      expect(state.approvalSteps[0].status).toBe(ApprovalStepStatus.Rejected);
+      expect(state.statusHistory.at(-1)).toMatchObject({
+        fromStatus: PurchaseRequestStatus.PendingApproval,
+        toStatus: PurchaseRequestStatus.Rejected,
+        stepName: 'Buyer review',
+        comment: 'Not budgeted',
+      });
+      expect(() =>
+        applyApprovalAction(state, {
+          action: ApprovalAction.Approve,
+          actorUserId: BUYER_ID,
+        })
+      ).toThrow(InvalidApprovalTransitionError);
+    });
+
+    it('should restart the chain when a returned request is resubmitted', () => {
+      let state = startApproval(twoStepChain(), REQUESTER_ID);
+      state = applyApprovalAction(state, {
+        action: ApprovalAction.Approve,
+        actorUserId: BUYER_ID,
+      });
+      state = applyApprovalAction(state, {
+        action: ApprovalAction.ReturnForChanges,
+        actorUserId: ADMIN_ID,
+        comment: 'Add justification',
+      });
+      expect(state.status).toBe(PurchaseRequestStatus.ReturnedForChanges);
+
+      state = applyApprovalAction(state, {
+        action: ApprovalAction.Resubmit,
+        actorUserId: REQUESTER_ID,
+      });
+      expect(state.status).toBe(PurchaseRequestStatus.PendingApproval);
+      expect(state.currentApprovalStep).toBe(0);
+      expect(
+        state.approvalSteps.every(
+          (step) => step.status === ApprovalStepStatus.Pending
+        )
+      ).toBe(true);
+      expect(state.statusHistory).toHaveLength(4);
+    });
+
+    it('should not mutate the previous state', () => {
+      const initial = startApproval(twoStepChain(), REQUESTER_ID);
+      applyApprovalAction(initial, {
+        action: ApprovalAction.Approve,
+        actorUserId: BUYER_ID,
+      });
+
+      expect(initial.approvalSteps[0].status).toBe(ApprovalStepStatus.Pending);
+      expect(initial.statusHistory).toHaveLength(1);
+    });
+  });
+
+  describe('canUserActOnRequest', () => {
+    const request = () => ({
+      userId: REQUESTER_ID,
+      ...startApproval(
+        resolveApprovalChain(officeItems, 100, DEFAULT_APPROVAL_RULES),
+        REQUESTER_ID
+      ),
+    });
+
+    it('should allow users with the step role', () => {
+      expect(
+        canUserActOnRequest(request(), { id: BUYER_ID, role: 'buyer' })
+      ).toBe(true);
+    });
+
+    it('should allow admins on any step', () => {
+      expect(
+        canUserActOnRequest(request(), { id: ADMIN_ID, role: 'admin' })
+      ).toBe(true);
+    });
+
+    it('should not allow other roles or the requester', () => {
+      expect(
+        canUserActOnRequest(request(), { id: BUYER_ID, role: 'requester' })
+      ).toBe(false);
+      expect(
+        canUserActOnRequest(request(), { id: REQUESTER_ID, role: 'admin' })
+      ).toBe(false);
+    });
+
+    it('should allow explicitly assigned approvers', () => {
+      const state = request();
+      state.approvalSteps[0] = {
+        ...state.approvalSteps[0],
+        approverRole: undefined,
+        approverIds: [BUYER_ID],
+      };
+
+      expect(
+        canUserActOnRequest(state, { id: BUYER_ID, role: 'requester' })
+      ).toBe(true);
+    });
+  });
+});
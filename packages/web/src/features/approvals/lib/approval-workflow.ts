@@ -0,0 +1,369 @@
+/**
+ * Approval Workflow Engine
+ *
+ * Pure state-machine logic for multi-step purchase request approvals:
+ * - Resolve the approval chain from configured rules
+ * - Apply approve / reject / return-for-changes / resubmit transitions
+ * - Decide whether a user may act on the current step
+ *
+ * Kept free of database access so it can be unit tested and reused by
+ * both the checkout flow and the approval API routes.
+ */
+
+import type {
+  ApprovalRule,
+  ApprovalStep,
+  PurchaseRequestItem,
+  PurchaseRequestStatusChange,
+  User,
+} from '@/domain/entities';
+import {
+  ApprovalAction,
+  ApprovalStepStatus,
+  PurchaseRequestStatus,
+} from '@/domain/entities';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Minimal approval rule shape needed for chain resolution
+ * (persisted rules and built-in defaults both satisfy it)
+ */
+export type ApprovalRuleDefinition = Pick<
+  ApprovalRule,
+  'name' | 'minTotal' | 'maxTotal' | 'categories' | 'steps' | 'priority'
+>;
+
+/**
+ * Approval state stored on a purchase request
+ */
+export interface ApprovalState {
+  status: PurchaseRequestStatus;
+  approvalSteps: ApprovalStep[];
+  currentApprovalStep?: number;
+  statusHistory: PurchaseRequestStatusChange[];
+}
+
+/**
+ * Input for a workflow transition
+ */
+export interface ApprovalTransitionInput {
+  action: ApprovalAction;
+  actorUserId: string;
+  comment?: string;
+  at?: Date;
+}
+
+/**
+ * Acting user for permission checks
+ */
+export type ApprovalActor = Pick<User, 'id' | 'role'>;
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export class InvalidApprovalTransitionError extends Error {
+  constructor(
+    public readonly fromStatus: PurchaseRequestStatus,
+    public readonly action: ApprovalAction
+  ) {
+    super(
+      `Cannot ${action.replace(/_/g, ' ')} a request that is ${fromStatus}`
+    );
+    this.name = 'InvalidApprovalTransitionError';
+  }
+}
+
+// ============================================================================
+// Default Rules
+// ============================================================================
+
+/**
+ * Threshold above which a purchase request needs admin sign-off
+ * when no approval rules are configured in the database
+ */
+export const DEFAULT_ADMIN_APPROVAL_THRESHOLD = 5000;
+
+/**
+ * Built-in approval rules used when the approval_rules collection is empty
+ * - Every request is reviewed by a buyer
+ * - High value requests additionally need an admin
+ */
+export const DEFAULT_APPROVAL_RULES: ApprovalRuleDefinition[] = [
+  {
+    name: 'Buyer review',
+    categories: [],
+    steps: [{ name: 'Buyer review', approverRole: 'buyer', approverIds: [] }],
+    priority: 10,
+  },
+  {
+    name: 'High value purchases',
+    minTotal: DEFAULT_ADMIN_APPROVAL_THRESHOLD,
+    categories: [],
+    steps: [{ name: 'Admin approval', approverRole: 'admin', approverIds: [] }],
+    priority: 20,
+  },
+];
+
+// ============================================================================
+// Chain Resolution
+// ============================================================================
+
+/**
+ * Check whether a rule applies to a request
+ * - Total must be within [minTotal, maxTotal)
+ * - If the rule lists categories, at least one line item must match (case-insensitive)
+ */
+export function ruleMatches(
+  rule: ApprovalRuleDefinition,
+  items: Pick<PurchaseRequestItem, 'itemCategory'>[],
+  total: number
+): boolean {
+  if (rule.minTotal !== undefined && total < rule.minTotal) {
+    return false;
+  }
+  if (rule.maxTotal !== undefined && total >= rule.maxTotal) {
+    return false;
+  }
+  if (rule.categories.length > 0) {
+    const ruleCategories = new Set(
+      rule.categories.map((category) => category.trim().toLowerCase())
+    );
+    return items.some((item) =>
+      ruleCategories.has(item.itemCategory.trim().toLowerCase())
+    );
+  }
+  return true;
+}
+
+/**
+ * Resolve the ordered approval chain for a request
+ * Steps from all matching rules are concatenated in priority order.
+ *
+ * @returns Fresh pending steps (empty when no rule matches)
+ */
+export function resolveApprovalChain(
+  items: Pick<PurchaseRequestItem, 'itemCategory'>[],
+  total: number,
+  rules: ApprovalRuleDefinition[]
+): ApprovalStep[] {
+  return [...rules]
+    .sort((a, b) => a.priority - b.priority)
+    .filter((rule) => ruleMatches(rule, items, total))
+    .flatMap((rule) =>
+      rule.steps.map((step) => ({
+        name: step.name,
+        approverRole: step.approverRole,
+        approverIds: [...step.approverIds],
+        status: ApprovalStepStatus.Pending,
+      }))
+    );
+}
+
+// ============================================================================
+// State Machine
+// ============================================================================
+
+/**
+ * Build the initial approval state for a newly submitted request
+ * Requests without an approval chain are auto-approved.
+ */
+export function startApproval(
+  steps: ApprovalStep[],
+  actorUserId: string,
+  at: Date = new Date()
+): ApprovalState {
+  const toStatus =
+    steps.length > 0
+      ? PurchaseRequestStatus.PendingApproval
+      : PurchaseRequestStatus.Approved;
+
+  return {
+    status: toStatus,
+    approvalSteps: steps,
+    currentApprovalStep: steps.length > 0 ? 0 : undefined,
+    statusHistory: [
+      {
+        toStatus,
+        action: ApprovalAction.Submit,
+        actorUserId,
+        changedAt: at,
+      },
+    ],
+  };
+}
+
+/**
+ * Actions allowed from each status
+ */
+const ALLOWED_ACTIONS: Record<PurchaseRequestStatus, ApprovalAction[]> = {
+  [PurchaseRequestStatus.Submitted]: [],
+  [PurchaseRequestStatus.PendingApproval]: [
+    ApprovalAction.Approve,
+    ApprovalAction.Reject,
+    ApprovalAction.ReturnForChanges,
+  ],
+  [PurchaseRequestStatus.ReturnedForChanges]: [ApprovalAction.Resubmit],
+  [PurchaseRequestStatus.Approved]: [],
+  [PurchaseRequestStatus.Rejected]: [],
+};
+
+/**
+ * Check whether an action is valid from a given status
+ */
+export function canTransition(
+  status: PurchaseRequestStatus,
+  action: ApprovalAction
+): boolean {
+  return ALLOWED_ACTIONS[status]?.includes(action) ?? false;
+}
+
+/**
+ * Apply a workflow action and return the next approval state
+ * Does not mutate the input state.
+ *
+ * @throws {InvalidApprovalTransitionError} if the action is not allowed
+ */
+export function applyApprovalAction(
+  state: ApprovalState,
+  input: ApprovalTransitionInput
+): ApprovalState {
+  const { action, actorUserId, comment } = input;
+  const at = input.at ?? new Date();
+
+  if (!canTransition(state.status, action)) {
+    throw new InvalidApprovalTransitionError(state.status, action);
+  }
+
+  const steps = state.approvalSteps.map((step) => ({ ...step }));
+  const stepIndex = state.currentApprovalStep;
+  const currentStep = stepIndex !== undefined ? steps[stepIndex] : undefined;
+
+  let nextStatus: PurchaseRequestStatus;
+  let nextStepIndex: number | undefined;
+
+  switch (action) {
+    case ApprovalAction.Approve: {
+      if (!currentStep || stepIndex === undefined) {
+        throw new InvalidApprovalTransitionError(state.status, action);
+      }
+      Object.assign(currentStep, {
+        status: ApprovalStepStatus.Approved,
+        decidedByUserId: actorUserId,
+        decidedAt: at,
+        comment,
+      });
+      const isLastStep = stepIndex >= steps.length - 1;
+      nextStatus = isLastStep
+        ? PurchaseRequestStatus.Approved
+        : PurchaseRequestStatus.PendingApproval;
+      nextStepIndex = isLastStep ? undefined : stepIndex + 1;
+      break;
+    }
+
+    case ApprovalAction.Reject:
+    case ApprovalAction.ReturnForChanges: {
+      if (!currentStep) {
+        throw new InvalidApprovalTransitionError(state.status, action);
+      }
+      const isReject = action === ApprovalAction.Reject;
+      Object.assign(currentStep, {
+        status: isReject
+          ? ApprovalStepStatus.Rejected
+          : ApprovalStepStatus.Returned,
+        decidedByUserId: actorUserId,
+        decidedAt: at,
+        comment,
+      });
+      nextStatus = isReject
+        ? PurchaseRequestStatus.Rejected
+        : PurchaseRequestStatus.ReturnedForChanges;
+      nextStepIndex = isReject ? undefined : stepIndex;
+      break;
+    }
+
+    case ApprovalAction.Resubmit: {
+      // Restart the chain from the first step
+      for (const step of steps) {
+        step.status = ApprovalStepStatus.Pending;
+        step.decidedByUserId = undefined;
+        step.decidedAt = undefined;
+        step.comment = undefined;
+      }
+      nextStatus =
+        steps.length > 0
+          ? PurchaseRequestStatus.PendingApproval
+          : PurchaseRequestStatus.Approved;
+      nextStepIndex = steps.length > 0 ? 0 : undefined;
+      break;
+    }
+
+    default:
+      throw new InvalidApprovalTransitionError(state.status, action);
+  }
+
+  return {
+    status: nextStatus,
+    approvalSteps: steps,
+    currentApprovalStep: nextStepIndex,
+    statusHistory: [
+      ...state.statusHistory,
+      {
+        fromStatus: state.status,
+        toStatus: nextStatus,
+        action,
+        actorUserId,
+        stepName: currentStep?.name,
+        comment,
+        changedAt: at,
+      },
+    ],
+  };
+}
+
+// ============================================================================
+// Permissions
+// ============================================================================
+
+/**
+ * Check whether a user may act on a specific approval step
+ * - Explicitly assigned approvers always may
+ * - Otherwise the user's role must match the step's approver role
+ * - Admins may act on any step
+ */
+export function isApproverForStep(
+  step: ApprovalStep,
+  actor: ApprovalActor
+): boolean {
+  if (step.approverIds.includes(actor.id)) {
+    return true;
+  }
+  if (actor.role === 'admin') {
+    return true;
+  }
+  return !!step.approverRole && step.approverRole === actor.role;
+}
+
+/**
+ * Check whether a user may decide the request's current step
+ * Requesters can never approve their own requests.
+ */
+export function canUserActOnRequest(
+  request: ApprovalState & { userId: string },
+  actor: ApprovalActor
+): boolean {
+  if (request.status !== PurchaseRequestStatus.PendingApproval) {
+    return false;
+  }
+  if (request.userId === actor.id) {
+    return false;
+  }
+  const step =
+    request.currentApprovalStep !== undefined
+      ? request.approvalSteps[request.currentApprovalStep]
+      : undefined;
+  return !!step && isApproverForStep(step, actor);
+}
@@ -0,0 +1,141 @@
+import { Types } from 'mongoose';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { PurchaseRequestDocument } from '@/domain/documents';
+import {
+  ApprovalAction,
+  ApprovalStepStatus,
+  PurchaseRequestStatus,
+} from '@/domain/entities';
+import { PurchaseRequestModel, UserModel } from '@/lib/db/models';
+
+import { InvalidApprovalTransitionError } from './approval-workflow';
+import { approvePurchaseRequest } from './approval.service';
+
+vi.mock('@/lib/db/mongoose', () => ({ default: vi.fn() }));
+vi.mock('@/features/webhooks/lib/webhook.service', () => ({
+  publishWebhookEvent: vi.fn(),
+}));
+vi.mock('@/features/purchase-orders/lib/purchase-order.service', () => ({
+  issuePurchaseOrdersOnApproval: vi.fn(),
+}));
+vi.mock('@/features/erp/lib/erp.service', () => ({
+  enqueueErpSubmission: vi.fn(),
+}));
+
+/**
+ * Approval Service Tests
+ *
+ * Models are mocked; findOneAndUpdate applies its filter to an in-memory
+ * request so concurrent decisions can be replayed one after the other.
+ */
+
+const REQUEST_ID = '507f1f77bcf86cd799439011';
+const REQUESTER_ID = '507f1f77bcf86cd799439012';
+const FIRST_BUYER_ID = '507f1f77bcf86cd799439013';
+const SECOND_BUYER_ID = '507f1f77bcf86cd799439014';
+
+function buildPendingRequest(): PurchaseRequestDocument {
+  return {
+    _id: new Types.ObjectId(REQUEST_ID),
+    userId: new Types.ObjectId(REQUESTER_ID),
+    requestNumber: 'PR-2024-0009',
+    items: [],
+    total: 1299.99,
+    source: 'ui',
+    status: PurchaseRequestStatus.PendingApproval,
+    approvalSteps: [
+      {
+        name: 'Buyer review',
+        approverRole: 'buyer',
+        approverIds: [],
+        status: ApprovalStepStatus.Pending,
+      },
+      {
+        name: 'Finance review',
+        approverRole: 'admin',
+        approverIds: [],
+        status: ApprovalStepStatus.Pending,
+      },
+    ],
+    currentApprovalStep: 0,
+    statusHistory: [
+      {
+        toStatus: PurchaseRequestStatus.PendingApproval,
+        action: ApprovalAction.Submit,
+        actorUserId: new Types.ObjectId(REQUESTER_ID),
+        changedAt: new Date('2024-01-15T10:00:00Z'),
+      },
+    ],
+    createdAt: new Date('2024-01-15'),
+    updatedAt: new Date('2024-01-15'),
+  };
+}
+
+/**
+ * Keep the request in memory and apply guarded updates to it
+ * Every read returns the request as it was before any decision, as when
+ * both approvers opened it at the same time.
+ */
+function mockStoredRequest() {
+  let stored = buildPendingRequest();
+
+  vi.spyOn(PurchaseRequestModel, 'findById').mockImplementation(
+    () =>
+      ({
+        lean: () => ({ exec: async () => buildPendingRequest() }),
+      }) as never
+  );
+
+  vi.spyOn(PurchaseRequestModel, 'findOneAndUpdate').mockImplementation(((
+    filter: Record<string, unknown>,
+    update: { $set: Partial<PurchaseRequestDocument> }
+  ) => {
+    const historyGuard = Object.keys(filter).find((key) =>
+      key.startsWith('statusHistory.')
+    );
+    const matches =
+      filter.status === stored.status &&
+      (!('currentApprovalStep' in filter) ||
+        filter.currentApprovalStep === (stored.currentApprovalStep ?? null)) &&
+      (!historyGuard ||
+        stored.statusHistory!.length <= Number(historyGuard.split('.')[1]));
+
+    if (matches) {
+      stored = { ...stored, ...update.$set } as PurchaseRequestDocument;
+    }
+    const result = matches ? stored : null;
+    return { lean: () => ({ exec: async () => result }) };
+  }) as never);
+
+  return () => stored;
+}
+
+describe('approval.service', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(UserModel, 'findById').mockReturnValue({
+      select: () => ({
+        lean: () => ({ exec: async () => ({ role: 'buyer' }) }),
+      }),
+    } as never);
+  });
+
+  describe('approvePurchaseRequest', () => {
+    it('should apply only one of two decisions on the same step', async () => {
+      const getStored = mockStoredRequest();
+
+      const first = await approvePurchaseRequest(FIRST_BUYER_ID, REQUEST_ID);
+
+      expect(first.currentApprovalStep).toBe(1);
+      await expect(
+        approvePurchaseRequest(SECOND_BUYER_ID, REQUEST_ID)
+      ).rejects.toBeInstanceOf(InvalidApprovalTransitionError);
+
+      const stored = getStored();
+      expect(stored.currentApprovalStep).toBe(1);
+      expect(stored.statusHistory).toHaveLength(2);
+      expect(stored.approvalSteps![0].decidedByUserId).toBe(FIRST_BUYER_ID);
+    });
+  });
+});
@@ -0,0 +1,488 @@
+/**
+ * Approval Service
+ *
+ * Business logic for multi-step purchase request approvals:
+ * - Resolve approval chains from configured rules at checkout
+ * - Approve, reject, or return requests for changes (with comments)
+ * - Resubmit returned requests
+ * - Approver inbox of requests awaiting the user's decision
+ * - Issue purchase orders and queue the ERP submission once the final
+ *   step is approved
+ * - Publish the purchase_request.status_changed webhook event
+ *
+ * State transitions are delegated to the pure approval workflow engine;
+ * this service handles persistence and authorization.
+ */
+
+import { Types } from 'mongoose';
+
+import type { PurchaseRequestDocument } from '@/domain/documents';
+import type { PurchaseRequest, PurchaseRequestItem } from '@/domain/entities';
+import {
+  ApprovalAction,
+  PurchaseRequestStatus,
+  WebhookEventType,
+} from '@/domain/entities';
+import { enqueueErpSubmission } from '@/features/erp/lib/erp.service';
+import { issuePurchaseOrdersOnApproval } from '@/features/purchase-orders/lib/purchase-order.service';
+import { publishWebhookEvent } from '@/features/webhooks/lib/webhook.service';
+import {
+  mapApprovalRuleToEntity,
+  mapPurchaseRequestToEntity,
+} from '@/lib/db/mappers';
+import {
+  ApprovalRuleModel,
+  PurchaseRequestModel,
+  UserModel,
+} from '@/lib/db/models';
+import connectDB from '@/lib/db/mongoose';
+import { logger } from '@/lib/logger/winston.config';
+
+import {
+  applyApprovalAction,
+  canUserActOnRequest,
+  DEFAULT_APPROVAL_RULES,
+  InvalidApprovalTransitionError,
+  isApproverForStep,
+  resolveApprovalChain,
+  startApproval,
+  type ApprovalActor,
+  type ApprovalRuleDefinition,
+  type ApprovalState,
+} from './approval-workflow';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Purchase request as seen by a reviewer
+ */
+export interface PurchaseRequestReview {
+  request: PurchaseRequest;
+
+  /** Whether the viewing user can decide the current step */
+  canAct: boolean;
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+export class PurchaseRequestNotFoundError extends Error {
+  constructor(requestId: string) {
+    super(`Purchase request not found: ${requestId}`);
+    this.name = 'PurchaseRequestNotFoundError';
+  }
+}
+
+export class ApprovalPermissionError extends Error {
+  constructor(message = 'You are not allowed to act on this approval step') {
+    super(message);
+    this.name = 'ApprovalPermissionError';
+  }
+}
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+/**
+ * Load active approval rules, falling back to built-in defaults
+ * when none have been configured.
+ */
+export async function getActiveApprovalRules(): Promise<
+  ApprovalRuleDefinition[]
+> {
+  await connectDB();
+
+  try {
+    const rules = await ApprovalRuleModel.find({ isActive: true })
+      .sort({ priority: 1 })
+      .lean()
+      .exec();
+
+    if (rules.length === 0) {
+      return DEFAULT_APPROVAL_RULES;
+    }
+
+    return rules.map(mapApprovalRuleToEntity);
+  } catch (error) {
+    logger.error('Error loading approval rules', { error });
+    throw new Error('Failed to load approval rules');
+  }
+}
+
+/**
+ * Build the initial approval state for a request being submitted
+ * Used by checkout to persist the resolved chain alongside the request.
+ *
+ * @param items - Request line items (only category is used)
+ * @param total - Request total
+ * @param userId - Submitting user
+ */
+export async function buildInitialApprovalState(
+  items: Pick<PurchaseRequestItem, 'itemCategory'>[],
+  total: number,
+  userId: string | Types.ObjectId
+): Promise<ApprovalState> {
+  const rules = await getActiveApprovalRules();
+  const steps = resolveApprovalChain(items, total, rules);
+  return startApproval(steps, userId.toString());
+}
+
+/**
+ * Approve the current step of a purchase request
+ *
+ * @param userId - Approver user ID
+ * @param requestId - Purchase request ID
+ * @param comment - Optional approval comment
+ */
+export async function approvePurchaseRequest(
+  userId: string | Types.ObjectId,
+  requestId: string,
+  comment?: string
+): Promise<PurchaseRequest> {
+  return decidePurchaseRequest(
+    userId,
+    requestId,
+    ApprovalAction.Approve,
+    comment
+  );
+}
+
+/**
+ * Reject a purchase request at its current step
+ * A comment explaining the rejection is required.
+ */
+export async function rejectPurchaseRequest(
+  userId: string | Types.ObjectId,
+  requestId: string,
+  comment: string
+): Promise<PurchaseRequest> {
+  if (!comment || comment.trim().length === 0) {
+    throw new ValidationError('A comment is required when rejecting');
+  }
+  return decidePurchaseRequest(
+    userId,
+    requestId,
+    ApprovalAction.Reject,
+    comment
+  );
+}
+
+/**
+ * Return a purchase request to the requester for changes
+ * A comment describing the requested changes is required.
+ */
+export async function returnPurchaseRequestForChanges(
+  userId: string | Types.ObjectId,
+  requestId: string,
+  comment: string
+): Promise<PurchaseRequest> {
+  if (!comment || comment.trim().length === 0) {
+    throw new ValidationError(
+      'A comment is required when returning a request for changes'
+    );
+  }
+  return decidePurchaseRequest(
+    userId,
+    requestId,
+    ApprovalAction.ReturnForChanges,
+    comment
+  );
+}
+
+/**
+ * Resubmit a returned purchase request (owner only)
+ * Restarts the approval chain from the first step.
+ *
+ * @param userId - Request owner
+ * @param requestId - Purchase request ID
+ * @param comment - Optional note describing the changes
+ */
+export async function resubmitPurchaseRequest(
+  userId: string | Types.ObjectId,
+  requestId: string,
+  comment?: string
+): Promise<PurchaseRequest> {
+  await connectDB();
+
+  try {
+    const request = await findRequestOrThrow(requestId);
+
+    if (request.userId?.toString() !== userId.toString()) {
+      throw new ApprovalPermissionError(
+        'Only the requester can resubmit this purchase request'
+      );
+    }
+
+    const entity = mapPurchaseRequestToEntity(request);
+    const next = applyApprovalAction(entity, {
+      action: ApprovalAction.Resubmit,
+      actorUserId: userId.toString(),
+      comment: comment?.trim() || undefined,
+    });
+
+    return await persistApprovalState(requestId, entity, next);
+  } catch (error) {
+    if (isKnownApprovalError(error)) {
+      throw error;
+    }
+    logger.error('Error resubmitting purchase request', {
+      userId,
+      requestId,
+      error,
+    });
+    throw new Error('Failed to resubmit purchase request');
+  }
+}
+
+/**
+ * List purchase requests awaiting the user's decision (approver inbox)
+ *
+ * @param userId - Approver user ID
+ * @returns Requests whose current step the user can act on, oldest first
+ */
+export async function listPendingApprovalsForUser(
+  userId: string | Types.ObjectId
+): Promise<PurchaseRequest[]> {
+  await connectDB();
+
+  try {
+    const actor = await getApprovalActor(userId);
+
+    const requests = await PurchaseRequestModel.find({
+      status: PurchaseRequestStatus.PendingApproval,
+      userId: { $ne: new Types.ObjectId(userId) },
+    })
+      .sort({ createdAt: 1 })
+      .lean()
+      .exec();
+
+    return requests
+      .map(mapPurchaseRequestToEntity)
+      .filter((request) => canUserActOnRequest(request, actor));
+  } catch (error) {
+    logger.error('Error fetching pending approvals', { userId, error });
+    throw new Error('Failed to fetch pending approvals');
+  }
+}
+
+/**
+ * Get a purchase request for review by an approver
+ * Access is granted to admins and to approvers assigned to any step.
+ *
+ * @returns Review view, or null if not found / not accessible
+ */
+export async function getPurchaseRequestForReview(
+  userId: string | Types.ObjectId,
+  requestId: string
+): Promise<PurchaseRequestReview | null> {
+  await connectDB();
+
+  try {
+    const request = await PurchaseRequestModel.findById(requestId)
+      .lean()
+      .exec();
+
+    if (!request) {
+      return null;
+    }
+
+    const actor = await getApprovalActor(userId);
+    const entity = mapPurchaseRequestToEntity(request);
+
+    const isOwner = entity.userId === actor.id;
+    const isAssigned = entity.approvalSteps.some((step) =>
+      isApproverForStep(step, actor)
+    );
+
+    if (!isOwner && !isAssigned) {
+      return null;
+    }
+
+    return {
+      request: entity,
+      canAct: canUserActOnRequest(entity, actor),
+    };
+  } catch (error) {
+    logger.error('Error fetching purchase request for review', {
+      userId,
+      requestId,
+      error,
+    });
+    throw new Error('Failed to fetch purchase request');
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Apply an approver decision (approve / reject / return) to a request
+ */
+async function decidePurchaseRequest(
+  userId: string | Types.ObjectId,
+  requestId: string,
+  action: ApprovalAction,
+  comment?: string
+): Promise<PurchaseRequest> {
+  await connectDB();
+
+  try {
+    const request = await findRequestOrThrow(requestId);
+    const entity = mapPurchaseRequestToEntity(request);
+    const actor = await getApprovalActor(userId);
+
+    // Validate the transition first so callers get a 409 for stale actions
+    if (entity.status !== PurchaseRequestStatus.PendingApproval) {
+      throw new InvalidApprovalTransitionError(entity.status, action);
+    }
+
+    if (!canUserActOnRequest(entity, actor)) {
+      throw new ApprovalPermissionError();
+    }
+
+    const next = applyApprovalAction(entity, {
+      action,
+      actorUserId: actor.id,
+      comment: comment?.trim() || undefined,
+    });
+
+    const updated = await persistApprovalState(requestId, entity, next);
+
+    logger.info('Purchase request approval decision', {
+      requestId,
+      userId: actor.id,
+      action,
+      status: updated.status,
+    });
+
+    if (updated.status === PurchaseRequestStatus.Approved) {
+      await issuePurchaseOrdersOnApproval(requestId);
+      await enqueueErpSubmission(requestId);
+    }
+
+    return updated;
+  } catch (error) {
+    if (isKnownApprovalError(error)) {
+      throw error;
+    }
+    logger.error('Error applying approval decision', {
+      userId,
+      requestId,
+      action,
+      error,
+    });
+    throw new Error('Failed to update purchase request approval');
+  }
+}
+
+/**
+ * Persist a new approval state
+ * Guards on the state the decision was made from (status, current step and
+ * history length) so concurrent decisions can't both apply, even on the
+ * same step of a multi-step chain, and publishes
+ * purchase_request.status_changed when the status moves.
+ */
+async function persistApprovalState(
+  requestId: string,
+  expected: ApprovalState,
+  state: ApprovalState
+): Promise<PurchaseRequest> {
+  const expectedStatus = expected.status;
+  const updated = await PurchaseRequestModel.findOneAndUpdate(
+    {
+      _id: requestId,
+      status: expectedStatus,
+      currentApprovalStep: expected.currentApprovalStep ?? null,
+      // History only grows: no entry past the ones the decision saw
+      [`statusHistory.${expected.statusHistory.length}`]: { $exists: false },
+    },
+    {
+      $set: {
+        status: state.status,
+        approvalSteps: state.approvalSteps,
+        currentApprovalStep: state.currentApprovalStep ?? null,
+        statusHistory: state.statusHistory,
+      },
+    },
+    { new: true, runValidators: true }
+  )
+    .lean()
+    .exec();
+
+  if (!updated) {
+    // Another decision was saved underneath us
+    throw new InvalidApprovalTransitionError(
+      expectedStatus,
+      state.statusHistory[state.statusHistory.length - 1].action
+    );
+  }
+
+  const request = mapPurchaseRequestToEntity(updated);
+
+  if (request.status !== expectedStatus) {
+    await publishWebhookEvent(WebhookEventType.PurchaseRequestStatusChanged, {
+      purchaseRequest: request,
+      previousStatus: expectedStatus,
+      status: request.status,
+    });
+  }
+
+  return request;
+}
+
+/**
+ * Fetch a purchase request document or throw a not-found error
+ */
+async function findRequestOrThrow(
+  requestId: string
+): Promise<PurchaseRequestDocument> {
+  if (!Types.ObjectId.isValid(requestId)) {
+    throw new ValidationError('Invalid purchase request ID');
+  }
+
+  const request = await PurchaseRequestModel.findById(requestId).lean().exec();
+
+  if (!request) {
+    throw new PurchaseRequestNotFoundError(requestId);
+  }
+
+  return request as PurchaseRequestDocument;
+}
+
+/**
+ * Load the acting user's role for permission checks
+ */
+async function getApprovalActor(
+  userId: string | Types.ObjectId
+): Promise<ApprovalActor> {
+  const user = await UserModel.findById(userId).select('role').lean().exec();
+
+  return {
+    id: userId.toString(),
+    role: user?.role || 'requester',
+  };
+}
+
+/**
+ * Errors that should propagate to the caller unchanged
+ */
+function isKnownApprovalError(error: unknown): boolean {
+  return (
+    error instanceof ValidationError ||
+    error instanceof PurchaseRequestNotFoundError ||
+    error instanceof ApprovalPermissionError ||
+    error instanceof InvalidApprovalTransitionError
+  );
+}
@@ -47,6 +47,7 @@ function mapUserToEntity(doc: Partial<UserDocument>): User {
     email: doc.email || '',
     name: doc.name || '',
     role: doc.role || 'requester',
+    costCenter: doc.costCenter,
     createdAt: doc.createdAt || new Date(),
     updatedAt: doc.updatedAt || new Date(),
   };
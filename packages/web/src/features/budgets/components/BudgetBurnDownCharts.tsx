@@ -0,0 +1,299 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { BudgetBurnDownPoint, BudgetStatus } from '@/domain/entities';
+import { BudgetEnforcement } from '@/domain/entities';
+
+/**
+ * BudgetBurnDownCharts component
+ * Displays department budgets the user can see with a burn-down chart
+ * - Budget picker (active budgets)
+ * - Summary cards for budget, committed spend and remaining balance
+ * - Line chart of remaining balance against an even spend rate
+ */
+
+interface BurnDownData {
+  status: BudgetStatus;
+  series: BudgetBurnDownPoint[];
+}
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+export function BudgetBurnDownCharts() {
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [burnDown, setBurnDown] = useState<BurnDownData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load active budgets
+  useEffect(() => {
+    let mounted = true;
+
+    async function load() {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await fetch('/api/budgets?active=true');
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}));
+          throw new Error(body?.message || 'Failed to fetch budgets');
+        }
+        const data = await res.json();
+        if (mounted) {
+          const list: BudgetStatus[] = data.data || [];
+          setBudgets(list);
+          setSelectedId(list[0]?.budget.id ?? null);
+          if (list.length === 0) {
+            setLoading(false);
+          }
+        }
+      } catch (err) {
+        console.error('Error loading budgets:', err);
+        if (mounted) {
+          setError(err instanceof Error ? err.message : String(err));
+          setLoading(false);
+        }
+      }
+    }
+
+    load();
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  // Load burn-down for the selected budget
+  useEffect(() => {
+    if (!selectedId) {
+      return;
+    }
+
+    let mounted = true;
+
+    async function loadBurnDown(budgetId: string) {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await fetch(`/api/budgets/${budgetId}`);
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}));
+          throw new Error(body?.message || 'Failed to fetch budget burn-down');
+        }
+        const data = await res.json();
+        if (mounted) {
+          setBurnDown(data.data);
+        }
+      } catch (err) {
+        console.error('Error loading budget burn-down:', err);
+        if (mounted) {
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    }
+
+    loadBurnDown(selectedId);
+
+    return () => {
+      mounted = false;
+    };
+  }, [selectedId]);
+
+  if (error) {
+    return (
+      <Card className='py-6'>
+        <CardHeader>
+          <CardTitle>Budget Burn-down</CardTitle>
+        </CardHeader>
+        <CardContent className='text-destructive'>{error}</CardContent>
+      </Card>
+    );
+  }
+
+  if (!loading && budgets.length === 0) {
+    return (
+      <Card className='py-6'>
+        <CardHeader>
+          <CardTitle>Budget Burn-down</CardTitle>
+        </CardHeader>
+        <CardContent className='text-muted-foreground'>
+          No active budget is assigned to your cost center
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (loading || !burnDown) {
+    return (
+      <Card className='py-6'>
+        <CardHeader>
+          <CardTitle>Budget Burn-down</CardTitle>
+        </CardHeader>
+        <CardContent>Loading budget…</CardContent>
+      </Card>
+    );
+  }
+
+  const { status, series } = burnDown;
+
+  return (
+    <div className='space-y-6'>
+      {/* Budget picker */}
+      {budgets.length > 1 && (
+        <div className='flex flex-wrap gap-2'>
+          {budgets.map(({ budget }) => (
+            <Button
+              key={budget.id}
+              size='sm'
+              variant={budget.id === selectedId ? 'default' : 'outline'}
+              onClick={() => setSelectedId(budget.id)}
+            >
+              {budget.name}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {/* Summary Cards */}
+      <div className='grid grid-cols-1 sm:grid-cols-3 gap-4'>
+        <Card className='py-6'>
+          <CardHeader className='pb-2'>
+            <CardTitle className='text-sm font-medium text-muted-foreground'>
+              Budget
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className='text-2xl font-bold'>
+              {formatCurrency(status.budget.amount)}
+            </div>
+            <div className='mt-1 flex items-center gap-2 text-xs text-muted-foreground'>
+              <span>{status.budget.costCenter}</span>
+              <Badge variant='outline'>
+                {status.budget.enforcement === BudgetEnforcement.Block
+                  ? 'Blocks checkout'
+                  : 'Warns at checkout'}
+              </Badge>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className='py-6'>
+          <CardHeader className='pb-2'>
+            <CardTitle className='text-sm font-medium text-muted-foreground'>
+              Committed
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className='text-2xl font-bold'>
+              {formatCurrency(status.committed)}
+            </div>
+            <p className='text-xs text-muted-foreground mt-1'>
+              {(status.utilization * 100).toFixed(1)}% of budget
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className='py-6'>
+          <CardHeader className='pb-2'>
+            <CardTitle className='text-sm font-medium text-muted-foreground'>
+              Remaining
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div
+              className={`text-2xl font-bold ${status.remaining < 0 ? 'text-destructive' : ''}`}
+            >
+              {formatCurrency(status.remaining)}
+            </div>
+            <p className='text-xs text-muted-foreground mt-1'>
+              {new Date(status.budget.periodStart).toLocaleDateString()} –{' '}
+              {new Date(status.budget.periodEnd).toLocaleDateString()}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Burn-down - Line Chart */}
+      {series.length > 0 && (
+        <Card className='py-6'>
+          <CardHeader>
+            <CardTitle>Burn-down</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width='100%' height={300}>
+              <LineChart data={series}>
+                <CartesianGrid
+                  strokeDasharray='3 3'
+                  stroke='hsl(var(--border))'
+                  opacity={0.3}
+                />
+                <XAxis
+                  dataKey='date'
+                  tick={{ fill: '#888888', fontSize: 12 }}
+                  stroke='#888888'
+                />
+                <YAxis
+                  tick={{ fill: '#888888', fontSize: 12 }}
+                  tickFormatter={(value) => `$${Math.round(value)}`}
+                  stroke='#888888'
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--popover))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '6px',
+                    color: 'hsl(var(--popover-foreground))',
+                  }}
+                  formatter={(value: number, name: string) => [
+                    formatCurrency(value),
+                    name,
+                  ]}
+                />
+                <Legend />
+                <Line
+                  type='monotone'
+                  dataKey='remaining'
+                  stroke='hsl(293 70% 65%)'
+                  strokeWidth={2}
+                  dot={false}
+                  name='Remaining'
+                />
+                <Line
+                  type='monotone'
+                  dataKey='ideal'
+                  stroke='hsl(200 80% 60%)'
+                  strokeDasharray='5 5'
+                  dot={false}
+                  name='Even spend'
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * Budget Check Alert
+ *
+ * Shows how a cart total affects the department budget:
+ * remaining balance, or a warning / block when it would be exceeded.
+ */
+
+'use client';
+
+import { AlertTriangle, Ban, Wallet } from 'lucide-react';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import type { BudgetCheck } from '@/domain/entities';
+
+interface BudgetCheckAlertProps {
+  check: BudgetCheck;
+}
+
+export function BudgetCheckAlert({ check }: BudgetCheckAlertProps) {
+  if (check.blocked) {
+    return (
+      <Alert variant='destructive'>
+        <Ban />
+        <AlertTitle>Over budget</AlertTitle>
+        <AlertDescription>{check.message}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (check.exceedsBudget) {
+    return (
+      <Alert className='border-amber-500/50 text-amber-700 dark:text-amber-400'>
+        <AlertTriangle />
+        <AlertTitle>Budget warning</AlertTitle>
+        <AlertDescription>{check.message}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert>
+      <Wallet />
+      <AlertTitle>{check.budget.name}</AlertTitle>
+      <AlertDescription>
+        ${check.remainingAfter.toFixed(2)} of ${check.budget.amount.toFixed(2)}{' '}
+        will remain after checkout
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,9 @@
+/**
+ * Budgets Feature
+ * Department budgets with spend tracking and checkout enforcement
+ */
+
+export * from './lib/budget-calculations';
+export * from './lib/budget.service';
+export { BudgetBurnDownCharts } from './components/BudgetBurnDownCharts';
+export { BudgetCheckAlert } from './components/BudgetCheckAlert';
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Budget } from '@/domain/entities';
+import { BudgetEnforcement } from '@/domain/entities';
+
+import {
+  buildBudgetStatus,
+  buildBurnDownSeries,
+  evaluateBudgetCheck,
+  isWithinBudgetPeriod,
+} from './budget-calculations';
+
+const budget: Budget = {
+  id: '507f1f77bcf86cd799439011',
+  name: 'Operations January',
+  costCenter: 'CC-100',
+  periodStart: new Date('2025-01-01T00:00:00Z'),
+  periodEnd: new Date('2025-01-10T23:59:59Z'),
+  amount: 1000,
+  enforcement: BudgetEnforcement.Warn,
+  isActive: true,
+  createdAt: new Date('2024-12-15T00:00:00Z'),
+  updatedAt: new Date('2024-12-15T00:00:00Z'),
+};
+
+describe('budget-calculations', () => {
+  describe('isWithinBudgetPeriod', () => {
+    it('should include both period boundaries', () => {
+      expect(isWithinBudgetPeriod(budget, budget.periodStart)).toBe(true);
+      expect(isWithinBudgetPeriod(budget, budget.periodEnd)).toBe(true);
+      expect(
+        isWithinBudgetPeriod(budget, new Date('2025-01-11T00:00:00Z'))
+      ).toBe(false);
+    });
+  });
+
+  describe('buildBudgetStatus', () => {
+    it('should compute remaining balance and utilization', () => {
+      const status = buildBudgetStatus(budget, 250.5);
+
+      expect(status.committed).toBe(250.5);
+      expect(status.remaining).toBe(749.5);
+      expect(status.utilization).toBeCloseTo(0.2505);
+    });
+
+    it('should report zero utilization for a zero budget', () => {
+      const status = buildBudgetStatus({ ...budget, amount: 0 }, 0);
+
+      expect(status.utilization).toBe(0);
+      expect(status.remaining).toBe(0);
+    });
+  });
+
+  describe('evaluateBudgetCheck', () => {
+    it('should pass spend within the remaining balance', () => {
+      const check = evaluateBudgetCheck(buildBudgetStatus(budget, 600), 400);
+
+      expect(check.exceedsBudget).toBe(false);
+      expect(check.blocked).toBe(false);
+      expect(check.remainingAfter).toBe(0);
+    });
+
+    it('should warn but not block when enforcement is warn', () => {
+      const check = evaluateBudgetCheck(buildBudgetStatus(budget, 900), 150);
+
+      expect(check.exceedsBudget).toBe(true);
+      expect(check.blocked).toBe(false);
+      expect(check.remainingAfter).toBe(-50);
+      expect(check.message).toContain('by $50.00');
+    });
+
+    it('should block when enforcement is block', () => {
+      const blocking = { ...budget, enforcement: BudgetEnforcement.Block };
+      const check = evaluateBudgetCheck(buildBudgetStatus(blocking, 900), 150);
+
+      expect(check.exceedsBudget).toBe(true);
+      expect(check.blocked).toBe(true);
+      expect(check.message).toContain('Checkout is blocked');
+    });
+  });
+
+  describe('buildBurnDownSeries', () => {
+    it('should accumulate spend per day up to the as-of date', () => {
+      const series = buildBurnDownSeries(
+        budget,
+        [
+          { total: 100, createdAt: new Date('2025-01-02T09:00:00Z') },
+          { total: 50, createdAt: new Date('2025-01-02T15:00:00Z') },
+          { total: 200, createdAt: new Date('2025-01-04T12:00:00Z') },
+        ],
+        new Date('2025-01-04T18:00:00Z')
+      );
+
+      expect(series.map((point) => point.date)).toEqual([
+        '2025-01-01',
+        '2025-01-02',
+        '2025-01-03',
+        '2025-01-04',
+      ]);
+      expect(series.map((point) => point.committed)).toEqual([
+        0, 150, 150, 350,
+      ]);
+      expect(series[3].remaining).toBe(650);
+    });
+
+    it('should draw the ideal line down to zero at the period end', () => {
+      const series = buildBurnDownSeries(
+        budget,
+        [],
+        new Date('2025-02-01T00:00:00Z')
+      );
+
+      expect(series).toHaveLength(10);
+      expect(series[0].ideal).toBe(900);
+      expect(series[9].ideal).toBe(0);
+    });
+
+    it('should return an empty series before the period starts', () => {
+      expect(
+        buildBurnDownSeries(budget, [], new Date('2024-12-31T00:00:00Z'))
+      ).toEqual([]);
+    });
+  });
+});
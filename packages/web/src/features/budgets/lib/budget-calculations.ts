@@ -0,0 +1,184 @@
+/**
+ * Budget Calculations
+ *
+ * Pure spend-tracking logic for department budgets:
+ * - Committed spend and remaining balance
+ * - Checking a prospective spend (e.g., a cart) against the balance
+ * - Daily burn-down series for charts
+ *
+ * Kept free of database access so it can be unit tested and shared by
+ * checkout, the agent checkout tool and the budgets API.
+ */
+
+import type {
+  Budget,
+  BudgetBurnDownPoint,
+  BudgetCheck,
+  BudgetStatus,
+  PurchaseRequest,
+} from '@/domain/entities';
+import { BudgetEnforcement, PurchaseRequestStatus } from '@/domain/entities';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Purchase request statuses that count as committed spend
+ * Rejected requests release their amount back to the budget.
+ */
+export const COMMITTED_PURCHASE_STATUSES: readonly PurchaseRequestStatus[] = [
+  PurchaseRequestStatus.Submitted,
+  PurchaseRequestStatus.PendingApproval,
+  PurchaseRequestStatus.ReturnedForChanges,
+  PurchaseRequestStatus.Approved,
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Minimal purchase request shape needed for spend calculations
+ */
+export type CommittedSpendEntry = Pick<PurchaseRequest, 'total' | 'createdAt'>;
+
+// ============================================================================
+// Status & Checks
+// ============================================================================
+
+/**
+ * Round a currency amount to cents
+ */
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Format a currency amount for messages
+ */
+function formatAmount(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+/**
+ * Check whether a date falls within the budget's fiscal period (inclusive)
+ */
+export function isWithinBudgetPeriod(budget: Budget, at: Date): boolean {
+  const time = at.getTime();
+  return (
+    time >= new Date(budget.periodStart).getTime() &&
+    time <= new Date(budget.periodEnd).getTime()
+  );
+}
+
+/**
+ * Build the spend summary for a budget given its committed spend
+ */
+export function buildBudgetStatus(
+  budget: Budget,
+  committed: number
+): BudgetStatus {
+  const roundedCommitted = roundCurrency(committed);
+  return {
+    budget,
+    committed: roundedCommitted,
+    remaining: roundCurrency(budget.amount - roundedCommitted),
+    utilization: budget.amount > 0 ? roundedCommitted / budget.amount : 0,
+  };
+}
+
+/**
+ * Check a prospective spend against a budget's remaining balance
+ * Checkout is blocked only when the spend exceeds the balance and the
+ * budget's enforcement is "block".
+ */
+export function evaluateBudgetCheck(
+  status: BudgetStatus,
+  amount: number
+): BudgetCheck {
+  const remainingAfter = roundCurrency(status.remaining - amount);
+  const exceedsBudget = remainingAfter < 0;
+  const blocked =
+    exceedsBudget && status.budget.enforcement === BudgetEnforcement.Block;
+
+  const label = `${status.budget.name} (${status.budget.costCenter})`;
+  let message: string;
+  if (!exceedsBudget) {
+    message = `${formatAmount(amount)} fits within ${label}: ${formatAmount(remainingAfter)} will remain.`;
+  } else if (blocked) {
+    message = `${formatAmount(amount)} exceeds the remaining ${formatAmount(status.remaining)} of ${label}. Checkout is blocked.`;
+  } else {
+    message = `${formatAmount(amount)} exceeds the remaining ${formatAmount(status.remaining)} of ${label} by ${formatAmount(-remainingAfter)}.`;
+  }
+
+  return {
+    ...status,
+    amount: roundCurrency(amount),
+    remainingAfter,
+    exceedsBudget,
+    blocked,
+    message,
+  };
+}
+
+// ============================================================================
+// Burn-down
+// ============================================================================
+
+/**
+ * Format a date as an ISO day (YYYY-MM-DD, UTC)
+ */
+function toIsoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Build a daily burn-down series for a budget
+ * Runs from the period start to the earlier of `asOf` and the period end.
+ * The ideal line assumes an even spend rate across the whole period.
+ *
+ * @param budget - Budget being charted
+ * @param entries - Committed purchase requests charged to the budget
+ * @param asOf - Last day to include (defaults to now)
+ */
+export function buildBurnDownSeries(
+  budget: Budget,
+  entries: CommittedSpendEntry[],
+  asOf: Date = new Date()
+): BudgetBurnDownPoint[] {
+  const startDay = Date.parse(toIsoDay(new Date(budget.periodStart)));
+  const periodEndDay = Date.parse(toIsoDay(new Date(budget.periodEnd)));
+  const endDay = Math.min(periodEndDay, Date.parse(toIsoDay(asOf)));
+
+  if (endDay < startDay) {
+    return [];
+  }
+
+  // Sum spend per day
+  const spendByDay = new Map<string, number>();
+  for (const entry of entries) {
+    const day = toIsoDay(new Date(entry.createdAt));
+    spendByDay.set(day, (spendByDay.get(day) || 0) + entry.total);
+  }
+
+  const periodDays = Math.round((periodEndDay - startDay) / DAY_MS) + 1;
+  const points: BudgetBurnDownPoint[] = [];
+  let committed = 0;
+
+  for (let day = startDay, index = 1; day <= endDay; day += DAY_MS, index++) {
+    const isoDay = toIsoDay(new Date(day));
+    committed += spendByDay.get(isoDay) || 0;
+
+    points.push({
+      date: isoDay,
+      committed: roundCurrency(committed),
+      remaining: roundCurrency(budget.amount - committed),
+      ideal: roundCurrency(budget.amount * (1 - index / periodDays)),
+    });
+  }
+
+  return points;
+}
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { BudgetModel, UserModel } from '@/lib/db/models';
+
+import {
+  CostCenterPermissionError,
+  resolveChargeableCostCenter,
+  ValidationError,
+} from './budget.service';
+
+vi.mock('@/lib/db/mongoose', () => ({ default: vi.fn() }));
+
+/**
+ * Budget Service Tests
+ *
+ * Models are mocked; the tests cover which cost centers a user may charge.
+ */
+
+const USER_ID = '507f1f77bcf86cd799439011';
+
+function mockUser(user: { costCenter?: string; role: string } | null) {
+  vi.spyOn(UserModel, 'findById').mockReturnValue({
+    select: () => ({ lean: () => ({ exec: async () => user }) }),
+  } as never);
+}
+
+function mockKnownCostCenters(costCenters: string[]) {
+  const exists = (filter: { costCenter?: string }) =>
+    ({
+      exec: async () =>
+        filter.costCenter && costCenters.includes(filter.costCenter)
+          ? { _id: 'id' }
+          : null,
+    }) as never;
+  vi.spyOn(BudgetModel, 'exists').mockImplementation(exists);
+  vi.spyOn(UserModel, 'exists').mockImplementation(() => exists({}));
+}
+
+describe('budget.service', () => {
+  describe('resolveChargeableCostCenter', () => {
+    beforeEach(() => {
+      vi.restoreAllMocks();
+      mockKnownCostCenters(['CC-SALES']);
+    });
+
+    it("should default to the user's own cost center", async () => {
+      mockUser({ costCenter: 'CC-IT', role: 'requester' });
+
+      await expect(resolveChargeableCostCenter(USER_ID)).resolves.toBe('CC-IT');
+      await expect(resolveChargeableCostCenter(USER_ID, 'CC-IT')).resolves.toBe(
+        'CC-IT'
+      );
+    });
+
+    it('should not let requesters charge another cost center', async () => {
+      mockUser({ costCenter: 'CC-IT', role: 'requester' });
+
+      await expect(
+        resolveChargeableCostCenter(USER_ID, 'CC-SALES')
+      ).rejects.toBeInstanceOf(CostCenterPermissionError);
+    });
+
+    it('should let budget managers charge a known cost center', async () => {
+      mockUser({ costCenter: 'CC-IT', role: 'admin' });
+
+      await expect(
+        resolveChargeableCostCenter(USER_ID, 'CC-SALES')
+      ).resolves.toBe('CC-SALES');
+    });
+
+    it('should reject unknown cost centers', async () => {
+      mockUser({ costCenter: 'CC-IT', role: 'admin' });
+
+      await expect(
+        resolveChargeableCostCenter(USER_ID, 'CC-NO-BUDGET')
+      ).rejects.toBeInstanceOf(ValidationError);
+    });
+  });
+});
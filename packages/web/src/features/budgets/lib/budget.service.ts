@@ -0,0 +1,546 @@
+/**
+ * Budget Service
+ *
+ * Business logic for department / cost center budgets:
+ * - Create and update budgets for a fiscal period
+ * - Track committed spend and remaining balance
+ * - Check a cart or checkout amount against the remaining balance
+ * - Decide which cost centers a user may charge at checkout
+ * - Daily burn-down series for the settings page
+ *
+ * Spend calculations are delegated to the pure budget calculations
+ * module; this service handles persistence and lookups.
+ */
+
+import { Types } from 'mongoose';
+
+import type {
+  Budget,
+  BudgetBurnDownPoint,
+  BudgetCheck,
+  BudgetStatus,
+} from '@/domain/entities';
+import { BudgetEnforcement } from '@/domain/entities';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { mapBudgetToEntity } from '@/lib/db/mappers';
+import {
+  BudgetModel,
+  CartModel,
+  PurchaseRequestModel,
+  UserModel,
+} from '@/lib/db/models';
+import connectDB from '@/lib/db/mongoose';
+import { logger } from '@/lib/logger/winston.config';
+
+import {
+  buildBudgetStatus,
+  buildBurnDownSeries,
+  COMMITTED_PURCHASE_STATUSES,
+  evaluateBudgetCheck,
+} from './budget-calculations';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Input for creating a budget
+ */
+export interface CreateBudgetInput {
+  name: string;
+  costCenter: string;
+  department?: string;
+  periodStart: Date | string;
+  periodEnd: Date | string;
+  amount: number;
+  enforcement?: BudgetEnforcement;
+  isActive?: boolean;
+}
+
+/**
+ * Input for updating a budget (all fields optional)
+ */
+export type UpdateBudgetInput = Partial<CreateBudgetInput>;
+
+/**
+ * Filters for listing budgets
+ */
+export interface BudgetFilters {
+  costCenter?: string;
+  activeOnly?: boolean;
+}
+
+/**
+ * Budget status with its burn-down series
+ */
+export interface BudgetBurnDown {
+  status: BudgetStatus;
+  series: BudgetBurnDownPoint[];
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+export class BudgetNotFoundError extends Error {
+  constructor(budgetId: string) {
+    super(`Budget not found: ${budgetId}`);
+    this.name = 'BudgetNotFoundError';
+  }
+}
+
+export class CostCenterPermissionError extends Error {
+  constructor(costCenter: string) {
+    super(
+      `You can only charge your own cost center; charging ${costCenter} requires budget management permission`
+    );
+    this.name = 'CostCenterPermissionError';
+  }
+}
+
+export class BudgetExceededError extends Error {
+  constructor(public readonly check: BudgetCheck) {
+    super(check.message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+/**
+ * List budgets with their committed spend
+ *
+ * @param filters - Optional cost center / active filters
+ * @returns Budget statuses, most recent period first
+ */
+export async function listBudgetStatuses(
+  filters: BudgetFilters = {}
+): Promise<BudgetStatus[]> {
+  await connectDB();
+
+  try {
+    const query: { costCenter?: string; isActive?: boolean } = {};
+    if (filters.costCenter) {
+      query.costCenter = filters.costCenter;
+    }
+    if (filters.activeOnly) {
+      query.isActive = true;
+    }
+
+    const budgets = await BudgetModel.find(query)
+      .sort({ periodStart: -1, name: 1 })
+      .lean()
+      .exec();
+
+    return await Promise.all(
+      budgets.map((doc) => computeBudgetStatus(mapBudgetToEntity(doc)))
+    );
+  } catch (error) {
+    logger.error('Error listing budgets', { filters, error });
+    throw new Error('Failed to list budgets');
+  }
+}
+
+/**
+ * Get a budget by ID
+ *
+ * @throws {BudgetNotFoundError} if the budget does not exist
+ */
+export async function getBudgetById(budgetId: string): Promise<Budget> {
+  await connectDB();
+
+  try {
+    return await findBudgetOrThrow(budgetId);
+  } catch (error) {
+    if (isKnownBudgetError(error)) {
+      throw error;
+    }
+    logger.error('Error fetching budget', { budgetId, error });
+    throw new Error('Failed to fetch budget');
+  }
+}
+
+/**
+ * Create a budget for a cost center and fiscal period
+ * Active budgets for the same cost center may not overlap.
+ */
+export async function createBudget(input: CreateBudgetInput): Promise<Budget> {
+  await connectDB();
+
+  try {
+    const data = normalizeBudgetInput(input);
+
+    if (data.isActive) {
+      await assertNoOverlappingBudget(data);
+    }
+
+    const budget = await BudgetModel.create(data);
+
+    logger.info('Budget created', {
+      budgetId: budget._id.toString(),
+      costCenter: data.costCenter,
+      amount: data.amount,
+    });
+
+    return mapBudgetToEntity(budget.toObject());
+  } catch (error) {
+    if (isKnownBudgetError(error)) {
+      throw error;
+    }
+    logger.error('Error creating budget', { input, error });
+    throw new Error('Failed to create budget');
+  }
+}
+
+/**
+ * Update a budget
+ *
+ * @throws {BudgetNotFoundError} if the budget does not exist
+ */
+export async function updateBudget(
+  budgetId: string,
+  input: UpdateBudgetInput
+): Promise<Budget> {
+  await connectDB();
+
+  try {
+    const existing = await findBudgetOrThrow(budgetId);
+    const data = normalizeBudgetInput({ ...existing, ...input });
+
+    if (data.isActive) {
+      await assertNoOverlappingBudget(data, budgetId);
+    }
+
+    const updated = await BudgetModel.findByIdAndUpdate(
+      budgetId,
+      { $set: data },
+      { new: true, runValidators: true }
+    )
+      .lean()
+      .exec();
+
+    if (!updated) {
+      throw new BudgetNotFoundError(budgetId);
+    }
+
+    return mapBudgetToEntity(updated);
+  } catch (error) {
+    if (isKnownBudgetError(error)) {
+      throw error;
+    }
+    logger.error('Error updating budget', { budgetId, input, error });
+    throw new Error('Failed to update budget');
+  }
+}
+
+/**
+ * Get the active budget covering a cost center at a point in time
+ *
+ * @returns Budget, or null if the cost center has no active budget
+ */
+export async function getActiveBudgetForCostCenter(
+  costCenter: string,
+  at: Date = new Date()
+): Promise<Budget | null> {
+  await connectDB();
+
+  try {
+    const budget = await BudgetModel.findOne({
+      costCenter,
+      isActive: true,
+      periodStart: { $lte: at },
+      periodEnd: { $gte: at },
+    })
+      .lean()
+      .exec();
+
+    return budget ? mapBudgetToEntity(budget) : null;
+  } catch (error) {
+    logger.error('Error fetching active budget', { costCenter, error });
+    throw new Error('Failed to fetch budget');
+  }
+}
+
+/**
+ * Get the cost center a user's purchases are charged to
+ */
+export async function getUserCostCenter(
+  userId: string | Types.ObjectId
+): Promise<string | undefined> {
+  await connectDB();
+
+  const user = await UserModel.findById(userId)
+    .select('costCenter')
+    .lean()
+    .exec();
+
+  return user?.costCenter || undefined;
+}
+
+/**
+ * Resolve the cost center a user's purchase is charged to
+ * Users charge their own cost center. Charging another one requires the
+ * budget management permission, and the cost center must be known (have a
+ * budget or be assigned to a user), so a purchase cannot dodge its budget
+ * check with a made-up cost center.
+ *
+ * @param costCenter - Requested cost center (default: the user's own)
+ * @returns Cost center to charge, or undefined if the user has none
+ * @throws {CostCenterPermissionError} if the user may not charge it
+ * @throws {ValidationError} if the cost center is unknown
+ */
+export async function resolveChargeableCostCenter(
+  userId: string | Types.ObjectId,
+  costCenter?: string
+): Promise<string | undefined> {
+  await connectDB();
+
+  const user = await UserModel.findById(userId)
+    .select('costCenter role')
+    .lean()
+    .exec();
+  const ownCostCenter = user?.costCenter || undefined;
+
+  if (!costCenter || costCenter === ownCostCenter) {
+    return ownCostCenter;
+  }
+  if (!hasPermission(user?.role, Permission.BudgetManage)) {
+    throw new CostCenterPermissionError(costCenter);
+  }
+
+  const [budget, assignedUser] = await Promise.all([
+    BudgetModel.exists({ costCenter }).exec(),
+    UserModel.exists({ costCenter }).exec(),
+  ]);
+  if (!budget && !assignedUser) {
+    throw new ValidationError(`Unknown cost center: ${costCenter}`);
+  }
+  return costCenter;
+}
+
+/**
+ * Check an amount against the active budget of a cost center
+ *
+ * @returns Budget check, or null if no active budget applies
+ */
+export async function checkBudgetForCostCenter(
+  costCenter: string,
+  amount: number
+): Promise<BudgetCheck | null> {
+  const budget = await getActiveBudgetForCostCenter(costCenter);
+  if (!budget) {
+    return null;
+  }
+
+  try {
+    const status = await computeBudgetStatus(budget);
+    return evaluateBudgetCheck(status, amount);
+  } catch (error) {
+    logger.error('Error checking budget', { costCenter, amount, error });
+    throw new Error('Failed to check budget');
+  }
+}
+
+/**
+ * Check the user's current cart total against their cost center budget
+ * Used by the cart page to warn before checkout.
+ *
+ * @returns Budget check, or null if the user has no budgeted cost center
+ */
+export async function checkCartBudget(
+  userId: string | Types.ObjectId
+): Promise<BudgetCheck | null> {
+  await connectDB();
+
+  try {
+    const costCenter = await getUserCostCenter(userId);
+    if (!costCenter) {
+      return null;
+    }
+
+    const cart = await CartModel.findOne({ userId }).lean().exec();
+    const cartTotal = (cart?.items || []).reduce(
+      (sum, item) => sum + item.unitPrice * item.quantity,
+      0
+    );
+
+    return await checkBudgetForCostCenter(costCenter, cartTotal);
+  } catch (error) {
+    logger.error('Error checking cart budget', { userId, error });
+    throw new Error('Failed to check budget');
+  }
+}
+
+/**
+ * Get a budget's status and daily burn-down series
+ *
+ * @throws {BudgetNotFoundError} if the budget does not exist
+ */
+export async function getBudgetBurnDown(
+  budgetId: string
+): Promise<BudgetBurnDown> {
+  await connectDB();
+
+  try {
+    const budget = await findBudgetOrThrow(budgetId);
+
+    const requests = await PurchaseRequestModel.find(
+      committedSpendQuery(budget)
+    )
+      .select('total createdAt')
+      .lean()
+      .exec();
+
+    const series = buildBurnDownSeries(budget, requests);
+    const committed = requests.reduce((sum, request) => sum + request.total, 0);
+
+    return {
+      status: buildBudgetStatus(budget, committed),
+      series,
+    };
+  } catch (error) {
+    if (isKnownBudgetError(error)) {
+      throw error;
+    }
+    logger.error('Error building budget burn-down', { budgetId, error });
+    throw new Error('Failed to build budget burn-down');
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Query for purchase requests that count against a budget
+ */
+function committedSpendQuery(budget: Budget) {
+  return {
+    costCenter: budget.costCenter,
+    status: { $in: COMMITTED_PURCHASE_STATUSES },
+    createdAt: { $gte: budget.periodStart, $lte: budget.periodEnd },
+  };
+}
+
+/**
+ * Sum committed spend for a budget and build its status
+ */
+async function computeBudgetStatus(budget: Budget): Promise<BudgetStatus> {
+  const [result] = await PurchaseRequestModel.aggregate<{
+    committed: number;
+  }>([
+    { $match: committedSpendQuery(budget) },
+    { $group: { _id: null, committed: { $sum: '$total' } } },
+  ]).exec();
+
+  return buildBudgetStatus(budget, result?.committed ?? 0);
+}
+
+/**
+ * Validate and normalize create/update input
+ */
+function normalizeBudgetInput(input: UpdateBudgetInput) {
+  const name = input.name?.trim();
+  const costCenter = input.costCenter?.trim();
+
+  if (!name) {
+    throw new ValidationError('Budget name is required');
+  }
+  if (!costCenter) {
+    throw new ValidationError('Cost center is required');
+  }
+  if (
+    typeof input.amount !== 'number' ||
+    !Number.isFinite(input.amount) ||
+    input.amount < 0
+  ) {
+    throw new ValidationError('Budget amount must be a non-negative number');
+  }
+
+  const periodStart = new Date(input.periodStart ?? '');
+  const periodEnd = new Date(input.periodEnd ?? '');
+  if (isNaN(periodStart.getTime()) || isNaN(periodEnd.getTime())) {
+    throw new ValidationError('Period start and end must be valid dates');
+  }
+  if (periodEnd < periodStart) {
+    throw new ValidationError('Period end must be on or after period start');
+  }
+
+  const enforcement = input.enforcement ?? BudgetEnforcement.Warn;
+  if (!Object.values(BudgetEnforcement).includes(enforcement)) {
+    throw new ValidationError(`Invalid budget enforcement: ${enforcement}`);
+  }
+
+  return {
+    name,
+    costCenter,
+    department: input.department?.trim() || undefined,
+    periodStart,
+    periodEnd,
+    amount: input.amount,
+    enforcement,
+    isActive: input.isActive ?? true,
+  };
+}
+
+/**
+ * Reject active budgets whose period overlaps another active budget
+ * for the same cost center (checkout must resolve to a single budget)
+ */
+async function assertNoOverlappingBudget(
+  data: { costCenter: string; periodStart: Date; periodEnd: Date },
+  excludeBudgetId?: string
+): Promise<void> {
+  const overlapping = await BudgetModel.findOne({
+    costCenter: data.costCenter,
+    isActive: true,
+    periodStart: { $lte: data.periodEnd },
+    periodEnd: { $gte: data.periodStart },
+    ...(excludeBudgetId && { _id: { $ne: excludeBudgetId } }),
+  })
+    .lean()
+    .exec();
+
+  if (overlapping) {
+    throw new ValidationError(
+      `Cost center ${data.costCenter} already has an active budget for this period (${overlapping.name})`
+    );
+  }
+}
+
+/**
+ * Fetch a budget or throw a not-found error
+ */
+async function findBudgetOrThrow(budgetId: string): Promise<Budget> {
+  if (!Types.ObjectId.isValid(budgetId)) {
+    throw new ValidationError('Invalid budget ID');
+  }
+
+  const budget = await BudgetModel.findById(budgetId).lean().exec();
+
+  if (!budget) {
+    throw new BudgetNotFoundError(budgetId);
+  }
+
+  return mapBudgetToEntity(budget);
+}
+
+/**
+ * Errors that should propagate to the caller unchanged
+ */
+function isKnownBudgetError(error: unknown): boolean {
+  return (
+    error instanceof ValidationError ||
+    error instanceof BudgetNotFoundError ||
+    error instanceof BudgetExceededError
+  );
+}
@@ -2,7 +2,7 @@
 
 import { Loader2, Minus, Plus, ShoppingCart, Trash2 } from 'lucide-react';
 import { useRouter } from 'next/navigation';
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { toast } from 'sonner';
 
 import {
@@ -14,9 +14,20 @@ import {
   CardTitle,
 } from '@/components';
 import { useCart } from '@/contexts/CartContext';
-import type { CartItem } from '@/domain/entities';
+import type { BudgetCheck, CartItem, CheckoutReview } from '@/domain/entities';
+import { BudgetCheckAlert } from '@/features/budgets/components/BudgetCheckAlert';
+import type { CheckoutDetailsValue } from '@/features/checkout/components/CheckoutDetailsFields';
+import {
+  CheckoutDetailsFields,
+  EMPTY_CHECKOUT_DETAILS,
+  toCheckoutDetailsBody,
+} from '@/features/checkout/components/CheckoutDetailsFields';
+import { CheckoutReviewDialog } from '@/features/checkout/components/CheckoutReviewDialog';
 import { cn } from '@/lib/utils';
 
+import { SavedCartsPanel } from './SavedCartsPanel';
+import { SharedCartsPanel } from './SharedCartsPanel';
+
 /**
  * CartPageContent - Client component for cart UI
  * Features:
@@ -25,7 +36,12 @@ import { cn } from '@/lib/utils';
  * - Update quantities via API
  * - Remove items via API
  * - Calculate total
+ * - Check total against the department budget
+ * - Review price changes and unavailable items before checkout
+ * - Choose delivery location, date, cost center and GL code at checkout
  * - Checkout via API (creates purchase request)
+ * - Save the cart for later or as a template, restore saved carts
+ * - Create and open shared team carts
  */
 export function CartPageContent() {
   const router = useRouter();
@@ -33,6 +49,15 @@ export function CartPageContent() {
   const [isLoading, setIsLoading] = useState(true);
   const [isCheckingOut, setIsCheckingOut] = useState(false);
   const [loadingItems, setLoadingItems] = useState<Set<string>>(new Set());
+  const [budgetCheck, setBudgetCheck] = useState<BudgetCheck | null>(null);
+  const [checkoutReview, setCheckoutReview] = useState<CheckoutReview | null>(
+    null
+  );
+  const [checkoutDetails, setCheckoutDetails] = useState<CheckoutDetailsValue>(
+    EMPTY_CHECKOUT_DETAILS
+  );
+  // Idempotency key of the current checkout attempt, kept across retries
+  const checkoutKeyRef = useRef<string | null>(null);
   const { setItemCount } = useCart();
 
   // Load cart from API
@@ -68,6 +93,36 @@ export function CartPageContent() {
     loadCart();
   }, [loadCart]);
 
+  const totalCost = cartItems.reduce((sum, item) => sum + item.subtotal, 0);
+
+  // Re-check the department budget once cart updates have been saved
+  useEffect(() => {
+    if (totalCost === 0) {
+      setBudgetCheck(null);
+      return;
+    }
+    if (loadingItems.size > 0) {
+      return;
+    }
+
+    let cancelled = false;
+
+    fetch('/api/budgets/check')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled) {
+          setBudgetCheck(data?.data ?? null);
+        }
+      })
+      .catch((error) => {
+        console.error('Error checking budget:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [totalCost, loadingItems]);
+
   const handleQuantityChange = async (itemId: string, delta: number) => {
     const currentItem = cartItems.find((item) => item.itemId === itemId);
     if (!currentItem) {
@@ -182,21 +237,69 @@ export function CartPageContent() {
     }
   };
 
-  const handleCheckout = async () => {
+  // Fetch the cart review; opens the review dialog when changes need confirming
+  const reviewCheckout = async (): Promise<boolean> => {
+    const response = await fetch('/api/checkout/review');
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(
+        errorData.message || `Checkout failed: ${response.statusText}`
+      );
+    }
+
+    const { data: review }: { data: CheckoutReview } = await response.json();
+    if (review.requiresConfirmation) {
+      setCheckoutReview(review);
+      return false;
+    }
+    return true;
+  };
+
+  const handleCheckout = async (confirmedTotal?: number) => {
     setIsCheckingOut(true);
 
     try {
+      if (confirmedTotal === undefined && !(await reviewCheckout())) {
+        return;
+      }
+
+      checkoutKeyRef.current ??= crypto.randomUUID();
       const response = await fetch('/api/checkout', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': checkoutKeyRef.current,
         },
+        body: JSON.stringify({
+          confirmedTotal,
+          ...toCheckoutDetailsBody(
+            checkoutDetails,
+            cartItems.map((item) => item.itemId)
+          ),
+        }),
       });
 
+      // The catalog changed again since the review: review the new state
+      if (response.status === 409) {
+        const errorData = await response.json().catch(() => ({}));
+        if (errorData.error === 'CHECKOUT_CONFIRMATION_REQUIRED') {
+          setCheckoutReview(null);
+          toast.info('Your cart changed again', {
+            description: 'Please review the latest prices before submitting.',
+          });
+          await reviewCheckout();
+          return;
+        }
+        throw new Error(errorData.message || 'Checkout failed');
+      }
+
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
         throw new Error(
-          errorData.error || `Checkout failed: ${response.statusText}`
+          errorData.message ||
+            errorData.error ||
+            `Checkout failed: ${response.statusText}`
         );
       }
 
@@ -205,13 +308,23 @@ export function CartPageContent() {
 
       // Update cart count to 0 (cart is cleared on server)
       setItemCount(0);
+      setCheckoutReview(null);
+      checkoutKeyRef.current = null;
 
       // Show success toast with purchase request details
+      const lineCount = purchaseRequest.items.length;
       toast.success('Checkout successful!', {
-        description: `Purchase request ${purchaseRequest.requestNumber} created with ${cartItems.length} ${cartItems.length === 1 ? 'item' : 'items'}. Total: $${purchaseRequest.total.toFixed(2)}`,
+        description: `Purchase request ${purchaseRequest.requestNumber} created with ${lineCount} ${lineCount === 1 ? 'item' : 'items'}. Total: $${purchaseRequest.total.toFixed(2)}`,
         duration: 5000,
       });
 
+      if (data.budget?.exceedsBudget) {
+        toast.warning('Department budget exceeded', {
+          description: data.budget.message,
+          duration: 8000,
+        });
+      }
+
       // Redirect immediately to purchase request detail page
       // Note: Cart will be cleared on server, no need to reload before redirect
       router.push(`/purchase/${purchaseRequest.id}`);
@@ -226,8 +339,6 @@ export function CartPageContent() {
     }
   };
 
-  const totalCost = cartItems.reduce((sum, item) => sum + item.subtotal, 0);
-
   // Show loading state
   if (isLoading) {
     return (
@@ -446,10 +557,28 @@ export function CartPageContent() {
               </CardContent>
 
               <CardFooter className='p-0 flex-col gap-4'>
+                {/* Budget Check */}
+                {budgetCheck && <BudgetCheckAlert check={budgetCheck} />}
+
+                {/* Delivery and accounting details */}
+                <CheckoutDetailsFields
+                  value={checkoutDetails}
+                  onChange={setCheckoutDetails}
+                  lines={cartItems.map((item) => ({
+                    itemId: item.itemId,
+                    name: item.name,
+                  }))}
+                  disabled={isCheckingOut}
+                />
+
                 {/* Checkout Button */}
                 <Button
-                  onClick={handleCheckout}
-                  disabled={isCheckingOut || cartItems.length === 0}
+                  onClick={() => handleCheckout()}
+                  disabled={
+                    isCheckingOut ||
+                    cartItems.length === 0 ||
+                    !!budgetCheck?.blocked
+                  }
                   className='w-full'
                 >
                   {isCheckingOut ? (
@@ -471,6 +600,17 @@ export function CartPageContent() {
           </div>
         </div>
       )}
+
+      <SavedCartsPanel canSave={cartItems.length > 0} onCartChange={loadCart} />
+
+      <SharedCartsPanel />
+
+      <CheckoutReviewDialog
+        review={checkoutReview}
+        isSubmitting={isCheckingOut}
+        onConfirm={(confirmedTotal) => handleCheckout(confirmedTotal)}
+        onCancel={() => setCheckoutReview(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,272 @@
+'use client';
+
+import { BookmarkPlus, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+} from '@/components';
+import type { CartRestoreResult, SavedCart } from '@/domain/entities';
+import { SavedCartKind } from '@/domain/entities';
+
+import { describeCartRestore } from '../lib/cart-restore';
+
+const selectClassName =
+  'border-input h-9 rounded-md border bg-transparent px-3 text-sm shadow-xs disabled:opacity-50';
+
+type SavedCartsPanelProps = {
+  /** Whether the cart has lines to save */
+  canSave: boolean;
+
+  /** Called after the cart changed on the server (saved or restored) */
+  onCartChange: () => Promise<void>;
+};
+
+/**
+ * SavedCartsPanel - Saved carts and templates of the user
+ * Features:
+ * - Save the cart for later (empties the cart) or as a reusable template
+ * - Restore a saved cart or apply a template (merged at today's prices)
+ * - Delete saved carts and templates
+ */
+export function SavedCartsPanel({
+  canSave,
+  onCartChange,
+}: SavedCartsPanelProps) {
+  const [savedCarts, setSavedCarts] = useState<SavedCart[]>([]);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<SavedCartKind>(SavedCartKind.Saved);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadSavedCarts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/cart/saved');
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch saved carts: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setSavedCarts(data.data ?? []);
+    } catch (error) {
+      console.error('Error loading saved carts:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSavedCarts();
+  }, [loadSavedCarts]);
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/cart/saved', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, kind }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || response.statusText);
+      }
+
+      toast.success(
+        kind === SavedCartKind.Template ? 'Template saved' : 'Cart saved',
+        {
+          description:
+            kind === SavedCartKind.Template
+              ? `"${name.trim()}" can be applied to your cart at any time.`
+              : `"${name.trim()}" has been saved for later and your cart emptied.`,
+        }
+      );
+      setName('');
+      await Promise.all([loadSavedCarts(), onCartChange()]);
+    } catch (error) {
+      console.error('Error saving cart:', error);
+      toast.error('Failed to save cart', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRestore = async (savedCart: SavedCart) => {
+    setBusyId(savedCart.id);
+
+    try {
+      const response = await fetch(`/api/cart/saved/${savedCart.id}/restore`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || response.statusText);
+      }
+
+      const { data: result }: { data: CartRestoreResult } =
+        await response.json();
+      const description = describeCartRestore(result);
+
+      if (result.added.length === 0) {
+        toast.error('Nothing could be added to your cart', { description });
+      } else {
+        toast.success(
+          `Added ${result.added.length} item${result.added.length === 1 ? '' : 's'} from "${savedCart.name}"`,
+          { description }
+        );
+      }
+      await Promise.all([loadSavedCarts(), onCartChange()]);
+    } catch (error) {
+      console.error('Error restoring saved cart:', error);
+      toast.error('Failed to restore saved cart', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (savedCart: SavedCart) => {
+    setBusyId(savedCart.id);
+
+    try {
+      const response = await fetch(`/api/cart/saved/${savedCart.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || response.statusText);
+      }
+
+      setSavedCarts((current) =>
+        current.filter((entry) => entry.id !== savedCart.id)
+      );
+    } catch (error) {
+      console.error('Error deleting saved cart:', error);
+      toast.error('Failed to delete saved cart', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!canSave && savedCarts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className='p-6'>
+      <CardHeader className='p-0'>
+        <CardTitle>Saved Carts &amp; Templates</CardTitle>
+        <CardDescription>
+          Restored lines are added to your cart at today&apos;s prices
+        </CardDescription>
+      </CardHeader>
+      <CardContent className='p-0 space-y-4'>
+        {canSave && (
+          <form
+            onSubmit={handleSave}
+            className='flex flex-col sm:flex-row sm:items-end gap-2'
+          >
+            <div className='flex-1 space-y-1'>
+              <Label htmlFor='saved-cart-name'>Name</Label>
+              <Input
+                id='saved-cart-name'
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder='e.g., Monthly kitchen restock'
+                maxLength={100}
+              />
+            </div>
+            <select
+              aria-label='Save as'
+              className={selectClassName}
+              value={kind}
+              onChange={(e) => setKind(e.target.value as SavedCartKind)}
+            >
+              <option value={SavedCartKind.Saved}>Save for later</option>
+              <option value={SavedCartKind.Template}>Save as template</option>
+            </select>
+            <Button type='submit' disabled={isSaving || !name.trim()}>
+              {isSaving ? (
+                <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+              ) : (
+                <BookmarkPlus className='mr-2 h-4 w-4' />
+              )}
+              Save
+            </Button>
+          </form>
+        )}
+
+        {savedCarts.length > 0 && (
+          <ul className='divide-y divide-border'>
+            {savedCarts.map((savedCart) => (
+              <li
+                key={savedCart.id}
+                className='flex items-center justify-between gap-3 py-3'
+              >
+                <div className='min-w-0'>
+                  <div className='flex items-center gap-2'>
+                    <span className='truncate font-medium text-foreground'>
+                      {savedCart.name}
+                    </span>
+                    {savedCart.kind === SavedCartKind.Template && (
+                      <Badge variant='secondary'>Template</Badge>
+                    )}
+                  </div>
+                  <p className='text-sm text-muted-foreground'>
+                    {savedCart.items.length}{' '}
+                    {savedCart.items.length === 1 ? 'item' : 'items'} · $
+                    {savedCart.totalCost.toFixed(2)} when saved
+                  </p>
+                </div>
+                <div className='flex items-center gap-1'>
+                  <Button
+                    variant='outline'
+                    size='sm'
+                    onClick={() => handleRestore(savedCart)}
+                    disabled={busyId !== null}
+                  >
+                    <RotateCcw className='mr-2 h-4 w-4' />
+                    {savedCart.kind === SavedCartKind.Template
+                      ? 'Apply'
+                      : 'Restore'}
+                  </Button>
+                  <Button
+                    variant='ghost'
+                    size='icon'
+                    onClick={() => handleDelete(savedCart)}
+                    disabled={busyId !== null}
+                    aria-label={`Delete ${savedCart.name}`}
+                    title='Delete'
+                  >
+                    <Trash2 className='h-4 w-4' />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,692 @@
+/**
+ * Shared Cart Page Content
+ *
+ * A team cart filled by its owner and collaborators. Every change is sent
+ * with the cart version it is based on; when someone else changed the cart
+ * in the meantime the latest version is loaded and the user tries again.
+ * Only the owner manages collaborators and checks out.
+ */
+
+'use client';
+
+import {
+  ArrowLeft,
+  Loader2,
+  LogOut,
+  Minus,
+  Plus,
+  RefreshCw,
+  Search,
+  Trash2,
+  UserPlus,
+} from 'lucide-react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { use, useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+} from '@/components';
+import type { Cart, CheckoutReview, Item } from '@/domain/entities';
+import { CartRole } from '@/domain/entities';
+import { getPackSize } from '@/features/catalog/lib/item-units';
+import type { CheckoutDetailsValue } from '@/features/checkout/components/CheckoutDetailsFields';
+import {
+  CheckoutDetailsFields,
+  EMPTY_CHECKOUT_DETAILS,
+  toCheckoutDetailsBody,
+} from '@/features/checkout/components/CheckoutDetailsFields';
+import { CheckoutReviewDialog } from '@/features/checkout/components/CheckoutReviewDialog';
+import { cn } from '@/lib/utils';
+
+import {
+  CART_ROLE_LABELS,
+  canCheckoutCart,
+  canRemoveCartMember,
+  getCartRole,
+} from '../lib/cart-sharing';
+
+interface SharedCartPageContentProps {
+  params: Promise<{ id: string }>;
+}
+
+export function SharedCartPageContent({ params }: SharedCartPageContentProps) {
+  const { id } = use(params);
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [cart, setCart] = useState<Cart | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [email, setEmail] = useState('');
+  const [query, setQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<Item[]>([]);
+  const [isCheckingOut, setIsCheckingOut] = useState(false);
+  const [checkoutReview, setCheckoutReview] = useState<CheckoutReview | null>(
+    null
+  );
+  const [checkoutDetails, setCheckoutDetails] = useState<CheckoutDetailsValue>(
+    EMPTY_CHECKOUT_DETAILS
+  );
+  // Idempotency key of the current checkout attempt, kept across retries
+  const checkoutKeyRef = useRef<string | null>(null);
+
+  const loadCart = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/cart/shared/${id}`);
+
+      if (response.status === 404) {
+        setNotFound(true);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to fetch cart: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setCart(data.data);
+    } catch (error) {
+      console.error('Error loading shared cart:', error);
+      toast.error('Failed to load cart', {
+        description:
+          error instanceof Error
+            ? error.message
+            : 'Please try refreshing the page',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadCart();
+  }, [loadCart]);
+
+  // Send a change; on a version conflict reload the latest cart instead
+  const updateCart = async (
+    url: string,
+    init: RequestInit,
+    failureTitle: string
+  ): Promise<Cart | null> => {
+    setIsBusy(true);
+
+    try {
+      const response = await fetch(url, init);
+
+      if (response.status === 409) {
+        const errorData = await response.json().catch(() => ({}));
+        if (errorData.error === 'CART_CONFLICT') {
+          toast.info('Someone else changed this cart', {
+            description: 'The latest version is shown. Please try again.',
+          });
+          await loadCart();
+          return null;
+        }
+        throw new Error(errorData.message || response.statusText);
+      }
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || response.statusText);
+      }
+
+      const data = await response.json();
+      if (data.data) {
+        setCart(data.data);
+      }
+      return data.data ?? null;
+    } catch (error) {
+      console.error(`${failureTitle}:`, error);
+      toast.error(failureTitle, {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const sendJson = (
+    method: string,
+    body: unknown,
+    headers: Record<string, string> = {}
+  ): RequestInit => ({
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+
+  const handleSearch = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      const response = await fetch(
+        `/api/items?q=${encodeURIComponent(query.trim())}&limit=5`
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to search catalog: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setSearchResults(data.items ?? []);
+    } catch (error) {
+      console.error('Error searching catalog:', error);
+      toast.error('Failed to search catalog');
+    }
+  };
+
+  const handleAddItem = async (item: Item) => {
+    if (!cart) {
+      return;
+    }
+    const updated = await updateCart(
+      `/api/cart/shared/${id}/items`,
+      sendJson('POST', {
+        itemId: item.id,
+        quantity: getPackSize(item),
+        version: cart.version,
+      }),
+      'Failed to add item'
+    );
+    if (updated) {
+      toast.success('Item added', {
+        description: `${item.name} has been added to ${cart.name}.`,
+      });
+    }
+  };
+
+  const handleQuantityChange = async (itemId: string, quantity: number) => {
+    if (!cart) {
+      return;
+    }
+    await updateCart(
+      `/api/cart/shared/${id}/items/${itemId}`,
+      sendJson('PATCH', {
+        quantity: Math.max(1, Math.min(999, quantity)),
+        version: cart.version,
+      }),
+      'Failed to update quantity'
+    );
+  };
+
+  const handleRemoveItem = async (itemId: string) => {
+    if (!cart) {
+      return;
+    }
+    await updateCart(
+      `/api/cart/shared/${id}/items/${itemId}?version=${cart.version}`,
+      { method: 'DELETE' },
+      'Failed to remove item'
+    );
+  };
+
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const updated = await updateCart(
+      `/api/cart/shared/${id}/members`,
+      sendJson('POST', { email }),
+      'Failed to invite collaborator'
+    );
+    if (updated) {
+      toast.success('Collaborator added', {
+        description: `${email.trim()} can now add items to this cart.`,
+      });
+      setEmail('');
+    }
+  };
+
+  const handleRemoveMember = async (memberId: string) => {
+    const updated = await updateCart(
+      `/api/cart/shared/${id}/members/${memberId}`,
+      { method: 'DELETE' },
+      'Failed to remove member'
+    );
+    if (updated && memberId === session?.user?.id) {
+      toast.info('You left the cart');
+      router.push('/cart');
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsBusy(true);
+
+    try {
+      const response = await fetch(`/api/cart/shared/${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || response.statusText);
+      }
+
+      toast.info('Shared cart deleted');
+      router.push('/cart');
+    } catch (error) {
+      console.error('Error deleting shared cart:', error);
+      toast.error('Failed to delete shared cart', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+      setIsBusy(false);
+    }
+  };
+
+  // Fetch the cart review; opens the review dialog when changes need confirming
+  const reviewCheckout = async (): Promise<boolean> => {
+    const response = await fetch(`/api/checkout/review?cartId=${id}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(
+        errorData.message || `Checkout failed: ${response.statusText}`
+      );
+    }
+
+    const { data: review }: { data: CheckoutReview } = await response.json();
+    if (review.requiresConfirmation) {
+      setCheckoutReview(review);
+      return false;
+    }
+    return true;
+  };
+
+  const handleCheckout = async (confirmedTotal?: number) => {
+    if (!cart) {
+      return;
+    }
+    setIsCheckingOut(true);
+
+    try {
+      if (confirmedTotal === undefined && !(await reviewCheckout())) {
+        return;
+      }
+
+      checkoutKeyRef.current ??= crypto.randomUUID();
+      const response = await fetch(
+        '/api/checkout',
+        sendJson(
+          'POST',
+          {
+            cartId: id,
+            version: cart.version,
+            confirmedTotal,
+            ...toCheckoutDetailsBody(
+              checkoutDetails,
+              cart.items.map((item) => item.itemId)
+            ),
+          },
+          { 'Idempotency-Key': checkoutKeyRef.current }
+        )
+      );
+
+      if (response.status === 409) {
+        const errorData = await response.json().catch(() => ({}));
+        setCheckoutReview(null);
+        if (errorData.error === 'CART_CONFLICT') {
+          toast.info('Someone else changed this cart', {
+            description: 'Please review the latest version before submitting.',
+          });
+          await loadCart();
+          return;
+        }
+        if (errorData.error === 'CHECKOUT_CONFIRMATION_REQUIRED') {
+          toast.info('Your cart changed again', {
+            description: 'Please review the latest prices before submitting.',
+          });
+          await reviewCheckout();
+          return;
+        }
+        throw new Error(errorData.message || 'Checkout failed');
+      }
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(
+          errorData.message || `Checkout failed: ${response.statusText}`
+        );
+      }
+
+      const data = await response.json();
+      const purchaseRequest = data.purchaseRequest;
+      setCheckoutReview(null);
+      checkoutKeyRef.current = null;
+
+      toast.success('Checkout successful!', {
+        description: `Purchase request ${purchaseRequest.requestNumber} created. Total: $${purchaseRequest.total.toFixed(2)}`,
+        duration: 5000,
+      });
+      if (data.budget?.exceedsBudget) {
+        toast.warning('Department budget exceeded', {
+          description: data.budget.message,
+          duration: 8000,
+        });
+      }
+      router.push(`/purchase/${purchaseRequest.id}`);
+    } catch (error) {
+      console.error('Error during checkout:', error);
+      toast.error('Checkout failed', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setIsCheckingOut(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className='flex justify-center py-12'>
+        <Loader2 className='h-6 w-6 animate-spin text-muted-foreground' />
+      </div>
+    );
+  }
+
+  if (notFound || !cart) {
+    return (
+      <Card className='p-12 text-center'>
+        <h3 className='text-lg font-medium text-foreground mb-2'>
+          Shared cart not found
+        </h3>
+        <p className='text-muted-foreground mb-6'>
+          It may have been deleted, or you are no longer a member.
+        </p>
+        <Button asChild>
+          <Link href='/cart'>Back to Cart</Link>
+        </Button>
+      </Card>
+    );
+  }
+
+  const userId = session?.user?.id ?? '';
+  const role = getCartRole(cart, userId);
+  const isOwner = role === CartRole.Owner;
+
+  return (
+    <div className='space-y-6'>
+      {/* Header */}
+      <div className='flex flex-col sm:flex-row sm:items-start justify-between gap-3'>
+        <div>
+          <Link
+            href='/cart'
+            className='inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground'
+          >
+            <ArrowLeft className='h-4 w-4' />
+            Cart
+          </Link>
+          <h1 className='mt-2 text-2xl sm:text-3xl font-bold text-foreground flex items-center gap-2 sm:gap-3'>
+            <span>{cart.name}</span>
+            {role && (
+              <Badge variant='secondary'>{CART_ROLE_LABELS[role]}</Badge>
+            )}
+          </h1>
+          <p className='mt-2 text-sm sm:text-base text-muted-foreground'>
+            Shared cart · version {cart.version}
+          </p>
+        </div>
+        <div className='flex items-center gap-2'>
+          <Button variant='outline' onClick={loadCart} disabled={isBusy}>
+            <RefreshCw className='mr-2 h-4 w-4' />
+            Reload
+          </Button>
+          {isOwner ? (
+            <Button variant='outline' onClick={handleDelete} disabled={isBusy}>
+              <Trash2 className='mr-2 h-4 w-4' />
+              Delete cart
+            </Button>
+          ) : (
+            <Button
+              variant='outline'
+              onClick={() => handleRemoveMember(userId)}
+              disabled={isBusy}
+            >
+              <LogOut className='mr-2 h-4 w-4' />
+              Leave
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className='grid grid-cols-1 lg:grid-cols-3 gap-6'>
+        <div className='lg:col-span-2 space-y-4'>
+          {/* Add Items */}
+          <Card className='p-6'>
+            <CardContent className='p-0 space-y-3'>
+              <form onSubmit={handleSearch} className='flex gap-2'>
+                <Input
+                  aria-label='Search the catalog'
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder='Search the catalog to add items'
+                />
+                <Button type='submit' variant='outline'>
+                  <Search className='h-4 w-4' />
+                </Button>
+              </form>
+              {searchResults.length > 0 && (
+                <ul className='divide-y divide-border'>
+                  {searchResults.map((item) => (
+                    <li
+                      key={item.id}
+                      className='flex items-center justify-between gap-3 py-2'
+                    >
+                      <span className='truncate text-sm'>
+                        {item.name} · ${item.estimatedPrice.toFixed(2)}
+                      </span>
+                      <Button
+                        size='sm'
+                        variant='outline'
+                        onClick={() => handleAddItem(item)}
+                        disabled={isBusy}
+                      >
+                        <Plus className='mr-1 h-4 w-4' />
+                        Add
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Cart Lines */}
+          {cart.items.length === 0 ? (
+            <Card className='p-12 text-center text-muted-foreground'>
+              No items yet. Search the catalog above to add some.
+            </Card>
+          ) : (
+            cart.items.map((item) => (
+              <Card
+                key={item.itemId}
+                className={cn(
+                  'p-4 sm:p-6 transition-opacity',
+                  isBusy && 'opacity-50 pointer-events-none'
+                )}
+              >
+                <div className='flex items-start justify-between gap-4'>
+                  <div className='min-w-0'>
+                    <h3 className='text-base sm:text-lg font-medium text-foreground truncate'>
+                      {item.name}
+                    </h3>
+                    <p className='text-sm text-muted-foreground mt-1'>
+                      ${item.unitPrice.toFixed(2)} per unit
+                      {item.addedByName && ` · added by ${item.addedByName}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRemoveItem(item.itemId)}
+                    className='p-2 text-muted-foreground hover:text-destructive hover:bg-accent rounded-lg transition-colors'
+                    aria-label='Remove item'
+                    title='Remove item'
+                  >
+                    <Trash2 className='h-5 w-5' />
+                  </button>
+                </div>
+                <div className='flex items-center justify-between gap-4 mt-4'>
+                  <div className='flex items-center gap-2'>
+                    <button
+                      onClick={() =>
+                        handleQuantityChange(item.itemId, item.quantity - 1)
+                      }
+                      disabled={item.quantity <= 1}
+                      className='p-1.5 rounded-lg border border-input hover:bg-accent transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+                      aria-label='Decrease quantity'
+                    >
+                      <Minus className='h-4 w-4' />
+                    </button>
+                    <span className='w-12 text-center font-medium text-foreground'>
+                      {item.quantity}
+                    </span>
+                    <button
+                      onClick={() =>
+                        handleQuantityChange(item.itemId, item.quantity + 1)
+                      }
+                      disabled={item.quantity >= 999}
+                      className='p-1.5 rounded-lg border border-input hover:bg-accent transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+                      aria-label='Increase quantity'
+                    >
+                      <Plus className='h-4 w-4' />
+                    </button>
+                  </div>
+                  <p className='text-lg font-semibold text-foreground whitespace-nowrap'>
+                    ${item.subtotal.toFixed(2)}
+                  </p>
+                </div>
+              </Card>
+            ))
+          )}
+        </div>
+
+        <div className='lg:col-span-1 space-y-4'>
+          {/* Summary */}
+          <Card className='p-6'>
+            <CardHeader className='p-0 mb-4'>
+              <CardTitle>Order Summary</CardTitle>
+            </CardHeader>
+            <CardContent className='p-0 space-y-4'>
+              <div className='flex justify-between'>
+                <span className='text-lg font-semibold text-foreground'>
+                  Total
+                </span>
+                <span className='text-lg font-semibold text-foreground'>
+                  ${cart.totalCost.toFixed(2)}
+                </span>
+              </div>
+              {canCheckoutCart(role) && (
+                <CheckoutDetailsFields
+                  value={checkoutDetails}
+                  onChange={setCheckoutDetails}
+                  lines={cart.items.map((item) => ({
+                    itemId: item.itemId,
+                    name: item.name,
+                  }))}
+                  disabled={isCheckingOut}
+                />
+              )}
+              <Button
+                onClick={() => handleCheckout()}
+                disabled={
+                  !canCheckoutCart(role) ||
+                  isCheckingOut ||
+                  cart.items.length === 0
+                }
+                className='w-full'
+              >
+                {isCheckingOut && (
+                  <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+                )}
+                Proceed to Checkout
+              </Button>
+              {!canCheckoutCart(role) && (
+                <p className='text-xs text-muted-foreground text-center'>
+                  Only the cart owner can check out
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Members */}
+          <Card className='p-6'>
+            <CardHeader className='p-0 mb-4'>
+              <CardTitle>Members</CardTitle>
+              <CardDescription>
+                Collaborators can add, change and remove items
+              </CardDescription>
+            </CardHeader>
+            <CardContent className='p-0 space-y-4'>
+              <ul className='divide-y divide-border'>
+                {cart.members.map((member) => (
+                  <li
+                    key={member.userId}
+                    className='flex items-center justify-between gap-2 py-2'
+                  >
+                    <span className='truncate text-sm'>
+                      {member.name}{' '}
+                      <span className='text-muted-foreground'>
+                        · {CART_ROLE_LABELS[member.role]}
+                      </span>
+                    </span>
+                    {isOwner &&
+                      canRemoveCartMember(cart, userId, member.userId) && (
+                        <Button
+                          variant='ghost'
+                          size='icon'
+                          onClick={() => handleRemoveMember(member.userId)}
+                          disabled={isBusy}
+                          aria-label={`Remove ${member.name}`}
+                          title='Remove'
+                        >
+                          <Trash2 className='h-4 w-4' />
+                        </Button>
+                      )}
+                  </li>
+                ))}
+              </ul>
+              {isOwner && (
+                <form onSubmit={handleInvite} className='space-y-2'>
+                  <Label htmlFor='collaborator-email'>Invite by email</Label>
+                  <div className='flex gap-2'>
+                    <Input
+                      id='collaborator-email'
+                      type='email'
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      placeholder='colleague@company.com'
+                    />
+                    <Button
+                      type='submit'
+                      variant='outline'
+                      disabled={isBusy || !email.trim()}
+                      aria-label='Invite'
+                    >
+                      <UserPlus className='h-4 w-4' />
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <CheckoutReviewDialog
+        review={checkoutReview}
+        isSubmitting={isCheckingOut}
+        onConfirm={(confirmedTotal) => handleCheckout(confirmedTotal)}
+        onCancel={() => setCheckoutReview(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { Loader2, Plus, Users } from 'lucide-react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+} from '@/components';
+import type { Cart } from '@/domain/entities';
+
+import { CART_ROLE_LABELS, getCartRole } from '../lib/cart-sharing';
+
+/**
+ * SharedCartsPanel - Team carts the user owns or collaborates on
+ * Features:
+ * - List shared carts with the user's role
+ * - Create a shared cart and open it
+ */
+export function SharedCartsPanel() {
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [sharedCarts, setSharedCarts] = useState<Cart[]>([]);
+  const [name, setName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const loadSharedCarts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/cart/shared');
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch shared carts: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setSharedCarts(data.data ?? []);
+    } catch (error) {
+      console.error('Error loading shared carts:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSharedCarts();
+  }, [loadSharedCarts]);
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsCreating(true);
+
+    try {
+      const response = await fetch('/api/cart/shared', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || response.statusText);
+      }
+
+      const { data: cart }: { data: Cart } = await response.json();
+      router.push(`/cart/shared/${cart.id}`);
+    } catch (error) {
+      console.error('Error creating shared cart:', error);
+      toast.error('Failed to create shared cart', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+      setIsCreating(false);
+    }
+  };
+
+  const userId = session?.user?.id ?? '';
+
+  return (
+    <Card className='p-6'>
+      <CardHeader className='p-0'>
+        <CardTitle>Shared Carts</CardTitle>
+        <CardDescription>
+          Fill a cart together with your team; the owner checks it out
+        </CardDescription>
+      </CardHeader>
+      <CardContent className='p-0 space-y-4'>
+        <form
+          onSubmit={handleCreate}
+          className='flex flex-col sm:flex-row sm:items-end gap-2'
+        >
+          <div className='flex-1 space-y-1'>
+            <Label htmlFor='shared-cart-name'>Name</Label>
+            <Input
+              id='shared-cart-name'
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder='e.g., Office move, 3rd floor'
+              maxLength={100}
+            />
+          </div>
+          <Button type='submit' disabled={isCreating || !name.trim()}>
+            {isCreating ? (
+              <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+            ) : (
+              <Plus className='mr-2 h-4 w-4' />
+            )}
+            Create
+          </Button>
+        </form>
+
+        {sharedCarts.length > 0 && (
+          <ul className='divide-y divide-border'>
+            {sharedCarts.map((cart) => {
+              const role = getCartRole(cart, userId);
+              return (
+                <li
+                  key={cart.id}
+                  className='flex items-center justify-between gap-3 py-3'
+                >
+                  <div className='min-w-0'>
+                    <div className='flex items-center gap-2'>
+                      <Link
+                        href={`/cart/shared/${cart.id}`}
+                        className='truncate font-medium text-foreground hover:underline'
+                      >
+                        {cart.name}
+                      </Link>
+                      {role && (
+                        <Badge variant='secondary'>
+                          {CART_ROLE_LABELS[role]}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className='text-sm text-muted-foreground'>
+                      {cart.items.length}{' '}
+                      {cart.items.length === 1 ? 'item' : 'items'} · $
+                      {cart.totalCost.toFixed(2)}
+                    </p>
+                  </div>
+                  <span className='flex items-center gap-1 text-sm text-muted-foreground'>
+                    <Users className='h-4 w-4' />
+                    {cart.members.length}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,5 +3,9 @@
  * Manages shopping cart operations for procurement
  */
 
+export * from './lib/cart-restore';
+export * from './lib/cart-sharing';
 export * from './lib/cart.service';
+export * from './lib/saved-cart.service';
+export * from './lib/shared-cart.service';
 export { CartPageContent } from './components/CartPageContent';
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+
+import { ItemStatus } from '@/domain/entities';
+
+import type { CartRestoreItem } from './cart-restore';
+import { describeCartRestore, planCartRestore } from './cart-restore';
+
+const limits = { maxLines: 3, maxQuantity: 999 };
+
+const item = (
+  id: string,
+  overrides: Partial<CartRestoreItem> = {}
+): CartRestoreItem => ({
+  id,
+  name: `Item ${id}`,
+  status: ItemStatus.Active,
+  estimatedPrice: 10,
+  unit: 'each',
+  ...overrides,
+});
+
+const line = (itemId: string, quantity: number, unitPrice = 8) => ({
+  itemId,
+  name: `Old ${itemId}`,
+  quantity,
+  unitPrice,
+});
+
+describe('cart-restore', () => {
+  describe('planCartRestore', () => {
+    it('should re-price lines at the current catalog price', () => {
+      const plan = planCartRestore(
+        [line('a', 2, 8)],
+        [item('a', { estimatedPrice: 9.5 })],
+        [],
+        limits
+      );
+
+      expect(plan).toEqual({
+        added: [
+          {
+            itemId: 'a',
+            name: 'Item a',
+            quantity: 2,
+            unitPrice: 9.5,
+            previousUnitPrice: 8,
+          },
+        ],
+        skipped: [],
+      });
+    });
+
+    it('should skip deleted, archived and unorderable items', () => {
+      const plan = planCartRestore(
+        [line('gone', 1), line('old', 2), line('new', 3)],
+        [
+          item('old', { status: ItemStatus.Inactive }),
+          item('new', { status: ItemStatus.PendingReview }),
+        ],
+        [],
+        limits
+      );
+
+      expect(plan.added).toEqual([]);
+      expect(plan.skipped).toEqual([
+        { itemId: 'gone', name: 'Old gone', quantity: 1, reason: 'not_found' },
+        { itemId: 'old', name: 'Item old', quantity: 2, reason: 'archived' },
+        { itemId: 'new', name: 'Item new', quantity: 3, reason: 'unavailable' },
+      ]);
+    });
+
+    it('should combine lines of the same item and round up to packs', () => {
+      const boxed = item('a', {
+        unitConversions: [{ unit: 'box', factor: 12 }],
+        orderUnit: 'box',
+      });
+
+      const plan = planCartRestore(
+        [line('a', 10), line('a', 5)],
+        [boxed],
+        [],
+        limits
+      );
+
+      expect(plan.added[0].quantity).toBe(24);
+    });
+
+    it('should stay within the cart limits', () => {
+      const plan = planCartRestore(
+        [line('a', 5), line('b', 1), line('c', 1)],
+        [item('a'), item('b'), item('c')],
+        [
+          { itemId: 'a', quantity: 997 },
+          { itemId: 'x', quantity: 1 },
+        ],
+        limits
+      );
+
+      // 'a' tops up to the maximum, 'b' takes the last free line
+      expect(plan.added.map((entry) => [entry.itemId, entry.quantity])).toEqual(
+        [
+          ['a', 2],
+          ['b', 1],
+        ]
+      );
+      expect(plan.skipped).toEqual([
+        { itemId: 'c', name: 'Item c', quantity: 1, reason: 'cart_full' },
+      ]);
+    });
+
+    it('should skip lines already at the maximum quantity', () => {
+      const plan = planCartRestore(
+        [line('a', 1)],
+        [item('a')],
+        [{ itemId: 'a', quantity: 999 }],
+        limits
+      );
+
+      expect(plan.skipped[0].reason).toBe('quantity_limit');
+    });
+  });
+
+  describe('describeCartRestore', () => {
+    it('should list price changes and skipped lines', () => {
+      expect(
+        describeCartRestore({
+          added: [
+            {
+              itemId: 'a',
+              name: 'Coffee Beans',
+              quantity: 2,
+              unitPrice: 13,
+              previousUnitPrice: 12.5,
+            },
+            {
+              itemId: 'b',
+              name: 'Paper Cups',
+              quantity: 1,
+              unitPrice: 3,
+              previousUnitPrice: 3,
+            },
+          ],
+          skipped: [
+            { itemId: 'c', name: 'Tea', quantity: 1, reason: 'archived' },
+          ],
+        })
+      ).toBe(
+        'Coffee Beans: price changed from $12.50 to $13.00; Tea skipped (archived)'
+      );
+    });
+
+    it('should return undefined when nothing changed', () => {
+      expect(describeCartRestore({ added: [], skipped: [] })).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Cart Restore
+ *
+ * Pure rules for putting earlier lines back into the cart (saved carts,
+ * templates, reorders of past purchase requests):
+ * - Lines are re-priced at the current catalog price
+ * - Deleted, archived and otherwise unorderable items are skipped
+ * - Quantities are rounded up to whole packs and merged with lines
+ *   already in the cart, within the cart limits
+ *
+ * Kept free of database access so the rules can be tested on their own.
+ */
+
+import type {
+  CartItem,
+  CartRestoreLine,
+  CartRestoreSkip,
+  CartRestoreSkipReason,
+  Item,
+  ItemId,
+} from '@/domain/entities';
+import {
+  isItemArchived,
+  isItemPurchasable,
+} from '@/features/catalog/lib/catalog-lifecycle';
+import {
+  getPackSize,
+  roundToPackSize,
+} from '@/features/catalog/lib/item-units';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const CART_RESTORE_SKIP_LABELS: Record<CartRestoreSkipReason, string> = {
+  not_found: 'no longer in the catalog',
+  archived: 'archived',
+  unavailable: 'not available to order',
+  cart_full: 'cart is full',
+  quantity_limit: 'maximum quantity reached',
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Line to restore (saved cart line or purchase request line)
+ */
+export interface CartRestoreSource {
+  itemId: ItemId;
+  name: string;
+  quantity: number;
+
+  /** Price when the line was saved or ordered */
+  unitPrice: number;
+}
+
+/**
+ * Current catalog state of a restored item
+ */
+export type CartRestoreItem = Pick<
+  Item,
+  | 'id'
+  | 'name'
+  | 'status'
+  | 'estimatedPrice'
+  | 'unit'
+  | 'unitConversions'
+  | 'orderUnit'
+>;
+
+/**
+ * Cart limits (see cart.schema)
+ */
+export interface CartRestoreLimits {
+  /** Maximum number of lines in a cart */
+  maxLines: number;
+
+  /** Maximum quantity of a cart line */
+  maxQuantity: number;
+}
+
+/**
+ * Lines to add to the cart and lines that cannot be restored
+ */
+export interface CartRestorePlan {
+  added: CartRestoreLine[];
+  skipped: CartRestoreSkip[];
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Plan restoring lines into a cart
+ * Lines of the same item are combined. Added quantities come on top of
+ * the quantity already in the cart.
+ *
+ * @param items - Current catalog items of the lines (missing = deleted)
+ * @param cartLines - Lines already in the cart
+ */
+export function planCartRestore(
+  sources: CartRestoreSource[],
+  items: CartRestoreItem[],
+  cartLines: Array<Pick<CartItem, 'itemId' | 'quantity'>>,
+  limits: CartRestoreLimits
+): CartRestorePlan {
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const inCart = new Map(cartLines.map((line) => [line.itemId, line.quantity]));
+
+  const combined = new Map<ItemId, CartRestoreSource>();
+  for (const source of sources) {
+    const existing = combined.get(source.itemId);
+    combined.set(
+      source.itemId,
+      existing
+        ? { ...existing, quantity: existing.quantity + source.quantity }
+        : source
+    );
+  }
+
+  const plan: CartRestorePlan = { added: [], skipped: [] };
+  let lineCount = cartLines.length;
+
+  for (const source of combined.values()) {
+    const item = itemsById.get(source.itemId);
+    const skip = (reason: CartRestoreSkip['reason']) =>
+      plan.skipped.push({
+        itemId: source.itemId,
+        name: item?.name ?? source.name,
+        quantity: source.quantity,
+        reason,
+      });
+
+    if (!item) {
+      skip('not_found');
+      continue;
+    }
+    if (isItemArchived(item.status)) {
+      skip('archived');
+      continue;
+    }
+    if (!isItemPurchasable(item.status)) {
+      skip('unavailable');
+      continue;
+    }
+
+    const current = inCart.get(item.id);
+    if (current === undefined && lineCount >= limits.maxLines) {
+      skip('cart_full');
+      continue;
+    }
+
+    // Whole packs, without going over the line maximum
+    const packSize = getPackSize(item);
+    const room = limits.maxQuantity - (current ?? 0);
+    const quantity = Math.min(
+      roundToPackSize(source.quantity, packSize),
+      Math.floor(room / packSize) * packSize
+    );
+    if (quantity <= 0) {
+      skip('quantity_limit');
+      continue;
+    }
+
+    if (current === undefined) {
+      lineCount++;
+    }
+    plan.added.push({
+      itemId: item.id,
+      name: item.name,
+      quantity,
+      unitPrice: item.estimatedPrice,
+      previousUnitPrice: source.unitPrice,
+    });
+  }
+
+  return plan;
+}
+
+/**
+ * Describe price changes and skipped lines of a restore for the user
+ *
+ * @returns Description, or undefined when every line was added unchanged
+ */
+export function describeCartRestore(plan: CartRestorePlan): string | undefined {
+  const repriced = plan.added.filter(
+    (line) => line.unitPrice !== line.previousUnitPrice
+  );
+  const parts = [
+    ...repriced.map(
+      (line) =>
+        `${line.name}: price changed from $${line.previousUnitPrice.toFixed(2)} to $${line.unitPrice.toFixed(2)}`
+    ),
+    ...plan.skipped.map(
+      (line) =>
+        `${line.name} skipped (${CART_RESTORE_SKIP_LABELS[line.reason]})`
+    ),
+  ];
+
+  return parts.length > 0 ? parts.join('; ') : undefined;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Cart } from '@/domain/entities';
+import { CartRole } from '@/domain/entities';
+
+import {
+  canCheckoutCart,
+  canRemoveCartMember,
+  getCartRole,
+} from './cart-sharing';
+
+const member = (userId: string, role: CartRole) => ({
+  userId,
+  name: `User ${userId}`,
+  role,
+  addedAt: new Date('2025-01-01'),
+});
+
+const sharedCart: Pick<Cart, 'userId' | 'isShared' | 'members'> = {
+  userId: 'owner',
+  isShared: true,
+  members: [
+    member('owner', CartRole.Owner),
+    member('alex', CartRole.Collaborator),
+    member('sam', CartRole.Collaborator),
+  ],
+};
+
+describe('cart-sharing', () => {
+  describe('getCartRole', () => {
+    it('should return the member role on a shared cart', () => {
+      expect(getCartRole(sharedCart, 'owner')).toBe(CartRole.Owner);
+      expect(getCartRole(sharedCart, 'alex')).toBe(CartRole.Collaborator);
+      expect(getCartRole(sharedCart, 'stranger')).toBeUndefined();
+    });
+
+    it('should make the user of a personal cart its owner', () => {
+      const personal = { userId: 'me', isShared: false, members: [] };
+
+      expect(getCartRole(personal, 'me')).toBe(CartRole.Owner);
+      expect(getCartRole(personal, 'you')).toBeUndefined();
+    });
+  });
+
+  describe('canCheckoutCart', () => {
+    it('should only let the owner check out', () => {
+      expect(canCheckoutCart(CartRole.Owner)).toBe(true);
+      expect(canCheckoutCart(CartRole.Collaborator)).toBe(false);
+      expect(canCheckoutCart(undefined)).toBe(false);
+    });
+  });
+
+  describe('canRemoveCartMember', () => {
+    it('should let the owner remove collaborators', () => {
+      expect(canRemoveCartMember(sharedCart, 'owner', 'alex')).toBe(true);
+    });
+
+    it('should let collaborators leave but not remove others', () => {
+      expect(canRemoveCartMember(sharedCart, 'alex', 'alex')).toBe(true);
+      expect(canRemoveCartMember(sharedCart, 'alex', 'sam')).toBe(false);
+    });
+
+    it('should never remove the owner', () => {
+      expect(canRemoveCartMember(sharedCart, 'owner', 'owner')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Cart Sharing
+ *
+ * Pure rules for shared team carts:
+ * - The owner and collaborators add, change and remove lines
+ * - Only the owner checks out and manages collaborators
+ * - A collaborator can leave; the owner cannot (delete the cart instead)
+ *
+ * Kept free of database access so the rules can be tested on their own.
+ */
+
+import type { Cart, UserId } from '@/domain/entities';
+import { CartRole } from '@/domain/entities';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const CART_ROLE_LABELS: Record<CartRole, string> = {
+  [CartRole.Owner]: 'Owner',
+  [CartRole.Collaborator]: 'Collaborator',
+};
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Role of a user on a cart
+ * The user of a personal cart is its owner.
+ *
+ * @returns Role, or undefined when the user has no access
+ */
+export function getCartRole(
+  cart: Pick<Cart, 'userId' | 'isShared' | 'members'>,
+  userId: UserId
+): CartRole | undefined {
+  if (!cart.isShared) {
+    return cart.userId === userId ? CartRole.Owner : undefined;
+  }
+  return cart.members.find((member) => member.userId === userId)?.role;
+}
+
+/**
+ * Whether a user with this role can check the cart out
+ */
+export function canCheckoutCart(role: CartRole | undefined): boolean {
+  return role === CartRole.Owner;
+}
+
+/**
+ * Whether a user can remove a member from a shared cart
+ * The owner removes collaborators; collaborators can only leave.
+ */
+export function canRemoveCartMember(
+  cart: Pick<Cart, 'userId' | 'isShared' | 'members'>,
+  userId: UserId,
+  memberUserId: UserId
+): boolean {
+  const memberRole = getCartRole(cart, memberUserId);
+  if (!cart.isShared || memberRole !== CartRole.Collaborator) {
+    return false;
+  }
+  return (
+    userId === memberUserId || getCartRole(cart, userId) === CartRole.Owner
+  );
+}
@@ -4,16 +4,24 @@
  * Business logic for cart operations:
  * - Get or create cart for user
  * - Add items to cart
- * - Update item quantities
+ * - Update item quantities (whole packs for items with an order unit)
  * - Remove items from cart
  *
+ * Line operations work on the user's personal cart, or on a shared team
+ * cart the user is a member of (see shared-cart.service). Lines record who
+ * added them. Edits can name the cart version they are based on; edits of
+ * a cart changed by someone else since are refused (CartConflictError).
+ *
  * Enforces business rules from PRD (BR-2.x).
  */
 
-import type { Types } from 'mongoose';
-import { Types as MongooseTypes } from 'mongoose';
+import type { ClientSession, HydratedDocument, Types } from 'mongoose';
+import { Error as MongooseError, Types as MongooseTypes } from 'mongoose';
 
-import type { Cart } from '@/domain/entities';
+import type { CartDocument } from '@/domain/documents';
+import type { Cart, Item } from '@/domain/entities';
+import { isItemPurchasable } from '@/features/catalog/lib/catalog-lifecycle';
+import { getPackSizeError } from '@/features/catalog/lib/item-units';
 import { mapCartToEntity } from '@/lib/db/mappers';
 import {
   CartModel,
@@ -36,6 +44,17 @@ export interface AddItemToCartInput {
   quantity?: number;
 }
 
+/**
+ * Cart an operation applies to
+ */
+export interface CartTarget {
+  /** Shared cart ID; the user's personal cart when omitted */
+  cartId?: string;
+
+  /** Cart version the change is based on (optimistic concurrency) */
+  version?: number;
+}
+
 // ============================================================================
 // Error Classes
 // ============================================================================
@@ -61,6 +80,27 @@ export class CartLimitError extends Error {
   }
 }
 
+export class CartNotFoundError extends Error {
+  constructor(cartId: string) {
+    super(`Cart not found: ${cartId}`);
+    this.name = 'CartNotFoundError';
+  }
+}
+
+export class CartPermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CartPermissionError';
+  }
+}
+
+export class CartConflictError extends Error {
+  constructor() {
+    super('The cart was changed by someone else. Reload it and try again.');
+    this.name = 'CartConflictError';
+  }
+}
+
 // ============================================================================
 // Service Functions
 // ============================================================================
@@ -75,6 +115,89 @@ function toObjectId(userId: string | Types.ObjectId): Types.ObjectId {
     : userId;
 }
 
+/**
+ * Refuse quantities that are not a whole number of packs (order unit)
+ */
+function assertWholePacks(
+  item: Pick<Item, 'name' | 'unit' | 'unitConversions' | 'orderUnit'>,
+  quantity: number
+): void {
+  const packSizeError = getPackSizeError(item, quantity);
+  if (packSizeError) {
+    throw new ValidationError(packSizeError);
+  }
+}
+
+/**
+ * Load the cart an operation applies to
+ * A shared cart must exist and have the user as a member; the personal
+ * cart may not exist yet (null).
+ *
+ * @throws {CartNotFoundError} Shared cart not found or user not a member
+ * @throws {CartConflictError} Cart changed since the given version
+ */
+export async function findTargetCart(
+  userId: string | Types.ObjectId,
+  target: CartTarget = {}
+): Promise<HydratedDocument<CartDocument> | null> {
+  let cart: HydratedDocument<CartDocument> | null;
+
+  if (target.cartId) {
+    if (!MongooseTypes.ObjectId.isValid(target.cartId)) {
+      throw new CartNotFoundError(target.cartId);
+    }
+    cart = await CartModel.findOne({
+      _id: target.cartId,
+      isShared: true,
+      'members.userId': toObjectId(userId),
+    }).exec();
+    if (!cart) {
+      throw new CartNotFoundError(target.cartId);
+    }
+  } else {
+    cart = await CartModel.findOne({ userId: toObjectId(userId) }).exec();
+  }
+
+  if (cart && target.version !== undefined && target.version !== cart.__v) {
+    throw new CartConflictError();
+  }
+
+  return cart;
+}
+
+/**
+ * Save a cart, refusing to overwrite changes saved since it was loaded
+ *
+ * @param session - Transaction to save in (e.g., with a saved cart)
+ * @throws {CartConflictError} Cart changed concurrently
+ */
+export async function saveCartChanges(
+  cart: HydratedDocument<CartDocument>,
+  session?: ClientSession
+): Promise<HydratedDocument<CartDocument>> {
+  try {
+    return await cart.save({ session });
+  } catch (error) {
+    if (error instanceof MongooseError.VersionError) {
+      throw new CartConflictError();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Whether an error is a cart error to pass on to the caller
+ */
+function isCartError(error: unknown): boolean {
+  return (
+    error instanceof ValidationError ||
+    error instanceof ItemNotFoundError ||
+    error instanceof CartLimitError ||
+    error instanceof CartNotFoundError ||
+    error instanceof CartConflictError
+  );
+}
+
 /**
  * Get cart for user (or create if doesn't exist)
  *
@@ -85,14 +208,26 @@ function toObjectId(userId: string | Types.ObjectId): Types.ObjectId {
  * - BR-2.3: Cart associated with authenticated user
  *
  * @param userId - User ID (ObjectId or string)
+ * @param target - Shared cart to get instead of the personal cart
  * @returns User's cart
+ * @throws {CartNotFoundError} Shared cart not found or user not a member
  */
 export async function getCartForUser(
-  userId: string | Types.ObjectId
+  userId: string | Types.ObjectId,
+  target: CartTarget = {}
 ): Promise<Cart> {
   await connectDB();
 
   try {
+    if (target.cartId) {
+      const sharedCart = await findTargetCart(userId, {
+        cartId: target.cartId,
+      });
+      if (sharedCart) {
+        return mapCartToEntity(sharedCart.toObject());
+      }
+    }
+
     // Convert string userId to ObjectId for MongoDB query
     const userIdQuery = toObjectId(userId);
 
@@ -113,6 +248,9 @@ export async function getCartForUser(
 
     return mapCartToEntity(cart);
   } catch (error) {
+    if (error instanceof CartNotFoundError) {
+      throw error;
+    }
     console.error('Error fetching cart for user:', userId, error);
     throw new Error('Failed to fetch cart');
   }
@@ -125,14 +263,19 @@ export async function getCartForUser(
  * - BR-2.2: Quantity per item: min 1, max 999
  * - BR-2.3: Cart associated with authenticated user
  * - Max 50 items per cart
+ * - Archived items cannot be added
+ * - Items with an order unit are added in whole packs
+ * - New lines record the user who added them
  *
  * @param userId - User ID (ObjectId or string)
  * @param input - Item and quantity
+ * @param target - Shared cart and version the change is based on
  * @returns Updated cart
  */
 export async function addItemToCart(
   userId: string | Types.ObjectId,
-  input: AddItemToCartInput
+  input: AddItemToCartInput,
+  target: CartTarget = {}
 ): Promise<Cart> {
   await connectDB();
 
@@ -155,11 +298,17 @@ export async function addItemToCart(
       throw new ItemNotFoundError(input.itemId);
     }
 
+    if (!isItemPurchasable(item.status)) {
+      throw new ValidationError(
+        `${item.name} is no longer available in the catalog`
+      );
+    }
+
     // Convert string userId to ObjectId for MongoDB query
     const userIdQuery = toObjectId(userId);
 
     // Find or create cart
-    let cart = await CartModel.findOne({ userId: userIdQuery }).exec();
+    let cart = await findTargetCart(userId, target);
 
     if (!cart) {
       cart = new CartModel({
@@ -183,6 +332,8 @@ export async function addItemToCart(
         );
       }
 
+      assertWholePacks(item, newQuantity);
+
       cart.items[existingItemIndex].quantity = newQuantity;
     } else {
       // Add as new item
@@ -192,24 +343,23 @@ export async function addItemToCart(
         );
       }
 
+      assertWholePacks(item, quantity);
+
       cart.items.push({
         itemId: input.itemId,
         name: item.name,
         unitPrice: item.estimatedPrice,
         quantity,
         addedAt: new Date(),
+        addedBy: userIdQuery,
       });
     }
 
-    const updatedCart = await cart.save();
+    const updatedCart = await saveCartChanges(cart);
 
     return mapCartToEntity(updatedCart.toObject());
   } catch (error) {
-    if (
-      error instanceof ItemNotFoundError ||
-      error instanceof ValidationError ||
-      error instanceof CartLimitError
-    ) {
+    if (isCartError(error)) {
       throw error;
     }
     console.error('[addItemToCart] Error adding item to cart:', {
@@ -228,16 +378,19 @@ export async function addItemToCart(
  *
  * Business Rules:
  * - BR-2.2: Quantity per item: min 1, max 999
+ * - Items with an order unit are bought in whole packs
  *
  * @param userId - User ID (ObjectId or string)
  * @param itemId - Item ID in cart
  * @param quantity - New quantity
+ * @param target - Shared cart and version the change is based on
  * @returns Updated cart
  */
 export async function updateCartItemQuantity(
   userId: string | Types.ObjectId,
   itemId: string,
-  quantity: number
+  quantity: number,
+  target: CartTarget = {}
 ): Promise<Cart> {
   await connectDB();
 
@@ -249,10 +402,7 @@ export async function updateCartItemQuantity(
   }
 
   try {
-    // Convert string userId to ObjectId for MongoDB query
-    const userIdQuery = toObjectId(userId);
-
-    const cart = await CartModel.findOne({ userId: userIdQuery }).exec();
+    const cart = await findTargetCart(userId, target);
 
     if (!cart) {
       throw new ValidationError('Cart not found');
@@ -267,12 +417,20 @@ export async function updateCartItemQuantity(
       throw new ValidationError('Item not found in cart');
     }
 
+    const item = await ItemModel.findById(itemId)
+      .select('name unit unitConversions orderUnit')
+      .lean()
+      .exec();
+    if (item) {
+      assertWholePacks(item, quantity);
+    }
+
     cart.items[itemIndex].quantity = quantity;
-    const updatedCart = await cart.save();
+    const updatedCart = await saveCartChanges(cart);
 
     return mapCartToEntity(updatedCart);
   } catch (error) {
-    if (error instanceof ValidationError) {
+    if (isCartError(error)) {
       throw error;
     }
     console.error('Error updating cart item quantity:', error);
@@ -285,19 +443,18 @@ export async function updateCartItemQuantity(
  *
  * @param userId - User ID (ObjectId or string)
  * @param itemId - Item ID to remove
+ * @param target - Shared cart and version the change is based on
  * @returns Updated cart
  */
 export async function removeCartItem(
   userId: string | Types.ObjectId,
-  itemId: string
+  itemId: string,
+  target: CartTarget = {}
 ): Promise<Cart> {
   await connectDB();
 
   try {
-    // Convert string userId to ObjectId for MongoDB query
-    const userIdQuery = toObjectId(userId);
-
-    const cart = await CartModel.findOne({ userId: userIdQuery }).exec();
+    const cart = await findTargetCart(userId, target);
 
     if (!cart) {
       throw new ValidationError('Cart not found');
@@ -322,10 +479,10 @@ export async function removeCartItem(
       throw new ValidationError(`Item ${itemId} not found in cart`);
     }
 
-    const updatedCart = await cart.save();
+    const updatedCart = await saveCartChanges(cart);
     return mapCartToEntity(updatedCart);
   } catch (error) {
-    if (error instanceof ValidationError) {
+    if (isCartError(error)) {
       throw error;
     }
     console.error('[removeCartItem] Error removing cart item:', {
@@ -0,0 +1,196 @@
+import { Error as MongooseError, Types } from 'mongoose';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ItemStatus, SavedCartKind } from '@/domain/entities';
+import { CartModel, ItemModel, SavedCartModel } from '@/lib/db/models';
+
+import { CartConflictError } from './cart.service';
+import {
+  restoreSavedCart,
+  saveCart,
+  SavedCartNotFoundError,
+} from './saved-cart.service';
+
+vi.mock('@/lib/db/mongoose', () => ({ default: vi.fn() }));
+
+/**
+ * Saved Cart Service Tests
+ *
+ * Models are mocked and transactions run inline; the tests cover how
+ * saved and restored lines are written to the cart.
+ */
+
+const USER_ID = new Types.ObjectId();
+const ITEM_ID = new Types.ObjectId();
+
+function mockSavedCart(kind: SavedCartKind) {
+  const savedCart = new SavedCartModel({
+    userId: USER_ID,
+    name: 'Monthly restock',
+    kind,
+    items: [
+      { itemId: ITEM_ID, name: 'Office Chair', unitPrice: 140, quantity: 2 },
+    ],
+  });
+  vi.spyOn(SavedCartModel, 'findOne').mockReturnValue({
+    exec: async () => savedCart,
+  } as never);
+  return savedCart;
+}
+
+function mockCart(
+  save: (cart: InstanceType<typeof CartModel>) => unknown,
+  items: Array<{ itemId: Types.ObjectId; quantity: number }> = []
+) {
+  const cart = new CartModel({
+    userId: USER_ID,
+    items: items.map((line) => ({
+      ...line,
+      name: 'Office Chair',
+      unitPrice: 150,
+    })),
+  });
+  vi.spyOn(cart, 'save').mockImplementation(async () => save(cart) as never);
+  vi.spyOn(CartModel, 'findOne').mockReturnValue({
+    exec: async () => cart,
+  } as never);
+  return cart;
+}
+
+const conflict = (cart: InstanceType<typeof CartModel>) => {
+  throw new MongooseError.VersionError(cart, 0, ['items']);
+};
+
+const SESSION = { id: 'session' };
+
+/**
+ * Run transactions inline with a stand-in session
+ */
+function mockTransaction() {
+  return vi
+    .spyOn(SavedCartModel.db, 'transaction')
+    .mockImplementation((async (fn: (session: unknown) => Promise<unknown>) =>
+      fn(SESSION)) as never);
+}
+
+describe('saved-cart.service', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    mockTransaction();
+    vi.spyOn(ItemModel, 'find').mockReturnValue({
+      lean: () => ({
+        exec: async () => [
+          new ItemModel({
+            _id: ITEM_ID,
+            name: 'Office Chair',
+            category: 'Furniture',
+            description: 'Ergonomic office chair',
+            estimatedPrice: 150,
+            status: ItemStatus.Active,
+          }).toObject(),
+        ],
+      }),
+    } as never);
+  });
+
+  describe('restoreSavedCart', () => {
+    it('should add the lines on behalf of the user', async () => {
+      const savedCart = mockSavedCart(SavedCartKind.Template);
+      vi.spyOn(savedCart, 'save').mockResolvedValue(savedCart);
+      const cart = mockCart((cart) => cart);
+
+      const result = await restoreSavedCart(USER_ID, savedCart._id.toString());
+
+      expect(result.added).toHaveLength(1);
+      expect(cart.items[0]).toMatchObject({ quantity: 2, unitPrice: 150 });
+      expect(cart.items[0].addedBy?.toString()).toBe(USER_ID.toString());
+    });
+
+    it('should report a concurrent cart change as a conflict', async () => {
+      const savedCart = mockSavedCart(SavedCartKind.Template);
+      vi.spyOn(savedCart, 'save').mockResolvedValue(savedCart);
+      mockCart(conflict);
+
+      await expect(
+        restoreSavedCart(USER_ID, savedCart._id.toString())
+      ).rejects.toBeInstanceOf(CartConflictError);
+    });
+
+    it('should remove a saved cart in the transaction that merges it', async () => {
+      const savedCart = mockSavedCart(SavedCartKind.Saved);
+      const deleteOne = vi
+        .spyOn(SavedCartModel, 'deleteOne')
+        .mockReturnValue({ exec: async () => ({ deletedCount: 1 }) } as never);
+      const cart = mockCart((cart) => cart);
+
+      await restoreSavedCart(USER_ID, savedCart._id.toString());
+
+      expect(deleteOne).toHaveBeenCalledWith(
+        { _id: savedCart._id },
+        { session: SESSION }
+      );
+      expect(cart.save).toHaveBeenCalledWith({ session: SESSION });
+    });
+
+    it('should fail the transaction when the merge fails', async () => {
+      const savedCart = mockSavedCart(SavedCartKind.Saved);
+      vi.spyOn(SavedCartModel, 'deleteOne').mockReturnValue({
+        exec: async () => ({ deletedCount: 1 }),
+      } as never);
+      mockCart(conflict);
+
+      await expect(
+        restoreSavedCart(USER_ID, savedCart._id.toString())
+      ).rejects.toBeInstanceOf(CartConflictError);
+    });
+
+    it('should not restore a saved cart that another restore took', async () => {
+      const savedCart = mockSavedCart(SavedCartKind.Saved);
+      vi.spyOn(SavedCartModel, 'deleteOne').mockReturnValue({
+        exec: async () => ({ deletedCount: 0 }),
+      } as never);
+      const cart = mockCart((cart) => cart);
+
+      await expect(
+        restoreSavedCart(USER_ID, savedCart._id.toString())
+      ).rejects.toBeInstanceOf(SavedCartNotFoundError);
+      expect(cart.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('saveCart', () => {
+    beforeEach(() => {
+      vi.spyOn(SavedCartModel, 'exists').mockResolvedValue(null);
+      vi.spyOn(SavedCartModel, 'countDocuments').mockResolvedValue(0 as never);
+    });
+
+    it('should create the saved cart and empty the cart in one transaction', async () => {
+      const cart = mockCart((cart) => cart, [{ itemId: ITEM_ID, quantity: 2 }]);
+      const savedCart = new SavedCartModel({ userId: USER_ID, name: 'Later' });
+      const create = vi
+        .spyOn(SavedCartModel, 'create')
+        .mockResolvedValue([savedCart] as never);
+
+      await saveCart(USER_ID, { name: 'Later', kind: SavedCartKind.Saved });
+
+      expect(create).toHaveBeenCalledWith(
+        [expect.objectContaining({ name: 'Later', kind: SavedCartKind.Saved })],
+        { session: SESSION }
+      );
+      expect(cart.save).toHaveBeenCalledWith({ session: SESSION });
+      expect(cart.items).toHaveLength(0);
+    });
+
+    it('should fail the transaction when the cart cannot be emptied', async () => {
+      mockCart(conflict, [{ itemId: ITEM_ID, quantity: 2 }]);
+      const savedCart = new SavedCartModel({ userId: USER_ID, name: 'Later' });
+      vi.spyOn(SavedCartModel, 'create').mockResolvedValue([
+        savedCart,
+      ] as never);
+
+      await expect(
+        saveCart(USER_ID, { name: 'Later', kind: SavedCartKind.Saved })
+      ).rejects.toBeInstanceOf(CartConflictError);
+    });
+  });
+});
@@ -0,0 +1,468 @@
+/**
+ * Saved Cart Service
+ *
+ * Named carts and templates, and reorders:
+ * - Save the cart under a name, either parked for later (the cart is
+ *   emptied) or as a reusable template (the cart is kept)
+ * - Restore a saved cart or apply a template to the cart
+ * - Reorder: put the lines of a past purchase request back into the cart
+ *
+ * Restored lines are merged into the current cart at today's catalog
+ * prices; deleted and archived items are skipped and reported (see
+ * cart-restore).
+ *
+ * Writes to the saved cart and the cart happen in one transaction
+ * (MongoDB must run as a replica set), so lines are never lost or kept
+ * twice.
+ */
+
+import type { ClientSession, HydratedDocument, Types } from 'mongoose';
+import { Types as MongooseTypes } from 'mongoose';
+
+import type { SavedCartDocument } from '@/domain/documents';
+import type { CartRestoreResult, SavedCart } from '@/domain/entities';
+import { SavedCartKind } from '@/domain/entities';
+import {
+  mapCartToEntity,
+  mapItemToEntity,
+  mapSavedCartToEntity,
+} from '@/lib/db/mappers';
+import {
+  CartModel,
+  ItemModel,
+  MAX_CART_ITEMS,
+  MAX_ITEM_QUANTITY,
+  MAX_SAVED_CART_NAME_LENGTH,
+  MAX_SAVED_CARTS,
+  PurchaseRequestModel,
+  SavedCartModel,
+} from '@/lib/db/models';
+import connectDB from '@/lib/db/mongoose';
+import { logger } from '@/lib/logger/winston.config';
+
+import type { CartRestoreSource } from './cart-restore';
+import { planCartRestore } from './cart-restore';
+import {
+  CartConflictError,
+  CartLimitError,
+  saveCartChanges,
+  ValidationError,
+} from './cart.service';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SaveCartInput {
+  /** Name (e.g., "Monthly kitchen restock"), unique per user */
+  name: string;
+
+  /** saved (default): park the cart; template: keep the cart */
+  kind?: SavedCartKind;
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export class SavedCartNotFoundError extends Error {
+  constructor(savedCartId: string) {
+    super(`Saved cart not found: ${savedCartId}`);
+    this.name = 'SavedCartNotFoundError';
+  }
+}
+
+export class PurchaseRequestNotFoundError extends Error {
+  constructor(reference: string) {
+    super(`Purchase request not found: ${reference}`);
+    this.name = 'PurchaseRequestNotFoundError';
+  }
+}
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+/**
+ * List the saved carts and templates of a user, most recently updated
+ * first
+ */
+export async function listSavedCarts(
+  userId: string | Types.ObjectId
+): Promise<SavedCart[]> {
+  await connectDB();
+
+  try {
+    const savedCarts = await SavedCartModel.find({ userId: toObjectId(userId) })
+      .sort({ updatedAt: -1 })
+      .lean()
+      .exec();
+
+    return savedCarts.map(mapSavedCartToEntity);
+  } catch (error) {
+    logger.error('Error listing saved carts', { userId, error });
+    throw new Error('Failed to list saved carts');
+  }
+}
+
+/**
+ * Save the cart under a name
+ * A saved cart parks the lines (the cart is emptied); a template keeps
+ * the cart as it is. The saved cart is created and the cart emptied in
+ * one transaction.
+ *
+ * @throws {ValidationError} Invalid name or kind, name taken, empty cart
+ * @throws {CartLimitError} Maximum number of saved carts reached
+ * @throws {CartConflictError} Cart changed concurrently
+ */
+export async function saveCart(
+  userId: string | Types.ObjectId,
+  input: SaveCartInput
+): Promise<SavedCart> {
+  await connectDB();
+
+  const name = typeof input?.name === 'string' ? input.name.trim() : '';
+  const kind = input?.kind ?? SavedCartKind.Saved;
+
+  if (!name) {
+    throw new ValidationError('Name is required');
+  }
+  if (name.length > MAX_SAVED_CART_NAME_LENGTH) {
+    throw new ValidationError(
+      `Name must not exceed ${MAX_SAVED_CART_NAME_LENGTH} characters`
+    );
+  }
+  if (!Object.values(SavedCartKind).includes(kind)) {
+    throw new ValidationError(
+      `Kind must be one of: ${Object.values(SavedCartKind).join(', ')}`
+    );
+  }
+
+  try {
+    const userIdQuery = toObjectId(userId);
+
+    const cart = await CartModel.findOne({ userId: userIdQuery }).exec();
+    if (!cart || cart.items.length === 0) {
+      throw new ValidationError('Cart is empty');
+    }
+
+    const [taken, count] = await Promise.all([
+      SavedCartModel.exists({
+        userId: userIdQuery,
+        name: { $regex: `^${escapeRegex(name)}$`, $options: 'i' },
+      }),
+      SavedCartModel.countDocuments({ userId: userIdQuery }),
+    ]);
+    if (taken) {
+      throw new ValidationError(`A saved cart named "${name}" already exists`);
+    }
+    if (count >= MAX_SAVED_CARTS) {
+      throw new CartLimitError(
+        `You can keep at most ${MAX_SAVED_CARTS} saved carts and templates`
+      );
+    }
+
+    const lines = cart.items.map((line) => ({
+      itemId: line.itemId,
+      name: line.name,
+      unitPrice: line.unitPrice,
+      quantity: line.quantity,
+    }));
+
+    let savedCart!: HydratedDocument<SavedCartDocument>;
+    await SavedCartModel.db.transaction(async (session) => {
+      [savedCart] = await SavedCartModel.create(
+        [{ userId: userIdQuery, name, kind, items: lines }],
+        { session }
+      );
+
+      if (kind === SavedCartKind.Saved) {
+        cart.items = [];
+        await saveCartChanges(cart, session);
+      }
+    });
+
+    logger.info('Cart saved', {
+      userId,
+      savedCartId: savedCart._id.toString(),
+      kind,
+      lineCount: savedCart.items.length,
+    });
+
+    return mapSavedCartToEntity(savedCart.toObject());
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof CartLimitError ||
+      error instanceof CartConflictError
+    ) {
+      throw error;
+    }
+    logger.error('Error saving cart', { userId, error });
+    throw new Error('Failed to save cart');
+  }
+}
+
+/**
+ * Delete a saved cart or template
+ *
+ * @throws {SavedCartNotFoundError} Not found or owned by another user
+ */
+export async function deleteSavedCart(
+  userId: string | Types.ObjectId,
+  savedCartId: string
+): Promise<void> {
+  await connectDB();
+
+  assertObjectId(savedCartId);
+
+  try {
+    const deleted = await SavedCartModel.findOneAndDelete({
+      _id: savedCartId,
+      userId: toObjectId(userId),
+    }).exec();
+
+    if (!deleted) {
+      throw new SavedCartNotFoundError(savedCartId);
+    }
+  } catch (error) {
+    if (error instanceof SavedCartNotFoundError) {
+      throw error;
+    }
+    logger.error('Error deleting saved cart', { userId, savedCartId, error });
+    throw new Error('Failed to delete saved cart');
+  }
+}
+
+/**
+ * Restore a saved cart or apply a template to the cart
+ * A saved cart is removed in the same transaction its lines are merged
+ * in, so it is restored at most once; a template is kept.
+ *
+ * @throws {SavedCartNotFoundError} Not found or owned by another user
+ * @throws {CartConflictError} Cart changed concurrently
+ */
+export async function restoreSavedCart(
+  userId: string | Types.ObjectId,
+  savedCartId: string
+): Promise<CartRestoreResult> {
+  await connectDB();
+
+  assertObjectId(savedCartId);
+
+  try {
+    const savedCart = await SavedCartModel.findOne({
+      _id: savedCartId,
+      userId: toObjectId(userId),
+    }).exec();
+
+    if (!savedCart) {
+      throw new SavedCartNotFoundError(savedCartId);
+    }
+
+    const sources = savedCart.items.map((line) => ({
+      itemId: line.itemId.toString(),
+      name: line.name,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+    }));
+
+    let result!: CartRestoreResult;
+    await SavedCartModel.db.transaction(async (session) => {
+      if (savedCart.kind === SavedCartKind.Saved) {
+        // A concurrent restore may have taken it first
+        const { deletedCount } = await SavedCartModel.deleteOne(
+          { _id: savedCart._id },
+          { session }
+        ).exec();
+        if (deletedCount === 0) {
+          throw new SavedCartNotFoundError(savedCartId);
+        }
+      } else {
+        savedCart.lastUsedAt = new Date();
+        await savedCart.save({ session });
+      }
+
+      result = await restoreLines(userId, sources, session);
+    });
+
+    logger.info('Saved cart restored', {
+      userId,
+      savedCartId,
+      kind: savedCart.kind,
+      added: result.added.length,
+      skipped: result.skipped.length,
+    });
+
+    return result;
+  } catch (error) {
+    if (
+      error instanceof SavedCartNotFoundError ||
+      error instanceof CartConflictError
+    ) {
+      throw error;
+    }
+    logger.error('Error restoring saved cart', { userId, savedCartId, error });
+    throw new Error('Failed to restore saved cart');
+  }
+}
+
+/**
+ * Reorder: put the lines of a past purchase request back into the cart
+ *
+ * @param reference - Purchase request ID or number (e.g., "PR-2025-0001")
+ * @throws {PurchaseRequestNotFoundError} Not found or owned by another user
+ * @throws {CartConflictError} Cart changed concurrently
+ */
+export async function reorderPurchaseRequest(
+  userId: string | Types.ObjectId,
+  reference: string
+): Promise<CartRestoreResult> {
+  await connectDB();
+
+  const trimmed = typeof reference === 'string' ? reference.trim() : '';
+  if (!trimmed) {
+    throw new ValidationError('Purchase request ID or number is required');
+  }
+
+  try {
+    const purchaseRequest = await PurchaseRequestModel.findOne({
+      userId: toObjectId(userId),
+      ...(MongooseTypes.ObjectId.isValid(trimmed) && trimmed.length === 24
+        ? { _id: trimmed }
+        : { requestNumber: trimmed.toUpperCase() }),
+    })
+      .select('requestNumber items')
+      .lean()
+      .exec();
+
+    if (!purchaseRequest) {
+      throw new PurchaseRequestNotFoundError(trimmed);
+    }
+
+    const result = await restoreLines(
+      userId,
+      purchaseRequest.items.flatMap((line) =>
+        line.itemId
+          ? [
+              {
+                itemId: line.itemId.toString(),
+                name: line.name,
+                quantity: line.quantity,
+                unitPrice: line.unitPrice,
+              },
+            ]
+          : []
+      )
+    );
+
+    logger.info('Purchase request reordered', {
+      userId,
+      purchaseRequestId: purchaseRequest._id.toString(),
+      added: result.added.length,
+      skipped: result.skipped.length,
+    });
+
+    return result;
+  } catch (error) {
+    if (
+      error instanceof PurchaseRequestNotFoundError ||
+      error instanceof CartConflictError
+    ) {
+      throw error;
+    }
+    logger.error('Error reordering purchase request', {
+      userId,
+      reference: trimmed,
+      error,
+    });
+    throw new Error('Failed to reorder purchase request');
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Merge lines into the user's cart at current catalog prices
+ * Lines already in the cart get the added quantity and today's price.
+ *
+ * @param session - Transaction to save the cart in (restoring a saved cart)
+ * @throws {CartConflictError} Cart changed concurrently
+ */
+async function restoreLines(
+  userId: string | Types.ObjectId,
+  sources: CartRestoreSource[],
+  session?: ClientSession
+): Promise<CartRestoreResult> {
+  const userIdQuery = toObjectId(userId);
+  const itemIds = sources
+    .map((source) => source.itemId)
+    .filter((itemId) => MongooseTypes.ObjectId.isValid(itemId));
+
+  const [items, existingCart] = await Promise.all([
+    ItemModel.find({ _id: { $in: itemIds } })
+      .lean()
+      .exec(),
+    CartModel.findOne({ userId: userIdQuery }).exec(),
+  ]);
+  const cart =
+    existingCart ?? new CartModel({ userId: userIdQuery, items: [] });
+
+  const plan = planCartRestore(
+    sources,
+    items.map(mapItemToEntity),
+    cart.items.map((line) => ({
+      itemId: line.itemId.toString(),
+      quantity: line.quantity,
+    })),
+    { maxLines: MAX_CART_ITEMS, maxQuantity: MAX_ITEM_QUANTITY }
+  );
+
+  for (const line of plan.added) {
+    const existing = cart.items.find(
+      (cartItem) => cartItem.itemId.toString() === line.itemId
+    );
+    if (existing) {
+      existing.quantity += line.quantity;
+      existing.unitPrice = line.unitPrice;
+    } else {
+      cart.items.push({
+        itemId: line.itemId,
+        name: line.name,
+        unitPrice: line.unitPrice,
+        quantity: line.quantity,
+        addedAt: new Date(),
+        addedBy: userIdQuery,
+      });
+    }
+  }
+
+  const savedCart = await saveCartChanges(cart, session);
+
+  return {
+    cart: mapCartToEntity(savedCart.toObject()),
+    added: plan.added,
+    skipped: plan.skipped,
+  };
+}
+
+/**
+ * Convert userId string to ObjectId for MongoDB queries
+ */
+function toObjectId(userId: string | Types.ObjectId): Types.ObjectId {
+  return typeof userId === 'string'
+    ? new MongooseTypes.ObjectId(userId)
+    : userId;
+}
+
+function assertObjectId(savedCartId: string): void {
+  if (!MongooseTypes.ObjectId.isValid(savedCartId)) {
+    throw new ValidationError('Invalid saved cart ID format');
+  }
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,324 @@
+/**
+ * Shared Cart Service
+ *
+ * Team carts several people fill together:
+ * - The creator owns the cart and invites collaborators by email
+ * - Owner and collaborators add, change and remove lines (see cart.service,
+ *   which records who added each line)
+ * - Only the owner checks out, manages collaborators and deletes the cart
+ *
+ * Shared carts are versioned: changes based on an outdated version are
+ * refused with a CartConflictError (see cart-sharing for the rules).
+ */
+
+import type { HydratedDocument, Types } from 'mongoose';
+import { Types as MongooseTypes } from 'mongoose';
+
+import type { CartDocument } from '@/domain/documents';
+import type { Cart } from '@/domain/entities';
+import { CartRole } from '@/domain/entities';
+import { mapCartToEntity } from '@/lib/db/mappers';
+import {
+  CartModel,
+  MAX_CART_MEMBERS,
+  MAX_CART_NAME_LENGTH,
+  UserModel,
+} from '@/lib/db/models';
+import connectDB from '@/lib/db/mongoose';
+import { logger } from '@/lib/logger/winston.config';
+
+import { canRemoveCartMember, getCartRole } from './cart-sharing';
+import {
+  CartConflictError,
+  CartLimitError,
+  CartNotFoundError,
+  CartPermissionError,
+  findTargetCart,
+  saveCartChanges,
+  ValidationError,
+} from './cart.service';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CreateSharedCartInput {
+  /** Name (e.g., "Office move, 3rd floor") */
+  name: string;
+}
+
+export interface AddCartCollaboratorInput {
+  /** Email of the user to invite */
+  email: string;
+}
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+/**
+ * List the shared carts a user owns or collaborates on, most recently
+ * updated first
+ */
+export async function listSharedCarts(
+  userId: string | Types.ObjectId
+): Promise<Cart[]> {
+  await connectDB();
+
+  try {
+    const carts = await CartModel.find({
+      isShared: true,
+      'members.userId': toObjectId(userId),
+    })
+      .sort({ updatedAt: -1 })
+      .lean()
+      .exec();
+
+    return carts.map(mapCartToEntity);
+  } catch (error) {
+    logger.error('Error listing shared carts', { userId, error });
+    throw new Error('Failed to list shared carts');
+  }
+}
+
+/**
+ * Create a shared cart owned by the user
+ *
+ * @throws {ValidationError} Invalid name
+ */
+export async function createSharedCart(
+  userId: string | Types.ObjectId,
+  input: CreateSharedCartInput
+): Promise<Cart> {
+  await connectDB();
+
+  const name = typeof input?.name === 'string' ? input.name.trim() : '';
+
+  if (!name) {
+    throw new ValidationError('Name is required');
+  }
+  if (name.length > MAX_CART_NAME_LENGTH) {
+    throw new ValidationError(
+      `Name must not exceed ${MAX_CART_NAME_LENGTH} characters`
+    );
+  }
+
+  try {
+    const userIdQuery = toObjectId(userId);
+    const user = await UserModel.findById(userIdQuery)
+      .select('name')
+      .lean()
+      .exec();
+
+    const cart = await CartModel.create({
+      name,
+      isShared: true,
+      items: [],
+      members: [
+        {
+          userId: userIdQuery,
+          name: user?.name ?? '',
+          role: CartRole.Owner,
+          addedAt: new Date(),
+        },
+      ],
+    });
+
+    logger.info('Shared cart created', {
+      userId,
+      cartId: cart._id.toString(),
+    });
+
+    return mapCartToEntity(cart.toObject());
+  } catch (error) {
+    logger.error('Error creating shared cart', { userId, error });
+    throw new Error('Failed to create shared cart');
+  }
+}
+
+/**
+ * Invite a collaborator to a shared cart (owner only)
+ *
+ * @throws {CartNotFoundError} Cart not found or user not a member
+ * @throws {CartPermissionError} User is not the owner
+ * @throws {ValidationError} No user with that email, or already a member
+ * @throws {CartLimitError} Maximum number of members reached
+ * @throws {CartConflictError} Cart changed concurrently
+ */
+export async function addCartCollaborator(
+  userId: string | Types.ObjectId,
+  cartId: string,
+  input: AddCartCollaboratorInput
+): Promise<Cart> {
+  await connectDB();
+
+  const email =
+    typeof input?.email === 'string' ? input.email.trim().toLowerCase() : '';
+
+  if (!email) {
+    throw new ValidationError('Email is required');
+  }
+
+  try {
+    const cart = await findSharedCart(userId, cartId);
+    assertOwner(cart, userId, 'Only the cart owner can invite collaborators');
+
+    const user = await UserModel.findOne({ email })
+      .select('name')
+      .lean()
+      .exec();
+    if (!user) {
+      throw new ValidationError(`No user found with email ${email}`);
+    }
+
+    const members = cart.members ?? [];
+    if (
+      members.some((member) => member.userId.toString() === user._id.toString())
+    ) {
+      throw new ValidationError(`${email} is already a member of this cart`);
+    }
+    if (members.length >= MAX_CART_MEMBERS) {
+      throw new CartLimitError(
+        `A shared cart can have at most ${MAX_CART_MEMBERS} members`
+      );
+    }
+
+    cart.members = [
+      ...members,
+      {
+        userId: user._id,
+        name: user.name ?? email,
+        role: CartRole.Collaborator,
+        addedAt: new Date(),
+      },
+    ];
+    const updatedCart = await saveCartChanges(cart);
+
+    logger.info('Cart collaborator added', {
+      userId,
+      cartId,
+      collaboratorId: user._id.toString(),
+    });
+
+    return mapCartToEntity(updatedCart.toObject());
+  } catch (error) {
+    if (isSharedCartError(error)) {
+      throw error;
+    }
+    logger.error('Error adding cart collaborator', { userId, cartId, error });
+    throw new Error('Failed to add collaborator');
+  }
+}
+
+/**
+ * Remove a collaborator from a shared cart
+ * The owner removes collaborators; a collaborator can remove themselves
+ * (leave the cart).
+ *
+ * @throws {CartNotFoundError} Cart not found or user not a member
+ * @throws {CartPermissionError} Not allowed to remove that member
+ * @throws {CartConflictError} Cart changed concurrently
+ */
+export async function removeCartMember(
+  userId: string | Types.ObjectId,
+  cartId: string,
+  memberUserId: string
+): Promise<Cart> {
+  await connectDB();
+
+  try {
+    const cart = await findSharedCart(userId, cartId);
+    const entity = mapCartToEntity(cart.toObject());
+
+    if (!canRemoveCartMember(entity, userId.toString(), memberUserId)) {
+      throw new CartPermissionError(
+        'Only the cart owner can remove collaborators, and the owner cannot leave'
+      );
+    }
+
+    cart.members = (cart.members ?? []).filter(
+      (member) => member.userId.toString() !== memberUserId
+    );
+    const updatedCart = await saveCartChanges(cart);
+
+    logger.info('Cart member removed', { userId, cartId, memberUserId });
+
+    return mapCartToEntity(updatedCart.toObject());
+  } catch (error) {
+    if (isSharedCartError(error)) {
+      throw error;
+    }
+    logger.error('Error removing cart member', { userId, cartId, error });
+    throw new Error('Failed to remove member');
+  }
+}
+
+/**
+ * Delete a shared cart (owner only)
+ *
+ * @throws {CartNotFoundError} Cart not found or user not a member
+ * @throws {CartPermissionError} User is not the owner
+ */
+export async function deleteSharedCart(
+  userId: string | Types.ObjectId,
+  cartId: string
+): Promise<void> {
+  await connectDB();
+
+  try {
+    const cart = await findSharedCart(userId, cartId);
+    assertOwner(cart, userId, 'Only the cart owner can delete the cart');
+
+    await CartModel.deleteOne({ _id: cart._id }).exec();
+
+    logger.info('Shared cart deleted', { userId, cartId });
+  } catch (error) {
+    if (isSharedCartError(error)) {
+      throw error;
+    }
+    logger.error('Error deleting shared cart', { userId, cartId, error });
+    throw new Error('Failed to delete shared cart');
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toObjectId(userId: string | Types.ObjectId): Types.ObjectId {
+  return typeof userId === 'string'
+    ? new MongooseTypes.ObjectId(userId)
+    : userId;
+}
+
+async function findSharedCart(
+  userId: string | Types.ObjectId,
+  cartId: string
+): Promise<HydratedDocument<CartDocument>> {
+  const cart = await findTargetCart(userId, { cartId });
+  if (!cart) {
+    throw new CartNotFoundError(cartId);
+  }
+  return cart;
+}
+
+function assertOwner(
+  cart: HydratedDocument<CartDocument>,
+  userId: string | Types.ObjectId,
+  message: string
+): void {
+  const role = getCartRole(mapCartToEntity(cart.toObject()), userId.toString());
+  if (role !== CartRole.Owner) {
+    throw new CartPermissionError(message);
+  }
+}
+
+function isSharedCartError(error: unknown): boolean {
+  return (
+    error instanceof ValidationError ||
+    error instanceof CartLimitError ||
+    error instanceof CartNotFoundError ||
+    error instanceof CartPermissionError ||
+    error instanceof CartConflictError
+  );
+}
@@ -1,12 +1,22 @@
 'use client';
 
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { toast } from 'sonner';
 
 import { useCart } from '@/contexts/CartContext';
 import type { Item } from '@/domain/entities';
+import { UI_CONSTANTS } from '@/lib/constants';
 
+import type {
+  CatalogFacets,
+  CatalogSearchFilters,
+  CatalogSort,
+} from '../lib/catalog-search';
+import { toCatalogSearchQuery } from '../lib/catalog-search';
+
+import { CatalogCategoryBrowser } from './catalog-category-browser';
 import { CatalogDialogs } from './catalog-dialogs';
+import { CatalogFilters } from './catalog-filters';
 import { CatalogPrimaryButtons } from './catalog-primary-buttons';
 import { CatalogProvider } from './catalog-provider';
 import { CatalogTable } from './catalog-table';
@@ -14,14 +24,29 @@ import { CatalogTable } from './catalog-table';
 /**
  * CatalogPageContent - Client component for catalog UI
  * Features:
- * - Search items by name/description (via API)
+ * - Search items by name/description (via API), with "did you mean"
+ *   suggestions for misspelled keywords
+ * - Filter by category, price range, supplier, unit and status (with counts)
+ * - Drill down the category tree (a category with its subcategories)
+ * - Sort by relevance, price or newest
+ * - Load further pages on demand (cursor pagination)
  * - Display items in a table with TanStack Table
  * - Add items to cart (with visual feedback)
  * - Create/Edit items via drawer (Sheet)
+ * - Bulk import (CSV/XLSX/JSON) and export
  */
 export function CatalogPageContent() {
   const [items, setItems] = useState<Item[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [facets, setFacets] = useState<CatalogFacets | null>(null);
+  const [filters, setFilters] = useState<CatalogSearchFilters>({});
+  const [sort, setSort] = useState<CatalogSort>('relevance');
+  const [query, setQuery] = useState('');
+  const [didYouMean, setDidYouMean] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const requestIdRef = useRef(0);
   const { setItemCount } = useCart();
 
   // Load cart count from API
@@ -44,38 +69,76 @@ export function CatalogPageContent() {
   }, [setItemCount]);
 
   // Load items from API - memoized for refresh callback
-  const loadItems = useCallback(async () => {
-    setIsLoading(true);
-    try {
-      const response = await fetch('/api/items');
+  // Without a cursor the first page replaces the list; with one the next
+  // page is appended.
+  const loadItems = useCallback(
+    async (cursor?: string) => {
+      // Ignore responses of searches that were superseded
+      const requestId = ++requestIdRef.current;
+      if (cursor) {
+        setIsLoadingMore(true);
+      } else {
+        setIsLoading(true);
+      }
+      try {
+        const params = new URLSearchParams(query);
+        if (cursor) {
+          params.set('cursor', cursor);
+        }
+        const response = await fetch(`/api/items?${params}`);
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch items: ${response.statusText}`);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch items: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        if (requestId !== requestIdRef.current) {
+          return;
+        }
+        const page: Item[] = data.items || [];
+        setItems((previous) => (cursor ? [...previous, ...page] : page));
+        setNextCursor(data.hasMore ? data.nextCursor : null);
+        setTotal(data.total ?? page.length);
+        setFacets(data.facets ?? null);
+        setDidYouMean(data.didYouMean ?? null);
+      } catch (error) {
+        console.error('Error loading catalog items:', error);
+        toast.error('Failed to load catalog', {
+          description:
+            error instanceof Error
+              ? error.message
+              : 'Please try refreshing the page',
+        });
+      } finally {
+        if (requestId === requestIdRef.current) {
+          setIsLoading(false);
+          setIsLoadingMore(false);
+        }
       }
+    },
+    [query]
+  );
 
-      const data = await response.json();
-      setItems(data.items || []);
-    } catch (error) {
-      console.error('Error loading catalog items:', error);
-      toast.error('Failed to load catalog', {
-        description:
-          error instanceof Error
-            ? error.message
-            : 'Please try refreshing the page',
-      });
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+  // Debounce typing in the search and price inputs
+  useEffect(() => {
+    const timeout = setTimeout(
+      () => setQuery(toCatalogSearchQuery(filters, { sort })),
+      UI_CONSTANTS.debounceDelay
+    );
+    return () => clearTimeout(timeout);
+  }, [filters, sort]);
 
-  // Load items on mount
+  // Load items on mount and whenever the search changes
   useEffect(() => {
     loadItems();
+  }, [loadItems]);
+
+  useEffect(() => {
     loadCartCount();
-  }, [loadItems, loadCartCount]);
+  }, [loadCartCount]);
 
   return (
-    <CatalogProvider onRefreshCatalog={loadItems}>
+    <CatalogProvider onRefreshCatalog={() => loadItems()}>
       <div className='space-y-6'>
         {/* Header */}
         <div className='flex flex-wrap items-end justify-between gap-2'>
@@ -90,8 +153,49 @@ export function CatalogPageContent() {
           <CatalogPrimaryButtons />
         </div>
 
+        {/* Category drill-down */}
+        <CatalogCategoryBrowser
+          branch={filters.branch?.[0]}
+          onBranchChange={(branch) =>
+            setFilters({ ...filters, branch: branch ? [branch] : undefined })
+          }
+        />
+
+        {/* Spelling suggestion */}
+        {didYouMean && (
+          <p className='text-sm text-muted-foreground'>
+            Did you mean{' '}
+            <button
+              type='button'
+              className='font-medium text-primary underline-offset-4 hover:underline'
+              onClick={() => setFilters({ ...filters, q: didYouMean })}
+            >
+              {didYouMean}
+            </button>
+            ?
+          </p>
+        )}
+
         {/* Items Table */}
-        <CatalogTable data={items} isLoading={isLoading} />
+        <CatalogTable
+          data={items}
+          total={total}
+          isLoading={isLoading}
+          hasMore={!!nextCursor}
+          isLoadingMore={isLoadingMore}
+          onLoadMore={() => nextCursor && loadItems(nextCursor)}
+          search={filters.q ?? ''}
+          onSearchChange={(q) => setFilters({ ...filters, q })}
+          filters={
+            <CatalogFilters
+              filters={filters}
+              onFiltersChange={setFilters}
+              sort={sort}
+              onSortChange={setSort}
+              facets={facets}
+            />
+          }
+        />
       </div>
 
       <CatalogDialogs />
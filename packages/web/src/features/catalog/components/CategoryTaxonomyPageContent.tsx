@@ -0,0 +1,493 @@
+/**
+ * Category Taxonomy Page Content
+ *
+ * The catalog category tree:
+ * - Admins create, rename, move and delete categories
+ * - Buyers and admins see committed spend per category, each row showing
+ *   the total of its branch (the category and its subcategories)
+ */
+
+'use client';
+
+import { FolderTree, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { useSession } from 'next-auth/react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { Category } from '@/domain/entities';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+
+import type {
+  CategorySpendNode,
+  CategorySpendRollup,
+} from '../lib/category-taxonomy';
+import {
+  buildCategoryTree,
+  flattenCategoryTree,
+  getCategoryBranch,
+} from '../lib/category-taxonomy';
+
+type CategoryFormState = {
+  /** Category being edited (none when creating) */
+  id?: string;
+  name: string;
+  code: string;
+  description: string;
+  parentCategoryId: string;
+};
+
+const emptyForm: CategoryFormState = {
+  name: '',
+  code: '',
+  description: '',
+  parentCategoryId: '',
+};
+
+const selectClassName =
+  'border-input h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs disabled:opacity-50';
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(value);
+
+const flattenSpend = (nodes: CategorySpendNode[]): CategorySpendNode[] =>
+  nodes.flatMap((node) => [node, ...flattenSpend(node.children)]);
+
+export function CategoryTaxonomyPageContent() {
+  const { data: session } = useSession();
+  const canManage = hasPermission(
+    session?.user?.role,
+    Permission.CatalogCategoryManage
+  );
+  const canReadSpend = hasPermission(
+    session?.user?.role,
+    Permission.SpendAnalyticsRead
+  );
+
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [spend, setSpend] = useState<CategorySpendRollup | null>(null);
+  const [period, setPeriod] = useState({ startDate: '', endDate: '' });
+  const [isLoading, setIsLoading] = useState(true);
+  const [form, setForm] = useState<CategoryFormState>(emptyForm);
+  const [submitting, setSubmitting] = useState<string | null>(null);
+
+  const loadCategories = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/items/categories');
+
+      if (!response.ok) {
+        throw new Error('Failed to load categories');
+      }
+
+      const data = await response.json();
+      setCategories(data.data || []);
+    } catch (error) {
+      console.error('Error loading categories:', error);
+      toast.error('Failed to load categories', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const loadSpend = useCallback(async () => {
+    if (!canReadSpend) {
+      return;
+    }
+
+    try {
+      const params = new URLSearchParams();
+      if (period.startDate) {
+        params.set('startDate', period.startDate);
+      }
+      if (period.endDate) {
+        params.set('endDate', period.endDate);
+      }
+
+      const response = await fetch(`/api/items/categories/spend?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load spend');
+      }
+
+      setSpend(data.data);
+    } catch (error) {
+      console.error('Error loading category spend:', error);
+      toast.error('Failed to load spend', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    }
+  }, [canReadSpend, period.startDate, period.endDate]);
+
+  useEffect(() => {
+    loadCategories();
+  }, [loadCategories]);
+
+  useEffect(() => {
+    loadSpend();
+  }, [loadSpend]);
+
+  const rows = useMemo(
+    () => flattenCategoryTree(buildCategoryTree(categories)),
+    [categories]
+  );
+  const spendById = useMemo(
+    () =>
+      new Map(
+        flattenSpend(spend?.branches ?? []).map((node) => [
+          node.categoryId,
+          node,
+        ])
+      ),
+    [spend]
+  );
+
+  // A category cannot move under itself or one of its subcategories
+  const parentOptions = useMemo(() => {
+    const excluded = new Set(
+      form.id
+        ? getCategoryBranch(categories, form.id).map((entry) => entry.id)
+        : []
+    );
+    return rows.filter((node) => !excluded.has(node.id));
+  }, [categories, rows, form.id]);
+
+  const saveCategory = async () => {
+    const key = form.id ?? 'new';
+    setSubmitting(key);
+
+    try {
+      const response = await fetch(
+        form.id ? `/api/items/categories/${form.id}` : '/api/items/categories',
+        {
+          method: form.id ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: form.name,
+            code: form.code.trim() || null,
+            description: form.description.trim() || null,
+            parentCategoryId: form.parentCategoryId || null,
+          }),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save category');
+      }
+
+      setForm(emptyForm);
+      toast.success(form.id ? 'Category updated' : 'Category created');
+      await Promise.all([loadCategories(), loadSpend()]);
+    } catch (error) {
+      console.error('Error saving category:', error);
+      toast.error('Failed to save category', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const deleteCategory = async (category: Category) => {
+    setSubmitting(category.id);
+
+    try {
+      const response = await fetch(`/api/items/categories/${category.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || 'Failed to delete category');
+      }
+
+      setCategories((previous) =>
+        previous.filter((entry) => entry.id !== category.id)
+      );
+      if (form.id === category.id) {
+        setForm(emptyForm);
+      }
+      toast.success('Category deleted');
+      await loadSpend();
+    } catch (error) {
+      console.error('Error deleting category:', error);
+      toast.error('Failed to delete category', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const isSaving = submitting === (form.id ?? 'new');
+
+  return (
+    <div className='space-y-6'>
+      {/* Header */}
+      <div>
+        <h2 className='text-3xl font-bold tracking-tight text-foreground'>
+          Categories
+        </h2>
+        <p className='mt-2 text-muted-foreground'>
+          The category tree used to classify catalog items
+          {canReadSpend && ' and report spend'}
+        </p>
+      </div>
+
+      {/* Create / edit */}
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{form.id ? 'Edit category' : 'New category'}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form
+              className='grid gap-4 sm:grid-cols-2'
+              onSubmit={(e) => {
+                e.preventDefault();
+                saveCategory();
+              }}
+            >
+              <div className='space-y-2'>
+                <Label htmlFor='category-name'>Name</Label>
+                <Input
+                  id='category-name'
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder='Paper Products'
+                  disabled={isSaving}
+                />
+              </div>
+              <div className='space-y-2'>
+                <Label htmlFor='category-parent'>Parent category</Label>
+                <select
+                  id='category-parent'
+                  className={selectClassName}
+                  value={form.parentCategoryId}
+                  onChange={(e) =>
+                    setForm({ ...form, parentCategoryId: e.target.value })
+                  }
+                  disabled={isSaving}
+                >
+                  <option value=''>None (root category)</option>
+                  {parentOptions.map((node) => (
+                    <option key={node.id} value={node.id}>
+                      {'\u00a0\u00a0'.repeat(node.depth - 1)}
+                      {node.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className='space-y-2'>
+                <Label htmlFor='category-code'>Code (optional)</Label>
+                <Input
+                  id='category-code'
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value })}
+                  placeholder='UNSPSC 14111500'
+                  disabled={isSaving}
+                />
+              </div>
+              <div className='space-y-2'>
+                <Label htmlFor='category-description'>
+                  Description (optional)
+                </Label>
+                <Input
+                  id='category-description'
+                  value={form.description}
+                  onChange={(e) =>
+                    setForm({ ...form, description: e.target.value })
+                  }
+                  disabled={isSaving}
+                />
+              </div>
+              <div className='flex gap-2 sm:col-span-2'>
+                <Button
+                  type='submit'
+                  disabled={isSaving || form.name.trim().length < 2}
+                >
+                  {isSaving ? (
+                    <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+                  ) : (
+                    !form.id && <Plus className='mr-2 h-4 w-4' />
+                  )}
+                  {form.id ? 'Save' : 'Add'}
+                </Button>
+                {form.id && (
+                  <Button
+                    type='button'
+                    variant='ghost'
+                    onClick={() => setForm(emptyForm)}
+                  >
+                    <X className='mr-2 h-4 w-4' />
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Spend period */}
+      {canReadSpend && (
+        <div className='flex flex-wrap items-end gap-4'>
+          <div className='space-y-2'>
+            <Label htmlFor='spend-start'>Spend from</Label>
+            <Input
+              id='spend-start'
+              type='date'
+              value={period.startDate}
+              onChange={(e) =>
+                setPeriod({ ...period, startDate: e.target.value })
+              }
+            />
+          </div>
+          <div className='space-y-2'>
+            <Label htmlFor='spend-end'>Spend to</Label>
+            <Input
+              id='spend-end'
+              type='date'
+              value={period.endDate}
+              onChange={(e) =>
+                setPeriod({ ...period, endDate: e.target.value })
+              }
+            />
+          </div>
+          {spend && (
+            <p className='pb-2 text-sm text-muted-foreground'>
+              Total committed spend:{' '}
+              <span className='font-medium text-foreground'>
+                {formatCurrency(spend.total)}
+              </span>
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Tree */}
+      {isLoading ? (
+        <div className='flex items-center justify-center py-12'>
+          <Loader2 className='h-8 w-8 animate-spin text-muted-foreground' />
+        </div>
+      ) : rows.length === 0 ? (
+        <Card className='py-2'>
+          <CardContent>
+            <div className='flex flex-col items-center justify-center py-12'>
+              <FolderTree className='h-12 w-12 text-muted-foreground' />
+              <p className='mt-4 text-center text-muted-foreground'>
+                No categories yet. Items accept any category until the first one
+                is added.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <ul className='divide-y rounded-md border'>
+          {rows.map((node) => {
+            const nodeSpend = spendById.get(node.id);
+
+            return (
+              <li
+                key={node.id}
+                className='flex flex-wrap items-center justify-between gap-2 px-3 py-2'
+              >
+                <div
+                  className='flex min-w-0 items-center gap-2'
+                  style={{ paddingLeft: `${(node.depth - 1) * 1.5}rem` }}
+                >
+                  <span className='font-medium'>{node.name}</span>
+                  {node.code && <Badge variant='secondary'>{node.code}</Badge>}
+                  {node.description && (
+                    <span className='truncate text-sm text-muted-foreground'>
+                      {node.description}
+                    </span>
+                  )}
+                </div>
+                <div className='flex items-center gap-3'>
+                  {nodeSpend && (
+                    <span
+                      className='text-sm tabular-nums'
+                      title={`Own spend: ${formatCurrency(nodeSpend.amount)}`}
+                    >
+                      {formatCurrency(nodeSpend.total)}
+                    </span>
+                  )}
+                  {canManage && (
+                    <div className='flex gap-1'>
+                      <Button
+                        size='sm'
+                        variant='ghost'
+                        onClick={() =>
+                          setForm({
+                            id: node.id,
+                            name: node.name,
+                            code: node.code ?? '',
+                            description: node.description ?? '',
+                            parentCategoryId: node.parentCategoryId ?? '',
+                          })
+                        }
+                        disabled={submitting === node.id}
+                      >
+                        <Pencil className='h-4 w-4' />
+                        <span className='sr-only'>Edit</span>
+                      </Button>
+                      <Button
+                        size='sm'
+                        variant='ghost'
+                        onClick={() => deleteCategory(node)}
+                        disabled={
+                          submitting === node.id || node.children.length > 0
+                        }
+                      >
+                        <Trash2 className='h-4 w-4' />
+                        <span className='sr-only'>Delete</span>
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* Spend outside the taxonomy */}
+      {spend && spend.uncategorized.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Spend outside the taxonomy</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className='space-y-1 text-sm'>
+              {spend.uncategorized.map((row) => (
+                <li key={row.category} className='flex justify-between gap-2'>
+                  <span>{row.category}</span>
+                  <span className='tabular-nums'>
+                    {formatCurrency(row.amount)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+/**
+ * Item Review Queue Page Content
+ *
+ * Lists user-registered items waiting for buyer review, with approve,
+ * reject (with a reason) and merge-into-existing-item actions. Merge
+ * candidates come from the duplicate detection used at registration.
+ */
+
+'use client';
+
+import { Check, GitMerge, Loader2, PackageCheck, X } from 'lucide-react';
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { Item } from '@/domain/entities';
+
+type PendingItemReview = {
+  item: Item;
+  duplicates: Item[];
+};
+
+type ReviewAction = 'approve' | 'reject' | 'merge';
+
+export function ItemReviewQueuePageContent() {
+  const [entries, setEntries] = useState<PendingItemReview[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState<string | null>(null);
+
+  // Without a cursor the first page replaces the list; with one the next
+  // page is appended
+  const loadQueue = useCallback(async (cursor?: string) => {
+    if (cursor) {
+      setIsLoadingMore(true);
+    } else {
+      setIsLoading(true);
+    }
+
+    try {
+      const params = new URLSearchParams();
+      if (cursor) {
+        params.set('cursor', cursor);
+      }
+
+      const response = await fetch(`/api/items/review?${params}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to load the review queue');
+      }
+
+      const data = await response.json();
+      const page: PendingItemReview[] = data.data || [];
+      setEntries((previous) => (cursor ? [...previous, ...page] : page));
+      setNextCursor(data.hasMore ? data.nextCursor : null);
+    } catch (error) {
+      console.error('Error loading item review queue:', error);
+      toast.error('Failed to load review queue', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setIsLoading(false);
+      setIsLoadingMore(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const handleDecision = async (
+    item: Item,
+    action: ReviewAction,
+    target?: Item
+  ) => {
+    const reason = reasons[item.id]?.trim() ?? '';
+
+    if (action === 'reject' && !reason) {
+      toast.error('Please add a reason explaining the rejection');
+      return;
+    }
+
+    setSubmitting(item.id);
+
+    try {
+      const response = await fetch(`/api/items/${item.id}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          action === 'reject'
+            ? { reason }
+            : action === 'merge'
+              ? { targetItemId: target?.id }
+              : {}
+        ),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to review item');
+      }
+
+      toast.success(
+        action === 'approve'
+          ? `${item.name} added to the catalog`
+          : action === 'reject'
+            ? `${item.name} rejected`
+            : `${item.name} merged into ${target?.name}`
+      );
+      setEntries((previous) =>
+        previous.filter((entry) => entry.item.id !== item.id)
+      );
+    } catch (error) {
+      console.error('Error reviewing item:', error);
+      toast.error('Failed to review item', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <div className='space-y-6'>
+      {/* Header */}
+      <div>
+        <h2 className='text-3xl font-bold tracking-tight text-foreground'>
+          Item Review
+        </h2>
+        <p className='mt-2 text-muted-foreground'>
+          Items registered by users, waiting to join the catalog
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className='flex items-center justify-center py-12'>
+          <Loader2 className='h-8 w-8 animate-spin text-muted-foreground' />
+        </div>
+      ) : entries.length === 0 ? (
+        <Card className='py-2'>
+          <CardContent>
+            <div className='flex flex-col items-center justify-center py-12'>
+              <PackageCheck className='h-12 w-12 text-muted-foreground' />
+              <p className='mt-4 text-center text-muted-foreground'>
+                You&apos;re all caught up. No items are waiting for review.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className='space-y-4'>
+          {entries.map(({ item, duplicates }) => (
+            <Card key={item.id}>
+              <CardHeader>
+                <div className='flex flex-wrap items-start justify-between gap-2'>
+                  <div className='space-y-1'>
+                    <CardTitle>{item.name}</CardTitle>
+                    <div className='flex flex-wrap items-center gap-2 text-sm text-muted-foreground'>
+                      <Badge variant='secondary'>{item.category}</Badge>
+                      <span>${item.estimatedPrice.toFixed(2)}</span>
+                      {item.unit && <span>per {item.unit}</span>}
+                      <span>· Submitted {formatDate(item.createdAt)}</span>
+                    </div>
+                  </div>
+                  <Button
+                    size='sm'
+                    onClick={() => handleDecision(item, 'approve')}
+                    disabled={submitting === item.id}
+                  >
+                    {submitting === item.id ? (
+                      <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+                    ) : (
+                      <Check className='mr-2 h-4 w-4' />
+                    )}
+                    Approve
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className='space-y-4'>
+                <p className='text-sm'>{item.description}</p>
+
+                {/* Merge candidates */}
+                <div className='space-y-2'>
+                  <h3 className='text-sm font-semibold'>Similar items</h3>
+                  {duplicates.length === 0 ? (
+                    <p className='text-sm text-muted-foreground'>
+                      No similar items in the catalog.
+                    </p>
+                  ) : (
+                    <ul className='divide-y rounded-md border'>
+                      {duplicates.map((duplicate) => (
+                        <li
+                          key={duplicate.id}
+                          className='flex items-center justify-between gap-2 px-3 py-2'
+                        >
+                          <div className='min-w-0'>
+                            <Link
+                              href={`/catalog/${duplicate.id}`}
+                              className='font-medium hover:underline'
+                            >
+                              {duplicate.name}
+                            </Link>
+                            <p className='text-xs text-muted-foreground'>
+                              {duplicate.category} · $
+                              {duplicate.estimatedPrice.toFixed(2)}
+                            </p>
+                          </div>
+                          <Button
+                            size='sm'
+                            variant='outline'
+                            onClick={() =>
+                              handleDecision(item, 'merge', duplicate)
+                            }
+                            disabled={submitting === item.id}
+                          >
+                            <GitMerge className='mr-2 h-4 w-4' />
+                            Merge into this
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                {/* Reject */}
+                <div className='space-y-2'>
+                  <Label htmlFor={`reject-reason-${item.id}`}>
+                    Rejection reason
+                  </Label>
+                  <Textarea
+                    id={`reject-reason-${item.id}`}
+                    value={reasons[item.id] ?? ''}
+                    onChange={(e) =>
+                      setReasons((previous) => ({
+                        ...previous,
+                        [item.id]: e.target.value,
+                      }))
+                    }
+                    placeholder='Explain why the item is not added to the catalog'
+                    maxLength={500}
+                    disabled={submitting === item.id}
+                  />
+                  <Button
+                    size='sm'
+                    variant='destructive'
+                    onClick={() => handleDecision(item, 'reject')}
+                    disabled={submitting === item.id}
+                  >
+                    <X className='mr-2 h-4 w-4' />
+                    Reject
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+
+          {nextCursor && (
+            <div className='flex justify-center'>
+              <Button
+                variant='outline'
+                size='sm'
+                onClick={() => loadQueue(nextCursor)}
+                disabled={isLoadingMore}
+              >
+                {isLoadingMore && (
+                  <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+                )}
+                Load more
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+/**
+ * Item Submissions Page Content
+ *
+ * Items the current user registered, with the outcome of the buyer
+ * review: approved, rejected (with the reason) or merged into an existing
+ * item (linked so it can be ordered instead).
+ */
+
+'use client';
+
+import { Loader2, PackagePlus } from 'lucide-react';
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { Item } from '@/domain/entities';
+import { ItemReviewDecision, ItemStatus } from '@/domain/entities';
+
+import { getSubmissionLabel } from '../lib/catalog-lifecycle';
+
+export function ItemSubmissionsPageContent() {
+  const [items, setItems] = useState<Item[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+
+  // Without a cursor the first page replaces the list; with one the next
+  // page is appended
+  const loadSubmissions = useCallback(async (cursor?: string) => {
+    if (cursor) {
+      setIsLoadingMore(true);
+    } else {
+      setIsLoading(true);
+    }
+
+    try {
+      const params = new URLSearchParams();
+      if (cursor) {
+        params.set('cursor', cursor);
+      }
+
+      const response = await fetch(`/api/items/submissions?${params}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to load your submissions');
+      }
+
+      const data = await response.json();
+      const page: Item[] = data.data || [];
+      setItems((previous) => (cursor ? [...previous, ...page] : page));
+      setNextCursor(data.hasMore ? data.nextCursor : null);
+    } catch (error) {
+      console.error('Error loading item submissions:', error);
+      toast.error('Failed to load submissions', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setIsLoading(false);
+      setIsLoadingMore(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSubmissions();
+  }, [loadSubmissions]);
+
+  const getBadgeVariant = (item: Item) => {
+    if (item.status === ItemStatus.Active) {
+      return 'default';
+    }
+    if (item.review?.decision === ItemReviewDecision.Rejected) {
+      return 'destructive';
+    }
+    return 'secondary';
+  };
+
+  const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <div className='space-y-6'>
+      {/* Header */}
+      <div>
+        <h2 className='text-3xl font-bold tracking-tight text-foreground'>
+          My Submissions
+        </h2>
+        <p className='mt-2 text-muted-foreground'>
+          Items you registered and the outcome of their review
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className='flex items-center justify-center py-12'>
+          <Loader2 className='h-8 w-8 animate-spin text-muted-foreground' />
+        </div>
+      ) : items.length === 0 ? (
+        <Card className='py-2'>
+          <CardContent>
+            <div className='flex flex-col items-center justify-center py-12'>
+              <PackagePlus className='h-12 w-12 text-muted-foreground' />
+              <p className='mt-4 text-center text-muted-foreground'>
+                You haven&apos;t registered any items yet.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className='py-2'>
+          <CardContent className='p-0'>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Submitted</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell className='font-medium'>
+                      {item.status === ItemStatus.Active ? (
+                        <Link
+                          href={`/catalog/${item.id}`}
+                          className='hover:underline'
+                        >
+                          {item.name}
+                        </Link>
+                      ) : (
+                        item.name
+                      )}
+                    </TableCell>
+                    <TableCell>{item.category}</TableCell>
+                    <TableCell>{formatDate(item.createdAt)}</TableCell>
+                    <TableCell>
+                      <Badge variant={getBadgeVariant(item)}>
+                        {getSubmissionLabel(item)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className='text-sm text-muted-foreground'>
+                      {item.review?.decision === ItemReviewDecision.Rejected &&
+                        item.review.reason}
+                      {item.review?.decision === ItemReviewDecision.Merged &&
+                        item.review.mergedIntoItemId && (
+                          <Link
+                            href={`/catalog/${item.review.mergedIntoItemId}`}
+                            className='text-primary hover:underline'
+                          >
+                            Order the existing item instead
+                          </Link>
+                        )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {nextCursor && (
+        <div className='flex justify-center'>
+          <Button
+            variant='outline'
+            size='sm'
+            onClick={() => loadSubmissions(nextCursor)}
+            disabled={isLoadingMore}
+          >
+            {isLoadingMore && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+            Load more
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import {
   ArrowLeft,
+  Layers,
   Loader2,
   Minus,
   Package,
@@ -10,6 +11,7 @@ import {
   Tag,
 } from 'lucide-react';
 import { useParams, useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import { useEffect, useState } from 'react';
 import { toast } from 'sonner';
 
@@ -23,14 +25,44 @@ import {
 } from '@/components';
 import { useBreadcrumb } from '@/contexts/BreadcrumbContext';
 import { useCart } from '@/contexts/CartContext';
-import type { Item } from '@/domain/entities';
-import { ItemStatus } from '@/domain/entities';
+import type {
+  CategoryAttributeSchema,
+  Item,
+  ItemAttributeDefinition,
+} from '@/domain/entities';
+import { ItemSupplierOffers } from '@/features/suppliers/components/ItemSupplierOffers';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { cn } from '@/lib/utils';
+
+import {
+  isItemPurchasable,
+  ITEM_STATUS_LABELS,
+} from '../lib/catalog-lifecycle';
+import {
+  formatAttributeValue,
+  getVariantAxes,
+  getVariantLabel,
+} from '../lib/item-attributes';
+import {
+  formatPackSize,
+  getPackSize,
+  roundToPackSize,
+} from '../lib/item-units';
+
+import { ItemMutateDialog } from './item-mutate-dialog';
+import { ItemPriceHistory } from './item-price-history';
+
+// Cart quantity limit (BR-2.2)
+const MAX_QUANTITY = 999;
 
 /**
  * ProductDetailPageContent - Client component for product detail UI
  * Features:
  * - Display full product information (loaded from API)
- * - Add to cart with quantity selector
+ * - Variant picker (items of the same parent product) and attributes
+ * - Add to cart with quantity selector (in whole packs for items with an
+ *   order unit)
+ * - Price history sparkline and changelog
  * - Back to catalog navigation
  * - Responsive layout
  */
@@ -43,8 +75,21 @@ export function ProductDetailPageContent() {
   const [isAddingToCart, setIsAddingToCart] = useState(false);
   const [item, setItem] = useState<Item | null>(null);
   const [isLoadingItem, setIsLoadingItem] = useState(true);
+  const [variants, setVariants] = useState<Item[]>([]);
+  const [attributeDefinitions, setAttributeDefinitions] = useState<
+    ItemAttributeDefinition[]
+  >([]);
+  const [isVariantDialogOpen, setIsVariantDialogOpen] = useState(false);
+  const [variantsVersion, setVariantsVersion] = useState(0);
+  const { data: session } = useSession();
 
   const itemId = params?.itemId as string;
+  const packSize = item ? getPackSize(item) : 1;
+  const maxQuantity = Math.floor(MAX_QUANTITY / packSize) * packSize;
+  const canCreateItems = hasPermission(
+    session?.user?.role,
+    Permission.CatalogCreate
+  );
 
   // Load item from API
   useEffect(() => {
@@ -66,8 +111,9 @@ export function ProductDetailPageContent() {
           throw new Error(`Failed to fetch item: ${response.statusText}`);
         }
 
-        const data = await response.json();
+        const data: Item = await response.json();
         setItem(data);
+        setQuantity(getPackSize(data));
       } catch (error) {
         console.error('Error loading item:', error);
         toast.error('Failed to load item details', {
@@ -85,6 +131,41 @@ export function ProductDetailPageContent() {
     loadItem();
   }, [itemId]);
 
+  // Load the variant family and the attribute schema of the category
+  const itemCategory = item?.category;
+  useEffect(() => {
+    if (!itemId || !itemCategory) {
+      return;
+    }
+
+    async function loadVariants() {
+      try {
+        const [variantsResponse, schemaResponse] = await Promise.all([
+          fetch(`/api/items/${itemId}/variants`),
+          fetch(
+            `/api/items/attribute-schemas?${new URLSearchParams({
+              category: itemCategory ?? '',
+            })}`
+          ),
+        ]);
+
+        if (variantsResponse.ok) {
+          const data = await variantsResponse.json();
+          setVariants(data.data || []);
+        }
+        if (schemaResponse.ok) {
+          const data = await schemaResponse.json();
+          const schema: CategoryAttributeSchema | undefined = data.data?.[0];
+          setAttributeDefinitions(schema?.attributes ?? []);
+        }
+      } catch (error) {
+        console.error('Error loading item variants:', error);
+      }
+    }
+
+    loadVariants();
+  }, [itemId, itemCategory, variantsVersion]);
+
   // Set breadcrumb label with item name
   useEffect(() => {
     if (item) {
@@ -140,9 +221,15 @@ export function ProductDetailPageContent() {
   };
 
   const handleQuantityChange = (delta: number) => {
-    setQuantity((prev) => Math.max(1, Math.min(999, prev + delta)));
+    setQuantity((prev) =>
+      Math.max(packSize, Math.min(maxQuantity, prev + delta * packSize))
+    );
   };
 
+  const variantAxes = getVariantAxes(variants);
+  const attributeEntries = Object.entries(item?.attributes ?? {});
+  const packNote = item && formatPackSize(item);
+
   // Show loading skeleton while fetching item
   if (isLoadingItem) {
     return (
@@ -221,12 +308,10 @@ export function ProductDetailPageContent() {
                   </Badge>
                   <Badge
                     variant={
-                      item.status === ItemStatus.Active ? 'default' : 'outline'
+                      isItemPurchasable(item.status) ? 'default' : 'outline'
                     }
                   >
-                    {item.status === ItemStatus.Active
-                      ? 'Available'
-                      : 'Inactive'}
+                    {ITEM_STATUS_LABELS[item.status]}
                   </Badge>
                 </div>
                 <h1 className='text-xl sm:text-2xl lg:text-3xl font-bold text-foreground'>
@@ -258,6 +343,84 @@ export function ProductDetailPageContent() {
               </p>
             </div>
 
+            {/* Variant Picker */}
+            {(variants.length > 1 ||
+              (canCreateItems && !item.parentItemId)) && (
+              <div>
+                <div className='flex items-center justify-between gap-2 mb-3'>
+                  <h2 className='text-lg font-semibold text-foreground'>
+                    Variants
+                  </h2>
+                  {canCreateItems && !item.parentItemId && (
+                    <Button
+                      size='sm'
+                      variant='outline'
+                      onClick={() => setIsVariantDialogOpen(true)}
+                    >
+                      <Layers className='mr-2 h-4 w-4' />
+                      Add variant
+                    </Button>
+                  )}
+                </div>
+                {variants.length > 1 ? (
+                  <div className='flex flex-wrap gap-2'>
+                    {variants.map((variant) => (
+                      <Button
+                        key={variant.id}
+                        size='sm'
+                        variant={variant.id === item.id ? 'default' : 'outline'}
+                        className={cn(
+                          !variant.parentItemId && 'italic',
+                          !isItemPurchasable(variant.status) && 'opacity-60'
+                        )}
+                        onClick={() => router.push(`/catalog/${variant.id}`)}
+                        disabled={variant.id === item.id}
+                      >
+                        {variant.parentItemId
+                          ? getVariantLabel(
+                              variant,
+                              variantAxes,
+                              attributeDefinitions
+                            )
+                          : variant.name}
+                      </Button>
+                    ))}
+                  </div>
+                ) : (
+                  <p className='text-sm text-muted-foreground'>
+                    No variants yet. Add one for each color, size or capacity
+                    this product comes in.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Attributes */}
+            {attributeEntries.length > 0 && (
+              <div>
+                <h2 className='text-lg font-semibold text-foreground mb-3'>
+                  Attributes
+                </h2>
+                <dl className='grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2 text-sm'>
+                  {attributeEntries.map(([key, value]) => {
+                    const definition = attributeDefinitions.find(
+                      (candidate) => candidate.key === key
+                    );
+                    return (
+                      <div key={key} className='flex justify-between gap-2'>
+                        <dt className='text-muted-foreground'>
+                          {definition?.label ?? key}
+                        </dt>
+                        <dd className='font-medium text-foreground'>
+                          {formatAttributeValue(value, definition)}
+                        </dd>
+                      </div>
+                    );
+                  })}
+                </dl>
+              </div>
+            )}
+
             {/* Product Info Grid */}
             <div className='grid grid-cols-1 sm:grid-cols-2 gap-4'>
               <div className='bg-muted rounded-lg p-4'>
@@ -276,8 +439,39 @@ export function ProductDetailPageContent() {
                   {item.category}
                 </div>
               </div>
+              {item.sku && (
+                <div className='bg-muted rounded-lg p-4'>
+                  <div className='text-sm text-muted-foreground mb-1'>SKU</div>
+                  <div className='font-mono text-sm text-foreground'>
+                    {item.sku}
+                  </div>
+                </div>
+              )}
+              <div className='bg-muted rounded-lg p-4'>
+                <div className='text-sm text-muted-foreground mb-1'>Unit</div>
+                <div className='font-medium text-foreground'>
+                  {item.unit || 'each'}
+                  {packNote && ` · sold by the ${item.orderUnit} (${packNote})`}
+                </div>
+                {item.unitConversions && item.unitConversions.length > 0 && (
+                  <div className='mt-1 text-xs text-muted-foreground'>
+                    {item.unitConversions
+                      .map(
+                        (conversion) =>
+                          `1 ${conversion.unit} = ${conversion.factor} ${item.unit || 'each'}`
+                      )
+                      .join(' · ')}
+                  </div>
+                )}
+              </div>
             </div>
 
+            {/* Supplier Offers */}
+            <ItemSupplierOffers itemId={item.id} />
+
+            {/* Price History and Changelog */}
+            <ItemPriceHistory item={item} />
+
             {/* Add to Cart Section */}
             <div className='pt-6 border-t border-border'>
               <h2 className='text-base sm:text-lg font-semibold text-foreground mb-4'>
@@ -295,7 +489,7 @@ export function ProductDetailPageContent() {
                       size='icon'
                       variant='outline'
                       onClick={() => handleQuantityChange(-1)}
-                      disabled={quantity <= 1 || isAddingToCart}
+                      disabled={quantity <= packSize || isAddingToCart}
                       className='h-9 w-9 sm:h-10 sm:w-10'
                     >
                       <Minus className='h-4 w-4' />
@@ -305,29 +499,37 @@ export function ProductDetailPageContent() {
                       value={quantity}
                       onChange={(e) => {
                         const val = parseInt(e.target.value) || 1;
-                        setQuantity(Math.max(1, Math.min(999, val)));
+                        setQuantity(
+                          Math.min(maxQuantity, roundToPackSize(val, packSize))
+                        );
                       }}
                       disabled={isAddingToCart}
                       className='w-16 sm:w-20 text-center'
-                      min='1'
-                      max='999'
+                      min={packSize}
+                      max={maxQuantity}
+                      step={packSize}
                     />
                     <Button
                       size='icon'
                       variant='outline'
                       onClick={() => handleQuantityChange(1)}
-                      disabled={quantity >= 999 || isAddingToCart}
+                      disabled={quantity >= maxQuantity || isAddingToCart}
                       className='h-9 w-9 sm:h-10 sm:w-10'
                     >
                       <Plus className='h-4 w-4' />
                     </Button>
                   </div>
+                  {packNote && (
+                    <span className='text-sm text-muted-foreground'>
+                      {quantity / packSize} {item.orderUnit} of {packNote}
+                    </span>
+                  )}
                 </div>
 
                 {/* Add to Cart Button */}
                 <Button
                   onClick={handleAddToCart}
-                  disabled={isAddingToCart}
+                  disabled={isAddingToCart || !isItemPurchasable(item.status)}
                   className='w-full sm:w-auto flex items-center justify-center gap-2'
                   size='lg'
                 >
@@ -360,6 +562,16 @@ export function ProductDetailPageContent() {
           </CardContent>
         </Card>
       </div>
+
+      {canCreateItems && !item.parentItemId && (
+        <ItemMutateDialog
+          key={`item-variant-${item.id}`}
+          open={isVariantDialogOpen}
+          onOpenChange={setIsVariantDialogOpen}
+          parentItem={item}
+          onSuccess={() => setVariantsVersion((version) => version + 1)}
+        />
+      )}
     </div>
   );
 }
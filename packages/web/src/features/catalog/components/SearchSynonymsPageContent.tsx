@@ -0,0 +1,282 @@
+/**
+ * Search Synonyms Page Content
+ *
+ * Admin editor for the catalog search synonym dictionary: searching for
+ * any term of a group also finds items described with the others.
+ * Terms are entered comma-separated; the server normalizes them.
+ */
+
+'use client';
+
+import { BookA, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { SearchSynonym } from '@/domain/entities';
+
+const splitTerms = (value: string) =>
+  value
+    .split(',')
+    .map((term) => term.trim())
+    .filter((term) => term.length > 0);
+
+export function SearchSynonymsPageContent() {
+  const [synonyms, setSynonyms] = useState<SearchSynonym[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newTerms, setNewTerms] = useState('');
+  const [editing, setEditing] = useState<{ id: string; terms: string } | null>(
+    null
+  );
+  const [submitting, setSubmitting] = useState<string | null>(null);
+
+  const loadSynonyms = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/items/synonyms');
+
+      if (!response.ok) {
+        throw new Error('Failed to load synonyms');
+      }
+
+      const data = await response.json();
+      setSynonyms(data.data || []);
+    } catch (error) {
+      console.error('Error loading search synonyms:', error);
+      toast.error('Failed to load synonyms', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSynonyms();
+  }, [loadSynonyms]);
+
+  // Create (no id) or update a group
+  const saveGroup = async (terms: string, id?: string) => {
+    setSubmitting(id ?? 'new');
+
+    try {
+      const response = await fetch(
+        id ? `/api/items/synonyms/${id}` : '/api/items/synonyms',
+        {
+          method: id ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ terms: splitTerms(terms) }),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save synonyms');
+      }
+
+      const saved: SearchSynonym = data.data;
+      setSynonyms((previous) =>
+        id
+          ? previous.map((synonym) => (synonym.id === id ? saved : synonym))
+          : [saved, ...previous]
+      );
+      if (id) {
+        setEditing(null);
+      } else {
+        setNewTerms('');
+      }
+      toast.success('Synonyms saved');
+    } catch (error) {
+      console.error('Error saving search synonyms:', error);
+      toast.error('Failed to save synonyms', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const deleteGroup = async (synonym: SearchSynonym) => {
+    setSubmitting(synonym.id);
+
+    try {
+      const response = await fetch(`/api/items/synonyms/${synonym.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || 'Failed to delete synonyms');
+      }
+
+      setSynonyms((previous) =>
+        previous.filter((entry) => entry.id !== synonym.id)
+      );
+      toast.success('Synonyms deleted');
+    } catch (error) {
+      console.error('Error deleting search synonyms:', error);
+      toast.error('Failed to delete synonyms', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  return (
+    <div className='space-y-6'>
+      {/* Header */}
+      <div>
+        <h2 className='text-3xl font-bold tracking-tight text-foreground'>
+          Search Synonyms
+        </h2>
+        <p className='mt-2 text-muted-foreground'>
+          Terms in the same group find each other in catalog search
+        </p>
+      </div>
+
+      {/* New group */}
+      <Card>
+        <CardHeader>
+          <CardTitle>New synonym group</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form
+            className='flex flex-col gap-2 sm:flex-row sm:items-end'
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveGroup(newTerms);
+            }}
+          >
+            <div className='flex-1 space-y-2'>
+              <Label htmlFor='synonym-terms'>Terms (comma-separated)</Label>
+              <Input
+                id='synonym-terms'
+                value={newTerms}
+                onChange={(e) => setNewTerms(e.target.value)}
+                placeholder='notepad, notebook, writing pad'
+                disabled={submitting === 'new'}
+              />
+            </div>
+            <Button
+              type='submit'
+              disabled={submitting === 'new' || splitTerms(newTerms).length < 2}
+            >
+              {submitting === 'new' ? (
+                <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+              ) : (
+                <Plus className='mr-2 h-4 w-4' />
+              )}
+              Add
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Groups */}
+      {isLoading ? (
+        <div className='flex items-center justify-center py-12'>
+          <Loader2 className='h-8 w-8 animate-spin text-muted-foreground' />
+        </div>
+      ) : synonyms.length === 0 ? (
+        <Card className='py-2'>
+          <CardContent>
+            <div className='flex flex-col items-center justify-center py-12'>
+              <BookA className='h-12 w-12 text-muted-foreground' />
+              <p className='mt-4 text-center text-muted-foreground'>
+                No synonyms yet. Add terms your users search for, like &quot;usb
+                c, type c&quot;.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <ul className='divide-y rounded-md border'>
+          {synonyms.map((synonym) => (
+            <li
+              key={synonym.id}
+              className='flex flex-wrap items-center justify-between gap-2 px-3 py-2'
+            >
+              {editing?.id === synonym.id ? (
+                <form
+                  className='flex flex-1 gap-2'
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    saveGroup(editing.terms, synonym.id);
+                  }}
+                >
+                  <Input
+                    aria-label='Terms (comma-separated)'
+                    value={editing.terms}
+                    onChange={(e) =>
+                      setEditing({ id: synonym.id, terms: e.target.value })
+                    }
+                    disabled={submitting === synonym.id}
+                  />
+                  <Button
+                    type='submit'
+                    size='sm'
+                    disabled={submitting === synonym.id}
+                  >
+                    Save
+                  </Button>
+                  <Button
+                    type='button'
+                    size='sm'
+                    variant='ghost'
+                    onClick={() => setEditing(null)}
+                  >
+                    <X className='h-4 w-4' />
+                  </Button>
+                </form>
+              ) : (
+                <>
+                  <div className='flex flex-wrap gap-1'>
+                    {synonym.terms.map((term) => (
+                      <Badge key={term} variant='secondary'>
+                        {term}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className='flex gap-1'>
+                    <Button
+                      size='sm'
+                      variant='ghost'
+                      onClick={() =>
+                        setEditing({
+                          id: synonym.id,
+                          terms: synonym.terms.join(', '),
+                        })
+                      }
+                      disabled={submitting === synonym.id}
+                    >
+                      <Pencil className='h-4 w-4' />
+                      <span className='sr-only'>Edit</span>
+                    </Button>
+                    <Button
+                      size='sm'
+                      variant='ghost'
+                      onClick={() => deleteGroup(synonym)}
+                      disabled={submitting === synonym.id}
+                    >
+                      <Trash2 className='h-4 w-4' />
+                      <span className='sr-only'>Delete</span>
+                    </Button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
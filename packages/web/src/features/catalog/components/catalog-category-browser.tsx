@@ -0,0 +1,103 @@
+import { ChevronRight } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+import { Button } from '@/components';
+import type { Category } from '@/domain/entities';
+
+import {
+  buildCategoryTree,
+  findCategoryByName,
+  getCategoryPath,
+} from '../lib/category-taxonomy';
+
+type CatalogCategoryBrowserProps = {
+  /** Category the catalog is drilled into (its whole branch is listed) */
+  branch?: string;
+  onBranchChange: (branch: string | undefined) => void;
+};
+
+/**
+ * CatalogCategoryBrowser - Drill down the category tree
+ * A breadcrumb of the selected category and its subcategories as chips.
+ * Hidden while the taxonomy is empty.
+ */
+export function CatalogCategoryBrowser({
+  branch,
+  onBranchChange,
+}: CatalogCategoryBrowserProps) {
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch('/api/items/categories', { signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setCategories(data?.data ?? []))
+      .catch((error) => {
+        if (!controller.signal.aborted) {
+          console.error('Error loading categories:', error);
+        }
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  const selected = branch ? findCategoryByName(categories, branch) : undefined;
+  const path = selected ? getCategoryPath(categories, selected.id) : [];
+  const children = selected
+    ? categories
+        .filter((category) => category.parentCategoryId === selected.id)
+        .sort((a, b) => a.name.localeCompare(b.name))
+    : buildCategoryTree(categories);
+
+  if (categories.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className='space-y-2'>
+      <nav
+        aria-label='Category'
+        className='flex flex-wrap items-center gap-1 text-sm'
+      >
+        <button
+          type='button'
+          className='text-muted-foreground hover:text-foreground'
+          onClick={() => onBranchChange(undefined)}
+        >
+          All categories
+        </button>
+        {path.map((category) => (
+          <span key={category.id} className='flex items-center gap-1'>
+            <ChevronRight className='h-4 w-4 text-muted-foreground' />
+            <button
+              type='button'
+              className={
+                category.id === selected?.id
+                  ? 'font-medium text-foreground'
+                  : 'text-muted-foreground hover:text-foreground'
+              }
+              onClick={() => onBranchChange(category.name)}
+            >
+              {category.name}
+            </button>
+          </span>
+        ))}
+      </nav>
+      {children.length > 0 && (
+        <div className='flex flex-wrap gap-2'>
+          {children.map((category) => (
+            <Button
+              key={category.id}
+              variant='outline'
+              size='sm'
+              className='h-7 rounded-full'
+              onClick={() => onBranchChange(category.name)}
+            >
+              {category.name}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
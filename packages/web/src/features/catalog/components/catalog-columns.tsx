@@ -1,18 +1,75 @@
 import type { ColumnDef, Row } from '@tanstack/react-table';
-import { Eye, LoaderIcon, ShoppingCart } from 'lucide-react';
+import {
+  Archive,
+  ArchiveRestore,
+  Eye,
+  LoaderIcon,
+  MoreHorizontal,
+  ShoppingCart,
+  Trash2,
+} from 'lucide-react';
 import Link from 'next/link';
 
-import { Badge, Button } from '@/components';
+import {
+  Badge,
+  Button,
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components';
 import type { Item } from '@/domain/entities';
 
+import {
+  isItemArchived,
+  isItemPurchasable,
+  ITEM_STATUS_LABELS,
+} from '../lib/catalog-lifecycle';
+
 import { useCatalog } from './catalog-provider';
 
 export const catalogColumns: ColumnDef<Item>[] = [
+  {
+    id: 'select',
+    header: ({ table }) => (
+      <input
+        type='checkbox'
+        aria-label='Select all'
+        className='h-4 w-4 accent-primary'
+        checked={table.getIsAllPageRowsSelected()}
+        ref={(input) => {
+          if (input) {
+            input.indeterminate = table.getIsSomePageRowsSelected();
+          }
+        }}
+        onChange={(e) => table.toggleAllPageRowsSelected(e.target.checked)}
+      />
+    ),
+    cell: ({ row }) => (
+      <input
+        type='checkbox'
+        aria-label='Select row'
+        className='h-4 w-4 accent-primary'
+        checked={row.getIsSelected()}
+        disabled={!row.getCanSelect()}
+        onChange={(e) => row.toggleSelected(e.target.checked)}
+      />
+    ),
+    enableSorting: false,
+  },
   {
     accessorKey: 'name',
     header: 'Name',
     cell: ({ row }) => (
-      <div className='font-medium'>{row.getValue('name')}</div>
+      <div className='flex items-center gap-2 font-medium'>
+        {row.getValue('name')}
+        {!isItemPurchasable(row.original.status) && (
+          <Badge variant='outline'>
+            {ITEM_STATUS_LABELS[row.original.status]}
+          </Badge>
+        )}
+      </div>
     ),
   },
   {
@@ -44,6 +101,21 @@ export const catalogColumns: ColumnDef<Item>[] = [
       return <div className='font-medium'>{formatted}</div>;
     },
   },
+  {
+    accessorKey: 'supplierCount',
+    header: 'Suppliers',
+    cell: ({ row }) => {
+      const count = row.original.supplierCount ?? 0;
+
+      return (
+        <div className='text-muted-foreground'>
+          {count > 0
+            ? `Available from ${count} ${count === 1 ? 'supplier' : 'suppliers'}`
+            : '—'}
+        </div>
+      );
+    },
+  },
   {
     id: 'actions',
     cell: ({ row }) => <CatalogRowActions row={row} />,
@@ -52,7 +124,17 @@ export const catalogColumns: ColumnDef<Item>[] = [
 
 function CatalogRowActions({ row }: { row: Row<Item> }) {
   const item = row.original;
-  const { handleAddToCart, addingToCart } = useCatalog();
+  const {
+    handleAddToCart,
+    addingToCart,
+    canArchiveItems,
+    canDeleteItems,
+    handleArchiveItems,
+    handleUnarchiveItem,
+    setCurrentRow,
+    setOpen,
+    updatingItem,
+  } = useCatalog();
 
   return (
     <div className='flex items-center gap-2'>
@@ -66,7 +148,7 @@ function CatalogRowActions({ row }: { row: Row<Item> }) {
         size='sm'
         variant='secondary'
         onClick={() => handleAddToCart(item)}
-        disabled={addingToCart === item.id}
+        disabled={addingToCart === item.id || !isItemPurchasable(item.status)}
         className='w-20'
       >
         {addingToCart === item.id ? (
@@ -78,6 +160,53 @@ function CatalogRowActions({ row }: { row: Row<Item> }) {
           </>
         )}
       </Button>
+
+      {canArchiveItems && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              size='sm'
+              variant='ghost'
+              aria-label='More actions'
+              disabled={updatingItem === item.id}
+            >
+              {updatingItem === item.id ? (
+                <LoaderIcon className='h-4 w-4 animate-pulse' />
+              ) : (
+                <MoreHorizontal className='h-4 w-4' />
+              )}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align='end'>
+            {isItemArchived(item.status) ? (
+              <DropdownMenuItem onClick={() => handleUnarchiveItem(item)}>
+                <ArchiveRestore className='h-4 w-4' />
+                Restore
+              </DropdownMenuItem>
+            ) : (
+              <DropdownMenuItem onClick={() => handleArchiveItems([item])}>
+                <Archive className='h-4 w-4' />
+                Archive
+              </DropdownMenuItem>
+            )}
+            {canDeleteItems && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  variant='destructive'
+                  onClick={() => {
+                    setCurrentRow(item);
+                    setOpen('delete');
+                  }}
+                >
+                  <Trash2 className='h-4 w-4' />
+                  Delete
+                </DropdownMenuItem>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
     </div>
   );
 }
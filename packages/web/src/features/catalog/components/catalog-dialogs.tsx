@@ -1,9 +1,17 @@
+import { CatalogImportDialog } from './catalog-import-dialog';
 import { useCatalog } from './catalog-provider';
+import { ItemDeleteDialog } from './item-delete-dialog';
 import { ItemMutateDialog } from './item-mutate-dialog';
 
 export function CatalogDialogs() {
-  const { open, setOpen, currentRow, setCurrentRow, onRefreshCatalog } =
-    useCatalog();
+  const {
+    open,
+    setOpen,
+    currentRow,
+    setCurrentRow,
+    handleDeleteItem,
+    onRefreshCatalog,
+  } = useCatalog();
 
   return (
     <>
@@ -14,6 +22,30 @@ export function CatalogDialogs() {
         onSuccess={onRefreshCatalog}
       />
 
+      <CatalogImportDialog
+        key='item-import'
+        open={open === 'import'}
+        onOpenChange={(isOpen) => setOpen(isOpen ? 'import' : null)}
+        onSuccess={onRefreshCatalog}
+      />
+
+      {currentRow && (
+        <ItemDeleteDialog
+          key={`item-delete-${currentRow.id}`}
+          open={open === 'delete'}
+          onOpenChange={(isOpen) => {
+            setOpen(isOpen ? 'delete' : null);
+            if (!isOpen) {
+              setTimeout(() => {
+                setCurrentRow(null);
+              }, 300);
+            }
+          }}
+          currentRow={currentRow}
+          onConfirm={handleDeleteItem}
+        />
+      )}
+
       {currentRow && (
         <ItemMutateDialog
           key={`item-update-${currentRow.id}`}
@@ -0,0 +1,241 @@
+'use client';
+
+import { ArrowUpDown, ChevronDown, X } from 'lucide-react';
+
+import {
+  Badge,
+  Button,
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+  Input,
+} from '@/components';
+import type { ItemStatus } from '@/domain/entities';
+
+import type {
+  CatalogFacets,
+  CatalogSearchFilters,
+  CatalogSort,
+  FacetBucket,
+} from '../lib/catalog-search';
+import { CATALOG_SORT_OPTIONS } from '../lib/catalog-search';
+
+type CatalogFiltersProps = {
+  filters: CatalogSearchFilters;
+  onFiltersChange: (filters: CatalogSearchFilters) => void;
+  sort: CatalogSort;
+  onSortChange: (sort: CatalogSort) => void;
+  facets: CatalogFacets | null;
+};
+
+const SORT_LABELS: Record<CatalogSort, string> = {
+  relevance: 'Relevance',
+  price_asc: 'Price: low to high',
+  price_desc: 'Price: high to low',
+  newest: 'Newest',
+};
+
+/**
+ * CatalogFilters - Facet filters for the catalog search
+ * Multi-select category, supplier, unit and status filters with match
+ * counts, a price range and the sort order.
+ */
+export function CatalogFilters({
+  filters,
+  onFiltersChange,
+  sort,
+  onSortChange,
+  facets,
+}: CatalogFiltersProps) {
+  const update = (changes: Partial<CatalogSearchFilters>) =>
+    onFiltersChange({ ...filters, ...changes });
+
+  const readPrice = (value: string) =>
+    value === '' || Number.isNaN(Number(value)) ? undefined : Number(value);
+
+  const hasFilters =
+    !!filters.branch?.length ||
+    !!filters.categories?.length ||
+    !!filters.supplierIds?.length ||
+    !!filters.units?.length ||
+    !!filters.statuses?.length ||
+    filters.minPrice !== undefined ||
+    filters.maxPrice !== undefined;
+
+  return (
+    <div className='flex flex-wrap items-center gap-2'>
+      <FacetFilter
+        title='Category'
+        buckets={facets?.categories ?? []}
+        selected={filters.categories ?? []}
+        onChange={(categories) => update({ categories })}
+      />
+      <FacetFilter
+        title='Supplier'
+        buckets={facets?.suppliers ?? []}
+        labels={
+          new Map(
+            facets?.suppliers.map((bucket) => [bucket.value, bucket.name])
+          )
+        }
+        selected={filters.supplierIds ?? []}
+        onChange={(supplierIds) => update({ supplierIds })}
+      />
+      <FacetFilter
+        title='Unit'
+        buckets={facets?.units ?? []}
+        selected={filters.units ?? []}
+        onChange={(units) => update({ units })}
+      />
+      <FacetFilter
+        title='Status'
+        buckets={facets?.statuses ?? []}
+        format={formatStatus}
+        selected={filters.statuses ?? []}
+        onChange={(statuses) => update({ statuses: statuses as ItemStatus[] })}
+      />
+
+      <div className='flex items-center gap-1'>
+        <Input
+          type='number'
+          min={0}
+          step='0.01'
+          aria-label='Minimum price'
+          placeholder={facets?.price ? `Min ${facets.price.min}` : 'Min price'}
+          value={filters.minPrice ?? ''}
+          onChange={(e) => update({ minPrice: readPrice(e.target.value) })}
+          className='h-9 w-28'
+        />
+        <span className='text-muted-foreground'>–</span>
+        <Input
+          type='number'
+          min={0}
+          step='0.01'
+          aria-label='Maximum price'
+          placeholder={facets?.price ? `Max ${facets.price.max}` : 'Max price'}
+          value={filters.maxPrice ?? ''}
+          onChange={(e) => update({ maxPrice: readPrice(e.target.value) })}
+          className='h-9 w-28'
+        />
+      </div>
+
+      {hasFilters && (
+        <Button
+          variant='ghost'
+          size='sm'
+          onClick={() => onFiltersChange({ q: filters.q })}
+        >
+          Reset <X className='ml-1 h-4 w-4' />
+        </Button>
+      )}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant='outline' size='sm' className='ml-auto h-9'>
+            <ArrowUpDown className='mr-2 h-4 w-4' />
+            {SORT_LABELS[sort]}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align='end'>
+          <DropdownMenuLabel>Sort by</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuRadioGroup
+            value={sort}
+            onValueChange={(value) => onSortChange(value as CatalogSort)}
+          >
+            {CATALOG_SORT_OPTIONS.map((option) => (
+              <DropdownMenuRadioItem key={option} value={option}>
+                {SORT_LABELS[option]}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
+
+type FacetFilterProps = {
+  title: string;
+  buckets: FacetBucket[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  labels?: Map<string, string>;
+  format?: (value: string) => string;
+};
+
+/**
+ * Multi-select dropdown for one facet
+ * Selected values stay listed even when they no longer have matches.
+ */
+function FacetFilter({
+  title,
+  buckets,
+  selected,
+  onChange,
+  labels,
+  format = (value) => value,
+}: FacetFilterProps) {
+  const options = [
+    ...buckets,
+    ...selected
+      .filter((value) => !buckets.some((bucket) => bucket.value === value))
+      .map((value) => ({ value, count: 0 })),
+  ];
+
+  const toggle = (value: string, checked: boolean) =>
+    onChange(
+      checked
+        ? [...selected, value]
+        : selected.filter((selectedValue) => selectedValue !== value)
+    );
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant='outline' size='sm' className='h-9 border-dashed'>
+          {title}
+          {selected.length > 0 && (
+            <Badge variant='secondary' className='ml-2 px-1.5'>
+              {selected.length}
+            </Badge>
+          )}
+          <ChevronDown className='ml-1 h-4 w-4' />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align='start' className='max-h-80 overflow-y-auto'>
+        {options.length === 0 ? (
+          <DropdownMenuLabel className='font-normal text-muted-foreground'>
+            No options
+          </DropdownMenuLabel>
+        ) : (
+          options.map((option) => (
+            <DropdownMenuCheckboxItem
+              key={option.value}
+              checked={selected.includes(option.value)}
+              onCheckedChange={(checked) => toggle(option.value, !!checked)}
+              onSelect={(event) => event.preventDefault()}
+            >
+              <span className='flex-1'>
+                {labels?.get(option.value) ?? format(option.value)}
+              </span>
+              <span className='ml-4 text-xs text-muted-foreground'>
+                {option.count}
+              </span>
+            </DropdownMenuCheckboxItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function formatStatus(status: string): string {
+  const label = status.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
@@ -0,0 +1,296 @@
+'use client';
+
+import { Loader2, Upload } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+
+import {
+  Badge,
+  Button,
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Label,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components';
+
+import type {
+  CatalogImportMode,
+  CatalogImportReport,
+  CatalogImportRowReport,
+} from '../lib/catalog-transfer';
+import { MAX_CATALOG_IMPORT_BYTES } from '../lib/catalog-transfer';
+
+type CatalogImportDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+};
+
+const MODE_OPTIONS: Array<{
+  value: CatalogImportMode;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: 'all_or_nothing',
+    label: 'All or nothing',
+    description: 'Import only if every row is valid',
+  },
+  {
+    value: 'per_row',
+    label: 'Per row',
+    description: 'Import valid rows, skip the rest',
+  },
+];
+
+const STATUS_VARIANTS: Record<
+  CatalogImportRowReport['status'],
+  'default' | 'secondary' | 'destructive'
+> = {
+  valid: 'default',
+  duplicate: 'secondary',
+  invalid: 'destructive',
+};
+
+/**
+ * CatalogImportDialog - Bulk import wizard
+ * Steps:
+ * 1. Pick a CSV/XLSX/JSON file and a commit mode
+ * 2. Review the dry-run report (per-row errors and duplicates)
+ * 3. Import
+ */
+export function CatalogImportDialog({
+  open,
+  onOpenChange,
+  onSuccess,
+}: CatalogImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<CatalogImportMode>('all_or_nothing');
+  const [report, setReport] = useState<CatalogImportReport | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setMode('all_or_nothing');
+    setReport(null);
+  };
+
+  const submit = async (dryRun: boolean) => {
+    if (!file) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('mode', mode);
+      formData.append('dryRun', String(dryRun));
+
+      const response = await fetch('/api/items/import', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (response.status === 409 && data.data?.report) {
+        // All-or-nothing import rejected: show what needs fixing
+        setReport(data.data.report);
+        toast.error('Nothing was imported', { description: data.message });
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to import catalog');
+      }
+
+      if (dryRun) {
+        setReport(data.data.report);
+        return;
+      }
+
+      toast.success('Catalog imported', {
+        description: `${data.data.created} item(s) created.`,
+      });
+      onOpenChange(false);
+      reset();
+      onSuccess?.();
+    } catch (error) {
+      toast.error('Import failed', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const problemRows =
+    report?.rows.filter((row) => row.status !== 'valid') ?? [];
+  const canImport =
+    !!report &&
+    report.validRows > 0 &&
+    (mode === 'per_row' || report.validRows === report.totalRows);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(v) => {
+        onOpenChange(v);
+        if (!v) {
+          reset();
+        }
+      }}
+    >
+      <DialogContent className='w-[calc(100vw-1.5rem)] max-w-3xl max-h-[90vh] flex flex-col sm:w-full'>
+        <DialogHeader>
+          <DialogTitle>Import Items</DialogTitle>
+          <DialogDescription>
+            Upload a CSV, XLSX or JSON file with name, category, description and
+            estimatedPrice columns. Rows are validated before anything is
+            imported.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className='flex-1 space-y-4 overflow-y-auto py-1'>
+          <div className='space-y-2'>
+            <Label htmlFor='catalog-import-file'>File</Label>
+            <Input
+              id='catalog-import-file'
+              type='file'
+              accept='.csv,.xlsx,.json'
+              onChange={(event) => {
+                const selected = event.target.files?.[0] ?? null;
+                if (selected && selected.size > MAX_CATALOG_IMPORT_BYTES) {
+                  toast.error('File too large', {
+                    description: 'Import files must not exceed 5 MB.',
+                  });
+                  event.target.value = '';
+                  return;
+                }
+                setFile(selected);
+                setReport(null);
+              }}
+            />
+          </div>
+
+          <div className='space-y-2'>
+            <Label>Mode</Label>
+            <div className='grid gap-2 sm:grid-cols-2'>
+              {MODE_OPTIONS.map((option) => (
+                <Button
+                  key={option.value}
+                  type='button'
+                  variant={mode === option.value ? 'default' : 'outline'}
+                  className='h-auto flex-col items-start gap-0.5 py-2 text-left'
+                  onClick={() => setMode(option.value)}
+                >
+                  <span>{option.label}</span>
+                  <span className='text-xs font-normal opacity-80'>
+                    {option.description}
+                  </span>
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {report && (
+            <div className='space-y-3'>
+              <div className='flex flex-wrap gap-2 text-sm'>
+                <Badge variant='outline'>{report.totalRows} rows</Badge>
+                <Badge>{report.validRows} valid</Badge>
+                <Badge variant='secondary'>
+                  {report.duplicateRows} duplicates
+                </Badge>
+                <Badge variant='destructive'>
+                  {report.invalidRows} invalid
+                </Badge>
+              </div>
+
+              {problemRows.length > 0 ? (
+                <div className='rounded-md border'>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className='w-16'>Row</TableHead>
+                        <TableHead>Item</TableHead>
+                        <TableHead className='w-24'>Status</TableHead>
+                        <TableHead>Details</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {problemRows.map((row) => (
+                        <TableRow key={row.rowNumber}>
+                          <TableCell>{row.rowNumber}</TableCell>
+                          <TableCell>{row.item?.name || '—'}</TableCell>
+                          <TableCell>
+                            <Badge variant={STATUS_VARIANTS[row.status]}>
+                              {row.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className='whitespace-normal text-sm text-muted-foreground'>
+                            {row.status === 'invalid' && row.errors.join('; ')}
+                            {row.duplicateOfRow &&
+                              `Same as row ${row.duplicateOfRow}`}
+                            {row.duplicates.length > 0 &&
+                              `Similar to ${row.duplicates
+                                .map((item) => `"${item.name}"`)
+                                .join(', ')}`}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                <p className='text-sm text-muted-foreground'>
+                  All rows are valid and ready to import.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className='gap-y-2'>
+          <DialogClose asChild>
+            <Button variant='outline'>Cancel</Button>
+          </DialogClose>
+          {report ? (
+            <Button
+              onClick={() => submit(false)}
+              disabled={!canImport || isSubmitting}
+            >
+              {isSubmitting && (
+                <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+              )}
+              Import {mode === 'per_row' ? report.validRows : report.totalRows}{' '}
+              item(s)
+            </Button>
+          ) : (
+            <Button
+              onClick={() => submit(true)}
+              disabled={!file || isSubmitting}
+            >
+              {isSubmitting ? (
+                <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+              ) : (
+                <Upload className='mr-2 h-4 w-4' />
+              )}
+              Validate
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,15 +1,104 @@
-import { Plus } from 'lucide-react';
+import {
+  BookA,
+  ClipboardCheck,
+  Download,
+  FolderTree,
+  Inbox,
+  Plus,
+  Upload,
+} from 'lucide-react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
 
-import { Button } from '@/components';
+import {
+  Button,
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+
+import { CATALOG_TRANSFER_FORMATS } from '../lib/catalog-transfer';
 
 import { useCatalog } from './catalog-provider';
 
 export function CatalogPrimaryButtons() {
   const { setOpen } = useCatalog();
+  const { data: session } = useSession();
+
+  const canImport = hasPermission(
+    session?.user?.role,
+    Permission.CatalogImport
+  );
+  const canReview = hasPermission(
+    session?.user?.role,
+    Permission.CatalogReview
+  );
+  const canManageSynonyms = hasPermission(
+    session?.user?.role,
+    Permission.CatalogSynonymManage
+  );
+  const canViewCategories =
+    hasPermission(session?.user?.role, Permission.CatalogCategoryManage) ||
+    hasPermission(session?.user?.role, Permission.SpendAnalyticsRead);
 
   return (
-    <Button className='space-x-1' onClick={() => setOpen('create')}>
-      <span>Create</span> <Plus size={18} />
-    </Button>
+    <div className='flex flex-wrap gap-2'>
+      {canReview && (
+        <Button variant='outline' className='space-x-1' asChild>
+          <Link href='/catalog/review'>
+            <span>Review</span> <ClipboardCheck size={18} />
+          </Link>
+        </Button>
+      )}
+      {canViewCategories && (
+        <Button variant='outline' className='space-x-1' asChild>
+          <Link href='/catalog/categories'>
+            <span>Categories</span> <FolderTree size={18} />
+          </Link>
+        </Button>
+      )}
+      {canManageSynonyms && (
+        <Button variant='outline' className='space-x-1' asChild>
+          <Link href='/catalog/synonyms'>
+            <span>Synonyms</span> <BookA size={18} />
+          </Link>
+        </Button>
+      )}
+      <Button variant='outline' className='space-x-1' asChild>
+        <Link href='/catalog/submissions'>
+          <span>My submissions</span> <Inbox size={18} />
+        </Link>
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant='outline' className='space-x-1'>
+            <span>Export</span> <Download size={18} />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align='end'>
+          {CATALOG_TRANSFER_FORMATS.map((format) => (
+            <DropdownMenuItem key={format} asChild>
+              <a href={`/api/items/export?format=${format}`} download>
+                {format.toUpperCase()}
+              </a>
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {canImport && (
+        <Button
+          variant='outline'
+          className='space-x-1'
+          onClick={() => setOpen('import')}
+        >
+          <span>Import</span> <Upload size={18} />
+        </Button>
+      )}
+      <Button className='space-x-1' onClick={() => setOpen('create')}>
+        <span>Create</span> <Plus size={18} />
+      </Button>
+    </div>
   );
 }
@@ -1,12 +1,16 @@
 'use client';
 
+import { useSession } from 'next-auth/react';
 import React, { useState } from 'react';
 import { toast } from 'sonner';
 
 import { useCart } from '@/contexts/CartContext';
 import type { Item } from '@/domain/entities';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
 
-type CatalogDialogType = 'create' | 'update' | 'delete';
+import { getPackSize } from '../lib/item-units';
+
+type CatalogDialogType = 'create' | 'update' | 'delete' | 'import';
 
 type CatalogContextType = {
   open: CatalogDialogType | null;
@@ -17,6 +21,15 @@ type CatalogContextType = {
     item: Omit<Item, 'createdAt' | 'updatedAt'>
   ) => Promise<void>;
   addingToCart: string | null;
+  /** Whether the user may archive/restore items (and delete them) */
+  canArchiveItems: boolean;
+  canDeleteItems: boolean;
+  /** Archive items; resolves to false when the request failed */
+  handleArchiveItems: (items: Item[]) => Promise<boolean>;
+  handleUnarchiveItem: (item: Item) => Promise<void>;
+  handleDeleteItem: (item: Item) => Promise<void>;
+  /** ID of the item an archive/restore/delete request is running for */
+  updatingItem: string | null;
   onRefreshCatalog?: () => void; // Callback to refresh catalog after mutations
 };
 
@@ -32,7 +45,18 @@ export function CatalogProvider({
   const [open, setOpen] = useState<CatalogDialogType | null>(null);
   const [currentRow, setCurrentRow] = useState<Item | null>(null);
   const [addingToCart, setAddingToCart] = useState<string | null>(null);
+  const [updatingItem, setUpdatingItem] = useState<string | null>(null);
   const { setItemCount } = useCart();
+  const { data: session } = useSession();
+
+  const canArchiveItems = hasPermission(
+    session?.user?.role,
+    Permission.CatalogUpdate
+  );
+  const canDeleteItems = hasPermission(
+    session?.user?.role,
+    Permission.CatalogDelete
+  );
 
   const handleAddToCart = async (
     item: Omit<Item, 'createdAt' | 'updatedAt'>
@@ -40,13 +64,13 @@ export function CatalogProvider({
     setAddingToCart(item.id);
 
     try {
-      // Call API to add item to cart with quantity 1
+      // Call API to add one pack (quantity 1 for items sold individually)
       const response = await fetch('/api/cart/items', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           itemId: item.id,
-          quantity: 1,
+          quantity: getPackSize(item),
         }),
       });
 
@@ -75,6 +99,103 @@ export function CatalogProvider({
     }
   };
 
+  const handleArchiveItems = async (items: Item[]) => {
+    setUpdatingItem(items.length === 1 ? items[0].id : 'bulk');
+
+    try {
+      const response =
+        items.length === 1
+          ? await fetch(`/api/items/${items[0].id}/archive`, {
+              method: 'POST',
+            })
+          : await fetch('/api/items/archive', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ itemIds: items.map((item) => item.id) }),
+            });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to archive items');
+      }
+
+      toast.success(
+        items.length === 1
+          ? `${items[0].name} archived`
+          : `${items.length} items archived`,
+        {
+          description:
+            data.cartsUpdated > 0
+              ? `Removed from ${data.cartsUpdated} ${data.cartsUpdated === 1 ? 'cart' : 'carts'}.`
+              : undefined,
+        }
+      );
+      onRefreshCatalog?.();
+      return true;
+    } catch (error) {
+      console.error('Error archiving items:', error);
+      toast.error('Failed to archive items', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+      return false;
+    } finally {
+      setUpdatingItem(null);
+    }
+  };
+
+  const handleUnarchiveItem = async (item: Item) => {
+    setUpdatingItem(item.id);
+
+    try {
+      const response = await fetch(`/api/items/${item.id}/unarchive`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to restore item');
+      }
+
+      toast.success(`${item.name} restored to the catalog`);
+      onRefreshCatalog?.();
+    } catch (error) {
+      console.error('Error restoring item:', error);
+      toast.error('Failed to restore item', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setUpdatingItem(null);
+    }
+  };
+
+  const handleDeleteItem = async (item: Item) => {
+    setUpdatingItem(item.id);
+
+    try {
+      const response = await fetch(`/api/items/${item.id}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to delete item');
+      }
+
+      toast.success(`${item.name} deleted`);
+      onRefreshCatalog?.();
+    } catch (error) {
+      console.error('Error deleting item:', error);
+      toast.error('Failed to delete item', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setUpdatingItem(null);
+    }
+  };
+
   return (
     <CatalogContext.Provider
       value={{
@@ -84,6 +205,12 @@ export function CatalogProvider({
         setCurrentRow,
         handleAddToCart,
         addingToCart,
+        canArchiveItems,
+        canDeleteItems,
+        handleArchiveItems,
+        handleUnarchiveItem,
+        handleDeleteItem,
+        updatingItem,
         onRefreshCatalog,
       }}
     >
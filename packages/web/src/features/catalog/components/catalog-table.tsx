@@ -2,17 +2,16 @@
 
 import {
   type ColumnFiltersState,
+  type RowSelectionState,
   type SortingState,
   type VisibilityState,
   flexRender,
   getCoreRowModel,
-  getFilteredRowModel,
-  getPaginationRowModel,
   getSortedRowModel,
   useReactTable,
 } from '@tanstack/react-table';
-import { Search } from 'lucide-react';
-import { useState } from 'react';
+import { Archive, Loader2, Search } from 'lucide-react';
+import { type ReactNode, useMemo, useState } from 'react';
 
 import {
   Button,
@@ -27,39 +26,87 @@ import {
 } from '@/components';
 import type { Item } from '@/domain/entities';
 
+import { isItemArchived } from '../lib/catalog-lifecycle';
+
 import { catalogColumns } from './catalog-columns';
+import { useCatalog } from './catalog-provider';
 
 type CatalogTableProps = {
   data: Item[];
   isLoading?: boolean;
+
+  /** Search keyword (searched on the server) */
+  search: string;
+  onSearchChange: (search: string) => void;
+
+  /** Total number of matching items (data holds the first page) */
+  total?: number;
+
+  /** Facet filters shown under the search input */
+  filters?: ReactNode;
+
+  /** Whether the server has more pages */
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
 };
 
-export function CatalogTable({ data, isLoading = false }: CatalogTableProps) {
+export function CatalogTable({
+  data,
+  isLoading = false,
+  search,
+  onSearchChange,
+  total,
+  filters,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+}: CatalogTableProps) {
   const [sorting, setSorting] = useState<SortingState>([]);
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
   const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({});
-  const [globalFilter, setGlobalFilter] = useState('');
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
+  const { canArchiveItems, handleArchiveItems, updatingItem } = useCatalog();
+
+  // Row selection only serves bulk archiving
+  const columns = useMemo(
+    () =>
+      canArchiveItems
+        ? catalogColumns
+        : catalogColumns.filter((column) => column.id !== 'select'),
+    [canArchiveItems]
+  );
 
   // eslint-disable-next-line react-hooks/incompatible-library
   const table = useReactTable({
     data,
-    columns: catalogColumns,
+    columns,
     state: {
       sorting,
       columnFilters,
       columnVisibility,
-      globalFilter,
+      rowSelection,
     },
+    getRowId: (row) => row.id,
+    enableRowSelection: (row) => !isItemArchived(row.original.status),
     onSortingChange: setSorting,
     onColumnFiltersChange: setColumnFilters,
     onColumnVisibilityChange: setColumnVisibility,
-    onGlobalFilterChange: setGlobalFilter,
+    onRowSelectionChange: setRowSelection,
     getCoreRowModel: getCoreRowModel(),
-    getFilteredRowModel: getFilteredRowModel(),
-    getPaginationRowModel: getPaginationRowModel(),
     getSortedRowModel: getSortedRowModel(),
   });
 
+  const selectedItems = table
+    .getSelectedRowModel()
+    .rows.map((row) => row.original);
+
+  const archiveSelected = async () => {
+    if (await handleArchiveItems(selectedItems)) {
+      setRowSelection({});
+    }
+  };
+
   return (
     <div className='space-y-4'>
       {/* Search */}
@@ -68,13 +115,46 @@ export function CatalogTable({ data, isLoading = false }: CatalogTableProps) {
           <Search className='absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground' />
           <Input
             placeholder='Search items by name, description, or category...'
-            value={globalFilter}
-            onChange={(e) => setGlobalFilter(e.target.value)}
+            value={search}
+            onChange={(e) => onSearchChange(e.target.value)}
             className='pl-9'
           />
         </div>
       </div>
 
+      {filters}
+
+      {/* Bulk actions */}
+      {selectedItems.length > 0 && (
+        <div className='flex items-center justify-between rounded-md border bg-muted/50 px-4 py-2'>
+          <span className='text-sm text-muted-foreground'>
+            {selectedItems.length} selected
+          </span>
+          <div className='flex gap-2'>
+            <Button
+              variant='ghost'
+              size='sm'
+              onClick={() => setRowSelection({})}
+            >
+              Clear
+            </Button>
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={archiveSelected}
+              disabled={updatingItem !== null}
+            >
+              {updatingItem === 'bulk' ? (
+                <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+              ) : (
+                <Archive className='mr-2 h-4 w-4' />
+              )}
+              Archive selected
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Table */}
       <div className='overflow-hidden rounded-md border'>
         <Table>
@@ -139,7 +219,7 @@ export function CatalogTable({ data, isLoading = false }: CatalogTableProps) {
             ) : (
               <TableRow>
                 <TableCell
-                  colSpan={catalogColumns.length}
+                  colSpan={columns.length}
                   className='h-24 text-center'
                 >
                   No items found matching your search.
@@ -153,26 +233,19 @@ export function CatalogTable({ data, isLoading = false }: CatalogTableProps) {
       {/* Pagination */}
       <div className='flex items-center justify-between'>
         <div className='text-sm text-muted-foreground'>
-          {table.getFilteredRowModel().rows.length} of {data.length} items
+          {data.length} of {total ?? data.length} items
         </div>
-        <div className='flex items-center gap-2'>
+        {hasMore && (
           <Button
             variant='outline'
             size='sm'
-            onClick={() => table.previousPage()}
-            disabled={!table.getCanPreviousPage()}
+            onClick={onLoadMore}
+            disabled={isLoading || isLoadingMore}
           >
-            Previous
+            {isLoadingMore && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+            Load more
           </Button>
-          <Button
-            variant='outline'
-            size='sm'
-            onClick={() => table.nextPage()}
-            disabled={!table.getCanNextPage()}
-          >
-            Next
-          </Button>
-        </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,54 @@
+'use client';
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { Item } from '@/domain/entities';
+
+type ItemDeleteDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentRow: Item;
+  onConfirm: (item: Item) => void;
+};
+
+/**
+ * Confirm permanently deleting a catalog item
+ * The server refuses items that are in carts or on purchase requests.
+ */
+export function ItemDeleteDialog({
+  open,
+  onOpenChange,
+  currentRow,
+  onConfirm,
+}: ItemDeleteDialogProps) {
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete {currentRow.name}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This action cannot be undone. Items that are in a cart or on a
+            purchase request cannot be deleted; archive them instead.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => onConfirm(currentRow)}
+            className='bg-destructive text-destructive-foreground hover:bg-destructive/90'
+          >
+            Delete
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
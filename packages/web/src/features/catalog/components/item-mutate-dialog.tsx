@@ -2,7 +2,7 @@
 
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Loader2 } from 'lucide-react';
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { toast } from 'sonner';
 import { z } from 'zod';
@@ -25,15 +25,31 @@ import {
   Input,
   Textarea,
 } from '@/components';
-import type { Item } from '@/domain/entities';
+import type {
+  Category,
+  CategoryAttributeSchema,
+  Item,
+  ItemAttributeDefinition,
+} from '@/domain/entities';
+import { ItemAttributeType, ItemStatus } from '@/domain/entities';
+
+import {
+  buildCategoryTree,
+  flattenCategoryTree,
+} from '../lib/category-taxonomy';
 
 type ItemMutateDialogProps = {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   currentRow?: Item;
+  /** Register the new item as a variant of this product */
+  parentItem?: Item;
   onSuccess?: () => void;
 };
 
+const selectClassName =
+  'border-input h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs disabled:opacity-50';
+
 // Schema matching backend validations from item.schema.ts
 const formSchema = z.object({
   name: z
@@ -80,6 +96,21 @@ const formSchema = z.object({
       { message: 'Price must have at most 2 decimal places' }
     ),
   unit: z.string().max(50, 'Unit must not exceed 50 characters').optional(),
+  sku: z.string().max(64, 'SKU must not exceed 64 characters').optional(),
+  parentItemId: z.string().optional(),
+  attributes: z.record(z.string(), z.string()).optional(),
+  packUnit: z
+    .string()
+    .max(50, 'Pack unit must not exceed 50 characters')
+    .optional(),
+  packSize: z
+    .string()
+    .optional()
+    .refine(
+      (val) => !val || (Number.isInteger(Number(val)) && Number(val) >= 2),
+      { message: 'Pack size must be a whole number of at least 2' }
+    ),
+  orderByPack: z.boolean().optional(),
 });
 
 type ItemForm = z.infer<typeof formSchema>;
@@ -88,9 +119,15 @@ export function ItemMutateDialog({
   open,
   onOpenChange,
   currentRow,
+  parentItem,
   onSuccess,
 }: ItemMutateDialogProps) {
   const isUpdate = !!currentRow;
+  const [attributeDefinitions, setAttributeDefinitions] = useState<
+    ItemAttributeDefinition[]
+  >([]);
+  const [parentCandidates, setParentCandidates] = useState<Item[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
 
   const form = useForm<ItemForm>({
     resolver: zodResolver(formSchema),
@@ -103,14 +140,89 @@ export function ItemMutateDialog({
           unit: 'each',
         }
       : {
-          name: '',
-          category: '',
-          description: '',
-          estimatedPrice: '',
-          unit: 'each',
+          name: parentItem?.name ?? '',
+          category: parentItem?.category ?? '',
+          description: parentItem?.description ?? '',
+          estimatedPrice: parentItem?.estimatedPrice.toString() ?? '',
+          unit: parentItem?.unit ?? 'each',
+          sku: '',
+          parentItemId: parentItem?.id ?? '',
+          attributes: {},
+          packUnit: '',
+          packSize: '',
+          orderByPack: false,
         },
   });
 
+  // Load the category taxonomy (free-text categories while it is empty)
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    const controller = new AbortController();
+    fetch('/api/items/categories', { signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setCategories(data?.data ?? []))
+      .catch((error) => {
+        if (!controller.signal.aborted) {
+          console.error('Error loading categories:', error);
+        }
+      });
+
+    return () => controller.abort();
+  }, [open]);
+
+  // Load the attribute schema and possible parent products of the category
+  const category = form.watch('category');
+  useEffect(() => {
+    const trimmed = category?.trim() ?? '';
+    if (!open || trimmed.length < 2) {
+      setAttributeDefinitions([]);
+      setParentCandidates([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ category: trimmed });
+        const [schemaResponse, itemsResponse] = await Promise.all([
+          fetch(`/api/items/attribute-schemas?${params}`, {
+            signal: controller.signal,
+          }),
+          fetch(`/api/items?${params}&limit=50`, {
+            signal: controller.signal,
+          }),
+        ]);
+
+        if (schemaResponse.ok) {
+          const data = await schemaResponse.json();
+          const schema: CategoryAttributeSchema | undefined = data.data?.[0];
+          setAttributeDefinitions(schema?.attributes ?? []);
+        }
+        if (itemsResponse.ok) {
+          const data = await itemsResponse.json();
+          // Variants are one level deep: only products can be parents
+          setParentCandidates(
+            (data.items as Item[]).filter(
+              (item) => !item.parentItemId && item.id !== currentRow?.id
+            )
+          );
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Error loading category details:', error);
+        }
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [category, open, currentRow?.id]);
+
   // Update form when currentRow changes
   useEffect(() => {
     if (currentRow) {
@@ -146,6 +258,24 @@ export function ItemMutateDialog({
           description: data.description,
           estimatedPrice: parseFloat(data.estimatedPrice),
           unit: data.unit || 'each',
+          sku: data.sku || undefined,
+          parentItemId: data.parentItemId || undefined,
+          // Only attributes of the current category schema
+          attributes: Object.fromEntries(
+            attributeDefinitions
+              .filter((definition) => data.attributes?.[definition.key])
+              .map((definition) => [
+                definition.key,
+                data.attributes?.[definition.key],
+              ])
+          ),
+          ...(data.packUnit &&
+            data.packSize && {
+              unitConversions: [
+                { unit: data.packUnit, factor: Number(data.packSize) },
+              ],
+              orderUnit: data.orderByPack ? data.packUnit : undefined,
+            }),
         }),
       });
 
@@ -162,15 +292,31 @@ export function ItemMutateDialog({
           return;
         }
 
+        if (response.status === 400) {
+          const errorData = await response.json();
+          toast.error('Invalid item', {
+            description: errorData.message || 'Please check the item details.',
+          });
+          return;
+        }
+
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
+      const item: Item = await response.json();
+
       onOpenChange(false);
       form.reset();
 
-      toast.success('Item created!', {
-        description: `${data.name} has been added to the catalog.`,
-      });
+      if (item.status === ItemStatus.PendingReview) {
+        toast.success('Item submitted for review', {
+          description: `${data.name} will join the catalog once a buyer approves it.`,
+        });
+      } else {
+        toast.success('Item created!', {
+          description: `${data.name} has been added to the catalog.`,
+        });
+      }
 
       // Trigger catalog refresh
       onSuccess?.();
@@ -229,7 +375,32 @@ export function ItemMutateDialog({
                 <FormItem>
                   <FormLabel>Category</FormLabel>
                   <FormControl>
-                    <Input {...field} placeholder='Enter category' />
+                    {categories.length > 0 ? (
+                      <select
+                        className={selectClassName}
+                        value={field.value}
+                        onChange={field.onChange}
+                      >
+                        <option value=''>Select category</option>
+                        {/* Legacy category outside the taxonomy */}
+                        {field.value &&
+                          !categories.some(
+                            (entry) => entry.name === field.value
+                          ) && (
+                            <option value={field.value}>{field.value}</option>
+                          )}
+                        {flattenCategoryTree(buildCategoryTree(categories)).map(
+                          (node) => (
+                            <option key={node.id} value={node.name}>
+                              {'\u00a0\u00a0'.repeat(node.depth - 1)}
+                              {node.name}
+                            </option>
+                          )
+                        )}
+                      </select>
+                    ) : (
+                      <Input {...field} placeholder='Enter category' />
+                    )}
                   </FormControl>
                   <FormMessage />
                 </FormItem>
@@ -288,6 +459,154 @@ export function ItemMutateDialog({
                 </FormItem>
               )}
             />
+
+            <div className='grid gap-4 sm:grid-cols-3'>
+              <FormField
+                control={form.control}
+                name='packUnit'
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pack unit (optional)</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder='box' maxLength={50} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name='packSize'
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Units per pack</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type='number'
+                        min='2'
+                        step='1'
+                        placeholder='12'
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name='orderByPack'
+                render={({ field }) => (
+                  <FormItem className='flex items-end gap-2 pb-2'>
+                    <FormControl>
+                      <input
+                        type='checkbox'
+                        className='h-4 w-4'
+                        checked={field.value ?? false}
+                        onChange={(e) => field.onChange(e.target.checked)}
+                      />
+                    </FormControl>
+                    <FormLabel>Order in whole packs</FormLabel>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name='sku'
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>SKU (optional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      placeholder='PEN-GEL-BLU'
+                      maxLength={64}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name='parentItemId'
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Variant of (optional)</FormLabel>
+                  <FormControl>
+                    <select
+                      className={selectClassName}
+                      value={field.value ?? ''}
+                      onChange={field.onChange}
+                    >
+                      <option value=''>None (standalone product)</option>
+                      {parentItem &&
+                        !parentCandidates.some(
+                          (item) => item.id === parentItem.id
+                        ) && (
+                          <option value={parentItem.id}>
+                            {parentItem.name}
+                          </option>
+                        )}
+                      {parentCandidates.map((item) => (
+                        <option key={item.id} value={item.id}>
+                          {item.name}
+                        </option>
+                      ))}
+                    </select>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {attributeDefinitions.map((definition) => (
+              <FormField
+                key={definition.key}
+                control={form.control}
+                name={`attributes.${definition.key}`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {definition.label}
+                      {definition.unit && ` (${definition.unit})`}
+                      {!definition.required && ' (optional)'}
+                    </FormLabel>
+                    <FormControl>
+                      {definition.type === ItemAttributeType.Select ? (
+                        <select
+                          className={selectClassName}
+                          value={field.value ?? ''}
+                          onChange={field.onChange}
+                        >
+                          <option value=''>Select…</option>
+                          {definition.options?.map((option) => (
+                            <option key={option} value={option}>
+                              {option}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <Input
+                          {...field}
+                          value={field.value ?? ''}
+                          type={
+                            definition.type === ItemAttributeType.Number
+                              ? 'number'
+                              : 'text'
+                          }
+                          step='any'
+                        />
+                      )}
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
           </form>
         </Form>
 
@@ -0,0 +1,175 @@
+'use client';
+
+import { History } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import {
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+
+import type { Item, ItemRevision } from '@/domain/entities';
+
+import {
+  formatItemFieldValue,
+  getPriceHistory,
+  ITEM_REVISION_FIELD_LABELS,
+} from '../lib/item-history';
+
+/**
+ * ItemPriceHistory component
+ * Shows how a catalog item changed over time
+ * - Price sparkline (creation price, each price change, current price)
+ * - Changelog: changed fields, who changed them, when and why
+ */
+
+interface ItemPriceHistoryProps {
+  item: Item;
+}
+
+/** Revisions loaded for the sparkline and changelog */
+const HISTORY_LIMIT = 100;
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+export function ItemPriceHistory({ item }: ItemPriceHistoryProps) {
+  const [revisions, setRevisions] = useState<ItemRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let mounted = true;
+
+    async function load() {
+      setLoading(true);
+      try {
+        const res = await fetch(
+          `/api/items/${item.id}/history?limit=${HISTORY_LIMIT}`
+        );
+        if (!res.ok) {
+          throw new Error('Failed to fetch item history');
+        }
+        const data = await res.json();
+        if (mounted) {
+          setRevisions(data.data || []);
+        }
+      } catch (err) {
+        console.error('Error loading item history:', err);
+        if (mounted) {
+          setRevisions([]);
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    }
+
+    load();
+
+    return () => {
+      mounted = false;
+    };
+  }, [item.id, item.updatedAt]);
+
+  if (loading) {
+    return (
+      <div className='space-y-2'>
+        <div className='h-5 w-24 bg-muted rounded animate-pulse' />
+        <div className='h-4 w-full bg-muted rounded animate-pulse' />
+      </div>
+    );
+  }
+
+  // Extend the line to today so the current price is visible
+  const series = [
+    ...getPriceHistory(item, revisions),
+    { date: new Date(), price: item.estimatedPrice },
+  ].map((point) => ({ date: formatDate(point.date), price: point.price }));
+
+  return (
+    <div>
+      <h2 className='text-lg font-semibold text-foreground mb-3'>History</h2>
+
+      {/* Price sparkline */}
+      <div className='mb-4'>
+        <div className='text-sm text-muted-foreground mb-1'>Price</div>
+        <ResponsiveContainer width='100%' height={80}>
+          <LineChart data={series}>
+            <XAxis dataKey='date' hide />
+            <YAxis domain={['auto', 'auto']} hide />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'hsl(var(--popover))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '6px',
+                color: 'hsl(var(--popover-foreground))',
+              }}
+              formatter={(value: number) => [`$${value.toFixed(2)}`, 'Price']}
+            />
+            <Line
+              type='stepAfter'
+              dataKey='price'
+              stroke='hsl(293 70% 65%)'
+              strokeWidth={2}
+              dot={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Changelog */}
+      {revisions.length === 0 ? (
+        <div className='text-sm text-muted-foreground border border-border rounded-lg p-4 flex items-center gap-2'>
+          <History className='h-4 w-4' />
+          No changes since the item was added to the catalog.
+        </div>
+      ) : (
+        <ol className='space-y-3'>
+          {revisions.map((revision) => (
+            <li
+              key={revision.id}
+              className='border border-border rounded-lg p-3 text-sm'
+            >
+              <div className='flex flex-wrap items-center justify-between gap-2'>
+                <span className='font-medium text-foreground'>
+                  {revision.changedByName ?? 'Unknown user'}
+                </span>
+                <span className='text-xs text-muted-foreground'>
+                  {formatDate(revision.createdAt)}
+                </span>
+              </div>
+              <p className='text-muted-foreground mt-1'>{revision.reason}</p>
+              <ul className='mt-2 space-y-1'>
+                {revision.changes.map((change) => (
+                  <li key={change.field} className='text-foreground'>
+                    <span className='text-muted-foreground'>
+                      {ITEM_REVISION_FIELD_LABELS[change.field]}:
+                    </span>{' '}
+                    {change.field === 'description' ? (
+                      'updated'
+                    ) : (
+                      <>
+                        <span className='line-through text-muted-foreground'>
+                          {formatItemFieldValue(change.field, change.from)}
+                        </span>{' '}
+                        → {formatItemFieldValue(change.field, change.to)}
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
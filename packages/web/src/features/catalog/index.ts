@@ -4,4 +4,21 @@
  */
 
 export * from './lib/catalog.service';
+export * from './lib/catalog-lifecycle';
+export * from './lib/catalog-rules';
+export * from './lib/catalog-search';
+export * from './lib/catalog-transfer';
+export * from './lib/catalog-transfer.service';
+export * from './lib/category-taxonomy';
+export * from './lib/category.service';
+export * from './lib/embedding-provider';
+export * from './lib/item-attribute.service';
+export * from './lib/item-attributes';
+export * from './lib/item-history';
+export * from './lib/item-review.service';
+export * from './lib/item-units';
+export * from './lib/query-expansion';
+export * from './lib/search-dictionary.service';
+export * from './lib/search-synonym.service';
+export * from './lib/semantic-search';
 export { CatalogPageContent } from './components/CatalogPageContent';
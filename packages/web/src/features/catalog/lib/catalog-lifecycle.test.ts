@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+
+import { ItemReviewDecision, ItemStatus } from '@/domain/entities';
+
+import {
+  getBulkItemIdsError,
+  getSubmissionLabel,
+  isItemArchived,
+  isItemPurchasable,
+  MAX_BULK_ARCHIVE_ITEMS,
+} from './catalog-lifecycle';
+
+const ITEM_ID = '507f1f77bcf86cd799439011';
+
+describe('catalog-lifecycle', () => {
+  describe('isItemPurchasable', () => {
+    it('should only allow active items', () => {
+      expect(isItemPurchasable(ItemStatus.Active)).toBe(true);
+      expect(isItemPurchasable(ItemStatus.PendingReview)).toBe(false);
+      expect(isItemPurchasable(ItemStatus.Inactive)).toBe(false);
+    });
+  });
+
+  describe('isItemArchived', () => {
+    it('should treat inactive items as archived', () => {
+      expect(isItemArchived(ItemStatus.Inactive)).toBe(true);
+      expect(isItemArchived(ItemStatus.Active)).toBe(false);
+      expect(isItemArchived(ItemStatus.PendingReview)).toBe(false);
+    });
+  });
+
+  describe('getSubmissionLabel', () => {
+    const review = {
+      reviewedByUserId: '507f1f77bcf86cd799439012',
+      reviewedAt: new Date('2024-01-16'),
+    };
+
+    it('should show pending items as pending review', () => {
+      expect(getSubmissionLabel({ status: ItemStatus.PendingReview })).toBe(
+        'Pending review'
+      );
+    });
+
+    it('should show the review decision', () => {
+      expect(
+        getSubmissionLabel({
+          status: ItemStatus.Inactive,
+          review: {
+            ...review,
+            decision: ItemReviewDecision.Rejected,
+            reason: 'Use the existing item',
+          },
+        })
+      ).toBe('Rejected');
+      expect(
+        getSubmissionLabel({
+          status: ItemStatus.Active,
+          review: { ...review, decision: ItemReviewDecision.Approved },
+        })
+      ).toBe('Approved');
+    });
+
+    it('should show approved items archived later as archived', () => {
+      expect(
+        getSubmissionLabel({
+          status: ItemStatus.Inactive,
+          review: { ...review, decision: ItemReviewDecision.Approved },
+        })
+      ).toBe('Archived');
+    });
+  });
+
+  describe('getBulkItemIdsError', () => {
+    it('should accept a list of item IDs', () => {
+      expect(getBulkItemIdsError([ITEM_ID, ITEM_ID])).toBeNull();
+    });
+
+    it('should reject missing or empty lists', () => {
+      expect(getBulkItemIdsError(undefined)).toBe(
+        'itemIds must be a non-empty array'
+      );
+      expect(getBulkItemIdsError([])).toBe('itemIds must be a non-empty array');
+    });
+
+    it('should reject lists over the limit', () => {
+      expect(
+        getBulkItemIdsError(Array(MAX_BULK_ARCHIVE_ITEMS + 1).fill(ITEM_ID))
+      ).toBe(`At most ${MAX_BULK_ARCHIVE_ITEMS} items can be archived at once`);
+    });
+
+    it('should name the first invalid ID', () => {
+      expect(getBulkItemIdsError([ITEM_ID, 'abc', 42])).toBe(
+        'Invalid item ID: abc'
+      );
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Catalog Item Lifecycle
+ *
+ * Pure rules for the catalog item lifecycle:
+ * - User-registered items wait for buyer review (pending review)
+ * - Active items can be added to carts and checked out
+ * - Archived (inactive) items are hidden from search and removed from
+ *   carts, but stay resolvable from purchase request history
+ * - Deleting is reserved for items nothing refers to (checked by the
+ *   service)
+ *
+ * Kept free of database access so it can be used on the client and unit
+ * tested.
+ */
+
+import type { Item } from '@/domain/entities';
+import { ItemReviewDecision, ItemStatus } from '@/domain/entities';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Items accepted by one bulk archive request */
+export const MAX_BULK_ARCHIVE_ITEMS = 100;
+
+/** Status labels shown in the catalog */
+export const ITEM_STATUS_LABELS: Record<ItemStatus, string> = {
+  [ItemStatus.Active]: 'Available',
+  [ItemStatus.PendingReview]: 'Pending review',
+  [ItemStatus.Inactive]: 'Archived',
+};
+
+/** Review outcome labels shown to requesters */
+export const ITEM_REVIEW_DECISION_LABELS: Record<ItemReviewDecision, string> = {
+  [ItemReviewDecision.Approved]: 'Approved',
+  [ItemReviewDecision.Rejected]: 'Rejected',
+  [ItemReviewDecision.Merged]: 'Merged',
+};
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Whether an item with this status can be added to a cart or checked out
+ */
+export function isItemPurchasable(status: ItemStatus): boolean {
+  return status === ItemStatus.Active;
+}
+
+/**
+ * Whether an item with this status is archived
+ */
+export function isItemArchived(status: ItemStatus): boolean {
+  return status === ItemStatus.Inactive;
+}
+
+/**
+ * Label a submitted item's review state for its requester
+ * Falls back to the status label for items changed after the review
+ * (e.g., approved and archived later).
+ */
+export function getSubmissionLabel(
+  item: Pick<Item, 'status' | 'review'>
+): string {
+  if (!item.review) {
+    return ITEM_STATUS_LABELS[item.status];
+  }
+  if (item.status === ItemStatus.Active) {
+    return ITEM_REVIEW_DECISION_LABELS[ItemReviewDecision.Approved];
+  }
+  if (
+    item.status === ItemStatus.Inactive &&
+    item.review.decision !== ItemReviewDecision.Approved
+  ) {
+    return ITEM_REVIEW_DECISION_LABELS[item.review.decision];
+  }
+  return ITEM_STATUS_LABELS[item.status];
+}
+
+/**
+ * Check the item IDs of a bulk archive request
+ *
+ * @returns Error message, or null when the IDs are valid
+ */
+export function getBulkItemIdsError(itemIds: unknown): string | null {
+  if (!Array.isArray(itemIds) || itemIds.length === 0) {
+    return 'itemIds must be a non-empty array';
+  }
+
+  if (itemIds.length > MAX_BULK_ARCHIVE_ITEMS) {
+    return `At most ${MAX_BULK_ARCHIVE_ITEMS} items can be archived at once`;
+  }
+
+  const invalid = itemIds.find(
+    (id) => typeof id !== 'string' || !/^[0-9a-fA-F]{24}$/.test(id)
+  );
+  if (invalid !== undefined) {
+    return `Invalid item ID: ${String(invalid)}`;
+  }
+
+  return null;
+}
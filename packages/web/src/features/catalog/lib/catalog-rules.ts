@@ -0,0 +1,90 @@
+/**
+ * Catalog Item Rules
+ *
+ * Pure field and duplicate rules for catalog items, shared by single item
+ * creation and bulk import:
+ * - BR-1.2: Required fields (name, category, description)
+ * - BR-1.3: Duplicate detection (similar name + category)
+ * - BR-1.5: Price must be positive
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Fields checked by the item rules
+ */
+export interface ItemRuleFields {
+  name: string;
+  category: string;
+  description: string;
+  estimatedPrice: number;
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Collect field errors for a new item (BR-1.2, BR-1.5)
+ *
+ * @returns Error messages (empty when the fields are valid)
+ */
+export function getItemFieldErrors(input: Partial<ItemRuleFields>): string[] {
+  const errors: string[] = [];
+
+  // Name validation
+  if (!input.name || input.name.trim().length < 2) {
+    errors.push('Name must be at least 2 characters');
+  }
+  if (input.name && input.name.trim().length > 200) {
+    errors.push('Name must not exceed 200 characters');
+  }
+
+  // Category validation
+  if (!input.category || input.category.trim().length < 2) {
+    errors.push('Category must be at least 2 characters');
+  }
+  if (input.category && input.category.trim().length > 100) {
+    errors.push('Category must not exceed 100 characters');
+  }
+
+  // Description validation
+  if (!input.description || input.description.trim().length < 10) {
+    errors.push('Description must be at least 10 characters');
+  }
+  if (input.description && input.description.trim().length > 2000) {
+    errors.push('Description must not exceed 2000 characters');
+  }
+
+  // Price validation (BR-1.5)
+  if (
+    typeof input.estimatedPrice !== 'number' ||
+    !(input.estimatedPrice > 0) // also rejects NaN
+  ) {
+    errors.push('Estimated price must be a positive number');
+  }
+  if (input.estimatedPrice && !Number.isFinite(input.estimatedPrice)) {
+    errors.push('Estimated price must be a valid number');
+  }
+
+  return errors;
+}
+
+/**
+ * Whether an existing item is a potential duplicate of a new one (BR-1.3)
+ * Same check as item creation: the existing name and category contain the
+ * new name and category, ignoring case.
+ */
+export function isPotentialDuplicate(
+  candidate: Pick<ItemRuleFields, 'name' | 'category'>,
+  existing: Pick<ItemRuleFields, 'name' | 'category'>
+): boolean {
+  return (
+    existing.name.toLowerCase().includes(candidate.name.trim().toLowerCase()) &&
+    existing.category
+      .toLowerCase()
+      .includes(candidate.category.trim().toLowerCase())
+  );
+}
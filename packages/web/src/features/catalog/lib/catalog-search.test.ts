@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+
+import { ItemStatus } from '@/domain/entities';
+
+import {
+  buildCatalogMatch,
+  buildCatalogSort,
+  normalizeSearchFilters,
+  readCatalogFacets,
+  toCatalogSearchQuery,
+} from './catalog-search';
+
+describe('catalog-search', () => {
+  describe('normalizeSearchFilters', () => {
+    it('should trim, dedupe and drop empty or invalid values', () => {
+      expect(
+        normalizeSearchFilters({
+          q: '  ',
+          categories: [' Office ', 'Office', ''],
+          minPrice: -1,
+          maxPrice: Number.NaN,
+          units: [],
+          statuses: ['archived' as ItemStatus, ItemStatus.Inactive],
+        })
+      ).toEqual({
+        q: undefined,
+        categories: ['Office'],
+        minPrice: undefined,
+        maxPrice: undefined,
+        supplierIds: undefined,
+        units: undefined,
+        statuses: [ItemStatus.Inactive],
+      });
+    });
+  });
+
+  describe('toCatalogSearchQuery', () => {
+    it('should repeat list filters and skip defaults', () => {
+      expect(
+        toCatalogSearchQuery(
+          {
+            q: 'chair',
+            categories: ['Furniture', 'Office'],
+            minPrice: 0,
+            supplierIds: ['s1'],
+          },
+          { sort: 'relevance', limit: 50 }
+        )
+      ).toBe(
+        'q=chair&category=Furniture&category=Office&minPrice=0&supplierId=s1&limit=50'
+      );
+      expect(toCatalogSearchQuery({}, { sort: 'price_asc' })).toBe(
+        'sort=price_asc'
+      );
+    });
+
+    it('should pass category branches', () => {
+      expect(toCatalogSearchQuery({ branch: [' Office Supplies '] })).toBe(
+        'branch=Office+Supplies'
+      );
+    });
+  });
+
+  describe('buildCatalogMatch', () => {
+    const filters = {
+      categories: ['Office (A+B)'],
+      minPrice: 10,
+      maxPrice: 100,
+      supplierIds: ['s1'],
+      units: ['box'],
+    };
+
+    it('should combine filters and default to active items (BR-1.4)', () => {
+      const match = buildCatalogMatch(filters);
+
+      expect(match).toEqual({
+        category: { $in: [/^Office \(A\+B\)$/i] },
+        estimatedPrice: { $gte: 10, $lte: 100 },
+        'suppliers.supplierId': { $in: ['s1'] },
+        unit: { $in: ['box'] },
+        status: { $in: [ItemStatus.Active] },
+      });
+    });
+
+    it('should leave out the filter of the facet being counted', () => {
+      expect(buildCatalogMatch(filters, 'category')).not.toHaveProperty(
+        'category'
+      );
+      expect(buildCatalogMatch(filters, 'price')).not.toHaveProperty(
+        'estimatedPrice'
+      );
+      expect(buildCatalogMatch(filters, 'status')).not.toHaveProperty('status');
+    });
+
+    it('should match category branches even when counting categories', () => {
+      const match = buildCatalogMatch(
+        { categories: ['Pens'], branch: ['Office Supplies', 'Pens'] },
+        'category'
+      );
+
+      expect(match).not.toHaveProperty('category');
+      expect(match.$and).toEqual([
+        { category: { $in: [/^Office Supplies$/i, /^Pens$/i] } },
+      ]);
+    });
+
+    it('should apply only the given price bound', () => {
+      expect(buildCatalogMatch({ maxPrice: 50 }).estimatedPrice).toEqual({
+        $lte: 50,
+      });
+    });
+  });
+
+  describe('buildCatalogSort', () => {
+    it('should sort by text score only when there is a keyword', () => {
+      expect(buildCatalogSort('relevance', true)).toEqual({
+        score: -1,
+        _id: -1,
+      });
+      expect(buildCatalogSort('relevance', false)).toEqual({
+        createdAt: -1,
+        _id: -1,
+      });
+      expect(buildCatalogSort('price_asc', true)).toEqual({
+        estimatedPrice: 1,
+        _id: 1,
+      });
+    });
+  });
+
+  describe('readCatalogFacets', () => {
+    it('should map buckets, name suppliers and drop unknown values', () => {
+      const result = readCatalogFacets(
+        {
+          total: [{ count: 7 }],
+          categories: [{ _id: 'Office', count: 5 }],
+          units: [
+            { _id: null, count: 4 },
+            { _id: 'box', count: 3 },
+          ],
+          suppliers: [
+            { _id: 's1', count: 2 },
+            { _id: 'deleted', count: 1 },
+          ],
+          price: [{ min: 1.5, max: 300 }],
+        },
+        new Map([['s1', 'Acme']])
+      );
+
+      expect(result).toEqual({
+        total: 7,
+        facets: {
+          categories: [{ value: 'Office', count: 5 }],
+          suppliers: [{ value: 's1', count: 2, name: 'Acme' }],
+          units: [{ value: 'box', count: 3 }],
+          statuses: [],
+          price: { min: 1.5, max: 300 },
+        },
+      });
+    });
+
+    it('should return empty facets when nothing matches', () => {
+      expect(readCatalogFacets({ total: [], price: [] }, new Map())).toEqual({
+        total: 0,
+        facets: {
+          categories: [],
+          suppliers: [],
+          units: [],
+          statuses: [],
+          price: null,
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * Catalog Search
+ *
+ * Pure helpers for faceted catalog search:
+ * - Filter, sort and facet types shared by the API, the catalog page and
+ *   the agent's search_catalog tool
+ * - Normalizing raw filter input and building /api/items query strings
+ * - Building MongoDB match and sort stages
+ * - Reading $facet aggregation output
+ *
+ * Facets are disjunctive: each facet is counted with every filter except
+ * its own, so selecting one category still shows the counts of the others.
+ * Kept free of database access so it can be used on the client and unit
+ * tested.
+ */
+
+import { ItemStatus } from '@/domain/entities';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const CATALOG_SORT_OPTIONS = [
+  'relevance',
+  'price_asc',
+  'price_desc',
+  'newest',
+] as const;
+
+/** Facet buckets returned per facet (most frequent first) */
+export const MAX_FACET_BUCKETS = 20;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CatalogSort = (typeof CATALOG_SORT_OPTIONS)[number];
+
+/** Facet that can be excluded from its own counts */
+export type CatalogFacetKey =
+  | 'category'
+  | 'price'
+  | 'supplier'
+  | 'unit'
+  | 'status';
+
+/**
+ * Catalog search filters
+ * TId is the supplier ID type (string in the API, ObjectId in queries).
+ */
+export interface CatalogSearchFilters<TId = string> {
+  /** Keyword (text search on name, description and category) */
+  q?: string;
+
+  /** Categories (any of; case-insensitive exact match) */
+  categories?: string[];
+
+  /**
+   * Category branches to drill into (any of): a category and its
+   * subcategories. The API takes category names; the service expands them
+   * to every name in the branch before matching.
+   */
+  branch?: string[];
+
+  /** Minimum estimated price (inclusive) */
+  minPrice?: number;
+
+  /** Maximum estimated price (inclusive) */
+  maxPrice?: number;
+
+  /** Suppliers offering the item (any of) */
+  supplierIds?: TId[];
+
+  /** Units of measure (any of) */
+  units?: string[];
+
+  /** Item statuses (any of; default: active only, BR-1.4) */
+  statuses?: ItemStatus[];
+}
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+export interface SupplierFacetBucket extends FacetBucket {
+  /** Supplier name (value is the supplier ID) */
+  name: string;
+}
+
+export interface CatalogFacets {
+  categories: FacetBucket[];
+  suppliers: SupplierFacetBucket[];
+  units: FacetBucket[];
+  statuses: FacetBucket[];
+
+  /** Price range of the matching items (null when nothing matches) */
+  price: { min: number; max: number } | null;
+}
+
+/**
+ * Raw $facet output for the facet counts
+ */
+export interface RawCatalogFacets {
+  total?: Array<{ count: number }>;
+  categories?: Array<{ _id: unknown; count: number }>;
+  suppliers?: Array<{ _id: unknown; count: number }>;
+  units?: Array<{ _id: unknown; count: number }>;
+  statuses?: Array<{ _id: unknown; count: number }>;
+  price?: Array<{ min: number; max: number }>;
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Whether a value is a catalog sort option
+ */
+export function isCatalogSort(value: unknown): value is CatalogSort {
+  return CATALOG_SORT_OPTIONS.includes(value as CatalogSort);
+}
+
+/**
+ * Clean raw filter input: trim, drop empty values and duplicates, ignore
+ * unknown statuses and non-finite prices
+ */
+export function normalizeSearchFilters(
+  filters: CatalogSearchFilters
+): CatalogSearchFilters {
+  const list = (values?: string[]) => {
+    const cleaned = [
+      ...new Set((values ?? []).map((value) => value.trim()).filter(Boolean)),
+    ];
+    return cleaned.length > 0 ? cleaned : undefined;
+  };
+  const price = (value?: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0
+      ? value
+      : undefined;
+
+  const statuses = list(filters.statuses)?.filter((status) =>
+    Object.values(ItemStatus).includes(status as ItemStatus)
+  ) as ItemStatus[] | undefined;
+
+  return {
+    q: filters.q?.trim() || undefined,
+    categories: list(filters.categories),
+    branch: list(filters.branch),
+    minPrice: price(filters.minPrice),
+    maxPrice: price(filters.maxPrice),
+    supplierIds: list(filters.supplierIds),
+    units: list(filters.units),
+    statuses: statuses && statuses.length > 0 ? statuses : undefined,
+  };
+}
+
+/**
+ * Build the /api/items query string for a search
+ * List filters become repeated params (category=A&category=B).
+ */
+export function toCatalogSearchQuery(
+  filters: CatalogSearchFilters,
+  options: { sort?: CatalogSort; limit?: number } = {}
+): string {
+  const {
+    q,
+    categories,
+    branch,
+    minPrice,
+    maxPrice,
+    supplierIds,
+    units,
+    statuses,
+  } = normalizeSearchFilters(filters);
+  const params = new URLSearchParams();
+
+  if (q) {
+    params.set('q', q);
+  }
+  categories?.forEach((category) => params.append('category', category));
+  branch?.forEach((category) => params.append('branch', category));
+  if (minPrice !== undefined) {
+    params.set('minPrice', String(minPrice));
+  }
+  if (maxPrice !== undefined) {
+    params.set('maxPrice', String(maxPrice));
+  }
+  supplierIds?.forEach((id) => params.append('supplierId', id));
+  units?.forEach((unit) => params.append('unit', unit));
+  statuses?.forEach((status) => params.append('status', status));
+  if (options.sort && options.sort !== 'relevance') {
+    params.set('sort', options.sort);
+  }
+  if (options.limit !== undefined) {
+    params.set('limit', String(options.limit));
+  }
+
+  return params.toString();
+}
+
+/**
+ * Build the match for the filters (without the keyword)
+ * The keyword is matched separately because $text must be the first stage.
+ *
+ * @param filters - Normalized filters
+ * @param except - Facet whose own filter is left out (for its counts)
+ */
+export function buildCatalogMatch<TId>(
+  filters: CatalogSearchFilters<TId>,
+  except?: CatalogFacetKey
+): Record<string, unknown> {
+  const match: Record<string, unknown> = {};
+
+  if (except !== 'category' && filters.categories) {
+    match.category = {
+      $in: filters.categories.map(
+        (category) => new RegExp(`^${escapeRegex(category)}$`, 'i')
+      ),
+    };
+  }
+
+  // Not a facet: the category facet counts subcategories in the branch
+  if (filters.branch) {
+    match.$and = [
+      {
+        category: {
+          $in: filters.branch.map(
+            (category) => new RegExp(`^${escapeRegex(category)}$`, 'i')
+          ),
+        },
+      },
+    ];
+  }
+
+  if (
+    except !== 'price' &&
+    (filters.minPrice !== undefined || filters.maxPrice !== undefined)
+  ) {
+    match.estimatedPrice = {
+      ...(filters.minPrice !== undefined && { $gte: filters.minPrice }),
+      ...(filters.maxPrice !== undefined && { $lte: filters.maxPrice }),
+    };
+  }
+
+  if (except !== 'supplier' && filters.supplierIds) {
+    match['suppliers.supplierId'] = { $in: filters.supplierIds };
+  }
+
+  if (except !== 'unit' && filters.units) {
+    match.unit = { $in: filters.units };
+  }
+
+  if (except !== 'status') {
+    match.status = { $in: filters.statuses ?? [ItemStatus.Active] };
+  }
+
+  return match;
+}
+
+/**
+ * Sort field and direction for a sort option
+ * Relevance falls back to newest when there is no keyword; relevance
+ * sorts on a `score` field set from { $meta: 'textScore' }.
+ */
+export function getCatalogSortKey(
+  sort: CatalogSort,
+  hasKeyword: boolean
+): { field: 'score' | 'estimatedPrice' | 'createdAt'; direction: 1 | -1 } {
+  switch (sort) {
+    case 'price_asc':
+      return { field: 'estimatedPrice', direction: 1 };
+    case 'price_desc':
+      return { field: 'estimatedPrice', direction: -1 };
+    case 'newest':
+      return { field: 'createdAt', direction: -1 };
+    case 'relevance':
+    default:
+      return hasKeyword
+        ? { field: 'score', direction: -1 }
+        : { field: 'createdAt', direction: -1 };
+  }
+}
+
+/**
+ * Build the sort stage (sort field, then _id in the same direction so
+ * the order is stable for cursor pagination)
+ */
+export function buildCatalogSort(
+  sort: CatalogSort,
+  hasKeyword: boolean
+): Record<string, 1 | -1> {
+  const { field, direction } = getCatalogSortKey(sort, hasKeyword);
+  return { [field]: direction, _id: direction };
+}
+
+/**
+ * Read facet counts from the $facet aggregation output
+ *
+ * @param raw - First document of the aggregation result
+ * @param supplierNames - Supplier ID → name (unknown suppliers are dropped)
+ */
+export function readCatalogFacets(
+  raw: RawCatalogFacets | undefined,
+  supplierNames: Map<string, string>
+): { total: number; facets: CatalogFacets } {
+  const buckets = (rows?: Array<{ _id: unknown; count: number }>) =>
+    (rows ?? [])
+      .filter((row) => row._id !== null && row._id !== undefined)
+      .map((row) => ({ value: String(row._id), count: row.count }));
+
+  return {
+    total: raw?.total?.[0]?.count ?? 0,
+    facets: {
+      categories: buckets(raw?.categories),
+      suppliers: buckets(raw?.suppliers)
+        .filter((bucket) => supplierNames.has(bucket.value))
+        .map((bucket) => ({
+          ...bucket,
+          name: supplierNames.get(bucket.value)!,
+        })),
+      units: buckets(raw?.units),
+      statuses: buckets(raw?.statuses),
+      price: raw?.price?.[0]
+        ? { min: raw.price[0].min, max: raw.price[0].max }
+        : null,
+    },
+  };
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
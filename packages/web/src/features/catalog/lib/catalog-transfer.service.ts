@@ -0,0 +1,463 @@
+/**
+ * Catalog Transfer Service
+ *
+ * Bulk catalog import and export:
+ * - Read CSV, XLSX and JSON files into import rows
+ * - Dry-run validation report (per-row errors and duplicates)
+ * - Commit all-or-nothing or per row; embeddings of the new items are
+ *   computed in the background
+ * - Export the filtered catalog as CSV or JSON (streamed) or XLSX
+ *
+ * Rows go through the same rules as single item creation (BR-1.2, BR-1.3,
+ * BR-1.5, category taxonomy). The file is re-validated on commit; a dry-run report is never
+ * trusted.
+ */
+
+import { Types } from 'mongoose';
+import { readSheet } from 'read-excel-file/node';
+import type { SheetData } from 'write-excel-file/node';
+import writeXlsxFile from 'write-excel-file/node';
+
+import type { Item } from '@/domain/entities';
+import { ItemStatus, WebhookEventType } from '@/domain/entities';
+import { publishWebhookEvent } from '@/features/webhooks/lib/webhook.service';
+import { invalidateSearchCache } from '@/lib/cache/searchCache';
+import { mapCategoryToEntity, mapItemToEntity } from '@/lib/db/mappers';
+import { CategoryModel, ItemModel } from '@/lib/db/models';
+import connectDB from '@/lib/db/mongoose';
+import { logger } from '@/lib/logger/winston.config';
+
+import type {
+  CatalogImportEntry,
+  CatalogImportMode,
+  CatalogImportReport,
+  CatalogTransferFormat,
+} from './catalog-transfer';
+import {
+  buildImportReport,
+  CATALOG_EXPORT_COLUMNS,
+  detectCatalogFormat,
+  formatCsvRow,
+  itemToExportRow,
+  MAX_CATALOG_IMPORT_BYTES,
+  MAX_CATALOG_IMPORT_ROWS,
+  parseCsv,
+  summarizeImportRows,
+  tableToEntries,
+} from './catalog-transfer';
+import { ValidationError } from './catalog.service';
+import { startEmbeddingRefresh } from './semantic-search.service';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CatalogImportFile {
+  /** Original file name (format is detected from the extension) */
+  fileName: string;
+
+  /** File contents */
+  data: Buffer;
+}
+
+export interface CommitCatalogImportOptions {
+  mode: CatalogImportMode;
+
+  /** User registering the items */
+  userId?: string;
+}
+
+export interface CatalogImportResult {
+  mode: CatalogImportMode;
+
+  /**
+   * Whether the import was applied
+   * False when an all-or-nothing import had invalid or duplicate rows.
+   */
+  committed: boolean;
+
+  /** Number of items created */
+  created: number;
+
+  /** Report with created item IDs on the created rows */
+  report: CatalogImportReport;
+}
+
+export interface ExportCatalogParams {
+  format: CatalogTransferFormat;
+
+  /** Keyword filter (text search on name, description and category) */
+  q?: string;
+
+  /** Category filter (exact, case-insensitive) */
+  category?: string;
+
+  /** Status filter (default: active; 'all' for every status) */
+  status?: ItemStatus | 'all';
+}
+
+export interface CatalogExport {
+  stream: ReadableStream<Uint8Array>;
+  contentType: string;
+  fileName: string;
+}
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+/**
+ * Validate an import file without changing the catalog (dry run)
+ *
+ * @throws {ValidationError} if the file can't be read
+ */
+export async function previewCatalogImport(
+  file: CatalogImportFile
+): Promise<CatalogImportReport> {
+  await connectDB();
+
+  const entries = await readImportFile(file);
+
+  try {
+    return buildImportReport(
+      entries,
+      await loadExistingItems(),
+      await loadCategories()
+    );
+  } catch (error) {
+    logger.error('Error validating catalog import', { error });
+    throw new Error('Failed to validate catalog import');
+  }
+}
+
+/**
+ * Import a file into the catalog
+ *
+ * Modes:
+ * - all_or_nothing: creates every row or none; rejected (committed: false)
+ *   when any row is invalid or a duplicate
+ * - per_row: creates the valid rows; invalid and duplicate rows are skipped
+ *
+ * @throws {ValidationError} if the file can't be read or has no rows
+ */
+export async function commitCatalogImport(
+  file: CatalogImportFile,
+  options: CommitCatalogImportOptions
+): Promise<CatalogImportResult> {
+  await connectDB();
+
+  const { mode, userId } = options;
+  const entries = await readImportFile(file);
+
+  if (entries.length === 0) {
+    throw new ValidationError('Import file has no rows');
+  }
+
+  try {
+    const report = buildImportReport(
+      entries,
+      await loadExistingItems(),
+      await loadCategories()
+    );
+
+    if (mode === 'all_or_nothing' && report.validRows !== report.totalRows) {
+      return { mode, committed: false, created: 0, report };
+    }
+
+    const rows = report.rows.map((row) => ({ ...row }));
+    const validRows = rows.filter((row) => row.status === 'valid');
+    const created: Item[] = [];
+
+    const toDocument = (row: (typeof rows)[number]) => ({
+      _id: new Types.ObjectId(),
+      name: row.item!.name,
+      category: row.item!.category,
+      description: row.item!.description,
+      estimatedPrice: row.item!.estimatedPrice,
+      unit: row.item!.unit,
+      status: ItemStatus.Active,
+      preferredSupplier: row.item!.preferredSupplier,
+      suppliers: [],
+      createdByUserId: userId,
+    });
+
+    if (mode === 'all_or_nothing') {
+      const documents = validRows.map(toDocument);
+      try {
+        const inserted = await ItemModel.insertMany(documents, {
+          ordered: true,
+        });
+        created.push(...inserted.map(mapItemToEntity));
+      } catch (error) {
+        // Roll back whatever was written before the failure
+        await ItemModel.deleteMany({
+          _id: { $in: documents.map((document) => document._id) },
+        }).exec();
+        throw error;
+      }
+      validRows.forEach((row, index) => {
+        row.itemId = created[index].id;
+      });
+    } else {
+      for (const row of validRows) {
+        try {
+          const item = mapItemToEntity(await ItemModel.create(toDocument(row)));
+          created.push(item);
+          row.itemId = item.id;
+        } catch (error) {
+          logger.warn('Catalog import row failed', {
+            rowNumber: row.rowNumber,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          row.status = 'invalid';
+          row.errors = ['Failed to create item'];
+        }
+      }
+    }
+
+    if (created.length > 0) {
+      invalidateSearchCache();
+      startEmbeddingRefresh(created);
+    }
+
+    logger.info('Catalog import committed', {
+      mode,
+      userId,
+      totalRows: report.totalRows,
+      created: created.length,
+    });
+
+    for (const item of created) {
+      await publishWebhookEvent(WebhookEventType.ItemCreated, { item });
+    }
+
+    return {
+      mode,
+      committed: true,
+      created: created.length,
+      report: summarizeImportRows(rows),
+    };
+  } catch (error) {
+    logger.error('Error committing catalog import', { mode, userId, error });
+    throw new Error('Failed to import catalog items');
+  }
+}
+
+/**
+ * Export the filtered catalog as a stream
+ * Items are read with a cursor (newest first). CSV and JSON are written as
+ * items arrive; XLSX has to be built in memory before it is sent.
+ */
+export async function exportCatalog(
+  params: ExportCatalogParams
+): Promise<CatalogExport> {
+  await connectDB();
+
+  const { format, q, category, status = ItemStatus.Active } = params;
+
+  const filter: Record<string, unknown> = {};
+  if (status !== 'all') {
+    filter.status = status;
+  }
+  if (q && q.trim()) {
+    filter.$text = { $search: q.trim() };
+  }
+  if (category && category.trim()) {
+    filter.category = {
+      $regex: new RegExp(`^${escapeRegex(category.trim())}$`, 'i'),
+    };
+  }
+
+  const items = async function* () {
+    const cursor = ItemModel.find(filter).sort({ createdAt: -1 }).cursor();
+    for await (const document of cursor) {
+      yield mapItemToEntity(document);
+    }
+  };
+
+  const date = new Date().toISOString().slice(0, 10);
+  const fileName = `catalog-${date}.${format}`;
+
+  logger.info('Catalog export started', { format, q, category, status });
+
+  if (format === 'xlsx') {
+    return {
+      stream: xlsxStream(items()),
+      contentType:
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      fileName,
+    };
+  }
+
+  const encoder = new TextEncoder();
+  const lines = async function* () {
+    if (format === 'csv') {
+      yield formatCsvRow([...CATALOG_EXPORT_COLUMNS]);
+      for await (const item of items()) {
+        yield formatCsvRow(itemToExportRow(item));
+      }
+      return;
+    }
+
+    let first = true;
+    yield '[';
+    for await (const item of items()) {
+      yield `${first ? '\n' : ',\n'}${JSON.stringify(item)}`;
+      first = false;
+    }
+    yield '\n]\n';
+  };
+
+  return {
+    stream: iteratorToStream(lines(), (line) => encoder.encode(line)),
+    contentType:
+      format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+    fileName,
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Parse an import file into entries
+ *
+ * @throws {ValidationError} if the format is unsupported, the file is too
+ *   large or can't be parsed
+ */
+async function readImportFile(
+  file: CatalogImportFile
+): Promise<CatalogImportEntry[]> {
+  const format = detectCatalogFormat(file.fileName);
+  if (!format) {
+    throw new ValidationError('Import file must be .csv, .xlsx or .json');
+  }
+  if (file.data.length > MAX_CATALOG_IMPORT_BYTES) {
+    throw new ValidationError(
+      `Import file must not exceed ${MAX_CATALOG_IMPORT_BYTES / (1024 * 1024)} MB`
+    );
+  }
+
+  let entries: CatalogImportEntry[];
+  try {
+    if (format === 'csv') {
+      entries = tableToEntries(parseCsv(file.data.toString('utf8')));
+    } else if (format === 'xlsx') {
+      entries = tableToEntries(await readXlsxTable(file.data));
+    } else {
+      const parsed = JSON.parse(file.data.toString('utf8'));
+      const records = Array.isArray(parsed) ? parsed : parsed?.items;
+      if (!Array.isArray(records)) {
+        throw new Error('Expected an array of items');
+      }
+      entries = records.map((record, index) => ({
+        rowNumber: index + 1,
+        record:
+          record && typeof record === 'object' && !Array.isArray(record)
+            ? record
+            : {},
+      }));
+    }
+  } catch (error) {
+    throw new ValidationError(
+      `Could not read ${format.toUpperCase()} file: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  if (entries.length > MAX_CATALOG_IMPORT_ROWS) {
+    throw new ValidationError(
+      `Import file must not have more than ${MAX_CATALOG_IMPORT_ROWS} rows`
+    );
+  }
+
+  return entries;
+}
+
+/**
+ * Read the first worksheet of an XLSX workbook as a table
+ */
+async function readXlsxTable(data: Buffer): Promise<unknown[][]> {
+  return readSheet(data);
+}
+
+/**
+ * Build an XLSX workbook from items
+ * The workbook is assembled once the cursor is drained.
+ */
+function xlsxStream(items: AsyncIterable<Item>): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        const rows: SheetData = [[...CATALOG_EXPORT_COLUMNS]];
+        for await (const item of items) {
+          rows.push(itemToExportRow(item));
+        }
+
+        const buffer = await writeXlsxFile(rows, {
+          sheet: 'Catalog',
+        }).toBuffer();
+
+        controller.enqueue(new Uint8Array(buffer));
+        controller.close();
+      } catch (error) {
+        logger.error('Error exporting catalog', { format: 'xlsx', error });
+        controller.error(error);
+      }
+    },
+  });
+}
+
+/**
+ * Pull-based stream over an async iterator
+ */
+function iteratorToStream<T>(
+  iterator: AsyncIterator<T>,
+  encode: (value: T) => Uint8Array
+): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encode(value));
+        }
+      } catch (error) {
+        logger.error('Error exporting catalog', { error });
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Load names and categories of every catalog item (duplicate check)
+ */
+async function loadExistingItems() {
+  const items = await ItemModel.find({}).select('name category').lean().exec();
+
+  return items.map((item) => ({
+    id: item._id.toString(),
+    name: item.name,
+    category: item.category,
+  }));
+}
+
+/**
+ * Load the category taxonomy (category check)
+ */
+async function loadCategories() {
+  const categories = await CategoryModel.find({}).lean().exec();
+  return categories.map(mapCategoryToEntity);
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,217 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Item } from '@/domain/entities';
+import { ItemStatus } from '@/domain/entities';
+
+import {
+  buildImportReport,
+  detectCatalogFormat,
+  formatCsvRow,
+  itemToExportRow,
+  parseCsv,
+  readImportRow,
+  tableToEntries,
+} from './catalog-transfer';
+
+describe('catalog-transfer', () => {
+  const validRecord = {
+    name: 'Ergonomic Chair',
+    category: 'Furniture',
+    description: 'Adjustable office chair with lumbar support',
+    estimatedPrice: '249.99',
+  };
+
+  describe('parseCsv', () => {
+    it('should parse quoted fields with commas, quotes and line breaks', () => {
+      const rows = parseCsv(
+        '\uFEFFname,description\r\n"Pen, blue","Says ""hi""\nnicely"\r\n'
+      );
+
+      expect(rows).toEqual([
+        ['name', 'description'],
+        ['Pen, blue', 'Says "hi"\nnicely'],
+      ]);
+    });
+
+    it('should keep blank lines so row numbers match the file', () => {
+      expect(parseCsv('a\n\nb')).toEqual([['a'], [''], ['b']]);
+    });
+
+    it('should reject unterminated quotes', () => {
+      expect(() => parseCsv('name\n"broken')).toThrow(
+        'Unterminated quoted field'
+      );
+    });
+  });
+
+  describe('formatCsvRow', () => {
+    it('should quote special characters and neutralize formulas', () => {
+      expect(formatCsvRow(['a,b', 'say "x"', '=SUM(A1)', 12.5, null])).toBe(
+        '"a,b","say ""x""",\'=SUM(A1),12.5,\r\n'
+      );
+    });
+
+    it('should round-trip through parseCsv', () => {
+      const cells = ['Desk, "XL"', 'multi\nline', 'plain'];
+
+      expect(parseCsv(formatCsvRow(cells))).toEqual([cells]);
+    });
+  });
+
+  describe('detectCatalogFormat', () => {
+    it('should detect supported extensions only', () => {
+      expect(detectCatalogFormat('items.CSV')).toBe('csv');
+      expect(detectCatalogFormat('export.xlsx')).toBe('xlsx');
+      expect(detectCatalogFormat('items.xls')).toBeNull();
+    });
+  });
+
+  describe('tableToEntries', () => {
+    it('should key rows by header and skip blank rows', () => {
+      const entries = tableToEntries([
+        ['name', 'price'],
+        ['Pen', '1.50'],
+        ['', null],
+        ['Desk', 300],
+      ]);
+
+      expect(entries).toEqual([
+        { rowNumber: 2, record: { name: 'Pen', price: '1.50' } },
+        { rowNumber: 4, record: { name: 'Desk', price: 300 } },
+      ]);
+    });
+  });
+
+  describe('readImportRow', () => {
+    it('should map header aliases and parse prices', () => {
+      const row = readImportRow(
+        {
+          'Item Name': ' Stapler ',
+          Category: 'Office',
+          Description: 'Heavy duty stapler, 50 sheets',
+          Price: '$1,299.00',
+          UoM: 'each',
+        },
+        2
+      );
+
+      expect(row.status).toBe('valid');
+      expect(row.item).toEqual({
+        name: 'Stapler',
+        category: 'Office',
+        description: 'Heavy duty stapler, 50 sheets',
+        estimatedPrice: 1299,
+        unit: 'each',
+        preferredSupplier: undefined,
+      });
+    });
+
+    it('should report required field and price errors (BR-1.2, BR-1.5)', () => {
+      const row = readImportRow(
+        { name: 'X', category: 'Office', estimatedPrice: 'free' },
+        3
+      );
+
+      expect(row.status).toBe('invalid');
+      expect(row.errors).toEqual([
+        'Name must be at least 2 characters',
+        'Description must be at least 10 characters',
+        'Estimated price must be a positive number',
+      ]);
+    });
+
+    it('should enforce the item schema price limits', () => {
+      expect(
+        readImportRow({ ...validRecord, estimatedPrice: 1.999 }, 2).errors
+      ).toEqual(['Estimated price must have at most 2 decimal places']);
+      expect(
+        readImportRow({ ...validRecord, estimatedPrice: 2_000_000 }, 2).errors
+      ).toEqual(['Estimated price must not exceed 1,000,000']);
+    });
+  });
+
+  describe('buildImportReport', () => {
+    it('should flag duplicates in the file and in the catalog (BR-1.3)', () => {
+      const report = buildImportReport(
+        [
+          { rowNumber: 2, record: validRecord },
+          { rowNumber: 3, record: { ...validRecord, name: 'ergonomic chair' } },
+          {
+            rowNumber: 4,
+            record: { ...validRecord, name: 'Monitor Arm' },
+          },
+          { rowNumber: 5, record: { name: 'Lamp' } },
+        ],
+        [{ id: 'item-1', name: 'Dual Monitor Arm', category: 'Furniture' }]
+      );
+
+      expect(report).toMatchObject({
+        totalRows: 4,
+        validRows: 1,
+        invalidRows: 1,
+        duplicateRows: 2,
+      });
+      expect(report.rows[1]).toMatchObject({
+        status: 'duplicate',
+        duplicateOfRow: 2,
+      });
+      expect(report.rows[2]).toMatchObject({
+        status: 'duplicate',
+        duplicates: [
+          { id: 'item-1', name: 'Dual Monitor Arm', category: 'Furniture' },
+        ],
+      });
+      expect(report.rows[3].status).toBe('invalid');
+    });
+
+    it('should check categories against the taxonomy', () => {
+      const at = new Date('2025-01-10T10:00:00Z');
+      const report = buildImportReport(
+        [
+          { rowNumber: 2, record: { ...validRecord, category: 'furniture' } },
+          { rowNumber: 3, record: { ...validRecord, category: 'Snacks' } },
+        ],
+        [],
+        [{ id: 'cat-1', name: 'Furniture', createdAt: at, updatedAt: at }]
+      );
+
+      expect(report.rows[0]).toMatchObject({
+        status: 'valid',
+        item: { category: 'Furniture' },
+      });
+      expect(report.rows[1]).toMatchObject({
+        status: 'invalid',
+        errors: ['Unknown category: Snacks'],
+      });
+    });
+  });
+
+  describe('itemToExportRow', () => {
+    it('should flatten items in export column order', () => {
+      const item: Item = {
+        id: 'item-1',
+        name: 'Pen',
+        category: 'Office',
+        description: 'Blue ballpoint pen',
+        estimatedPrice: 1.5,
+        status: ItemStatus.Active,
+        suppliers: [],
+        createdAt: new Date('2025-01-01T00:00:00.000Z'),
+        updatedAt: new Date('2025-01-02T00:00:00.000Z'),
+      };
+
+      expect(itemToExportRow(item)).toEqual([
+        'item-1',
+        'Pen',
+        'Office',
+        'Blue ballpoint pen',
+        1.5,
+        '',
+        'active',
+        '',
+        '2025-01-01T00:00:00.000Z',
+        '2025-01-02T00:00:00.000Z',
+      ]);
+    });
+  });
+});
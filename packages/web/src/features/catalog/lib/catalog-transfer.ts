@@ -0,0 +1,466 @@
+/**
+ * Catalog Transfer
+ *
+ * Pure helpers for bulk catalog import and export:
+ * - CSV parsing and formatting (RFC 4180)
+ * - Mapping spreadsheet/JSON rows to item fields (header aliases)
+ * - Per-row validation with the item rules (BR-1.2, BR-1.3, BR-1.5)
+ * - Dry-run report (errors, duplicates within the file and in the catalog)
+ *
+ * File I/O (XLSX workbooks, database) lives in catalog-transfer.service.ts.
+ */
+
+import type { Category, Item } from '@/domain/entities';
+
+import { getItemFieldErrors, isPotentialDuplicate } from './catalog-rules';
+import { findCategoryByName } from './category-taxonomy';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const CATALOG_TRANSFER_FORMATS = ['csv', 'xlsx', 'json'] as const;
+
+/** Maximum upload size for an import file */
+export const MAX_CATALOG_IMPORT_BYTES = 5 * 1024 * 1024;
+
+/** Maximum number of data rows in one import */
+export const MAX_CATALOG_IMPORT_ROWS = 5000;
+
+/** Columns written by the export (and accepted by the import) */
+export const CATALOG_EXPORT_COLUMNS = [
+  'id',
+  'name',
+  'category',
+  'description',
+  'estimatedPrice',
+  'unit',
+  'status',
+  'preferredSupplier',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+/**
+ * Accepted header spellings → item field
+ * Headers are compared lowercase with spaces, dashes and underscores removed.
+ */
+const HEADER_ALIASES: Record<string, keyof CatalogImportItem> = {
+  name: 'name',
+  itemname: 'name',
+  category: 'category',
+  description: 'description',
+  estimatedprice: 'estimatedPrice',
+  price: 'estimatedPrice',
+  unitprice: 'estimatedPrice',
+  unit: 'unit',
+  uom: 'unit',
+  preferredsupplier: 'preferredSupplier',
+  supplier: 'preferredSupplier',
+};
+
+// Item schema limits not covered by the item rules
+const MAX_ESTIMATED_PRICE = 1_000_000;
+const MAX_UNIT_LENGTH = 50;
+const MAX_PREFERRED_SUPPLIER_LENGTH = 200;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CatalogTransferFormat = (typeof CATALOG_TRANSFER_FORMATS)[number];
+
+/**
+ * Commit mode for an import
+ * - all_or_nothing: nothing is created unless every row is valid
+ * - per_row: valid rows are created, invalid and duplicate rows skipped
+ */
+export type CatalogImportMode = 'all_or_nothing' | 'per_row';
+
+/**
+ * Raw import row keyed by the file's headers (or JSON keys)
+ */
+export type CatalogImportRecord = Record<string, unknown>;
+
+/**
+ * Import record with its position in the file
+ */
+export interface CatalogImportEntry {
+  /** Row number as the user sees it (header is row 1 in CSV/XLSX) */
+  rowNumber: number;
+
+  record: CatalogImportRecord;
+}
+
+/**
+ * Item fields read from an import row
+ */
+export interface CatalogImportItem {
+  name: string;
+  category: string;
+  description: string;
+  estimatedPrice: number;
+  unit?: string;
+  preferredSupplier?: string;
+}
+
+export type CatalogImportRowStatus = 'valid' | 'invalid' | 'duplicate';
+
+/**
+ * Dry-run result for one row
+ */
+export interface CatalogImportRowReport {
+  /** Row number as the user sees it (header is row 1 in CSV/XLSX) */
+  rowNumber: number;
+
+  status: CatalogImportRowStatus;
+
+  /** Item fields (present when the row could be read) */
+  item?: CatalogImportItem;
+
+  /** Validation errors (status 'invalid') */
+  errors: string[];
+
+  /** Existing catalog items this row may duplicate (BR-1.3) */
+  duplicates: Array<Pick<Item, 'id' | 'name' | 'category'>>;
+
+  /** Earlier row in the same file with the same name and category */
+  duplicateOfRow?: number;
+
+  /** Created item ID (set after commit) */
+  itemId?: string;
+}
+
+/**
+ * Dry-run report for a whole file
+ */
+export interface CatalogImportReport {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  duplicateRows: number;
+  rows: CatalogImportRowReport[];
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Parse CSV text into rows of cells
+ * Supports quoted fields with commas, quotes ("") and line breaks, CRLF/LF
+ * line endings and a UTF-8 BOM. Blank lines are kept as [''] so row
+ * numbers match the file.
+ *
+ * @throws {Error} if a quoted field is not closed
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Format one CSV line (with trailing CRLF)
+ * Cells starting with =, +, - or @ are prefixed with ' so spreadsheet
+ * apps don't evaluate them as formulas.
+ */
+export function formatCsvRow(cells: unknown[]): string {
+  return (
+    cells
+      .map((cell) => {
+        let value =
+          cell === null || cell === undefined
+            ? ''
+            : cell instanceof Date
+              ? cell.toISOString()
+              : String(cell);
+
+        if (typeof cell === 'string' && /^[=+\-@]/.test(value)) {
+          value = `'${value}`;
+        }
+        if (/[",\r\n]/.test(value)) {
+          value = `"${value.replace(/"/g, '""')}"`;
+        }
+        return value;
+      })
+      .join(',') + '\r\n'
+  );
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Detect the import format from a file name
+ */
+export function detectCatalogFormat(
+  fileName: string
+): CatalogTransferFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return CATALOG_TRANSFER_FORMATS.includes(extension as CatalogTransferFormat)
+    ? (extension as CatalogTransferFormat)
+    : null;
+}
+
+/**
+ * Convert a table (first row = headers) to import entries keyed by header
+ * Rows with only empty cells are dropped; row numbers are 1-based table
+ * positions, so the first data row is row 2.
+ */
+export function tableToEntries(table: unknown[][]): CatalogImportEntry[] {
+  const [headers, ...rows] = table;
+  if (!headers) {
+    return [];
+  }
+
+  const entries: CatalogImportEntry[] = [];
+  rows.forEach((row, index) => {
+    const isBlank = row.every(
+      (cell) =>
+        cell === null || cell === undefined || String(cell).trim() === ''
+    );
+    if (isBlank) {
+      return;
+    }
+
+    const record: CatalogImportRecord = {};
+    headers.forEach((header, column) => {
+      record[String(header ?? '')] = row[column];
+    });
+    entries.push({ rowNumber: index + 2, record });
+  });
+
+  return entries;
+}
+
+/**
+ * Read and validate one import record
+ *
+ * @param record - Raw record keyed by header or JSON key
+ * @param rowNumber - Row number for the report
+ */
+export function readImportRow(
+  record: CatalogImportRecord,
+  rowNumber: number
+): CatalogImportRowReport {
+  const fields: Partial<Record<keyof CatalogImportItem, unknown>> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const field = HEADER_ALIASES[key.toLowerCase().replace(/[\s_-]/g, '')];
+    if (field && fields[field] === undefined) {
+      fields[field] = value;
+    }
+  }
+
+  const estimatedPrice = parsePrice(fields.estimatedPrice);
+  const item: CatalogImportItem = {
+    name: toText(fields.name),
+    category: toText(fields.category),
+    description: toText(fields.description),
+    estimatedPrice,
+    unit: toText(fields.unit) || undefined,
+    preferredSupplier: toText(fields.preferredSupplier) || undefined,
+  };
+
+  const errors = getItemFieldErrors(item);
+  if (estimatedPrice > MAX_ESTIMATED_PRICE) {
+    errors.push('Estimated price must not exceed 1,000,000');
+  } else if (
+    estimatedPrice > 0 &&
+    Math.round(estimatedPrice * 100) / 100 !== estimatedPrice
+  ) {
+    errors.push('Estimated price must have at most 2 decimal places');
+  }
+  if (item.unit && item.unit.length > MAX_UNIT_LENGTH) {
+    errors.push(`Unit must not exceed ${MAX_UNIT_LENGTH} characters`);
+  }
+  if (
+    item.preferredSupplier &&
+    item.preferredSupplier.length > MAX_PREFERRED_SUPPLIER_LENGTH
+  ) {
+    errors.push(
+      `Preferred supplier must not exceed ${MAX_PREFERRED_SUPPLIER_LENGTH} characters`
+    );
+  }
+
+  return {
+    rowNumber,
+    status: errors.length > 0 ? 'invalid' : 'valid',
+    item,
+    errors,
+    duplicates: [],
+  };
+}
+
+/**
+ * Build the dry-run report for import entries
+ * Valid rows are checked against the category taxonomy (when it has
+ * categories; the row gets the taxonomy spelling) and for duplicates
+ * against earlier rows in the file and the existing catalog (BR-1.3).
+ *
+ * @param entries - Entries in file order
+ * @param existingItems - Catalog items to check duplicates against
+ * @param categories - Category taxonomy
+ */
+export function buildImportReport(
+  entries: CatalogImportEntry[],
+  existingItems: Array<Pick<Item, 'id' | 'name' | 'category'>>,
+  categories: Category[] = []
+): CatalogImportReport {
+  const seen = new Map<string, number>();
+
+  const rows = entries.map(({ rowNumber, record }) => {
+    const row = readImportRow(record, rowNumber);
+    if (row.status !== 'valid' || !row.item) {
+      return row;
+    }
+
+    if (categories.length > 0) {
+      const category = findCategoryByName(categories, row.item.category);
+      if (!category) {
+        return {
+          ...row,
+          status: 'invalid' as const,
+          errors: [`Unknown category: ${row.item.category}`],
+        };
+      }
+      row.item.category = category.name;
+    }
+
+    const key = `${row.item.name.toLowerCase()}\u0000${row.item.category.toLowerCase()}`;
+    const earlierRow = seen.get(key);
+    if (earlierRow !== undefined) {
+      return {
+        ...row,
+        status: 'duplicate' as const,
+        duplicateOfRow: earlierRow,
+      };
+    }
+    seen.set(key, row.rowNumber);
+
+    const duplicates = existingItems
+      .filter((existing) => isPotentialDuplicate(row.item!, existing))
+      .slice(0, 5)
+      .map(({ id, name, category }) => ({ id, name, category }));
+
+    return duplicates.length > 0
+      ? { ...row, status: 'duplicate' as const, duplicates }
+      : row;
+  });
+
+  return summarizeImportRows(rows);
+}
+
+/**
+ * Recount report totals from rows
+ */
+export function summarizeImportRows(
+  rows: CatalogImportRowReport[]
+): CatalogImportReport {
+  return {
+    totalRows: rows.length,
+    validRows: rows.filter((row) => row.status === 'valid').length,
+    invalidRows: rows.filter((row) => row.status === 'invalid').length,
+    duplicateRows: rows.filter((row) => row.status === 'duplicate').length,
+    rows,
+  };
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Flatten an item into export cells (CATALOG_EXPORT_COLUMNS order)
+ */
+export function itemToExportRow(item: Item): Array<string | number> {
+  return [
+    item.id,
+    item.name,
+    item.category,
+    item.description,
+    item.estimatedPrice,
+    item.unit ?? '',
+    item.status,
+    item.preferredSupplier ?? '',
+    toIsoString(item.createdAt),
+    toIsoString(item.updatedAt),
+  ];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return String(value).trim();
+}
+
+/**
+ * Parse a price cell ("12.5", "$1,299.00", 12.5); NaN when unreadable
+ */
+function parsePrice(value: unknown): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  const text = toText(value).replace(/^\$/, '').replace(/,/g, '').trim();
+  return /^\d*\.?\d+$/.test(text) ? Number(text) : NaN;
+}
+
+function toIsoString(value: Date | string | undefined): string {
+  if (!value) {
+    return '';
+  }
+  return value instanceof Date ? value.toISOString() : String(value);
+}
@@ -0,0 +1,66 @@
+import { Types } from 'mongoose';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ItemStatus } from '@/domain/entities';
+import { CartModel, ItemModel } from '@/lib/db/models';
+
+import { archiveItems } from './catalog.service';
+
+vi.mock('@/lib/db/mongoose', () => ({ default: vi.fn() }));
+vi.mock('@/features/webhooks/lib/webhook.service', () => ({
+  publishWebhookEvent: vi.fn(),
+}));
+
+/**
+ * Catalog Service Tests
+ *
+ * Models are mocked; the tests cover how archiving cascades to carts.
+ */
+
+const ITEM_ID = new Types.ObjectId();
+
+function mockItems(status: ItemStatus) {
+  const item = new ItemModel({
+    _id: ITEM_ID,
+    name: 'Office Chair',
+    category: 'Furniture',
+    description: 'Ergonomic office chair',
+    estimatedPrice: 150,
+    status,
+  }).toObject();
+  const exec = async () => [item];
+  vi.spyOn(ItemModel, 'find').mockReturnValue({
+    select: () => ({ lean: () => ({ exec }) }),
+    lean: () => ({ exec }),
+  } as never);
+}
+
+describe('catalog.service', () => {
+  describe('archiveItems', () => {
+    beforeEach(() => {
+      vi.restoreAllMocks();
+      vi.spyOn(ItemModel, 'updateMany').mockReturnValue({
+        exec: async () => ({ modifiedCount: 1 }),
+      } as never);
+    });
+
+    it('should remove the items from carts and bump the cart version', async () => {
+      mockItems(ItemStatus.Active);
+      const updateCarts = vi.spyOn(CartModel, 'updateMany').mockReturnValue({
+        exec: async () => ({ modifiedCount: 2 }),
+      } as never);
+
+      const result = await archiveItems([ITEM_ID.toString()]);
+
+      expect(result).toMatchObject({ archivedCount: 1, cartsUpdated: 2 });
+      // Carts loaded before the cascade are refused on save (CartConflictError)
+      expect(updateCarts).toHaveBeenCalledWith(
+        { 'items.itemId': { $in: [ITEM_ID] } },
+        {
+          $pull: { items: { itemId: { $in: [ITEM_ID] } } },
+          $inc: { __v: 1 },
+        }
+      );
+    });
+  });
+});
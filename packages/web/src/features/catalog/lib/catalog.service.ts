@@ -2,8 +2,22 @@
  * Catalog Service
  *
  * Business logic for catalog operations (items):
- * - Search items by keyword
- * - Create new catalog items
+ * - Search items by keyword, with facet filters, sorting and facet counts
+ * - Tolerate typos and apply admin-managed synonyms in keywords, with
+ *   "did you mean" suggestions (see search-dictionary.service)
+ * - Semantic search: hybrid of text score and embedding similarity, with
+ *   item embeddings refreshed in the background on create/update (see
+ *   semantic-search.service)
+ * - Create new catalog items, in a category of the category taxonomy
+ *   (see category.service); drill down into category branches
+ * - Link items to suppliers with supplier-specific prices
+ * - Structured attributes checked against the category attribute schema,
+ *   SKUs, unit conversions with an order unit (pack size)
+ * - Variants: items grouped under a parent product (one level deep)
+ * - Archive, restore and delete items (archived items leave every cart)
+ * - Hold user-registered items for buyer review (see item-review.service)
+ * - Record a revision (field-level diff, user, reason) for every update
+ * - Publish item.created / item.updated / item.deleted webhook events
  *
  * This service is isolated from HTTP concerns and can be used by:
  * - API routes
@@ -13,21 +27,93 @@
  * Enforces business rules from PRD (BR-1.x).
  */
 
-import type { Types } from 'mongoose';
+import type { PipelineStage } from 'mongoose';
+import { Types } from 'mongoose';
 
-import type { Item } from '@/domain/entities';
-import { ItemStatus } from '@/domain/entities';
+import type { ItemDocument } from '@/domain/documents';
+import type {
+  Item,
+  ItemAttributeValue,
+  ItemRevision,
+  ItemSupplierOffer,
+  ItemUnitConversion,
+} from '@/domain/entities';
+import {
+  ItemStatus,
+  SupplierStatus,
+  WebhookEventType,
+} from '@/domain/entities';
+import { publishWebhookEvent } from '@/features/webhooks/lib/webhook.service';
+import type { Page, PageParams } from '@/lib/api/pagination';
+import {
+  buildCursorFilter,
+  DEFAULT_PAGE_LIMIT,
+  toPage,
+} from '@/lib/api/pagination';
 import {
   generateSearchCacheKey,
   getCachedSearch,
   cacheSearchResults,
   invalidateSearchCache,
 } from '@/lib/cache/searchCache';
-import { mapItemToEntity } from '@/lib/db/mappers';
-import { ItemModel } from '@/lib/db/models';
+import {
+  mapCategoryToEntity,
+  mapItemRevisionToEntity,
+  mapItemToEntity,
+} from '@/lib/db/mappers';
+import {
+  CartModel,
+  CategoryAttributeSchemaModel,
+  CategoryModel,
+  ItemModel,
+  ItemRevisionModel,
+  DEFAULT_ITEM_REVISION_REASON,
+  MAX_ITEM_REVISION_REASON_LENGTH,
+  MAX_ITEM_SKU_LENGTH,
+  PurchaseRequestModel,
+  SupplierModel,
+  UserModel,
+} from '@/lib/db/models';
 import connectDB from '@/lib/db/mongoose';
 import { logger } from '@/lib/logger/winston.config';
 
+import { getBulkItemIdsError } from './catalog-lifecycle';
+import { getItemFieldErrors } from './catalog-rules';
+import type {
+  CatalogFacetKey,
+  CatalogFacets,
+  CatalogSearchFilters,
+  CatalogSort,
+  RawCatalogFacets,
+} from './catalog-search';
+import {
+  buildCatalogMatch,
+  buildCatalogSort,
+  getCatalogSortKey,
+  MAX_FACET_BUCKETS,
+  normalizeSearchFilters,
+  readCatalogFacets,
+} from './catalog-search';
+import {
+  findCategoryByName,
+  getCategoryBranch,
+  normalizeCategoryKey,
+} from './category-taxonomy';
+import { haveSameAttributes, normalizeItemAttributes } from './item-attributes';
+import { diffItemFields } from './item-history';
+import {
+  getUnitConversionErrors,
+  normalizeUnitConversions,
+} from './item-units';
+import { expandKeyword } from './search-dictionary.service';
+import type { CatalogSearchMode } from './semantic-search';
+import { MAX_SEMANTIC_CANDIDATES, rankHybrid } from './semantic-search';
+import {
+  findSimilarItems,
+  removeItemEmbeddings,
+  startEmbeddingRefresh,
+} from './semantic-search.service';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -56,6 +142,59 @@ export interface SearchItemsParams {
    * Only return items with estimatedPrice <= maxPrice
    */
   maxPrice?: number;
+
+  /** Minimum price filter (optional, inclusive) */
+  minPrice?: number;
+
+  /** Category filter (any of, case-insensitive) */
+  categories?: string[];
+
+  /** Category branch filter (any of: a category and its subcategories) */
+  branch?: string[];
+
+  /** Supplier filter (items offered by any of these suppliers) */
+  supplierIds?: string[];
+
+  /** Unit of measure filter (any of) */
+  units?: string[];
+
+  /**
+   * Status filter (any of)
+   * Takes precedence over includeArchived. Default: active only
+   */
+  statuses?: ItemStatus[];
+
+  /**
+   * Result order
+   * Default: relevance (newest first when there is no keyword)
+   */
+  sort?: CatalogSort;
+
+  /**
+   * Keyword matching
+   * - keyword: MongoDB text search (exact words, stemmed)
+   * - semantic: hybrid of text score and embedding similarity, so
+   *   "something to sit on" finds chairs
+   * Default: keyword. Semantic falls back to keyword when the embedding
+   * provider is unavailable.
+   */
+  mode?: CatalogSearchMode;
+}
+
+export interface FacetedSearchParams extends SearchItemsParams {
+  /** Cursor from the previous page (omit for the first page) */
+  cursor?: string;
+}
+
+export interface FacetedSearchResult extends Page<Item> {
+  /** Total number of matching items */
+  total: number;
+
+  /** Facet counts for the current filters */
+  facets: CatalogFacets;
+
+  /** Corrected keyword when the search keyword was misspelled */
+  didYouMean?: string;
 }
 
 export interface CreateItemInput {
@@ -74,13 +213,78 @@ export interface CreateItemInput {
   /** User ID of the person registering this item (optional) */
   createdByUserId?: string | Types.ObjectId;
 
-  /** Unit of measure (optional, e.g., "each", "box") */
+  /** Base unit of measure (optional, e.g., "each", "kg") */
   unit?: string;
 
+  /** Larger units in base units (optional, e.g., box of 12) */
+  unitConversions?: ItemUnitConversion[];
+
+  /** Unit the item must be ordered in (optional, one of unitConversions) */
+  orderUnit?: string;
+
+  /** Stock keeping unit (optional, unique) */
+  sku?: string;
+
+  /**
+   * Structured attributes (optional), checked against the attribute
+   * schema of the category
+   */
+  attributes?: Record<string, ItemAttributeValue>;
+
+  /**
+   * Parent product (optional) to register the item as its variant
+   * On update, an empty value detaches the variant.
+   */
+  parentItemId?: string | null;
+
   /** Preferred supplier (optional) */
   preferredSupplier?: string;
+
+  /** Supplier offers (optional, at most one per supplier) */
+  suppliers?: ItemSupplierOffer[];
+
+  /** Register the item as pending buyer review (user-registered items) */
+  requiresReview?: boolean;
+}
+
+/**
+ * Who changed an item and why (recorded as an item revision)
+ */
+export interface ItemRevisionInput {
+  /** Acting user */
+  userId: string;
+
+  /**
+   * Why the item is changed (optional, max 500 chars)
+   * Default: DEFAULT_ITEM_REVISION_REASON
+   */
+  reason?: string;
+}
+
+/**
+ * Result of archiving items
+ */
+export interface ArchiveItemsResult {
+  /** Requested items in their archived state */
+  items: Item[];
+
+  /** Items that were active before (already archived items are skipped) */
+  archivedCount: number;
+
+  /** Carts the items were removed from */
+  cartsUpdated: number;
 }
 
+/**
+ * Item fields checked by normalizeItemDetails (domain form)
+ */
+type ItemDetails = Partial<
+  Pick<
+    Item,
+    'sku' | 'attributes' | 'unitConversions' | 'orderUnit' | 'parentItemId'
+  >
+>;
+
 // ============================================================================
 // Error Classes
 // ============================================================================
@@ -92,6 +296,24 @@ export class ValidationError extends Error {
   }
 }
 
+export class ItemNotFoundError extends Error {
+  constructor(itemId: string) {
+    super(`Item not found: ${itemId}`);
+    this.name = 'ItemNotFoundError';
+  }
+}
+
+/**
+ * Item is still referenced by carts or purchase requests and cannot be
+ * deleted (it can be archived instead)
+ */
+export class ItemInUseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ItemInUseError';
+  }
+}
+
 export class DuplicateItemError extends Error {
   constructor(
     message: string,
@@ -113,6 +335,9 @@ export class DuplicateItemError extends Error {
  * - BR-1.1: Keyword search across name, description, and category
  * - BR-1.4: Only active items by default
  *
+ * In semantic mode, items are ranked by a hybrid of text score and
+ * embedding similarity to the keyword (see rankHybrid).
+ *
  * @param params - Search parameters
  * @returns Array of matching items
  */
@@ -121,61 +346,41 @@ export async function searchItems(
 ): Promise<Item[]> {
   await connectDB();
 
-  const { q, limit = 10, includeArchived = false, maxPrice } = params;
+  const { limit = 10, sort = 'relevance' } = params;
+  const filters = toQueryFilters(params);
 
   // Check cache first
   const cacheKey = generateSearchCacheKey(params);
   const cachedResults = getCachedSearch<Item[]>(cacheKey);
   if (cachedResults) {
     logger.debug('Returning cached search results', {
-      query: q,
+      query: filters.q,
       resultCount: cachedResults.length,
     });
     return cachedResults;
   }
 
   try {
-    let items;
-
-    // Build base query
-    const baseQuery: Record<string, unknown> = includeArchived
-      ? {}
-      : { status: ItemStatus.Active };
-
-    // Add price filter if provided
-    if (maxPrice !== undefined && maxPrice > 0) {
-      baseQuery.estimatedPrice = { $lte: maxPrice };
-    }
-
-    if (q && q.trim()) {
-      // Use text search index if keyword is provided
-      items = await ItemModel.find({
-        $text: { $search: q.trim() },
-        ...baseQuery,
-      })
-        .select(
-          'name category description estimatedPrice unit status preferredSupplier createdByUserId createdAt updatedAt'
-        )
-        .sort({ score: { $meta: 'textScore' } })
-        .limit(limit)
-        .lean()
-        .exec();
-    } else {
-      // No keyword: return all items sorted by most recent
-      items = await ItemModel.find(baseQuery)
-        .sort({ createdAt: -1 })
-        .limit(limit)
-        .lean()
-        .exec();
+    if (filters.q) {
+      filters.q = (await expandKeyword(filters.q)).query;
     }
+    filters.branch = await expandCategoryBranches(filters.branch);
 
-    // Convert MongoDB documents to domain Item type
-    const results = items.map(mapItemToEntity);
+    const items = (
+      await ItemModel.aggregate<ItemDocument>([
+        ...(await keywordStages(filters, params.mode)),
+        { $match: buildCatalogMatch(filters) },
+        { $sort: buildCatalogSort(sort, !!filters.q) },
+        { $limit: limit },
+      ]).exec()
+    ).map(mapItemToEntity);
+
+    const results = await withSupplierCounts(items);
 
     // Cache results
     cacheSearchResults(cacheKey, results);
     logger.debug('Search results cached', {
-      query: q,
+      query: filters.q,
       resultCount: results.length,
     });
 
@@ -186,6 +391,127 @@ export async function searchItems(
   }
 }
 
+/**
+ * Search items with facet counts
+ *
+ * Results, total and facet counts come from a single $facet aggregation.
+ * Facets are disjunctive: each is counted with every filter except its
+ * own. Supplier facets only list suppliers that still exist. Results are
+ * cursor-paginated in the sort order; total and facets cover every page.
+ * In semantic mode, they cover the items relevant to the keyword (see
+ * rankSemanticMatches).
+ *
+ * @param params - Search parameters and page cursor
+ * @returns Page of matching items, total and facet counts
+ * @throws {InvalidCursorError} if the cursor is invalid for the sort
+ */
+export async function searchItemsWithFacets(
+  params: FacetedSearchParams = {}
+): Promise<FacetedSearchResult> {
+  await connectDB();
+
+  const { limit = 10, sort = 'relevance', cursor } = params;
+  const filters = toQueryFilters(params);
+  const sortKey = getCatalogSortKey(sort, !!filters.q);
+  const cursorMatch = buildCursorFilter(
+    cursor,
+    sortKey.field,
+    sortKey.direction
+  );
+
+  const cacheKey = generateSearchCacheKey({ ...params, facets: true });
+  const cachedResult = getCachedSearch<FacetedSearchResult>(cacheKey);
+  if (cachedResult) {
+    return cachedResult;
+  }
+
+  try {
+    const expansion = filters.q ? await expandKeyword(filters.q) : undefined;
+    if (expansion) {
+      filters.q = expansion.query;
+    }
+    filters.branch = await expandCategoryBranches(filters.branch);
+
+    const except = (key: CatalogFacetKey) => ({
+      $match: buildCatalogMatch(filters, key),
+    });
+    const bucket = (field: string) => [
+      { $group: { _id: field, count: { $sum: 1 } } },
+      { $sort: { count: -1 as const, _id: 1 as const } },
+      { $limit: MAX_FACET_BUCKETS },
+    ];
+    const all = { $match: buildCatalogMatch(filters) };
+
+    const [raw] = await ItemModel.aggregate<
+      RawCatalogFacets & { items: Array<ItemDocument & { score?: number }> }
+    >([
+      // Facet pipelines start from the keyword match and apply the rest
+      ...(await keywordStages(filters, params.mode)),
+      {
+        $facet: {
+          items: [
+            all,
+            { $match: cursorMatch },
+            { $sort: buildCatalogSort(sort, !!filters.q) },
+            // One extra row tells whether there is a next page
+            { $limit: limit + 1 },
+          ],
+          total: [all, { $count: 'count' }],
+          categories: [except('category'), ...bucket('$category')],
+          units: [except('unit'), ...bucket('$unit')],
+          statuses: [except('status'), ...bucket('$status')],
+          suppliers: [
+            except('supplier'),
+            { $unwind: '$suppliers' },
+            ...bucket('$suppliers.supplierId'),
+          ],
+          price: [
+            except('price'),
+            {
+              $group: {
+                _id: null,
+                min: { $min: '$estimatedPrice' },
+                max: { $max: '$estimatedPrice' },
+              },
+            },
+          ],
+        },
+      },
+    ]).exec();
+
+    const supplierIds = (raw?.suppliers ?? []).map((row) => row._id);
+    const suppliers = supplierIds.length
+      ? await SupplierModel.find({ _id: { $in: supplierIds } })
+          .select('name')
+          .lean()
+          .exec()
+      : [];
+    const supplierNames = new Map(
+      suppliers.map((supplier) => [supplier._id.toString(), supplier.name])
+    );
+
+    const page = toPage(raw?.items ?? [], limit, (document) => ({
+      field: sortKey.field,
+      value: document[sortKey.field] as number | Date,
+      id: document._id.toString(),
+    }));
+    const items = await withSupplierCounts(page.items.map(mapItemToEntity));
+    const result = {
+      ...page,
+      items,
+      ...readCatalogFacets(raw, supplierNames),
+      ...(expansion?.didYouMean && { didYouMean: expansion.didYouMean }),
+    };
+
+    cacheSearchResults(cacheKey, result);
+
+    return result;
+  } catch (error) {
+    logger.error('Error searching items with facets', { error });
+    throw new Error('Failed to search items');
+  }
+}
+
 /**
  * Create a new catalog item
  *
@@ -193,6 +519,8 @@ export async function searchItems(
  * - BR-1.2: Required fields validation
  * - BR-1.3: Duplicate detection (same name + category)
  * - BR-1.5: Price must be positive
+ * - Items that require review start in PendingReview and stay out of
+ *   search and carts until a buyer approves them
  *
  * @param input - Item creation data
  * @returns Created item
@@ -207,27 +535,35 @@ export async function createItem(input: CreateItemInput): Promise<Item> {
 
   // Normalize strings
   const normalizedName = input.name.trim();
-  const normalizedCategory = input.category.trim();
   const normalizedDescription = input.description.trim();
 
   try {
-    // Check for potential duplicates (BR-1.3)
-    // Find items with similar name and category
-    const duplicates = await ItemModel.find({
-      name: { $regex: new RegExp(normalizedName, 'i') },
-      category: { $regex: new RegExp(normalizedCategory, 'i') },
-    })
-      .limit(5)
-      .lean()
-      .exec();
+    // Taxonomy spelling of the category
+    const normalizedCategory = await resolveItemCategory(input.category.trim());
 
-    if (duplicates.length > 0) {
-      // Convert to domain items for error
-      const duplicateItems: Item[] = duplicates.map(mapItemToEntity);
+    const suppliers = input.suppliers
+      ? await normalizeSupplierOffers(input.suppliers)
+      : [];
+
+    const details = await normalizeItemDetails({
+      ...input,
+      category: normalizedCategory,
+    });
 
+    // Check for potential duplicates (BR-1.3); the variants of a product
+    // are not duplicates of each other
+    const duplicates = await findPotentialDuplicates(
+      {
+        name: normalizedName,
+        category: normalizedCategory,
+      },
+      { excludeFamilyOf: details.parentItemId }
+    );
+
+    if (duplicates.length > 0) {
       throw new DuplicateItemError(
         `Potential duplicate items found with similar name and category`,
-        duplicateItems
+        duplicates
       );
     }
 
@@ -238,8 +574,14 @@ export async function createItem(input: CreateItemInput): Promise<Item> {
       description: normalizedDescription,
       estimatedPrice: input.estimatedPrice,
       unit: input.unit,
-      status: ItemStatus.Active,
+      ...details,
+      parentItemId:
+        details.parentItemId && new Types.ObjectId(details.parentItemId),
+      status: input.requiresReview
+        ? ItemStatus.PendingReview
+        : ItemStatus.Active,
       preferredSupplier: input.preferredSupplier,
+      suppliers,
       createdByUserId: input.createdByUserId, // Now accepts any string (demo user "1", UUID, etc.)
     };
 
@@ -257,9 +599,20 @@ export async function createItem(input: CreateItemInput): Promise<Item> {
     });
 
     // Convert to domain type
-    return mapItemToEntity(item);
+    const createdItem = mapItemToEntity(item);
+
+    startEmbeddingRefresh([createdItem]);
+
+    await publishWebhookEvent(WebhookEventType.ItemCreated, {
+      item: createdItem,
+    });
+
+    return createdItem;
   } catch (error) {
-    if (error instanceof DuplicateItemError) {
+    if (
+      error instanceof DuplicateItemError ||
+      error instanceof ValidationError
+    ) {
       throw error;
     }
     console.error('Error creating item:', error);
@@ -293,19 +646,44 @@ export async function getItemById(itemId: string): Promise<Item | null> {
 /**
  * Update an existing catalog item
  *
+ * Every update that changes the item records a revision with the changed
+ * fields (old and new values), the acting user and the reason, so price
+ * differences can be explained later. Updates without a reason are
+ * recorded with DEFAULT_ITEM_REVISION_REASON. Updates that change nothing
+ * return the item as is, without a revision.
+ *
  * Business Rules:
  * - BR-1.5: Price must be positive
  * - Only active items can be updated
+ * - Attributes are checked against the category attribute schema when
+ *   they or the category change
+ * - A product with variants keeps its category; variants share it
  *
  * @param itemId - Item ID to update
  * @param updates - Partial item data to update
+ * @param revision - Acting user and reason for the change
  * @returns Updated item
- * @throws {ValidationError} If item not found or validation fails
+ * @throws {ValidationError} If validation fails or the reason is too long
+ * @throws {ItemNotFoundError} If the item does not exist
  */
 export async function updateItem(
   itemId: string,
-  updates: Partial<CreateItemInput>
+  updates: Partial<CreateItemInput>,
+  revision: ItemRevisionInput
 ): Promise<Item> {
+  if (!Types.ObjectId.isValid(itemId)) {
+    throw new ValidationError('Invalid item ID format');
+  }
+
+  const reason =
+    (typeof revision.reason === 'string' && revision.reason.trim()) ||
+    DEFAULT_ITEM_REVISION_REASON;
+  if (reason.length > MAX_ITEM_REVISION_REASON_LENGTH) {
+    throw new ValidationError(
+      `Reason must not exceed ${MAX_ITEM_REVISION_REASON_LENGTH} characters`
+    );
+  }
+
   await connectDB();
 
   try {
@@ -350,9 +728,6 @@ export async function updateItem(
     if (updates.name !== undefined) {
       updateData.name = updates.name.trim();
     }
-    if (updates.category !== undefined) {
-      updateData.category = updates.category.trim();
-    }
     if (updates.description !== undefined) {
       updateData.description = updates.description.trim();
     }
@@ -365,24 +740,91 @@ export async function updateItem(
     if (updates.preferredSupplier !== undefined) {
       updateData.preferredSupplier = updates.preferredSupplier;
     }
+    if (updates.suppliers !== undefined) {
+      updateData.suppliers = await normalizeSupplierOffers(updates.suppliers);
+    }
+
+    const current = await ItemModel.findById(itemId).lean().exec();
+    if (!current) {
+      throw new ItemNotFoundError(itemId);
+    }
+
+    // Diff in domain form (supplier IDs as strings)
+    const currentItem = mapItemToEntity(current);
+    if (updates.category !== undefined) {
+      updateData.category = await resolveItemCategory(
+        updates.category.trim(),
+        currentItem.category
+      );
+    }
+    Object.assign(
+      updateData,
+      await normalizeItemDetails(
+        { ...updates, category: updateData.category as string | undefined },
+        currentItem
+      )
+    );
+
+    const changes = diffItemFields(currentItem, {
+      ...updateData,
+      ...(updates.suppliers !== undefined && {
+        suppliers: mapItemToEntity({
+          ...current,
+          suppliers: updateData.suppliers as ItemDocument['suppliers'],
+        }).suppliers,
+      }),
+    });
+
+    if (changes.length === 0) {
+      return currentItem;
+    }
 
     // Update item
     const item = await ItemModel.findByIdAndUpdate(
       itemId,
-      { $set: updateData },
+      toItemUpdate(updateData),
       { new: true, runValidators: true }
     )
       .lean()
       .exec();
 
     if (!item) {
-      throw new ValidationError('Item not found');
+      throw new ItemNotFoundError(itemId);
     }
 
+    const user = await UserModel.findById(revision.userId)
+      .select('name')
+      .lean()
+      .exec();
+
+    await ItemRevisionModel.create({
+      itemId: item._id,
+      changes,
+      reason,
+      changedByUserId: new Types.ObjectId(revision.userId),
+      changedByName: user?.name,
+    });
+
+    // Invalidate search cache since search results may have changed
+    invalidateSearchCache();
+
     // Convert to domain type
-    return mapItemToEntity(item);
+    const updatedItem = mapItemToEntity(item);
+
+    startEmbeddingRefresh([updatedItem]);
+
+    await publishWebhookEvent(WebhookEventType.ItemUpdated, {
+      item: updatedItem,
+      changes,
+      reason,
+    });
+
+    return updatedItem;
   } catch (error) {
-    if (error instanceof ValidationError) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof ItemNotFoundError
+    ) {
       throw error;
     }
     console.error('Error updating item:', error);
@@ -390,48 +832,912 @@ export async function updateItem(
   }
 }
 
+/**
+ * List the revisions of an item, newest first
+ *
+ * @param itemId - Item ID
+ * @param page - Cursor and page size
+ * @returns Page of revisions
+ * @throws {ValidationError} If the item ID is invalid
+ * @throws {ItemNotFoundError} If the item does not exist
+ */
+export async function listItemHistory(
+  itemId: string,
+  page: PageParams = {}
+): Promise<Page<ItemRevision>> {
+  if (!Types.ObjectId.isValid(itemId)) {
+    throw new ValidationError('Invalid item ID format');
+  }
+
+  const limit = page.limit ?? DEFAULT_PAGE_LIMIT;
+  const cursorFilter = buildCursorFilter(page.cursor, 'createdAt', -1);
+
+  await connectDB();
+
+  try {
+    const exists = await ItemModel.exists({ _id: itemId }).exec();
+    if (!exists) {
+      throw new ItemNotFoundError(itemId);
+    }
+
+    const rows = await ItemRevisionModel.find({
+      itemId: new Types.ObjectId(itemId),
+      ...cursorFilter,
+    })
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .lean()
+      .exec();
+
+    return toPage(rows.map(mapItemRevisionToEntity), limit, (revision) => ({
+      field: 'createdAt',
+      value: revision.createdAt,
+      id: revision.id,
+    }));
+  } catch (error) {
+    if (error instanceof ItemNotFoundError) {
+      throw error;
+    }
+    logger.error('Error listing item history', { itemId, error });
+    throw new Error('Failed to list item history');
+  }
+}
+
+/**
+ * Archive catalog items
+ *
+ * Archived items drop out of search (unless archived items are included)
+ * and can no longer be added to carts or checked out. They are removed
+ * from every cart right away; purchase requests keep their item snapshots
+ * and the item stays resolvable by ID.
+ *
+ * @param itemIds - Item IDs (at most MAX_BULK_ARCHIVE_ITEMS)
+ * @returns Archived items, how many changed and how many carts were updated
+ * @throws {ValidationError} if the ID list is invalid
+ * @throws {ItemNotFoundError} if an item does not exist
+ */
+export async function archiveItems(
+  itemIds: string[]
+): Promise<ArchiveItemsResult> {
+  const idsError = getBulkItemIdsError(itemIds);
+  if (idsError) {
+    throw new ValidationError(idsError);
+  }
+
+  await connectDB();
+
+  const ids = [...new Set(itemIds)].map((id) => new Types.ObjectId(id));
+
+  try {
+    const existing = await ItemModel.find({ _id: { $in: ids } })
+      .select('_id status')
+      .lean()
+      .exec();
+    const found = new Set(existing.map((item) => item._id.toString()));
+    const missing = ids.find((id) => !found.has(id.toString()));
+    if (missing) {
+      throw new ItemNotFoundError(missing.toString());
+    }
+
+    const toArchive = existing
+      .filter((item) => item.status !== ItemStatus.Inactive)
+      .map((item) => item._id);
+
+    if (toArchive.length > 0) {
+      await ItemModel.updateMany(
+        { _id: { $in: toArchive } },
+        { $set: { status: ItemStatus.Inactive } }
+      ).exec();
+      invalidateSearchCache();
+    }
+
+    // Cascade: take the items out of every cart, including lines left
+    // behind by an earlier archive. The version is bumped so a collaborator
+    // saving a copy loaded before the cascade gets a conflict instead of
+    // writing the archived lines back.
+    const { modifiedCount: cartsUpdated } = await CartModel.updateMany(
+      { 'items.itemId': { $in: ids } },
+      { $pull: { items: { itemId: { $in: ids } } }, $inc: { __v: 1 } }
+    ).exec();
+
+    const items = (
+      await ItemModel.find({ _id: { $in: ids } })
+        .lean()
+        .exec()
+    ).map(mapItemToEntity);
+
+    const archivedIds = new Set(toArchive.map((id) => id.toString()));
+    for (const item of items.filter((entry) => archivedIds.has(entry.id))) {
+      await publishWebhookEvent(WebhookEventType.ItemUpdated, { item });
+    }
+
+    logger.info('Catalog items archived', {
+      requested: ids.length,
+      archived: toArchive.length,
+      cartsUpdated,
+    });
+
+    return { items, archivedCount: toArchive.length, cartsUpdated };
+  } catch (error) {
+    if (error instanceof ItemNotFoundError) {
+      throw error;
+    }
+    logger.error('Error archiving items', { itemIds, error });
+    throw new Error('Failed to archive items');
+  }
+}
+
+/**
+ * Archive a single catalog item (see archiveItems)
+ *
+ * @throws {ItemNotFoundError} if the item does not exist
+ */
+export async function archiveItem(
+  itemId: string
+): Promise<{ item: Item; cartsUpdated: number }> {
+  if (!Types.ObjectId.isValid(itemId)) {
+    throw new ValidationError('Invalid item ID format');
+  }
+
+  const { items, cartsUpdated } = await archiveItems([itemId]);
+
+  return { item: items[0], cartsUpdated };
+}
+
+/**
+ * Restore an archived item to the active catalog
+ * Restoring an active item is a no-op. Carts emptied by the archive are
+ * not refilled.
+ *
+ * @throws {ItemNotFoundError} if the item does not exist
+ * @throws {ValidationError} if the item is pending review
+ */
+export async function unarchiveItem(itemId: string): Promise<Item> {
+  if (!Types.ObjectId.isValid(itemId)) {
+    throw new ValidationError('Invalid item ID format');
+  }
+
+  await connectDB();
+
+  try {
+    const existing = await ItemModel.findById(itemId).lean().exec();
+
+    if (!existing) {
+      throw new ItemNotFoundError(itemId);
+    }
+    if (existing.status === ItemStatus.Active) {
+      return mapItemToEntity(existing);
+    }
+    if (existing.status !== ItemStatus.Inactive) {
+      throw new ValidationError('Only archived items can be restored');
+    }
+
+    const item = await ItemModel.findByIdAndUpdate(
+      itemId,
+      { $set: { status: ItemStatus.Active } },
+      { new: true }
+    )
+      .lean()
+      .exec();
+
+    if (!item) {
+      throw new ItemNotFoundError(itemId);
+    }
+
+    invalidateSearchCache();
+
+    const restoredItem = mapItemToEntity(item);
+
+    await publishWebhookEvent(WebhookEventType.ItemUpdated, {
+      item: restoredItem,
+    });
+
+    logger.info('Catalog item restored', { itemId });
+
+    return restoredItem;
+  } catch (error) {
+    if (
+      error instanceof ItemNotFoundError ||
+      error instanceof ValidationError
+    ) {
+      throw error;
+    }
+    logger.error('Error restoring item', { itemId, error });
+    throw new Error('Failed to restore item');
+  }
+}
+
+/**
+ * Delete a catalog item permanently
+ *
+ * Only items nothing refers to can be deleted: an item in an open cart or
+ * on a purchase request has to be archived instead, so purchase history
+ * keeps resolving its item IDs.
+ *
+ * @throws {ItemNotFoundError} if the item does not exist
+ * @throws {ItemInUseError} if carts or purchase requests reference it
+ */
+export async function deleteItem(itemId: string): Promise<void> {
+  if (!Types.ObjectId.isValid(itemId)) {
+    throw new ValidationError('Invalid item ID format');
+  }
+
+  await connectDB();
+
+  try {
+    const existing = await ItemModel.findById(itemId).lean().exec();
+
+    if (!existing) {
+      throw new ItemNotFoundError(itemId);
+    }
+
+    const id = new Types.ObjectId(itemId);
+
+    const variantCount = await ItemModel.countDocuments({
+      parentItemId: id,
+    }).exec();
+    if (variantCount > 0) {
+      throw new ItemInUseError(
+        `Item ${itemId} has ${variantCount} variant(s). Detach or delete the variants first.`
+      );
+    }
+
+    const cartCount = await CartModel.countDocuments({
+      'items.itemId': id,
+    }).exec();
+    if (cartCount > 0) {
+      throw new ItemInUseError(
+        `Item ${itemId} is in ${cartCount} open cart(s). Archive the item instead of deleting it.`
+      );
+    }
+
+    const requestCount = await PurchaseRequestModel.countDocuments({
+      'items.itemId': id,
+    }).exec();
+    if (requestCount > 0) {
+      throw new ItemInUseError(
+        `Item ${itemId} is referenced by ${requestCount} purchase request(s). Archive the item instead of deleting it.`
+      );
+    }
+
+    await ItemModel.findByIdAndDelete(itemId).exec();
+    await removeItemEmbeddings(itemId);
+
+    invalidateSearchCache();
+
+    await publishWebhookEvent(WebhookEventType.ItemDeleted, {
+      item: mapItemToEntity(existing),
+    });
+
+    logger.info('Catalog item deleted', { itemId });
+  } catch (error) {
+    if (error instanceof ItemNotFoundError || error instanceof ItemInUseError) {
+      throw error;
+    }
+    logger.error('Error deleting item', { itemId, error });
+    throw new Error('Failed to delete item');
+  }
+}
+
+/**
+ * List the variant family of an item: the parent product first, then its
+ * variants by name
+ * Archived and pending family members are left out, except the item
+ * itself. Items without variants form a family of one.
+ *
+ * @throws {ValidationError} If the item ID is invalid
+ * @throws {ItemNotFoundError} If the item does not exist
+ */
+export async function listItemVariants(itemId: string): Promise<Item[]> {
+  if (!Types.ObjectId.isValid(itemId)) {
+    throw new ValidationError('Invalid item ID format');
+  }
+
+  await connectDB();
+
+  try {
+    const item = await ItemModel.findById(itemId)
+      .select('parentItemId')
+      .lean()
+      .exec();
+
+    if (!item) {
+      throw new ItemNotFoundError(itemId);
+    }
+
+    const parentId = item.parentItemId ?? item._id;
+
+    const family = await ItemModel.find({
+      $and: [
+        { $or: [{ _id: parentId }, { parentItemId: parentId }] },
+        {
+          $or: [
+            { status: ItemStatus.Active },
+            { _id: new Types.ObjectId(itemId) },
+          ],
+        },
+      ],
+    })
+      .sort({ name: 1 })
+      .lean()
+      .exec();
+
+    return family
+      .map(mapItemToEntity)
+      .sort((a, b) => Number(!!a.parentItemId) - Number(!!b.parentItemId));
+  } catch (error) {
+    if (error instanceof ItemNotFoundError) {
+      throw error;
+    }
+    logger.error('Error listing item variants', { itemId, error });
+    throw new Error('Failed to list item variants');
+  }
+}
+
+/**
+ * Find catalog items similar to a new item (BR-1.3)
+ * Items with a similar name in a similar category, any status. Used to
+ * refuse duplicates at registration and to propose merge targets in the
+ * review queue.
+ *
+ * @param options.excludeItemId - Item to leave out (the item under review)
+ * @param options.excludeFamilyOf - Product whose variant family to leave out
+ * @param options.statuses - Only consider items with these statuses
+ */
+export async function findPotentialDuplicates(
+  input: { name: string; category: string },
+  options: {
+    excludeItemId?: string;
+    excludeFamilyOf?: string;
+    statuses?: ItemStatus[];
+  } = {}
+): Promise<Item[]> {
+  await connectDB();
+
+  const familyId =
+    options.excludeFamilyOf && new Types.ObjectId(options.excludeFamilyOf);
+
+  const duplicates = await ItemModel.find({
+    name: { $regex: new RegExp(input.name.trim(), 'i') },
+    category: { $regex: new RegExp(input.category.trim(), 'i') },
+    ...(options.excludeItemId && {
+      _id: { $ne: new Types.ObjectId(options.excludeItemId) },
+    }),
+    ...(familyId && {
+      $nor: [{ _id: familyId }, { parentItemId: familyId }],
+    }),
+    ...(options.statuses && { status: { $in: options.statuses } }),
+  })
+    .limit(5)
+    .lean()
+    .exec();
+
+  return duplicates.map(mapItemToEntity);
+}
+
 // ============================================================================
 // Validation Helpers
 // ============================================================================
 
 function validateCreateItemInput(input: CreateItemInput): void {
-  const errors: string[] = [];
+  const errors = getItemFieldErrors(input);
+
+  if (errors.length > 0) {
+    throw new ValidationError(`Validation failed: ${errors.join(', ')}`);
+  }
+}
 
-  // Name validation
-  if (!input.name || input.name.trim().length < 2) {
-    errors.push('Name must be at least 2 characters');
+/**
+ * Resolve an item category against the category taxonomy
+ * Returns the taxonomy spelling ("office-supplies" → "Office Supplies").
+ * Any name is accepted while the taxonomy is empty, and items keep a
+ * category outside the taxonomy until it is migrated (`current`).
+ *
+ * @throws {ValidationError} if the category is not in the taxonomy
+ */
+async function resolveItemCategory(
+  category: string,
+  current?: string
+): Promise<string> {
+  const key = normalizeCategoryKey(category);
+  const match = await CategoryModel.findOne({ key })
+    .select('name')
+    .lean()
+    .exec();
+
+  if (match) {
+    return match.name;
   }
-  if (input.name && input.name.trim().length > 200) {
-    errors.push('Name must not exceed 200 characters');
+  if (
+    (current !== undefined && normalizeCategoryKey(current) === key) ||
+    !(await CategoryModel.exists({}))
+  ) {
+    return category;
   }
 
-  // Category validation
-  if (!input.category || input.category.trim().length < 2) {
-    errors.push('Category must be at least 2 characters');
+  throw new ValidationError(
+    `Unknown category ${category}; choose a category from the taxonomy`
+  );
+}
+
+/**
+ * Validate SKU, attributes, units and variant parent of an item
+ *
+ * On update (`current` given) only fields that change, or depend on a
+ * changed category, are checked, against the updated item; the result
+ * holds the changed fields only (undefined clears a field).
+ */
+async function normalizeItemDetails(
+  input: Partial<CreateItemInput>,
+  current?: Item
+): Promise<ItemDetails> {
+  const details: ItemDetails = {};
+  const category = input.category?.trim() ?? current?.category ?? '';
+  const categoryChanged =
+    !!current && category.toLowerCase() !== current.category.toLowerCase();
+
+  // SKU (unique across the catalog)
+  if (input.sku !== undefined) {
+    if (input.sku !== null && typeof input.sku !== 'string') {
+      throw new ValidationError('SKU must be a string');
+    }
+    const sku = input.sku?.trim() || undefined;
+    if (sku && sku.length > MAX_ITEM_SKU_LENGTH) {
+      throw new ValidationError(
+        `SKU must not exceed ${MAX_ITEM_SKU_LENGTH} characters`
+      );
+    }
+    if (
+      sku &&
+      (await ItemModel.exists({
+        sku,
+        ...(current && { _id: { $ne: new Types.ObjectId(current.id) } }),
+      }))
+    ) {
+      throw new ValidationError(`SKU ${sku} is already used by another item`);
+    }
+    details.sku = sku;
   }
-  if (input.category && input.category.trim().length > 100) {
-    errors.push('Category must not exceed 100 characters');
+
+  // Attributes (category attribute schema)
+  if (input.attributes !== undefined || !current || categoryChanged) {
+    const raw = input.attributes ?? current?.attributes ?? {};
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new ValidationError('Attributes must be an object');
+    }
+
+    const schema = await CategoryAttributeSchemaModel.findOne({
+      category: new RegExp(`^${escapeRegex(category)}$`, 'i'),
+    })
+      .select('attributes')
+      .lean()
+      .exec();
+
+    const { attributes, errors } = normalizeItemAttributes(
+      raw,
+      schema?.attributes
+    );
+    if (errors.length > 0) {
+      throw new ValidationError(`Validation failed: ${errors.join(', ')}`);
+    }
+    details.attributes =
+      Object.keys(attributes).length > 0 ? attributes : undefined;
   }
 
-  // Description validation
-  if (!input.description || input.description.trim().length < 10) {
-    errors.push('Description must be at least 10 characters');
+  // Units (conversions and order unit)
+  if (
+    input.unit !== undefined ||
+    input.unitConversions !== undefined ||
+    input.orderUnit !== undefined
+  ) {
+    if (
+      input.unitConversions !== undefined &&
+      input.unitConversions !== null &&
+      !Array.isArray(input.unitConversions)
+    ) {
+      throw new ValidationError('Unit conversions must be an array');
+    }
+
+    const unitConversions = normalizeUnitConversions(
+      input.unitConversions ?? current?.unitConversions ?? []
+    );
+    const orderUnitInput =
+      input.orderUnit !== undefined ? input.orderUnit : current?.orderUnit;
+    const orderUnit =
+      typeof orderUnitInput === 'string'
+        ? orderUnitInput.trim() || undefined
+        : undefined;
+
+    const errors = getUnitConversionErrors({
+      unit: input.unit ?? current?.unit,
+      unitConversions,
+      orderUnit,
+    });
+    if (errors.length > 0) {
+      throw new ValidationError(`Validation failed: ${errors.join(', ')}`);
+    }
+
+    if (input.unitConversions !== undefined) {
+      details.unitConversions =
+        unitConversions.length > 0 ? unitConversions : undefined;
+    }
+    if (input.orderUnit !== undefined) {
+      // Use the spelling of the conversion unit
+      details.orderUnit =
+        orderUnit &&
+        (unitConversions.find(
+          (conversion) =>
+            conversion.unit.toLowerCase() === orderUnit.toLowerCase()
+        )?.unit ??
+          orderUnit);
+    }
   }
-  if (input.description && input.description.trim().length > 2000) {
-    errors.push('Description must not exceed 2000 characters');
+
+  // Variant parent (one level deep, same category)
+  const parentItemId =
+    input.parentItemId !== undefined
+      ? input.parentItemId || undefined
+      : current?.parentItemId;
+  const parentChanged =
+    input.parentItemId !== undefined && parentItemId !== current?.parentItemId;
+  if (parentChanged) {
+    details.parentItemId = parentItemId;
   }
 
-  // Price validation (BR-1.5)
-  if (typeof input.estimatedPrice !== 'number' || input.estimatedPrice <= 0) {
-    errors.push('Estimated price must be a positive number');
+  if (current && categoryChanged && !parentItemId) {
+    const variantCount = await ItemModel.countDocuments({
+      parentItemId: new Types.ObjectId(current.id),
+    }).exec();
+    if (variantCount > 0) {
+      throw new ValidationError(
+        `Item has ${variantCount} variant(s) in category ${current.category}; variants share the category of their product`
+      );
+    }
   }
-  if (input.estimatedPrice && !Number.isFinite(input.estimatedPrice)) {
-    errors.push('Estimated price must be a valid number');
+
+  if (parentItemId && (!current || parentChanged || categoryChanged)) {
+    await assertVariantParent(parentItemId, category, current?.id);
   }
 
-  if (errors.length > 0) {
-    throw new ValidationError(`Validation failed: ${errors.join(', ')}`);
+  // Variants of a product differ in their attributes
+  const attributes =
+    'attributes' in details ? details.attributes : current?.attributes;
+  if (
+    parentItemId &&
+    attributes &&
+    ('attributes' in details || parentChanged)
+  ) {
+    const siblings = await ItemModel.find({
+      parentItemId: new Types.ObjectId(parentItemId),
+      ...(current && { _id: { $ne: new Types.ObjectId(current.id) } }),
+    })
+      .select('name attributes')
+      .lean()
+      .exec();
+
+    const twin = siblings.find(
+      (sibling) =>
+        sibling.attributes && haveSameAttributes(sibling.attributes, attributes)
+    );
+    if (twin) {
+      throw new ValidationError(
+        `Variant "${twin.name}" already has these attributes`
+      );
+    }
+  }
+
+  return details;
+}
+
+/**
+ * Check that an item can become a variant of a parent product
+ */
+async function assertVariantParent(
+  parentItemId: string,
+  category: string,
+  itemId?: string
+): Promise<void> {
+  if (!Types.ObjectId.isValid(parentItemId)) {
+    throw new ValidationError('Invalid parent item ID');
+  }
+  if (parentItemId === itemId) {
+    throw new ValidationError('An item cannot be a variant of itself');
+  }
+
+  const parent = await ItemModel.findById(parentItemId)
+    .select('name category parentItemId')
+    .lean()
+    .exec();
+
+  if (!parent) {
+    throw new ValidationError('Parent item does not exist');
+  }
+  if (parent.parentItemId) {
+    throw new ValidationError(
+      `${parent.name} is itself a variant; variants are one level deep`
+    );
   }
+  if (parent.category.toLowerCase() !== category.toLowerCase()) {
+    throw new ValidationError(
+      `Variants must be in the category of their product (${parent.category})`
+    );
+  }
+  if (
+    itemId &&
+    (await ItemModel.exists({ parentItemId: new Types.ObjectId(itemId) }))
+  ) {
+    throw new ValidationError(
+      'Item has variants of its own and cannot become a variant'
+    );
+  }
+}
+
+/**
+ * Build the update of an item: undefined values clear their field
+ */
+function toItemUpdate(data: Record<string, unknown>) {
+  const $set: Record<string, unknown> = {};
+  const $unset: Record<string, ''> = {};
+
+  for (const [field, value] of Object.entries(data)) {
+    if (value === undefined) {
+      $unset[field] = '';
+    } else if (field === 'parentItemId') {
+      $set[field] = new Types.ObjectId(value as string);
+    } else {
+      $set[field] = value;
+    }
+  }
+
+  return Object.keys($unset).length > 0 ? { $set, $unset } : { $set };
+}
+
+/**
+ * Validate supplier offers and convert supplier IDs to ObjectIds
+ * Every referenced supplier must exist; one offer per supplier.
+ */
+async function normalizeSupplierOffers(offers: ItemSupplierOffer[]) {
+  if (!Array.isArray(offers)) {
+    throw new ValidationError('Suppliers must be an array');
+  }
+
+  const seen = new Set<string>();
+  for (const offer of offers) {
+    if (!offer || !Types.ObjectId.isValid(offer.supplierId)) {
+      throw new ValidationError('Invalid supplier ID');
+    }
+    if (seen.has(offer.supplierId)) {
+      throw new ValidationError(
+        `Supplier ${offer.supplierId} is listed more than once`
+      );
+    }
+    seen.add(offer.supplierId);
+
+    if (
+      typeof offer.unitPrice !== 'number' ||
+      !Number.isFinite(offer.unitPrice) ||
+      offer.unitPrice <= 0
+    ) {
+      throw new ValidationError(
+        'Supplier unit price must be a positive number'
+      );
+    }
+    if (
+      offer.leadTimeDays !== undefined &&
+      offer.leadTimeDays !== null &&
+      (!Number.isInteger(offer.leadTimeDays) || offer.leadTimeDays < 0)
+    ) {
+      throw new ValidationError(
+        'Lead time must be a non-negative whole number'
+      );
+    }
+  }
+
+  const existing = await SupplierModel.countDocuments({
+    _id: { $in: [...seen] },
+  }).exec();
+  if (existing !== seen.size) {
+    throw new ValidationError('One or more suppliers do not exist');
+  }
+
+  return offers.map((offer) => ({
+    supplierId: new Types.ObjectId(offer.supplierId),
+    unitPrice: offer.unitPrice,
+    supplierSku: offer.supplierSku?.trim() || undefined,
+    leadTimeDays: offer.leadTimeDays ?? undefined,
+  }));
+}
+
+/**
+ * Normalize search params into query filters
+ * Supplier IDs become ObjectIds; includeArchived widens the default
+ * status filter to every status.
+ */
+function toQueryFilters(
+  params: SearchItemsParams
+): CatalogSearchFilters<Types.ObjectId> {
+  const { supplierIds, ...filters } = normalizeSearchFilters({
+    ...params,
+    statuses:
+      params.statuses ??
+      (params.includeArchived ? Object.values(ItemStatus) : undefined),
+  });
+
+  return {
+    ...filters,
+    supplierIds: supplierIds
+      ?.filter((id) => Types.ObjectId.isValid(id))
+      .map((id) => new Types.ObjectId(id)),
+  };
+}
+
+/**
+ * Expand category branch names to every category name in the branches
+ * Names outside the taxonomy match that category only.
+ */
+async function expandCategoryBranches(
+  branch: string[] | undefined
+): Promise<string[] | undefined> {
+  if (!branch) {
+    return undefined;
+  }
+
+  const categories = (await CategoryModel.find({}).lean().exec()).map(
+    mapCategoryToEntity
+  );
+  const names = branch.flatMap((name) => {
+    const root = findCategoryByName(categories, name);
+    return root
+      ? getCategoryBranch(categories, root.id).map((category) => category.name)
+      : [name];
+  });
+
+  return [...new Set(names)];
+}
+
+/**
+ * Match stage for the filters
+ * $text has to be in the first $match stage of a pipeline.
+ */
+function matchStage(filters: CatalogSearchFilters<Types.ObjectId>) {
+  return {
+    $match: {
+      ...(filters.q && { $text: { $search: filters.q } }),
+      ...buildCatalogMatch(filters),
+    },
+  };
+}
+
+/**
+ * Stages exposing the text score as `score` (relevance sort and cursors)
+ */
+function scoreStages(filters: CatalogSearchFilters<Types.ObjectId>) {
+  return filters.q ? [{ $addFields: { score: { $meta: 'textScore' } } }] : [];
+}
+
+/**
+ * Leading stages that select the keyword matches and expose their
+ * relevance as `score`
+ *
+ * In semantic mode, the matches are the items ranked by rankSemanticMatches
+ * and `score` follows that rank. Without a keyword, every item passes.
+ */
+async function keywordStages(
+  filters: CatalogSearchFilters<Types.ObjectId>,
+  mode: CatalogSearchMode | undefined
+): Promise<PipelineStage[]> {
+  if (!filters.q) {
+    return [];
+  }
+
+  const ranked =
+    mode === 'semantic' ? await rankSemanticMatches(filters) : null;
+  if (!ranked) {
+    return [
+      { $match: { $text: { $search: filters.q } } },
+      ...scoreStages(filters),
+    ];
+  }
+
+  return [
+    { $match: { _id: { $in: ranked } } },
+    {
+      $addFields: {
+        score: {
+          $subtract: [ranked.length, { $indexOfArray: [ranked, '$_id'] }],
+        },
+      },
+    },
+  ];
+}
+
+/**
+ * Semantic search: items relevant to the keyword, best first, by a hybrid
+ * of text score and embedding similarity
+ *
+ * Candidates are the items nearest to the keyword across the whole
+ * catalog (up to MAX_SEMANTIC_CANDIDATES, see findSimilarItems) plus every
+ * text match, so exact matches are never lost. The other filters are
+ * applied by the caller.
+ *
+ * @returns Item IDs, or null when the embedding provider is unavailable
+ * (the caller falls back to keyword search)
+ */
+async function rankSemanticMatches(
+  filters: CatalogSearchFilters<Types.ObjectId>
+): Promise<Types.ObjectId[] | null> {
+  const query = filters.q ?? '';
+
+  let similarities: Map<string, number>;
+  try {
+    similarities = await findSimilarItems(query, MAX_SEMANTIC_CANDIDATES);
+  } catch (error) {
+    logger.warn('Semantic search unavailable, using keyword search', {
+      query,
+      error,
+    });
+    return null;
+  }
+
+  const textMatches = await ItemModel.aggregate<{
+    _id: Types.ObjectId;
+    score: number;
+  }>([
+    matchStage(filters),
+    ...scoreStages(filters),
+    { $sort: { score: -1 } },
+    { $limit: MAX_SEMANTIC_CANDIDATES },
+    { $project: { score: 1 } },
+  ]).exec();
+  const textScores = new Map(
+    textMatches.map((match) => [match._id.toString(), match.score])
+  );
+
+  const ids = new Set([...similarities.keys(), ...textScores.keys()]);
+
+  return rankHybrid(
+    [...ids].map((id) => ({
+      id,
+      similarity: similarities.get(id) ?? 0,
+      textScore: textScores.get(id),
+    }))
+  ).map(({ id }) => new Types.ObjectId(id));
+}
+
+/**
+ * Annotate items with the number of active (non-blocked) suppliers
+ * offering them, for "available from N suppliers" labels
+ */
+async function withSupplierCounts(items: Item[]): Promise<Item[]> {
+  const supplierIds = new Set(
+    items.flatMap((item) => item.suppliers.map((offer) => offer.supplierId))
+  );
+
+  if (supplierIds.size === 0) {
+    return items.map((item) => ({ ...item, supplierCount: 0 }));
+  }
+
+  const activeSuppliers = await SupplierModel.find({
+    _id: { $in: [...supplierIds] },
+    status: SupplierStatus.Active,
+  })
+    .select('_id')
+    .lean()
+    .exec();
+  const activeIds = new Set(
+    activeSuppliers.map((supplier) => supplier._id.toString())
+  );
+
+  return items.map((item) => ({
+    ...item,
+    supplierCount: item.suppliers.filter((offer) =>
+      activeIds.has(offer.supplierId)
+    ).length,
+  }));
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
 // ============================================================================
@@ -0,0 +1,257 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Category } from '@/domain/entities';
+
+import {
+  buildCategoryTree,
+  findCategoryByName,
+  flattenCategoryTree,
+  getCategoryBranch,
+  getCategoryParentError,
+  getCategoryPath,
+  MAX_CATEGORY_DEPTH,
+  normalizeCategoryKey,
+  planCategoryMigration,
+  rollupCategorySpend,
+} from './category-taxonomy';
+
+const at = new Date('2025-01-10T10:00:00Z');
+const category = (
+  id: string,
+  name: string,
+  parentCategoryId?: string
+): Category => ({
+  id,
+  name,
+  parentCategoryId,
+  createdAt: at,
+  updatedAt: at,
+});
+
+// Office Supplies → Paper Products → Copy Paper; Office Supplies → Pens
+const categories = [
+  category('pens', 'Pens', 'office'),
+  category('office', 'Office Supplies'),
+  category('paper', 'Paper Products', 'office'),
+  category('copy', 'Copy Paper', 'paper'),
+  category('it', 'Electronics'),
+];
+
+describe('category-taxonomy', () => {
+  describe('normalizeCategoryKey', () => {
+    it('should ignore case, punctuation and spacing', () => {
+      expect(normalizeCategoryKey('Office Supplies')).toBe('office supplies');
+      expect(normalizeCategoryKey(' office-supplies ')).toBe('office supplies');
+      expect(normalizeCategoryKey('Office_Supplies')).toBe('office supplies');
+      expect(normalizeCategoryKey('Filing & Storage')).toBe(
+        'filing and storage'
+      );
+    });
+  });
+
+  describe('findCategoryByName', () => {
+    it('should find categories by normalized name', () => {
+      expect(findCategoryByName(categories, 'COPY-PAPER')?.id).toBe('copy');
+      expect(findCategoryByName(categories, 'Furniture')).toBeUndefined();
+      expect(findCategoryByName(categories, '  ')).toBeUndefined();
+    });
+  });
+
+  describe('buildCategoryTree', () => {
+    it('should nest categories and sort children by name', () => {
+      const tree = buildCategoryTree(categories);
+
+      expect(tree.map((node) => node.name)).toEqual([
+        'Electronics',
+        'Office Supplies',
+      ]);
+      expect(tree[1].children.map((node) => node.name)).toEqual([
+        'Paper Products',
+        'Pens',
+      ]);
+      expect(tree[1].children[0].children[0]).toMatchObject({
+        id: 'copy',
+        depth: 3,
+        children: [],
+      });
+    });
+
+    it('should treat categories with a missing parent as roots', () => {
+      const tree = buildCategoryTree([category('orphan', 'Orphan', 'gone')]);
+
+      expect(tree).toHaveLength(1);
+      expect(tree[0].depth).toBe(1);
+    });
+  });
+
+  describe('flattenCategoryTree', () => {
+    it('should list parents before their children', () => {
+      expect(
+        flattenCategoryTree(buildCategoryTree(categories)).map(
+          (node) => `${node.depth}:${node.name}`
+        )
+      ).toEqual([
+        '1:Electronics',
+        '1:Office Supplies',
+        '2:Paper Products',
+        '3:Copy Paper',
+        '2:Pens',
+      ]);
+    });
+  });
+
+  describe('getCategoryPath', () => {
+    it('should list categories from the root down', () => {
+      expect(
+        getCategoryPath(categories, 'copy').map((entry) => entry.id)
+      ).toEqual(['office', 'paper', 'copy']);
+      expect(getCategoryPath(categories, 'missing')).toEqual([]);
+    });
+
+    it('should stop at cycles', () => {
+      const cyclic = [category('a', 'A', 'b'), category('b', 'B', 'a')];
+
+      expect(getCategoryPath(cyclic, 'a')).toHaveLength(2);
+    });
+  });
+
+  describe('getCategoryBranch', () => {
+    it('should return the category and all its subcategories', () => {
+      expect(
+        getCategoryBranch(categories, 'office')
+          .map((entry) => entry.id)
+          .sort()
+      ).toEqual(['copy', 'office', 'paper', 'pens']);
+      expect(getCategoryBranch(categories, 'it')).toHaveLength(1);
+      expect(getCategoryBranch(categories, 'missing')).toEqual([]);
+    });
+  });
+
+  describe('getCategoryParentError', () => {
+    it('should accept valid parents', () => {
+      expect(getCategoryParentError(categories, undefined, 'copy')).toBeNull();
+      expect(getCategoryParentError(categories, 'pens', 'paper')).toBeNull();
+    });
+
+    it('should reject missing parents and cycles', () => {
+      expect(getCategoryParentError(categories, undefined, 'missing')).toBe(
+        'Parent category not found'
+      );
+      expect(getCategoryParentError(categories, 'office', 'copy')).toMatch(
+        /under itself/
+      );
+      expect(getCategoryParentError(categories, 'paper', 'paper')).toMatch(
+        /under itself/
+      );
+    });
+
+    it('should keep branches within the maximum depth', () => {
+      const chain = Array.from({ length: MAX_CATEGORY_DEPTH }, (_, index) =>
+        category(
+          `c${index}`,
+          `Level ${index}`,
+          index ? `c${index - 1}` : undefined
+        )
+      );
+      const deepest = `c${MAX_CATEGORY_DEPTH - 1}`;
+
+      expect(getCategoryParentError(chain, undefined, deepest)).toMatch(
+        /at most/
+      );
+      // Office Supplies (3 levels) under Level 2 would reach 6 levels
+      expect(
+        getCategoryParentError([...chain, ...categories], 'office', 'c2')
+      ).toMatch(/at most/);
+      expect(
+        getCategoryParentError([...chain, ...categories], 'office', 'c1')
+      ).toBeNull();
+    });
+  });
+
+  describe('rollupCategorySpend', () => {
+    it('should sum spend up the tree, matching names by key', () => {
+      const rollup = rollupCategorySpend(categories, [
+        { category: 'Copy Paper', amount: 100 },
+        { category: 'copy-paper', amount: 50.5 },
+        { category: 'Office Supplies', amount: 20 },
+        { category: 'Pens', amount: 9.99 },
+        { category: 'Electronics', amount: 500 },
+        { category: 'Snacks', amount: 12 },
+        { category: 'snacks', amount: 3 },
+      ]);
+
+      expect(rollup.total).toBe(695.49);
+      expect(rollup.branches.map((branch) => branch.name)).toEqual([
+        'Electronics',
+        'Office Supplies',
+      ]);
+
+      const office = rollup.branches[1];
+      expect(office).toMatchObject({ amount: 20, total: 180.49 });
+      expect(office.children.map((child) => [child.name, child.total])).toEqual(
+        [
+          ['Paper Products', 150.5],
+          ['Pens', 9.99],
+        ]
+      );
+      expect(office.children[0].children[0]).toMatchObject({
+        categoryId: 'copy',
+        amount: 150.5,
+        total: 150.5,
+      });
+      expect(rollup.uncategorized).toEqual([
+        { category: 'Snacks', amount: 15 },
+      ]);
+    });
+
+    it('should list categories without spend with zero totals', () => {
+      const rollup = rollupCategorySpend(categories, []);
+
+      expect(rollup.total).toBe(0);
+      expect(rollup.branches).toHaveLength(2);
+      expect(rollup.branches[0].total).toBe(0);
+    });
+  });
+
+  describe('planCategoryMigration', () => {
+    it('should group spelling variants under the most used spelling', () => {
+      expect(
+        planCategoryMigration(
+          [],
+          [
+            { category: 'office supplies', count: 3 },
+            { category: 'Office Supplies', count: 10 },
+            { category: 'Office-Supplies', count: 1 },
+            { category: 'Furniture', count: 4 },
+          ]
+        )
+      ).toEqual([
+        {
+          name: 'Office Supplies',
+          categoryId: undefined,
+          variants: ['Office-Supplies', 'office supplies'],
+          itemCount: 14,
+        },
+        {
+          name: 'Furniture',
+          categoryId: undefined,
+          variants: [],
+          itemCount: 4,
+        },
+      ]);
+    });
+
+    it('should prefer the name of an existing category', () => {
+      const [group] = planCategoryMigration(categories, [
+        { category: 'copy paper', count: 5 },
+      ]);
+
+      expect(group).toEqual({
+        name: 'Copy Paper',
+        categoryId: 'copy',
+        variants: ['copy paper'],
+        itemCount: 5,
+      });
+    });
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * Catalog Category Taxonomy
+ *
+ * Pure rules for the category tree:
+ * - Category names are compared by a normalized key, so "Office-Supplies"
+ *   and "office supplies" are the same category
+ * - Tree building, paths and branches (a category and its subcategories)
+ * - Parent validation: no cycles, bounded depth
+ * - Spend rollup: spend per category name summed up the tree
+ * - Migration plan: free-text item categories grouped into categories
+ *
+ * Kept free of database access so the catalog page, the admin editor,
+ * the services and the migration script share the same rules.
+ */
+
+import type { Category, CategoryId } from '@/domain/entities';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Maximum depth of the tree (root categories have depth 1) */
+export const MAX_CATEGORY_DEPTH = 5;
+
+/** Classification codes: letters, digits, dots and dashes (e.g., UNSPSC) */
+export const CATEGORY_CODE_PATTERN = /^[A-Z0-9][A-Z0-9.-]*$/;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Category with its subcategories
+ */
+export interface CategoryTreeNode extends Category {
+  /** Depth in the tree (root categories have depth 1) */
+  depth: number;
+
+  children: CategoryTreeNode[];
+}
+
+/**
+ * Spend of one category name (e.g., from purchase request lines)
+ */
+export interface CategorySpendRow {
+  category: string;
+  amount: number;
+}
+
+/**
+ * Spend of a category and its branch
+ */
+export interface CategorySpendNode {
+  categoryId: CategoryId;
+  name: string;
+  code?: string;
+
+  /** Spend on items of the category itself */
+  amount: number;
+
+  /** Spend on the category and all its subcategories */
+  total: number;
+
+  /** Subcategories, highest total first */
+  children: CategorySpendNode[];
+}
+
+/**
+ * Spend rolled up the category tree
+ */
+export interface CategorySpendRollup {
+  /** Root categories, highest total first */
+  branches: CategorySpendNode[];
+
+  /** Spend on category names that are not in the taxonomy */
+  uncategorized: CategorySpendRow[];
+
+  /** Spend on every category */
+  total: number;
+}
+
+/**
+ * Item category values that map to one taxonomy category
+ */
+export interface CategoryMigrationGroup {
+  /** Category name the items get */
+  name: string;
+
+  /** Existing taxonomy category, if any (otherwise one is created) */
+  categoryId?: CategoryId;
+
+  /** Item category values that differ from the name (renamed) */
+  variants: string[];
+
+  /** Items in the group */
+  itemCount: number;
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Normalize a category name for comparison
+ * Lowercase, "&" as "and", punctuation as spaces, single spaces.
+ */
+export function normalizeCategoryKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Find the category with a name (normalized comparison)
+ */
+export function findCategoryByName(
+  categories: Category[],
+  name: string
+): Category | undefined {
+  const key = normalizeCategoryKey(name);
+  return key
+    ? categories.find((category) => normalizeCategoryKey(category.name) === key)
+    : undefined;
+}
+
+/**
+ * Arrange categories as a tree, children sorted by name
+ * Categories whose parent is missing are treated as roots.
+ */
+export function buildCategoryTree(categories: Category[]): CategoryTreeNode[] {
+  const ids = new Set(categories.map((category) => category.id));
+  const childrenOf = new Map<string | undefined, Category[]>();
+  for (const category of categories) {
+    const parentId =
+      category.parentCategoryId && ids.has(category.parentCategoryId)
+        ? category.parentCategoryId
+        : undefined;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) ?? []), category]);
+  }
+
+  const visited = new Set<string>();
+  const build = (parentId: string | undefined, depth: number) =>
+    [...(childrenOf.get(parentId) ?? [])]
+      .filter((category) => !visited.has(category.id))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((category): CategoryTreeNode => {
+        visited.add(category.id);
+        return {
+          ...category,
+          depth,
+          children: build(category.id, depth + 1),
+        };
+      });
+
+  return build(undefined, 1);
+}
+
+/**
+ * Categories of a tree in display order (each followed by its children)
+ */
+export function flattenCategoryTree(
+  tree: CategoryTreeNode[]
+): CategoryTreeNode[] {
+  return tree.flatMap((node) => [node, ...flattenCategoryTree(node.children)]);
+}
+
+/**
+ * Categories from the root down to a category (inclusive)
+ *
+ * @returns Path, empty when the category does not exist
+ */
+export function getCategoryPath(
+  categories: Category[],
+  categoryId: CategoryId
+): Category[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const path: Category[] = [];
+
+  let current = byId.get(categoryId);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentCategoryId
+      ? byId.get(current.parentCategoryId)
+      : undefined;
+  }
+
+  return path;
+}
+
+/**
+ * A category and all its subcategories
+ *
+ * @returns Branch (the category first), empty when it does not exist
+ */
+export function getCategoryBranch(
+  categories: Category[],
+  categoryId: CategoryId
+): Category[] {
+  const root = categories.find((category) => category.id === categoryId);
+  if (!root) {
+    return [];
+  }
+
+  const branch = [root];
+  for (let i = 0; i < branch.length; i++) {
+    branch.push(
+      ...categories.filter(
+        (category) =>
+          category.parentCategoryId === branch[i].id &&
+          !branch.includes(category)
+      )
+    );
+  }
+
+  return branch;
+}
+
+/**
+ * Check a new parent for a category
+ * - The parent exists and is not the category or one of its subcategories
+ * - The category's branch stays within MAX_CATEGORY_DEPTH
+ *
+ * @param categoryId - Category being moved (undefined for a new category)
+ * @returns Error message, or null when the parent is valid
+ */
+export function getCategoryParentError(
+  categories: Category[],
+  categoryId: CategoryId | undefined,
+  parentCategoryId: CategoryId
+): string | null {
+  const parentPath = getCategoryPath(categories, parentCategoryId);
+  if (parentPath.length === 0) {
+    return 'Parent category not found';
+  }
+
+  const branch = categoryId ? getCategoryBranch(categories, categoryId) : [];
+  if (branch.some((category) => category.id === parentCategoryId)) {
+    return 'A category cannot be moved under itself or one of its subcategories';
+  }
+
+  // Levels the moved branch occupies (1 for a category without children)
+  const branchDepth = categoryId
+    ? getCategoryPath(categories, categoryId).length
+    : 0;
+  const branchHeight = branch.reduce(
+    (height, category) =>
+      Math.max(
+        height,
+        getCategoryPath(categories, category.id).length - branchDepth + 1
+      ),
+    1
+  );
+  if (parentPath.length + branchHeight > MAX_CATEGORY_DEPTH) {
+    return `Categories can be nested at most ${MAX_CATEGORY_DEPTH} levels deep`;
+  }
+
+  return null;
+}
+
+/**
+ * Roll spend per category name up the category tree
+ * Names are matched by normalized key, so historic spelling variants
+ * count towards their category. Names outside the taxonomy are listed
+ * as uncategorized.
+ */
+export function rollupCategorySpend(
+  categories: Category[],
+  rows: CategorySpendRow[]
+): CategorySpendRollup {
+  const idByKey = new Map(
+    categories.map((category) => [
+      normalizeCategoryKey(category.name),
+      category.id,
+    ])
+  );
+  const amounts = new Map<string, number>();
+  const uncategorized = new Map<string, CategorySpendRow>();
+
+  for (const row of rows) {
+    const key = normalizeCategoryKey(row.category);
+    const categoryId = idByKey.get(key);
+    if (categoryId) {
+      amounts.set(categoryId, (amounts.get(categoryId) ?? 0) + row.amount);
+    } else {
+      const entry = uncategorized.get(key) ?? {
+        category: row.category,
+        amount: 0,
+      };
+      entry.amount += row.amount;
+      uncategorized.set(key, entry);
+    }
+  }
+
+  const toSpendNode = (node: CategoryTreeNode): CategorySpendNode => {
+    const children = node.children
+      .map(toSpendNode)
+      .sort((a, b) => b.total - a.total);
+    const amount = roundCurrency(amounts.get(node.id) ?? 0);
+
+    return {
+      categoryId: node.id,
+      name: node.name,
+      code: node.code,
+      amount,
+      total: roundCurrency(
+        children.reduce((sum, child) => sum + child.total, amount)
+      ),
+      children,
+    };
+  };
+
+  const branches = buildCategoryTree(categories)
+    .map(toSpendNode)
+    .sort((a, b) => b.total - a.total);
+  const others = [...uncategorized.values()]
+    .map((row) => ({ ...row, amount: roundCurrency(row.amount) }))
+    .sort((a, b) => b.amount - a.amount);
+
+  return {
+    branches,
+    uncategorized: others,
+    total: roundCurrency(
+      branches.reduce((sum, branch) => sum + branch.total, 0) +
+        others.reduce((sum, row) => sum + row.amount, 0)
+    ),
+  };
+}
+
+/**
+ * Group free-text item categories into taxonomy categories
+ * Values with the same normalized key form one group, named after the
+ * existing taxonomy category or, without one, the most used spelling.
+ *
+ * @param usage - Distinct item category values with their item counts
+ * @returns Groups, most items first
+ */
+export function planCategoryMigration(
+  categories: Category[],
+  usage: Array<{ category: string; count: number }>
+): CategoryMigrationGroup[] {
+  const groups = new Map<string, Array<{ category: string; count: number }>>();
+  for (const entry of usage) {
+    const key = normalizeCategoryKey(entry.category);
+    if (key) {
+      groups.set(key, [...(groups.get(key) ?? []), entry]);
+    }
+  }
+
+  return [...groups.values()]
+    .map((entries): CategoryMigrationGroup => {
+      const existing = findCategoryByName(categories, entries[0].category);
+      const name =
+        existing?.name ??
+        [...entries].sort(
+          (a, b) => b.count - a.count || a.category.localeCompare(b.category)
+        )[0].category;
+
+      return {
+        name,
+        categoryId: existing?.id,
+        variants: entries
+          .map((entry) => entry.category)
+          .filter((category) => category !== name)
+          .sort(),
+        itemCount: entries.reduce((sum, entry) => sum + entry.count, 0),
+      };
+    })
+    .sort((a, b) => b.itemCount - a.itemCount || a.name.localeCompare(b.name));
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
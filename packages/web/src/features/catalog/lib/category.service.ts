@@ -0,0 +1,491 @@
+/**
+ * Category Service
+ *
+ * Admin management of the catalog category taxonomy:
+ * - List, create, update and delete categories
+ * - Names are unique across the tree (normalized, see category-taxonomy);
+ *   codes are unique when set
+ * - Moving a category checks for cycles and the maximum depth
+ * - Renaming a category renames it on its items and attribute schema
+ *
+ * Also rolls purchase request spend up the tree (spend analytics).
+ * Purchase requests keep the category name they were submitted with.
+ */
+
+import { Types } from 'mongoose';
+
+import type { Category } from '@/domain/entities';
+import { COMMITTED_PURCHASE_STATUSES } from '@/features/budgets/lib/budget-calculations';
+import { invalidateSearchCache } from '@/lib/cache/searchCache';
+import { mapCategoryToEntity } from '@/lib/db/mappers';
+import {
+  CategoryAttributeSchemaModel,
+  CategoryModel,
+  ItemModel,
+  MAX_CATEGORY_CODE_LENGTH,
+  MAX_CATEGORY_NAME_LENGTH,
+  PurchaseRequestModel,
+} from '@/lib/db/models';
+import connectDB from '@/lib/db/mongoose';
+import { logger } from '@/lib/logger/winston.config';
+
+import { ValidationError } from './catalog.service';
+import type { CategorySpendRollup } from './category-taxonomy';
+import {
+  CATEGORY_CODE_PATTERN,
+  getCategoryParentError,
+  normalizeCategoryKey,
+  rollupCategorySpend,
+} from './category-taxonomy';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Category input
+ * null clears the code, description or parent (making it a root category).
+ */
+export interface CategoryInput {
+  name: string;
+  code?: string | null;
+  description?: string | null;
+  parentCategoryId?: string | null;
+}
+
+/**
+ * Period for spend analytics (inclusive; open-ended when omitted)
+ */
+export interface CategorySpendFilters {
+  startDate?: Date;
+  endDate?: Date;
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export class CategoryNotFoundError extends Error {
+  constructor(categoryId: string) {
+    super(`Category not found: ${categoryId}`);
+    this.name = 'CategoryNotFoundError';
+  }
+}
+
+export class CategoryInUseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CategoryInUseError';
+  }
+}
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+/**
+ * List every category of the taxonomy, by name
+ */
+export async function listCategories(): Promise<Category[]> {
+  await connectDB();
+
+  try {
+    const categories = await CategoryModel.find({})
+      .sort({ name: 1 })
+      .lean()
+      .exec();
+
+    return categories.map(mapCategoryToEntity);
+  } catch (error) {
+    logger.error('Error listing categories', { error });
+    throw new Error('Failed to list categories');
+  }
+}
+
+/**
+ * Create a category
+ *
+ * @throws {ValidationError} if the input is invalid, the name or code is
+ * taken, or the parent is invalid
+ */
+export async function createCategory(input: CategoryInput): Promise<Category> {
+  const fields = validateCategoryInput(input, true);
+
+  await connectDB();
+
+  try {
+    const categories = await listCategoryEntities();
+    await assertCategoryAvailable(fields);
+    if (fields.parentCategoryId) {
+      assertValidParent(categories, undefined, fields.parentCategoryId);
+    }
+
+    const category = await CategoryModel.create({
+      name: fields.name,
+      key: fields.key,
+      code: fields.code ?? undefined,
+      description: fields.description ?? undefined,
+      parentCategoryId: fields.parentCategoryId
+        ? new Types.ObjectId(fields.parentCategoryId)
+        : undefined,
+    });
+
+    invalidateSearchCache();
+
+    logger.info('Category created', {
+      categoryId: category._id.toString(),
+      name: category.name,
+      parentCategoryId: fields.parentCategoryId,
+    });
+
+    return mapCategoryToEntity(category.toObject());
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    logger.error('Error creating category', { name: fields.name, error });
+    throw new Error('Failed to create category');
+  }
+}
+
+/**
+ * Update a category (rename, recode, describe or move)
+ * A rename is applied to the items and attribute schema of the category.
+ *
+ * @throws {CategoryNotFoundError} if the category does not exist
+ * @throws {ValidationError} if the input is invalid, the name or code is
+ * taken, or the new parent is invalid
+ */
+export async function updateCategory(
+  categoryId: string,
+  input: Partial<CategoryInput>
+): Promise<Category> {
+  if (!Types.ObjectId.isValid(categoryId)) {
+    throw new ValidationError('Invalid category ID format');
+  }
+  const fields = validateCategoryInput(input, false);
+
+  await connectDB();
+
+  try {
+    const categories = await listCategoryEntities();
+    const current = categories.find((category) => category.id === categoryId);
+    if (!current) {
+      throw new CategoryNotFoundError(categoryId);
+    }
+
+    await assertCategoryAvailable(fields, categoryId);
+    if (fields.parentCategoryId) {
+      assertValidParent(categories, categoryId, fields.parentCategoryId);
+    }
+
+    const $set: Record<string, unknown> = {};
+    const $unset: Record<string, 1> = {};
+    for (const [field, value] of Object.entries(fields)) {
+      if (value === null) {
+        $unset[field] = 1;
+      } else if (value !== undefined) {
+        $set[field] =
+          field === 'parentCategoryId'
+            ? new Types.ObjectId(value as string)
+            : value;
+      }
+    }
+
+    const category = await CategoryModel.findByIdAndUpdate(
+      categoryId,
+      {
+        ...(Object.keys($set).length > 0 && { $set }),
+        ...(Object.keys($unset).length > 0 && { $unset }),
+      },
+      { new: true, runValidators: true }
+    )
+      .lean()
+      .exec();
+
+    if (!category) {
+      throw new CategoryNotFoundError(categoryId);
+    }
+
+    // Rename the category on its items and attribute schema
+    if (fields.name && fields.name !== current.name) {
+      const match = { category: exactName(current.name) };
+      const [items] = await Promise.all([
+        ItemModel.updateMany(match, { $set: { category: fields.name } }).exec(),
+        CategoryAttributeSchemaModel.updateMany(match, {
+          $set: { category: fields.name },
+        }).exec(),
+      ]);
+
+      logger.info('Category renamed on items', {
+        categoryId,
+        from: current.name,
+        to: fields.name,
+        items: items.modifiedCount,
+      });
+    }
+
+    invalidateSearchCache();
+
+    logger.info('Category updated', {
+      categoryId,
+      fields: Object.keys(input),
+    });
+
+    return mapCategoryToEntity(category);
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof CategoryNotFoundError
+    ) {
+      throw error;
+    }
+    logger.error('Error updating category', { categoryId, error });
+    throw new Error('Failed to update category');
+  }
+}
+
+/**
+ * Delete a category
+ * Only categories without subcategories and items (of any status) can be
+ * deleted; move or recategorize them first.
+ *
+ * @throws {CategoryNotFoundError} if the category does not exist
+ * @throws {CategoryInUseError} if the category has subcategories or items
+ */
+export async function deleteCategory(categoryId: string): Promise<void> {
+  if (!Types.ObjectId.isValid(categoryId)) {
+    throw new ValidationError('Invalid category ID format');
+  }
+
+  await connectDB();
+
+  try {
+    const category = await CategoryModel.findById(categoryId).lean().exec();
+    if (!category) {
+      throw new CategoryNotFoundError(categoryId);
+    }
+
+    const [subcategoryCount, itemCount] = await Promise.all([
+      CategoryModel.countDocuments({ parentCategoryId: category._id }).exec(),
+      ItemModel.countDocuments({
+        category: exactName(category.name),
+      }).exec(),
+    ]);
+    if (subcategoryCount > 0) {
+      throw new CategoryInUseError(
+        `Category ${category.name} has ${subcategoryCount} subcategory(ies); move or delete them first`
+      );
+    }
+    if (itemCount > 0) {
+      throw new CategoryInUseError(
+        `Category ${category.name} has ${itemCount} item(s); move them to another category first`
+      );
+    }
+
+    await CategoryModel.deleteOne({ _id: category._id }).exec();
+
+    invalidateSearchCache();
+
+    logger.info('Category deleted', { categoryId, name: category.name });
+  } catch (error) {
+    if (
+      error instanceof CategoryNotFoundError ||
+      error instanceof CategoryInUseError
+    ) {
+      throw error;
+    }
+    logger.error('Error deleting category', { categoryId, error });
+    throw new Error('Failed to delete category');
+  }
+}
+
+/**
+ * Committed purchase request spend rolled up the category tree
+ * Counts the same purchase requests as budgets (submitted, pending,
+ * returned and approved), by line subtotal and submission date.
+ */
+export async function getCategorySpend(
+  filters: CategorySpendFilters = {}
+): Promise<CategorySpendRollup> {
+  const { startDate, endDate } = filters;
+  if (startDate && endDate && startDate > endDate) {
+    throw new ValidationError('startDate must not be after endDate');
+  }
+
+  await connectDB();
+
+  try {
+    const [categories, rows] = await Promise.all([
+      listCategoryEntities(),
+      PurchaseRequestModel.aggregate<{ _id: string; amount: number }>([
+        {
+          $match: {
+            status: { $in: COMMITTED_PURCHASE_STATUSES },
+            ...((startDate || endDate) && {
+              createdAt: {
+                ...(startDate && { $gte: startDate }),
+                ...(endDate && { $lte: endDate }),
+              },
+            }),
+          },
+        },
+        { $unwind: '$items' },
+        {
+          $group: {
+            _id: '$items.category',
+            amount: { $sum: '$items.subtotal' },
+          },
+        },
+      ]).exec(),
+    ]);
+
+    return rollupCategorySpend(
+      categories,
+      rows.map((row) => ({ category: row._id, amount: row.amount }))
+    );
+  } catch (error) {
+    logger.error('Error computing category spend', { error });
+    throw new Error('Failed to compute category spend');
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Normalize and validate category input
+ * On update (`isCreate` false) only given fields are checked and returned.
+ */
+function validateCategoryInput(
+  input: Partial<CategoryInput>,
+  isCreate: boolean
+) {
+  if (!input || typeof input !== 'object') {
+    throw new ValidationError('Category input must be an object');
+  }
+
+  const optionalText = (value: unknown, field: string) => {
+    if (value === undefined || value === null) {
+      return value;
+    }
+    if (typeof value !== 'string') {
+      throw new ValidationError(`${field} must be a string`);
+    }
+    return value.trim() || null;
+  };
+
+  const fields: {
+    name?: string;
+    key?: string;
+    code?: string | null;
+    description?: string | null;
+    parentCategoryId?: string | null;
+  } = {};
+
+  if (isCreate || input.name !== undefined) {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (name.length < 2 || name.length > MAX_CATEGORY_NAME_LENGTH) {
+      throw new ValidationError(
+        `Category name must be between 2 and ${MAX_CATEGORY_NAME_LENGTH} characters`
+      );
+    }
+    fields.name = name;
+    fields.key = normalizeCategoryKey(name);
+    if (!fields.key) {
+      throw new ValidationError('Category name must contain letters or digits');
+    }
+  }
+
+  const code = optionalText(input.code, 'Code')?.toUpperCase();
+  if (code && code.length > MAX_CATEGORY_CODE_LENGTH) {
+    throw new ValidationError(
+      `Category code must not exceed ${MAX_CATEGORY_CODE_LENGTH} characters`
+    );
+  }
+  if (code && !CATEGORY_CODE_PATTERN.test(code)) {
+    throw new ValidationError(
+      'Category code may only contain letters, digits, dots and dashes'
+    );
+  }
+  fields.code = code;
+
+  const description = optionalText(input.description, 'Description');
+  if (description && description.length > 500) {
+    throw new ValidationError('Description must not exceed 500 characters');
+  }
+  fields.description = description;
+
+  const parentCategoryId = optionalText(
+    input.parentCategoryId,
+    'Parent category ID'
+  );
+  if (parentCategoryId && !Types.ObjectId.isValid(parentCategoryId)) {
+    throw new ValidationError('Invalid parent category ID format');
+  }
+  fields.parentCategoryId = parentCategoryId;
+
+  return fields;
+}
+
+/**
+ * Refuse names and codes used by another category
+ */
+async function assertCategoryAvailable(
+  fields: { name?: string; key?: string; code?: string | null },
+  excludeCategoryId?: string
+): Promise<void> {
+  const exclude = excludeCategoryId && {
+    _id: { $ne: new Types.ObjectId(excludeCategoryId) },
+  };
+
+  if (
+    fields.key &&
+    (await CategoryModel.exists({ key: fields.key, ...exclude }))
+  ) {
+    throw new ValidationError(`Category ${fields.name} already exists`);
+  }
+  if (
+    fields.code &&
+    (await CategoryModel.exists({ code: fields.code, ...exclude }))
+  ) {
+    throw new ValidationError(
+      `Category code ${fields.code} is already used by another category`
+    );
+  }
+}
+
+/**
+ * Refuse parents that would create a cycle or exceed the maximum depth
+ */
+function assertValidParent(
+  categories: Category[],
+  categoryId: string | undefined,
+  parentCategoryId: string
+): void {
+  const error = getCategoryParentError(
+    categories,
+    categoryId,
+    parentCategoryId
+  );
+  if (error) {
+    throw new ValidationError(error);
+  }
+}
+
+async function listCategoryEntities(): Promise<Category[]> {
+  const categories = await CategoryModel.find({}).lean().exec();
+  return categories.map(mapCategoryToEntity);
+}
+
+/**
+ * Case-insensitive exact category name match
+ */
+function exactName(name: string): RegExp {
+  return new RegExp(`^${escapeRegex(name)}$`, 'i');
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
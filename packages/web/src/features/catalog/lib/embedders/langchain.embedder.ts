@@ -0,0 +1,60 @@
+/**
+ * Hosted Embedding Adapter
+ *
+ * Embeds text with a hosted model through LangChain:
+ * - openai: text-embedding-3-small (OPENAI_API_KEY)
+ * - gemini: text-embedding-004 (GOOGLE_API_KEY)
+ */
+
+import { GoogleGenerativeAIEmbeddings } from '@langchain/google-genai';
+import { OpenAIEmbeddings } from '@langchain/openai';
+
+import type { EmbeddingProvider } from '../embedding-provider';
+import { EmbeddingProviderError } from '../embedding-provider';
+
+export type HostedEmbeddingProvider = 'openai' | 'gemini';
+
+export interface HostedEmbedderOptions {
+  provider: HostedEmbeddingProvider;
+  apiKey: string;
+
+  /** Model name (defaults per provider) */
+  model?: string;
+}
+
+const DEFAULT_MODELS: Record<HostedEmbeddingProvider, string> = {
+  openai: 'text-embedding-3-small',
+  gemini: 'text-embedding-004',
+};
+
+/**
+ * Create a hosted embedding provider
+ */
+export function createHostedEmbedder(
+  options: HostedEmbedderOptions
+): EmbeddingProvider {
+  const model = options.model || DEFAULT_MODELS[options.provider];
+
+  const embeddings =
+    options.provider === 'gemini'
+      ? new GoogleGenerativeAIEmbeddings({ apiKey: options.apiKey, model })
+      : new OpenAIEmbeddings({ apiKey: options.apiKey, model });
+
+  return {
+    key: `${options.provider}:${model}`,
+    async embed(texts) {
+      if (texts.length === 0) {
+        return [];
+      }
+      try {
+        return await embeddings.embedDocuments(texts);
+      } catch (error) {
+        throw new EmbeddingProviderError(
+          `${options.provider} embedding request failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    },
+  };
+}
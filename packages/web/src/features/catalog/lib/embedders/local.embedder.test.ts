@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+
+import { cosineSimilarity } from '../semantic-search';
+
+import { createLocalEmbedder } from './local.embedder';
+
+describe('local.embedder', () => {
+  const embedder = createLocalEmbedder();
+
+  it('should return deterministic unit vectors', async () => {
+    const [first, second] = await embedder.embed([
+      'Ergonomic office chair',
+      'Ergonomic office chair',
+    ]);
+
+    expect(first).toHaveLength(256);
+    expect(first).toEqual(second);
+    expect(Math.hypot(...first)).toBeCloseTo(1);
+  });
+
+  it('should score inflections above unrelated words', async () => {
+    const [chair, chairs, stapler] = await embedder.embed([
+      'chair',
+      'office chairs',
+      'stapler',
+    ]);
+
+    expect(cosineSimilarity(chair, chairs)).toBeGreaterThan(
+      cosineSimilarity(chair, stapler)
+    );
+  });
+
+  it('should return a zero vector for stop words only', async () => {
+    const [vector] = await embedder.embed(['to the']);
+
+    expect(vector.every((value) => value === 0)).toBe(true);
+  });
+
+  it('should include the dimensions in the provider key', () => {
+    expect(createLocalEmbedder({ dimensions: 64 }).key).toBe('local:hash-64');
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Local Embedding Adapter
+ *
+ * Deterministic, offline embedder for tests and development: no API key,
+ * no network, the same text always gives the same vector.
+ *
+ * Words and their character trigrams are hashed into a fixed number of
+ * dimensions (feature hashing), so inflections ("chair" / "chairs") and
+ * shared vocabulary score as similar. It does not know synonyms; use a
+ * hosted model for real semantic matching.
+ */
+
+import type { EmbeddingProvider } from '../embedding-provider';
+
+export interface LocalEmbedderOptions {
+  /** Vector size (default 256) */
+  dimensions?: number;
+}
+
+const DEFAULT_DIMENSIONS = 256;
+
+// Trigrams weigh less than whole words
+const TRIGRAM_WEIGHT = 0.5;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'for',
+  'in',
+  'of',
+  'on',
+  'or',
+  'the',
+  'to',
+  'with',
+]);
+
+/**
+ * Create the local embedding provider
+ */
+export function createLocalEmbedder(
+  options: LocalEmbedderOptions = {}
+): EmbeddingProvider {
+  const dimensions = options.dimensions ?? DEFAULT_DIMENSIONS;
+
+  return {
+    key: `local:hash-${dimensions}`,
+    async embed(texts) {
+      return texts.map((text) => embedText(text, dimensions));
+    },
+  };
+}
+
+/**
+ * Hash the words and trigrams of a text into a unit vector
+ */
+function embedText(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+
+  const add = (feature: string, weight: number) => {
+    const hash = fnv1a(feature);
+    // The top bit picks the sign so collisions tend to cancel out
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % dimensions] += sign * weight;
+  };
+
+  const words = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 0 && !STOP_WORDS.has(word));
+
+  for (const word of words) {
+    add(`w:${word}`, 1);
+    const padded = `#${word}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value ** 2, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+/**
+ * 32-bit FNV-1a hash (unsigned)
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,73 @@
+/**
+ * Embedding Provider Configuration
+ *
+ * Selects the embedding provider for semantic search from environment
+ * variables:
+ * - EMBEDDING_PROVIDER: "local" (default), "openai" or "gemini"
+ * - EMBEDDING_MODEL: model name for hosted providers (optional)
+ * - ATLAS_VECTOR_SEARCH_INDEX: Atlas Vector Search index on the
+ *   item_embeddings collection (optional; stored vectors are scanned
+ *   without it)
+ *
+ * Hosted providers use the same API keys as the agent (OPENAI_API_KEY,
+ * GOOGLE_API_KEY).
+ */
+
+import { createHostedEmbedder } from './embedders/langchain.embedder';
+import { createLocalEmbedder } from './embedders/local.embedder';
+import type { EmbeddingProvider } from './embedding-provider';
+
+let provider: EmbeddingProvider | null = null;
+
+/**
+ * Get the configured embedding provider (created once per process)
+ *
+ * @throws {Error} if the configuration is invalid
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (provider) {
+    return provider;
+  }
+
+  const type = (process.env.EMBEDDING_PROVIDER || 'local').toLowerCase();
+  const model = process.env.EMBEDDING_MODEL || undefined;
+
+  switch (type) {
+    case 'local':
+      provider = createLocalEmbedder();
+      break;
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error(
+          'OPENAI_API_KEY is required when EMBEDDING_PROVIDER=openai'
+        );
+      }
+      provider = createHostedEmbedder({ provider: 'openai', apiKey, model });
+      break;
+    }
+    case 'gemini': {
+      const apiKey = process.env.GOOGLE_API_KEY;
+      if (!apiKey) {
+        throw new Error(
+          'GOOGLE_API_KEY is required when EMBEDDING_PROVIDER=gemini'
+        );
+      }
+      provider = createHostedEmbedder({ provider: 'gemini', apiKey, model });
+      break;
+    }
+    default:
+      throw new Error(
+        `Unknown EMBEDDING_PROVIDER: ${type} (expected local, openai or gemini)`
+      );
+  }
+
+  return provider;
+}
+
+/**
+ * Name of the Atlas Vector Search index on item embeddings, if configured
+ */
+export function getVectorSearchIndex(): string | undefined {
+  return process.env.ATLAS_VECTOR_SEARCH_INDEX || undefined;
+}
@@ -0,0 +1,40 @@
+/**
+ * Embedding Provider
+ *
+ * Contract every embedding adapter implements. Providers turn text into
+ * vectors for semantic catalog search; they never touch the database
+ * (vectors are stored by the semantic search service).
+ *
+ * Adapters:
+ * - local: deterministic offline embedder (tests and development)
+ * - openai / gemini: hosted embedding models through LangChain
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EmbeddingProvider {
+  /**
+   * Provider and model (e.g., "local:hash-256", "openai:text-embedding-3-small")
+   * Stored with each vector: vectors of different models are never
+   * compared, so switching providers re-embeds items on demand.
+   */
+  readonly key: string;
+
+  /**
+   * Embed texts, one vector per text in the same order
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export class EmbeddingProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingProviderError';
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Item Attribute Service
+ *
+ * Management of category attribute schemas (the structured attributes
+ * items of a category have, e.g. color and tip size for pens):
+ * - List schemas, get the schema of a category
+ * - Create or replace the schema of a category, delete a schema
+ *
+ * Items are checked against the schema of their category when they are
+ * created or updated (see catalog.service); changing a schema does not
+ * touch existing items.
+ */
+
+import { Types } from 'mongoose';
+
+import type {
+  CategoryAttributeSchema,
+  ItemAttributeDefinition,
+} from '@/domain/entities';
+import { mapCategoryAttributeSchemaToEntity } from '@/lib/db/mappers';
+import {
+  CategoryAttributeSchemaModel,
+  MAX_ATTRIBUTE_OPTIONS,
+  MAX_CATEGORY_ATTRIBUTES,
+} from '@/lib/db/models';
+import connectDB from '@/lib/db/mongoose';
+import { logger } from '@/lib/logger/winston.config';
+
+import { ValidationError } from './catalog.service';
+import {
+  getAttributeDefinitionErrors,
+  normalizeAttributeDefinitions,
+} from './item-attributes';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Category attribute schema input
+ */
+export interface CategoryAttributeSchemaInput {
+  /** Category name (matched case-insensitively) */
+  category: string;
+
+  /** Attribute definitions, in display order */
+  attributes: ItemAttributeDefinition[];
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export class CategoryAttributeSchemaNotFoundError extends Error {
+  constructor(schemaId: string) {
+    super(`Category attribute schema not found: ${schemaId}`);
+    this.name = 'CategoryAttributeSchemaNotFoundError';
+  }
+}
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+/**
+ * List category attribute schemas, by category
+ */
+export async function listCategoryAttributeSchemas(): Promise<
+  CategoryAttributeSchema[]
+> {
+  await connectDB();
+
+  try {
+    const schemas = await CategoryAttributeSchemaModel.find({})
+      .sort({ category: 1 })
+      .lean()
+      .exec();
+
+    return schemas.map(mapCategoryAttributeSchemaToEntity);
+  } catch (error) {
+    logger.error('Error listing category attribute schemas', { error });
+    throw new Error('Failed to list category attribute schemas');
+  }
+}
+
+/**
+ * Get the attribute schema of a category
+ *
+ * @returns Schema, or null when the category has none
+ */
+export async function getCategoryAttributeSchema(
+  category: string
+): Promise<CategoryAttributeSchema | null> {
+  await connectDB();
+
+  try {
+    const schema = await CategoryAttributeSchemaModel.findOne({
+      category: categoryPattern(category),
+    })
+      .lean()
+      .exec();
+
+    return schema ? mapCategoryAttributeSchemaToEntity(schema) : null;
+  } catch (error) {
+    logger.error('Error fetching category attribute schema', {
+      category,
+      error,
+    });
+    throw new Error('Failed to fetch category attribute schema');
+  }
+}
+
+/**
+ * Create or replace the attribute schema of a category
+ *
+ * @throws {ValidationError} if the category or definitions are invalid
+ */
+export async function upsertCategoryAttributeSchema(
+  input: CategoryAttributeSchemaInput
+): Promise<CategoryAttributeSchema> {
+  const category =
+    typeof input?.category === 'string' ? input.category.trim() : '';
+  if (category.length < 2 || category.length > 100) {
+    throw new ValidationError('Category must be between 2 and 100 characters');
+  }
+  const attributes = validateAttributeDefinitions(input.attributes);
+
+  await connectDB();
+
+  try {
+    const schema = await CategoryAttributeSchemaModel.findOneAndUpdate(
+      { category: categoryPattern(category) },
+      { $set: { attributes }, $setOnInsert: { category } },
+      { new: true, upsert: true, runValidators: true }
+    )
+      .lean()
+      .exec();
+
+    logger.info('Category attribute schema saved', {
+      category,
+      attributes: attributes.map((attribute) => attribute.key),
+    });
+
+    return mapCategoryAttributeSchemaToEntity(schema);
+  } catch (error) {
+    logger.error('Error saving category attribute schema', {
+      category,
+      error,
+    });
+    throw new Error('Failed to save category attribute schema');
+  }
+}
+
+/**
+ * Delete a category attribute schema
+ * Items keep their attributes; the category accepts free-form attributes
+ * again.
+ *
+ * @throws {CategoryAttributeSchemaNotFoundError} if the schema does not exist
+ */
+export async function deleteCategoryAttributeSchema(
+  schemaId: string
+): Promise<void> {
+  if (!Types.ObjectId.isValid(schemaId)) {
+    throw new ValidationError('Invalid attribute schema ID format');
+  }
+
+  await connectDB();
+
+  try {
+    const deleted = await CategoryAttributeSchemaModel.findByIdAndDelete(
+      schemaId
+    )
+      .lean()
+      .exec();
+
+    if (!deleted) {
+      throw new CategoryAttributeSchemaNotFoundError(schemaId);
+    }
+
+    logger.info('Category attribute schema deleted', {
+      schemaId,
+      category: deleted.category,
+    });
+  } catch (error) {
+    if (error instanceof CategoryAttributeSchemaNotFoundError) {
+      throw error;
+    }
+    logger.error('Error deleting category attribute schema', {
+      schemaId,
+      error,
+    });
+    throw new Error('Failed to delete category attribute schema');
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Normalize and validate attribute definitions
+ */
+function validateAttributeDefinitions(
+  input: ItemAttributeDefinition[]
+): ItemAttributeDefinition[] {
+  if (
+    !Array.isArray(input) ||
+    input.some((attribute) => !attribute || typeof attribute !== 'object')
+  ) {
+    throw new ValidationError('Attributes must be an array of definitions');
+  }
+  if (input.length > MAX_CATEGORY_ATTRIBUTES) {
+    throw new ValidationError(
+      `A category can have at most ${MAX_CATEGORY_ATTRIBUTES} attributes`
+    );
+  }
+
+  const attributes = normalizeAttributeDefinitions(input);
+  const errors = getAttributeDefinitionErrors(attributes);
+
+  const tooManyOptions = attributes.find(
+    (attribute) => (attribute.options ?? []).length > MAX_ATTRIBUTE_OPTIONS
+  );
+  if (tooManyOptions) {
+    errors.push(
+      `Attribute "${tooManyOptions.key}" can have at most ${MAX_ATTRIBUTE_OPTIONS} options`
+    );
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(`Validation failed: ${errors.join(', ')}`);
+  }
+
+  return attributes;
+}
+
+/**
+ * Case-insensitive exact category match
+ */
+function categoryPattern(category: string): RegExp {
+  return new RegExp(`^${escapeRegex(category.trim())}$`, 'i');
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
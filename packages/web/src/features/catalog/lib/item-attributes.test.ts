@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ItemAttributeDefinition } from '@/domain/entities';
+import { ItemAttributeType } from '@/domain/entities';
+
+import {
+  formatAttributeValue,
+  getAttributeDefinitionErrors,
+  getVariantAxes,
+  getVariantLabel,
+  haveSameAttributes,
+  normalizeAttributeDefinitions,
+  normalizeItemAttributes,
+} from './item-attributes';
+
+const definitions: ItemAttributeDefinition[] = [
+  {
+    key: 'color',
+    label: 'Color',
+    type: ItemAttributeType.Select,
+    options: ['Blue', 'Black'],
+    required: true,
+  },
+  {
+    key: 'tip_size',
+    label: 'Tip size',
+    type: ItemAttributeType.Number,
+    unit: 'mm',
+    required: false,
+  },
+  {
+    key: 'material',
+    label: 'Material',
+    type: ItemAttributeType.Text,
+    required: false,
+  },
+];
+
+describe('item-attributes', () => {
+  describe('normalizeAttributeDefinitions', () => {
+    it('should trim, lowercase keys and keep options only for selects', () => {
+      expect(
+        normalizeAttributeDefinitions([
+          {
+            key: ' Color ',
+            label: ' Color ',
+            type: ItemAttributeType.Select,
+            options: ['Blue', ' Blue', '', 'Black'],
+            required: true,
+          },
+          {
+            key: 'material',
+            label: 'Material',
+            type: ItemAttributeType.Text,
+            options: ['Steel'],
+            unit: 'kg',
+          } as ItemAttributeDefinition,
+        ])
+      ).toEqual([
+        {
+          key: 'color',
+          label: 'Color',
+          type: ItemAttributeType.Select,
+          options: ['Blue', 'Black'],
+          required: true,
+        },
+        {
+          key: 'material',
+          label: 'Material',
+          type: ItemAttributeType.Text,
+          required: false,
+        },
+      ]);
+    });
+  });
+
+  describe('getAttributeDefinitionErrors', () => {
+    it('should accept valid definitions', () => {
+      expect(getAttributeDefinitionErrors(definitions)).toEqual([]);
+    });
+
+    it('should reject bad keys, duplicates, missing labels and options', () => {
+      expect(
+        getAttributeDefinitionErrors([
+          { key: 'tip size', label: 'Tip', type: ItemAttributeType.Text },
+          { key: 'color', label: '', type: ItemAttributeType.Select },
+          { key: 'color', label: 'Color', type: ItemAttributeType.Text },
+        ] as ItemAttributeDefinition[])
+      ).toEqual([
+        'Invalid attribute key "tip size" (use lowercase letters, digits and underscores)',
+        'Attribute "color" needs a label',
+        'Select attribute "color" needs options',
+        'Attribute "color" is defined more than once',
+      ]);
+    });
+  });
+
+  describe('normalizeItemAttributes', () => {
+    it('should clean values against the definitions', () => {
+      expect(
+        normalizeItemAttributes(
+          { color: 'blue', tip_size: '0.5', material: '  ', extra: undefined },
+          definitions
+        )
+      ).toEqual({
+        attributes: { color: 'Blue', tip_size: 0.5 },
+        errors: [],
+      });
+    });
+
+    it('should report unknown, invalid and missing required values', () => {
+      expect(
+        normalizeItemAttributes(
+          { size: 'L', tip_size: 'fine', material: 'Steel' },
+          definitions
+        ).errors
+      ).toEqual([
+        'Unknown attribute "size"',
+        'Tip size must be a number',
+        'Color is required',
+      ]);
+      expect(
+        normalizeItemAttributes({ color: 'Red' }, definitions).errors
+      ).toEqual(['Color must be one of: Blue, Black']);
+    });
+
+    it('should accept free-form attributes when the category has no schema', () => {
+      expect(
+        normalizeItemAttributes({ color: ' Blue ', pack: 12 }, undefined)
+      ).toEqual({ attributes: { color: 'Blue', pack: 12 }, errors: [] });
+      expect(
+        normalizeItemAttributes({ 'Tip Size': 'fine' }, undefined).errors
+      ).toEqual(['Invalid attribute key "Tip Size"']);
+    });
+  });
+
+  describe('haveSameAttributes', () => {
+    it('should compare values in any key order', () => {
+      expect(
+        haveSameAttributes(
+          { color: 'Blue', tip_size: 0.5 },
+          { tip_size: 0.5, color: 'Blue' }
+        )
+      ).toBe(true);
+      expect(
+        haveSameAttributes({ color: 'Blue' }, { color: 'Blue', tip_size: 0.5 })
+      ).toBe(false);
+      expect(haveSameAttributes({ color: 'Blue' }, { color: 'Black' })).toBe(
+        false
+      );
+    });
+  });
+
+  describe('formatAttributeValue', () => {
+    it('should append the unit of number attributes', () => {
+      expect(formatAttributeValue(0.5, definitions[1])).toBe('0.5 mm');
+      expect(formatAttributeValue('Blue', definitions[0])).toBe('Blue');
+    });
+  });
+
+  describe('variants', () => {
+    const family = [
+      { name: 'Gel Pen', attributes: { material: 'Plastic' } },
+      {
+        name: 'Gel Pen - Blue',
+        attributes: { color: 'Blue', tip_size: 0.5, material: 'Plastic' },
+      },
+      {
+        name: 'Gel Pen - Black',
+        attributes: { color: 'Black', tip_size: 0.7, material: 'Plastic' },
+      },
+    ];
+
+    it('should find the attributes variants differ in', () => {
+      expect(getVariantAxes(family)).toEqual(['color', 'tip_size']);
+      expect(getVariantAxes(family.slice(0, 1))).toEqual([]);
+    });
+
+    it('should label variants by their axis values', () => {
+      const axes = getVariantAxes(family);
+
+      expect(getVariantLabel(family[1], axes, definitions)).toBe(
+        'Blue / 0.5 mm'
+      );
+      expect(getVariantLabel(family[0], axes, definitions)).toBe('Gel Pen');
+    });
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Catalog Item Attributes
+ *
+ * Pure rules for structured item attributes and variants:
+ * - Attribute definitions of a category (category attribute schema)
+ * - Item attribute values checked against those definitions
+ * - Variant axes: the attributes the variants of a product differ in
+ *
+ * Kept free of database access so the dialog and product page can use
+ * the same rules as the catalog service.
+ */
+
+import type {
+  Item,
+  ItemAttributeDefinition,
+  ItemAttributeValue,
+} from '@/domain/entities';
+import { ItemAttributeType } from '@/domain/entities';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Attribute keys: lowercase letters, digits and underscores */
+export const ITEM_ATTRIBUTE_KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+
+/** Maximum length of a text attribute value */
+export const MAX_ATTRIBUTE_VALUE_LENGTH = 100;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Item attributes after validation
+ */
+export interface NormalizedItemAttributes {
+  /** Cleaned values (empty values dropped, select values in option case) */
+  attributes: Record<string, ItemAttributeValue>;
+
+  /** Error messages (empty when the attributes are valid) */
+  errors: string[];
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Trim attribute definitions and drop empty options
+ * Keys are lowercased; options are only kept for select attributes.
+ */
+export function normalizeAttributeDefinitions(
+  definitions: ItemAttributeDefinition[]
+): ItemAttributeDefinition[] {
+  return definitions.map((definition) => {
+    const options =
+      definition.type === ItemAttributeType.Select
+        ? [
+            ...new Set(
+              (definition.options ?? [])
+                .map((option) => String(option).trim())
+                .filter((option) => option.length > 0)
+            ),
+          ]
+        : undefined;
+    const unit =
+      definition.type === ItemAttributeType.Number
+        ? definition.unit?.trim() || undefined
+        : undefined;
+
+    return {
+      key: String(definition.key ?? '')
+        .trim()
+        .toLowerCase(),
+      label: String(definition.label ?? '').trim(),
+      type: definition.type,
+      ...(options && { options }),
+      ...(unit && { unit }),
+      required: definition.required === true,
+    };
+  });
+}
+
+/**
+ * Collect errors in (normalized) attribute definitions
+ *
+ * @returns Error messages (empty when the definitions are valid)
+ */
+export function getAttributeDefinitionErrors(
+  definitions: ItemAttributeDefinition[]
+): string[] {
+  const errors: string[] = [];
+  const keys = new Set<string>();
+
+  for (const definition of definitions) {
+    if (!ITEM_ATTRIBUTE_KEY_PATTERN.test(definition.key)) {
+      errors.push(
+        `Invalid attribute key "${definition.key}" (use lowercase letters, digits and underscores)`
+      );
+    }
+    if (keys.has(definition.key)) {
+      errors.push(`Attribute "${definition.key}" is defined more than once`);
+    }
+    keys.add(definition.key);
+
+    if (!definition.label) {
+      errors.push(`Attribute "${definition.key}" needs a label`);
+    }
+    if (!Object.values(ItemAttributeType).includes(definition.type)) {
+      errors.push(`Invalid type for attribute "${definition.key}"`);
+    }
+    if (
+      definition.type === ItemAttributeType.Select &&
+      (definition.options ?? []).length === 0
+    ) {
+      errors.push(`Select attribute "${definition.key}" needs options`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check item attribute values against the attribute definitions of the
+ * item's category
+ *
+ * - Empty values are dropped; required attributes must be set
+ * - Numbers may be given as numeric strings (form input)
+ * - Select values must be one of the options (any case)
+ * - Without definitions (no schema for the category), any key following
+ *   the key pattern is accepted with text or number values
+ */
+export function normalizeItemAttributes(
+  input: Record<string, unknown>,
+  definitions: ItemAttributeDefinition[] | undefined
+): NormalizedItemAttributes {
+  const attributes: Record<string, ItemAttributeValue> = {};
+  const errors: string[] = [];
+  const byKey = new Map(definitions?.map((d) => [d.key, d]));
+  // Keys with a value, valid or not (invalid values are reported once)
+  const providedKeys = new Set<string>();
+
+  for (const [key, raw] of Object.entries(input)) {
+    if (
+      raw === undefined ||
+      raw === null ||
+      (typeof raw === 'string' && !raw.trim())
+    ) {
+      continue;
+    }
+    providedKeys.add(key);
+
+    const definition = byKey.get(key);
+    if (definitions && !definition) {
+      errors.push(`Unknown attribute "${key}"`);
+      continue;
+    }
+    if (!definitions && !ITEM_ATTRIBUTE_KEY_PATTERN.test(key)) {
+      errors.push(`Invalid attribute key "${key}"`);
+      continue;
+    }
+
+    const type =
+      definition?.type ??
+      (typeof raw === 'number' ? ItemAttributeType.Number : undefined);
+    const label = definition?.label ?? key;
+
+    if (type === ItemAttributeType.Number) {
+      const value = typeof raw === 'string' ? Number(raw.trim()) : raw;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`${label} must be a number`);
+        continue;
+      }
+      attributes[key] = value;
+      continue;
+    }
+
+    if (typeof raw !== 'string' && typeof raw !== 'number') {
+      errors.push(`${label} must be text`);
+      continue;
+    }
+
+    const value = String(raw).trim();
+    if (value.length > MAX_ATTRIBUTE_VALUE_LENGTH) {
+      errors.push(
+        `${label} must not exceed ${MAX_ATTRIBUTE_VALUE_LENGTH} characters`
+      );
+      continue;
+    }
+
+    if (type === ItemAttributeType.Select) {
+      const option = definition?.options?.find(
+        (candidate) => candidate.toLowerCase() === value.toLowerCase()
+      );
+      if (!option) {
+        errors.push(
+          `${label} must be one of: ${(definition?.options ?? []).join(', ')}`
+        );
+        continue;
+      }
+      attributes[key] = option;
+      continue;
+    }
+
+    attributes[key] = value;
+  }
+
+  for (const definition of definitions ?? []) {
+    if (definition.required && !providedKeys.has(definition.key)) {
+      errors.push(`${definition.label} is required`);
+    }
+  }
+
+  return { attributes, errors };
+}
+
+/**
+ * Whether two items have the same attribute values (in any key order)
+ */
+export function haveSameAttributes(
+  a: Record<string, ItemAttributeValue>,
+  b: Record<string, ItemAttributeValue>
+): boolean {
+  const keys = Object.keys(a);
+
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => String(a[key]) === String(b[key]))
+  );
+}
+
+/**
+ * Display an attribute value (numbers with their unit)
+ */
+export function formatAttributeValue(
+  value: ItemAttributeValue,
+  definition?: Pick<ItemAttributeDefinition, 'unit'>
+): string {
+  return definition?.unit ? `${value} ${definition.unit}` : String(value);
+}
+
+/**
+ * Attributes the items of a variant family differ in, in first-seen order
+ * (e.g., ["color"] for blue and black pens)
+ */
+export function getVariantAxes(items: Pick<Item, 'attributes'>[]): string[] {
+  const keys = [
+    ...new Set(items.flatMap((item) => Object.keys(item.attributes ?? {}))),
+  ];
+
+  return keys.filter(
+    (key) =>
+      new Set(items.map((item) => String(item.attributes?.[key] ?? ''))).size >
+      1
+  );
+}
+
+/**
+ * Short label of a variant in a variant picker
+ * Values of the variant axes (e.g., "Blue / Fine"), or the item name when
+ * the item has none of them.
+ */
+export function getVariantLabel(
+  item: Pick<Item, 'name' | 'attributes'>,
+  axes: string[],
+  definitions: ItemAttributeDefinition[] = []
+): string {
+  const attributes = item.attributes ?? {};
+  const values = axes
+    .filter((key) => attributes[key] !== undefined)
+    .map((key) =>
+      formatAttributeValue(
+        attributes[key],
+        definitions.find((definition) => definition.key === key)
+      )
+    );
+
+  return values.length > 0 ? values.join(' / ') : item.name;
+}
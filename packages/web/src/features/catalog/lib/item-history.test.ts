@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  diffItemFields,
+  formatItemFieldValue,
+  getPriceHistory,
+} from './item-history';
+
+const SUPPLIER_ID = '507f1f77bcf86cd799439011';
+
+const item = {
+  name: 'Wireless Mouse',
+  category: 'Electronics',
+  description: 'Ergonomic wireless mouse with USB receiver',
+  estimatedPrice: 29.99,
+  unit: 'each',
+  preferredSupplier: undefined,
+  suppliers: [{ supplierId: SUPPLIER_ID, unitPrice: 27.5 }],
+};
+
+describe('item-history', () => {
+  describe('diffItemFields', () => {
+    it('should list changed fields with old and new values', () => {
+      expect(
+        diffItemFields(item, {
+          estimatedPrice: 34.5,
+          preferredSupplier: 'TechSupply Inc.',
+        })
+      ).toEqual([
+        { field: 'estimatedPrice', from: 29.99, to: 34.5 },
+        {
+          field: 'preferredSupplier',
+          from: undefined,
+          to: 'TechSupply Inc.',
+        },
+      ]);
+    });
+
+    it('should leave out unchanged fields', () => {
+      expect(
+        diffItemFields(item, {
+          name: 'Wireless Mouse',
+          suppliers: [{ supplierId: SUPPLIER_ID, unitPrice: 27.5 }],
+        })
+      ).toEqual([]);
+    });
+
+    it('should detect changed supplier offers', () => {
+      const suppliers = [{ supplierId: SUPPLIER_ID, unitPrice: 26 }];
+
+      expect(diffItemFields(item, { suppliers })).toEqual([
+        { field: 'suppliers', from: item.suppliers, to: suppliers },
+      ]);
+    });
+  });
+
+  describe('getPriceHistory', () => {
+    const createdAt = new Date('2024-01-01T00:00:00Z');
+
+    it('should start with the creation price and add each price change', () => {
+      expect(
+        getPriceHistory({ estimatedPrice: 34.5, createdAt }, [
+          {
+            createdAt: new Date('2024-03-01T00:00:00Z'),
+            changes: [{ field: 'estimatedPrice', from: 31, to: 34.5 }],
+          },
+          {
+            createdAt: new Date('2024-02-01T00:00:00Z'),
+            changes: [
+              { field: 'name', from: 'Mouse', to: 'Wireless Mouse' },
+              { field: 'estimatedPrice', from: 29.99, to: 31 },
+            ],
+          },
+          {
+            createdAt: new Date('2024-02-15T00:00:00Z'),
+            changes: [{ field: 'unit', from: 'each', to: 'box' }],
+          },
+        ])
+      ).toEqual([
+        { date: createdAt, price: 29.99 },
+        { date: new Date('2024-02-01T00:00:00Z'), price: 31 },
+        { date: new Date('2024-03-01T00:00:00Z'), price: 34.5 },
+      ]);
+    });
+
+    it('should return the current price when it never changed', () => {
+      expect(getPriceHistory({ estimatedPrice: 29.99, createdAt }, [])).toEqual(
+        [{ date: createdAt, price: 29.99 }]
+      );
+    });
+  });
+
+  describe('formatItemFieldValue', () => {
+    it('should format prices, supplier counts and empty values', () => {
+      expect(formatItemFieldValue('estimatedPrice', 34.5)).toBe('$34.50');
+      expect(formatItemFieldValue('suppliers', item.suppliers)).toBe(
+        '1 supplier'
+      );
+      expect(formatItemFieldValue('suppliers', [])).toBe('0 suppliers');
+      expect(formatItemFieldValue('preferredSupplier', undefined)).toBe('—');
+      expect(formatItemFieldValue('unit', 'box')).toBe('box');
+    });
+
+    it('should format unit conversions and attributes', () => {
+      expect(
+        formatItemFieldValue('unitConversions', [{ unit: 'box', factor: 12 }])
+      ).toBe('box of 12');
+      expect(
+        formatItemFieldValue('attributes', { color: 'Blue', tip_size: 0.5 })
+      ).toBe('color: Blue, tip_size: 0.5');
+      expect(formatItemFieldValue('attributes', {})).toBe('—');
+    });
+  });
+});
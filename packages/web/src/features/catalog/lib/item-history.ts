@@ -0,0 +1,163 @@
+/**
+ * Catalog Item History
+ *
+ * Pure helpers for the item revision history (audit trail):
+ * - Field-level diff of an item update
+ * - Price history (for the price sparkline) read from revisions
+ * - Display labels and values for the changelog
+ *
+ * Kept free of database access so it can be used on the client and unit
+ * tested.
+ */
+
+import type {
+  Item,
+  ItemFieldChange,
+  ItemRevision,
+  ItemRevisionField,
+  ItemSupplierOffer,
+  ItemUnitConversion,
+} from '@/domain/entities';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Item price at a point in time
+ */
+export interface ItemPricePoint {
+  date: Date;
+  price: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Field labels shown in the changelog, in diff order */
+export const ITEM_REVISION_FIELD_LABELS: Record<ItemRevisionField, string> = {
+  name: 'Name',
+  category: 'Category',
+  description: 'Description',
+  estimatedPrice: 'Price',
+  unit: 'Unit',
+  unitConversions: 'Unit conversions',
+  orderUnit: 'Order unit',
+  sku: 'SKU',
+  attributes: 'Attributes',
+  parentItemId: 'Variant of',
+  preferredSupplier: 'Preferred supplier',
+  suppliers: 'Suppliers',
+};
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Compute the fields an update changes
+ * Only fields present in `after` are compared; unchanged values are left
+ * out, so an empty result means the update is a no-op.
+ */
+export function diffItemFields(
+  before: Pick<Item, ItemRevisionField>,
+  after: Partial<Pick<Item, ItemRevisionField>>
+): ItemFieldChange[] {
+  const fields = Object.keys(ITEM_REVISION_FIELD_LABELS) as ItemRevisionField[];
+
+  return fields
+    .filter((field) => field in after)
+    .filter((field) => !isSameValue(before[field], after[field]))
+    .map((field) => ({ field, from: before[field], to: after[field] }));
+}
+
+/**
+ * Price of an item over time, oldest first
+ * Starts with the price the item was created with, followed by one point
+ * per price change. Dates may be strings (JSON responses).
+ */
+export function getPriceHistory(
+  item: Pick<Item, 'estimatedPrice' | 'createdAt'>,
+  revisions: Pick<ItemRevision, 'changes' | 'createdAt'>[]
+): ItemPricePoint[] {
+  const priceChanges = revisions
+    .map((revision) => ({
+      date: new Date(revision.createdAt),
+      change: revision.changes.find(
+        (change) => change.field === 'estimatedPrice'
+      ),
+    }))
+    .filter(
+      (entry): entry is { date: Date; change: ItemFieldChange } =>
+        typeof entry.change?.to === 'number'
+    )
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const initialPrice = priceChanges[0]?.change.from;
+
+  return [
+    {
+      date: new Date(item.createdAt),
+      price:
+        typeof initialPrice === 'number' ? initialPrice : item.estimatedPrice,
+    },
+    ...priceChanges.map(({ date, change }) => ({
+      date,
+      price: change.to as number,
+    })),
+  ];
+}
+
+/**
+ * Display a changed value in the changelog
+ */
+export function formatItemFieldValue(
+  field: ItemRevisionField,
+  value: unknown
+): string {
+  if (value === undefined || value === null || value === '') {
+    return '—';
+  }
+
+  if (field === 'estimatedPrice' && typeof value === 'number') {
+    return `$${value.toFixed(2)}`;
+  }
+
+  if (field === 'suppliers' && Array.isArray(value)) {
+    const offers = value as ItemSupplierOffer[];
+    return offers.length === 1 ? '1 supplier' : `${offers.length} suppliers`;
+  }
+
+  if (field === 'unitConversions' && Array.isArray(value)) {
+    const conversions = value as ItemUnitConversion[];
+    return conversions.length === 0
+      ? '—'
+      : conversions
+          .map((conversion) => `${conversion.unit} of ${conversion.factor}`)
+          .join(', ');
+  }
+
+  if (field === 'attributes' && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>);
+    return entries.length === 0
+      ? '—'
+      : entries.map(([key, entry]) => `${key}: ${entry}`).join(', ');
+  }
+
+  return String(value);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Compare field values; arrays (supplier offers) are compared by content
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) {
+    return a === b;
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
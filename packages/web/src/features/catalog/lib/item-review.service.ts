@@ -0,0 +1,323 @@
+/**
+ * Item Review Service
+ *
+ * Buyer moderation of user-registered catalog items:
+ * - Review queue of items pending review, with potential duplicates
+ * - Approve (item joins the active catalog)
+ * - Reject with a reason (item is archived)
+ * - Merge into an existing item (item is archived, pointing at the
+ *   existing one)
+ * - Requesters' own submissions with the review outcome
+ *
+ * Every decision publishes the item.reviewed webhook event, which carries
+ * the requester so integrations can notify them.
+ */
+
+import { Types } from 'mongoose';
+
+import type { Item } from '@/domain/entities';
+import {
+  ItemReviewDecision,
+  ItemStatus,
+  WebhookEventType,
+} from '@/domain/entities';
+import { publishWebhookEvent } from '@/features/webhooks/lib/webhook.service';
+import type { Page, PageParams } from '@/lib/api/pagination';
+import {
+  buildCursorFilter,
+  DEFAULT_PAGE_LIMIT,
+  toPage,
+} from '@/lib/api/pagination';
+import { invalidateSearchCache } from '@/lib/cache/searchCache';
+import { mapItemToEntity } from '@/lib/db/mappers';
+import { ItemModel, MAX_ITEM_REVIEW_REASON_LENGTH } from '@/lib/db/models';
+import connectDB from '@/lib/db/mongoose';
+import { logger } from '@/lib/logger/winston.config';
+
+import {
+  findPotentialDuplicates,
+  ItemNotFoundError,
+  ValidationError,
+} from './catalog.service';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Review queue entry
+ */
+export interface PendingItemReview {
+  item: Item;
+
+  /** Active items similar to the submission (merge candidates) */
+  duplicates: Item[];
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export class ItemNotPendingReviewError extends Error {
+  constructor(itemId: string) {
+    super(`Item ${itemId} is not pending review`);
+    this.name = 'ItemNotPendingReviewError';
+  }
+}
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+/**
+ * List items pending review, oldest first
+ * Each entry carries the potential duplicates found by the same detection
+ * that refuses duplicates at registration (BR-1.3).
+ */
+export async function listPendingItemReviews(
+  page: PageParams = {}
+): Promise<Page<PendingItemReview>> {
+  const limit = page.limit ?? DEFAULT_PAGE_LIMIT;
+  const cursorFilter = buildCursorFilter(page.cursor, 'createdAt', 1);
+
+  await connectDB();
+
+  try {
+    const rows = await ItemModel.find({
+      status: ItemStatus.PendingReview,
+      ...cursorFilter,
+    })
+      .sort({ createdAt: 1, _id: 1 })
+      .limit(limit + 1)
+      .lean()
+      .exec();
+
+    const { items, nextCursor, hasMore } = toPage(
+      rows.map(mapItemToEntity),
+      limit,
+      (item) => ({ field: 'createdAt', value: item.createdAt, id: item.id })
+    );
+
+    const entries = await Promise.all(
+      items.map(async (item) => ({
+        item,
+        duplicates: await findPotentialDuplicates(item, {
+          excludeItemId: item.id,
+          statuses: [ItemStatus.Active],
+        }),
+      }))
+    );
+
+    return { items: entries, nextCursor, hasMore };
+  } catch (error) {
+    logger.error('Error listing items pending review', { error });
+    throw new Error('Failed to list items pending review');
+  }
+}
+
+/**
+ * List items registered by a user, newest first, with their review outcome
+ */
+export async function listItemSubmissionsForUser(
+  userId: string,
+  page: PageParams = {}
+): Promise<Page<Item>> {
+  const limit = page.limit ?? DEFAULT_PAGE_LIMIT;
+  const cursorFilter = buildCursorFilter(page.cursor, 'createdAt', -1);
+
+  await connectDB();
+
+  try {
+    const rows = await ItemModel.find({
+      createdByUserId: new Types.ObjectId(userId),
+      ...cursorFilter,
+    })
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .lean()
+      .exec();
+
+    return toPage(rows.map(mapItemToEntity), limit, (item) => ({
+      field: 'createdAt',
+      value: item.createdAt,
+      id: item.id,
+    }));
+  } catch (error) {
+    logger.error('Error listing item submissions', { userId, error });
+    throw new Error('Failed to list item submissions');
+  }
+}
+
+/**
+ * Approve a pending item: it joins the active catalog
+ *
+ * @throws {ItemNotFoundError} if the item does not exist
+ * @throws {ItemNotPendingReviewError} if the item is not pending review
+ */
+export async function approveItem(
+  reviewerId: string,
+  itemId: string
+): Promise<Item> {
+  return decideItemReview(reviewerId, itemId, {
+    decision: ItemReviewDecision.Approved,
+    status: ItemStatus.Active,
+  });
+}
+
+/**
+ * Reject a pending item: it is archived with the reason shown to the
+ * requester
+ *
+ * @throws {ValidationError} if the reason is missing or too long
+ * @throws {ItemNotFoundError} if the item does not exist
+ * @throws {ItemNotPendingReviewError} if the item is not pending review
+ */
+export async function rejectItem(
+  reviewerId: string,
+  itemId: string,
+  reason: string
+): Promise<Item> {
+  const trimmedReason = typeof reason === 'string' ? reason.trim() : '';
+  if (!trimmedReason) {
+    throw new ValidationError('A reason is required when rejecting an item');
+  }
+  if (trimmedReason.length > MAX_ITEM_REVIEW_REASON_LENGTH) {
+    throw new ValidationError(
+      `Reason must not exceed ${MAX_ITEM_REVIEW_REASON_LENGTH} characters`
+    );
+  }
+
+  return decideItemReview(reviewerId, itemId, {
+    decision: ItemReviewDecision.Rejected,
+    status: ItemStatus.Inactive,
+    reason: trimmedReason,
+  });
+}
+
+/**
+ * Merge a pending item into an existing active item
+ * The submission is archived and points at the existing item, which the
+ * requester should order instead.
+ *
+ * @throws {ValidationError} if the target is the item itself or not active
+ * @throws {ItemNotFoundError} if either item does not exist
+ * @throws {ItemNotPendingReviewError} if the item is not pending review
+ */
+export async function mergeItem(
+  reviewerId: string,
+  itemId: string,
+  targetItemId: string
+): Promise<Item> {
+  if (
+    typeof targetItemId !== 'string' ||
+    !Types.ObjectId.isValid(targetItemId)
+  ) {
+    throw new ValidationError('Invalid target item ID');
+  }
+  if (targetItemId === itemId) {
+    throw new ValidationError('An item cannot be merged into itself');
+  }
+
+  await connectDB();
+
+  const target = await ItemModel.findById(targetItemId)
+    .select('status')
+    .lean()
+    .exec();
+  if (!target) {
+    throw new ItemNotFoundError(targetItemId);
+  }
+  if (target.status !== ItemStatus.Active) {
+    throw new ValidationError('Items can only be merged into active items');
+  }
+
+  return decideItemReview(reviewerId, itemId, {
+    decision: ItemReviewDecision.Merged,
+    status: ItemStatus.Inactive,
+    mergedIntoItemId: targetItemId,
+  });
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Record a review decision on a pending item
+ * The status filter in the update makes concurrent decisions safe: only
+ * the first one applies.
+ */
+async function decideItemReview(
+  reviewerId: string,
+  itemId: string,
+  outcome: {
+    decision: ItemReviewDecision;
+    status: ItemStatus;
+    reason?: string;
+    mergedIntoItemId?: string;
+  }
+): Promise<Item> {
+  if (!Types.ObjectId.isValid(itemId)) {
+    throw new ValidationError('Invalid item ID format');
+  }
+
+  await connectDB();
+
+  try {
+    const item = await ItemModel.findOneAndUpdate(
+      { _id: itemId, status: ItemStatus.PendingReview },
+      {
+        $set: {
+          status: outcome.status,
+          review: {
+            decision: outcome.decision,
+            reason: outcome.reason,
+            mergedIntoItemId: outcome.mergedIntoItemId
+              ? new Types.ObjectId(outcome.mergedIntoItemId)
+              : undefined,
+            reviewedByUserId: new Types.ObjectId(reviewerId),
+            reviewedAt: new Date(),
+          },
+        },
+      },
+      { new: true, runValidators: true }
+    )
+      .lean()
+      .exec();
+
+    if (!item) {
+      const exists = await ItemModel.exists({ _id: itemId }).exec();
+      throw exists
+        ? new ItemNotPendingReviewError(itemId)
+        : new ItemNotFoundError(itemId);
+    }
+
+    invalidateSearchCache();
+
+    const reviewedItem = mapItemToEntity(item);
+
+    await publishWebhookEvent(WebhookEventType.ItemReviewed, {
+      item: reviewedItem,
+      decision: outcome.decision,
+      requesterId: reviewedItem.createdByUserId,
+    });
+
+    logger.info('Catalog item reviewed', {
+      itemId,
+      reviewerId,
+      decision: outcome.decision,
+    });
+
+    return reviewedItem;
+  } catch (error) {
+    if (
+      error instanceof ItemNotFoundError ||
+      error instanceof ItemNotPendingReviewError ||
+      error instanceof ValidationError
+    ) {
+      throw error;
+    }
+    logger.error('Error reviewing item', { itemId, reviewerId, error });
+    throw new Error('Failed to review item');
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  formatPackSize,
+  getPackSize,
+  getPackSizeError,
+  getUnitConversionErrors,
+  normalizeUnitConversions,
+  roundToPackSize,
+} from './item-units';
+
+const boxedPen = {
+  name: 'Gel Pen',
+  unit: 'each',
+  unitConversions: [
+    { unit: 'box', factor: 12 },
+    { unit: 'carton', factor: 144 },
+  ],
+  orderUnit: 'Box',
+};
+
+describe('item-units', () => {
+  describe('normalizeUnitConversions', () => {
+    it('should trim conversion units', () => {
+      expect(normalizeUnitConversions([{ unit: ' box ', factor: 12 }])).toEqual(
+        [{ unit: 'box', factor: 12 }]
+      );
+    });
+  });
+
+  describe('getUnitConversionErrors', () => {
+    it('should accept valid conversions and order unit', () => {
+      expect(getUnitConversionErrors(boxedPen)).toEqual([]);
+      expect(getUnitConversionErrors({ unit: 'each' })).toEqual([]);
+    });
+
+    it('should reject the base unit, duplicates and bad factors', () => {
+      expect(
+        getUnitConversionErrors({
+          unit: 'each',
+          unitConversions: [
+            { unit: 'Each', factor: 2 },
+            { unit: 'box', factor: 12 },
+            { unit: 'BOX', factor: 1.5 },
+          ],
+        })
+      ).toEqual([
+        'Conversion unit "Each" is the base unit',
+        'Conversion unit "BOX" is listed twice',
+        'Conversion factor of "BOX" must be a whole number of at least 2',
+      ]);
+    });
+
+    it('should require the order unit to be a conversion unit', () => {
+      expect(
+        getUnitConversionErrors({ unit: 'each', orderUnit: 'pallet' })
+      ).toEqual(['Order unit "pallet" must be one of the unit conversions']);
+    });
+  });
+
+  describe('pack size', () => {
+    it('should use the factor of the order unit', () => {
+      expect(getPackSize(boxedPen)).toBe(12);
+      expect(getPackSize({ ...boxedPen, orderUnit: undefined })).toBe(1);
+      expect(formatPackSize(boxedPen)).toBe('12 each');
+      expect(formatPackSize({ unit: 'each' })).toBeUndefined();
+    });
+
+    it('should only accept whole packs', () => {
+      expect(getPackSizeError(boxedPen, 24)).toBeUndefined();
+      expect(getPackSizeError(boxedPen, 10)).toBe(
+        'Gel Pen is sold by the Box (12 each); quantity must be a multiple of 12'
+      );
+      expect(getPackSizeError({ name: 'Stapler' }, 7)).toBeUndefined();
+    });
+
+    it('should round quantities up to whole packs', () => {
+      expect(roundToPackSize(1, 12)).toBe(12);
+      expect(roundToPackSize(13, 12)).toBe(24);
+      expect(roundToPackSize(3, 1)).toBe(3);
+    });
+  });
+});
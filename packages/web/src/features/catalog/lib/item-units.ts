@@ -0,0 +1,163 @@
+/**
+ * Catalog Item Units of Measure
+ *
+ * Pure rules for item units:
+ * - Unit conversions: larger units in base units (1 box = 12 each)
+ * - Order unit: the unit an item must be ordered in; cart quantities
+ *   (always in base units) must be multiples of its size, the pack size
+ *
+ * Kept free of database access so the cart, catalog and product pages
+ * can use the same rules as the services.
+ */
+
+import type { Item, ItemUnitConversion } from '@/domain/entities';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Maximum number of unit conversions per item */
+export const MAX_UNIT_CONVERSIONS = 5;
+
+/** Base unit of items without one */
+export const DEFAULT_ITEM_UNIT = 'each';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Unit fields of an item
+ */
+export type ItemUnitFields = Pick<
+  Item,
+  'unit' | 'unitConversions' | 'orderUnit'
+>;
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Trim unit conversions (conversion units are matched case-insensitively)
+ */
+export function normalizeUnitConversions(
+  conversions: ItemUnitConversion[]
+): ItemUnitConversion[] {
+  return conversions.map((conversion) => ({
+    unit: String(conversion?.unit ?? '').trim(),
+    factor: conversion?.factor,
+  }));
+}
+
+/**
+ * Collect errors in the unit fields of an item
+ * - Conversion units are unique and differ from the base unit
+ * - Factors are whole numbers of at least 2
+ * - The order unit is one of the conversion units
+ *
+ * @returns Error messages (empty when the fields are valid)
+ */
+export function getUnitConversionErrors(fields: ItemUnitFields): string[] {
+  const errors: string[] = [];
+  const baseUnit = (fields.unit || DEFAULT_ITEM_UNIT).toLowerCase();
+  const conversions = fields.unitConversions ?? [];
+  const units = new Set<string>();
+
+  if (conversions.length > MAX_UNIT_CONVERSIONS) {
+    errors.push(
+      `An item can have at most ${MAX_UNIT_CONVERSIONS} unit conversions`
+    );
+  }
+
+  for (const conversion of conversions) {
+    const unit = conversion.unit.toLowerCase();
+
+    if (!unit) {
+      errors.push('Conversion unit is required');
+      continue;
+    }
+    if (unit === baseUnit) {
+      errors.push(`Conversion unit "${conversion.unit}" is the base unit`);
+    }
+    if (units.has(unit)) {
+      errors.push(`Conversion unit "${conversion.unit}" is listed twice`);
+    }
+    units.add(unit);
+
+    if (
+      typeof conversion.factor !== 'number' ||
+      !Number.isInteger(conversion.factor) ||
+      conversion.factor < 2
+    ) {
+      errors.push(
+        `Conversion factor of "${conversion.unit}" must be a whole number of at least 2`
+      );
+    }
+  }
+
+  if (fields.orderUnit && !units.has(fields.orderUnit.toLowerCase())) {
+    errors.push(
+      `Order unit "${fields.orderUnit}" must be one of the unit conversions`
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Number of base units an item is ordered in (1 without an order unit)
+ */
+export function getPackSize(fields: ItemUnitFields): number {
+  if (!fields.orderUnit) {
+    return 1;
+  }
+
+  const orderUnit = fields.orderUnit.toLowerCase();
+  const conversion = fields.unitConversions?.find(
+    (candidate) => candidate.unit.toLowerCase() === orderUnit
+  );
+
+  return conversion?.factor ?? 1;
+}
+
+/**
+ * Error for a cart quantity that is not a whole number of packs
+ *
+ * @returns Error message, or undefined when the quantity is valid
+ */
+export function getPackSizeError(
+  item: ItemUnitFields & Pick<Item, 'name'>,
+  quantity: number
+): string | undefined {
+  const packSize = getPackSize(item);
+
+  if (packSize <= 1 || quantity % packSize === 0) {
+    return undefined;
+  }
+
+  return `${item.name} is sold by the ${item.orderUnit} (${formatPackSize(item)}); quantity must be a multiple of ${packSize}`;
+}
+
+/**
+ * Round a quantity up to a whole number of packs
+ */
+export function roundToPackSize(quantity: number, packSize: number): number {
+  if (packSize <= 1) {
+    return quantity;
+  }
+  return Math.max(packSize, Math.ceil(quantity / packSize) * packSize);
+}
+
+/**
+ * Display the pack size of an item (e.g., "12 each"), or undefined when
+ * the item is ordered in its base unit
+ */
+export function formatPackSize(fields: ItemUnitFields): string | undefined {
+  const packSize = getPackSize(fields);
+
+  if (packSize <= 1) {
+    return undefined;
+  }
+  return `${packSize} ${fields.unit || DEFAULT_ITEM_UNIT}`;
+}
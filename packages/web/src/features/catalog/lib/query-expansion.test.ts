@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  correctTerm,
+  editDistance,
+  expandSearchQuery,
+  maxTypoDistance,
+  normalizeSynonymTerms,
+} from './query-expansion';
+
+const dictionary = {
+  vocabulary: new Set([
+    'stapler',
+    'monitor',
+    'notebook',
+    'notepad',
+    'usb',
+    'c',
+    'hub',
+    'type',
+    'chair',
+  ]),
+  synonyms: [
+    ['notepad', 'notebook'],
+    ['usb c', 'type c'],
+  ],
+};
+
+describe('query-expansion', () => {
+  describe('editDistance', () => {
+    it('should count insertions, deletions, substitutions and transpositions', () => {
+      expect(editDistance('stapller', 'stapler')).toBe(1);
+      expect(editDistance('moniter', 'monitor')).toBe(1);
+      expect(editDistance('chiar', 'chair')).toBe(1);
+      expect(editDistance('mouse', 'house')).toBe(1);
+      expect(editDistance('', 'pen')).toBe(3);
+      expect(editDistance('desk', 'desk')).toBe(0);
+    });
+  });
+
+  describe('maxTypoDistance', () => {
+    it('should scale with word length and skip short words and numbers', () => {
+      expect(maxTypoDistance('pen')).toBe(0);
+      expect(maxTypoDistance('2024')).toBe(0);
+      expect(maxTypoDistance('chair')).toBe(1);
+      expect(maxTypoDistance('keyboards')).toBe(2);
+    });
+  });
+
+  describe('correctTerm', () => {
+    it('should return the closest vocabulary word', () => {
+      expect(correctTerm('stapller', dictionary.vocabulary)).toBe('stapler');
+      expect(correctTerm('moniter', dictionary.vocabulary)).toBe('monitor');
+    });
+
+    it('should leave known words, plurals and unknown words alone', () => {
+      expect(correctTerm('stapler', dictionary.vocabulary)).toBeUndefined();
+      expect(correctTerm('chairs', dictionary.vocabulary)).toBeUndefined();
+      expect(correctTerm('projector', dictionary.vocabulary)).toBeUndefined();
+      expect(correctTerm('hbu', dictionary.vocabulary)).toBeUndefined();
+    });
+  });
+
+  describe('normalizeSynonymTerms', () => {
+    it('should lowercase, split punctuation and drop duplicates', () => {
+      expect(
+        normalizeSynonymTerms([' USB-C ', 'usb c', 'Type  C', '  '])
+      ).toEqual(['usb c', 'type c']);
+    });
+  });
+
+  describe('expandSearchQuery', () => {
+    it('should add corrections and suggest the corrected query', () => {
+      expect(expandSearchQuery('stapller', dictionary)).toEqual({
+        query: 'stapller stapler',
+        didYouMean: 'stapler',
+      });
+    });
+
+    it('should add the other terms of matching synonym groups', () => {
+      expect(expandSearchQuery('Notepad', dictionary)).toEqual({
+        query: 'Notepad notebook',
+      });
+      expect(expandSearchQuery('USB-C hub', dictionary)).toEqual({
+        query: 'USB-C hub type',
+      });
+    });
+
+    it('should apply synonyms to corrected words', () => {
+      expect(expandSearchQuery('notpad', dictionary)).toEqual({
+        query: 'notpad notepad notebook',
+        didYouMean: 'notepad',
+      });
+    });
+
+    it('should keep queries without typos or synonyms unchanged', () => {
+      expect(expandSearchQuery('"office chair"', dictionary)).toEqual({
+        query: '"office chair"',
+      });
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Catalog Query Expansion
+ *
+ * Pure helpers that make keyword search tolerant of typos and aware of
+ * synonyms before the query reaches the MongoDB text index:
+ * - Typo correction against the catalog vocabulary (edit distance)
+ * - Synonym expansion from the admin-managed dictionary
+ * - "Did you mean" suggestion for corrected queries
+ * - Normalization of synonym terms
+ *
+ * $text matches any word of a query, so expansion only appends terms:
+ * the original words (including quoted phrases and negations) still
+ * match and keep their weight.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Known words and synonym groups the query is expanded with
+ */
+export interface SearchDictionary {
+  /** Words of catalog items and synonym terms (lowercase) */
+  vocabulary: ReadonlySet<string>;
+
+  /** Synonym groups (normalized terms, see normalizeSynonymTerm) */
+  synonyms: string[][];
+}
+
+/**
+ * Expanded search query
+ */
+export interface ExpandedQuery {
+  /** Query for the text index: original query plus added terms */
+  query: string;
+
+  /** Query with misspelled words corrected (only when a word was) */
+  didYouMean?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Shorter words are never corrected ("pen" is not a typo of "pin") */
+export const MIN_CORRECTABLE_TERM_LENGTH = 4;
+
+/** Words up to this length tolerate 1 edit, longer words 2 */
+const ONE_EDIT_MAX_LENGTH = 7;
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Split text into lowercase words (letters and digits)
+ * "USB-C Hub" → ["usb", "c", "hub"]
+ */
+export function tokenizeSearchText(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 0);
+}
+
+/**
+ * Normalize a synonym term: lowercase words separated by single spaces
+ * "USB-C" → "usb c", so it matches the way queries are tokenized.
+ */
+export function normalizeSynonymTerm(term: string): string {
+  return tokenizeSearchText(term).join(' ');
+}
+
+/**
+ * Normalize the terms of a synonym group (empty terms and duplicates are
+ * dropped, order is kept)
+ */
+export function normalizeSynonymTerms(terms: string[]): string[] {
+  return [...new Set(terms.map(normalizeSynonymTerm))].filter(
+    (term) => term.length > 0
+  );
+}
+
+/**
+ * Edit distance between two words (insertions, deletions, substitutions
+ * and transpositions of adjacent letters each count 1)
+ */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : i))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * Maximum number of edits tolerated for a word
+ */
+export function maxTypoDistance(term: string): number {
+  if (term.length < MIN_CORRECTABLE_TERM_LENGTH || /^\d+$/.test(term)) {
+    return 0;
+  }
+  return term.length <= ONE_EDIT_MAX_LENGTH ? 1 : 2;
+}
+
+/**
+ * Closest vocabulary word for a misspelled word
+ * Known words (including simple plurals of known words) are not
+ * corrected. Ties go to the alphabetically first word.
+ *
+ * @returns Correction, or undefined when the word is known or nothing
+ * is close enough
+ */
+export function correctTerm(
+  term: string,
+  vocabulary: ReadonlySet<string>
+): string | undefined {
+  const maxDistance = maxTypoDistance(term);
+  if (maxDistance === 0 || isKnownTerm(term, vocabulary)) {
+    return undefined;
+  }
+
+  let best: { word: string; distance: number } | undefined;
+  for (const word of vocabulary) {
+    if (Math.abs(word.length - term.length) > maxDistance) {
+      continue;
+    }
+    const distance = editDistance(term, word);
+    if (
+      distance <= maxDistance &&
+      (!best ||
+        distance < best.distance ||
+        (distance === best.distance && word < best.word))
+    ) {
+      best = { word, distance };
+    }
+  }
+
+  return best?.word;
+}
+
+/**
+ * Expand a keyword query with typo corrections and synonyms
+ *
+ * Synonym groups apply when one of their terms appears in the (corrected)
+ * query as whole words; the other terms of the group are added.
+ */
+export function expandSearchQuery(
+  q: string,
+  dictionary: SearchDictionary
+): ExpandedQuery {
+  const terms = tokenizeSearchText(q);
+  const corrected = terms.map(
+    (term) => correctTerm(term, dictionary.vocabulary) ?? term
+  );
+  const hasCorrections = corrected.some((term, i) => term !== terms[i]);
+
+  const padded = ` ${corrected.join(' ')} `;
+  const synonymTerms = dictionary.synonyms
+    .filter((group) => group.some((term) => padded.includes(` ${term} `)))
+    .flatMap((group) => group.flatMap(tokenizeSearchText));
+
+  const added = [...new Set([...corrected, ...synonymTerms])].filter(
+    (term) => !terms.includes(term)
+  );
+
+  return {
+    query: added.length > 0 ? `${q} ${added.join(' ')}` : q,
+    ...(hasCorrections && { didYouMean: corrected.join(' ') }),
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Whether a word (or its singular) is in the vocabulary
+ */
+function isKnownTerm(term: string, vocabulary: ReadonlySet<string>): boolean {
+  return (
+    vocabulary.has(term) ||
+    vocabulary.has(`${term}s`) ||
+    (term.endsWith('s') && vocabulary.has(term.slice(0, -1))) ||
+    (term.endsWith('es') && vocabulary.has(term.slice(0, -2)))
+  );
+}
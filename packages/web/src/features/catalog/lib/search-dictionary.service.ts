@@ -0,0 +1,82 @@
+/**
+ * Search Dictionary Service
+ *
+ * Builds the dictionary keyword searches are expanded with (see
+ * query-expansion):
+ * - Vocabulary: words of active catalog items and synonym terms
+ * - Synonym groups managed by admins (see search-synonym.service)
+ *
+ * The dictionary is kept in the search cache, so it is rebuilt whenever
+ * items or synonyms change (both invalidate the cache).
+ */
+
+import { ItemStatus } from '@/domain/entities';
+import { cacheSearchResults, getCachedSearch } from '@/lib/cache/searchCache';
+import { ItemModel, SearchSynonymModel } from '@/lib/db/models';
+import connectDB from '@/lib/db/mongoose';
+import { logger } from '@/lib/logger/winston.config';
+
+import type { ExpandedQuery, SearchDictionary } from './query-expansion';
+import { expandSearchQuery, tokenizeSearchText } from './query-expansion';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DICTIONARY_CACHE_KEY = 'search-dictionary';
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+/**
+ * Get the search dictionary (cached)
+ */
+export async function getSearchDictionary(): Promise<SearchDictionary> {
+  const cached = getCachedSearch<SearchDictionary>(DICTIONARY_CACHE_KEY);
+  if (cached) {
+    return cached;
+  }
+
+  await connectDB();
+
+  const [items, synonyms] = await Promise.all([
+    ItemModel.find({ status: ItemStatus.Active })
+      .select('name category description')
+      .lean()
+      .exec(),
+    SearchSynonymModel.find().select('terms').lean().exec(),
+  ]);
+
+  const groups = synonyms.map((synonym) => synonym.terms);
+  const vocabulary = new Set([
+    ...items.flatMap((item) =>
+      tokenizeSearchText(`${item.name} ${item.category} ${item.description}`)
+    ),
+    ...groups.flat().flatMap(tokenizeSearchText),
+  ]);
+
+  const dictionary = { vocabulary, synonyms: groups };
+  cacheSearchResults(DICTIONARY_CACHE_KEY, dictionary);
+
+  logger.debug('Search dictionary built', {
+    words: vocabulary.size,
+    synonymGroups: groups.length,
+  });
+
+  return dictionary;
+}
+
+/**
+ * Expand a search keyword with typo corrections and synonyms
+ * Searches fall back to the plain keyword when the dictionary cannot be
+ * loaded.
+ */
+export async function expandKeyword(q: string): Promise<ExpandedQuery> {
+  try {
+    return expandSearchQuery(q, await getSearchDictionary());
+  } catch (error) {
+    logger.warn('Search query expansion unavailable', { query: q, error });
+    return { query: q };
+  }
+}
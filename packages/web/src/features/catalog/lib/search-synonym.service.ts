@@ -0,0 +1,257 @@
+/**
+ * Search Synonym Service
+ *
+ * Admin management of the catalog search synonym dictionary:
+ * - List, create, update and delete synonym groups
+ * - Terms are normalized ("USB-C" → "usb c") and may belong to one
+ *   group only
+ *
+ * Every change invalidates the search cache, so searches pick up the
+ * new dictionary right away (see search-dictionary.service).
+ */
+
+import { Types } from 'mongoose';
+
+import type { SearchSynonym } from '@/domain/entities';
+import { invalidateSearchCache } from '@/lib/cache/searchCache';
+import { mapSearchSynonymToEntity } from '@/lib/db/mappers';
+import {
+  MAX_SYNONYM_TERM_LENGTH,
+  MAX_SYNONYM_TERMS,
+  MIN_SYNONYM_TERMS,
+  SearchSynonymModel,
+} from '@/lib/db/models';
+import connectDB from '@/lib/db/mongoose';
+import { logger } from '@/lib/logger/winston.config';
+
+import { ValidationError } from './catalog.service';
+import { normalizeSynonymTerms } from './query-expansion';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Synonym group input
+ */
+export interface SearchSynonymInput {
+  /** Equivalent terms (normalized before saving) */
+  terms: string[];
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export class SearchSynonymNotFoundError extends Error {
+  constructor(synonymId: string) {
+    super(`Search synonym group not found: ${synonymId}`);
+    this.name = 'SearchSynonymNotFoundError';
+  }
+}
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+/**
+ * List synonym groups, newest first
+ */
+export async function listSearchSynonyms(): Promise<SearchSynonym[]> {
+  await connectDB();
+
+  try {
+    const synonyms = await SearchSynonymModel.find({})
+      .sort({ createdAt: -1 })
+      .lean()
+      .exec();
+
+    return synonyms.map(mapSearchSynonymToEntity);
+  } catch (error) {
+    logger.error('Error listing search synonyms', { error });
+    throw new Error('Failed to list search synonyms');
+  }
+}
+
+/**
+ * Create a synonym group
+ *
+ * @throws {ValidationError} if the terms are invalid or already in a group
+ */
+export async function createSearchSynonym(
+  input: SearchSynonymInput,
+  userId: string
+): Promise<SearchSynonym> {
+  const terms = validateSynonymTerms(input);
+
+  await connectDB();
+
+  try {
+    await assertTermsAvailable(terms);
+
+    const synonym = await SearchSynonymModel.create({
+      terms,
+      createdByUserId: new Types.ObjectId(userId),
+    });
+
+    invalidateSearchCache();
+
+    logger.info('Search synonym group created', {
+      synonymId: synonym._id.toString(),
+      terms,
+      userId,
+    });
+
+    return mapSearchSynonymToEntity(synonym.toObject());
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    logger.error('Error creating search synonym', { terms, error });
+    throw new Error('Failed to create search synonym');
+  }
+}
+
+/**
+ * Replace the terms of a synonym group
+ *
+ * @throws {SearchSynonymNotFoundError} if the group does not exist
+ * @throws {ValidationError} if the terms are invalid or already in a group
+ */
+export async function updateSearchSynonym(
+  synonymId: string,
+  input: SearchSynonymInput
+): Promise<SearchSynonym> {
+  if (!Types.ObjectId.isValid(synonymId)) {
+    throw new ValidationError('Invalid synonym ID format');
+  }
+  const terms = validateSynonymTerms(input);
+
+  await connectDB();
+
+  try {
+    await assertTermsAvailable(terms, synonymId);
+
+    const synonym = await SearchSynonymModel.findByIdAndUpdate(
+      synonymId,
+      { $set: { terms } },
+      { new: true, runValidators: true }
+    )
+      .lean()
+      .exec();
+
+    if (!synonym) {
+      throw new SearchSynonymNotFoundError(synonymId);
+    }
+
+    invalidateSearchCache();
+
+    logger.info('Search synonym group updated', { synonymId, terms });
+
+    return mapSearchSynonymToEntity(synonym);
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof SearchSynonymNotFoundError
+    ) {
+      throw error;
+    }
+    logger.error('Error updating search synonym', { synonymId, error });
+    throw new Error('Failed to update search synonym');
+  }
+}
+
+/**
+ * Delete a synonym group
+ *
+ * @throws {SearchSynonymNotFoundError} if the group does not exist
+ */
+export async function deleteSearchSynonym(synonymId: string): Promise<void> {
+  if (!Types.ObjectId.isValid(synonymId)) {
+    throw new ValidationError('Invalid synonym ID format');
+  }
+
+  await connectDB();
+
+  try {
+    const deleted = await SearchSynonymModel.findByIdAndDelete(synonymId)
+      .lean()
+      .exec();
+
+    if (!deleted) {
+      throw new SearchSynonymNotFoundError(synonymId);
+    }
+
+    invalidateSearchCache();
+
+    logger.info('Search synonym group deleted', { synonymId });
+  } catch (error) {
+    if (error instanceof SearchSynonymNotFoundError) {
+      throw error;
+    }
+    logger.error('Error deleting search synonym', { synonymId, error });
+    throw new Error('Failed to delete search synonym');
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Normalize and validate the terms of a group
+ */
+function validateSynonymTerms(input: SearchSynonymInput): string[] {
+  if (
+    !Array.isArray(input?.terms) ||
+    input.terms.some((term) => typeof term !== 'string')
+  ) {
+    throw new ValidationError('Terms must be an array of strings');
+  }
+
+  const terms = normalizeSynonymTerms(input.terms);
+
+  if (terms.length < MIN_SYNONYM_TERMS) {
+    throw new ValidationError(
+      `A synonym group needs at least ${MIN_SYNONYM_TERMS} different terms`
+    );
+  }
+  if (terms.length > MAX_SYNONYM_TERMS) {
+    throw new ValidationError(
+      `A synonym group can have at most ${MAX_SYNONYM_TERMS} terms`
+    );
+  }
+
+  const tooLong = terms.find((term) => term.length > MAX_SYNONYM_TERM_LENGTH);
+  if (tooLong) {
+    throw new ValidationError(
+      `Term "${tooLong}" must not exceed ${MAX_SYNONYM_TERM_LENGTH} characters`
+    );
+  }
+
+  return terms;
+}
+
+/**
+ * Refuse terms that already belong to another group
+ */
+async function assertTermsAvailable(
+  terms: string[],
+  excludeSynonymId?: string
+): Promise<void> {
+  const existing = await SearchSynonymModel.findOne({
+    terms: { $in: terms },
+    ...(excludeSynonymId && {
+      _id: { $ne: new Types.ObjectId(excludeSynonymId) },
+    }),
+  })
+    .lean()
+    .exec();
+
+  if (existing) {
+    const taken = terms.filter((term) => existing.terms.includes(term));
+    throw new ValidationError(
+      `Already in another synonym group: ${taken.join(', ')}`
+    );
+  }
+}
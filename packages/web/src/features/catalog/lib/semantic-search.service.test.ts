@@ -0,0 +1,142 @@
+import { Types } from 'mongoose';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ItemEmbeddingModel } from '@/lib/db/models';
+
+import * as embeddingConfig from './embedding-config';
+import type { EmbeddingProvider } from './embedding-provider';
+import {
+  findSimilarItems,
+  refreshItemEmbeddings,
+} from './semantic-search.service';
+
+vi.mock('@/lib/db/mongoose', () => ({ default: vi.fn() }));
+vi.mock('./embedding-config', () => ({
+  getEmbeddingProvider: vi.fn(),
+  getVectorSearchIndex: vi.fn(),
+}));
+
+/**
+ * Semantic Search Service Tests
+ *
+ * Models and the embedding provider are mocked; the tests cover which
+ * texts are embedded and how stored vectors are searched.
+ */
+
+const CHAIR_ID = new Types.ObjectId();
+const DESK_ID = new Types.ObjectId();
+const PEN_ID = new Types.ObjectId();
+
+const provider = {
+  key: 'test:model',
+  embed: vi.fn(async (texts: string[]) => texts.map(() => [1, 0])),
+} as unknown as EmbeddingProvider & {
+  embed: ReturnType<typeof vi.fn>;
+};
+
+function mockStoredVectors(
+  embeddings: Array<{ itemId: Types.ObjectId; vector: number[] }>
+) {
+  vi.spyOn(ItemEmbeddingModel, 'find').mockReturnValue({
+    select: () => ({
+      lean: () => ({
+        cursor: () => embeddings.values(),
+        exec: async () => [],
+      }),
+    }),
+  } as never);
+}
+
+describe('semantic-search.service', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+    vi.mocked(embeddingConfig.getEmbeddingProvider).mockReturnValue(provider);
+    vi.mocked(embeddingConfig.getVectorSearchIndex).mockReturnValue(undefined);
+  });
+
+  describe('findSimilarItems', () => {
+    it('should rank every stored vector and only embed the query', async () => {
+      mockStoredVectors([
+        { itemId: PEN_ID, vector: [0, 1] },
+        { itemId: CHAIR_ID, vector: [1, 0] },
+        { itemId: DESK_ID, vector: [1, 1] },
+      ]);
+
+      const similarities = await findSimilarItems('something to sit on', 2);
+
+      expect(provider.embed).toHaveBeenCalledExactlyOnceWith([
+        'something to sit on',
+      ]);
+      expect([...similarities.keys()]).toEqual([
+        CHAIR_ID.toString(),
+        DESK_ID.toString(),
+      ]);
+      expect(similarities.get(CHAIR_ID.toString())).toBeCloseTo(1);
+    });
+
+    it('should use Atlas Vector Search when an index is configured', async () => {
+      vi.mocked(embeddingConfig.getVectorSearchIndex).mockReturnValue(
+        'item_embeddings_vector_idx'
+      );
+      const aggregate = vi
+        .spyOn(ItemEmbeddingModel, 'aggregate')
+        .mockReturnValue({
+          exec: async () => [{ itemId: CHAIR_ID, score: 0.9 }],
+        } as never);
+
+      const similarities = await findSimilarItems('chair', 5);
+
+      expect(aggregate.mock.calls[0][0]?.[0]).toMatchObject({
+        $vectorSearch: {
+          index: 'item_embeddings_vector_idx',
+          filter: { provider: 'test:model' },
+          limit: 5,
+        },
+      });
+      expect(similarities.get(CHAIR_ID.toString())).toBeCloseTo(0.8);
+    });
+  });
+
+  describe('refreshItemEmbeddings', () => {
+    it('should only embed items without a current vector', async () => {
+      vi.spyOn(ItemEmbeddingModel, 'find').mockReturnValue({
+        select: () => ({ lean: () => ({ exec: async () => [] }) }),
+      } as never);
+      const bulkWrite = vi
+        .spyOn(ItemEmbeddingModel, 'bulkWrite')
+        .mockResolvedValue({} as never);
+
+      const items = [
+        {
+          id: CHAIR_ID.toString(),
+          name: 'Office Chair',
+          category: 'Furniture',
+          description: 'Ergonomic',
+        },
+      ];
+      await expect(refreshItemEmbeddings(items)).resolves.toBe(1);
+      expect(bulkWrite).toHaveBeenCalledOnce();
+
+      // Stored with the hash of the same text: nothing left to embed
+      const [[operation]] = bulkWrite.mock.calls[0] as unknown as [
+        [{ updateOne: { update: { $set: { contentHash: string } } } }],
+      ];
+      vi.spyOn(ItemEmbeddingModel, 'find').mockReturnValue({
+        select: () => ({
+          lean: () => ({
+            exec: async () => [
+              {
+                itemId: CHAIR_ID,
+                contentHash: operation.updateOne.update.$set.contentHash,
+              },
+            ],
+          }),
+        }),
+      } as never);
+
+      await expect(refreshItemEmbeddings(items)).resolves.toBe(0);
+      expect(provider.embed).toHaveBeenCalledOnce();
+    });
+  });
+});
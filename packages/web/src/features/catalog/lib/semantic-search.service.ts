@@ -0,0 +1,310 @@
+/**
+ * Semantic Search Service
+ *
+ * Vector index for semantic catalog search, backed by the configured
+ * embedding provider (see embedding-config):
+ * - Refresh item embeddings when items are created, updated or imported
+ *   (in the background, so writes do not wait for the provider)
+ * - Backfill missing or stale embeddings of the whole catalog
+ *   (db:backfill-embeddings, e.g. after a provider switch)
+ * - Nearest items to a search query across the catalog, with Atlas
+ *   Vector Search when an index is configured and a scan of the stored
+ *   vectors otherwise
+ *
+ * Searches only embed the query; items without a current vector are not
+ * embedded on the request path. Ranking (hybrid of text score and
+ * similarity) is left to the catalog service.
+ */
+
+import { createHash } from 'crypto';
+
+import { Types } from 'mongoose';
+
+import type { Item } from '@/domain/entities';
+import { ItemEmbeddingModel, ItemModel } from '@/lib/db/models';
+import connectDB from '@/lib/db/mongoose';
+import { logger } from '@/lib/logger/winston.config';
+
+import { getEmbeddingProvider, getVectorSearchIndex } from './embedding-config';
+import { buildItemEmbeddingText, cosineSimilarity } from './semantic-search';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Item fields the embedding is computed from
+ */
+export type EmbeddableItem = Pick<
+  Item,
+  'id' | 'name' | 'category' | 'description'
+>;
+
+export interface EmbeddingBackfillResult {
+  /** Items checked */
+  scanned: number;
+
+  /** Items (re-)embedded */
+  embedded: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Items sent to the provider in one call (hosted providers cap batch sizes)
+const EMBEDDING_BATCH_SIZE = 100;
+
+// Atlas Vector Search candidates per result, and the Atlas maximum
+const VECTOR_SEARCH_OVERSAMPLING = 10;
+const MAX_VECTOR_SEARCH_CANDIDATES = 10000;
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+/**
+ * Compute and store the embeddings of items
+ * Items whose embedded text did not change keep their vector.
+ *
+ * @returns Number of items embedded
+ * @throws {EmbeddingProviderError} if the provider fails
+ */
+export async function refreshItemEmbeddings(
+  items: EmbeddableItem[]
+): Promise<number> {
+  let embedded = 0;
+  for (let start = 0; start < items.length; start += EMBEDDING_BATCH_SIZE) {
+    embedded += await embedStaleItems(
+      items.slice(start, start + EMBEDDING_BATCH_SIZE)
+    );
+  }
+  return embedded;
+}
+
+/**
+ * Refresh item embeddings without blocking the caller
+ * Failures are logged; the backfill picks the items up later.
+ */
+export function startEmbeddingRefresh(items: EmbeddableItem[]): void {
+  void refreshItemEmbeddings(items).catch((error) => {
+    logger.warn('Failed to refresh item embeddings', {
+      itemIds: items.map((item) => item.id),
+      error,
+    });
+  });
+}
+
+/**
+ * Embed every item in the catalog that has no current vector for the
+ * configured provider
+ *
+ * @throws {EmbeddingProviderError} if the provider fails
+ */
+export async function backfillItemEmbeddings(): Promise<EmbeddingBackfillResult> {
+  await connectDB();
+
+  const result: EmbeddingBackfillResult = { scanned: 0, embedded: 0 };
+  let batch: EmbeddableItem[] = [];
+
+  const flush = async () => {
+    result.scanned += batch.length;
+    result.embedded += await embedStaleItems(batch);
+    batch = [];
+  };
+
+  const cursor = ItemModel.find({})
+    .select('name category description')
+    .sort({ _id: 1 })
+    .lean()
+    .cursor();
+  for await (const item of cursor) {
+    batch.push({
+      id: item._id.toString(),
+      name: item.name,
+      category: item.category,
+      description: item.description,
+    });
+    if (batch.length === EMBEDDING_BATCH_SIZE) {
+      await flush();
+    }
+  }
+  await flush();
+
+  logger.info('Item embeddings backfilled', {
+    provider: getEmbeddingProvider().key,
+    ...result,
+  });
+
+  return result;
+}
+
+/**
+ * Remove the embeddings of an item (all providers)
+ */
+export async function removeItemEmbeddings(itemId: string): Promise<void> {
+  await connectDB();
+
+  await ItemEmbeddingModel.deleteMany({
+    itemId: new Types.ObjectId(itemId),
+  }).exec();
+}
+
+/**
+ * Items nearest to a query across the catalog
+ * Only items with a stored vector for the configured provider are found.
+ *
+ * @param limit - Maximum number of items
+ * @returns Item ID → cosine similarity (-1 to 1), nearest first
+ * @throws {EmbeddingProviderError} if the provider fails
+ */
+export async function findSimilarItems(
+  query: string,
+  limit: number
+): Promise<Map<string, number>> {
+  const provider = getEmbeddingProvider();
+  const [queryVector = []] = await provider.embed([query]);
+
+  await connectDB();
+
+  const index = getVectorSearchIndex();
+  const matches = index
+    ? await ItemEmbeddingModel.aggregate<{
+        itemId: Types.ObjectId;
+        score: number;
+      }>([
+        {
+          $vectorSearch: {
+            index,
+            path: 'vector',
+            queryVector,
+            filter: { provider: provider.key },
+            numCandidates: Math.min(
+              limit * VECTOR_SEARCH_OVERSAMPLING,
+              MAX_VECTOR_SEARCH_CANDIDATES
+            ),
+            limit,
+          },
+        },
+        {
+          $project: {
+            _id: 0,
+            itemId: 1,
+            score: { $meta: 'vectorSearchScore' },
+          },
+        },
+      ])
+        .exec()
+        .then((results) =>
+          // Atlas reports cosine similarity as (1 + similarity) / 2
+          results.map((result) => ({
+            id: result.itemId.toString(),
+            similarity: result.score * 2 - 1,
+          }))
+        )
+    : await scanItemVectors(provider.key, queryVector, limit);
+
+  return new Map(matches.map((match) => [match.id, match.similarity]));
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Compare a query with every stored vector of a provider
+ * Fallback for deployments without an Atlas Vector Search index.
+ */
+async function scanItemVectors(
+  providerKey: string,
+  queryVector: number[],
+  limit: number
+): Promise<Array<{ id: string; similarity: number }>> {
+  const matches: Array<{ id: string; similarity: number }> = [];
+
+  const cursor = ItemEmbeddingModel.find({ provider: providerKey })
+    .select('itemId vector')
+    .lean()
+    .cursor();
+  for await (const embedding of cursor) {
+    matches.push({
+      id: embedding.itemId.toString(),
+      similarity: cosineSimilarity(queryVector, embedding.vector),
+    });
+  }
+
+  return matches.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+}
+
+/**
+ * Embed (and store) the items that have no vector for the configured
+ * provider or whose vector was computed from an older text
+ *
+ * @returns Number of items embedded
+ */
+async function embedStaleItems(items: EmbeddableItem[]): Promise<number> {
+  if (items.length === 0) {
+    return 0;
+  }
+
+  const provider = getEmbeddingProvider();
+  const entries = items.map((item) => {
+    const text = buildItemEmbeddingText(item);
+    return {
+      id: item.id,
+      text,
+      contentHash: createHash('sha256').update(text).digest('hex'),
+    };
+  });
+
+  await connectDB();
+
+  const stored = await ItemEmbeddingModel.find({
+    provider: provider.key,
+    itemId: { $in: entries.map((entry) => new Types.ObjectId(entry.id)) },
+  })
+    .select('itemId contentHash')
+    .lean()
+    .exec();
+  const storedHashes = new Map(
+    stored.map((embedding) => [
+      embedding.itemId.toString(),
+      embedding.contentHash,
+    ])
+  );
+
+  const stale = entries.filter(
+    (entry) => storedHashes.get(entry.id) !== entry.contentHash
+  );
+
+  if (stale.length === 0) {
+    return 0;
+  }
+
+  const embedded = await provider.embed(stale.map((entry) => entry.text));
+
+  await ItemEmbeddingModel.bulkWrite(
+    stale.map((entry, index) => ({
+      updateOne: {
+        filter: {
+          itemId: new Types.ObjectId(entry.id),
+          provider: provider.key,
+        },
+        update: {
+          $set: {
+            contentHash: entry.contentHash,
+            vector: embedded[index],
+          },
+        },
+        upsert: true,
+      },
+    }))
+  );
+
+  logger.debug('Item embeddings refreshed', {
+    provider: provider.key,
+    count: stale.length,
+  });
+
+  return stale.length;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildItemEmbeddingText,
+  cosineSimilarity,
+  isCatalogSearchMode,
+  rankHybrid,
+} from './semantic-search';
+
+describe('semantic-search', () => {
+  describe('isCatalogSearchMode', () => {
+    it('should accept known modes only', () => {
+      expect(isCatalogSearchMode('keyword')).toBe(true);
+      expect(isCatalogSearchMode('semantic')).toBe(true);
+      expect(isCatalogSearchMode('fuzzy')).toBe(false);
+      expect(isCatalogSearchMode(undefined)).toBe(false);
+    });
+  });
+
+  describe('buildItemEmbeddingText', () => {
+    it('should join name, category and description', () => {
+      expect(
+        buildItemEmbeddingText({
+          name: 'Ergonomic Chair',
+          category: 'Furniture',
+          description: 'Adjustable office chair',
+        })
+      ).toBe('Ergonomic Chair. Furniture. Adjustable office chair');
+    });
+  });
+
+  describe('cosineSimilarity', () => {
+    it('should compare vector directions', () => {
+      expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+      expect(cosineSimilarity([1, 0], [0, 3])).toBeCloseTo(0);
+      expect(cosineSimilarity([1, 1], [-1, -1])).toBeCloseTo(-1);
+    });
+
+    it('should return 0 for empty, zero or mismatched vectors', () => {
+      expect(cosineSimilarity([], [])).toBe(0);
+      expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+      expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    });
+  });
+
+  describe('rankHybrid', () => {
+    it('should combine similarity with the normalized text score', () => {
+      expect(
+        rankHybrid(
+          [
+            { id: 'a', similarity: 0.5, textScore: 2 },
+            { id: 'b', similarity: 0.9 },
+            { id: 'c', similarity: 0.5, textScore: 1 },
+          ],
+          { semanticWeight: 0.5 }
+        )
+      ).toEqual([
+        { id: 'a', score: 0.75 },
+        { id: 'c', score: 0.5 },
+        { id: 'b', score: 0.45 },
+      ]);
+    });
+
+    it('should drop dissimilar candidates without a text match', () => {
+      expect(
+        rankHybrid(
+          [
+            { id: 'a', similarity: 0.1 },
+            { id: 'b', similarity: 0.1, textScore: 1 },
+            { id: 'c', similarity: 0.4 },
+          ],
+          { minSimilarity: 0.25 }
+        ).map((candidate) => candidate.id)
+      ).toEqual(['b', 'c']);
+    });
+
+    it('should break ties by ID', () => {
+      expect(
+        rankHybrid([
+          { id: 'b', similarity: 0.5 },
+          { id: 'a', similarity: 0.5 },
+        ]).map((candidate) => candidate.id)
+      ).toEqual(['a', 'b']);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Semantic Catalog Search
+ *
+ * Pure rules for embedding-based catalog search:
+ * - Text embedded for an item (name, category, description)
+ * - Cosine similarity between vectors
+ * - Hybrid ranking of text score and similarity
+ *
+ * Kept free of database and provider access so it can be unit tested;
+ * vectors are stored and compared by the semantic search service.
+ */
+
+import type { Item } from '@/domain/entities';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Catalog search mode
+ * - keyword: Mongo text search only
+ * - semantic: hybrid of text score and embedding similarity
+ */
+export const CATALOG_SEARCH_MODES = ['keyword', 'semantic'] as const;
+
+export type CatalogSearchMode = (typeof CATALOG_SEARCH_MODES)[number];
+
+/**
+ * Search candidate with its similarity to the query and, when it matched
+ * the keywords, its text score
+ */
+export interface SemanticCandidate {
+  id: string;
+  similarity: number;
+  textScore?: number;
+}
+
+export interface RankedCandidate {
+  id: string;
+  score: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Weight of the similarity in the hybrid score (the text score gets the rest) */
+export const SEMANTIC_WEIGHT = 0.7;
+
+/** Candidates below this similarity are dropped unless they matched the keywords */
+export const MIN_SEMANTIC_SIMILARITY = 0.25;
+
+/** Nearest items (by embedding) considered in one search */
+export const MAX_SEMANTIC_CANDIDATES = 1000;
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Type guard for search modes
+ */
+export function isCatalogSearchMode(
+  value: unknown
+): value is CatalogSearchMode {
+  return (
+    typeof value === 'string' &&
+    (CATALOG_SEARCH_MODES as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Text embedded for an item
+ * Name and category lead so short descriptions do not drown them.
+ */
+export function buildItemEmbeddingText(
+  item: Pick<Item, 'name' | 'category' | 'description'>
+): string {
+  return `${item.name}. ${item.category}. ${item.description}`;
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is empty or all zeros)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] ** 2;
+    normB += b[i] ** 2;
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Rank candidates by a hybrid of similarity and text score
+ *
+ * Text scores are normalized by the best text score of the search, so
+ * both parts range from 0 to 1. Candidates that neither matched the
+ * keywords nor reach the minimum similarity are dropped.
+ *
+ * @returns Candidates, best first (ties by ID for a stable order)
+ */
+export function rankHybrid(
+  candidates: SemanticCandidate[],
+  options: { semanticWeight?: number; minSimilarity?: number } = {}
+): RankedCandidate[] {
+  const semanticWeight = options.semanticWeight ?? SEMANTIC_WEIGHT;
+  const minSimilarity = options.minSimilarity ?? MIN_SEMANTIC_SIMILARITY;
+  const maxTextScore = Math.max(
+    0,
+    ...candidates.map((candidate) => candidate.textScore ?? 0)
+  );
+
+  return candidates
+    .filter(
+      (candidate) =>
+        candidate.similarity >= minSimilarity || (candidate.textScore ?? 0) > 0
+    )
+    .map((candidate) => ({
+      id: candidate.id,
+      score:
+        semanticWeight * candidate.similarity +
+        (1 - semanticWeight) *
+          (maxTextScore > 0 ? (candidate.textScore ?? 0) / maxTextScore : 0),
+    }))
+    .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+}
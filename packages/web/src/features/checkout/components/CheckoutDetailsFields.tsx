@@ -0,0 +1,290 @@
+'use client';
+
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { useSession } from 'next-auth/react';
+import { useEffect, useState } from 'react';
+
+import { Button, Input, Label } from '@/components';
+import type { DeliveryLocation } from '@/domain/entities';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+
+const selectClassName =
+  'border-input h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs disabled:opacity-50';
+
+/**
+ * Line override as edited in the form (empty string = inherit)
+ */
+export interface CheckoutLineDetailsValue {
+  glCode: string;
+  deliveryLocationId: string;
+  requestedDeliveryDate: string;
+}
+
+/**
+ * Checkout details as edited in the form (empty string = not set)
+ */
+export interface CheckoutDetailsValue {
+  costCenter: string;
+  glCode: string;
+  deliveryLocationId: string;
+  requestedDeliveryDate: string;
+
+  /** Overrides keyed by item ID */
+  lines: Record<string, CheckoutLineDetailsValue>;
+}
+
+export const EMPTY_CHECKOUT_DETAILS: CheckoutDetailsValue = {
+  costCenter: '',
+  glCode: '',
+  deliveryLocationId: '',
+  requestedDeliveryDate: '',
+  lines: {},
+};
+
+const EMPTY_LINE_DETAILS: CheckoutLineDetailsValue = {
+  glCode: '',
+  deliveryLocationId: '',
+  requestedDeliveryDate: '',
+};
+
+/**
+ * Build the POST /api/checkout body fields, leaving out empty values
+ * and overrides of lines no longer in the cart
+ */
+export function toCheckoutDetailsBody(
+  value: CheckoutDetailsValue,
+  itemIds: string[]
+) {
+  const optional = (field: string) => field.trim() || undefined;
+  const lineOverrides = Object.entries(value.lines)
+    .filter(([itemId]) => itemIds.includes(itemId))
+    .map(([itemId, line]) => ({
+      itemId,
+      glCode: optional(line.glCode),
+      deliveryLocationId: optional(line.deliveryLocationId),
+      requestedDeliveryDate: optional(line.requestedDeliveryDate),
+    }))
+    .filter(
+      (line) =>
+        line.glCode || line.deliveryLocationId || line.requestedDeliveryDate
+    );
+
+  return {
+    costCenter: optional(value.costCenter),
+    glCode: optional(value.glCode),
+    deliveryLocationId: optional(value.deliveryLocationId),
+    requestedDeliveryDate: optional(value.requestedDeliveryDate),
+    lineOverrides: lineOverrides.length > 0 ? lineOverrides : undefined,
+  };
+}
+
+interface CheckoutDetailsFieldsProps {
+  value: CheckoutDetailsValue;
+  onChange: (value: CheckoutDetailsValue) => void;
+
+  /** Cart lines that can be given their own details */
+  lines: { itemId: string; name: string }[];
+  disabled?: boolean;
+}
+
+/**
+ * CheckoutDetailsFields - Delivery and accounting details for checkout
+ * Features:
+ * - Delivery location from the managed list and requested delivery date
+ * - GL code, and the cost center for budget managers (everyone else
+ *   charges their own)
+ * - Optional per-line GL code, location and date overrides
+ */
+export function CheckoutDetailsFields({
+  value,
+  onChange,
+  lines,
+  disabled = false,
+}: CheckoutDetailsFieldsProps) {
+  const { data: session } = useSession();
+  const canChooseCostCenter = hasPermission(
+    session?.user?.role,
+    Permission.BudgetManage
+  );
+  const [locations, setLocations] = useState<DeliveryLocation[]>([]);
+  const [showLineOverrides, setShowLineOverrides] = useState(false);
+  const today = new Date().toISOString().slice(0, 10);
+
+  useEffect(() => {
+    fetch('/api/delivery-locations')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setLocations(data?.data ?? []))
+      .catch((error) => {
+        console.error('Error loading delivery locations:', error);
+      });
+  }, []);
+
+  const update = (changes: Partial<CheckoutDetailsValue>) =>
+    onChange({ ...value, ...changes });
+
+  const updateLine = (
+    itemId: string,
+    changes: Partial<CheckoutLineDetailsValue>
+  ) =>
+    update({
+      lines: {
+        ...value.lines,
+        [itemId]: {
+          ...EMPTY_LINE_DETAILS,
+          ...value.lines[itemId],
+          ...changes,
+        },
+      },
+    });
+
+  const renderLocationOptions = (emptyLabel: string) => (
+    <>
+      <option value=''>{emptyLabel}</option>
+      {locations.map((location) => (
+        <option key={location.id} value={location.id}>
+          {location.name}
+        </option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className='w-full space-y-3'>
+      <div className='space-y-1'>
+        <Label htmlFor='checkout-location'>Delivery location</Label>
+        <select
+          id='checkout-location'
+          className={selectClassName}
+          value={value.deliveryLocationId}
+          onChange={(e) => update({ deliveryLocationId: e.target.value })}
+          disabled={disabled}
+        >
+          {renderLocationOptions('Not specified')}
+        </select>
+        {value.deliveryLocationId && (
+          <p className='text-xs text-muted-foreground'>
+            {
+              locations.find(
+                (location) => location.id === value.deliveryLocationId
+              )?.address
+            }
+          </p>
+        )}
+      </div>
+
+      <div className='space-y-1'>
+        <Label htmlFor='checkout-date'>Requested delivery date</Label>
+        <Input
+          id='checkout-date'
+          type='date'
+          min={today}
+          value={value.requestedDeliveryDate}
+          onChange={(e) => update({ requestedDeliveryDate: e.target.value })}
+          disabled={disabled}
+        />
+      </div>
+
+      <div
+        className={canChooseCostCenter ? 'grid grid-cols-2 gap-2' : undefined}
+      >
+        {canChooseCostCenter && (
+          <div className='space-y-1'>
+            <Label htmlFor='checkout-cost-center'>Cost center</Label>
+            <Input
+              id='checkout-cost-center'
+              value={value.costCenter}
+              onChange={(e) => update({ costCenter: e.target.value })}
+              placeholder='Your default'
+              maxLength={50}
+              disabled={disabled}
+            />
+          </div>
+        )}
+        <div className='space-y-1'>
+          <Label htmlFor='checkout-gl-code'>GL code</Label>
+          <Input
+            id='checkout-gl-code'
+            value={value.glCode}
+            onChange={(e) => update({ glCode: e.target.value })}
+            placeholder='e.g., 6100'
+            maxLength={30}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      {lines.length > 1 && (
+        <div className='space-y-2'>
+          <Button
+            type='button'
+            variant='ghost'
+            size='sm'
+            className='px-0'
+            onClick={() => setShowLineOverrides((open) => !open)}
+          >
+            {showLineOverrides ? (
+              <ChevronDown className='mr-1 h-4 w-4' />
+            ) : (
+              <ChevronRight className='mr-1 h-4 w-4' />
+            )}
+            Per-line details
+          </Button>
+
+          {showLineOverrides && (
+            <ul className='space-y-3'>
+              {lines.map((line) => {
+                const lineValue =
+                  value.lines[line.itemId] ?? EMPTY_LINE_DETAILS;
+                return (
+                  <li
+                    key={line.itemId}
+                    className='space-y-2 rounded-md border border-border p-3'
+                  >
+                    <p className='truncate text-sm font-medium'>{line.name}</p>
+                    <select
+                      aria-label={`Delivery location for ${line.name}`}
+                      className={selectClassName}
+                      value={lineValue.deliveryLocationId}
+                      onChange={(e) =>
+                        updateLine(line.itemId, {
+                          deliveryLocationId: e.target.value,
+                        })
+                      }
+                      disabled={disabled}
+                    >
+                      {renderLocationOptions('Same as request')}
+                    </select>
+                    <div className='grid grid-cols-2 gap-2'>
+                      <Input
+                        aria-label={`Requested delivery date for ${line.name}`}
+                        type='date'
+                        min={today}
+                        value={lineValue.requestedDeliveryDate}
+                        onChange={(e) =>
+                          updateLine(line.itemId, {
+                            requestedDeliveryDate: e.target.value,
+                          })
+                        }
+                        disabled={disabled}
+                      />
+                      <Input
+                        aria-label={`GL code for ${line.name}`}
+                        value={lineValue.glCode}
+                        onChange={(e) =>
+                          updateLine(line.itemId, { glCode: e.target.value })
+                        }
+                        placeholder='GL code'
+                        maxLength={30}
+                        disabled={disabled}
+                      />
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
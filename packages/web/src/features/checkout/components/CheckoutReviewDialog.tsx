@@ -0,0 +1,144 @@
+/**
+ * CheckoutReviewDialog Component
+ *
+ * Shows what changed in the cart since items were added (new catalog
+ * prices, items no longer available) and asks the user to confirm the new
+ * total before the purchase request is submitted.
+ */
+
+'use client';
+
+import { AlertCircle, Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { CheckoutReview } from '@/domain/entities';
+
+import { CHECKOUT_UNAVAILABLE_LABELS } from '../lib/checkout-review';
+
+interface CheckoutReviewDialogProps {
+  review: CheckoutReview | null;
+  isSubmitting: boolean;
+  onConfirm: (confirmedTotal: number) => void;
+  onCancel: () => void;
+}
+
+export function CheckoutReviewDialog({
+  review,
+  isSubmitting,
+  onConfirm,
+  onCancel,
+}: CheckoutReviewDialogProps) {
+  return (
+    <Dialog open={review !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className='w-[calc(100vw-1.5rem)] max-w-2xl sm:w-full'>
+        <DialogHeader>
+          <DialogTitle className='flex items-center gap-2'>
+            <AlertCircle className='h-5 w-5 text-amber-600' />
+            Your cart has changed
+          </DialogTitle>
+          <DialogDescription>
+            The catalog changed since these items were added. The purchase
+            request will use current prices.
+          </DialogDescription>
+        </DialogHeader>
+
+        {review && (
+          <div className='space-y-4'>
+            {review.priceChanges.length > 0 && (
+              <div className='rounded-lg border'>
+                <div className='border-b px-4 py-3 text-sm font-medium'>
+                  Price changes
+                </div>
+                <div className='divide-y'>
+                  {review.priceChanges.map((line) => (
+                    <div
+                      key={line.itemId}
+                      className='flex items-center justify-between gap-4 px-4 py-3 text-sm'
+                    >
+                      <div className='min-w-0'>
+                        <div className='truncate font-medium'>{line.name}</div>
+                        <div className='text-xs text-muted-foreground'>
+                          Quantity {line.quantity}
+                        </div>
+                      </div>
+                      <div className='whitespace-nowrap'>
+                        <span className='text-muted-foreground line-through'>
+                          ${line.cartUnitPrice.toFixed(2)}
+                        </span>{' '}
+                        <span
+                          className={
+                            line.currentUnitPrice > line.cartUnitPrice
+                              ? 'font-medium text-destructive'
+                              : 'font-medium text-green-600'
+                          }
+                        >
+                          ${line.currentUnitPrice.toFixed(2)}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {review.unavailable.length > 0 && (
+              <div className='rounded-lg border'>
+                <div className='border-b px-4 py-3 text-sm font-medium'>
+                  Left out of the purchase request
+                </div>
+                <div className='divide-y'>
+                  {review.unavailable.map((line) => (
+                    <div
+                      key={line.itemId}
+                      className='flex items-center justify-between gap-4 px-4 py-3 text-sm'
+                    >
+                      <span className='truncate'>
+                        {line.name} × {line.quantity}
+                      </span>
+                      <span className='whitespace-nowrap text-muted-foreground'>
+                        {CHECKOUT_UNAVAILABLE_LABELS[line.reason]}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className='flex items-center justify-between rounded-lg bg-muted/50 px-4 py-3'>
+              <span className='font-semibold'>New total</span>
+              <span>
+                <span className='mr-2 text-sm text-muted-foreground line-through'>
+                  ${review.cartTotal.toFixed(2)}
+                </span>
+                <span className='text-lg font-bold'>
+                  ${review.total.toFixed(2)}
+                </span>
+              </span>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className='gap-2 sm:gap-0'>
+          <Button variant='outline' onClick={onCancel} disabled={isSubmitting}>
+            Back to Cart
+          </Button>
+          <Button
+            onClick={() => review && onConfirm(review.total)}
+            disabled={isSubmitting || !review || review.total === 0}
+          >
+            {isSubmitting && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+            Confirm and Submit
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
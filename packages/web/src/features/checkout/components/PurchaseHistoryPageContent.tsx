@@ -1,12 +1,21 @@
 /**
  * Purchase History Page Content
  *
- * Displays a list of all purchase requests for the authenticated user
+ * Displays the purchase requests of the authenticated user, a page at a
+ * time (cursor pagination with "Load more")
  */
 
 'use client';
 
-import { CheckCircle2, Clock, FileText, Loader2, XCircle } from 'lucide-react';
+import {
+  CheckCircle2,
+  Clock,
+  FileText,
+  Hourglass,
+  Loader2,
+  Undo2,
+  XCircle,
+} from 'lucide-react';
 import Link from 'next/link';
 import { useCallback, useEffect, useState } from 'react';
 import { toast } from 'sonner';
@@ -30,33 +39,54 @@ export function PurchaseHistoryPageContent() {
     []
   );
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [filter, setFilter] = useState<PurchaseRequestStatus | 'all'>('all');
 
-  const loadPurchaseRequests = useCallback(async () => {
-    setIsLoading(true);
+  // Without a cursor the first page replaces the list; with one the next
+  // page is appended
+  const loadPurchaseRequests = useCallback(
+    async (cursor?: string) => {
+      if (cursor) {
+        setIsLoadingMore(true);
+      } else {
+        setIsLoading(true);
+      }
 
-    try {
-      const url =
-        filter === 'all' ? '/api/purchase' : `/api/purchase?status=${filter}`;
+      try {
+        const params = new URLSearchParams();
+        if (filter !== 'all') {
+          params.set('status', filter);
+        }
+        if (cursor) {
+          params.set('cursor', cursor);
+        }
 
-      const response = await fetch(url);
+        const response = await fetch(`/api/purchase?${params}`);
 
-      if (!response.ok) {
-        throw new Error('Failed to load purchase requests');
-      }
+        if (!response.ok) {
+          throw new Error('Failed to load purchase requests');
+        }
 
-      const data = await response.json();
-      setPurchaseRequests(data.data || []);
-    } catch (error) {
-      console.error('Error loading purchase requests:', error);
-      toast.error('Failed to load purchase history', {
-        description:
-          error instanceof Error ? error.message : 'Please try again later.',
-      });
-    } finally {
-      setIsLoading(false);
-    }
-  }, [filter]);
+        const data = await response.json();
+        const page: PurchaseRequest[] = data.data || [];
+        setPurchaseRequests((previous) =>
+          cursor ? [...previous, ...page] : page
+        );
+        setNextCursor(data.hasMore ? data.nextCursor : null);
+      } catch (error) {
+        console.error('Error loading purchase requests:', error);
+        toast.error('Failed to load purchase history', {
+          description:
+            error instanceof Error ? error.message : 'Please try again later.',
+        });
+      } finally {
+        setIsLoading(false);
+        setIsLoadingMore(false);
+      }
+    },
+    [filter]
+  );
 
   useEffect(() => {
     loadPurchaseRequests();
@@ -71,6 +101,20 @@ export function PurchaseHistoryPageContent() {
             Submitted
           </Badge>
         );
+      case PurchaseRequestStatus.PendingApproval:
+        return (
+          <Badge variant='secondary' className='flex items-center gap-1'>
+            <Hourglass className='h-3 w-3' />
+            Pending Approval
+          </Badge>
+        );
+      case PurchaseRequestStatus.ReturnedForChanges:
+        return (
+          <Badge variant='outline' className='flex items-center gap-1'>
+            <Undo2 className='h-3 w-3' />
+            Returned
+          </Badge>
+        );
       case PurchaseRequestStatus.Approved:
         return (
           <Badge
@@ -139,6 +183,32 @@ export function PurchaseHistoryPageContent() {
             >
               Submitted
             </Button>
+            <Button
+              variant={
+                filter === PurchaseRequestStatus.PendingApproval
+                  ? 'default'
+                  : 'outline'
+              }
+              size='sm'
+              onClick={() => setFilter(PurchaseRequestStatus.PendingApproval)}
+              className='text-xs sm:text-sm'
+            >
+              Pending Approval
+            </Button>
+            <Button
+              variant={
+                filter === PurchaseRequestStatus.ReturnedForChanges
+                  ? 'default'
+                  : 'outline'
+              }
+              size='sm'
+              onClick={() =>
+                setFilter(PurchaseRequestStatus.ReturnedForChanges)
+              }
+              className='text-xs sm:text-sm'
+            >
+              Returned
+            </Button>
             <Button
               variant={
                 filter === PurchaseRequestStatus.Approved
@@ -176,7 +246,7 @@ export function PurchaseHistoryPageContent() {
               <p className='mt-4 text-center text-muted-foreground'>
                 {filter === 'all'
                   ? 'No purchase requests found. Start shopping to create your first request!'
-                  : `No ${filter} purchase requests found.`}
+                  : `No ${filter.replace(/_/g, ' ')} purchase requests found.`}
               </p>
               <Button asChild className='mt-4' variant='outline'>
                 <Link href='/catalog'>Browse Catalog</Link>
@@ -242,6 +312,21 @@ export function PurchaseHistoryPageContent() {
                     </TableBody>
                   </Table>
                 </div>
+                {nextCursor && (
+                  <div className='mt-4 flex justify-center'>
+                    <Button
+                      variant='outline'
+                      size='sm'
+                      onClick={() => loadPurchaseRequests(nextCursor)}
+                      disabled={isLoadingMore}
+                    >
+                      {isLoadingMore && (
+                        <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+                      )}
+                      Load more
+                    </Button>
+                  </div>
+                )}
               </div>
             </div>
           )}
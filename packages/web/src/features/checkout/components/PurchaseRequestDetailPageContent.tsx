@@ -1,13 +1,27 @@
 /**
  * Purchase Request Detail Page Content
  *
- * Displays detailed information about a specific purchase request
+ * Displays detailed information about a specific purchase request,
+ * including where and when it should be delivered and what it is
+ * charged to (with any per-line differences).
+ * The requester can reorder it: its lines go back into the cart at
+ * today's prices.
  */
 
 'use client';
 
-import { ArrowLeft, CheckCircle2, Clock, XCircle } from 'lucide-react';
+import {
+  ArrowLeft,
+  CheckCircle2,
+  Clock,
+  Hourglass,
+  RotateCcw,
+  Undo2,
+  XCircle,
+} from 'lucide-react';
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import { use, useCallback, useEffect, useState } from 'react';
 import { toast } from 'sonner';
 
@@ -30,8 +44,13 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import type { PurchaseRequest } from '@/domain/entities';
+import { useCart } from '@/contexts/CartContext';
+import type { CartRestoreResult, PurchaseRequest } from '@/domain/entities';
 import { PurchaseRequestStatus } from '@/domain/entities';
+import { PurchaseRequestApprovalPanel } from '@/features/approvals/components/PurchaseRequestApprovalPanel';
+import { describeCartRestore } from '@/features/cart/lib/cart-restore';
+
+import { hasLineDeliveryOverride } from '../lib/checkout-delivery';
 
 interface PurchaseRequestDetailPageContentProps {
   params: Promise<{ id: string }>;
@@ -41,10 +60,15 @@ export function PurchaseRequestDetailPageContent({
   params,
 }: PurchaseRequestDetailPageContentProps) {
   const { id } = use(params);
+  const router = useRouter();
+  const { data: session } = useSession();
+  const { setItemCount } = useCart();
   const [purchaseRequest, setPurchaseRequest] =
     useState<PurchaseRequest | null>(null);
+  const [canAct, setCanAct] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [notFound, setNotFound] = useState(false);
+  const [isReordering, setIsReordering] = useState(false);
 
   const loadPurchaseRequest = useCallback(async () => {
     setIsLoading(true);
@@ -64,6 +88,7 @@ export function PurchaseRequestDetailPageContent({
 
       const data = await response.json();
       setPurchaseRequest(data.data);
+      setCanAct(Boolean(data.canAct));
     } catch (error) {
       console.error('Error loading purchase request:', error);
       toast.error('Failed to load purchase request', {
@@ -79,6 +104,46 @@ export function PurchaseRequestDetailPageContent({
     loadPurchaseRequest();
   }, [loadPurchaseRequest]);
 
+  const handleReorder = async () => {
+    setIsReordering(true);
+
+    try {
+      const response = await fetch(`/api/purchase/${id}/reorder`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to reorder');
+      }
+
+      const { data: result }: { data: CartRestoreResult } =
+        await response.json();
+      setItemCount(result.cart.items.length);
+
+      if (result.added.length === 0) {
+        toast.error('Nothing could be added to your cart', {
+          description: describeCartRestore(result),
+        });
+        return;
+      }
+
+      toast.success(
+        `Added ${result.added.length} item${result.added.length === 1 ? '' : 's'} to your cart`,
+        { description: describeCartRestore(result) }
+      );
+      router.push('/cart');
+    } catch (error) {
+      console.error('Error reordering purchase request:', error);
+      toast.error('Failed to reorder', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setIsReordering(false);
+    }
+  };
+
   const getStatusBadge = (status: PurchaseRequestStatus) => {
     switch (status) {
       case PurchaseRequestStatus.Submitted:
@@ -88,6 +153,20 @@ export function PurchaseRequestDetailPageContent({
             Submitted
           </Badge>
         );
+      case PurchaseRequestStatus.PendingApproval:
+        return (
+          <Badge variant='secondary' className='flex items-center gap-1'>
+            <Hourglass className='h-3 w-3' />
+            Pending Approval
+          </Badge>
+        );
+      case PurchaseRequestStatus.ReturnedForChanges:
+        return (
+          <Badge variant='outline' className='flex items-center gap-1'>
+            <Undo2 className='h-3 w-3' />
+            Returned for Changes
+          </Badge>
+        );
       case PurchaseRequestStatus.Approved:
         return (
           <Badge
@@ -120,6 +199,16 @@ export function PurchaseRequestDetailPageContent({
     });
   };
 
+  // Delivery dates are calendar days stored as midnight UTC
+  const formatDeliveryDay = (date: Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      timeZone: 'UTC',
+    });
+  };
+
   if (isLoading) {
     return (
       <div className='container mx-auto'>
@@ -180,7 +269,20 @@ export function PurchaseRequestDetailPageContent({
                   ID: <span className='font-mono'>{purchaseRequest.id}</span>
                 </CardDescription>
               </div>
-              {getStatusBadge(purchaseRequest.status)}
+              <div className='flex items-center gap-2'>
+                {session?.user?.id === purchaseRequest.userId && (
+                  <Button
+                    variant='outline'
+                    size='sm'
+                    onClick={handleReorder}
+                    disabled={isReordering}
+                  >
+                    <RotateCcw className='mr-2 h-4 w-4' />
+                    {isReordering ? 'Reordering...' : 'Reorder'}
+                  </Button>
+                )}
+                {getStatusBadge(purchaseRequest.status)}
+              </div>
             </div>
           </CardHeader>
           <CardContent className='space-y-6'>
@@ -202,6 +304,64 @@ export function PurchaseRequestDetailPageContent({
                   {formatDate(purchaseRequest.updatedAt)}
                 </p>
               </div>
+              {purchaseRequest.erpStatus && (
+                <div>
+                  <h3 className='text-sm font-medium text-muted-foreground'>
+                    ERP Reference
+                  </h3>
+                  <p className='mt-1 text-sm'>
+                    <span className='font-mono'>
+                      {purchaseRequest.erpReference || '—'}
+                    </span>{' '}
+                    <span className='text-muted-foreground'>
+                      ({purchaseRequest.erpStatus})
+                    </span>
+                  </p>
+                </div>
+              )}
+              {purchaseRequest.deliveryLocation && (
+                <div>
+                  <h3 className='text-sm font-medium text-muted-foreground'>
+                    Delivery Location
+                  </h3>
+                  <p className='mt-1 text-sm'>
+                    {purchaseRequest.deliveryLocation.name}
+                  </p>
+                  <p className='text-xs text-muted-foreground whitespace-pre-wrap'>
+                    {purchaseRequest.deliveryLocation.address}
+                  </p>
+                </div>
+              )}
+              {purchaseRequest.requestedDeliveryDate && (
+                <div>
+                  <h3 className='text-sm font-medium text-muted-foreground'>
+                    Requested Delivery
+                  </h3>
+                  <p className='mt-1 text-sm'>
+                    {formatDeliveryDay(purchaseRequest.requestedDeliveryDate)}
+                  </p>
+                </div>
+              )}
+              {purchaseRequest.costCenter && (
+                <div>
+                  <h3 className='text-sm font-medium text-muted-foreground'>
+                    Cost Center
+                  </h3>
+                  <p className='mt-1 text-sm font-mono'>
+                    {purchaseRequest.costCenter}
+                  </p>
+                </div>
+              )}
+              {purchaseRequest.glCode && (
+                <div>
+                  <h3 className='text-sm font-medium text-muted-foreground'>
+                    GL Code
+                  </h3>
+                  <p className='mt-1 text-sm font-mono'>
+                    {purchaseRequest.glCode}
+                  </p>
+                </div>
+              )}
             </div>
 
             {/* Notes (if any) */}
@@ -239,12 +399,36 @@ export function PurchaseRequestDetailPageContent({
                       <TableRow key={item.itemId || item.itemName}>
                         <TableCell>
                           <div>
-                            <p className='font-medium'>{item.itemName}</p>
+                            {/* Archived items stay resolvable by ID */}
+                            {item.itemId ? (
+                              <Link
+                                href={`/catalog/${item.itemId}`}
+                                className='font-medium hover:underline'
+                              >
+                                {item.itemName}
+                              </Link>
+                            ) : (
+                              <p className='font-medium'>{item.itemName}</p>
+                            )}
                             {item.itemDescription && (
                               <p className='text-xs text-muted-foreground'>
                                 {item.itemDescription}
                               </p>
                             )}
+                            {/* Details that differ from the request */}
+                            {hasLineDeliveryOverride(item) && (
+                              <p className='mt-1 text-xs text-muted-foreground'>
+                                {[
+                                  item.deliveryLocation &&
+                                    `Ships to ${item.deliveryLocation.name}`,
+                                  item.requestedDeliveryDate &&
+                                    `by ${formatDeliveryDay(item.requestedDeliveryDate)}`,
+                                  item.glCode && `GL ${item.glCode}`,
+                                ]
+                                  .filter(Boolean)
+                                  .join(' · ')}
+                              </p>
+                            )}
                           </div>
                         </TableCell>
                         <TableCell>
@@ -274,6 +458,22 @@ export function PurchaseRequestDetailPageContent({
                 </Table>
               </div>
             </div>
+
+            {/* Approval workflow */}
+            {(purchaseRequest.approvalSteps.length > 0 ||
+              purchaseRequest.statusHistory.length > 0) && (
+              <>
+                <Separator />
+                <PurchaseRequestApprovalPanel
+                  purchaseRequest={purchaseRequest}
+                  canAct={canAct}
+                  onUpdated={(updated) => {
+                    setPurchaseRequest(updated);
+                    setCanAct(false);
+                  }}
+                />
+              </>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -3,4 +3,7 @@
  * Manages checkout and purchase request creation
  */
 
+export * from './lib/checkout-delivery';
+export * from './lib/checkout-idempotency';
+export * from './lib/checkout-review';
 export * from './lib/checkout.service';
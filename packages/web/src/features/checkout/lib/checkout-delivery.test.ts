@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  findDeliveryDateViolations,
+  formatDeliveryDate,
+  getEarliestDeliveryDate,
+  getEffectiveLineDelivery,
+  hasLineDeliveryOverride,
+  isValidGlCode,
+  parseDeliveryDate,
+} from './checkout-delivery';
+
+const today = new Date('2025-03-10T15:30:00Z');
+
+const hq = { locationId: 'loc-1', name: 'HQ', address: '1 Main St' };
+const warehouse = {
+  locationId: 'loc-2',
+  name: 'Warehouse',
+  address: '9 Dock Rd',
+};
+
+describe('checkout-delivery', () => {
+  describe('parseDeliveryDate', () => {
+    it('should parse YYYY-MM-DD as midnight UTC', () => {
+      expect(parseDeliveryDate('2025-03-14')).toEqual(
+        new Date('2025-03-14T00:00:00Z')
+      );
+      expect(parseDeliveryDate(today)).toEqual(
+        new Date('2025-03-10T00:00:00Z')
+      );
+    });
+
+    it('should reject malformed and impossible days', () => {
+      expect(parseDeliveryDate('2025-02-30')).toBeNull();
+      expect(parseDeliveryDate('14/03/2025')).toBeNull();
+      expect(parseDeliveryDate('')).toBeNull();
+      expect(parseDeliveryDate(20250314)).toBeNull();
+      expect(parseDeliveryDate(new Date('invalid'))).toBeNull();
+    });
+  });
+
+  describe('formatDeliveryDate', () => {
+    it('should format the UTC calendar day', () => {
+      expect(formatDeliveryDate(new Date('2025-03-14T00:00:00Z'))).toBe(
+        '2025-03-14'
+      );
+    });
+  });
+
+  describe('getEarliestDeliveryDate', () => {
+    it('should add the lead time to the start of today', () => {
+      expect(getEarliestDeliveryDate(today, 5)).toEqual(
+        new Date('2025-03-15T00:00:00Z')
+      );
+      expect(getEarliestDeliveryDate(today)).toEqual(
+        new Date('2025-03-10T00:00:00Z')
+      );
+    });
+  });
+
+  describe('findDeliveryDateViolations', () => {
+    it('should flag lines requested before their lead time allows', () => {
+      const violations = findDeliveryDateViolations(
+        [
+          {
+            itemId: 'slow',
+            itemName: 'Desk',
+            leadTimeDays: 14,
+            requestedDeliveryDate: new Date('2025-03-20T00:00:00Z'),
+          },
+          {
+            itemId: 'fast',
+            itemName: 'Pens',
+            leadTimeDays: 2,
+            requestedDeliveryDate: new Date('2025-03-12T00:00:00Z'),
+          },
+        ],
+        today
+      );
+
+      expect(violations).toEqual([
+        {
+          itemId: 'slow',
+          itemName: 'Desk',
+          requestedDeliveryDate: new Date('2025-03-20T00:00:00Z'),
+          earliestDeliveryDate: new Date('2025-03-24T00:00:00Z'),
+        },
+      ]);
+    });
+
+    it('should reject past dates and skip lines without a date', () => {
+      const violations = findDeliveryDateViolations(
+        [
+          {
+            itemId: 'past',
+            itemName: 'Paper',
+            requestedDeliveryDate: new Date('2025-03-09T00:00:00Z'),
+          },
+          { itemId: 'none', itemName: 'Toner', leadTimeDays: 30 },
+        ],
+        today
+      );
+
+      expect(violations.map((violation) => violation.itemId)).toEqual(['past']);
+    });
+  });
+
+  describe('isValidGlCode', () => {
+    it('should accept account codes with dots and dashes', () => {
+      expect(isValidGlCode('6100')).toBe(true);
+      expect(isValidGlCode('6100.20-A')).toBe(true);
+    });
+
+    it('should reject spaces and leading punctuation', () => {
+      expect(isValidGlCode('61 00')).toBe(false);
+      expect(isValidGlCode('-6100')).toBe(false);
+      expect(isValidGlCode('')).toBe(false);
+    });
+  });
+
+  describe('getEffectiveLineDelivery', () => {
+    const request = {
+      glCode: '6000',
+      deliveryLocation: hq,
+      requestedDeliveryDate: new Date('2025-03-20T00:00:00Z'),
+    };
+
+    it('should inherit the request details', () => {
+      expect(getEffectiveLineDelivery(request, {})).toEqual(request);
+    });
+
+    it('should prefer line overrides', () => {
+      expect(
+        getEffectiveLineDelivery(request, {
+          glCode: '6100',
+          deliveryLocation: warehouse,
+        })
+      ).toEqual({
+        glCode: '6100',
+        deliveryLocation: warehouse,
+        requestedDeliveryDate: request.requestedDeliveryDate,
+      });
+    });
+  });
+
+  describe('hasLineDeliveryOverride', () => {
+    it('should detect any overridden detail', () => {
+      expect(hasLineDeliveryOverride({})).toBe(false);
+      expect(hasLineDeliveryOverride({ glCode: '6100' })).toBe(true);
+      expect(hasLineDeliveryOverride({ deliveryLocation: warehouse })).toBe(
+        true
+      );
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Checkout Delivery
+ *
+ * Pure rules for the delivery and accounting details captured at checkout:
+ * - Requested delivery dates are calendar days (YYYY-MM-DD, UTC)
+ * - A line cannot be requested earlier than today plus its supplier lead time
+ * - GL codes are short account codes (letters, digits, dots and dashes)
+ * - Lines inherit the request's details unless they override them
+ *
+ * Kept free of database access so the rules can be tested on their own.
+ */
+
+import type {
+  DeliveryLocationSnapshot,
+  PurchaseRequest,
+  PurchaseRequestItem,
+} from '@/domain/entities';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DELIVERY_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const GL_CODE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9.-]*$/;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Order line checked against its lead time
+ */
+export interface DeliveryDateLine {
+  itemId: string;
+  itemName: string;
+
+  /** Lead time of the supplier the line is ordered from, in days */
+  leadTimeDays?: number;
+
+  /** Effective requested delivery date (line override or request date) */
+  requestedDeliveryDate?: Date;
+}
+
+/**
+ * Line requested earlier than its lead time allows
+ */
+export interface DeliveryDateViolation {
+  itemId: string;
+  itemName: string;
+  requestedDeliveryDate: Date;
+  earliestDeliveryDate: Date;
+}
+
+/**
+ * Delivery and accounting details in effect for one request line
+ */
+export interface EffectiveLineDelivery {
+  glCode?: string;
+  deliveryLocation?: DeliveryLocationSnapshot;
+  requestedDeliveryDate?: Date;
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Parse a requested delivery date
+ * Accepts a YYYY-MM-DD string or a Date; the result is midnight UTC.
+ *
+ * @returns The date, or null if the value is not a valid calendar day
+ */
+export function parseDeliveryDate(value: unknown): Date | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : startOfUtcDay(value);
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const match = DELIVERY_DATE_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  // Reject days that roll over (e.g., 2025-02-30)
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? date
+    : null;
+}
+
+/**
+ * Format a delivery date as YYYY-MM-DD
+ */
+export function formatDeliveryDate(date: Date): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+/**
+ * Earliest day a line can be delivered
+ *
+ * @param today - Current time
+ * @param leadTimeDays - Supplier lead time (none = today)
+ */
+export function getEarliestDeliveryDate(today: Date, leadTimeDays = 0): Date {
+  const date = startOfUtcDay(today);
+  date.setUTCDate(date.getUTCDate() + leadTimeDays);
+  return date;
+}
+
+/**
+ * Find lines requested earlier than their lead time allows
+ * Lines without a requested date are not checked.
+ */
+export function findDeliveryDateViolations(
+  lines: DeliveryDateLine[],
+  today: Date
+): DeliveryDateViolation[] {
+  const violations: DeliveryDateViolation[] = [];
+
+  for (const line of lines) {
+    if (!line.requestedDeliveryDate) {
+      continue;
+    }
+
+    const earliestDeliveryDate = getEarliestDeliveryDate(
+      today,
+      line.leadTimeDays
+    );
+    if (line.requestedDeliveryDate < earliestDeliveryDate) {
+      violations.push({
+        itemId: line.itemId,
+        itemName: line.itemName,
+        requestedDeliveryDate: line.requestedDeliveryDate,
+        earliestDeliveryDate,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Whether a GL code is well-formed (length is checked by the schema)
+ */
+export function isValidGlCode(glCode: string): boolean {
+  return GL_CODE_PATTERN.test(glCode);
+}
+
+/**
+ * Details in effect for a request line: its overrides, else the request's
+ */
+export function getEffectiveLineDelivery(
+  request: Pick<
+    PurchaseRequest,
+    'glCode' | 'deliveryLocation' | 'requestedDeliveryDate'
+  >,
+  item: Pick<
+    PurchaseRequestItem,
+    'glCode' | 'deliveryLocation' | 'requestedDeliveryDate'
+  >
+): EffectiveLineDelivery {
+  return {
+    glCode: item.glCode ?? request.glCode,
+    deliveryLocation: item.deliveryLocation ?? request.deliveryLocation,
+    requestedDeliveryDate:
+      item.requestedDeliveryDate ?? request.requestedDeliveryDate,
+  };
+}
+
+/**
+ * Whether a request line overrides any of the request's details
+ */
+export function hasLineDeliveryOverride(
+  item: Pick<
+    PurchaseRequestItem,
+    'glCode' | 'deliveryLocation' | 'requestedDeliveryDate'
+  >
+): boolean {
+  return Boolean(
+    item.glCode || item.deliveryLocation || item.requestedDeliveryDate
+  );
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  getCheckoutFingerprint,
+  isIdempotencyKeyConflict,
+  isValidIdempotencyKey,
+} from './checkout-idempotency';
+
+describe('checkout-idempotency', () => {
+  describe('isValidIdempotencyKey', () => {
+    it('should accept UUIDs and other visible ASCII keys', () => {
+      expect(
+        isValidIdempotencyKey('0b6f1c1e-4a8e-4c0f-9d7a-2f1e3c5b7a90')
+      ).toBe(true);
+      expect(isValidIdempotencyKey('checkout:42')).toBe(true);
+    });
+
+    it('should reject empty, blank and non-ASCII keys', () => {
+      expect(isValidIdempotencyKey('')).toBe(false);
+      expect(isValidIdempotencyKey('two words')).toBe(false);
+      expect(isValidIdempotencyKey('clé')).toBe(false);
+    });
+
+    it('should reject keys longer than 255 characters', () => {
+      expect(isValidIdempotencyKey('k'.repeat(255))).toBe(true);
+      expect(isValidIdempotencyKey('k'.repeat(256))).toBe(false);
+    });
+  });
+
+  describe('isIdempotencyKeyConflict', () => {
+    it('should detect duplicate key errors on the idempotency key', () => {
+      expect(
+        isIdempotencyKeyConflict({ code: 11000, keyPattern: { key: 1 } })
+      ).toBe(true);
+    });
+
+    it('should ignore other errors', () => {
+      expect(
+        isIdempotencyKeyConflict({
+          code: 11000,
+          keyPattern: { requestNumber: 1 },
+        })
+      ).toBe(false);
+      expect(isIdempotencyKeyConflict(new Error('Network error'))).toBe(false);
+      expect(isIdempotencyKeyConflict(null)).toBe(false);
+    });
+  });
+
+  describe('getCheckoutFingerprint', () => {
+    const request = {
+      notes: 'Team offsite',
+      lineOverrides: [{ itemId: 'item-1', glCode: '6100' }],
+    };
+
+    it('should not depend on field order or undefined fields', () => {
+      expect(
+        getCheckoutFingerprint({
+          lineOverrides: [{ glCode: '6100', itemId: 'item-1' }],
+          notes: 'Team offsite',
+          cartId: undefined,
+        })
+      ).toBe(getCheckoutFingerprint(request));
+    });
+
+    it('should differ for another cart or other details', () => {
+      const fingerprint = getCheckoutFingerprint(request);
+
+      expect(getCheckoutFingerprint({ ...request, cartId: 'cart-2' })).not.toBe(
+        fingerprint
+      );
+      expect(getCheckoutFingerprint({ ...request, notes: 'Other' })).not.toBe(
+        fingerprint
+      );
+    });
+
+    it('should cover the cart lines in any order', () => {
+      const chair = { itemId: 'item-1', quantity: 2, unitPrice: 150 };
+      const desk = { itemId: 'item-2', quantity: 1, unitPrice: 420 };
+      const fingerprint = getCheckoutFingerprint(request, [chair, desk]);
+
+      expect(getCheckoutFingerprint(request, [desk, chair])).toBe(fingerprint);
+      expect(getCheckoutFingerprint(request, [chair])).not.toBe(fingerprint);
+      expect(
+        getCheckoutFingerprint(request, [{ ...chair, quantity: 3 }, desk])
+      ).not.toBe(fingerprint);
+      expect(
+        getCheckoutFingerprint(request, [{ ...chair, unitPrice: 140 }, desk])
+      ).not.toBe(fingerprint);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Checkout Idempotency
+ *
+ * Pure rules for checkout idempotency keys:
+ * - A key is 1-255 visible ASCII characters (e.g., a UUID)
+ * - A second checkout with a stored key loses the race on the key's unique
+ *   index; its transaction is rolled back and the original request returned
+ * - A key is bound to the request it was sent with (checkout details and
+ *   the cart lines ordered, see getCheckoutFingerprint); reusing it for
+ *   another request is refused instead of replaying the original
+ *
+ * Kept free of database access so the rules can be tested on their own.
+ */
+
+import { createHash } from 'crypto';
+
+import { MAX_IDEMPOTENCY_KEY_LENGTH } from '@/lib/db/models';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Cart line as covered by the checkout fingerprint
+ */
+export interface CheckoutFingerprintLine {
+  itemId: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7E]+$/;
+
+// MongoDB duplicate key error code
+const DUPLICATE_KEY_ERROR_CODE = 11000;
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+/**
+ * Check that an idempotency key is 1-255 visible ASCII characters
+ */
+export function isValidIdempotencyKey(key: string): boolean {
+  return (
+    key.length <= MAX_IDEMPOTENCY_KEY_LENGTH &&
+    IDEMPOTENCY_KEY_PATTERN.test(key)
+  );
+}
+
+/**
+ * Check whether an error is a duplicate key error on the idempotency key
+ * (another checkout stored the same key first)
+ */
+export function isIdempotencyKeyConflict(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+  const { code, keyPattern } = error as {
+    code?: number;
+    keyPattern?: Record<string, unknown>;
+  };
+  return code === DUPLICATE_KEY_ERROR_CODE && Boolean(keyPattern?.key);
+}
+
+/**
+ * Fingerprint of a checkout request (SHA-256 of its fields in key order)
+ * and of the cart lines it orders (item, quantity and unit price, in item
+ * order). Undefined fields are left out, so an omitted field and one set
+ * to undefined give the same fingerprint.
+ */
+export function getCheckoutFingerprint(
+  request: object,
+  lines: CheckoutFingerprintLine[] = []
+): string {
+  const cartLines = lines
+    .map(({ itemId, quantity, unitPrice }) => ({ itemId, quantity, unitPrice }))
+    .sort((a, b) => a.itemId.localeCompare(b.itemId));
+
+  return createHash('sha256')
+    .update(toStableJson({ request, cartLines }))
+    .digest('hex');
+}
+
+function toStableJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(toStableJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const fields = Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, field]) => `${JSON.stringify(key)}:${toStableJson(field)}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+
+import { ItemStatus } from '@/domain/entities';
+
+import type { CheckoutReviewItem } from './checkout-review';
+import { isCheckoutConfirmed, reviewCheckout } from './checkout-review';
+
+const item = (
+  id: string,
+  overrides: Partial<CheckoutReviewItem> = {}
+): CheckoutReviewItem => ({
+  id,
+  name: `Item ${id}`,
+  status: ItemStatus.Active,
+  estimatedPrice: 10,
+  ...overrides,
+});
+
+const line = (itemId: string, quantity: number, unitPrice = 10) => ({
+  itemId,
+  name: `Item ${itemId}`,
+  quantity,
+  unitPrice,
+});
+
+describe('checkout-review', () => {
+  describe('reviewCheckout', () => {
+    it('should not require confirmation when the cart is current', () => {
+      const { review, orderLines } = reviewCheckout(
+        [line('a', 2), line('b', 1)],
+        [item('a'), item('b')]
+      );
+
+      expect(review).toEqual({
+        priceChanges: [],
+        unavailable: [],
+        cartTotal: 30,
+        total: 30,
+        requiresConfirmation: false,
+      });
+      expect(orderLines).toHaveLength(2);
+    });
+
+    it('should order at the current price and report the drift', () => {
+      const { review, orderLines } = reviewCheckout(
+        [line('a', 3, 10)],
+        [item('a', { estimatedPrice: 10.5 })]
+      );
+
+      expect(review.priceChanges).toEqual([
+        {
+          itemId: 'a',
+          name: 'Item a',
+          quantity: 3,
+          cartUnitPrice: 10,
+          currentUnitPrice: 10.5,
+        },
+      ]);
+      expect(review.cartTotal).toBe(30);
+      expect(review.total).toBe(31.5);
+      expect(review.requiresConfirmation).toBe(true);
+      expect(orderLines[0].unitPrice).toBe(10.5);
+    });
+
+    it('should leave out deleted, archived and unorderable items', () => {
+      const { review, orderLines } = reviewCheckout(
+        [line('gone', 1), line('old', 2), line('new', 1), line('ok', 1)],
+        [
+          item('old', { status: ItemStatus.Inactive }),
+          item('new', { status: ItemStatus.PendingReview }),
+          item('ok'),
+        ]
+      );
+
+      expect(review.unavailable.map((entry) => entry.reason)).toEqual([
+        'not_found',
+        'archived',
+        'unavailable',
+      ]);
+      expect(review.cartTotal).toBe(50);
+      expect(review.total).toBe(10);
+      expect(orderLines.map((entry) => entry.itemId)).toEqual(['ok']);
+    });
+  });
+
+  describe('isCheckoutConfirmed', () => {
+    const { review } = reviewCheckout(
+      [line('a', 3, 0.1)],
+      [item('a', { estimatedPrice: 0.2 })]
+    );
+
+    it('should require the confirmed total when the cart changed', () => {
+      expect(isCheckoutConfirmed(review)).toBe(false);
+      expect(isCheckoutConfirmed(review, 0.3)).toBe(false);
+      expect(isCheckoutConfirmed(review, 0.6)).toBe(true);
+    });
+
+    it('should not require confirmation when nothing changed', () => {
+      const current = reviewCheckout([line('a', 1)], [item('a')]).review;
+
+      expect(isCheckoutConfirmed(current)).toBe(true);
+    });
+  });
+});
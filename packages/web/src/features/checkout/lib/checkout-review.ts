@@ -0,0 +1,169 @@
+/**
+ * Checkout Review
+ *
+ * Pure rules for reconciling a cart against the live catalog at checkout:
+ * - Cart lines keep the price from when they were added; the purchase
+ *   request uses the current catalog price instead
+ * - Deleted, archived and otherwise unorderable items are left out
+ * - Either change must be confirmed by the user, who confirms the new total
+ *
+ * Kept free of database access so the rules can be tested on their own.
+ */
+
+import type {
+  CartItem,
+  CheckoutPriceChange,
+  CheckoutReview,
+  CheckoutUnavailableLine,
+  CheckoutUnavailableReason,
+  Item,
+} from '@/domain/entities';
+import {
+  isItemArchived,
+  isItemPurchasable,
+} from '@/features/catalog/lib/catalog-lifecycle';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const CHECKOUT_UNAVAILABLE_LABELS: Record<
+  CheckoutUnavailableReason,
+  string
+> = {
+  not_found: 'No longer in the catalog',
+  archived: 'Archived',
+  unavailable: 'Not available to order',
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Cart line as stored (price snapshot from when it was added)
+ */
+export type CheckoutReviewLine = Pick<
+  CartItem,
+  'itemId' | 'name' | 'unitPrice' | 'quantity'
+>;
+
+/**
+ * Current catalog state of a cart item
+ */
+export type CheckoutReviewItem = Pick<
+  Item,
+  'id' | 'name' | 'status' | 'estimatedPrice'
+>;
+
+/**
+ * Cart line priced for the purchase request
+ */
+export interface CheckoutOrderLine<
+  T extends CheckoutReviewItem = CheckoutReviewItem,
+> extends CheckoutReviewLine {
+  item: T;
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Compare cart lines with the current catalog items
+ *
+ * @param items - Current catalog items of the lines (missing = deleted)
+ * @returns Review and the lines to order, at the current price
+ */
+export function reviewCheckout<T extends CheckoutReviewItem>(
+  lines: CheckoutReviewLine[],
+  items: T[]
+): { review: CheckoutReview; orderLines: CheckoutOrderLine<T>[] } {
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const priceChanges: CheckoutPriceChange[] = [];
+  const unavailable: CheckoutUnavailableLine[] = [];
+  const orderLines: CheckoutOrderLine<T>[] = [];
+
+  for (const line of lines) {
+    const item = itemsById.get(line.itemId);
+    const reason = getUnavailableReason(item);
+
+    if (!item || reason) {
+      unavailable.push({
+        itemId: line.itemId,
+        name: line.name,
+        quantity: line.quantity,
+        reason: reason ?? 'not_found',
+      });
+      continue;
+    }
+
+    if (item.estimatedPrice !== line.unitPrice) {
+      priceChanges.push({
+        itemId: line.itemId,
+        name: line.name,
+        quantity: line.quantity,
+        cartUnitPrice: line.unitPrice,
+        currentUnitPrice: item.estimatedPrice,
+      });
+    }
+    orderLines.push({ ...line, unitPrice: item.estimatedPrice, item });
+  }
+
+  return {
+    review: {
+      priceChanges,
+      unavailable,
+      cartTotal: roundCurrency(
+        lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0)
+      ),
+      total: roundCurrency(
+        orderLines.reduce(
+          (sum, line) => sum + line.unitPrice * line.quantity,
+          0
+        )
+      ),
+      requiresConfirmation: priceChanges.length > 0 || unavailable.length > 0,
+    },
+    orderLines,
+  };
+}
+
+/**
+ * Whether checkout may go ahead
+ * Reviews with changes need the user to have confirmed exactly the new
+ * total; a different total means the catalog changed again since.
+ */
+export function isCheckoutConfirmed(
+  review: CheckoutReview,
+  confirmedTotal?: number
+): boolean {
+  return (
+    !review.requiresConfirmation ||
+    (typeof confirmedTotal === 'number' &&
+      roundCurrency(confirmedTotal) === review.total)
+  );
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getUnavailableReason(
+  item: CheckoutReviewItem | undefined
+): CheckoutUnavailableReason | undefined {
+  if (!item) {
+    return 'not_found';
+  }
+  if (isItemArchived(item.status)) {
+    return 'archived';
+  }
+  if (!isItemPurchasable(item.status)) {
+    return 'unavailable';
+  }
+  return undefined;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
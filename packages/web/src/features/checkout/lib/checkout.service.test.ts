@@ -0,0 +1,127 @@
+import { Types } from 'mongoose';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ItemStatus, PurchaseRequestStatus } from '@/domain/entities';
+import {
+  CartModel,
+  IdempotencyKeyModel,
+  ItemModel,
+  PurchaseRequestModel,
+} from '@/lib/db/models';
+
+import { getCheckoutFingerprint } from './checkout-idempotency';
+import { checkoutCart, IdempotencyKeyReusedError } from './checkout.service';
+
+vi.mock('@/lib/db/mongoose', () => ({ default: vi.fn() }));
+
+/**
+ * Checkout Service Tests
+ *
+ * Models are mocked; the tests cover how a repeated idempotency key is
+ * matched against the cart it is sent with.
+ */
+
+const USER_ID = new Types.ObjectId();
+const CHAIR_ID = new Types.ObjectId();
+const DESK_ID = new Types.ObjectId();
+const KEY = '0b6f1c1e-4a8e-4c0f-9d7a-2f1e3c5b7a90';
+const OPTIONS = { notes: 'Team offsite' };
+
+const purchaseRequest = new PurchaseRequestModel({
+  requestNumber: 'PR-2024-0042',
+  userId: USER_ID,
+  items: [
+    {
+      itemId: CHAIR_ID,
+      name: 'Office Chair',
+      category: 'Furniture',
+      unitPrice: 150,
+      quantity: 2,
+      subtotal: 300,
+    },
+  ],
+  total: 300,
+  notes: OPTIONS.notes,
+  source: 'ui',
+  status: PurchaseRequestStatus.Approved,
+});
+
+/**
+ * Store KEY as used by the checkout of purchaseRequest
+ */
+function mockStoredKey() {
+  const requestHash = getCheckoutFingerprint(OPTIONS, [
+    { itemId: CHAIR_ID.toString(), quantity: 2, unitPrice: 150 },
+  ]);
+
+  vi.spyOn(IdempotencyKeyModel, 'findOne').mockReturnValue({
+    lean: () => ({
+      exec: async () => ({
+        key: KEY,
+        userId: USER_ID,
+        purchaseRequestId: purchaseRequest._id,
+        requestHash,
+      }),
+    }),
+  } as never);
+  vi.spyOn(PurchaseRequestModel, 'findById').mockReturnValue({
+    lean: () => ({ exec: async () => purchaseRequest.toObject() }),
+  } as never);
+}
+
+function mockCart(items: Array<{ itemId: Types.ObjectId; quantity: number }>) {
+  const cart = new CartModel({
+    userId: USER_ID,
+    items: items.map((line) => ({
+      ...line,
+      name: 'Standing Desk',
+      unitPrice: 420,
+    })),
+  });
+  vi.spyOn(CartModel, 'findOne').mockReturnValue({
+    exec: async () => cart,
+  } as never);
+}
+
+describe('checkout.service', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    mockStoredKey();
+    vi.spyOn(ItemModel, 'find').mockReturnValue({
+      lean: () => ({
+        exec: async () => [
+          new ItemModel({
+            _id: DESK_ID,
+            name: 'Standing Desk',
+            category: 'Furniture',
+            description: 'Height-adjustable desk',
+            estimatedPrice: 420,
+            status: ItemStatus.Active,
+          }).toObject(),
+        ],
+      }),
+    } as never);
+  });
+
+  describe('checkoutCart', () => {
+    it('should replay the request when the checkout emptied the cart', async () => {
+      mockCart([]);
+
+      const result = await checkoutCart(USER_ID, {
+        ...OPTIONS,
+        idempotencyKey: KEY,
+      });
+
+      expect(result.replayed).toBe(true);
+      expect(result.purchaseRequest.id).toBe(purchaseRequest._id.toString());
+    });
+
+    it('should refuse a reused key with the same options but another cart', async () => {
+      mockCart([{ itemId: DESK_ID, quantity: 1 }]);
+
+      await expect(
+        checkoutCart(USER_ID, { ...OPTIONS, idempotencyKey: KEY })
+      ).rejects.toBeInstanceOf(IdempotencyKeyReusedError);
+    });
+  });
+});
@@ -1,24 +1,178 @@
 /**
  * Checkout Service
  *
- * Business logic for purchase request creation (simulated ERP submission):
+ * Business logic for purchase request creation:
  * - Validate cart contents
+ * - Review the cart against the live catalog: lines are ordered at the
+ *   current price and unavailable items are left out, once the user has
+ *   confirmed the changes (see checkout-review)
  * - Create purchase request with item snapshots
- * - Clear cart after successful checkout
+ * - Capture the cost center, GL code, delivery location and requested
+ *   delivery date, with optional per-line overrides (see checkout-delivery)
+ * - Check the cart total against the budget of the chosen cost center
+ * - Issue purchase orders and queue the ERP submission for auto-approved
+ *   requests
+ * - Publish the purchase_request.created webhook event
+ * - Clear cart after successful checkout, in the same transaction that
+ *   creates the request
+ * - Deduplicate retried checkouts by idempotency key (see
+ *   checkout-idempotency)
+ * - Shared team carts are checked out by their owner only
  *
  * Enforces business rules from PRD (BR-4.x).
  */
 
+import type { HydratedDocument } from 'mongoose';
 import { Types } from 'mongoose';
 
-import type { CartItemDocument } from '@/domain/documents';
-import type { PurchaseRequest } from '@/domain/entities';
-import { PurchaseRequestStatus } from '@/domain/entities';
-import { mapPurchaseRequestToEntity } from '@/lib/db/mappers';
-import { CartModel, ItemModel, PurchaseRequestModel } from '@/lib/db/models';
+import type { CartDocument } from '@/domain/documents';
+import type {
+  BudgetCheck,
+  CheckoutReview,
+  DeliveryLocation,
+  DeliveryLocationSnapshot,
+  Item,
+  PurchaseRequest,
+} from '@/domain/entities';
+import { PurchaseRequestStatus, WebhookEventType } from '@/domain/entities';
+import { buildInitialApprovalState } from '@/features/approvals/lib/approval.service';
+import {
+  ValidationError as BudgetValidationError,
+  BudgetExceededError,
+  checkBudgetForCostCenter,
+  CostCenterPermissionError,
+  resolveChargeableCostCenter,
+} from '@/features/budgets/lib/budget.service';
+import { canCheckoutCart, getCartRole } from '@/features/cart/lib/cart-sharing';
+import type { CartTarget } from '@/features/cart/lib/cart.service';
+import {
+  CartConflictError,
+  CartNotFoundError,
+  CartPermissionError,
+  findTargetCart,
+} from '@/features/cart/lib/cart.service';
+import {
+  ValidationError as DeliveryLocationValidationError,
+  getActiveDeliveryLocations,
+} from '@/features/delivery-locations/lib/delivery-location.service';
+import { enqueueErpSubmission } from '@/features/erp/lib/erp.service';
+import { selectSupplierOffer } from '@/features/purchase-orders/lib/purchase-order-planning';
+import { issuePurchaseOrdersOnApproval } from '@/features/purchase-orders/lib/purchase-order.service';
+import { publishWebhookEvent } from '@/features/webhooks/lib/webhook.service';
+import type { Page, PageParams } from '@/lib/api/pagination';
+import {
+  buildCursorFilter,
+  DEFAULT_PAGE_LIMIT,
+  toPage,
+} from '@/lib/api/pagination';
+import {
+  mapCartToEntity,
+  mapItemToEntity,
+  mapPurchaseRequestToEntity,
+  mapSupplierToEntity,
+} from '@/lib/db/mappers';
+import {
+  CartModel,
+  IdempotencyKeyModel,
+  ItemModel,
+  MAX_COST_CENTER_LENGTH,
+  MAX_GL_CODE_LENGTH,
+  MAX_IDEMPOTENCY_KEY_LENGTH,
+  PurchaseRequestModel,
+  SupplierModel,
+} from '@/lib/db/models';
 import connectDB from '@/lib/db/mongoose';
 import { logger } from '@/lib/logger/winston.config';
 
+import {
+  findDeliveryDateViolations,
+  formatDeliveryDate,
+  isValidGlCode,
+  parseDeliveryDate,
+} from './checkout-delivery';
+import type { CheckoutFingerprintLine } from './checkout-idempotency';
+import {
+  getCheckoutFingerprint,
+  isIdempotencyKeyConflict,
+  isValidIdempotencyKey,
+} from './checkout-idempotency';
+import type { CheckoutOrderLine } from './checkout-review';
+import { isCheckoutConfirmed, reviewCheckout } from './checkout-review';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Per-line override of the request's delivery and accounting details
+ */
+export interface CheckoutLineOverride {
+  /** Catalog item of the cart line */
+  itemId: string;
+  glCode?: string;
+  deliveryLocationId?: string;
+
+  /** YYYY-MM-DD */
+  requestedDeliveryDate?: string | Date;
+}
+
+export interface CheckoutOptions extends CartTarget {
+  /** Optional notes/justification */
+  notes?: string;
+
+  /**
+   * Cost center to charge (default: the requester's cost center); another
+   * cost center requires budget management permission
+   */
+  costCenter?: string;
+
+  /** GL account code to charge */
+  glCode?: string;
+
+  /** Managed delivery location to ship to */
+  deliveryLocationId?: string;
+
+  /**
+   * Requested delivery date (YYYY-MM-DD), no earlier than today plus the
+   * supplier lead time of every line
+   */
+  requestedDeliveryDate?: string | Date;
+
+  /** Lines that differ from the request's details */
+  lineOverrides?: CheckoutLineOverride[];
+
+  /**
+   * Total the user confirmed after reviewing price changes and
+   * unavailable items (see reviewCart)
+   */
+  confirmedTotal?: number;
+
+  /**
+   * Client-generated key of this checkout attempt; a repeated key with the
+   * same request returns the purchase request created with it (keys expire
+   * after 24 hours)
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * Result of a successful checkout
+ */
+export interface CheckoutResult {
+  /** Created purchase request */
+  purchaseRequest: PurchaseRequest;
+
+  /**
+   * Budget check for the request's cost center at submission time
+   * Null when the requester has no cost center or no active budget, and
+   * on replays
+   */
+  budgetCheck: BudgetCheck | null;
+
+  /** Whether the request was created earlier with the same idempotency key */
+  replayed: boolean;
+}
+
 // ============================================================================
 // Error Classes
 // ============================================================================
@@ -37,10 +191,60 @@ export class ValidationError extends Error {
   }
 }
 
+export class IdempotencyKeyReusedError extends Error {
+  constructor() {
+    super(
+      'This idempotency key was already used for a different checkout. Use a new key for each checkout.'
+    );
+    this.name = 'IdempotencyKeyReusedError';
+  }
+}
+
+export class CheckoutConfirmationRequiredError extends Error {
+  constructor(public readonly review: CheckoutReview) {
+    super(
+      `Your cart changed since items were added (new total: $${review.total.toFixed(2)}). Review and confirm the changes to continue.`
+    );
+    this.name = 'CheckoutConfirmationRequiredError';
+  }
+}
+
 // ============================================================================
 // Service Functions
 // ============================================================================
 
+/**
+ * Review the cart against the live catalog before checkout
+ *
+ * @param target - Shared cart to review; the personal cart when omitted
+ * @returns Price changes, unavailable items and the total to confirm
+ * @throws {EmptyCartError} if the cart is empty
+ * @throws {CartPermissionError} if the user does not own the shared cart
+ */
+export async function reviewCart(
+  userId: string | Types.ObjectId,
+  target: CartTarget = {}
+): Promise<CheckoutReview> {
+  await connectDB();
+
+  try {
+    const cart = await findCheckoutCart(userId, target);
+
+    if (!cart || cart.items.length === 0) {
+      throw new EmptyCartError();
+    }
+
+    const { review } = await reviewCartItems(cart);
+    return review;
+  } catch (error) {
+    if (error instanceof EmptyCartError || isCartAccessError(error)) {
+      throw error;
+    }
+    logger.error('Error reviewing cart', { userId, error });
+    throw new Error('Failed to review cart');
+  }
+}
+
 /**
  * Checkout cart and create purchase request
  *
@@ -49,19 +253,73 @@ export class ValidationError extends Error {
  * - BR-4.2: Generate unique purchase request ID
  * - BR-4.3: Record with timestamp, user ID, items, total
  * - BR-2.7: Clear cart after successful checkout
+ * - Lines are ordered at the current catalog price; archived or deleted
+ *   items are left out. Either change needs the confirmed total.
+ *
+ * The request enters the approval workflow with the chain resolved from
+ * the active approval rules (auto-approved if no rule matches).
+ *
+ * The total is checked against the active budget of the chosen cost
+ * center (the requester's by default): checkout is blocked when the
+ * budget enforcement is "block", otherwise the check is returned so
+ * callers can warn.
+ *
+ * Delivery locations must be active; requested delivery dates must leave
+ * every line its supplier lead time.
+ *
+ * A shared cart is checked out by its owner, optionally at the version
+ * they reviewed; lines added meanwhile stay in the cart, lines changed or
+ * removed meanwhile make the checkout fail with a conflict.
+ *
+ * The request, the idempotency key and the cart clearing are written in
+ * one transaction (MongoDB must run as a replica set). A repeated
+ * idempotency key with the same request returns the original request with
+ * replayed set, even when a concurrent checkout with the key wins the race.
+ * The key is bound to its request: other options (e.g., another cart) or
+ * other cart lines (items, quantities or prices) are refused.
  *
  * @param userId - User ID (ObjectId or string)
- * @param notes - Optional notes/justification
- * @returns Created purchase request
+ * @param options - Notes, the confirmed total, the shared cart, the
+ *   delivery and accounting details and the idempotency key
+ * @returns Created (or replayed) purchase request and budget check
+ * @throws {CheckoutConfirmationRequiredError} if the cart changed and the
+ *   new total has not been confirmed
+ * @throws {ValidationError} if a delivery or accounting detail or the
+ *   idempotency key is invalid, or the key belongs to another user
+ * @throws {IdempotencyKeyReusedError} if the key was used for a
+ *   different request
+ * @throws {CostCenterPermissionError} if the user may not charge the
+ *   chosen cost center
+ * @throws {BudgetExceededError} if the total exceeds a blocking budget
+ * @throws {CartPermissionError} if the user does not own the shared cart
+ * @throws {CartConflictError} if the shared cart changed since the version,
+ *   or a checked-out line changed during checkout
  */
 export async function checkoutCart(
   userId: string | Types.ObjectId,
-  notes?: string
-): Promise<PurchaseRequest> {
+  options: CheckoutOptions = {}
+): Promise<CheckoutResult> {
+  const { notes, confirmedTotal, cartId, version } = options;
+  const { idempotencyKey: rawIdempotencyKey, ...request } = options;
+  const idempotencyKey = normalizeIdempotencyKey(rawIdempotencyKey);
+  let orderedLines: CheckoutFingerprintLine[] | undefined;
+  let committed = false;
+
   await connectDB();
 
   try {
-    const cart = await CartModel.findOne({ userId }).exec();
+    if (idempotencyKey) {
+      const replay = await findIdempotentCheckout(
+        userId,
+        idempotencyKey,
+        request
+      );
+      if (replay) {
+        return replay;
+      }
+    }
+
+    const cart = await findCheckoutCart(userId, { cartId, version });
 
     if (!cart) {
       throw new EmptyCartError();
@@ -72,31 +330,41 @@ export async function checkoutCart(
       throw new EmptyCartError();
     }
 
-    // Generate request number (format: PR-YYYY-####)
-    const requestNumber = await generateRequestNumber();
+    // Reconcile with the live catalog; changes need the user's confirmation
+    const { review, orderLines } = await reviewCartItems(cart);
 
-    // Fetch item details to get category and description
-    const itemIds = cart.items.map((cartItem) => cartItem.itemId);
-    const items = await ItemModel.find({ _id: { $in: itemIds } })
-      .lean()
-      .exec();
+    if (!isCheckoutConfirmed(review, confirmedTotal)) {
+      throw new CheckoutConfirmationRequiredError(review);
+    }
+    if (orderLines.length === 0) {
+      throw new ValidationError(
+        'None of the items in your cart are available in the catalog anymore.'
+      );
+    }
+    orderedLines = orderLines;
+    const requestHash = getCheckoutFingerprint(request, orderLines);
+
+    // Delivery and accounting details, validated against the ordered lines
+    const details = await resolveCheckoutDetails(
+      options,
+      orderLines,
+      cart.items.map((line) => line.itemId.toString())
+    );
 
-    // Create a map of itemId -> item details
-    const itemMap = new Map(items.map((item) => [item._id.toString(), item]));
+    // Generate request number (format: PR-YYYY-####)
+    const requestNumber = await generateRequestNumber();
 
-    // Create purchase request items (immutable snapshots)
-    const requestItems = cart.items.map((cartItem: CartItemDocument) => {
-      const itemDetails = itemMap.get(cartItem.itemId.toString());
-      return {
-        itemId: cartItem.itemId,
-        name: cartItem.name,
-        category: itemDetails?.category || 'General',
-        description: itemDetails?.description || '',
-        unitPrice: cartItem.unitPrice,
-        quantity: cartItem.quantity,
-        subtotal: cartItem.unitPrice * cartItem.quantity,
-      };
-    });
+    // Create purchase request items (immutable snapshots, current prices)
+    const requestItems = orderLines.map((line) => ({
+      itemId: line.itemId,
+      name: line.name,
+      category: line.item.category || 'General',
+      description: line.item.description || '',
+      unitPrice: line.unitPrice,
+      quantity: line.quantity,
+      subtotal: line.unitPrice * line.quantity,
+      ...details.lines.get(line.itemId),
+    }));
 
     // Calculate total
     const total = requestItems.reduce(
@@ -104,6 +372,26 @@ export async function checkoutCart(
       0
     );
 
+    // Check department budget before creating the request
+    const costCenter = await resolveChargeableCostCenter(
+      userId,
+      details.costCenter
+    );
+    const budgetCheck = costCenter
+      ? await checkBudgetForCostCenter(costCenter, total)
+      : null;
+
+    if (budgetCheck?.blocked) {
+      throw new BudgetExceededError(budgetCheck);
+    }
+
+    // Resolve approval chain and initial workflow state
+    const approval = await buildInitialApprovalState(
+      requestItems.map((item) => ({ itemCategory: item.category })),
+      total,
+      userId
+    );
+
     // Create purchase request
     const purchaseRequest = new PurchaseRequestModel({
       requestNumber,
@@ -112,19 +400,130 @@ export async function checkoutCart(
       total,
       notes: notes || '',
       source: 'ui',
-      status: 'submitted',
+      status: approval.status,
+      approvalSteps: approval.approvalSteps,
+      currentApprovalStep: approval.currentApprovalStep ?? null,
+      statusHistory: approval.statusHistory,
+      costCenter,
+      glCode: details.glCode,
+      deliveryLocation: details.deliveryLocation,
+      requestedDeliveryDate: details.requestedDeliveryDate,
+    });
+
+    // Create the request, store the key and clear the cart (BR-2.7)
+    // atomically: remove the checked-out lines only, so lines a
+    // collaborator added meanwhile are kept. A checked-out line changed or
+    // removed since it was reviewed aborts the checkout.
+    const reviewedLines = cart.items.map((line) => ({
+      itemId: line.itemId,
+      quantity: line.quantity,
+    }));
+    await PurchaseRequestModel.db.transaction(async (session) => {
+      await purchaseRequest.save({ session });
+
+      if (idempotencyKey) {
+        await IdempotencyKeyModel.create(
+          [
+            {
+              key: idempotencyKey,
+              userId,
+              purchaseRequestId: purchaseRequest._id,
+              requestHash,
+            },
+          ],
+          { session }
+        );
+      }
+
+      const { matchedCount } = await CartModel.updateOne(
+        {
+          _id: cart._id,
+          items: {
+            $all: reviewedLines.map((line) => ({ $elemMatch: line })),
+          },
+        },
+        {
+          $pull: { items: { $or: reviewedLines } },
+          $inc: { __v: 1 },
+        },
+        { session }
+      ).exec();
+      if (matchedCount === 0) {
+        throw new CartConflictError();
+      }
     });
+    committed = true;
 
-    const savedRequest = await purchaseRequest.save();
+    // Auto-approved requests go straight to purchase orders and the ERP
+    if (purchaseRequest.status === PurchaseRequestStatus.Approved) {
+      await issuePurchaseOrdersOnApproval(purchaseRequest._id.toString());
+      await enqueueErpSubmission(purchaseRequest._id.toString());
+    }
 
-    // Clear cart (BR-2.7)
-    cart.items = [];
-    await cart.save();
+    const createdRequest = mapPurchaseRequestToEntity(purchaseRequest);
+    await publishWebhookEvent(WebhookEventType.PurchaseRequestCreated, {
+      purchaseRequest: createdRequest,
+    });
 
-    // Map to domain entity
-    return mapPurchaseRequestToEntity(savedRequest);
+    if (review.requiresConfirmation) {
+      logger.info('Checkout confirmed with cart changes', {
+        userId,
+        purchaseRequestId: createdRequest.id,
+        priceChanges: review.priceChanges.length,
+        unavailable: review.unavailable.length,
+        cartTotal: review.cartTotal,
+        total,
+      });
+    }
+
+    if (budgetCheck?.exceedsBudget) {
+      logger.warn('Checkout exceeds department budget', {
+        userId,
+        costCenter,
+        budgetId: budgetCheck.budget.id,
+        total,
+        remaining: budgetCheck.remaining,
+      });
+    }
+
+    return {
+      purchaseRequest: createdRequest,
+      budgetCheck,
+      replayed: false,
+    };
   } catch (error) {
-    if (error instanceof EmptyCartError || error instanceof ValidationError) {
+    // A concurrent checkout with the same key may have won the race (this
+    // one then finds the cart cleared or loses on the key's unique index)
+    if (idempotencyKey && !committed) {
+      const replay = await findIdempotentCheckout(
+        userId,
+        idempotencyKey,
+        request,
+        orderedLines
+      ).catch((lookupError) => {
+        if (lookupError instanceof IdempotencyKeyReusedError) {
+          throw lookupError;
+        }
+        return null;
+      });
+      if (replay) {
+        return replay;
+      }
+    }
+    if (isIdempotencyKeyConflict(error)) {
+      throw new ValidationError('Idempotency key was already used');
+    }
+    if (
+      error instanceof EmptyCartError ||
+      error instanceof ValidationError ||
+      error instanceof DeliveryLocationValidationError ||
+      error instanceof CheckoutConfirmationRequiredError ||
+      error instanceof IdempotencyKeyReusedError ||
+      error instanceof BudgetValidationError ||
+      error instanceof CostCenterPermissionError ||
+      error instanceof BudgetExceededError ||
+      isCartAccessError(error)
+    ) {
       throw error;
     }
     logger.error('Error during checkout', { userId, error });
@@ -133,18 +532,24 @@ export async function checkoutCart(
 }
 
 /**
- * Get all purchase requests for a user
+ * Get purchase requests for a user (most recent first, cursor-paginated)
  *
  * @param userId - User ID (ObjectId or string)
  * @param filters - Optional filters (status)
- * @returns List of purchase requests
+ * @param page - Page cursor and size (default 20)
+ * @returns Page of purchase requests
+ * @throws {InvalidCursorError} if the cursor is invalid
  */
 export async function getPurchaseRequestsForUser(
   userId: string | Types.ObjectId,
-  filters?: { status?: PurchaseRequestStatus }
-): Promise<PurchaseRequest[]> {
+  filters?: { status?: PurchaseRequestStatus },
+  page: PageParams = {}
+): Promise<Page<PurchaseRequest>> {
   await connectDB();
 
+  const { cursor, limit = DEFAULT_PAGE_LIMIT } = page;
+  const cursorFilter = buildCursorFilter(cursor, 'createdAt', -1);
+
   try {
     // Convert userId to ObjectId if it's a string to ensure proper comparison
     const userIdObj =
@@ -159,14 +564,26 @@ export async function getPurchaseRequestsForUser(
       query.status = filters.status;
     }
 
-    // Fetch purchase requests
-    const requests = await PurchaseRequestModel.find(query)
-      .sort({ createdAt: -1 }) // Most recent first
+    // Fetch one extra request to know whether there is a next page
+    const requests = await PurchaseRequestModel.find({
+      ...query,
+      ...cursorFilter,
+    })
+      .sort({ createdAt: -1, _id: -1 }) // Most recent first
+      .limit(limit + 1)
       .lean()
       .exec();
 
     // Map to domain entities
-    return requests.map(mapPurchaseRequestToEntity);
+    return toPage(
+      requests.map(mapPurchaseRequestToEntity),
+      limit,
+      (request) => ({
+        field: 'createdAt',
+        value: request.createdAt,
+        id: request.id,
+      })
+    );
   } catch (error) {
     logger.error('Error fetching purchase requests', { userId, error });
     throw new Error('Failed to fetch purchase requests');
@@ -218,6 +635,333 @@ export async function getPurchaseRequestById(
 // Helper Functions
 // ============================================================================
 
+/**
+ * Load the cart to check out
+ * Only the owner may check out a shared cart.
+ */
+async function findCheckoutCart(
+  userId: string | Types.ObjectId,
+  target: CartTarget
+): Promise<HydratedDocument<CartDocument> | null> {
+  const cart = await findTargetCart(userId, target);
+
+  if (
+    cart?.isShared &&
+    !canCheckoutCart(
+      getCartRole(mapCartToEntity(cart.toObject()), userId.toString())
+    )
+  ) {
+    throw new CartPermissionError('Only the cart owner can check out');
+  }
+  return cart;
+}
+
+/**
+ * Return the checkout stored under an idempotency key, if any
+ * The repeat must send the same options and order the same lines: the
+ * given lines (reviewed by this checkout), otherwise the lines in the cart
+ * now, or the stored request's lines once its checkout emptied the cart.
+ *
+ * @throws {ValidationError} if another user sent the key
+ * @throws {IdempotencyKeyReusedError} if the key was sent with a different
+ *   request
+ */
+async function findIdempotentCheckout(
+  userId: string | Types.ObjectId,
+  key: string,
+  request: Omit<CheckoutOptions, 'idempotencyKey'>,
+  lines?: CheckoutFingerprintLine[]
+): Promise<CheckoutResult | null> {
+  const record = await IdempotencyKeyModel.findOne({ key }).lean().exec();
+  if (!record) {
+    return null;
+  }
+  if (record.userId.toString() !== userId.toString()) {
+    throw new ValidationError('Idempotency key was already used');
+  }
+
+  const purchaseRequest = await PurchaseRequestModel.findById(
+    record.purchaseRequestId
+  )
+    .lean()
+    .exec();
+  if (!purchaseRequest) {
+    return null;
+  }
+  const original = mapPurchaseRequestToEntity(purchaseRequest);
+
+  const repeatedLines =
+    lines ??
+    (await findCartOrderLines(userId, request.cartId)) ??
+    original.items;
+  if (record.requestHash !== getCheckoutFingerprint(request, repeatedLines)) {
+    throw new IdempotencyKeyReusedError();
+  }
+
+  logger.info('Checkout replayed for idempotency key', {
+    userId,
+    purchaseRequestId: original.id,
+  });
+
+  return {
+    purchaseRequest: original,
+    budgetCheck: null,
+    replayed: true,
+  };
+}
+
+/**
+ * Lines the cart would order now (null while the cart is empty)
+ */
+async function findCartOrderLines(
+  userId: string | Types.ObjectId,
+  cartId?: string
+): Promise<CheckoutOrderLine[] | null> {
+  const cart = await findCheckoutCart(userId, { cartId });
+  if (!cart?.items?.length) {
+    return null;
+  }
+  const { orderLines } = await reviewCartItems(cart);
+  return orderLines;
+}
+
+function isCartAccessError(error: unknown): boolean {
+  return (
+    error instanceof CartNotFoundError ||
+    error instanceof CartPermissionError ||
+    error instanceof CartConflictError
+  );
+}
+
+/**
+ * Review cart lines against their current catalog items
+ */
+async function reviewCartItems(cart: CartDocument) {
+  const itemIds = cart.items.map((cartItem) => cartItem.itemId);
+  const items = (
+    await ItemModel.find({ _id: { $in: itemIds } })
+      .lean()
+      .exec()
+  ).map(mapItemToEntity);
+
+  return reviewCheckout(
+    cart.items.map((cartItem) => ({
+      itemId: cartItem.itemId.toString(),
+      name: cartItem.name,
+      unitPrice: cartItem.unitPrice,
+      quantity: cartItem.quantity,
+    })),
+    items
+  );
+}
+
+/**
+ * Validate the delivery and accounting details of a checkout
+ * Line overrides must refer to cart lines (overrides of lines left out as
+ * unavailable are ignored); locations are snapshotted and requested dates
+ * are checked against supplier lead times.
+ */
+async function resolveCheckoutDetails(
+  options: CheckoutOptions,
+  orderLines: CheckoutOrderLine<Item>[],
+  cartItemIds: string[]
+) {
+  const costCenter = normalizeCostCenter(options.costCenter);
+  const glCode = normalizeGlCode(options.glCode);
+  const requestedDeliveryDate = normalizeDeliveryDate(
+    options.requestedDeliveryDate
+  );
+
+  const cartItemIdSet = new Set(cartItemIds);
+  const orderedItemIds = new Set(orderLines.map((line) => line.itemId));
+  const seenItemIds = new Set<string>();
+  for (const override of options.lineOverrides ?? []) {
+    if (typeof override?.itemId !== 'string') {
+      throw new ValidationError('Each line override needs an itemId');
+    }
+    if (!cartItemIdSet.has(override.itemId)) {
+      throw new ValidationError(
+        `Line override refers to an item that is not in the cart: ${override.itemId}`
+      );
+    }
+    if (seenItemIds.has(override.itemId)) {
+      throw new ValidationError(
+        `Duplicate line override for item ${override.itemId}`
+      );
+    }
+    seenItemIds.add(override.itemId);
+  }
+  const overrides = (options.lineOverrides ?? []).filter((override) =>
+    orderedItemIds.has(override.itemId)
+  );
+
+  const locationIds = [
+    options.deliveryLocationId,
+    ...overrides.map((override) => override.deliveryLocationId),
+  ].filter((id): id is string => Boolean(id));
+  if (locationIds.some((id) => typeof id !== 'string')) {
+    throw new ValidationError('Delivery location ID must be a string');
+  }
+  const locations =
+    locationIds.length > 0
+      ? await getActiveDeliveryLocations(locationIds)
+      : new Map<string, DeliveryLocation>();
+  const snapshotLocation = (
+    locationId?: string
+  ): DeliveryLocationSnapshot | undefined => {
+    const location = locationId ? locations.get(locationId) : undefined;
+    return location
+      ? {
+          locationId: location.id,
+          name: location.name,
+          address: location.address,
+        }
+      : undefined;
+  };
+
+  const lines = new Map(
+    overrides.map((override) => [
+      override.itemId,
+      {
+        glCode: normalizeGlCode(override.glCode),
+        deliveryLocation: snapshotLocation(override.deliveryLocationId),
+        requestedDeliveryDate: normalizeDeliveryDate(
+          override.requestedDeliveryDate
+        ),
+      },
+    ])
+  );
+
+  await assertDeliveryDatesMeetLeadTimes(
+    orderLines.map((line) => ({
+      line,
+      requestedDeliveryDate:
+        lines.get(line.itemId)?.requestedDeliveryDate ?? requestedDeliveryDate,
+    }))
+  );
+
+  return {
+    costCenter,
+    glCode,
+    deliveryLocation: snapshotLocation(options.deliveryLocationId),
+    requestedDeliveryDate,
+    lines,
+  };
+}
+
+/**
+ * Reject requested delivery dates earlier than the lead time of the
+ * supplier each line will be ordered from (see purchase-order-planning)
+ */
+async function assertDeliveryDatesMeetLeadTimes(
+  lines: {
+    line: CheckoutOrderLine<Item>;
+    requestedDeliveryDate?: Date;
+  }[]
+): Promise<void> {
+  const datedLines = lines.filter(
+    ({ requestedDeliveryDate }) => requestedDeliveryDate
+  );
+  if (datedLines.length === 0) {
+    return;
+  }
+
+  const supplierIds = datedLines.flatMap(({ line }) =>
+    line.item.suppliers.map((offer) => offer.supplierId)
+  );
+  const suppliers = await SupplierModel.find({ _id: { $in: supplierIds } })
+    .lean()
+    .exec();
+  const supplierMap = new Map(
+    suppliers.map((supplier) => [
+      supplier._id.toString(),
+      mapSupplierToEntity(supplier),
+    ])
+  );
+
+  const violations = findDeliveryDateViolations(
+    datedLines.map(({ line, requestedDeliveryDate }) => {
+      const offer = selectSupplierOffer(line.item.suppliers, supplierMap);
+      return {
+        itemId: line.itemId,
+        itemName: line.name,
+        leadTimeDays: offer
+          ? (offer.leadTimeDays ??
+            supplierMap.get(offer.supplierId)?.leadTimeDays)
+          : undefined,
+        requestedDeliveryDate,
+      };
+    }),
+    new Date()
+  );
+
+  if (violations.length > 0) {
+    const details = violations
+      .map(
+        (violation) =>
+          `${violation.itemName} (earliest ${formatDeliveryDate(violation.earliestDeliveryDate)})`
+      )
+      .join(', ');
+    throw new ValidationError(
+      `Requested delivery date is earlier than the supplier lead time allows: ${details}`
+    );
+  }
+}
+
+function normalizeCostCenter(value?: string): string | undefined {
+  if (value !== undefined && typeof value !== 'string') {
+    throw new ValidationError('Cost center must be a string');
+  }
+  const costCenter = value?.trim();
+  if (costCenter && costCenter.length > MAX_COST_CENTER_LENGTH) {
+    throw new ValidationError(
+      `Cost center must not exceed ${MAX_COST_CENTER_LENGTH} characters`
+    );
+  }
+  return costCenter || undefined;
+}
+
+function normalizeGlCode(value?: string): string | undefined {
+  if (value !== undefined && typeof value !== 'string') {
+    throw new ValidationError('GL code must be a string');
+  }
+  const glCode = value?.trim();
+  if (!glCode) {
+    return undefined;
+  }
+  if (glCode.length > MAX_GL_CODE_LENGTH || !isValidGlCode(glCode)) {
+    throw new ValidationError(
+      `Invalid GL code "${glCode}": use up to ${MAX_GL_CODE_LENGTH} letters, digits, dots or dashes`
+    );
+  }
+  return glCode;
+}
+
+function normalizeDeliveryDate(value?: string | Date): Date | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const date = parseDeliveryDate(value);
+  if (!date) {
+    throw new ValidationError(
+      `Invalid requested delivery date: ${String(value)} (use YYYY-MM-DD)`
+    );
+  }
+  return date;
+}
+
+function normalizeIdempotencyKey(value?: string): string | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !isValidIdempotencyKey(value)) {
+    throw new ValidationError(
+      `Idempotency key must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} visible ASCII characters`
+    );
+  }
+  return value;
+}
+
 /**
  * Generate unique purchase request number
  * Format: PR-YYYY-####
@@ -0,0 +1,6 @@
+/**
+ * Delivery Locations Feature
+ * Managed list of company sites purchases are delivered to
+ */
+
+export * from './lib/delivery-location.service';
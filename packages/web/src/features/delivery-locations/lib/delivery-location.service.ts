@@ -0,0 +1,352 @@
+/**
+ * Delivery Location Service
+ *
+ * Business logic for the managed list of company delivery locations:
+ * - List, create, update and delete locations (admins)
+ * - Resolve the locations chosen at checkout
+ *
+ * Purchase requests keep a snapshot of the chosen location, so editing or
+ * deleting a location never changes submitted requests. Deactivate a
+ * location to stop it from being chosen while keeping it on file.
+ */
+
+import { Types } from 'mongoose';
+
+import type { DeliveryLocation } from '@/domain/entities';
+import { mapDeliveryLocationToEntity } from '@/lib/db/mappers';
+import {
+  DeliveryLocationModel,
+  MAX_DELIVERY_ADDRESS_LENGTH,
+  MAX_DELIVERY_LOCATION_NAME_LENGTH,
+} from '@/lib/db/models';
+import connectDB from '@/lib/db/mongoose';
+import { logger } from '@/lib/logger/winston.config';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Input for creating a delivery location
+ */
+export interface CreateDeliveryLocationInput {
+  name: string;
+  address: string;
+  isActive?: boolean;
+}
+
+/**
+ * Input for updating a delivery location (all fields optional)
+ */
+export type UpdateDeliveryLocationInput = Partial<CreateDeliveryLocationInput>;
+
+/**
+ * Filters for listing delivery locations
+ */
+export interface DeliveryLocationFilters {
+  /** Include inactive locations (default: active only) */
+  includeInactive?: boolean;
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+export class DeliveryLocationNotFoundError extends Error {
+  constructor(locationId: string) {
+    super(`Delivery location not found: ${locationId}`);
+    this.name = 'DeliveryLocationNotFoundError';
+  }
+}
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+/**
+ * List delivery locations
+ *
+ * @param filters - Optional filters
+ * @returns Locations sorted by name
+ */
+export async function listDeliveryLocations(
+  filters: DeliveryLocationFilters = {}
+): Promise<DeliveryLocation[]> {
+  await connectDB();
+
+  try {
+    const locations = await DeliveryLocationModel.find(
+      filters.includeInactive ? {} : { isActive: true }
+    )
+      .sort({ name: 1 })
+      .lean()
+      .exec();
+
+    return locations.map(mapDeliveryLocationToEntity);
+  } catch (error) {
+    logger.error('Error listing delivery locations', { filters, error });
+    throw new Error('Failed to list delivery locations');
+  }
+}
+
+/**
+ * Resolve active delivery locations by ID
+ * Used at checkout, where only active locations can be chosen.
+ *
+ * @throws {ValidationError} if an ID is invalid, unknown or inactive
+ * @returns Locations keyed by ID
+ */
+export async function getActiveDeliveryLocations(
+  locationIds: string[]
+): Promise<Map<string, DeliveryLocation>> {
+  await connectDB();
+
+  const uniqueIds = [...new Set(locationIds)];
+  for (const locationId of uniqueIds) {
+    if (!Types.ObjectId.isValid(locationId)) {
+      throw new ValidationError(`Invalid delivery location ID: ${locationId}`);
+    }
+  }
+
+  try {
+    const locations = await DeliveryLocationModel.find({
+      _id: { $in: uniqueIds.map((id) => new Types.ObjectId(id)) },
+    })
+      .lean()
+      .exec();
+    const locationMap = new Map(
+      locations.map((doc) => [
+        doc._id.toString(),
+        mapDeliveryLocationToEntity(doc),
+      ])
+    );
+
+    for (const locationId of uniqueIds) {
+      const location = locationMap.get(locationId);
+      if (!location) {
+        throw new ValidationError(`Unknown delivery location: ${locationId}`);
+      }
+      if (!location.isActive) {
+        throw new ValidationError(
+          `Delivery location "${location.name}" is no longer available`
+        );
+      }
+    }
+
+    return locationMap;
+  } catch (error) {
+    if (isKnownDeliveryLocationError(error)) {
+      throw error;
+    }
+    logger.error('Error resolving delivery locations', { locationIds, error });
+    throw new Error('Failed to resolve delivery locations');
+  }
+}
+
+/**
+ * Create a delivery location
+ * Location names are unique (case-insensitive).
+ */
+export async function createDeliveryLocation(
+  input: CreateDeliveryLocationInput
+): Promise<DeliveryLocation> {
+  await connectDB();
+
+  try {
+    const data = normalizeDeliveryLocationInput(input);
+    await assertUniqueName(data.name);
+
+    const location = await DeliveryLocationModel.create(data);
+
+    logger.info('Delivery location created', {
+      locationId: location._id.toString(),
+      name: data.name,
+    });
+
+    return mapDeliveryLocationToEntity(location.toObject());
+  } catch (error) {
+    if (isKnownDeliveryLocationError(error)) {
+      throw error;
+    }
+    logger.error('Error creating delivery location', { input, error });
+    throw new Error('Failed to create delivery location');
+  }
+}
+
+/**
+ * Update a delivery location
+ *
+ * @throws {DeliveryLocationNotFoundError} if the location does not exist
+ */
+export async function updateDeliveryLocation(
+  locationId: string,
+  input: UpdateDeliveryLocationInput
+): Promise<DeliveryLocation> {
+  await connectDB();
+
+  try {
+    const existing = await findDeliveryLocationOrThrow(locationId);
+    const data = normalizeDeliveryLocationInput({ ...existing, ...input });
+
+    if (data.name.toLowerCase() !== existing.name.toLowerCase()) {
+      await assertUniqueName(data.name, locationId);
+    }
+
+    const updated = await DeliveryLocationModel.findByIdAndUpdate(
+      locationId,
+      { $set: data },
+      { new: true, runValidators: true }
+    )
+      .lean()
+      .exec();
+
+    if (!updated) {
+      throw new DeliveryLocationNotFoundError(locationId);
+    }
+
+    logger.info('Delivery location updated', { locationId });
+
+    return mapDeliveryLocationToEntity(updated);
+  } catch (error) {
+    if (isKnownDeliveryLocationError(error)) {
+      throw error;
+    }
+    logger.error('Error updating delivery location', {
+      locationId,
+      input,
+      error,
+    });
+    throw new Error('Failed to update delivery location');
+  }
+}
+
+/**
+ * Delete a delivery location
+ * Submitted requests keep their snapshot of the location.
+ *
+ * @throws {DeliveryLocationNotFoundError} if the location does not exist
+ */
+export async function deleteDeliveryLocation(
+  locationId: string
+): Promise<void> {
+  await connectDB();
+
+  try {
+    await findDeliveryLocationOrThrow(locationId);
+
+    await DeliveryLocationModel.findByIdAndDelete(locationId).exec();
+
+    logger.info('Delivery location deleted', { locationId });
+  } catch (error) {
+    if (isKnownDeliveryLocationError(error)) {
+      throw error;
+    }
+    logger.error('Error deleting delivery location', { locationId, error });
+    throw new Error('Failed to delete delivery location');
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Validate and normalize create/update input
+ */
+function normalizeDeliveryLocationInput(input: UpdateDeliveryLocationInput) {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    throw new ValidationError('Location name is required');
+  }
+  if (name.length > MAX_DELIVERY_LOCATION_NAME_LENGTH) {
+    throw new ValidationError(
+      `Location name must not exceed ${MAX_DELIVERY_LOCATION_NAME_LENGTH} characters`
+    );
+  }
+
+  const address = typeof input.address === 'string' ? input.address.trim() : '';
+  if (!address) {
+    throw new ValidationError('Address is required');
+  }
+  if (address.length > MAX_DELIVERY_ADDRESS_LENGTH) {
+    throw new ValidationError(
+      `Address must not exceed ${MAX_DELIVERY_ADDRESS_LENGTH} characters`
+    );
+  }
+
+  if (input.isActive !== undefined && typeof input.isActive !== 'boolean') {
+    throw new ValidationError('isActive must be a boolean');
+  }
+
+  return {
+    name,
+    address,
+    isActive: input.isActive ?? true,
+  };
+}
+
+/**
+ * Reject a location name already used by another location
+ */
+async function assertUniqueName(
+  name: string,
+  excludeLocationId?: string
+): Promise<void> {
+  const existing = await DeliveryLocationModel.findOne({
+    name: new RegExp(`^${escapeRegExp(name)}$`, 'i'),
+    ...(excludeLocationId && { _id: { $ne: excludeLocationId } }),
+  })
+    .lean()
+    .exec();
+
+  if (existing) {
+    throw new ValidationError(
+      `A delivery location named "${name}" already exists`
+    );
+  }
+}
+
+/**
+ * Fetch a delivery location or throw a not-found error
+ */
+async function findDeliveryLocationOrThrow(
+  locationId: string
+): Promise<DeliveryLocation> {
+  if (!Types.ObjectId.isValid(locationId)) {
+    throw new ValidationError('Invalid delivery location ID');
+  }
+
+  const location = await DeliveryLocationModel.findById(locationId)
+    .lean()
+    .exec();
+
+  if (!location) {
+    throw new DeliveryLocationNotFoundError(locationId);
+  }
+
+  return mapDeliveryLocationToEntity(location);
+}
+
+/**
+ * Escape user input for use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Errors that should propagate to the caller unchanged
+ */
+function isKnownDeliveryLocationError(error: unknown): boolean {
+  return (
+    error instanceof ValidationError ||
+    error instanceof DeliveryLocationNotFoundError
+  );
+}
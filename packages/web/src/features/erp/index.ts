@@ -0,0 +1,10 @@
+/**
+ * ERP Feature
+ * Connector interface, adapters and the outbox that sends purchase
+ * requests to the ERP
+ */
+
+export * from './lib/erp-connector';
+export * from './lib/erp-outbox';
+export * from './lib/erp-config';
+export * from './lib/erp.service';
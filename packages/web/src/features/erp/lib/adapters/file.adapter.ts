@@ -0,0 +1,115 @@
+/**
+ * File ERP Adapter
+ *
+ * Writes purchase requests as JSON documents to a local outbox directory,
+ * for development and for ERPs that import files:
+ *
+ *   <dir>/submitted/<reference>.json   submitted request
+ *   <dir>/cancelled/<reference>.json   cancellation
+ *   <dir>/status/<reference>.json      status written back by the ERP,
+ *                                      e.g. { "status": "accepted" }
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+
+import { ErpSyncStatus } from '@/domain/entities';
+
+import type {
+  ErpConnector,
+  ErpPurchaseRequestPayload,
+  ErpStatusResult,
+} from '../erp-connector';
+import { ErpConnectorError } from '../erp-connector';
+import { parseErpRemoteStatus } from '../erp-outbox';
+
+export interface FileErpConnectorOptions {
+  /** Outbox directory (created on first write) */
+  directory: string;
+}
+
+/**
+ * Create a file-based ERP connector
+ * The reference is derived from the request number, so resubmitting
+ * the same request overwrites the same file.
+ */
+export function createFileErpConnector(
+  options: FileErpConnectorOptions
+): ErpConnector {
+  const { directory } = options;
+
+  const filePath = (folder: string, reference: string) =>
+    path.join(directory, folder, `${reference}.json`);
+
+  const writeJson = async (file: string, data: unknown) => {
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify(data, null, 2), 'utf8');
+  };
+
+  const readJson = async (file: string): Promise<unknown | null> => {
+    try {
+      return JSON.parse(await readFile(file, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw new ErpConnectorError(
+        `Failed to read ${path.basename(file)}: ${(error as Error).message}`,
+        { retryable: false }
+      );
+    }
+  };
+
+  return {
+    name: 'file',
+
+    async submit(payload: ErpPurchaseRequestPayload, idempotencyKey: string) {
+      const reference = `FILE-${payload.requestNumber}`;
+      await writeJson(filePath('submitted', reference), {
+        reference,
+        idempotencyKey,
+        submittedAt: new Date().toISOString(),
+        payload,
+      });
+      return { reference, status: ErpSyncStatus.Submitted };
+    },
+
+    async getStatus(reference: string): Promise<ErpStatusResult> {
+      const reported = (await readJson(filePath('status', reference))) as {
+        status?: unknown;
+        message?: string;
+      } | null;
+      if (reported) {
+        return {
+          status: parseErpRemoteStatus(reported.status),
+          message: reported.message,
+        };
+      }
+
+      if (await readJson(filePath('cancelled', reference))) {
+        return { status: ErpSyncStatus.Cancelled };
+      }
+      if (await readJson(filePath('submitted', reference))) {
+        return { status: ErpSyncStatus.Submitted };
+      }
+
+      throw new ErpConnectorError(`Unknown ERP reference: ${reference}`, {
+        retryable: false,
+      });
+    },
+
+    async cancel(reference: string, idempotencyKey: string) {
+      if (!(await readJson(filePath('submitted', reference)))) {
+        throw new ErpConnectorError(`Unknown ERP reference: ${reference}`, {
+          retryable: false,
+        });
+      }
+      await writeJson(filePath('cancelled', reference), {
+        reference,
+        idempotencyKey,
+        cancelledAt: new Date().toISOString(),
+      });
+      return { reference, status: ErpSyncStatus.Cancelled };
+    },
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * HTTP ERP Adapter
+ *
+ * Generic REST client for ERPs (or middleware) exposing:
+ *
+ *   POST {baseUrl}/purchase-requests                  → { reference, status }
+ *   GET  {baseUrl}/purchase-requests/{reference}      → { status, message? }
+ *   POST {baseUrl}/purchase-requests/{reference}/cancel → { reference, status }
+ *
+ * Every write carries an Idempotency-Key header so retried attempts are
+ * safe. Point it at a local mock server for development.
+ */
+
+import type {
+  ErpConnector,
+  ErpPurchaseRequestPayload,
+  ErpStatusResult,
+  ErpSubmitResult,
+} from '../erp-connector';
+import { ErpConnectorError } from '../erp-connector';
+import { parseErpRemoteStatus } from '../erp-outbox';
+
+export interface HttpErpConnectorOptions {
+  /** Base URL, without trailing slash (e.g., http://localhost:4010) */
+  baseUrl: string;
+
+  /** Optional bearer token */
+  apiKey?: string;
+
+  /** Request timeout in milliseconds */
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/**
+ * Create an HTTP ERP connector
+ */
+export function createHttpErpConnector(
+  options: HttpErpConnectorOptions
+): ErpConnector {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  const request = async (
+    method: 'GET' | 'POST',
+    pathname: string,
+    body?: unknown,
+    idempotencyKey?: string
+  ): Promise<Record<string, unknown>> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${pathname}`, {
+        method,
+        headers: {
+          Accept: 'application/json',
+          ...(body !== undefined && { 'Content-Type': 'application/json' }),
+          ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey }),
+          ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      // Network failures and timeouts are transient
+      throw new ErpConnectorError(
+        `ERP request failed: ${error instanceof Error ? error.message : String(error)}`,
+        { retryable: true }
+      );
+    }
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new ErpConnectorError(
+        `ERP responded with ${response.status}${text ? `: ${text.slice(0, 500)}` : ''}`,
+        { status: response.status }
+      );
+    }
+
+    try {
+      return (await response.json()) as Record<string, unknown>;
+    } catch {
+      throw new ErpConnectorError('ERP returned an invalid JSON response', {
+        retryable: false,
+      });
+    }
+  };
+
+  const toSubmitResult = (data: Record<string, unknown>): ErpSubmitResult => {
+    if (typeof data.reference !== 'string' || !data.reference) {
+      throw new ErpConnectorError('ERP response is missing a reference', {
+        retryable: false,
+      });
+    }
+    return {
+      reference: data.reference,
+      status: parseErpRemoteStatus(data.status),
+    };
+  };
+
+  return {
+    name: 'http',
+
+    async submit(payload: ErpPurchaseRequestPayload, idempotencyKey: string) {
+      const data = await request(
+        'POST',
+        '/purchase-requests',
+        payload,
+        idempotencyKey
+      );
+      return toSubmitResult(data);
+    },
+
+    async getStatus(reference: string): Promise<ErpStatusResult> {
+      const data = await request(
+        'GET',
+        `/purchase-requests/${encodeURIComponent(reference)}`
+      );
+      return {
+        status: parseErpRemoteStatus(data.status),
+        message: typeof data.message === 'string' ? data.message : undefined,
+      };
+    },
+
+    async cancel(reference: string, idempotencyKey: string) {
+      const data = await request(
+        'POST',
+        `/purchase-requests/${encodeURIComponent(reference)}/cancel`,
+        {},
+        idempotencyKey
+      );
+      return toSubmitResult({ reference, ...data });
+    },
+  };
+}
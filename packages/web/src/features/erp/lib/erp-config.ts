@@ -0,0 +1,79 @@
+/**
+ * ERP Connector Configuration
+ *
+ * Selects the ERP connector from environment variables:
+ * - ERP_CONNECTOR: "file" (default) or "http"
+ * - ERP_OUTBOX_DIR: directory for the file connector (default ./.erp-outbox)
+ * - ERP_HTTP_BASE_URL, ERP_HTTP_API_KEY, ERP_HTTP_TIMEOUT_MS: http connector
+ * - ERP_MAX_ATTEMPTS: attempts before an outbox entry is marked failed
+ *
+ * Switching to a real ERP means adding an adapter and a case below.
+ */
+
+import path from 'path';
+
+import { createFileErpConnector } from './adapters/file.adapter';
+import { createHttpErpConnector } from './adapters/http.adapter';
+import type { ErpConnector } from './erp-connector';
+import { DEFAULT_ERP_MAX_ATTEMPTS } from './erp-outbox';
+
+let connector: ErpConnector | null = null;
+
+/**
+ * Get the configured ERP connector (created once per process)
+ *
+ * @throws {Error} if the configuration is invalid
+ */
+export function getErpConnector(): ErpConnector {
+  if (connector) {
+    return connector;
+  }
+
+  const type = getErpConnectorName();
+
+  switch (type) {
+    case 'file':
+      connector = createFileErpConnector({
+        directory:
+          process.env.ERP_OUTBOX_DIR || path.join(process.cwd(), '.erp-outbox'),
+      });
+      break;
+    case 'http': {
+      const baseUrl = process.env.ERP_HTTP_BASE_URL;
+      if (!baseUrl) {
+        throw new Error(
+          'ERP_HTTP_BASE_URL is required when ERP_CONNECTOR=http'
+        );
+      }
+      connector = createHttpErpConnector({
+        baseUrl,
+        apiKey: process.env.ERP_HTTP_API_KEY || undefined,
+        timeoutMs: process.env.ERP_HTTP_TIMEOUT_MS
+          ? parseInt(process.env.ERP_HTTP_TIMEOUT_MS, 10)
+          : undefined,
+      });
+      break;
+    }
+    default:
+      throw new Error(`Unknown ERP_CONNECTOR: ${type} (expected file or http)`);
+  }
+
+  return connector;
+}
+
+/**
+ * Name of the configured connector (recorded on queued outbox entries)
+ */
+export function getErpConnectorName(): string {
+  return (process.env.ERP_CONNECTOR || 'file').toLowerCase();
+}
+
+/**
+ * Attempts allowed before an outbox entry is marked failed
+ */
+export function getErpMaxAttempts(): number {
+  const value = parseInt(process.env.ERP_MAX_ATTEMPTS || '', 10);
+  return Number.isInteger(value) && value > 0
+    ? value
+    : DEFAULT_ERP_MAX_ATTEMPTS;
+}
@@ -0,0 +1,127 @@
+/**
+ * ERP Connector
+ *
+ * Contract every ERP adapter implements. Connectors are thin transports:
+ * they never touch the database, retries are scheduled by the outbox.
+ *
+ * Adapters:
+ * - file: writes JSON documents to a local outbox directory
+ * - http: generic REST client (e.g., pointed at a local mock server)
+ */
+
+import type { ErpSyncStatus } from '@/domain/entities';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Status values an ERP can report for a submitted request
+ */
+export type ErpRemoteStatus =
+  | ErpSyncStatus.Submitted
+  | ErpSyncStatus.Accepted
+  | ErpSyncStatus.Rejected
+  | ErpSyncStatus.Cancelled;
+
+/**
+ * Purchase request line as sent to the ERP
+ */
+export interface ErpPurchaseRequestLine {
+  lineNumber: number;
+  itemId: string;
+  name: string;
+  category: string;
+  unitPrice: number;
+  quantity: number;
+  subtotal: number;
+
+  /** Effective GL code, delivery address and date (YYYY-MM-DD) */
+  glCode?: string;
+  deliveryAddress?: string;
+  requestedDeliveryDate?: string;
+}
+
+/**
+ * Purchase request document as sent to the ERP
+ */
+export interface ErpPurchaseRequestPayload {
+  requestNumber: string;
+  requestedBy: string;
+  costCenter?: string;
+  glCode?: string;
+  deliveryAddress?: string;
+  requestedDeliveryDate?: string;
+  notes?: string;
+  total: number;
+  lines: ErpPurchaseRequestLine[];
+  approvedAt?: string;
+}
+
+/**
+ * Result of a submit or cancel call
+ */
+export interface ErpSubmitResult {
+  /** Reference number assigned by the ERP */
+  reference: string;
+
+  /** Status reported by the ERP */
+  status: ErpRemoteStatus;
+}
+
+/**
+ * Result of a status poll
+ */
+export interface ErpStatusResult {
+  status: ErpRemoteStatus;
+
+  /** Optional message from the ERP (e.g., rejection reason) */
+  message?: string;
+}
+
+/**
+ * ERP connector contract
+ */
+export interface ErpConnector {
+  /** Connector name recorded on outbox entries (e.g., "file", "http") */
+  readonly name: string;
+
+  /**
+   * Submit a purchase request
+   * Must be idempotent for the same idempotency key.
+   */
+  submit(
+    payload: ErpPurchaseRequestPayload,
+    idempotencyKey: string
+  ): Promise<ErpSubmitResult>;
+
+  /** Fetch the current status of a submitted request */
+  getStatus(reference: string): Promise<ErpStatusResult>;
+
+  /** Cancel a submitted request */
+  cancel(reference: string, idempotencyKey: string): Promise<ErpSubmitResult>;
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+/**
+ * Error raised by a connector
+ * - status: HTTP status returned by the ERP, when there was one
+ * - retryable: explicit override; otherwise derived from the status
+ */
+export class ErpConnectorError extends Error {
+  public readonly status?: number;
+  public readonly retryable?: boolean;
+
+  constructor(
+    message: string,
+    options: { status?: number; retryable?: boolean } = {}
+  ) {
+    super(message);
+    this.name = 'ErpConnectorError';
+    this.status = options.status;
+    this.retryable = options.retryable;
+  }
+}
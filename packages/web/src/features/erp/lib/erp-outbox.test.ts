@@ -0,0 +1,233 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { PurchaseRequest } from '@/domain/entities';
+import {
+  ErpOutboxStatus,
+  ErpSyncStatus,
+  PurchaseRequestStatus,
+} from '@/domain/entities';
+
+import { ErpConnectorError } from './erp-connector';
+import {
+  buildErpPurchaseRequestPayload,
+  ERP_RETRY_BASE_DELAY_MS,
+  ERP_RETRY_MAX_DELAY_MS,
+  isRetryableErpError,
+  parseErpRemoteStatus,
+  planErpRetry,
+} from './erp-outbox';
+
+const request: PurchaseRequest = {
+  id: 'pr-1',
+  userId: 'user-1',
+  requestNumber: 'PR-2025-0042',
+  items: [
+    {
+      itemId: 'item-1',
+      itemName: 'Laptop Stand',
+      itemCategory: 'Accessories',
+      itemDescription: 'Aluminium stand',
+      unitPrice: 40,
+      quantity: 2,
+      subtotal: 80,
+    },
+    {
+      itemId: 'item-2',
+      itemName: 'USB-C Hub',
+      itemCategory: 'Electronics',
+      itemDescription: '',
+      unitPrice: 25,
+      quantity: 1,
+      subtotal: 25,
+    },
+  ],
+  total: 105,
+  notes: '',
+  source: 'ui',
+  status: PurchaseRequestStatus.Approved,
+  approvalSteps: [],
+  statusHistory: [
+    {
+      toStatus: PurchaseRequestStatus.PendingApproval,
+      changedAt: new Date('2025-03-01T09:00:00Z'),
+    },
+    {
+      fromStatus: PurchaseRequestStatus.PendingApproval,
+      toStatus: PurchaseRequestStatus.Approved,
+      changedAt: new Date('2025-03-02T09:00:00Z'),
+    },
+  ],
+  costCenter: 'CC-100',
+  createdAt: new Date('2025-03-01T09:00:00Z'),
+  updatedAt: new Date('2025-03-02T09:00:00Z'),
+};
+
+describe('erp-outbox', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('buildErpPurchaseRequestPayload', () => {
+    it('should number lines and include the approval time', () => {
+      const payload = buildErpPurchaseRequestPayload(request);
+
+      expect(payload).toEqual({
+        requestNumber: 'PR-2025-0042',
+        requestedBy: 'user-1',
+        costCenter: 'CC-100',
+        notes: undefined,
+        total: 105,
+        lines: [
+          {
+            lineNumber: 1,
+            itemId: 'item-1',
+            name: 'Laptop Stand',
+            category: 'Accessories',
+            unitPrice: 40,
+            quantity: 2,
+            subtotal: 80,
+          },
+          {
+            lineNumber: 2,
+            itemId: 'item-2',
+            name: 'USB-C Hub',
+            category: 'Electronics',
+            unitPrice: 25,
+            quantity: 1,
+            subtotal: 25,
+          },
+        ],
+        approvedAt: '2025-03-02T09:00:00.000Z',
+      });
+    });
+
+    it('should omit the approval time for auto-approved requests without history', () => {
+      const payload = buildErpPurchaseRequestPayload({
+        ...request,
+        statusHistory: [],
+      });
+
+      expect(payload.approvedAt).toBeUndefined();
+    });
+
+    it('should send the effective delivery details of each line', () => {
+      const payload = buildErpPurchaseRequestPayload({
+        ...request,
+        glCode: '6000',
+        deliveryLocation: {
+          locationId: 'loc-1',
+          name: 'HQ',
+          address: '1 Main St',
+        },
+        requestedDeliveryDate: new Date('2025-03-20T00:00:00Z'),
+        items: [
+          request.items[0],
+          {
+            ...request.items[1],
+            glCode: '6100',
+            deliveryLocation: {
+              locationId: 'loc-2',
+              name: 'Warehouse',
+              address: '9 Dock Rd',
+            },
+          },
+        ],
+      });
+
+      expect(payload).toMatchObject({
+        glCode: '6000',
+        deliveryAddress: '1 Main St',
+        requestedDeliveryDate: '2025-03-20',
+      });
+      expect(payload.lines[0]).toMatchObject({
+        glCode: '6000',
+        deliveryAddress: '1 Main St',
+        requestedDeliveryDate: '2025-03-20',
+      });
+      expect(payload.lines[1]).toMatchObject({
+        glCode: '6100',
+        deliveryAddress: '9 Dock Rd',
+        requestedDeliveryDate: '2025-03-20',
+      });
+    });
+  });
+
+  describe('isRetryableErpError', () => {
+    it('should honour an explicit retryable flag', () => {
+      expect(
+        isRetryableErpError(new ErpConnectorError('down', { retryable: true }))
+      ).toBe(true);
+      expect(
+        isRetryableErpError(
+          new ErpConnectorError('bad payload', {
+            status: 503,
+            retryable: false,
+          })
+        )
+      ).toBe(false);
+    });
+
+    it('should classify HTTP statuses like other transient failures', () => {
+      expect(
+        isRetryableErpError(new ErpConnectorError('x', { status: 503 }))
+      ).toBe(true);
+      expect(
+        isRetryableErpError(new ErpConnectorError('x', { status: 422 }))
+      ).toBe(false);
+    });
+  });
+
+  describe('planErpRetry', () => {
+    const now = new Date('2025-03-02T10:00:00Z');
+    const transient = new ErpConnectorError('timeout', { retryable: true });
+
+    it('should reschedule transient failures with exponential backoff', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5); // no jitter
+
+      expect(planErpRetry(1, transient, 8, now)).toEqual({
+        status: ErpOutboxStatus.Pending,
+        nextAttemptAt: new Date(now.getTime() + ERP_RETRY_BASE_DELAY_MS),
+      });
+      expect(planErpRetry(3, transient, 8, now).nextAttemptAt).toEqual(
+        new Date(now.getTime() + ERP_RETRY_BASE_DELAY_MS * 4)
+      );
+    });
+
+    it('should cap the delay', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(planErpRetry(20, transient, 30, now).nextAttemptAt).toEqual(
+        new Date(now.getTime() + ERP_RETRY_MAX_DELAY_MS)
+      );
+    });
+
+    it('should fail once the maximum number of attempts is reached', () => {
+      expect(planErpRetry(8, transient, 8, now)).toEqual({
+        status: ErpOutboxStatus.Failed,
+      });
+    });
+
+    it('should fail permanent errors immediately', () => {
+      const permanent = new ErpConnectorError('ERP responded with 400', {
+        status: 400,
+      });
+
+      expect(planErpRetry(1, permanent, 8, now)).toEqual({
+        status: ErpOutboxStatus.Failed,
+      });
+    });
+  });
+
+  describe('parseErpRemoteStatus', () => {
+    it('should accept statuses an ERP can report', () => {
+      expect(parseErpRemoteStatus('accepted')).toBe(ErpSyncStatus.Accepted);
+    });
+
+    it('should reject local-only and unknown statuses', () => {
+      expect(() => parseErpRemoteStatus('queued')).toThrow(ErpConnectorError);
+      expect(() => parseErpRemoteStatus(undefined)).toThrow(
+        'Unknown ERP status: undefined'
+      );
+    });
+  });
+});
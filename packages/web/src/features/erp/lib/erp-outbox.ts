@@ -0,0 +1,166 @@
+/**
+ * ERP Outbox Logic
+ *
+ * Pure functions for the ERP outbox: building the payload sent to the
+ * ERP and deciding what happens after a failed attempt. No database
+ * access, so the rules are easy to test.
+ */
+
+import type { PurchaseRequest } from '@/domain/entities';
+import {
+  ErpOutboxStatus,
+  ErpSyncStatus,
+  PurchaseRequestStatus,
+} from '@/domain/entities';
+import {
+  formatDeliveryDate,
+  getEffectiveLineDelivery,
+} from '@/features/checkout/lib/checkout-delivery';
+import { calculateRetryDelay, isRetryableError } from '@/lib/reliability/retry';
+
+import type {
+  ErpPurchaseRequestPayload,
+  ErpRemoteStatus,
+} from './erp-connector';
+import { ErpConnectorError } from './erp-connector';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default number of attempts before an entry is marked failed */
+export const DEFAULT_ERP_MAX_ATTEMPTS = 8;
+
+/** First retry delay (doubles per attempt) */
+export const ERP_RETRY_BASE_DELAY_MS = 30_000;
+
+/** Longest delay between two attempts */
+export const ERP_RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/** Claims older than this are considered abandoned by a crashed worker */
+export const ERP_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+const REMOTE_STATUSES: readonly ErpRemoteStatus[] = [
+  ErpSyncStatus.Submitted,
+  ErpSyncStatus.Accepted,
+  ErpSyncStatus.Rejected,
+  ErpSyncStatus.Cancelled,
+];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What to do with an entry after a failed attempt
+ */
+export interface ErpRetryDecision {
+  status: ErpOutboxStatus.Pending | ErpOutboxStatus.Failed;
+
+  /** Next attempt time (only when the entry stays pending) */
+  nextAttemptAt?: Date;
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Build the ERP payload for a purchase request
+ * Lines are numbered in request order, starting at 1.
+ */
+export function buildErpPurchaseRequestPayload(
+  request: PurchaseRequest
+): ErpPurchaseRequestPayload {
+  const approvedAt = [...request.statusHistory]
+    .reverse()
+    .find(
+      (change) => change.toStatus === PurchaseRequestStatus.Approved
+    )?.changedAt;
+
+  return {
+    requestNumber: request.requestNumber,
+    requestedBy: request.userId,
+    costCenter: request.costCenter,
+    glCode: request.glCode,
+    deliveryAddress: request.deliveryLocation?.address,
+    requestedDeliveryDate: request.requestedDeliveryDate
+      ? formatDeliveryDate(request.requestedDeliveryDate)
+      : undefined,
+    notes: request.notes || undefined,
+    total: request.total,
+    lines: request.items.map((item, index) => {
+      const delivery = getEffectiveLineDelivery(request, item);
+      return {
+        lineNumber: index + 1,
+        itemId: item.itemId,
+        name: item.itemName,
+        category: item.itemCategory,
+        unitPrice: item.unitPrice,
+        quantity: item.quantity,
+        subtotal: item.subtotal,
+        glCode: delivery.glCode,
+        deliveryAddress: delivery.deliveryLocation?.address,
+        requestedDeliveryDate: delivery.requestedDeliveryDate
+          ? formatDeliveryDate(delivery.requestedDeliveryDate)
+          : undefined,
+      };
+    }),
+    approvedAt: approvedAt ? new Date(approvedAt).toISOString() : undefined,
+  };
+}
+
+/**
+ * Whether a failed attempt should be retried
+ * Connector errors may force the decision; anything else falls back to
+ * the shared transient-error classification.
+ */
+export function isRetryableErpError(error: unknown): boolean {
+  if (error instanceof ErpConnectorError && error.retryable !== undefined) {
+    return error.retryable;
+  }
+  return isRetryableError(error);
+}
+
+/**
+ * Decide the entry status after a failed attempt
+ *
+ * @param attempts - Attempts made so far, including the failed one
+ * @param error - Error thrown by the connector
+ * @param maxAttempts - Attempts allowed before giving up
+ * @param now - Current time
+ */
+export function planErpRetry(
+  attempts: number,
+  error: unknown,
+  maxAttempts: number = DEFAULT_ERP_MAX_ATTEMPTS,
+  now: Date = new Date()
+): ErpRetryDecision {
+  if (!isRetryableErpError(error) || attempts >= maxAttempts) {
+    return { status: ErpOutboxStatus.Failed };
+  }
+
+  const delay = calculateRetryDelay(attempts, {
+    baseDelay: ERP_RETRY_BASE_DELAY_MS,
+    maxDelay: ERP_RETRY_MAX_DELAY_MS,
+  });
+
+  return {
+    status: ErpOutboxStatus.Pending,
+    nextAttemptAt: new Date(now.getTime() + delay),
+  };
+}
+
+/**
+ * Validate a status value reported by an ERP
+ *
+ * @throws {ErpConnectorError} for unknown values (not retryable)
+ */
+export function parseErpRemoteStatus(value: unknown): ErpRemoteStatus {
+  if (REMOTE_STATUSES.includes(value as ErpRemoteStatus)) {
+    return value as ErpRemoteStatus;
+  }
+  throw new ErpConnectorError(`Unknown ERP status: ${String(value)}`, {
+    retryable: false,
+  });
+}
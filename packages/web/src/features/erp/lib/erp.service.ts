@@ -0,0 +1,675 @@
+/**
+ * ERP Service
+ *
+ * Business logic for sending purchase requests to the ERP:
+ * - Queue a submission when a request is approved (outbox entry)
+ * - Drain the outbox through the configured connector, retrying
+ *   transient failures with exponential backoff
+ * - Record the ERP reference and status on the purchase request
+ * - Poll the ERP status and request cancellations
+ *
+ * Approvals never wait on the ERP: they only write an outbox entry.
+ * The outbox is drained every minute by the scheduler calling
+ * POST /api/cron/erp-outbox (compose `scheduler` service or Cloud
+ * Scheduler), or by hand via POST /api/erp/outbox/process.
+ */
+
+import { Types } from 'mongoose';
+
+import type { ErpOutboxEntryDocument } from '@/domain/documents';
+import type { ErpOutboxEntry, PurchaseRequest } from '@/domain/entities';
+import {
+  ErpOperation,
+  ErpOutboxStatus,
+  ErpSyncStatus,
+} from '@/domain/entities';
+import {
+  mapErpOutboxEntryToEntity,
+  mapPurchaseRequestToEntity,
+} from '@/lib/db/mappers';
+import {
+  ErpOutboxModel,
+  MAX_ERP_ERROR_LENGTH,
+  PurchaseRequestModel,
+} from '@/lib/db/models';
+import connectDB from '@/lib/db/mongoose';
+import { logger } from '@/lib/logger/winston.config';
+
+import {
+  getErpConnector,
+  getErpConnectorName,
+  getErpMaxAttempts,
+} from './erp-config';
+import { ErpConnectorError } from './erp-connector';
+import {
+  buildErpPurchaseRequestPayload,
+  ERP_LOCK_TIMEOUT_MS,
+  planErpRetry,
+} from './erp-outbox';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Filters for listing outbox entries
+ */
+export interface ErpOutboxFilters {
+  status?: ErpOutboxStatus;
+  purchaseRequestId?: string;
+}
+
+/**
+ * Summary of one outbox run
+ */
+export interface ErpOutboxRunSummary {
+  /** Entries attempted */
+  processed: number;
+
+  /** Entries the ERP accepted */
+  completed: number;
+
+  /** Entries rescheduled after a transient failure */
+  retried: number;
+
+  /** Entries that gave up */
+  failed: number;
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+export class PurchaseRequestNotFoundError extends Error {
+  constructor(requestId: string) {
+    super(`Purchase request not found: ${requestId}`);
+    this.name = 'PurchaseRequestNotFoundError';
+  }
+}
+
+export class ErpOutboxEntryNotFoundError extends Error {
+  constructor(entryId: string) {
+    super(`ERP outbox entry not found: ${entryId}`);
+    this.name = 'ErpOutboxEntryNotFoundError';
+  }
+}
+
+export class ErpNotSubmittedError extends Error {
+  constructor(requestNumber: string) {
+    super(
+      `Purchase request ${requestNumber} has not been submitted to the ERP`
+    );
+    this.name = 'ErpNotSubmittedError';
+  }
+}
+
+export class InvalidErpOutboxStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidErpOutboxStateError';
+  }
+}
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+/**
+ * Queue a purchase request for ERP submission
+ * Called from the approval and checkout flows once a request is approved;
+ * failures are logged and never fail the approval itself. Requests that
+ * already have an active or completed submission are skipped.
+ */
+export async function enqueueErpSubmission(requestId: string): Promise<void> {
+  try {
+    await connectDB();
+
+    const request = await PurchaseRequestModel.findById(requestId)
+      .lean()
+      .exec();
+    if (!request) {
+      throw new PurchaseRequestNotFoundError(requestId);
+    }
+
+    const existing = await ErpOutboxModel.findOne({
+      purchaseRequestId: request._id,
+      operation: ErpOperation.Submit,
+      status: { $ne: ErpOutboxStatus.Cancelled },
+    })
+      .lean()
+      .exec();
+    if (existing) {
+      return;
+    }
+
+    const entry = await ErpOutboxModel.create({
+      purchaseRequestId: request._id,
+      requestNumber: request.requestNumber,
+      operation: ErpOperation.Submit,
+      connector: getErpConnectorName(),
+      status: ErpOutboxStatus.Pending,
+      nextAttemptAt: new Date(),
+    });
+
+    await setErpStatus(request._id.toString(), ErpSyncStatus.Queued);
+
+    logger.info('ERP submission queued', {
+      requestId,
+      requestNumber: request.requestNumber,
+      entryId: entry._id.toString(),
+    });
+  } catch (error) {
+    logger.error('Queueing ERP submission failed', { requestId, error });
+  }
+}
+
+/**
+ * Send due outbox entries through the ERP connector
+ * Entries are claimed one at a time, so several workers can run safely;
+ * claims abandoned by a crashed worker are picked up again after
+ * ERP_LOCK_TIMEOUT_MS.
+ *
+ * @param limit - Maximum number of entries to process in this run
+ */
+export async function processErpOutbox(
+  limit: number = 20
+): Promise<ErpOutboxRunSummary> {
+  await connectDB();
+
+  const summary: ErpOutboxRunSummary = {
+    processed: 0,
+    completed: 0,
+    retried: 0,
+    failed: 0,
+  };
+
+  try {
+    const connector = getErpConnector();
+    const maxAttempts = getErpMaxAttempts();
+
+    while (summary.processed < limit) {
+      const entry = await claimNextEntry(connector.name);
+      if (!entry) {
+        break;
+      }
+      summary.processed++;
+
+      const entryId = entry._id.toString();
+      try {
+        const reference = await executeEntry(entry);
+
+        await ErpOutboxModel.updateOne(
+          { _id: entry._id },
+          {
+            $set: {
+              status: ErpOutboxStatus.Completed,
+              completedAt: new Date(),
+              lockedAt: null,
+              ...(reference && { erpReference: reference }),
+            },
+            $unset: { lastError: '' },
+          }
+        ).exec();
+        summary.completed++;
+      } catch (error) {
+        const decision = planErpRetry(entry.attempts, error, maxAttempts);
+        const message = error instanceof Error ? error.message : String(error);
+
+        await ErpOutboxModel.updateOne(
+          { _id: entry._id },
+          {
+            $set: {
+              status: decision.status,
+              lockedAt: null,
+              lastError: message.slice(0, MAX_ERP_ERROR_LENGTH),
+              ...(decision.nextAttemptAt && {
+                nextAttemptAt: decision.nextAttemptAt,
+              }),
+            },
+          }
+        ).exec();
+
+        if (decision.status === ErpOutboxStatus.Failed) {
+          summary.failed++;
+          if (entry.operation === ErpOperation.Submit) {
+            await setErpStatus(
+              entry.purchaseRequestId.toString(),
+              ErpSyncStatus.Failed
+            );
+          }
+          logger.error('ERP outbox entry failed', {
+            entryId,
+            requestNumber: entry.requestNumber,
+            operation: entry.operation,
+            attempts: entry.attempts,
+            error: message,
+          });
+        } else {
+          summary.retried++;
+          logger.warn('ERP outbox entry rescheduled', {
+            entryId,
+            requestNumber: entry.requestNumber,
+            operation: entry.operation,
+            attempts: entry.attempts,
+            nextAttemptAt: decision.nextAttemptAt,
+            error: message,
+          });
+        }
+      }
+    }
+
+    if (summary.processed > 0) {
+      logger.info('ERP outbox processed', { ...summary });
+    }
+
+    return summary;
+  } catch (error) {
+    logger.error('Error processing ERP outbox', { summary, error });
+    throw new Error('Failed to process ERP outbox');
+  }
+}
+
+/**
+ * Poll the ERP for the status of a submitted purchase request
+ *
+ * @throws {PurchaseRequestNotFoundError} if the request does not exist
+ * @throws {ErpNotSubmittedError} if the request has no ERP reference yet
+ * @throws {ErpConnectorError} if the ERP cannot be reached
+ */
+export async function refreshErpStatus(
+  requestId: string
+): Promise<PurchaseRequest> {
+  await connectDB();
+
+  try {
+    const request = await findPurchaseRequestOrThrow(requestId);
+    if (!request.erpReference) {
+      throw new ErpNotSubmittedError(request.requestNumber);
+    }
+
+    const result = await getErpConnector().getStatus(request.erpReference);
+
+    if (result.status === request.erpStatus) {
+      return request;
+    }
+
+    logger.info('ERP status changed', {
+      requestId,
+      reference: request.erpReference,
+      from: request.erpStatus,
+      to: result.status,
+      message: result.message,
+    });
+
+    return await setErpStatus(requestId, result.status);
+  } catch (error) {
+    if (isKnownErpError(error)) {
+      throw error;
+    }
+    logger.error('Error refreshing ERP status', { requestId, error });
+    throw new Error('Failed to refresh ERP status');
+  }
+}
+
+/**
+ * Cancel a purchase request in the ERP
+ * A submission still waiting in the outbox is dropped; a submitted
+ * request gets a cancel operation queued.
+ *
+ * @throws {PurchaseRequestNotFoundError} if the request does not exist
+ * @throws {ErpNotSubmittedError} if the request was never queued
+ * @throws {InvalidErpOutboxStateError} if the request cannot be cancelled now
+ */
+export async function requestErpCancellation(
+  requestId: string
+): Promise<PurchaseRequest> {
+  await connectDB();
+
+  try {
+    const request = await findPurchaseRequestOrThrow(requestId);
+
+    if (request.erpStatus === ErpSyncStatus.Cancelled) {
+      return request;
+    }
+    if (request.erpStatus === ErpSyncStatus.Rejected) {
+      throw new InvalidErpOutboxStateError(
+        `Purchase request ${request.requestNumber} was rejected by the ERP`
+      );
+    }
+
+    const submission = await ErpOutboxModel.findOne({
+      purchaseRequestId: new Types.ObjectId(requestId),
+      operation: ErpOperation.Submit,
+      status: { $ne: ErpOutboxStatus.Cancelled },
+    })
+      .lean()
+      .exec();
+
+    if (!request.erpReference) {
+      if (!submission) {
+        throw new ErpNotSubmittedError(request.requestNumber);
+      }
+
+      // Drop the submission before it reaches the ERP
+      const dropped = await ErpOutboxModel.findOneAndUpdate(
+        {
+          _id: submission._id,
+          status: { $in: [ErpOutboxStatus.Pending, ErpOutboxStatus.Failed] },
+        },
+        { $set: { status: ErpOutboxStatus.Cancelled, lockedAt: null } }
+      ).exec();
+
+      if (!dropped) {
+        throw new InvalidErpOutboxStateError(
+          `ERP submission for ${request.requestNumber} is in progress; try again shortly`
+        );
+      }
+
+      logger.info('Queued ERP submission cancelled', {
+        requestId,
+        entryId: submission._id.toString(),
+      });
+
+      return await setErpStatus(requestId, ErpSyncStatus.Cancelled);
+    }
+
+    const pendingCancel = await ErpOutboxModel.findOne({
+      purchaseRequestId: new Types.ObjectId(requestId),
+      operation: ErpOperation.Cancel,
+      status: { $in: [ErpOutboxStatus.Pending, ErpOutboxStatus.Processing] },
+    })
+      .lean()
+      .exec();
+
+    if (!pendingCancel) {
+      const entry = await ErpOutboxModel.create({
+        purchaseRequestId: new Types.ObjectId(requestId),
+        requestNumber: request.requestNumber,
+        operation: ErpOperation.Cancel,
+        connector: getErpConnectorName(),
+        status: ErpOutboxStatus.Pending,
+        nextAttemptAt: new Date(),
+      });
+
+      logger.info('ERP cancellation queued', {
+        requestId,
+        reference: request.erpReference,
+        entryId: entry._id.toString(),
+      });
+    }
+
+    return request;
+  } catch (error) {
+    if (isKnownErpError(error)) {
+      throw error;
+    }
+    logger.error('Error requesting ERP cancellation', { requestId, error });
+    throw new Error('Failed to request ERP cancellation');
+  }
+}
+
+/**
+ * List ERP outbox entries
+ *
+ * @param filters - Optional status / purchase request filters
+ * @returns Entries, most recent first (at most 200)
+ */
+export async function listErpOutboxEntries(
+  filters: ErpOutboxFilters = {}
+): Promise<ErpOutboxEntry[]> {
+  await connectDB();
+
+  try {
+    const query: Record<string, unknown> = {};
+    if (filters.status) {
+      if (!Object.values(ErpOutboxStatus).includes(filters.status)) {
+        throw new ValidationError(`Invalid outbox status: ${filters.status}`);
+      }
+      query.status = filters.status;
+    }
+    if (filters.purchaseRequestId) {
+      if (!Types.ObjectId.isValid(filters.purchaseRequestId)) {
+        throw new ValidationError('Invalid purchase request ID');
+      }
+      query.purchaseRequestId = new Types.ObjectId(filters.purchaseRequestId);
+    }
+
+    const entries = await ErpOutboxModel.find(query)
+      .sort({ createdAt: -1 })
+      .limit(200)
+      .lean()
+      .exec();
+
+    return entries.map(mapErpOutboxEntryToEntity);
+  } catch (error) {
+    if (isKnownErpError(error)) {
+      throw error;
+    }
+    logger.error('Error listing ERP outbox entries', { filters, error });
+    throw new Error('Failed to list ERP outbox entries');
+  }
+}
+
+/**
+ * Reset a failed outbox entry so the next run attempts it again
+ *
+ * @throws {ErpOutboxEntryNotFoundError} if the entry does not exist
+ * @throws {InvalidErpOutboxStateError} if the entry has not failed
+ */
+export async function retryErpOutboxEntry(
+  entryId: string
+): Promise<ErpOutboxEntry> {
+  await connectDB();
+
+  try {
+    if (!Types.ObjectId.isValid(entryId)) {
+      throw new ValidationError('Invalid outbox entry ID');
+    }
+
+    const updated = await ErpOutboxModel.findOneAndUpdate(
+      { _id: entryId, status: ErpOutboxStatus.Failed },
+      {
+        $set: {
+          status: ErpOutboxStatus.Pending,
+          attempts: 0,
+          nextAttemptAt: new Date(),
+          lockedAt: null,
+        },
+      },
+      { new: true }
+    )
+      .lean()
+      .exec();
+
+    if (!updated) {
+      const existing = await ErpOutboxModel.findById(entryId).lean().exec();
+      if (!existing) {
+        throw new ErpOutboxEntryNotFoundError(entryId);
+      }
+      throw new InvalidErpOutboxStateError(
+        `Only failed entries can be retried (entry is ${existing.status})`
+      );
+    }
+
+    if (updated.operation === ErpOperation.Submit) {
+      await setErpStatus(
+        updated.purchaseRequestId.toString(),
+        ErpSyncStatus.Queued
+      );
+    }
+
+    logger.info('ERP outbox entry reset for retry', { entryId });
+
+    return mapErpOutboxEntryToEntity(updated);
+  } catch (error) {
+    if (isKnownErpError(error)) {
+      throw error;
+    }
+    logger.error('Error retrying ERP outbox entry', { entryId, error });
+    throw new Error('Failed to retry ERP outbox entry');
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Claim the next due entry (pending and due, or abandoned by a worker)
+ * The attempt counter is incremented as part of the claim.
+ */
+async function claimNextEntry(
+  connectorName: string
+): Promise<ErpOutboxEntryDocument | null> {
+  const now = new Date();
+
+  return ErpOutboxModel.findOneAndUpdate(
+    {
+      $or: [
+        { status: ErpOutboxStatus.Pending, nextAttemptAt: { $lte: now } },
+        {
+          status: ErpOutboxStatus.Processing,
+          lockedAt: { $lte: new Date(now.getTime() - ERP_LOCK_TIMEOUT_MS) },
+        },
+      ],
+    },
+    {
+      $set: {
+        status: ErpOutboxStatus.Processing,
+        lockedAt: now,
+        connector: connectorName,
+      },
+      $inc: { attempts: 1 },
+    },
+    { new: true, sort: { nextAttemptAt: 1 } }
+  )
+    .lean()
+    .exec();
+}
+
+/**
+ * Perform an entry's operation and record the result on the request
+ *
+ * @returns ERP reference for submissions
+ */
+async function executeEntry(
+  entry: ErpOutboxEntryDocument
+): Promise<string | undefined> {
+  const requestId = entry.purchaseRequestId.toString();
+  const idempotencyKey = entry._id.toString();
+  const connector = getErpConnector();
+
+  const doc = await PurchaseRequestModel.findById(requestId).lean().exec();
+  if (!doc) {
+    throw new ErpConnectorError(`Purchase request not found: ${requestId}`, {
+      retryable: false,
+    });
+  }
+  const request = mapPurchaseRequestToEntity(doc);
+
+  if (entry.operation === ErpOperation.Submit) {
+    const result = await connector.submit(
+      buildErpPurchaseRequestPayload(request),
+      idempotencyKey
+    );
+
+    await PurchaseRequestModel.updateOne(
+      { _id: doc._id },
+      {
+        $set: {
+          erpReference: result.reference,
+          erpStatus: result.status,
+          erpStatusUpdatedAt: new Date(),
+        },
+      }
+    ).exec();
+
+    logger.info('Purchase request submitted to ERP', {
+      requestId,
+      requestNumber: request.requestNumber,
+      connector: connector.name,
+      reference: result.reference,
+    });
+
+    return result.reference;
+  }
+
+  if (!request.erpReference) {
+    throw new ErpConnectorError(
+      `Purchase request ${request.requestNumber} has no ERP reference`,
+      { retryable: false }
+    );
+  }
+
+  const result = await connector.cancel(request.erpReference, idempotencyKey);
+  await setErpStatus(requestId, result.status);
+
+  logger.info('Purchase request cancelled in ERP', {
+    requestId,
+    reference: request.erpReference,
+  });
+
+  return undefined;
+}
+
+/**
+ * Update the ERP status of a purchase request
+ */
+async function setErpStatus(
+  requestId: string,
+  status: ErpSyncStatus
+): Promise<PurchaseRequest> {
+  const updated = await PurchaseRequestModel.findByIdAndUpdate(
+    requestId,
+    { $set: { erpStatus: status, erpStatusUpdatedAt: new Date() } },
+    { new: true }
+  )
+    .lean()
+    .exec();
+
+  if (!updated) {
+    throw new PurchaseRequestNotFoundError(requestId);
+  }
+
+  return mapPurchaseRequestToEntity(updated);
+}
+
+/**
+ * Fetch a purchase request or throw a not-found error
+ */
+async function findPurchaseRequestOrThrow(
+  requestId: string
+): Promise<PurchaseRequest> {
+  if (!Types.ObjectId.isValid(requestId)) {
+    throw new ValidationError('Invalid purchase request ID');
+  }
+
+  const request = await PurchaseRequestModel.findById(requestId).lean().exec();
+
+  if (!request) {
+    throw new PurchaseRequestNotFoundError(requestId);
+  }
+
+  return mapPurchaseRequestToEntity(request);
+}
+
+/**
+ * Errors that should propagate to the caller unchanged
+ */
+function isKnownErpError(error: unknown): boolean {
+  return (
+    error instanceof ValidationError ||
+    error instanceof PurchaseRequestNotFoundError ||
+    error instanceof ErpOutboxEntryNotFoundError ||
+    error instanceof ErpNotSubmittedError ||
+    error instanceof InvalidErpOutboxStateError ||
+    error instanceof ErpConnectorError
+  );
+}
@@ -0,0 +1,248 @@
+/**
+ * Purchase Order Detail Page Content
+ *
+ * Displays a purchase order with its lines, plus receiving and
+ * three-way match details
+ */
+
+'use client';
+
+import { ArrowLeft, Printer } from 'lucide-react';
+import Link from 'next/link';
+import { use, useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { SkeletonPurchaseRequest } from '@/components/ui/skeleton-compositions';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { PurchaseOrder } from '@/domain/entities';
+import { PurchaseOrderReceivingPanel } from '@/features/receiving/components/PurchaseOrderReceivingPanel';
+
+import { PurchaseOrderStatusBadge } from './PurchaseOrderStatusBadge';
+
+interface PurchaseOrderDetailPageContentProps {
+  params: Promise<{ id: string }>;
+}
+
+export function PurchaseOrderDetailPageContent({
+  params,
+}: PurchaseOrderDetailPageContentProps) {
+  const { id } = use(params);
+  const [purchaseOrder, setPurchaseOrder] = useState<PurchaseOrder | null>(
+    null
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+
+  const loadPurchaseOrder = useCallback(async () => {
+    setNotFound(false);
+
+    try {
+      const response = await fetch(`/api/purchase-orders/${id}`);
+
+      if (response.status === 404) {
+        setNotFound(true);
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error('Failed to load purchase order');
+      }
+
+      const data = await response.json();
+      setPurchaseOrder(data.data);
+    } catch (error) {
+      console.error('Error loading purchase order:', error);
+      toast.error('Failed to load purchase order', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadPurchaseOrder();
+  }, [loadPurchaseOrder]);
+
+  const formatDate = (date?: Date) => {
+    if (!date) {
+      return '—';
+    }
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+
+  if (isLoading) {
+    return <SkeletonPurchaseRequest />;
+  }
+
+  if (notFound || !purchaseOrder) {
+    return (
+      <Card className='py-8'>
+        <CardHeader>
+          <CardTitle>Purchase Order Not Found</CardTitle>
+          <CardDescription>
+            The requested purchase order could not be found.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild variant='outline'>
+            <Link href='/purchase-orders'>
+              <ArrowLeft className='mr-2 h-4 w-4' />
+              Back to Purchase Orders
+            </Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div>
+      {/* Header with Back Button */}
+      <div className='mb-6 flex items-center justify-between'>
+        <Button asChild variant='ghost' size='sm'>
+          <Link href='/purchase-orders'>
+            <ArrowLeft className='mr-2 h-4 w-4' />
+            Back to Purchase Orders
+          </Link>
+        </Button>
+        <Button asChild variant='outline' size='sm'>
+          <a
+            href={`/api/purchase-orders/${purchaseOrder.id}/document`}
+            target='_blank'
+            rel='noopener noreferrer'
+          >
+            <Printer className='mr-2 h-4 w-4' />
+            Print
+          </a>
+        </Button>
+      </div>
+
+      <Card className='py-8'>
+        <CardHeader>
+          <div className='flex items-start justify-between'>
+            <div>
+              <CardTitle className='text-2xl font-bold'>
+                Purchase Order{' '}
+                <span className='font-mono'>{purchaseOrder.poNumber}</span>
+              </CardTitle>
+              <CardDescription className='mt-1'>
+                {purchaseOrder.supplierName}
+              </CardDescription>
+            </div>
+            <PurchaseOrderStatusBadge status={purchaseOrder.status} />
+          </div>
+        </CardHeader>
+        <CardContent className='space-y-6'>
+          {/* Summary Information */}
+          <div className='grid gap-4 md:grid-cols-3'>
+            <div>
+              <h3 className='text-sm font-medium text-muted-foreground'>
+                Purchase Request
+              </h3>
+              <Link
+                href={`/purchase/${purchaseOrder.purchaseRequestId}`}
+                className='mt-1 block font-mono text-sm hover:underline'
+              >
+                {purchaseOrder.requestNumber}
+              </Link>
+            </div>
+            <div>
+              <h3 className='text-sm font-medium text-muted-foreground'>
+                Issued On
+              </h3>
+              <p className='mt-1 text-sm'>
+                {formatDate(purchaseOrder.createdAt)}
+              </p>
+            </div>
+            <div>
+              <h3 className='text-sm font-medium text-muted-foreground'>
+                Expected Delivery
+              </h3>
+              <p className='mt-1 text-sm'>
+                {formatDate(purchaseOrder.expectedDeliveryDate)}
+              </p>
+            </div>
+          </div>
+
+          {/* Items Table */}
+          <Separator />
+          <div>
+            <h3 className='mb-4 text-lg font-semibold'>Items</h3>
+            <div className='rounded-md border'>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Supplier SKU</TableHead>
+                    <TableHead className='text-right'>Unit Price</TableHead>
+                    <TableHead className='text-right'>Quantity</TableHead>
+                    <TableHead className='text-right'>Subtotal</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {purchaseOrder.items.map((item) => (
+                    <TableRow key={item.itemId}>
+                      <TableCell className='font-medium'>
+                        {item.itemName}
+                      </TableCell>
+                      <TableCell className='font-mono text-sm'>
+                        {item.supplierSku || '—'}
+                      </TableCell>
+                      <TableCell className='text-right'>
+                        ${item.unitPrice.toFixed(2)}
+                      </TableCell>
+                      <TableCell className='text-right'>
+                        {item.quantity}
+                      </TableCell>
+                      <TableCell className='text-right font-semibold'>
+                        ${item.subtotal.toFixed(2)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {/* Total Row */}
+                  <TableRow>
+                    <TableCell colSpan={4} className='text-right font-bold'>
+                      Total
+                    </TableCell>
+                    <TableCell className='text-right text-lg font-bold'>
+                      ${purchaseOrder.total.toFixed(2)}
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          {/* Receiving & three-way match */}
+          <Separator />
+          <PurchaseOrderReceivingPanel
+            purchaseOrder={purchaseOrder}
+            onReceived={loadPurchaseOrder}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+/**
+ * Purchase Order Status Badge
+ *
+ * Shared status label and badge for purchase order views
+ */
+
+import { Badge } from '@/components/ui/badge';
+import { PurchaseOrderStatus } from '@/domain/entities';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> =
+  {
+    [PurchaseOrderStatus.Issued]: 'Issued',
+    [PurchaseOrderStatus.Acknowledged]: 'Acknowledged',
+    [PurchaseOrderStatus.PartiallyReceived]: 'Partially Received',
+    [PurchaseOrderStatus.Closed]: 'Closed',
+  };
+
+export function PurchaseOrderStatusBadge({
+  status,
+}: {
+  status: PurchaseOrderStatus;
+}) {
+  return (
+    <Badge
+      variant={status === PurchaseOrderStatus.Closed ? 'outline' : 'secondary'}
+    >
+      {PURCHASE_ORDER_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
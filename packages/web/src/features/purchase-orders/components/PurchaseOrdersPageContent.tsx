@@ -0,0 +1,277 @@
+/**
+ * Purchase Orders Page Content
+ *
+ * Lists purchase orders issued from approved requests, with the printable
+ * document and status updates (acknowledged, partially received, closed)
+ */
+
+'use client';
+
+import { ChevronDown, Loader2, Printer, Truck } from 'lucide-react';
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { PurchaseOrder, PurchaseOrderStatus } from '@/domain/entities';
+import { getNextPurchaseOrderStatuses } from '@/features/purchase-orders/lib/purchase-order-planning';
+
+import {
+  PURCHASE_ORDER_STATUS_LABELS,
+  PurchaseOrderStatusBadge,
+} from './PurchaseOrderStatusBadge';
+
+export function PurchaseOrdersPageContent() {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const loadOrders = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/purchase-orders');
+
+      if (!response.ok) {
+        throw new Error('Failed to load purchase orders');
+      }
+
+      const data = await response.json();
+      setOrders(data.data || []);
+    } catch (error) {
+      console.error('Error loading purchase orders:', error);
+      toast.error('Failed to load purchase orders', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  const handleStatusChange = async (
+    order: PurchaseOrder,
+    status: PurchaseOrderStatus
+  ) => {
+    setUpdatingId(order.id);
+
+    try {
+      const response = await fetch(`/api/purchase-orders/${order.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to update purchase order');
+      }
+
+      setOrders((current) =>
+        current.map((existing) =>
+          existing.id === order.id ? data.data : existing
+        )
+      );
+      toast.success(
+        `${order.poNumber} marked ${PURCHASE_ORDER_STATUS_LABELS[status]}`
+      );
+    } catch (error) {
+      console.error('Error updating purchase order:', error);
+      toast.error('Failed to update purchase order', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const formatDate = (date?: Date) => {
+    if (!date) {
+      return '—';
+    }
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <div className='space-y-6'>
+      {/* Header */}
+      <div>
+        <h2 className='text-3xl font-bold tracking-tight text-foreground'>
+          Purchase Orders
+        </h2>
+        <p className='mt-2 text-muted-foreground'>
+          Orders issued to suppliers from approved purchase requests
+        </p>
+      </div>
+
+      <Card className='py-2'>
+        <CardContent>
+          {isLoading ? (
+            <div className='flex items-center justify-center py-12'>
+              <Loader2 className='h-8 w-8 animate-spin text-muted-foreground' />
+            </div>
+          ) : orders.length === 0 ? (
+            <div className='flex flex-col items-center justify-center py-12'>
+              <Truck className='h-12 w-12 text-muted-foreground' />
+              <p className='mt-4 text-center text-muted-foreground'>
+                No purchase orders yet. Orders are issued when a purchase
+                request is approved.
+              </p>
+            </div>
+          ) : (
+            <div className='overflow-x-auto -mx-3 sm:mx-0'>
+              <div className='inline-block min-w-full align-middle px-3 sm:px-0'>
+                <div className='rounded-md border'>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className='whitespace-nowrap'>
+                          Order
+                        </TableHead>
+                        <TableHead className='whitespace-nowrap'>
+                          Supplier
+                        </TableHead>
+                        <TableHead className='whitespace-nowrap'>
+                          Request
+                        </TableHead>
+                        <TableHead className='whitespace-nowrap'>
+                          Issued
+                        </TableHead>
+                        <TableHead className='whitespace-nowrap'>
+                          Expected
+                        </TableHead>
+                        <TableHead className='whitespace-nowrap'>
+                          Total
+                        </TableHead>
+                        <TableHead className='whitespace-nowrap'>
+                          Status
+                        </TableHead>
+                        <TableHead className='text-right whitespace-nowrap'>
+                          Actions
+                        </TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {orders.map((order) => {
+                        const nextStatuses = getNextPurchaseOrderStatuses(
+                          order.status
+                        );
+
+                        return (
+                          <TableRow key={order.id}>
+                            <TableCell className='font-mono text-sm'>
+                              <Link
+                                href={`/purchase-orders/${order.id}`}
+                                className='hover:underline'
+                              >
+                                {order.poNumber}
+                              </Link>
+                            </TableCell>
+                            <TableCell className='font-medium'>
+                              {order.supplierName}
+                            </TableCell>
+                            <TableCell className='font-mono text-sm'>
+                              <Link
+                                href={`/purchase/${order.purchaseRequestId}`}
+                                className='hover:underline'
+                              >
+                                {order.requestNumber}
+                              </Link>
+                            </TableCell>
+                            <TableCell className='text-sm whitespace-nowrap'>
+                              {formatDate(order.createdAt)}
+                            </TableCell>
+                            <TableCell className='text-sm whitespace-nowrap'>
+                              {formatDate(order.expectedDeliveryDate)}
+                            </TableCell>
+                            <TableCell className='font-semibold'>
+                              ${order.total.toFixed(2)}
+                            </TableCell>
+                            <TableCell>
+                              <PurchaseOrderStatusBadge status={order.status} />
+                            </TableCell>
+                            <TableCell className='text-right'>
+                              <div className='flex items-center justify-end gap-2'>
+                                <Button asChild variant='ghost' size='sm'>
+                                  <a
+                                    href={`/api/purchase-orders/${order.id}/document`}
+                                    target='_blank'
+                                    rel='noopener noreferrer'
+                                  >
+                                    <Printer className='h-4 w-4' />
+                                    <span className='ml-1'>Print</span>
+                                  </a>
+                                </Button>
+                                {nextStatuses.length > 0 && (
+                                  <DropdownMenu>
+                                    <DropdownMenuTrigger asChild>
+                                      <Button
+                                        variant='outline'
+                                        size='sm'
+                                        disabled={updatingId === order.id}
+                                      >
+                                        {updatingId === order.id ? (
+                                          <Loader2 className='h-4 w-4 animate-spin' />
+                                        ) : (
+                                          <>
+                                            Update
+                                            <ChevronDown className='ml-1 h-4 w-4' />
+                                          </>
+                                        )}
+                                      </Button>
+                                    </DropdownMenuTrigger>
+                                    <DropdownMenuContent align='end'>
+                                      {nextStatuses.map((status) => (
+                                        <DropdownMenuItem
+                                          key={status}
+                                          onClick={() =>
+                                            handleStatusChange(order, status)
+                                          }
+                                        >
+                                          Mark{' '}
+                                          {PURCHASE_ORDER_STATUS_LABELS[status]}
+                                        </DropdownMenuItem>
+                                      ))}
+                                    </DropdownMenuContent>
+                                  </DropdownMenu>
+                                )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+/**
+ * Purchase Orders Feature
+ * Per-supplier purchase orders generated from approved purchase requests
+ */
+
+export * from './lib/purchase-order-planning';
+export * from './lib/purchase-order-document';
+export * from './lib/purchase-order.service';
+export { PurchaseOrdersPageContent } from './components/PurchaseOrdersPageContent';
+export { PurchaseOrderDetailPageContent } from './components/PurchaseOrderDetailPageContent';
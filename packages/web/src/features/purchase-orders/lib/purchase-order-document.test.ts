@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PurchaseOrder } from '@/domain/entities';
+import { PurchaseOrderStatus, SupplierPaymentTerms } from '@/domain/entities';
+
+import { escapeHtml, renderPurchaseOrderHtml } from './purchase-order-document';
+
+const order: PurchaseOrder = {
+  id: '507f1f77bcf86cd799439011',
+  poNumber: 'PO-2025-0001',
+  purchaseRequestId: '507f1f77bcf86cd799439012',
+  requestNumber: 'PR-2025-0007',
+  supplierId: '507f1f77bcf86cd799439013',
+  supplierName: 'Smith & Sons <Supplies>',
+  supplierEmail: 'orders@smith.example',
+  paymentTerms: SupplierPaymentTerms.Net45,
+  items: [
+    {
+      itemId: '507f1f77bcf86cd799439014',
+      itemName: 'USB-C Cable',
+      itemCategory: 'Electronics',
+      itemDescription: '2m braided cable',
+      supplierSku: 'SS-USBC',
+      unitPrice: 9.5,
+      quantity: 4,
+      subtotal: 38,
+    },
+  ],
+  total: 38,
+  status: PurchaseOrderStatus.Issued,
+  statusHistory: [],
+  costCenter: 'CC-100',
+  createdAt: new Date('2025-03-01T10:00:00Z'),
+  updatedAt: new Date('2025-03-01T10:00:00Z'),
+};
+
+describe('purchase-order-document', () => {
+  describe('renderPurchaseOrderHtml', () => {
+    it('should include order header, lines and total', () => {
+      const html = renderPurchaseOrderHtml(order);
+
+      expect(html).toContain('Purchase Order PO-2025-0001');
+      expect(html).toContain('PR-2025-0007');
+      expect(html).toContain('Net 45');
+      expect(html).toContain('CC-100');
+      expect(html).toContain('SS-USBC');
+      expect(html).toContain('$9.50');
+      expect(html).toContain('$38.00');
+    });
+
+    it('should escape supplier and item text', () => {
+      const html = renderPurchaseOrderHtml(order);
+
+      expect(html).toContain('Smith &amp; Sons &lt;Supplies&gt;');
+      expect(html).not.toContain('<Supplies>');
+    });
+  });
+
+  describe('escapeHtml', () => {
+    it('should escape HTML special characters', () => {
+      expect(escapeHtml(`<a href="x">'&'</a>`)).toBe(
+        '&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;'
+      );
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Purchase Order Document
+ *
+ * Renders a purchase order as a standalone, printable HTML page that can
+ * be printed or saved as PDF from the browser and sent to the supplier.
+ */
+
+import type { PurchaseOrder } from '@/domain/entities';
+import { SupplierPaymentTerms } from '@/domain/entities';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+/**
+ * Human-readable payment terms
+ */
+export const PAYMENT_TERMS_LABELS: Record<SupplierPaymentTerms, string> = {
+  [SupplierPaymentTerms.Prepaid]: 'Prepaid',
+  [SupplierPaymentTerms.Net15]: 'Net 15',
+  [SupplierPaymentTerms.Net30]: 'Net 30',
+  [SupplierPaymentTerms.Net45]: 'Net 45',
+  [SupplierPaymentTerms.Net60]: 'Net 60',
+  [SupplierPaymentTerms.Net90]: 'Net 90',
+};
+
+/**
+ * Render a purchase order as printable HTML
+ * All order values are escaped.
+ */
+export function renderPurchaseOrderHtml(order: PurchaseOrder): string {
+  const rows = order.items
+    .map(
+      (item, index) => `
+        <tr>
+          <td>${index + 1}</td>
+          <td>
+            <strong>${escapeHtml(item.itemName)}</strong>
+            <div class="muted">${escapeHtml(item.itemDescription)}</div>
+          </td>
+          <td>${escapeHtml(item.supplierSku ?? '—')}</td>
+          <td class="num">${item.quantity}</td>
+          <td class="num">${formatCurrency(item.unitPrice)}</td>
+          <td class="num">${formatCurrency(item.subtotal)}</td>
+        </tr>`
+    )
+    .join('');
+
+  const details: [string, string][] = [
+    ['Issue date', formatDate(order.createdAt)],
+    ['Purchase request', order.requestNumber],
+    ['Payment terms', PAYMENT_TERMS_LABELS[order.paymentTerms]],
+    [
+      'Expected delivery',
+      order.expectedDeliveryDate ? formatDate(order.expectedDeliveryDate) : '—',
+    ],
+  ];
+  if (order.costCenter) {
+    details.push(['Cost center', order.costCenter]);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Purchase Order ${escapeHtml(order.poNumber)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #111; margin: 2rem; }
+    h1 { margin: 0 0 0.25rem; font-size: 1.5rem; }
+    table { width: 100%; border-collapse: collapse; margin-top: 1.5rem; }
+    th, td { text-align: left; padding: 0.5rem; border-bottom: 1px solid #ddd; vertical-align: top; }
+    .num { text-align: right; white-space: nowrap; }
+    .muted { color: #666; font-size: 0.875rem; }
+    .header { display: flex; justify-content: space-between; gap: 2rem; }
+    .total td { font-weight: bold; border-bottom: none; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>Purchase Order ${escapeHtml(order.poNumber)}</h1>
+      <div class="muted">ProcureFlow</div>
+    </div>
+    <div>
+      <strong>Supplier</strong>
+      <div>${escapeHtml(order.supplierName)}</div>
+      ${order.supplierEmail ? `<div>${escapeHtml(order.supplierEmail)}</div>` : ''}
+    </div>
+  </div>
+  <table>
+    ${details
+      .map(
+        ([label, value]) =>
+          `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`
+      )
+      .join('')}
+  </table>
+  <table>
+    <thead>
+      <tr>
+        <th>#</th>
+        <th>Item</th>
+        <th>Supplier SKU</th>
+        <th class="num">Qty</th>
+        <th class="num">Unit price</th>
+        <th class="num">Amount</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+      <tr class="total">
+        <td colspan="5" class="num">Total</td>
+        <td class="num">${formatCurrency(order.total)}</td>
+      </tr>
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Escape text for safe inclusion in HTML
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'vitest';
+
+import type {
+  ItemSupplierOffer,
+  PurchaseRequestItem,
+  Supplier,
+} from '@/domain/entities';
+import {
+  PurchaseOrderStatus,
+  SupplierPaymentTerms,
+  SupplierStatus,
+} from '@/domain/entities';
+
+import {
+  canTransitionPurchaseOrder,
+  computeExpectedDeliveryDate,
+  getNextPurchaseOrderStatuses,
+  planPurchaseOrders,
+  selectSupplierOffer,
+} from './purchase-order-planning';
+
+const CABLE_ID = '507f1f77bcf86cd799439021';
+const PAPER_ID = '507f1f77bcf86cd799439022';
+const DESK_ID = '507f1f77bcf86cd799439023';
+
+function makeSupplier(
+  id: string,
+  name: string,
+  overrides: Partial<Supplier> = {}
+): Supplier {
+  return {
+    id,
+    name,
+    contact: {},
+    paymentTerms: SupplierPaymentTerms.Net30,
+    status: SupplierStatus.Active,
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+    ...overrides,
+  };
+}
+
+function makeRequestItem(
+  itemId: string,
+  itemName: string,
+  quantity: number
+): PurchaseRequestItem {
+  return {
+    itemId,
+    itemName,
+    itemCategory: 'Office Supplies',
+    itemDescription: `${itemName} description`,
+    unitPrice: 10,
+    quantity,
+    subtotal: 10 * quantity,
+  };
+}
+
+const techSupply = makeSupplier('s1', 'TechSupply', { leadTimeDays: 7 });
+const paperCo = makeSupplier('s2', 'Paper Co.');
+const blockedCo = makeSupplier('s3', 'Blocked Co.', {
+  status: SupplierStatus.Blocked,
+});
+
+const suppliers = new Map(
+  [techSupply, paperCo, blockedCo].map((supplier) => [supplier.id, supplier])
+);
+
+describe('purchase-order-planning', () => {
+  describe('selectSupplierOffer', () => {
+    it('should pick the cheapest offer from an active supplier', () => {
+      const offers: ItemSupplierOffer[] = [
+        { supplierId: 's1', unitPrice: 12 },
+        { supplierId: 's2', unitPrice: 9 },
+        { supplierId: 's3', unitPrice: 5 },
+      ];
+
+      expect(selectSupplierOffer(offers, suppliers)).toEqual(offers[1]);
+    });
+
+    it('should keep the first offer on a price tie', () => {
+      const offers: ItemSupplierOffer[] = [
+        { supplierId: 's2', unitPrice: 9 },
+        { supplierId: 's1', unitPrice: 9 },
+      ];
+
+      expect(selectSupplierOffer(offers, suppliers)?.supplierId).toBe('s2');
+    });
+
+    it('should return null when only blocked or unknown suppliers offer the item', () => {
+      const offers: ItemSupplierOffer[] = [
+        { supplierId: 's3', unitPrice: 5 },
+        { supplierId: 'missing', unitPrice: 4 },
+      ];
+
+      expect(selectSupplierOffer(offers, suppliers)).toBeNull();
+    });
+  });
+
+  describe('planPurchaseOrders', () => {
+    it('should group lines into one order per supplier at offer prices', () => {
+      const offersByItem = new Map<string, ItemSupplierOffer[]>([
+        [CABLE_ID, [{ supplierId: 's1', unitPrice: 8.5, supplierSku: 'TS-1' }]],
+        [PAPER_ID, [{ supplierId: 's2', unitPrice: 4.25, leadTimeDays: 2 }]],
+        [DESK_ID, [{ supplierId: 's1', unitPrice: 199.99, leadTimeDays: 14 }]],
+      ]);
+
+      const plan = planPurchaseOrders(
+        [
+          makeRequestItem(CABLE_ID, 'Cable', 3),
+          makeRequestItem(PAPER_ID, 'Paper', 10),
+          makeRequestItem(DESK_ID, 'Desk', 1),
+        ],
+        offersByItem,
+        suppliers
+      );
+
+      expect(plan.unsourced).toEqual([]);
+      expect(plan.groups.map((group) => group.supplier.id)).toEqual([
+        's1',
+        's2',
+      ]);
+
+      const [techGroup, paperGroup] = plan.groups;
+      expect(techGroup.items.map((item) => item.itemId)).toEqual([
+        CABLE_ID,
+        DESK_ID,
+      ]);
+      expect(techGroup.items[0]).toMatchObject({
+        itemName: 'Cable',
+        supplierSku: 'TS-1',
+        unitPrice: 8.5,
+        quantity: 3,
+        subtotal: 25.5,
+        // Falls back to the supplier's default lead time
+        leadTimeDays: 7,
+      });
+      expect(techGroup.items[1].leadTimeDays).toBe(14);
+      expect(techGroup.total).toBe(225.49);
+      expect(paperGroup.total).toBe(42.5);
+      expect(paperGroup.items[0].leadTimeDays).toBe(2);
+    });
+
+    it('should report lines without an active supplier as unsourced', () => {
+      const cable = makeRequestItem(CABLE_ID, 'Cable', 1);
+      const paper = makeRequestItem(PAPER_ID, 'Paper', 1);
+
+      const plan = planPurchaseOrders(
+        [cable, paper],
+        new Map([[CABLE_ID, [{ supplierId: 's3', unitPrice: 5 }]]]),
+        suppliers
+      );
+
+      expect(plan.groups).toEqual([]);
+      expect(plan.unsourced).toEqual([cable, paper]);
+    });
+  });
+
+  describe('computeExpectedDeliveryDate', () => {
+    const issuedAt = new Date('2025-03-01T10:00:00Z');
+
+    it('should add the longest line lead time to the issue date', () => {
+      expect(
+        computeExpectedDeliveryDate(issuedAt, [
+          { leadTimeDays: 3 },
+          { leadTimeDays: undefined },
+          { leadTimeDays: 10 },
+        ])
+      ).toEqual(new Date('2025-03-11T10:00:00Z'));
+    });
+
+    it('should return undefined when no line has a lead time', () => {
+      expect(
+        computeExpectedDeliveryDate(issuedAt, [{ leadTimeDays: undefined }])
+      ).toBeUndefined();
+    });
+  });
+
+  describe('canTransitionPurchaseOrder', () => {
+    it('should follow the issued → acknowledged → received → closed lifecycle', () => {
+      expect(
+        canTransitionPurchaseOrder(
+          PurchaseOrderStatus.Issued,
+          PurchaseOrderStatus.Acknowledged
+        )
+      ).toBe(true);
+      expect(
+        canTransitionPurchaseOrder(
+          PurchaseOrderStatus.Acknowledged,
+          PurchaseOrderStatus.PartiallyReceived
+        )
+      ).toBe(true);
+      expect(
+        canTransitionPurchaseOrder(
+          PurchaseOrderStatus.PartiallyReceived,
+          PurchaseOrderStatus.Closed
+        )
+      ).toBe(true);
+    });
+
+    it('should not move backwards or out of closed', () => {
+      expect(
+        canTransitionPurchaseOrder(
+          PurchaseOrderStatus.PartiallyReceived,
+          PurchaseOrderStatus.Acknowledged
+        )
+      ).toBe(false);
+      expect(
+        canTransitionPurchaseOrder(
+          PurchaseOrderStatus.Closed,
+          PurchaseOrderStatus.Issued
+        )
+      ).toBe(false);
+      expect(getNextPurchaseOrderStatuses(PurchaseOrderStatus.Closed)).toEqual(
+        []
+      );
+    });
+  });
+});
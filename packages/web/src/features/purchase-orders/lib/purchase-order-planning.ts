@@ -0,0 +1,216 @@
+/**
+ * Purchase Order Planning
+ *
+ * Pure logic for turning an approved purchase request into purchase orders:
+ * - Pick the supplier offer each request line is ordered from
+ * - Group lines into one order per supplier
+ * - Compute expected delivery dates
+ * - Validate purchase order status transitions
+ *
+ * Kept free of database access so it can be unit tested.
+ */
+
+import type {
+  ItemSupplierOffer,
+  PurchaseOrderItem,
+  PurchaseRequestItem,
+  Supplier,
+} from '@/domain/entities';
+import { PurchaseOrderStatus, SupplierStatus } from '@/domain/entities';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Lines to be ordered from a single supplier
+ */
+export interface PurchaseOrderPlanGroup {
+  supplier: Supplier;
+  items: PurchaseOrderItem[];
+  total: number;
+}
+
+/**
+ * Result of planning purchase orders for a request
+ */
+export interface PurchaseOrderPlan {
+  /** One group per supplier, in order of first appearance on the request */
+  groups: PurchaseOrderPlanGroup[];
+
+  /** Request lines without an active supplier offer */
+  unsourced: PurchaseRequestItem[];
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export class InvalidPurchaseOrderTransitionError extends Error {
+  constructor(
+    public readonly fromStatus: PurchaseOrderStatus,
+    public readonly toStatus: PurchaseOrderStatus
+  ) {
+    super(
+      `Cannot move a purchase order from ${fromStatus.replace(/_/g, ' ')} to ${toStatus.replace(/_/g, ' ')}`
+    );
+    this.name = 'InvalidPurchaseOrderTransitionError';
+  }
+}
+
+// ============================================================================
+// Supplier Selection
+// ============================================================================
+
+/**
+ * Pick the offer a line is ordered from
+ * The cheapest offer from an active supplier wins; ties keep the
+ * first listed offer.
+ *
+ * @returns The selected offer, or null if no active supplier offers the item
+ */
+export function selectSupplierOffer(
+  offers: ItemSupplierOffer[],
+  suppliers: Map<string, Supplier>
+): ItemSupplierOffer | null {
+  let selected: ItemSupplierOffer | null = null;
+
+  for (const offer of offers) {
+    const supplier = suppliers.get(offer.supplierId);
+    if (!supplier || supplier.status !== SupplierStatus.Active) {
+      continue;
+    }
+    if (!selected || offer.unitPrice < selected.unitPrice) {
+      selected = offer;
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Group request lines into one purchase order per supplier
+ * Lines are priced with the selected supplier offer; the quantity and
+ * item snapshot come from the request.
+ *
+ * @param requestItems - Purchase request line snapshots
+ * @param offersByItem - Supplier offers keyed by item ID
+ * @param suppliers - Suppliers keyed by ID
+ */
+export function planPurchaseOrders(
+  requestItems: PurchaseRequestItem[],
+  offersByItem: Map<string, ItemSupplierOffer[]>,
+  suppliers: Map<string, Supplier>
+): PurchaseOrderPlan {
+  const groups = new Map<string, PurchaseOrderPlanGroup>();
+  const unsourced: PurchaseRequestItem[] = [];
+
+  for (const requestItem of requestItems) {
+    const offer = selectSupplierOffer(
+      offersByItem.get(requestItem.itemId) ?? [],
+      suppliers
+    );
+
+    if (!offer) {
+      unsourced.push(requestItem);
+      continue;
+    }
+
+    const supplier = suppliers.get(offer.supplierId)!;
+    const group = groups.get(supplier.id) ?? { supplier, items: [], total: 0 };
+    const subtotal = roundCurrency(offer.unitPrice * requestItem.quantity);
+
+    group.items.push({
+      itemId: requestItem.itemId,
+      itemName: requestItem.itemName,
+      itemCategory: requestItem.itemCategory,
+      itemDescription: requestItem.itemDescription,
+      supplierSku: offer.supplierSku,
+      unitPrice: offer.unitPrice,
+      quantity: requestItem.quantity,
+      subtotal,
+      leadTimeDays: offer.leadTimeDays ?? supplier.leadTimeDays,
+    });
+    group.total = roundCurrency(group.total + subtotal);
+    groups.set(supplier.id, group);
+  }
+
+  return { groups: Array.from(groups.values()), unsourced };
+}
+
+/**
+ * Expected delivery date for an order
+ * The order arrives complete once its slowest line arrives.
+ *
+ * @returns Issue date plus the longest line lead time, or undefined if
+ * no line has a lead time
+ */
+export function computeExpectedDeliveryDate(
+  issuedAt: Date,
+  items: Pick<PurchaseOrderItem, 'leadTimeDays'>[]
+): Date | undefined {
+  const leadTimes = items
+    .map((item) => item.leadTimeDays)
+    .filter((days): days is number => days !== undefined);
+
+  if (leadTimes.length === 0) {
+    return undefined;
+  }
+
+  const date = new Date(issuedAt);
+  date.setUTCDate(date.getUTCDate() + Math.max(...leadTimes));
+  return date;
+}
+
+// ============================================================================
+// Status Transitions
+// ============================================================================
+
+/**
+ * Statuses an order may move to from each status
+ * Orders can be closed at any point (fulfilled or cancelled).
+ */
+const ALLOWED_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> =
+  {
+    [PurchaseOrderStatus.Issued]: [
+      PurchaseOrderStatus.Acknowledged,
+      PurchaseOrderStatus.PartiallyReceived,
+      PurchaseOrderStatus.Closed,
+    ],
+    [PurchaseOrderStatus.Acknowledged]: [
+      PurchaseOrderStatus.PartiallyReceived,
+      PurchaseOrderStatus.Closed,
+    ],
+    [PurchaseOrderStatus.PartiallyReceived]: [PurchaseOrderStatus.Closed],
+    [PurchaseOrderStatus.Closed]: [],
+  };
+
+/**
+ * Check whether an order may move between two statuses
+ */
+export function canTransitionPurchaseOrder(
+  from: PurchaseOrderStatus,
+  to: PurchaseOrderStatus
+): boolean {
+  return ALLOWED_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Statuses an order may move to next (for status pickers)
+ */
+export function getNextPurchaseOrderStatuses(
+  status: PurchaseOrderStatus
+): PurchaseOrderStatus[] {
+  return ALLOWED_TRANSITIONS[status] ?? [];
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Round a currency amount to cents
+ */
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,523 @@
+/**
+ * Purchase Order Service
+ *
+ * Business logic for purchase orders generated from approved requests:
+ * - Split an approved request into one purchase order per supplier
+ * - Number orders (PO-YYYY-####)
+ * - List and fetch orders
+ * - Move orders through issued → acknowledged → partially received → closed
+ *
+ * Supplier selection and status rules live in the pure planning module;
+ * this service handles persistence.
+ */
+
+import { Types } from 'mongoose';
+
+import type {
+  ItemSupplierOffer,
+  PurchaseOrder,
+  PurchaseRequestItem,
+} from '@/domain/entities';
+import { PurchaseOrderStatus, PurchaseRequestStatus } from '@/domain/entities';
+import {
+  mapItemToEntity,
+  mapPurchaseOrderToEntity,
+  mapPurchaseRequestToEntity,
+  mapSupplierToEntity,
+} from '@/lib/db/mappers';
+import {
+  ItemModel,
+  MAX_PURCHASE_ORDER_NOTE_LENGTH,
+  PurchaseOrderModel,
+  PurchaseRequestModel,
+  SequenceCounterModel,
+  SupplierModel,
+} from '@/lib/db/models';
+import connectDB from '@/lib/db/mongoose';
+import { logger } from '@/lib/logger/winston.config';
+
+import {
+  canTransitionPurchaseOrder,
+  computeExpectedDeliveryDate,
+  InvalidPurchaseOrderTransitionError,
+  planPurchaseOrders,
+} from './purchase-order-planning';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Filters for listing purchase orders
+ */
+export interface PurchaseOrderFilters {
+  status?: PurchaseOrderStatus;
+  supplierId?: string;
+  purchaseRequestId?: string;
+}
+
+/**
+ * Result of generating purchase orders for a request
+ */
+export interface PurchaseOrderGenerationResult {
+  /** All purchase orders of the request (previously and newly issued) */
+  purchaseOrders: PurchaseOrder[];
+
+  /** Request lines not on any order because no active supplier offers them */
+  unsourcedItems: PurchaseRequestItem[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// MongoDB duplicate key error code
+const DUPLICATE_KEY_ERROR_CODE = 11000;
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+export class PurchaseOrderNotFoundError extends Error {
+  constructor(purchaseOrderId: string) {
+    super(`Purchase order not found: ${purchaseOrderId}`);
+    this.name = 'PurchaseOrderNotFoundError';
+  }
+}
+
+export class PurchaseRequestNotFoundError extends Error {
+  constructor(requestId: string) {
+    super(`Purchase request not found: ${requestId}`);
+    this.name = 'PurchaseRequestNotFoundError';
+  }
+}
+
+export class PurchaseRequestNotApprovedError extends Error {
+  constructor(
+    public readonly requestId: string,
+    public readonly status: PurchaseRequestStatus
+  ) {
+    super(
+      `Purchase orders can only be generated for approved requests (request is ${status.replace(/_/g, ' ')})`
+    );
+    this.name = 'PurchaseRequestNotApprovedError';
+  }
+}
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+/**
+ * Generate purchase orders for an approved purchase request
+ *
+ * Each request line is ordered from the cheapest active supplier offering
+ * the item, and lines are grouped into one order per supplier.
+ * Safe to call again: lines already on an order for the request are
+ * skipped, so a retry only issues orders for previously unsourced lines
+ * (e.g., after a supplier offer was added).
+ *
+ * @throws {PurchaseRequestNotApprovedError} if the request is not approved
+ */
+export async function generatePurchaseOrdersForRequest(
+  requestId: string
+): Promise<PurchaseOrderGenerationResult> {
+  await connectDB();
+
+  try {
+    if (!Types.ObjectId.isValid(requestId)) {
+      throw new ValidationError('Invalid purchase request ID');
+    }
+
+    const doc = await PurchaseRequestModel.findById(requestId).lean().exec();
+    if (!doc) {
+      throw new PurchaseRequestNotFoundError(requestId);
+    }
+
+    const request = mapPurchaseRequestToEntity(doc);
+    if (request.status !== PurchaseRequestStatus.Approved) {
+      throw new PurchaseRequestNotApprovedError(requestId, request.status);
+    }
+
+    const existing = await findOrdersForRequest(requestId);
+    const orderedItemIds = new Set(
+      existing.flatMap((order) => order.items.map((item) => item.itemId))
+    );
+    const pendingItems = request.items.filter(
+      (item) => !orderedItemIds.has(item.itemId)
+    );
+
+    if (pendingItems.length === 0) {
+      return { purchaseOrders: existing, unsourcedItems: [] };
+    }
+
+    // Load supplier offers for the pending lines
+    const items = await ItemModel.find({
+      _id: {
+        $in: pendingItems
+          .map((item) => item.itemId)
+          .filter((itemId) => Types.ObjectId.isValid(itemId)),
+      },
+    })
+      .lean()
+      .exec();
+    const offersByItem = new Map<string, ItemSupplierOffer[]>(
+      items.map((item) => {
+        const entity = mapItemToEntity(item);
+        return [entity.id, entity.suppliers];
+      })
+    );
+
+    const supplierIds = [...offersByItem.values()].flatMap((offers) =>
+      offers.map((offer) => offer.supplierId)
+    );
+    const suppliers = await SupplierModel.find({ _id: { $in: supplierIds } })
+      .lean()
+      .exec();
+    const supplierMap = new Map(
+      suppliers.map((supplier) => [
+        supplier._id.toString(),
+        mapSupplierToEntity(supplier),
+      ])
+    );
+
+    const plan = planPurchaseOrders(pendingItems, offersByItem, supplierMap);
+
+    const created: PurchaseOrder[] = [];
+    for (const group of plan.groups) {
+      const issuedAt = new Date();
+      const order = await PurchaseOrderModel.create({
+        poNumber: await generatePurchaseOrderNumber(),
+        purchaseRequestId: requestId,
+        requestNumber: request.requestNumber,
+        supplierId: group.supplier.id,
+        supplierName: group.supplier.name,
+        supplierEmail: group.supplier.contact.email,
+        paymentTerms: group.supplier.paymentTerms,
+        items: group.items.map((item) => ({
+          itemId: item.itemId,
+          name: item.itemName,
+          category: item.itemCategory,
+          description: item.itemDescription,
+          supplierSku: item.supplierSku,
+          unitPrice: item.unitPrice,
+          quantity: item.quantity,
+          subtotal: item.subtotal,
+          leadTimeDays: item.leadTimeDays,
+        })),
+        total: group.total,
+        status: PurchaseOrderStatus.Issued,
+        statusHistory: [
+          { toStatus: PurchaseOrderStatus.Issued, changedAt: issuedAt },
+        ],
+        expectedDeliveryDate: computeExpectedDeliveryDate(
+          issuedAt,
+          group.items
+        ),
+        costCenter: request.costCenter,
+      });
+
+      created.push(mapPurchaseOrderToEntity(order.toObject()));
+    }
+
+    if (created.length > 0) {
+      logger.info('Purchase orders issued', {
+        requestId,
+        poNumbers: created.map((order) => order.poNumber),
+      });
+    }
+
+    if (plan.unsourced.length > 0) {
+      logger.warn('Purchase request lines without an active supplier', {
+        requestId,
+        itemIds: plan.unsourced.map((item) => item.itemId),
+      });
+    }
+
+    return {
+      purchaseOrders: [...existing, ...created],
+      unsourcedItems: plan.unsourced,
+    };
+  } catch (error) {
+    if (isKnownPurchaseOrderError(error)) {
+      throw error;
+    }
+    logger.error('Error generating purchase orders', { requestId, error });
+    throw new Error('Failed to generate purchase orders');
+  }
+}
+
+/**
+ * Issue purchase orders for a request that was just approved
+ * Called from the approval and checkout flows; failures are logged and
+ * never fail the approval itself (buyers can retry via the API).
+ */
+export async function issuePurchaseOrdersOnApproval(
+  requestId: string
+): Promise<void> {
+  try {
+    await generatePurchaseOrdersForRequest(requestId);
+  } catch (error) {
+    logger.error('Automatic purchase order generation failed', {
+      requestId,
+      error,
+    });
+  }
+}
+
+/**
+ * List purchase orders
+ *
+ * @param filters - Optional status / supplier / request filters
+ * @returns Purchase orders, most recent first
+ */
+export async function listPurchaseOrders(
+  filters: PurchaseOrderFilters = {}
+): Promise<PurchaseOrder[]> {
+  await connectDB();
+
+  try {
+    const query: Record<string, unknown> = {};
+    if (filters.status) {
+      query.status = filters.status;
+    }
+    if (filters.supplierId) {
+      if (!Types.ObjectId.isValid(filters.supplierId)) {
+        throw new ValidationError('Invalid supplier ID');
+      }
+      query.supplierId = new Types.ObjectId(filters.supplierId);
+    }
+    if (filters.purchaseRequestId) {
+      if (!Types.ObjectId.isValid(filters.purchaseRequestId)) {
+        throw new ValidationError('Invalid purchase request ID');
+      }
+      query.purchaseRequestId = new Types.ObjectId(filters.purchaseRequestId);
+    }
+
+    const orders = await PurchaseOrderModel.find(query)
+      .sort({ createdAt: -1 })
+      .lean()
+      .exec();
+
+    return orders.map(mapPurchaseOrderToEntity);
+  } catch (error) {
+    if (isKnownPurchaseOrderError(error)) {
+      throw error;
+    }
+    logger.error('Error listing purchase orders', { filters, error });
+    throw new Error('Failed to list purchase orders');
+  }
+}
+
+/**
+ * Get a purchase order by ID
+ *
+ * @throws {PurchaseOrderNotFoundError} if the order does not exist
+ */
+export async function getPurchaseOrderById(
+  purchaseOrderId: string
+): Promise<PurchaseOrder> {
+  await connectDB();
+
+  try {
+    return await findPurchaseOrderOrThrow(purchaseOrderId);
+  } catch (error) {
+    if (isKnownPurchaseOrderError(error)) {
+      throw error;
+    }
+    logger.error('Error fetching purchase order', { purchaseOrderId, error });
+    throw new Error('Failed to fetch purchase order');
+  }
+}
+
+/**
+ * Move a purchase order to a new status
+ *
+ * @throws {PurchaseOrderNotFoundError} if the order does not exist
+ * @throws {InvalidPurchaseOrderTransitionError} if the transition is not allowed
+ */
+export async function updatePurchaseOrderStatus(
+  purchaseOrderId: string,
+  status: PurchaseOrderStatus,
+  userId: string,
+  note?: string
+): Promise<PurchaseOrder> {
+  await connectDB();
+
+  try {
+    if (!Object.values(PurchaseOrderStatus).includes(status)) {
+      throw new ValidationError(`Invalid purchase order status: ${status}`);
+    }
+
+    const trimmedNote = note?.trim() || undefined;
+    if (trimmedNote && trimmedNote.length > MAX_PURCHASE_ORDER_NOTE_LENGTH) {
+      throw new ValidationError(
+        `Note must not exceed ${MAX_PURCHASE_ORDER_NOTE_LENGTH} characters`
+      );
+    }
+
+    const order = await findPurchaseOrderOrThrow(purchaseOrderId);
+
+    if (!canTransitionPurchaseOrder(order.status, status)) {
+      throw new InvalidPurchaseOrderTransitionError(order.status, status);
+    }
+
+    // Guard on the previous status so concurrent updates can't both apply
+    const updated = await PurchaseOrderModel.findOneAndUpdate(
+      { _id: purchaseOrderId, status: order.status },
+      {
+        $set: { status },
+        $push: {
+          statusHistory: {
+            fromStatus: order.status,
+            toStatus: status,
+            userId,
+            note: trimmedNote,
+            changedAt: new Date(),
+          },
+        },
+      },
+      { new: true, runValidators: true }
+    )
+      .lean()
+      .exec();
+
+    if (!updated) {
+      throw new InvalidPurchaseOrderTransitionError(order.status, status);
+    }
+
+    logger.info('Purchase order status changed', {
+      purchaseOrderId,
+      userId,
+      from: order.status,
+      to: status,
+    });
+
+    return mapPurchaseOrderToEntity(updated);
+  } catch (error) {
+    if (isKnownPurchaseOrderError(error)) {
+      throw error;
+    }
+    logger.error('Error updating purchase order status', {
+      purchaseOrderId,
+      status,
+      error,
+    });
+    throw new Error('Failed to update purchase order');
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Generate unique purchase order number
+ * Format: PO-YYYY-####
+ *
+ * Numbers come from a per-year counter incremented atomically, so
+ * concurrent approvals never get the same number. A new counter starts
+ * after the last order of the year issued before it existed.
+ */
+async function generatePurchaseOrderNumber(): Promise<string> {
+  const year = new Date().getFullYear();
+  const counterId = `purchase_order:${year}`;
+
+  if (!(await SequenceCounterModel.exists({ _id: counterId }))) {
+    await SequenceCounterModel.updateOne(
+      { _id: counterId },
+      { $setOnInsert: { sequence: await findLastPurchaseOrderSequence(year) } },
+      { upsert: true }
+    )
+      .exec()
+      .catch((error) => {
+        // Another approval created the counter first
+        if (error?.code !== DUPLICATE_KEY_ERROR_CODE) {
+          throw error;
+        }
+      });
+  }
+
+  const counter = await SequenceCounterModel.findOneAndUpdate(
+    { _id: counterId },
+    { $inc: { sequence: 1 } },
+    { new: true, upsert: true }
+  )
+    .lean()
+    .exec();
+
+  const paddedSequence = String(counter?.sequence ?? 1).padStart(4, '0');
+  return `PO-${year}-${paddedSequence}`;
+}
+
+/**
+ * Sequence of the last purchase order of a year (0 if none)
+ */
+async function findLastPurchaseOrderSequence(year: number): Promise<number> {
+  const lastOrder = await PurchaseOrderModel.findOne({
+    poNumber: new RegExp(`^PO-${year}-`),
+  })
+    .sort({ createdAt: -1 })
+    .lean()
+    .exec();
+
+  const match = lastOrder?.poNumber.match(/PO-\d{4}-(\d{4,})$/);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+/**
+ * Fetch the purchase orders already issued for a request
+ */
+async function findOrdersForRequest(
+  requestId: string
+): Promise<PurchaseOrder[]> {
+  const orders = await PurchaseOrderModel.find({
+    purchaseRequestId: new Types.ObjectId(requestId),
+  })
+    .sort({ createdAt: 1 })
+    .lean()
+    .exec();
+
+  return orders.map(mapPurchaseOrderToEntity);
+}
+
+/**
+ * Fetch a purchase order or throw a not-found error
+ */
+async function findPurchaseOrderOrThrow(
+  purchaseOrderId: string
+): Promise<PurchaseOrder> {
+  if (!Types.ObjectId.isValid(purchaseOrderId)) {
+    throw new ValidationError('Invalid purchase order ID');
+  }
+
+  const order = await PurchaseOrderModel.findById(purchaseOrderId)
+    .lean()
+    .exec();
+
+  if (!order) {
+    throw new PurchaseOrderNotFoundError(purchaseOrderId);
+  }
+
+  return mapPurchaseOrderToEntity(order);
+}
+
+/**
+ * Errors that should propagate to the caller unchanged
+ */
+function isKnownPurchaseOrderError(error: unknown): boolean {
+  return (
+    error instanceof ValidationError ||
+    error instanceof PurchaseOrderNotFoundError ||
+    error instanceof PurchaseRequestNotFoundError ||
+    error instanceof PurchaseRequestNotApprovedError ||
+    error instanceof InvalidPurchaseOrderTransitionError
+  );
+}
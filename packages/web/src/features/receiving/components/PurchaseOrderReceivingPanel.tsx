@@ -0,0 +1,429 @@
+/**
+ * Purchase Order Receiving Panel
+ *
+ * Three-way match per line (ordered vs. received vs. invoiced), a form to
+ * record a delivery with rejected quantities and notes, and the receipt
+ * and invoice history of a purchase order.
+ */
+
+'use client';
+
+import { Loader2, PackageCheck } from 'lucide-react';
+import { useSession } from 'next-auth/react';
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import type {
+  GoodsReceipt,
+  PurchaseOrder,
+  SupplierInvoice,
+  ThreeWayMatch,
+} from '@/domain/entities';
+import {
+  PurchaseOrderStatus,
+  ReceiptRejectionReason,
+  ThreeWayMatchStatus,
+} from '@/domain/entities';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+
+interface PurchaseOrderReceivingPanelProps {
+  purchaseOrder: PurchaseOrder;
+  /** Called after a receipt is recorded (the order status may change) */
+  onReceived: () => void;
+}
+
+interface ReceiptLineDraft {
+  quantityReceived: string;
+  quantityRejected: string;
+  rejectionReason: ReceiptRejectionReason | '';
+  note: string;
+}
+
+const MATCH_LABELS: Record<ThreeWayMatchStatus, string> = {
+  [ThreeWayMatchStatus.Pending]: 'Pending',
+  [ThreeWayMatchStatus.Matched]: 'Matched',
+  [ThreeWayMatchStatus.QuantityMismatch]: 'Quantity mismatch',
+  [ThreeWayMatchStatus.PriceMismatch]: 'Price mismatch',
+};
+
+const REJECTION_LABELS: Record<ReceiptRejectionReason, string> = {
+  [ReceiptRejectionReason.Damaged]: 'Damaged',
+  [ReceiptRejectionReason.WrongItem]: 'Wrong item',
+  [ReceiptRejectionReason.QualityIssue]: 'Quality issue',
+  [ReceiptRejectionReason.Other]: 'Other',
+};
+
+function MatchBadge({ status }: { status: ThreeWayMatchStatus }) {
+  switch (status) {
+    case ThreeWayMatchStatus.Matched:
+      return (
+        <Badge variant='default' className='bg-green-500'>
+          {MATCH_LABELS[status]}
+        </Badge>
+      );
+    case ThreeWayMatchStatus.Pending:
+      return <Badge variant='secondary'>{MATCH_LABELS[status]}</Badge>;
+    default:
+      return <Badge variant='destructive'>{MATCH_LABELS[status]}</Badge>;
+  }
+}
+
+const emptyDraft = (): ReceiptLineDraft => ({
+  quantityReceived: '',
+  quantityRejected: '',
+  rejectionReason: '',
+  note: '',
+});
+
+export function PurchaseOrderReceivingPanel({
+  purchaseOrder,
+  onReceived,
+}: PurchaseOrderReceivingPanelProps) {
+  const { data: session } = useSession();
+  const [match, setMatch] = useState<ThreeWayMatch | null>(null);
+  const [receipts, setReceipts] = useState<GoodsReceipt[]>([]);
+  const [invoices, setInvoices] = useState<SupplierInvoice[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, ReceiptLineDraft>>({});
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const canReceive =
+    hasPermission(session?.user?.role, Permission.ReceivingManage) &&
+    purchaseOrder.status !== PurchaseOrderStatus.Closed;
+
+  const loadReceiving = useCallback(async () => {
+    try {
+      const base = `/api/purchase-orders/${purchaseOrder.id}`;
+      const [matchResponse, receiptsResponse, invoicesResponse] =
+        await Promise.all([
+          fetch(`${base}/match`),
+          fetch(`${base}/receipts`),
+          fetch(`${base}/invoices`),
+        ]);
+
+      if (!matchResponse.ok || !receiptsResponse.ok || !invoicesResponse.ok) {
+        throw new Error('Failed to load receiving details');
+      }
+
+      setMatch((await matchResponse.json()).data);
+      setReceipts((await receiptsResponse.json()).data || []);
+      setInvoices((await invoicesResponse.json()).data || []);
+    } catch (error) {
+      console.error('Error loading receiving details:', error);
+      toast.error('Failed to load receiving details', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    }
+  }, [purchaseOrder.id]);
+
+  useEffect(() => {
+    loadReceiving();
+  }, [loadReceiving]);
+
+  const updateDraft = (itemId: string, changes: Partial<ReceiptLineDraft>) => {
+    setDrafts((current) => ({
+      ...current,
+      [itemId]: { ...(current[itemId] ?? emptyDraft()), ...changes },
+    }));
+  };
+
+  const handleSubmit = async () => {
+    const lines = Object.entries(drafts)
+      .filter(([, draft]) => Number(draft.quantityReceived) > 0)
+      .map(([itemId, draft]) => ({
+        itemId,
+        quantityReceived: Number(draft.quantityReceived),
+        quantityRejected: Number(draft.quantityRejected) || 0,
+        rejectionReason: draft.rejectionReason || undefined,
+        note: draft.note.trim() || undefined,
+      }));
+
+    if (lines.length === 0) {
+      toast.error('Enter the quantity received for at least one item');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(
+        `/api/purchase-orders/${purchaseOrder.id}/receipts`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ lines, notes: notes.trim() || undefined }),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to record goods receipt');
+      }
+
+      toast.success(`Goods receipt ${data.data.receiptNumber} recorded`);
+      setDrafts({});
+      setNotes('');
+      await loadReceiving();
+      onReceived();
+    } catch (error) {
+      toast.error('Failed to record goods receipt', {
+        description:
+          error instanceof Error ? error.message : 'Please try again later.',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatDate = (date: Date) =>
+    new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+
+  if (!match) {
+    return (
+      <div className='flex items-center justify-center py-6'>
+        <Loader2 className='h-6 w-6 animate-spin text-muted-foreground' />
+      </div>
+    );
+  }
+
+  return (
+    <div className='space-y-6'>
+      {/* Three-way match */}
+      <div>
+        <div className='mb-4 flex items-center justify-between'>
+          <h3 className='text-lg font-semibold'>
+            Receiving &amp; Invoice Match
+          </h3>
+          <MatchBadge status={match.status} />
+        </div>
+        <div className='rounded-md border'>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className='text-right'>Ordered</TableHead>
+                <TableHead className='text-right'>Received</TableHead>
+                <TableHead className='text-right'>Rejected</TableHead>
+                <TableHead className='text-right'>Invoiced</TableHead>
+                <TableHead>Match</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {match.lines.map((line) => (
+                <TableRow key={line.itemId}>
+                  <TableCell className='font-medium'>{line.itemName}</TableCell>
+                  <TableCell className='text-right'>
+                    {line.quantityOrdered}
+                  </TableCell>
+                  <TableCell className='text-right'>
+                    {line.quantityReceived}
+                  </TableCell>
+                  <TableCell className='text-right'>
+                    {line.quantityRejected}
+                  </TableCell>
+                  <TableCell className='text-right'>
+                    {line.quantityInvoiced}
+                    {line.quantityInvoiced > 0 && (
+                      <span className='ml-1 text-xs text-muted-foreground'>
+                        (${line.amountInvoiced.toFixed(2)})
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <MatchBadge status={line.status} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {match.unmatchedInvoiceItemIds.length > 0 && (
+          <p className='mt-2 text-sm text-destructive'>
+            Invoices bill {match.unmatchedInvoiceItemIds.length} item(s) that
+            are not on this purchase order.
+          </p>
+        )}
+      </div>
+
+      {/* Record a delivery */}
+      {canReceive && (
+        <div className='space-y-4'>
+          <h3 className='text-lg font-semibold'>Record Delivery</h3>
+          {purchaseOrder.items.map((item) => {
+            const draft = drafts[item.itemId] ?? emptyDraft();
+            const rejected = Number(draft.quantityRejected) || 0;
+
+            return (
+              <div
+                key={item.itemId}
+                className='grid gap-3 rounded-md border p-3 md:grid-cols-5'
+              >
+                <div className='md:col-span-5 font-medium'>{item.itemName}</div>
+                <div className='space-y-1'>
+                  <Label htmlFor={`received-${item.itemId}`}>Received</Label>
+                  <Input
+                    id={`received-${item.itemId}`}
+                    type='number'
+                    min={0}
+                    value={draft.quantityReceived}
+                    onChange={(event) =>
+                      updateDraft(item.itemId, {
+                        quantityReceived: event.target.value,
+                      })
+                    }
+                  />
+                </div>
+                <div className='space-y-1'>
+                  <Label htmlFor={`rejected-${item.itemId}`}>Rejected</Label>
+                  <Input
+                    id={`rejected-${item.itemId}`}
+                    type='number'
+                    min={0}
+                    value={draft.quantityRejected}
+                    onChange={(event) =>
+                      updateDraft(item.itemId, {
+                        quantityRejected: event.target.value,
+                      })
+                    }
+                  />
+                </div>
+                <div className='space-y-1'>
+                  <Label htmlFor={`reason-${item.itemId}`}>Reason</Label>
+                  <select
+                    id={`reason-${item.itemId}`}
+                    className='border-input h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs disabled:opacity-50'
+                    disabled={rejected === 0}
+                    value={draft.rejectionReason}
+                    onChange={(event) =>
+                      updateDraft(item.itemId, {
+                        rejectionReason: event.target
+                          .value as ReceiptRejectionReason,
+                      })
+                    }
+                  >
+                    <option value=''>Select…</option>
+                    {Object.values(ReceiptRejectionReason).map((reason) => (
+                      <option key={reason} value={reason}>
+                        {REJECTION_LABELS[reason]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className='space-y-1 md:col-span-2'>
+                  <Label htmlFor={`note-${item.itemId}`}>Note</Label>
+                  <Input
+                    id={`note-${item.itemId}`}
+                    value={draft.note}
+                    onChange={(event) =>
+                      updateDraft(item.itemId, { note: event.target.value })
+                    }
+                  />
+                </div>
+              </div>
+            );
+          })}
+          <div className='space-y-1'>
+            <Label htmlFor='receipt-notes'>Receiving notes</Label>
+            <Textarea
+              id='receipt-notes'
+              placeholder='Carrier, packing slip number, condition of packaging...'
+              value={notes}
+              onChange={(event) => setNotes(event.target.value)}
+            />
+          </div>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? (
+              <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+            ) : (
+              <PackageCheck className='mr-2 h-4 w-4' />
+            )}
+            Record Receipt
+          </Button>
+        </div>
+      )}
+
+      {/* Receipt history */}
+      {receipts.length > 0 && (
+        <div>
+          <h3 className='mb-4 text-lg font-semibold'>Goods Receipts</h3>
+          <ul className='space-y-3'>
+            {receipts.map((receipt) => (
+              <li key={receipt.id} className='rounded-md border p-3 text-sm'>
+                <div className='flex items-center justify-between'>
+                  <span className='font-mono'>{receipt.receiptNumber}</span>
+                  <span className='text-muted-foreground'>
+                    {formatDate(receipt.receivedAt)}
+                  </span>
+                </div>
+                <ul className='mt-2 space-y-1'>
+                  {receipt.lines.map((line) => (
+                    <li key={line.itemId}>
+                      {line.itemName}: {line.quantityReceived} received
+                      {line.quantityRejected > 0 &&
+                        `, ${line.quantityRejected} rejected (${
+                          line.rejectionReason
+                            ? REJECTION_LABELS[line.rejectionReason]
+                            : 'no reason'
+                        })`}
+                      {line.note && (
+                        <span className='text-muted-foreground'>
+                          {' '}
+                          — {line.note}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                {receipt.notes && (
+                  <p className='mt-2 whitespace-pre-wrap text-muted-foreground'>
+                    {receipt.notes}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Invoices */}
+      {invoices.length > 0 && (
+        <div>
+          <h3 className='mb-4 text-lg font-semibold'>Supplier Invoices</h3>
+          <ul className='space-y-2 text-sm'>
+            {invoices.map((invoice) => (
+              <li
+                key={invoice.id}
+                className='flex items-center justify-between rounded-md border p-3'
+              >
+                <span className='font-mono'>{invoice.invoiceNumber}</span>
+                <span className='text-muted-foreground'>
+                  {formatDate(invoice.invoiceDate)}
+                </span>
+                <span className='font-semibold'>
+                  ${invoice.total.toFixed(2)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
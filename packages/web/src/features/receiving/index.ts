@@ -0,0 +1,8 @@
+/**
+ * Receiving Feature
+ * Goods receipts, supplier invoices and three-way match against purchase orders
+ */
+
+export * from './lib/three-way-match';
+export * from './lib/receiving.service';
+export { PurchaseOrderReceivingPanel } from './components/PurchaseOrderReceivingPanel';
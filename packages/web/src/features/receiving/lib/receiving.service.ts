@@ -0,0 +1,605 @@
+/**
+ * Receiving Service
+ *
+ * Business logic for goods receipt and invoice matching:
+ * - Record deliveries (accepted / rejected quantities, notes) against
+ *   purchase orders; partial deliveries are separate receipts
+ * - Move purchase orders to partially received / closed as goods arrive
+ * - Record supplier invoices
+ * - Three-way match of purchase order, receipts and invoices
+ *
+ * Receipts and invoices are append-only audit evidence.
+ */
+
+import { Types } from 'mongoose';
+
+import type {
+  GoodsReceipt,
+  PurchaseOrder,
+  SupplierInvoice,
+  ThreeWayMatch,
+} from '@/domain/entities';
+import { PurchaseOrderStatus, ReceiptRejectionReason } from '@/domain/entities';
+import {
+  getPurchaseOrderById,
+  PurchaseOrderNotFoundError,
+  updatePurchaseOrderStatus,
+  ValidationError as PurchaseOrderValidationError,
+} from '@/features/purchase-orders/lib/purchase-order.service';
+import {
+  mapGoodsReceiptToEntity,
+  mapSupplierInvoiceToEntity,
+} from '@/lib/db/mappers';
+import {
+  GoodsReceiptModel,
+  MAX_RECEIPT_NOTE_LENGTH,
+  SupplierInvoiceModel,
+} from '@/lib/db/models';
+import connectDB from '@/lib/db/mongoose';
+import { logger } from '@/lib/logger/winston.config';
+
+import {
+  computeThreeWayMatch,
+  getOutstandingQuantities,
+  getStatusAfterReceipt,
+} from './three-way-match';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Input for one received line
+ */
+export interface GoodsReceiptLineInput {
+  itemId: string;
+  quantityReceived: number;
+  quantityRejected?: number;
+  rejectionReason?: ReceiptRejectionReason;
+  note?: string;
+}
+
+/**
+ * Input for recording a goods receipt
+ */
+export interface RecordGoodsReceiptInput {
+  lines: GoodsReceiptLineInput[];
+  notes?: string;
+
+  /** When the goods arrived (defaults to now) */
+  receivedAt?: Date | string;
+}
+
+/**
+ * Input for one billed line
+ */
+export interface SupplierInvoiceLineInput {
+  itemId: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+/**
+ * Input for recording a supplier invoice
+ */
+export interface RecordSupplierInvoiceInput {
+  invoiceNumber: string;
+  invoiceDate: Date | string;
+  lines: SupplierInvoiceLineInput[];
+}
+
+/**
+ * Filters for listing goods receipts
+ */
+export interface GoodsReceiptFilters {
+  purchaseOrderId?: string;
+  purchaseRequestId?: string;
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+export class PurchaseOrderClosedError extends Error {
+  constructor(poNumber: string) {
+    super(`Purchase order ${poNumber} is closed and cannot receive goods`);
+    this.name = 'PurchaseOrderClosedError';
+  }
+}
+
+export class DuplicateInvoiceError extends Error {
+  constructor(invoiceNumber: string) {
+    super(
+      `Invoice ${invoiceNumber} has already been recorded for this supplier`
+    );
+    this.name = 'DuplicateInvoiceError';
+  }
+}
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+/**
+ * Record goods received against a purchase order
+ *
+ * Accepted units (received minus rejected) may not exceed the quantity
+ * still outstanding on each line. After the receipt, the order moves to
+ * partially received, or closed once every line is fully received.
+ *
+ * @throws {PurchaseOrderClosedError} if the order is closed
+ * @throws {ValidationError} for unknown lines or invalid quantities
+ */
+export async function recordGoodsReceipt(
+  purchaseOrderId: string,
+  input: RecordGoodsReceiptInput,
+  userId: string
+): Promise<GoodsReceipt> {
+  await connectDB();
+
+  try {
+    const order = await getPurchaseOrderById(purchaseOrderId);
+
+    if (order.status === PurchaseOrderStatus.Closed) {
+      throw new PurchaseOrderClosedError(order.poNumber);
+    }
+
+    const existing = await findReceiptsForOrder(purchaseOrderId);
+    const outstanding = getOutstandingQuantities(order, existing);
+    const lines = normalizeReceiptLines(order, outstanding, input.lines);
+
+    const notes = input.notes?.trim() || undefined;
+    if (notes && notes.length > MAX_RECEIPT_NOTE_LENGTH) {
+      throw new ValidationError(
+        `Notes must not exceed ${MAX_RECEIPT_NOTE_LENGTH} characters`
+      );
+    }
+
+    const receivedAt = input.receivedAt
+      ? new Date(input.receivedAt)
+      : new Date();
+    if (Number.isNaN(receivedAt.getTime()) || receivedAt > new Date()) {
+      throw new ValidationError('Received date must be a valid past date');
+    }
+
+    const created = await GoodsReceiptModel.create({
+      receiptNumber: await generateReceiptNumber(),
+      purchaseOrderId,
+      poNumber: order.poNumber,
+      purchaseRequestId: order.purchaseRequestId,
+      requestNumber: order.requestNumber,
+      lines,
+      notes,
+      receivedByUserId: userId,
+      receivedAt,
+    });
+    const receipt = mapGoodsReceiptToEntity(created.toObject());
+
+    logger.info('Goods receipt recorded', {
+      purchaseOrderId,
+      receiptNumber: receipt.receiptNumber,
+      userId,
+    });
+
+    await syncPurchaseOrderStatus(
+      order,
+      [...existing, receipt],
+      receipt,
+      userId
+    );
+
+    return receipt;
+  } catch (error) {
+    if (isKnownReceivingError(error)) {
+      throw error;
+    }
+    logger.error('Error recording goods receipt', {
+      purchaseOrderId,
+      userId,
+      error,
+    });
+    throw new Error('Failed to record goods receipt');
+  }
+}
+
+/**
+ * List goods receipts for a purchase order or purchase request
+ *
+ * @returns Receipts, oldest delivery first
+ */
+export async function listGoodsReceipts(
+  filters: GoodsReceiptFilters
+): Promise<GoodsReceipt[]> {
+  await connectDB();
+
+  try {
+    const query: Record<string, unknown> = {};
+    if (filters.purchaseOrderId) {
+      query.purchaseOrderId = toObjectId(
+        filters.purchaseOrderId,
+        'purchase order'
+      );
+    }
+    if (filters.purchaseRequestId) {
+      query.purchaseRequestId = toObjectId(
+        filters.purchaseRequestId,
+        'purchase request'
+      );
+    }
+
+    const receipts = await GoodsReceiptModel.find(query)
+      .sort({ receivedAt: 1 })
+      .lean()
+      .exec();
+
+    return receipts.map(mapGoodsReceiptToEntity);
+  } catch (error) {
+    if (isKnownReceivingError(error)) {
+      throw error;
+    }
+    logger.error('Error listing goods receipts', { filters, error });
+    throw new Error('Failed to list goods receipts');
+  }
+}
+
+/**
+ * Record a supplier invoice against a purchase order
+ * Lines for items not on the order are accepted but flagged by the match.
+ *
+ * @throws {DuplicateInvoiceError} if the supplier's invoice number was already recorded
+ */
+export async function recordSupplierInvoice(
+  purchaseOrderId: string,
+  input: RecordSupplierInvoiceInput,
+  userId: string
+): Promise<SupplierInvoice> {
+  await connectDB();
+
+  try {
+    const order = await getPurchaseOrderById(purchaseOrderId);
+
+    const invoiceNumber = input.invoiceNumber?.trim();
+    if (!invoiceNumber) {
+      throw new ValidationError('Invoice number is required');
+    }
+
+    const invoiceDate = new Date(input.invoiceDate);
+    if (!input.invoiceDate || Number.isNaN(invoiceDate.getTime())) {
+      throw new ValidationError('Invoice date is required');
+    }
+
+    const lines = normalizeInvoiceLines(input.lines);
+
+    const duplicate = await SupplierInvoiceModel.findOne({
+      supplierId: new Types.ObjectId(order.supplierId),
+      invoiceNumber,
+    })
+      .lean()
+      .exec();
+    if (duplicate) {
+      throw new DuplicateInvoiceError(invoiceNumber);
+    }
+
+    const created = await SupplierInvoiceModel.create({
+      invoiceNumber,
+      purchaseOrderId,
+      supplierId: order.supplierId,
+      invoiceDate,
+      lines,
+      total: roundCurrency(lines.reduce((sum, line) => sum + line.subtotal, 0)),
+      recordedByUserId: userId,
+    });
+
+    logger.info('Supplier invoice recorded', {
+      purchaseOrderId,
+      invoiceNumber,
+      userId,
+    });
+
+    return mapSupplierInvoiceToEntity(created.toObject());
+  } catch (error) {
+    if (isKnownReceivingError(error)) {
+      throw error;
+    }
+    logger.error('Error recording supplier invoice', {
+      purchaseOrderId,
+      userId,
+      error,
+    });
+    throw new Error('Failed to record supplier invoice');
+  }
+}
+
+/**
+ * List supplier invoices recorded for a purchase order
+ *
+ * @returns Invoices, oldest first
+ */
+export async function listSupplierInvoices(
+  purchaseOrderId: string
+): Promise<SupplierInvoice[]> {
+  await connectDB();
+
+  try {
+    const invoices = await SupplierInvoiceModel.find({
+      purchaseOrderId: toObjectId(purchaseOrderId, 'purchase order'),
+    })
+      .sort({ invoiceDate: 1 })
+      .lean()
+      .exec();
+
+    return invoices.map(mapSupplierInvoiceToEntity);
+  } catch (error) {
+    if (isKnownReceivingError(error)) {
+      throw error;
+    }
+    logger.error('Error listing supplier invoices', {
+      purchaseOrderId,
+      error,
+    });
+    throw new Error('Failed to list supplier invoices');
+  }
+}
+
+/**
+ * Three-way match of a purchase order with its receipts and invoices
+ */
+export async function getThreeWayMatch(
+  purchaseOrderId: string
+): Promise<ThreeWayMatch> {
+  await connectDB();
+
+  try {
+    const order = await getPurchaseOrderById(purchaseOrderId);
+    const [receipts, invoices] = await Promise.all([
+      findReceiptsForOrder(purchaseOrderId),
+      listSupplierInvoices(purchaseOrderId),
+    ]);
+
+    return computeThreeWayMatch(order, receipts, invoices);
+  } catch (error) {
+    if (isKnownReceivingError(error)) {
+      throw error;
+    }
+    logger.error('Error computing three-way match', {
+      purchaseOrderId,
+      error,
+    });
+    throw new Error('Failed to compute three-way match');
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Validate received lines against the purchase order
+ */
+function normalizeReceiptLines(
+  order: PurchaseOrder,
+  outstanding: Map<string, number>,
+  lines: GoodsReceiptLineInput[] | undefined
+) {
+  if (!Array.isArray(lines) || lines.length === 0) {
+    throw new ValidationError('At least one received line is required');
+  }
+
+  const orderItems = new Map(order.items.map((item) => [item.itemId, item]));
+  const seen = new Set<string>();
+
+  return lines.map((line) => {
+    const orderItem = orderItems.get(line.itemId);
+    if (!orderItem) {
+      throw new ValidationError(
+        `Item ${line.itemId} is not on purchase order ${order.poNumber}`
+      );
+    }
+    if (seen.has(line.itemId)) {
+      throw new ValidationError(
+        `Item ${orderItem.itemName} is listed more than once`
+      );
+    }
+    seen.add(line.itemId);
+
+    const quantityReceived = line.quantityReceived;
+    const quantityRejected = line.quantityRejected ?? 0;
+    if (!Number.isInteger(quantityReceived) || quantityReceived < 1) {
+      throw new ValidationError(
+        `Received quantity for ${orderItem.itemName} must be a positive whole number`
+      );
+    }
+    if (
+      !Number.isInteger(quantityRejected) ||
+      quantityRejected < 0 ||
+      quantityRejected > quantityReceived
+    ) {
+      throw new ValidationError(
+        `Rejected quantity for ${orderItem.itemName} must be between 0 and the received quantity`
+      );
+    }
+
+    if (
+      quantityRejected > 0 &&
+      !Object.values(ReceiptRejectionReason).includes(line.rejectionReason!)
+    ) {
+      throw new ValidationError(
+        `A rejection reason is required for ${orderItem.itemName}`
+      );
+    }
+
+    const accepted = quantityReceived - quantityRejected;
+    const remaining = outstanding.get(line.itemId) ?? 0;
+    if (accepted > remaining) {
+      throw new ValidationError(
+        `Cannot accept ${accepted} × ${orderItem.itemName}: only ${remaining} outstanding`
+      );
+    }
+
+    const note = line.note?.trim() || undefined;
+    if (note && note.length > MAX_RECEIPT_NOTE_LENGTH) {
+      throw new ValidationError(
+        `Note must not exceed ${MAX_RECEIPT_NOTE_LENGTH} characters`
+      );
+    }
+
+    return {
+      itemId: line.itemId,
+      name: orderItem.itemName,
+      quantityReceived,
+      quantityRejected,
+      rejectionReason: quantityRejected > 0 ? line.rejectionReason : undefined,
+      note,
+    };
+  });
+}
+
+/**
+ * Validate billed lines
+ */
+function normalizeInvoiceLines(lines: SupplierInvoiceLineInput[] | undefined) {
+  if (!Array.isArray(lines) || lines.length === 0) {
+    throw new ValidationError('At least one invoice line is required');
+  }
+
+  const seen = new Set<string>();
+
+  return lines.map((line) => {
+    if (!Types.ObjectId.isValid(line.itemId)) {
+      throw new ValidationError(`Invalid item ID: ${line.itemId}`);
+    }
+    if (seen.has(line.itemId)) {
+      throw new ValidationError(`Item ${line.itemId} is listed more than once`);
+    }
+    seen.add(line.itemId);
+
+    if (!Number.isInteger(line.quantity) || line.quantity < 1) {
+      throw new ValidationError(
+        'Invoiced quantity must be a positive whole number'
+      );
+    }
+    if (typeof line.unitPrice !== 'number' || line.unitPrice < 0) {
+      throw new ValidationError('Invoiced unit price must be non-negative');
+    }
+
+    return {
+      itemId: line.itemId,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      subtotal: roundCurrency(line.quantity * line.unitPrice),
+    };
+  });
+}
+
+/**
+ * Move the purchase order to the status implied by its receipts
+ * The receipt is already saved, so failures are logged rather than thrown.
+ */
+async function syncPurchaseOrderStatus(
+  order: PurchaseOrder,
+  receipts: GoodsReceipt[],
+  receipt: GoodsReceipt,
+  userId: string
+): Promise<void> {
+  const next = getStatusAfterReceipt(order, receipts);
+  if (!next) {
+    return;
+  }
+
+  try {
+    await updatePurchaseOrderStatus(
+      order.id,
+      next,
+      userId,
+      `Goods receipt ${receipt.receiptNumber}`
+    );
+  } catch (error) {
+    logger.error('Failed to update purchase order status after receipt', {
+      purchaseOrderId: order.id,
+      receiptNumber: receipt.receiptNumber,
+      status: next,
+      error,
+    });
+  }
+}
+
+/**
+ * Generate unique goods receipt number
+ * Format: GR-YYYY-####
+ */
+async function generateReceiptNumber(): Promise<string> {
+  const year = new Date().getFullYear();
+
+  // Find the last receipt number for this year
+  const lastReceipt = await GoodsReceiptModel.findOne({
+    receiptNumber: new RegExp(`^GR-${year}-`),
+  })
+    .sort({ createdAt: -1 })
+    .lean()
+    .exec();
+
+  let sequence = 1;
+  if (lastReceipt && lastReceipt.receiptNumber) {
+    const match = lastReceipt.receiptNumber.match(/GR-\d{4}-(\d{4})$/);
+    if (match) {
+      sequence = parseInt(match[1], 10) + 1;
+    }
+  }
+
+  const paddedSequence = sequence.toString().padStart(4, '0');
+  return `GR-${year}-${paddedSequence}`;
+}
+
+/**
+ * Fetch the receipts recorded for a purchase order
+ */
+async function findReceiptsForOrder(
+  purchaseOrderId: string
+): Promise<GoodsReceipt[]> {
+  const receipts = await GoodsReceiptModel.find({
+    purchaseOrderId: new Types.ObjectId(purchaseOrderId),
+  })
+    .sort({ receivedAt: 1 })
+    .lean()
+    .exec();
+
+  return receipts.map(mapGoodsReceiptToEntity);
+}
+
+/**
+ * Convert an ID filter to an ObjectId or throw a validation error
+ */
+function toObjectId(id: string, label: string): Types.ObjectId {
+  if (!Types.ObjectId.isValid(id)) {
+    throw new ValidationError(`Invalid ${label} ID`);
+  }
+  return new Types.ObjectId(id);
+}
+
+/**
+ * Round a currency amount to cents
+ */
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Errors that should propagate to the caller unchanged
+ * (purchase order lookup errors come from the purchase order service)
+ */
+function isKnownReceivingError(error: unknown): boolean {
+  return (
+    error instanceof ValidationError ||
+    error instanceof PurchaseOrderClosedError ||
+    error instanceof DuplicateInvoiceError ||
+    error instanceof PurchaseOrderNotFoundError ||
+    error instanceof PurchaseOrderValidationError
+  );
+}
@@ -0,0 +1,200 @@
+import { describe, expect, it } from 'vitest';
+
+import type {
+  GoodsReceiptLine,
+  PurchaseOrder,
+  SupplierInvoiceLine,
+} from '@/domain/entities';
+import { PurchaseOrderStatus, ThreeWayMatchStatus } from '@/domain/entities';
+
+import {
+  computeThreeWayMatch,
+  getOutstandingQuantities,
+  getStatusAfterReceipt,
+  summarizeReceipts,
+} from './three-way-match';
+
+const MONITOR_ID = '507f1f77bcf86cd799439021';
+const CABLE_ID = '507f1f77bcf86cd799439022';
+
+const order: Pick<PurchaseOrder, 'id' | 'poNumber' | 'items' | 'status'> = {
+  id: '507f1f77bcf86cd799439011',
+  poNumber: 'PO-2025-0001',
+  status: PurchaseOrderStatus.Issued,
+  items: [
+    {
+      itemId: MONITOR_ID,
+      itemName: 'Monitor',
+      itemCategory: 'Electronics',
+      itemDescription: '27 inch',
+      unitPrice: 150,
+      quantity: 4,
+      subtotal: 600,
+    },
+    {
+      itemId: CABLE_ID,
+      itemName: 'Cable',
+      itemCategory: 'Electronics',
+      itemDescription: 'HDMI',
+      unitPrice: 9.99,
+      quantity: 10,
+      subtotal: 99.9,
+    },
+  ],
+};
+
+function receipt(...lines: Partial<GoodsReceiptLine>[]) {
+  return {
+    lines: lines.map((line) => ({
+      itemId: MONITOR_ID,
+      itemName: 'Monitor',
+      quantityReceived: 0,
+      quantityRejected: 0,
+      ...line,
+    })),
+  };
+}
+
+function invoice(...lines: Omit<SupplierInvoiceLine, 'subtotal'>[]) {
+  return {
+    lines: lines.map((line) => ({
+      ...line,
+      subtotal: line.quantity * line.unitPrice,
+    })),
+  };
+}
+
+const fullReceipt = receipt(
+  { itemId: MONITOR_ID, quantityReceived: 4 },
+  { itemId: CABLE_ID, itemName: 'Cable', quantityReceived: 10 }
+);
+
+const fullInvoice = invoice(
+  { itemId: MONITOR_ID, quantity: 4, unitPrice: 150 },
+  { itemId: CABLE_ID, quantity: 10, unitPrice: 9.99 }
+);
+
+describe('three-way-match', () => {
+  describe('summarizeReceipts', () => {
+    it('should sum accepted and rejected units across receipts', () => {
+      const totals = summarizeReceipts([
+        receipt({ quantityReceived: 3, quantityRejected: 1 }),
+        receipt({ quantityReceived: 2 }),
+      ]);
+
+      expect(totals.get(MONITOR_ID)).toEqual({ accepted: 4, rejected: 1 });
+    });
+  });
+
+  describe('getOutstandingQuantities', () => {
+    it('should not count rejected units as received', () => {
+      const outstanding = getOutstandingQuantities(order, [
+        receipt({ quantityReceived: 4, quantityRejected: 2 }),
+      ]);
+
+      expect(outstanding.get(MONITOR_ID)).toBe(2);
+      expect(outstanding.get(CABLE_ID)).toBe(10);
+    });
+  });
+
+  describe('getStatusAfterReceipt', () => {
+    it('should mark the order partially received after a partial delivery', () => {
+      expect(
+        getStatusAfterReceipt(order, [receipt({ quantityReceived: 2 })])
+      ).toBe(PurchaseOrderStatus.PartiallyReceived);
+    });
+
+    it('should close the order once every line is fully received', () => {
+      expect(getStatusAfterReceipt(order, [fullReceipt])).toBe(
+        PurchaseOrderStatus.Closed
+      );
+    });
+
+    it('should leave the order unchanged when everything was rejected', () => {
+      expect(
+        getStatusAfterReceipt(order, [
+          receipt({ quantityReceived: 4, quantityRejected: 4 }),
+        ])
+      ).toBeNull();
+    });
+
+    it('should return null when the status would not change', () => {
+      expect(
+        getStatusAfterReceipt(
+          { ...order, status: PurchaseOrderStatus.PartiallyReceived },
+          [receipt({ quantityReceived: 1 })]
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('computeThreeWayMatch', () => {
+    it('should match when ordered, received and invoiced agree', () => {
+      const match = computeThreeWayMatch(order, [fullReceipt], [fullInvoice]);
+
+      expect(match.status).toBe(ThreeWayMatchStatus.Matched);
+      expect(match.lines.map((line) => line.status)).toEqual([
+        ThreeWayMatchStatus.Matched,
+        ThreeWayMatchStatus.Matched,
+      ]);
+      expect(match.lines[1].amountInvoiced).toBe(99.9);
+    });
+
+    it('should stay pending while receiving and invoicing are in progress', () => {
+      const match = computeThreeWayMatch(
+        order,
+        [receipt({ quantityReceived: 2 })],
+        [invoice({ itemId: MONITOR_ID, quantity: 2, unitPrice: 150 })]
+      );
+
+      expect(match.status).toBe(ThreeWayMatchStatus.Pending);
+    });
+
+    it('should flag invoices billing more than was received', () => {
+      const match = computeThreeWayMatch(
+        order,
+        [receipt({ quantityReceived: 4, quantityRejected: 1 })],
+        [invoice({ itemId: MONITOR_ID, quantity: 4, unitPrice: 150 })]
+      );
+
+      expect(match.lines[0]).toMatchObject({
+        quantityReceived: 3,
+        quantityRejected: 1,
+        quantityInvoiced: 4,
+        status: ThreeWayMatchStatus.QuantityMismatch,
+      });
+      expect(match.status).toBe(ThreeWayMatchStatus.QuantityMismatch);
+    });
+
+    it('should flag invoiced prices that differ from the PO', () => {
+      const match = computeThreeWayMatch(
+        order,
+        [fullReceipt],
+        [
+          invoice(
+            { itemId: MONITOR_ID, quantity: 4, unitPrice: 155 },
+            { itemId: CABLE_ID, quantity: 10, unitPrice: 9.99 }
+          ),
+        ]
+      );
+
+      expect(match.lines[0].status).toBe(ThreeWayMatchStatus.PriceMismatch);
+      expect(match.status).toBe(ThreeWayMatchStatus.PriceMismatch);
+    });
+
+    it('should flag invoice lines for items not on the order', () => {
+      const otherItemId = '507f1f77bcf86cd799439099';
+      const match = computeThreeWayMatch(
+        order,
+        [fullReceipt],
+        [
+          fullInvoice,
+          invoice({ itemId: otherItemId, quantity: 1, unitPrice: 5 }),
+        ]
+      );
+
+      expect(match.unmatchedInvoiceItemIds).toEqual([otherItemId]);
+      expect(match.status).toBe(ThreeWayMatchStatus.QuantityMismatch);
+    });
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Three-Way Match
+ *
+ * Pure logic comparing a purchase order with its goods receipts and
+ * supplier invoices:
+ * - Accepted / rejected quantities received per line
+ * - Outstanding quantities still to be received
+ * - Line and order match status (ordered vs. received vs. invoiced)
+ * - Purchase order status implied by receipts
+ *
+ * Kept free of database access so it can be unit tested.
+ */
+
+import type {
+  GoodsReceipt,
+  PurchaseOrder,
+  SupplierInvoice,
+  ThreeWayMatch,
+  ThreeWayMatchLine,
+} from '@/domain/entities';
+import { PurchaseOrderStatus, ThreeWayMatchStatus } from '@/domain/entities';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Largest invoiced vs. ordered unit price difference still treated as equal
+ * (absorbs rounding to cents)
+ */
+export const PRICE_MATCH_TOLERANCE = 0.01;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Received quantities for one item across receipts
+ */
+export interface ReceivedQuantities {
+  accepted: number;
+  rejected: number;
+}
+
+// ============================================================================
+// Receiving
+// ============================================================================
+
+/**
+ * Sum accepted and rejected quantities per item across receipts
+ */
+export function summarizeReceipts(
+  receipts: Pick<GoodsReceipt, 'lines'>[]
+): Map<string, ReceivedQuantities> {
+  const totals = new Map<string, ReceivedQuantities>();
+
+  for (const receipt of receipts) {
+    for (const line of receipt.lines) {
+      const current = totals.get(line.itemId) ?? { accepted: 0, rejected: 0 };
+      current.accepted += line.quantityReceived - line.quantityRejected;
+      current.rejected += line.quantityRejected;
+      totals.set(line.itemId, current);
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Quantities still to be received per purchase order line
+ * Rejected units don't count as received.
+ */
+export function getOutstandingQuantities(
+  order: Pick<PurchaseOrder, 'items'>,
+  receipts: Pick<GoodsReceipt, 'lines'>[]
+): Map<string, number> {
+  const received = summarizeReceipts(receipts);
+
+  return new Map(
+    order.items.map((item) => [
+      item.itemId,
+      Math.max(0, item.quantity - (received.get(item.itemId)?.accepted ?? 0)),
+    ])
+  );
+}
+
+/**
+ * Purchase order status implied by its receipts
+ * - Every line fully accepted → closed
+ * - Some units accepted → partially received
+ *
+ * @returns The status to move to, or null if the order should stay as is
+ */
+export function getStatusAfterReceipt(
+  order: Pick<PurchaseOrder, 'items' | 'status'>,
+  receipts: Pick<GoodsReceipt, 'lines'>[]
+): PurchaseOrderStatus | null {
+  const outstanding = getOutstandingQuantities(order, receipts);
+  const received = summarizeReceipts(receipts);
+
+  const fullyReceived = [...outstanding.values()].every((qty) => qty === 0);
+  const anyAccepted = [...received.values()].some((qty) => qty.accepted > 0);
+
+  const next = fullyReceived
+    ? PurchaseOrderStatus.Closed
+    : anyAccepted
+      ? PurchaseOrderStatus.PartiallyReceived
+      : null;
+
+  return next && next !== order.status ? next : null;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Match one purchase order line
+ * - Price mismatch: any invoiced unit price differs from the PO price
+ * - Quantity mismatch: received or invoiced more than ordered,
+ *   or invoiced more than received
+ * - Matched: ordered, received and invoiced quantities are all equal
+ * - Otherwise pending (receiving / invoicing still in progress)
+ */
+export function matchLine(
+  line: Omit<ThreeWayMatchLine, 'status'>,
+  invoicedPrices: number[]
+): ThreeWayMatchStatus {
+  if (
+    invoicedPrices.some(
+      (price) => Math.abs(price - line.unitPrice) > PRICE_MATCH_TOLERANCE
+    )
+  ) {
+    return ThreeWayMatchStatus.PriceMismatch;
+  }
+
+  if (
+    line.quantityReceived > line.quantityOrdered ||
+    line.quantityInvoiced > line.quantityOrdered ||
+    line.quantityInvoiced > line.quantityReceived
+  ) {
+    return ThreeWayMatchStatus.QuantityMismatch;
+  }
+
+  if (
+    line.quantityReceived === line.quantityOrdered &&
+    line.quantityInvoiced === line.quantityOrdered
+  ) {
+    return ThreeWayMatchStatus.Matched;
+  }
+
+  return ThreeWayMatchStatus.Pending;
+}
+
+/**
+ * Compute the three-way match for a purchase order
+ * The order is matched only when every line is matched; any price
+ * mismatch outranks quantity mismatches, which outrank pending lines.
+ * Invoice lines for items not on the order are a quantity mismatch.
+ */
+export function computeThreeWayMatch(
+  order: Pick<PurchaseOrder, 'id' | 'poNumber' | 'items'>,
+  receipts: Pick<GoodsReceipt, 'lines'>[],
+  invoices: Pick<SupplierInvoice, 'lines'>[]
+): ThreeWayMatch {
+  const received = summarizeReceipts(receipts);
+  const orderedItemIds = new Set(order.items.map((item) => item.itemId));
+
+  const lines: ThreeWayMatchLine[] = order.items.map((item) => {
+    const invoiceLines = invoices.flatMap((invoice) =>
+      invoice.lines.filter((line) => line.itemId === item.itemId)
+    );
+
+    const line = {
+      itemId: item.itemId,
+      itemName: item.itemName,
+      quantityOrdered: item.quantity,
+      unitPrice: item.unitPrice,
+      quantityReceived: received.get(item.itemId)?.accepted ?? 0,
+      quantityRejected: received.get(item.itemId)?.rejected ?? 0,
+      quantityInvoiced: invoiceLines.reduce(
+        (sum, invoiceLine) => sum + invoiceLine.quantity,
+        0
+      ),
+      amountInvoiced: roundCurrency(
+        invoiceLines.reduce((sum, invoiceLine) => sum + invoiceLine.subtotal, 0)
+      ),
+    };
+
+    return {
+      ...line,
+      status: matchLine(
+        line,
+        invoiceLines.map((invoiceLine) => invoiceLine.unitPrice)
+      ),
+    };
+  });
+
+  const unmatchedInvoiceItemIds = [
+    ...new Set(
+      invoices.flatMap((invoice) =>
+        invoice.lines
+          .map((line) => line.itemId)
+          .filter((itemId) => !orderedItemIds.has(itemId))
+      )
+    ),
+  ];
+
+  return {
+    purchaseOrderId: order.id,
+    poNumber: order.poNumber,
+    status: combineStatuses(
+      lines.map((line) => line.status),
+      unmatchedInvoiceItemIds.length > 0
+    ),
+    lines,
+    unmatchedInvoiceItemIds,
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Roll line statuses up to an order status
+ */
+function combineStatuses(
+  statuses: ThreeWayMatchStatus[],
+  hasUnmatchedInvoiceLines: boolean
+): ThreeWayMatchStatus {
+  if (statuses.includes(ThreeWayMatchStatus.PriceMismatch)) {
+    return ThreeWayMatchStatus.PriceMismatch;
+  }
+  if (
+    hasUnmatchedInvoiceLines ||
+    statuses.includes(ThreeWayMatchStatus.QuantityMismatch)
+  ) {
+    return ThreeWayMatchStatus.QuantityMismatch;
+  }
+  if (statuses.every((status) => status === ThreeWayMatchStatus.Matched)) {
+    return ThreeWayMatchStatus.Matched;
+  }
+  return ThreeWayMatchStatus.Pending;
+}
+
+/**
+ * Round a currency amount to cents
+ */
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
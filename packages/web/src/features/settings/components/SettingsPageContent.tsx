@@ -9,6 +9,7 @@ import {
   Trash2,
   User,
   BarChart,
+  Wallet,
 } from 'lucide-react';
 import { useSession } from 'next-auth/react';
 import { useTheme } from 'next-themes';
@@ -48,6 +49,7 @@ import {
 import { Input } from '@/components/ui/input';
 import { Separator } from '@/components/ui/separator';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { BudgetBurnDownCharts } from '@/features/budgets/components/BudgetBurnDownCharts';
 import type { ConversationSummary } from '@/features/settings';
 import { TokenUsageCharts } from '@/features/settings/components/TokenUsageCharts';
 
@@ -64,7 +66,8 @@ type ProfileForm = z.infer<typeof profileSchema>;
 
 /**
  * SettingsPageContent component
- * Displays user settings with tabs for Profile, Theme, and Conversations
+ * Displays user settings with tabs for Profile, Theme, Conversations,
+ * Analytics, and Budgets
  */
 export function SettingsPageContent() {
   const { data: session, update: updateSession } = useSession();
@@ -72,6 +75,11 @@ export function SettingsPageContent() {
   const [isDeletingConversations, setIsDeletingConversations] = useState(false);
   const [conversations, setConversations] = useState<ConversationSummary[]>([]);
   const [conversationsLoaded, setConversationsLoaded] = useState(false);
+  const [conversationsCursor, setConversationsCursor] = useState<string | null>(
+    null
+  );
+  const [isLoadingMoreConversations, setIsLoadingMoreConversations] =
+    useState(false);
 
   const form = useForm<ProfileForm>({
     resolver: zodResolver(profileSchema),
@@ -102,6 +110,7 @@ export function SettingsPageContent() {
       }
       const data = await response.json();
       setConversations(data.conversations || []);
+      setConversationsCursor(data.hasMore ? data.nextCursor : null);
       setConversationsLoaded(true);
     } catch (error) {
       console.error('Error loading conversations:', error);
@@ -109,6 +118,31 @@ export function SettingsPageContent() {
     }
   };
 
+  // Load the next page of conversations
+  const handleLoadMoreConversations = async () => {
+    if (!conversationsCursor) {
+      return;
+    }
+
+    setIsLoadingMoreConversations(true);
+    try {
+      const response = await fetch(
+        `/api/settings/conversations?cursor=${encodeURIComponent(conversationsCursor)}`
+      );
+      if (!response.ok) {
+        throw new Error('Failed to load conversations');
+      }
+      const data = await response.json();
+      setConversations((prev) => [...prev, ...(data.conversations || [])]);
+      setConversationsCursor(data.hasMore ? data.nextCursor : null);
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+      toast.error('Failed to load conversations');
+    } finally {
+      setIsLoadingMoreConversations(false);
+    }
+  };
+
   // Update user name
   async function onSubmit(data: ProfileForm) {
     try {
@@ -183,6 +217,7 @@ export function SettingsPageContent() {
 
       const data = await response.json();
       setConversations([]);
+      setConversationsCursor(null);
       toast.success(
         `Deleted ${data.count} conversation${data.count === 1 ? '' : 's'}`
       );
@@ -237,6 +272,10 @@ export function SettingsPageContent() {
               <BarChart className='h-4 w-4 mr-2' />
               Analytics
             </TabsTrigger>
+            <TabsTrigger value='budgets' className='shrink-0'>
+              <Wallet className='h-4 w-4 mr-2' />
+              Budgets
+            </TabsTrigger>
           </TabsList>
         </div>
 
@@ -312,6 +351,21 @@ export function SettingsPageContent() {
           </Card>
         </TabsContent>
 
+        {/* Budgets Tab */}
+        <TabsContent value='budgets' className='space-y-4'>
+          <Card className='py-6'>
+            <CardHeader>
+              <CardTitle>Budgets</CardTitle>
+              <CardDescription>
+                Department budget spend and burn-down for the current period
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <BudgetBurnDownCharts />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         {/* Theme Tab */}
         <TabsContent value='theme' className='space-y-4'>
           <Card className='py-6'>
@@ -402,6 +456,20 @@ export function SettingsPageContent() {
                     ))}
                   </div>
 
+                  {conversationsCursor && (
+                    <Button
+                      variant='outline'
+                      onClick={handleLoadMoreConversations}
+                      disabled={isLoadingMoreConversations}
+                      className='w-full'
+                    >
+                      {isLoadingMoreConversations && (
+                        <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+                      )}
+                      Load more
+                    </Button>
+                  )}
+
                   <Separator />
 
                   <AlertDialog>
@@ -7,6 +7,12 @@
 
 import type { UserDocument } from '@/domain/documents';
 import type { User } from '@/domain/entities';
+import type { Page, PageParams } from '@/lib/api/pagination';
+import {
+  buildCursorFilter,
+  DEFAULT_PAGE_LIMIT,
+  toPage,
+} from '@/lib/api/pagination';
 import {
   UserModel,
   AgentConversationModel,
@@ -112,32 +118,50 @@ export async function updateUserName(
 }
 
 /**
- * List all conversations for a user
+ * List conversations for a user (most recent first, cursor-paginated)
  *
  * @param userId - User ID
- * @returns Array of conversation summaries
+ * @param page - Page cursor and size (default 20)
+ * @returns Page of conversation summaries
+ * @throws {InvalidCursorError} if the cursor is invalid
  */
 export async function listUserConversations(
-  userId: string
-): Promise<ConversationSummary[]> {
+  userId: string,
+  page: PageParams = {}
+): Promise<Page<ConversationSummary>> {
   await connectDB();
 
+  const { cursor, limit = DEFAULT_PAGE_LIMIT } = page;
+  const cursorFilter = buildCursorFilter(cursor, 'updatedAt', -1);
+
   try {
     // Check if userId is a valid ObjectId (24 character hex string)
     const isValidObjectId = /^[0-9a-fA-F]{24}$/.test(userId);
 
     if (!isValidObjectId) {
       // If userId is not a valid ObjectId (e.g., demo user with id "1"),
-      // return empty array instead of querying
-      return [];
+      // return an empty page instead of querying
+      return { items: [], nextCursor: null, hasMore: false };
     }
 
-    const conversations = await AgentConversationModel.find({ userId })
-      .sort({ updatedAt: -1 })
+    const conversations = await AgentConversationModel.find({
+      userId,
+      ...cursorFilter,
+    })
+      .sort({ updatedAt: -1, _id: -1 })
+      .limit(limit + 1)
       .lean()
       .exec();
 
-    return conversations.map(mapConversationToSummary);
+    return toPage(
+      conversations.map(mapConversationToSummary),
+      limit,
+      (conversation) => ({
+        field: 'updatedAt',
+        value: conversation.updatedAt,
+        id: conversation.id,
+      })
+    );
   } catch (error) {
     logger.error('Error listing conversations', { userId, error });
     throw new Error('Failed to list conversations');
@@ -0,0 +1,133 @@
+'use client';
+
+import { Truck } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { SupplierStatus } from '@/domain/entities';
+
+import type { ItemSupplierOfferDetail } from '../lib/supplier.service';
+
+/**
+ * ItemSupplierOffers component
+ * Lists the suppliers offering a catalog item, cheapest first
+ * - Supplier-specific price, SKU and lead time
+ * - Blocked suppliers are shown but flagged
+ */
+
+interface ItemSupplierOffersProps {
+  itemId: string;
+}
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+export function ItemSupplierOffers({ itemId }: ItemSupplierOffersProps) {
+  const [offers, setOffers] = useState<ItemSupplierOfferDetail[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let mounted = true;
+
+    async function load() {
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/items/${itemId}/suppliers`);
+        if (!res.ok) {
+          throw new Error('Failed to fetch item suppliers');
+        }
+        const data = await res.json();
+        if (mounted) {
+          setOffers(data.data || []);
+        }
+      } catch (err) {
+        console.error('Error loading item suppliers:', err);
+        if (mounted) {
+          setOffers([]);
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    }
+
+    load();
+
+    return () => {
+      mounted = false;
+    };
+  }, [itemId]);
+
+  if (loading) {
+    return (
+      <div className='space-y-2'>
+        <div className='h-5 w-24 bg-muted rounded animate-pulse' />
+        <div className='h-4 w-full bg-muted rounded animate-pulse' />
+      </div>
+    );
+  }
+
+  const activeCount = offers.filter(
+    (offer) => offer.supplier.status === SupplierStatus.Active
+  ).length;
+
+  return (
+    <div>
+      <h2 className='text-lg font-semibold text-foreground mb-3'>Suppliers</h2>
+      {offers.length === 0 ? (
+        <p className='text-sm text-muted-foreground'>
+          No suppliers are linked to this item yet
+        </p>
+      ) : (
+        <>
+          <p className='text-sm text-muted-foreground mb-3 flex items-center gap-1'>
+            <Truck className='h-4 w-4' />
+            Available from {activeCount}{' '}
+            {activeCount === 1 ? 'supplier' : 'suppliers'}
+          </p>
+          <div className='divide-y divide-border rounded-lg border'>
+            {offers.map((offer) => {
+              const leadTime =
+                offer.leadTimeDays ?? offer.supplier.leadTimeDays;
+              return (
+                <div
+                  key={offer.supplierId}
+                  className='flex items-center justify-between gap-4 p-3'
+                >
+                  <div className='min-w-0'>
+                    <div className='flex items-center gap-2'>
+                      <span className='font-medium text-foreground truncate'>
+                        {offer.supplier.name}
+                      </span>
+                      {offer.supplier.status === SupplierStatus.Blocked && (
+                        <Badge variant='destructive'>Blocked</Badge>
+                      )}
+                    </div>
+                    <div className='text-xs text-muted-foreground'>
+                      {offer.supplierSku && (
+                        <span>SKU {offer.supplierSku}</span>
+                      )}
+                      {offer.supplierSku && leadTime !== undefined && ' · '}
+                      {leadTime !== undefined && (
+                        <span>
+                          {leadTime} {leadTime === 1 ? 'day' : 'days'} lead time
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className='font-semibold text-foreground'>
+                    {formatCurrency(offer.unitPrice)}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
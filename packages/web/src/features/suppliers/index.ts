@@ -0,0 +1,7 @@
+/**
+ * Suppliers Feature
+ * Supplier (vendor) master data and item supplier offers
+ */
+
+export * from './lib/supplier.service';
+export { ItemSupplierOffers } from './components/ItemSupplierOffers';
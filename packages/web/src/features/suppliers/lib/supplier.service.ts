@@ -0,0 +1,454 @@
+/**
+ * Supplier Service
+ *
+ * Business logic for supplier (vendor) master data:
+ * - List, create, update and delete suppliers
+ * - Block / unblock suppliers for new orders
+ * - Resolve an item's supplier offers with supplier details
+ *
+ * Catalog items link to suppliers through embedded supplier offers,
+ * so a supplier referenced by items cannot be deleted (block it instead).
+ */
+
+import { Types } from 'mongoose';
+
+import type {
+  ItemSupplierOffer,
+  Supplier,
+  SupplierContact,
+} from '@/domain/entities';
+import { SupplierPaymentTerms, SupplierStatus } from '@/domain/entities';
+import { invalidateSearchCache } from '@/lib/cache/searchCache';
+import { mapItemToEntity, mapSupplierToEntity } from '@/lib/db/mappers';
+import {
+  ItemModel,
+  MAX_SUPPLIER_NAME_LENGTH,
+  SupplierModel,
+} from '@/lib/db/models';
+import connectDB from '@/lib/db/mongoose';
+import { logger } from '@/lib/logger/winston.config';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Input for creating a supplier
+ */
+export interface CreateSupplierInput {
+  name: string;
+  contact?: SupplierContact;
+  address?: string;
+  website?: string;
+  taxId?: string;
+  paymentTerms?: SupplierPaymentTerms;
+  leadTimeDays?: number;
+  status?: SupplierStatus;
+  blockedReason?: string;
+  notes?: string;
+}
+
+/**
+ * Input for updating a supplier (all fields optional)
+ */
+export type UpdateSupplierInput = Partial<CreateSupplierInput>;
+
+/**
+ * Filters for listing suppliers
+ */
+export interface SupplierFilters {
+  /** Case-insensitive match on name or tax ID */
+  q?: string;
+  status?: SupplierStatus;
+}
+
+/**
+ * Supplier offer for an item, joined with its supplier
+ */
+export interface ItemSupplierOfferDetail extends ItemSupplierOffer {
+  supplier: Supplier;
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+export class SupplierNotFoundError extends Error {
+  constructor(supplierId: string) {
+    super(`Supplier not found: ${supplierId}`);
+    this.name = 'SupplierNotFoundError';
+  }
+}
+
+export class SupplierInUseError extends Error {
+  constructor(
+    supplierId: string,
+    public readonly itemCount: number
+  ) {
+    super(
+      `Supplier ${supplierId} is offered on ${itemCount} catalog item(s). Block the supplier instead of deleting it.`
+    );
+    this.name = 'SupplierInUseError';
+  }
+}
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+/**
+ * List suppliers
+ *
+ * @param filters - Optional search / status filters
+ * @returns Suppliers sorted by name
+ */
+export async function listSuppliers(
+  filters: SupplierFilters = {}
+): Promise<Supplier[]> {
+  await connectDB();
+
+  try {
+    const query: Record<string, unknown> = {};
+    if (filters.status) {
+      query.status = filters.status;
+    }
+    if (filters.q?.trim()) {
+      const pattern = new RegExp(escapeRegExp(filters.q.trim()), 'i');
+      query.$or = [{ name: pattern }, { taxId: pattern }];
+    }
+
+    const suppliers = await SupplierModel.find(query)
+      .sort({ name: 1 })
+      .lean()
+      .exec();
+
+    return suppliers.map(mapSupplierToEntity);
+  } catch (error) {
+    logger.error('Error listing suppliers', { filters, error });
+    throw new Error('Failed to list suppliers');
+  }
+}
+
+/**
+ * Get a supplier by ID
+ *
+ * @throws {SupplierNotFoundError} if the supplier does not exist
+ */
+export async function getSupplierById(supplierId: string): Promise<Supplier> {
+  await connectDB();
+
+  try {
+    return await findSupplierOrThrow(supplierId);
+  } catch (error) {
+    if (isKnownSupplierError(error)) {
+      throw error;
+    }
+    logger.error('Error fetching supplier', { supplierId, error });
+    throw new Error('Failed to fetch supplier');
+  }
+}
+
+/**
+ * Create a supplier
+ * Supplier names are unique (case-insensitive).
+ */
+export async function createSupplier(
+  input: CreateSupplierInput
+): Promise<Supplier> {
+  await connectDB();
+
+  try {
+    const data = normalizeSupplierInput(input);
+    await assertUniqueName(data.name);
+
+    const supplier = await SupplierModel.create(data);
+
+    logger.info('Supplier created', {
+      supplierId: supplier._id.toString(),
+      name: data.name,
+    });
+
+    return mapSupplierToEntity(supplier.toObject());
+  } catch (error) {
+    if (isKnownSupplierError(error)) {
+      throw error;
+    }
+    logger.error('Error creating supplier', { input, error });
+    throw new Error('Failed to create supplier');
+  }
+}
+
+/**
+ * Update a supplier
+ * Blocking or unblocking a supplier changes catalog supplier counts,
+ * so the search cache is invalidated on every update.
+ *
+ * @throws {SupplierNotFoundError} if the supplier does not exist
+ */
+export async function updateSupplier(
+  supplierId: string,
+  input: UpdateSupplierInput
+): Promise<Supplier> {
+  await connectDB();
+
+  try {
+    const existing = await findSupplierOrThrow(supplierId);
+    const data = normalizeSupplierInput({
+      ...existing,
+      ...input,
+      contact: { ...existing.contact, ...input.contact },
+    });
+
+    if (data.name.toLowerCase() !== existing.name.toLowerCase()) {
+      await assertUniqueName(data.name, supplierId);
+    }
+
+    // Cleared optional fields are unset rather than set to undefined
+    const entries = Object.entries(data);
+    const set = Object.fromEntries(
+      entries.filter(([, value]) => value !== undefined)
+    );
+    const unset = Object.fromEntries(
+      entries
+        .filter(([, value]) => value === undefined)
+        .map(([key]) => [key, ''])
+    );
+
+    const updated = await SupplierModel.findByIdAndUpdate(
+      supplierId,
+      { $set: set, ...(Object.keys(unset).length > 0 && { $unset: unset }) },
+      { new: true, runValidators: true }
+    )
+      .lean()
+      .exec();
+
+    if (!updated) {
+      throw new SupplierNotFoundError(supplierId);
+    }
+
+    invalidateSearchCache();
+
+    if (existing.status !== data.status) {
+      logger.info('Supplier status changed', {
+        supplierId,
+        from: existing.status,
+        to: data.status,
+      });
+    }
+
+    return mapSupplierToEntity(updated);
+  } catch (error) {
+    if (isKnownSupplierError(error)) {
+      throw error;
+    }
+    logger.error('Error updating supplier', { supplierId, input, error });
+    throw new Error('Failed to update supplier');
+  }
+}
+
+/**
+ * Delete a supplier
+ *
+ * @throws {SupplierNotFoundError} if the supplier does not exist
+ * @throws {SupplierInUseError} if catalog items still reference it
+ */
+export async function deleteSupplier(supplierId: string): Promise<void> {
+  await connectDB();
+
+  try {
+    await findSupplierOrThrow(supplierId);
+
+    const itemCount = await ItemModel.countDocuments({
+      'suppliers.supplierId': new Types.ObjectId(supplierId),
+    }).exec();
+
+    if (itemCount > 0) {
+      throw new SupplierInUseError(supplierId, itemCount);
+    }
+
+    await SupplierModel.findByIdAndDelete(supplierId).exec();
+
+    logger.info('Supplier deleted', { supplierId });
+  } catch (error) {
+    if (isKnownSupplierError(error)) {
+      throw error;
+    }
+    logger.error('Error deleting supplier', { supplierId, error });
+    throw new Error('Failed to delete supplier');
+  }
+}
+
+/**
+ * Get an item's supplier offers with supplier details
+ * Offers are sorted by unit price (cheapest first); offers whose
+ * supplier no longer exists are skipped.
+ *
+ * @returns Offers, or null if the item does not exist
+ */
+export async function getItemSupplierOffers(
+  itemId: string
+): Promise<ItemSupplierOfferDetail[] | null> {
+  await connectDB();
+
+  try {
+    if (!Types.ObjectId.isValid(itemId)) {
+      throw new ValidationError('Invalid item ID');
+    }
+
+    const doc = await ItemModel.findById(itemId).lean().exec();
+    if (!doc) {
+      return null;
+    }
+
+    const item = mapItemToEntity(doc);
+    const suppliers = await SupplierModel.find({
+      _id: { $in: item.suppliers.map((offer) => offer.supplierId) },
+    })
+      .lean()
+      .exec();
+    const supplierMap = new Map(
+      suppliers.map((supplier) => [
+        supplier._id.toString(),
+        mapSupplierToEntity(supplier),
+      ])
+    );
+
+    return item.suppliers
+      .filter((offer) => supplierMap.has(offer.supplierId))
+      .map((offer) => ({
+        ...offer,
+        supplier: supplierMap.get(offer.supplierId)!,
+      }))
+      .sort((a, b) => a.unitPrice - b.unitPrice);
+  } catch (error) {
+    if (isKnownSupplierError(error)) {
+      throw error;
+    }
+    logger.error('Error fetching item supplier offers', { itemId, error });
+    throw new Error('Failed to fetch item suppliers');
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Validate and normalize create/update input
+ */
+function normalizeSupplierInput(input: UpdateSupplierInput) {
+  const name = input.name?.trim();
+  if (!name) {
+    throw new ValidationError('Supplier name is required');
+  }
+  if (name.length > MAX_SUPPLIER_NAME_LENGTH) {
+    throw new ValidationError(
+      `Supplier name must not exceed ${MAX_SUPPLIER_NAME_LENGTH} characters`
+    );
+  }
+
+  const paymentTerms = input.paymentTerms ?? SupplierPaymentTerms.Net30;
+  if (!Object.values(SupplierPaymentTerms).includes(paymentTerms)) {
+    throw new ValidationError(`Invalid payment terms: ${paymentTerms}`);
+  }
+
+  const status = input.status ?? SupplierStatus.Active;
+  if (!Object.values(SupplierStatus).includes(status)) {
+    throw new ValidationError(`Invalid supplier status: ${status}`);
+  }
+
+  if (
+    input.leadTimeDays !== undefined &&
+    input.leadTimeDays !== null &&
+    (!Number.isInteger(input.leadTimeDays) || input.leadTimeDays < 0)
+  ) {
+    throw new ValidationError('Lead time must be a non-negative whole number');
+  }
+
+  const email = input.contact?.email?.trim().toLowerCase() || undefined;
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new ValidationError('Invalid contact email');
+  }
+
+  return {
+    name,
+    contact: {
+      name: input.contact?.name?.trim() || undefined,
+      email,
+      phone: input.contact?.phone?.trim() || undefined,
+    },
+    address: input.address?.trim() || undefined,
+    website: input.website?.trim() || undefined,
+    taxId: input.taxId?.trim() || undefined,
+    paymentTerms,
+    leadTimeDays: input.leadTimeDays ?? undefined,
+    status,
+    // Only keep the reason while the supplier is blocked
+    blockedReason:
+      status === SupplierStatus.Blocked
+        ? input.blockedReason?.trim() || undefined
+        : undefined,
+    notes: input.notes?.trim() || undefined,
+  };
+}
+
+/**
+ * Reject a supplier name already used by another supplier
+ */
+async function assertUniqueName(
+  name: string,
+  excludeSupplierId?: string
+): Promise<void> {
+  const existing = await SupplierModel.findOne({
+    name: new RegExp(`^${escapeRegExp(name)}$`, 'i'),
+    ...(excludeSupplierId && { _id: { $ne: excludeSupplierId } }),
+  })
+    .lean()
+    .exec();
+
+  if (existing) {
+    throw new ValidationError(`A supplier named "${name}" already exists`);
+  }
+}
+
+/**
+ * Fetch a supplier or throw a not-found error
+ */
+async function findSupplierOrThrow(supplierId: string): Promise<Supplier> {
+  if (!Types.ObjectId.isValid(supplierId)) {
+    throw new ValidationError('Invalid supplier ID');
+  }
+
+  const supplier = await SupplierModel.findById(supplierId).lean().exec();
+
+  if (!supplier) {
+    throw new SupplierNotFoundError(supplierId);
+  }
+
+  return mapSupplierToEntity(supplier);
+}
+
+/**
+ * Escape user input for use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Errors that should propagate to the caller unchanged
+ */
+function isKnownSupplierError(error: unknown): boolean {
+  return (
+    error instanceof ValidationError ||
+    error instanceof SupplierNotFoundError ||
+    error instanceof SupplierInUseError
+  );
+}
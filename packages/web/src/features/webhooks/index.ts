@@ -0,0 +1,9 @@
+/**
+ * Webhooks Feature
+ * Outbound webhooks: endpoint registration, signed event delivery,
+ * delivery log, retries and manual redelivery
+ */
+
+export * from './lib/webhook-delivery';
+export * from './lib/webhook-config';
+export * from './lib/webhook.service';
@@ -0,0 +1,31 @@
+/**
+ * Webhook Configuration
+ *
+ * Delivery settings from environment variables:
+ * - WEBHOOK_MAX_ATTEMPTS: attempts before a delivery is marked failed
+ * - WEBHOOK_TIMEOUT_MS: how long to wait for an endpoint to respond
+ */
+
+import { DEFAULT_WEBHOOK_MAX_ATTEMPTS } from './webhook-delivery';
+
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Attempts allowed before a delivery is marked failed
+ */
+export function getWebhookMaxAttempts(): number {
+  const value = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '', 10);
+  return Number.isInteger(value) && value > 0
+    ? value
+    : DEFAULT_WEBHOOK_MAX_ATTEMPTS;
+}
+
+/**
+ * Endpoint response timeout in milliseconds
+ */
+export function getWebhookTimeoutMs(): number {
+  const value = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '', 10);
+  return Number.isInteger(value) && value > 0
+    ? value
+    : DEFAULT_WEBHOOK_TIMEOUT_MS;
+}
@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { WebhookDeliveryStatus, WebhookEventType } from '@/domain/entities';
+
+import {
+  isWebhookEventType,
+  planWebhookRetry,
+  signWebhookPayload,
+  subscriptionMatchesEvent,
+  verifyWebhookSignature,
+  WEBHOOK_RETRY_BASE_DELAY_MS,
+  WEBHOOK_RETRY_MAX_DELAY_MS,
+} from './webhook-delivery';
+
+describe('webhook-delivery', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('isWebhookEventType', () => {
+    it('should accept known event types only', () => {
+      expect(isWebhookEventType('item.created')).toBe(true);
+      expect(isWebhookEventType('item.deleted')).toBe(true);
+      expect(isWebhookEventType('item.archived')).toBe(false);
+      expect(isWebhookEventType(undefined)).toBe(false);
+    });
+  });
+
+  describe('subscriptionMatchesEvent', () => {
+    const subscription = {
+      active: true,
+      events: [WebhookEventType.ItemCreated, WebhookEventType.ItemUpdated],
+    };
+
+    it('should match subscribed events of active subscriptions', () => {
+      expect(
+        subscriptionMatchesEvent(subscription, WebhookEventType.ItemUpdated)
+      ).toBe(true);
+      expect(
+        subscriptionMatchesEvent(
+          subscription,
+          WebhookEventType.PurchaseRequestCreated
+        )
+      ).toBe(false);
+    });
+
+    it('should never match inactive subscriptions', () => {
+      expect(
+        subscriptionMatchesEvent(
+          { ...subscription, active: false },
+          WebhookEventType.ItemCreated
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('signWebhookPayload / verifyWebhookSignature', () => {
+    const body = JSON.stringify({ id: 'evt_1', type: 'item.created' });
+    const secret = 'whsec_test';
+    const timestamp = 1_740_000_000;
+
+    it('should produce a timestamped HMAC-SHA256 signature', () => {
+      const header = signWebhookPayload(body, secret, timestamp);
+
+      expect(header).toMatch(/^t=1740000000,v1=[0-9a-f]{64}$/);
+      expect(signWebhookPayload(body, secret, timestamp)).toBe(header);
+    });
+
+    it('should verify a valid signature', () => {
+      const header = signWebhookPayload(body, secret, timestamp);
+
+      expect(
+        verifyWebhookSignature(body, header, secret, 300, timestamp + 10)
+      ).toBe(true);
+    });
+
+    it('should reject a tampered body or wrong secret', () => {
+      const header = signWebhookPayload(body, secret, timestamp);
+
+      expect(
+        verifyWebhookSignature(`${body} `, header, secret, 300, timestamp)
+      ).toBe(false);
+      expect(
+        verifyWebhookSignature(body, header, 'whsec_other', 300, timestamp)
+      ).toBe(false);
+    });
+
+    it('should reject stale or malformed signatures', () => {
+      const header = signWebhookPayload(body, secret, timestamp);
+
+      expect(
+        verifyWebhookSignature(body, header, secret, 300, timestamp + 301)
+      ).toBe(false);
+      expect(verifyWebhookSignature(body, 'v1=abc', secret)).toBe(false);
+    });
+  });
+
+  describe('planWebhookRetry', () => {
+    const now = new Date('2025-03-02T10:00:00Z');
+
+    it('should reschedule failures with exponential backoff', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5); // no jitter
+
+      expect(planWebhookRetry(1, 6, now)).toEqual({
+        status: WebhookDeliveryStatus.Pending,
+        nextAttemptAt: new Date(now.getTime() + WEBHOOK_RETRY_BASE_DELAY_MS),
+      });
+      expect(planWebhookRetry(3, 6, now).nextAttemptAt).toEqual(
+        new Date(now.getTime() + WEBHOOK_RETRY_BASE_DELAY_MS * 4)
+      );
+    });
+
+    it('should cap the delay', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(planWebhookRetry(20, 30, now).nextAttemptAt).toEqual(
+        new Date(now.getTime() + WEBHOOK_RETRY_MAX_DELAY_MS)
+      );
+    });
+
+    it('should give up after the maximum number of attempts', () => {
+      expect(planWebhookRetry(6, 6, now)).toEqual({
+        status: WebhookDeliveryStatus.Failed,
+      });
+    });
+  });
+});
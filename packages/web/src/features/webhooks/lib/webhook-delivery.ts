@@ -0,0 +1,165 @@
+/**
+ * Webhook Delivery Logic
+ *
+ * Pure functions for outbound webhooks: signing payloads, matching
+ * subscriptions to events and scheduling retries. No database or network
+ * access, so the rules are easy to test.
+ *
+ * Signature scheme (header X-ProcureFlow-Signature):
+ *   t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+ * Receivers recompute the HMAC with their secret and reject stale
+ * timestamps to prevent replays.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+import type { WebhookSubscription } from '@/domain/entities';
+import { WebhookDeliveryStatus, WebhookEventType } from '@/domain/entities';
+import { calculateRetryDelay } from '@/lib/reliability/retry';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-ProcureFlow-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-ProcureFlow-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-ProcureFlow-Delivery';
+
+/** Default number of attempts before a delivery is marked failed */
+export const DEFAULT_WEBHOOK_MAX_ATTEMPTS = 6;
+
+/** First retry delay (doubles per attempt) */
+export const WEBHOOK_RETRY_BASE_DELAY_MS = 10_000;
+
+/** Longest delay between two attempts */
+export const WEBHOOK_RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/** Claims older than this are considered abandoned by a crashed worker */
+export const WEBHOOK_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Default age after which receivers should reject a signature */
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What to do with a delivery after a failed attempt
+ */
+export interface WebhookRetryDecision {
+  status: WebhookDeliveryStatus.Pending | WebhookDeliveryStatus.Failed;
+
+  /** Next attempt time (only when the delivery stays pending) */
+  nextAttemptAt?: Date;
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Whether a value is a known webhook event type
+ */
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return Object.values(WebhookEventType).includes(value as WebhookEventType);
+}
+
+/**
+ * Whether a subscription should receive an event
+ */
+export function subscriptionMatchesEvent(
+  subscription: Pick<WebhookSubscription, 'active' | 'events'>,
+  type: WebhookEventType
+): boolean {
+  return subscription.active && subscription.events.includes(type);
+}
+
+/**
+ * Build the signature header value for a request body
+ *
+ * @param body - Raw JSON body exactly as sent
+ * @param secret - Subscription secret
+ * @param timestamp - Unix time in seconds
+ */
+export function signWebhookPayload(
+  body: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Verify a signature header (receiver side, also used in tests)
+ *
+ * @param body - Raw request body
+ * @param header - X-ProcureFlow-Signature value
+ * @param secret - Subscription secret
+ * @param toleranceSeconds - Maximum signature age
+ * @param now - Current unix time in seconds
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string,
+  secret: string,
+  toleranceSeconds: number = DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = new Map(
+    header.split(',').map((part) => {
+      const [key, ...rest] = part.trim().split('=');
+      return [key, rest.join('=')] as const;
+    })
+  );
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+
+  if (!Number.isInteger(timestamp) || !signature) {
+    return false;
+  }
+  if (Math.abs(now - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = signWebhookPayload(body, secret, timestamp).split('v1=')[1];
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  const actualBuffer = Buffer.from(signature, 'hex');
+
+  return (
+    expectedBuffer.length === actualBuffer.length &&
+    timingSafeEqual(expectedBuffer, actualBuffer)
+  );
+}
+
+/**
+ * Decide the delivery status after a failed attempt
+ * Every failure is retried (endpoints are outside our control) until
+ * the maximum number of attempts is reached.
+ *
+ * @param attempts - Attempts made so far, including the failed one
+ * @param maxAttempts - Attempts allowed before giving up
+ * @param now - Current time
+ */
+export function planWebhookRetry(
+  attempts: number,
+  maxAttempts: number = DEFAULT_WEBHOOK_MAX_ATTEMPTS,
+  now: Date = new Date()
+): WebhookRetryDecision {
+  if (attempts >= maxAttempts) {
+    return { status: WebhookDeliveryStatus.Failed };
+  }
+
+  const delay = calculateRetryDelay(attempts, {
+    baseDelay: WEBHOOK_RETRY_BASE_DELAY_MS,
+    maxDelay: WEBHOOK_RETRY_MAX_DELAY_MS,
+  });
+
+  return {
+    status: WebhookDeliveryStatus.Pending,
+    nextAttemptAt: new Date(now.getTime() + delay),
+  };
+}
@@ -0,0 +1,783 @@
+/**
+ * Webhook Service
+ *
+ * Business logic for outbound webhooks:
+ * - Register, update and remove endpoints (subscriptions)
+ * - Publish lifecycle events: one delivery per matching subscription
+ * - Post signed payloads, retrying failures with exponential backoff
+ * - Delivery log per subscription and manual redelivery
+ *
+ * Publishing never fails the calling flow (checkout, approvals, catalog):
+ * deliveries are written first and attempted in the background. Retries
+ * are picked up every minute by the scheduler calling
+ * POST /api/cron/webhook-deliveries (compose `scheduler` service or Cloud
+ * Scheduler), or by hand via POST /api/webhooks/deliveries/process.
+ */
+
+import { randomBytes, randomUUID } from 'crypto';
+
+import { Types } from 'mongoose';
+
+import type { WebhookDeliveryDocument } from '@/domain/documents';
+import type {
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookEvent,
+  WebhookSubscription,
+} from '@/domain/entities';
+import { WebhookDeliveryStatus, WebhookEventType } from '@/domain/entities';
+import {
+  mapWebhookDeliveryToEntity,
+  mapWebhookSubscriptionToEntity,
+} from '@/lib/db/mappers';
+import {
+  MAX_WEBHOOK_ATTEMPT_LOG,
+  MAX_WEBHOOK_URL_LENGTH,
+  WebhookDeliveryModel,
+  WebhookSubscriptionModel,
+} from '@/lib/db/models';
+import connectDB from '@/lib/db/mongoose';
+import { logger } from '@/lib/logger/winston.config';
+
+import { getWebhookMaxAttempts, getWebhookTimeoutMs } from './webhook-config';
+import {
+  isWebhookEventType,
+  planWebhookRetry,
+  signWebhookPayload,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_LOCK_TIMEOUT_MS,
+  WEBHOOK_SIGNATURE_HEADER,
+} from './webhook-delivery';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Input for registering an endpoint
+ */
+export interface CreateWebhookSubscriptionInput {
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+  active?: boolean;
+}
+
+/**
+ * Input for updating an endpoint (all fields optional)
+ */
+export type UpdateWebhookSubscriptionInput =
+  Partial<CreateWebhookSubscriptionInput>;
+
+/**
+ * Newly registered endpoint with its signing secret
+ * The secret is only ever returned here.
+ */
+export interface CreatedWebhookSubscription {
+  subscription: WebhookSubscription;
+  secret: string;
+}
+
+/**
+ * Filters for the delivery log
+ */
+export interface WebhookDeliveryFilters {
+  status?: WebhookDeliveryStatus;
+}
+
+/**
+ * Summary of one delivery run
+ */
+export interface WebhookDeliveryRunSummary {
+  /** Deliveries attempted */
+  processed: number;
+
+  /** Deliveries the endpoint accepted */
+  delivered: number;
+
+  /** Deliveries rescheduled after a failed attempt */
+  retried: number;
+
+  /** Deliveries that gave up */
+  failed: number;
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+export class WebhookSubscriptionNotFoundError extends Error {
+  constructor(subscriptionId: string) {
+    super(`Webhook subscription not found: ${subscriptionId}`);
+    this.name = 'WebhookSubscriptionNotFoundError';
+  }
+}
+
+export class WebhookDeliveryNotFoundError extends Error {
+  constructor(deliveryId: string) {
+    super(`Webhook delivery not found: ${deliveryId}`);
+    this.name = 'WebhookDeliveryNotFoundError';
+  }
+}
+
+export class InvalidWebhookDeliveryStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidWebhookDeliveryStateError';
+  }
+}
+
+// ============================================================================
+// Subscription Functions
+// ============================================================================
+
+/**
+ * List registered endpoints, newest first
+ */
+export async function listWebhookSubscriptions(): Promise<
+  WebhookSubscription[]
+> {
+  await connectDB();
+
+  try {
+    const subscriptions = await WebhookSubscriptionModel.find({})
+      .sort({ createdAt: -1 })
+      .lean()
+      .exec();
+
+    return subscriptions.map(mapWebhookSubscriptionToEntity);
+  } catch (error) {
+    logger.error('Error listing webhook subscriptions', { error });
+    throw new Error('Failed to list webhook subscriptions');
+  }
+}
+
+/**
+ * Get an endpoint by ID
+ *
+ * @throws {WebhookSubscriptionNotFoundError} if the endpoint does not exist
+ */
+export async function getWebhookSubscription(
+  subscriptionId: string
+): Promise<WebhookSubscription> {
+  await connectDB();
+
+  try {
+    return await findSubscriptionOrThrow(subscriptionId);
+  } catch (error) {
+    if (isKnownWebhookError(error)) {
+      throw error;
+    }
+    logger.error('Error fetching webhook subscription', {
+      subscriptionId,
+      error,
+    });
+    throw new Error('Failed to fetch webhook subscription');
+  }
+}
+
+/**
+ * Register an endpoint
+ * A signing secret is generated and returned once; store it on the
+ * receiving side to verify the X-ProcureFlow-Signature header.
+ */
+export async function createWebhookSubscription(
+  input: CreateWebhookSubscriptionInput,
+  userId: string
+): Promise<CreatedWebhookSubscription> {
+  await connectDB();
+
+  try {
+    const data = normalizeSubscriptionInput(input);
+    const secret = `whsec_${randomBytes(24).toString('hex')}`;
+
+    const subscription = await WebhookSubscriptionModel.create({
+      ...data,
+      secret,
+      createdByUserId: userId,
+    });
+
+    logger.info('Webhook subscription created', {
+      subscriptionId: subscription._id.toString(),
+      url: data.url,
+      events: data.events,
+      userId,
+    });
+
+    return {
+      subscription: mapWebhookSubscriptionToEntity(subscription.toObject()),
+      secret,
+    };
+  } catch (error) {
+    if (isKnownWebhookError(error)) {
+      throw error;
+    }
+    logger.error('Error creating webhook subscription', { input, error });
+    throw new Error('Failed to create webhook subscription');
+  }
+}
+
+/**
+ * Update an endpoint's URL, description, events or active flag
+ *
+ * @throws {WebhookSubscriptionNotFoundError} if the endpoint does not exist
+ */
+export async function updateWebhookSubscription(
+  subscriptionId: string,
+  input: UpdateWebhookSubscriptionInput
+): Promise<WebhookSubscription> {
+  await connectDB();
+
+  try {
+    const existing = await findSubscriptionOrThrow(subscriptionId);
+    const data = normalizeSubscriptionInput({ ...existing, ...input });
+
+    const updated = await WebhookSubscriptionModel.findByIdAndUpdate(
+      subscriptionId,
+      {
+        $set: {
+          url: data.url,
+          events: data.events,
+          active: data.active,
+          ...(data.description !== undefined && {
+            description: data.description,
+          }),
+        },
+        ...(data.description === undefined && {
+          $unset: { description: '' },
+        }),
+      },
+      { new: true, runValidators: true }
+    )
+      .lean()
+      .exec();
+
+    if (!updated) {
+      throw new WebhookSubscriptionNotFoundError(subscriptionId);
+    }
+
+    return mapWebhookSubscriptionToEntity(updated);
+  } catch (error) {
+    if (isKnownWebhookError(error)) {
+      throw error;
+    }
+    logger.error('Error updating webhook subscription', {
+      subscriptionId,
+      input,
+      error,
+    });
+    throw new Error('Failed to update webhook subscription');
+  }
+}
+
+/**
+ * Remove an endpoint together with its delivery log
+ *
+ * @throws {WebhookSubscriptionNotFoundError} if the endpoint does not exist
+ */
+export async function deleteWebhookSubscription(
+  subscriptionId: string
+): Promise<void> {
+  await connectDB();
+
+  try {
+    await findSubscriptionOrThrow(subscriptionId);
+
+    await WebhookSubscriptionModel.findByIdAndDelete(subscriptionId).exec();
+    const { deletedCount } = await WebhookDeliveryModel.deleteMany({
+      subscriptionId: new Types.ObjectId(subscriptionId),
+    }).exec();
+
+    logger.info('Webhook subscription deleted', {
+      subscriptionId,
+      deliveriesDeleted: deletedCount,
+    });
+  } catch (error) {
+    if (isKnownWebhookError(error)) {
+      throw error;
+    }
+    logger.error('Error deleting webhook subscription', {
+      subscriptionId,
+      error,
+    });
+    throw new Error('Failed to delete webhook subscription');
+  }
+}
+
+// ============================================================================
+// Delivery Functions
+// ============================================================================
+
+/**
+ * Publish a lifecycle event to every active subscription listening for it
+ * Called from checkout, approvals and the catalog; failures are logged
+ * and never fail the calling flow. The first attempt starts right away
+ * without being awaited; anything it misses is retried by the next
+ * delivery run.
+ *
+ * @param type - Event type
+ * @param data - Event data (serialized to JSON)
+ */
+export async function publishWebhookEvent(
+  type: WebhookEventType,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    await connectDB();
+
+    const subscriptions = await WebhookSubscriptionModel.find({
+      active: true,
+      events: type,
+    })
+      .select('_id')
+      .lean()
+      .exec();
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const event: WebhookEvent = {
+      id: `evt_${randomUUID()}`,
+      type,
+      createdAt: new Date().toISOString(),
+      // Store exactly what is posted (dates as ISO strings, no ObjectIds)
+      data: JSON.parse(JSON.stringify(data)),
+    };
+
+    const deliveries = await WebhookDeliveryModel.insertMany(
+      subscriptions.map((subscription) => ({
+        subscriptionId: subscription._id,
+        eventId: event.id,
+        eventType: type,
+        payload: event,
+        status: WebhookDeliveryStatus.Pending,
+        nextAttemptAt: new Date(),
+      }))
+    );
+
+    logger.info('Webhook event published', {
+      eventId: event.id,
+      type,
+      deliveries: deliveries.length,
+    });
+
+    startDeliveries(deliveries.map((delivery) => delivery._id.toString()));
+  } catch (error) {
+    logger.error('Publishing webhook event failed', { type, error });
+  }
+}
+
+/**
+ * Attempt due deliveries
+ * Deliveries are claimed one at a time, so several workers can run
+ * safely; claims abandoned by a crashed worker are picked up again after
+ * WEBHOOK_LOCK_TIMEOUT_MS.
+ *
+ * @param limit - Maximum number of deliveries to attempt in this run
+ * @param deliveryIds - Only attempt these deliveries (used right after publishing)
+ */
+export async function processWebhookDeliveries(
+  limit: number = 20,
+  deliveryIds?: string[]
+): Promise<WebhookDeliveryRunSummary> {
+  await connectDB();
+
+  const summary: WebhookDeliveryRunSummary = {
+    processed: 0,
+    delivered: 0,
+    retried: 0,
+    failed: 0,
+  };
+
+  try {
+    const maxAttempts = getWebhookMaxAttempts();
+
+    while (summary.processed < limit) {
+      const delivery = await claimNextDelivery(deliveryIds);
+      if (!delivery) {
+        break;
+      }
+      summary.processed++;
+
+      const attempt = await sendDelivery(delivery);
+      const deliveryId = delivery._id.toString();
+      const logEntry = { $each: [attempt], $slice: -MAX_WEBHOOK_ATTEMPT_LOG };
+
+      if (!attempt.error) {
+        await WebhookDeliveryModel.updateOne(
+          { _id: delivery._id },
+          {
+            $set: {
+              status: WebhookDeliveryStatus.Delivered,
+              deliveredAt: attempt.attemptedAt,
+              lockedAt: null,
+            },
+            $push: { attemptLog: logEntry },
+          }
+        ).exec();
+        summary.delivered++;
+        continue;
+      }
+
+      const decision = planWebhookRetry(delivery.attempts, maxAttempts);
+
+      await WebhookDeliveryModel.updateOne(
+        { _id: delivery._id },
+        {
+          $set: {
+            status: decision.status,
+            lockedAt: null,
+            ...(decision.nextAttemptAt && {
+              nextAttemptAt: decision.nextAttemptAt,
+            }),
+          },
+          $push: { attemptLog: logEntry },
+        }
+      ).exec();
+
+      if (decision.status === WebhookDeliveryStatus.Failed) {
+        summary.failed++;
+        logger.error('Webhook delivery failed', {
+          deliveryId,
+          eventType: delivery.eventType,
+          attempts: delivery.attempts,
+          error: attempt.error,
+        });
+      } else {
+        summary.retried++;
+        logger.warn('Webhook delivery rescheduled', {
+          deliveryId,
+          eventType: delivery.eventType,
+          attempts: delivery.attempts,
+          nextAttemptAt: decision.nextAttemptAt,
+          error: attempt.error,
+        });
+      }
+    }
+
+    if (summary.processed > 0) {
+      logger.info('Webhook deliveries processed', { ...summary });
+    }
+
+    return summary;
+  } catch (error) {
+    logger.error('Error processing webhook deliveries', { summary, error });
+    throw new Error('Failed to process webhook deliveries');
+  }
+}
+
+/**
+ * Delivery log of an endpoint, newest first (at most 200 entries)
+ *
+ * @throws {WebhookSubscriptionNotFoundError} if the endpoint does not exist
+ */
+export async function listWebhookDeliveries(
+  subscriptionId: string,
+  filters: WebhookDeliveryFilters = {}
+): Promise<WebhookDelivery[]> {
+  await connectDB();
+
+  try {
+    await findSubscriptionOrThrow(subscriptionId);
+
+    const query: Record<string, unknown> = {
+      subscriptionId: new Types.ObjectId(subscriptionId),
+    };
+    if (filters.status) {
+      if (!Object.values(WebhookDeliveryStatus).includes(filters.status)) {
+        throw new ValidationError(`Invalid delivery status: ${filters.status}`);
+      }
+      query.status = filters.status;
+    }
+
+    const deliveries = await WebhookDeliveryModel.find(query)
+      .sort({ createdAt: -1 })
+      .limit(200)
+      .lean()
+      .exec();
+
+    return deliveries.map(mapWebhookDeliveryToEntity);
+  } catch (error) {
+    if (isKnownWebhookError(error)) {
+      throw error;
+    }
+    logger.error('Error listing webhook deliveries', {
+      subscriptionId,
+      filters,
+      error,
+    });
+    throw new Error('Failed to list webhook deliveries');
+  }
+}
+
+/**
+ * Send an event again
+ * Creates a new delivery with the same event (receivers can deduplicate
+ * on the event ID) and attempts it right away.
+ *
+ * @throws {WebhookDeliveryNotFoundError} if the delivery does not exist
+ * @throws {InvalidWebhookDeliveryStateError} if the delivery is still
+ *   pending or its endpoint is inactive
+ */
+export async function redeliverWebhookDelivery(
+  deliveryId: string
+): Promise<WebhookDelivery> {
+  await connectDB();
+
+  try {
+    if (!Types.ObjectId.isValid(deliveryId)) {
+      throw new ValidationError('Invalid delivery ID');
+    }
+
+    const original = await WebhookDeliveryModel.findById(deliveryId)
+      .lean()
+      .exec();
+    if (!original) {
+      throw new WebhookDeliveryNotFoundError(deliveryId);
+    }
+    if (original.status === WebhookDeliveryStatus.Pending) {
+      throw new InvalidWebhookDeliveryStateError(
+        'Delivery is still pending; wait for it to be delivered or fail'
+      );
+    }
+
+    const subscription = await findSubscriptionOrThrow(
+      original.subscriptionId.toString()
+    );
+    if (!subscription.active) {
+      throw new InvalidWebhookDeliveryStateError(
+        'Webhook subscription is inactive'
+      );
+    }
+
+    const delivery = await WebhookDeliveryModel.create({
+      subscriptionId: original.subscriptionId,
+      eventId: original.eventId,
+      eventType: original.eventType,
+      payload: original.payload,
+      status: WebhookDeliveryStatus.Pending,
+      nextAttemptAt: new Date(),
+      redeliveryOf: original._id,
+    });
+
+    logger.info('Webhook redelivery queued', {
+      deliveryId: delivery._id.toString(),
+      redeliveryOf: deliveryId,
+      eventId: original.eventId,
+    });
+
+    await processWebhookDeliveries(1, [delivery._id.toString()]);
+
+    const refreshed = await WebhookDeliveryModel.findById(delivery._id)
+      .lean()
+      .exec();
+
+    return mapWebhookDeliveryToEntity(refreshed ?? delivery.toObject());
+  } catch (error) {
+    if (isKnownWebhookError(error)) {
+      throw error;
+    }
+    logger.error('Error redelivering webhook', { deliveryId, error });
+    throw new Error('Failed to redeliver webhook');
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Validate and normalize create/update input
+ */
+function normalizeSubscriptionInput(input: UpdateWebhookSubscriptionInput) {
+  const url = input.url?.trim();
+  if (!url) {
+    throw new ValidationError('URL is required');
+  }
+  if (url.length > MAX_WEBHOOK_URL_LENGTH) {
+    throw new ValidationError(
+      `URL must not exceed ${MAX_WEBHOOK_URL_LENGTH} characters`
+    );
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new ValidationError('Invalid URL');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new ValidationError('URL must start with http:// or https://');
+  }
+
+  if (!Array.isArray(input.events) || input.events.length === 0) {
+    throw new ValidationError('Subscribe to at least 1 event');
+  }
+  const invalid = input.events.find((event) => !isWebhookEventType(event));
+  if (invalid !== undefined) {
+    throw new ValidationError(`Invalid webhook event: ${String(invalid)}`);
+  }
+
+  if (input.active !== undefined && typeof input.active !== 'boolean') {
+    throw new ValidationError('Active must be a boolean');
+  }
+
+  return {
+    url,
+    description: input.description?.trim() || undefined,
+    events: [...new Set(input.events)],
+    active: input.active ?? true,
+  };
+}
+
+/**
+ * Fetch an endpoint or throw a not-found error
+ */
+async function findSubscriptionOrThrow(
+  subscriptionId: string
+): Promise<WebhookSubscription> {
+  if (!Types.ObjectId.isValid(subscriptionId)) {
+    throw new ValidationError('Invalid webhook subscription ID');
+  }
+
+  const subscription = await WebhookSubscriptionModel.findById(subscriptionId)
+    .lean()
+    .exec();
+
+  if (!subscription) {
+    throw new WebhookSubscriptionNotFoundError(subscriptionId);
+  }
+
+  return mapWebhookSubscriptionToEntity(subscription);
+}
+
+/**
+ * Attempt freshly published deliveries without blocking the caller
+ */
+function startDeliveries(deliveryIds: string[]): void {
+  void processWebhookDeliveries(deliveryIds.length, deliveryIds).catch(
+    (error) => {
+      logger.warn('Immediate webhook delivery failed; will retry', {
+        deliveryIds,
+        error,
+      });
+    }
+  );
+}
+
+/**
+ * Claim the next due delivery and count the attempt
+ */
+async function claimNextDelivery(
+  deliveryIds?: string[]
+): Promise<WebhookDeliveryDocument | null> {
+  const now = new Date();
+
+  return WebhookDeliveryModel.findOneAndUpdate(
+    {
+      status: WebhookDeliveryStatus.Pending,
+      nextAttemptAt: { $lte: now },
+      $or: [
+        { lockedAt: null },
+        {
+          lockedAt: {
+            $lte: new Date(now.getTime() - WEBHOOK_LOCK_TIMEOUT_MS),
+          },
+        },
+      ],
+      ...(deliveryIds && {
+        _id: { $in: deliveryIds.map((id) => new Types.ObjectId(id)) },
+      }),
+    },
+    {
+      $set: { lockedAt: now },
+      $inc: { attempts: 1 },
+    },
+    { new: true, sort: { nextAttemptAt: 1 } }
+  )
+    .lean()
+    .exec();
+}
+
+/**
+ * Post a delivery to its endpoint
+ *
+ * @returns Attempt record (error is set when the attempt failed)
+ */
+async function sendDelivery(
+  delivery: WebhookDeliveryDocument
+): Promise<WebhookDeliveryAttempt> {
+  const attemptedAt = new Date();
+  const startedAt = Date.now();
+  const finish = (responseStatus?: number, error?: string) => ({
+    attemptedAt,
+    ...(responseStatus !== undefined && { responseStatus }),
+    ...(error && { error: error.slice(0, 1000) }),
+    durationMs: Date.now() - startedAt,
+  });
+
+  const subscription = await WebhookSubscriptionModel.findById(
+    delivery.subscriptionId
+  )
+    .lean()
+    .exec();
+  if (!subscription) {
+    return finish(undefined, 'Webhook subscription no longer exists');
+  }
+  if (!subscription.active) {
+    return finish(undefined, 'Webhook subscription is inactive');
+  }
+
+  const body = JSON.stringify(delivery.payload);
+
+  try {
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ProcureFlow-Webhooks/1.0',
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+          body,
+          subscription.secret
+        ),
+        [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+        [WEBHOOK_DELIVERY_HEADER]: delivery._id.toString(),
+      },
+      body,
+      signal: AbortSignal.timeout(getWebhookTimeoutMs()),
+      redirect: 'manual',
+    });
+
+    // Response bodies are not used; release the connection
+    await response.body?.cancel().catch(() => undefined);
+
+    return response.ok
+      ? finish(response.status)
+      : finish(response.status, `Endpoint responded with ${response.status}`);
+  } catch (error) {
+    return finish(
+      undefined,
+      `Request failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Errors that should propagate to the caller unchanged
+ */
+function isKnownWebhookError(error: unknown): boolean {
+  return (
+    error instanceof ValidationError ||
+    error instanceof WebhookSubscriptionNotFoundError ||
+    error instanceof WebhookDeliveryNotFoundError ||
+    error instanceof InvalidWebhookDeliveryStateError
+  );
+}
@@ -0,0 +1,126 @@
+import { AIMessageChunk, HumanMessage } from '@langchain/core/messages';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { streamChat } from './providerAdapter';
+
+const mocks = vi.hoisted(() => {
+  // Read when the adapter module loads
+  process.env.OPENAI_API_KEY = 'sk-test';
+  return { stream: vi.fn() };
+});
+
+vi.mock('@langchain/openai', () => ({
+  ChatOpenAI: class {
+    stream = mocks.stream;
+  },
+}));
+vi.mock('@/lib/reliability/rateLimiter', () => ({
+  withRateLimit: (_provider: string, fn: () => Promise<unknown>) => fn(),
+}));
+vi.mock('@/lib/db/mongoose', () => ({ default: vi.fn(), connectDB: vi.fn() }));
+
+/**
+ * Provider Adapter Tests
+ *
+ * The OpenAI chat model is mocked; the tests cover how streamChat
+ * aggregates chunks and when a failed stream is retried.
+ */
+
+const messages = [new HumanMessage('Find me a chair')];
+
+/**
+ * Stream that yields the given chunks, then fails with `error` if given
+ */
+function chunkStream(chunks: AIMessageChunk[], error?: Error) {
+  return (async function* () {
+    yield* chunks;
+    if (error) {
+      throw error;
+    }
+  })();
+}
+
+// Transient provider failure (retryable)
+const unavailable = () =>
+  Object.assign(new Error('Service unavailable'), { status: 503 });
+
+describe('providerAdapter', () => {
+  describe('streamChat', () => {
+    beforeEach(() => {
+      mocks.stream.mockReset();
+    });
+
+    it('should report deltas and aggregate the chunks into the response', async () => {
+      mocks.stream.mockResolvedValue(
+        chunkStream([
+          new AIMessageChunk({ content: 'Looking ' }),
+          new AIMessageChunk({
+            content: 'for chairs',
+            tool_call_chunks: [
+              {
+                id: 'call_1',
+                name: 'search_catalog',
+                args: '{"query":',
+                index: 0,
+              },
+            ],
+          }),
+          new AIMessageChunk({
+            content: '',
+            tool_call_chunks: [{ args: '"chair"}', index: 0 }],
+          }),
+        ])
+      );
+      const onToken = vi.fn();
+
+      const response = await streamChat({
+        messages,
+        config: { provider: 'openai' },
+        onToken,
+      });
+
+      expect(onToken.mock.calls).toEqual([['Looking '], ['for chairs']]);
+      expect(response.content).toBe('Looking for chairs');
+      expect(response.toolCalls).toEqual([
+        {
+          id: 'call_1',
+          name: 'search_catalog',
+          arguments: JSON.stringify({ query: 'chair' }),
+        },
+      ]);
+    });
+
+    it('should retry a stream that fails before the first delta', async () => {
+      mocks.stream
+        .mockResolvedValueOnce(chunkStream([], unavailable()))
+        .mockResolvedValueOnce(
+          chunkStream([new AIMessageChunk({ content: 'Hello' })])
+        );
+      const onToken = vi.fn();
+
+      const response = await streamChat({
+        messages,
+        config: { provider: 'openai' },
+        onToken,
+      });
+
+      expect(mocks.stream).toHaveBeenCalledTimes(2);
+      expect(onToken.mock.calls).toEqual([['Hello']]);
+      expect(response.content).toBe('Hello');
+    }, 10_000);
+
+    it('should not retry once text has been reported', async () => {
+      mocks.stream.mockResolvedValue(
+        chunkStream([new AIMessageChunk({ content: 'Hel' })], unavailable())
+      );
+      const onToken = vi.fn();
+
+      await expect(
+        streamChat({ messages, config: { provider: 'openai' }, onToken })
+      ).rejects.toThrow('Service unavailable');
+
+      expect(mocks.stream).toHaveBeenCalledTimes(1);
+      expect(onToken.mock.calls).toEqual([['Hel']]);
+    });
+  });
+});
@@ -6,6 +6,9 @@
  * - Google Gemini (gemini-2.0-flash)
  * - Ollama (local LLMs)
  *
+ * Responses are available as a single result (invokeChat) or streamed
+ * token by token (streamChat) for providers with streaming support.
+ *
  * Selection priority (if AI_PROVIDER not set):
  * 1. Ollama (if OLLAMA_BASE_URL present)
  * 2. OpenAI (if OPENAI_API_KEY present)
@@ -14,10 +17,11 @@
  */
 
 import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
-import type { BaseMessage } from '@langchain/core/messages';
+import type { AIMessageChunk, BaseMessage } from '@langchain/core/messages';
 import { AIMessage } from '@langchain/core/messages';
 import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
 import { ChatOpenAI } from '@langchain/openai';
+import { AbortError } from 'p-retry';
 
 import { estimateCost } from '@/lib/ai/tokenCounter';
 import { TokenUsageModel } from '@/lib/db/models';
@@ -213,6 +217,20 @@ function createChatModel(config?: Partial<ProviderConfig>): BaseChatModel {
   }
 }
 
+/**
+ * Format tool definitions for OpenAI function calling
+ */
+function formatOpenAITools(tools: unknown[]) {
+  return (tools as ToolDefinition[]).map((tool) => ({
+    type: 'function' as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }));
+}
+
 /**
  * Helper function to invoke ChatOpenAI with tools using LangChain
  * Returns a LangChain AIMessage compatible response
@@ -231,14 +249,7 @@ async function invokeOpenAIWithTools(
   const maxTokens = config?.maxTokens ?? 1000;
 
   // Format tools in OpenAI function calling format
-  const formattedTools = (tools as ToolDefinition[]).map((tool) => ({
-    type: 'function' as const,
-    function: {
-      name: tool.name,
-      description: tool.description,
-      parameters: tool.parameters,
-    },
-  }));
+  const formattedTools = formatOpenAITools(tools);
 
   logger.debug('Formatted tools for OpenAI', {
     toolCount: formattedTools.length,
@@ -328,117 +339,249 @@ export async function invokeChat(params: {
       contentLength: response.content?.toString().length || 0,
     });
 
-    // Extract tool calls if present
-    const toolCalls: ToolCall[] = [];
-    if (response.additional_kwargs?.function_call) {
-      // OpenAI format (single function call)
-      const fc = response.additional_kwargs.function_call as {
-        name: string;
-        arguments: string;
-      };
-      toolCalls.push({
-        id: 'call_0',
-        name: fc.name,
-        arguments: fc.arguments,
-      });
-    } else if (response.additional_kwargs?.tool_calls) {
-      // OpenAI format (multiple tool calls)
-      const tcs = response.additional_kwargs.tool_calls as Array<{
-        id?: string;
-        function?: { name: string; arguments: string };
-        name?: string;
-        arguments?: string;
-      }>;
-      tcs.forEach((tc, idx: number) => {
-        toolCalls.push({
-          id: tc.id || `call_${idx}`,
-          name: tc.function?.name || tc.name || '',
-          arguments: tc.function?.arguments || tc.arguments || '{}',
-        });
-      });
+    return toAIResponse(response, {
+      provider,
+      config,
+      userId,
+      conversationId,
+      endpoint,
+    });
+  } catch (error) {
+    const elapsed = Date.now() - startTime;
+    logger.error('LLM invocation failed', {
+      provider,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      latencyMs: elapsed,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Stream a chat completion, reporting text deltas as they arrive
+ *
+ * Same contract as invokeChat: resolves with the complete response
+ * (content, tool calls, usage) once the stream ends. Providers without
+ * streaming support fall back to invokeChat and report the whole content
+ * as one delta. Failed attempts are only retried until the first delta
+ * has been reported, so callers never receive text twice.
+ */
+export async function streamChat(params: {
+  messages: BaseMessage[];
+  tools?: unknown[];
+  config?: Partial<ProviderConfig>;
+  userId?: string;
+  conversationId?: string;
+  endpoint?: string;
+  onToken: (delta: string) => void;
+}): Promise<AIResponse> {
+  const { messages, tools, config, userId, conversationId, endpoint, onToken } =
+    params;
+  const chatModel = createChatModel(config);
+  const provider = config?.provider || getActiveProvider();
+
+  if (!getCapabilities(provider).streaming) {
+    const response = await invokeChat(params);
+    if (response.content) {
+      onToken(response.content);
     }
+    return response;
+  }
 
-    // Extract usage information if available
-    const usageMeta = response.usage_metadata as
-      | {
-          input_tokens?: number;
-          output_tokens?: number;
-          total_tokens?: number;
-        }
-      | undefined;
+  const startTime = Date.now();
+  let emitted = false;
 
-    const usage = usageMeta
-      ? {
-          inputTokens: usageMeta.input_tokens || 0,
-          outputTokens: usageMeta.output_tokens || 0,
-          totalTokens: usageMeta.total_tokens || 0,
+  logger.info('Streaming LLM', {
+    provider,
+    model: config?.model || PROVIDER_MODELS[provider].default,
+    messageCount: messages.length,
+    toolCount: tools?.length || 0,
+  });
+
+  try {
+    const response = await withRateLimit(provider, async () => {
+      return withRetry(provider, async () => {
+        // Same tool handling as invokeChat: tools are bound for OpenAI only
+        const stream =
+          tools && tools.length > 0 && provider === 'openai'
+            ? await (chatModel as ChatOpenAI).stream(messages, {
+                tools: formatOpenAITools(tools),
+              })
+            : await chatModel.stream(messages);
+
+        let aggregated: AIMessageChunk | undefined;
+        try {
+          for await (const chunk of stream) {
+            aggregated = aggregated ? aggregated.concat(chunk) : chunk;
+
+            const delta =
+              typeof chunk.content === 'string' ? chunk.content : '';
+            if (delta) {
+              emitted = true;
+              onToken(delta);
+            }
+          }
+        } catch (error) {
+          if (emitted) {
+            // Retrying would repeat text the caller already received
+            throw new AbortError(
+              error instanceof Error ? error : String(error)
+            );
+          }
+          throw error;
         }
-      : undefined;
-
-    // Track token usage and cost
-    if (usage) {
-      const modelName = config?.model || PROVIDER_MODELS[provider].default;
-      const cost = estimateCost(
-        modelName,
-        usage.inputTokens,
-        usage.outputTokens
-      );
 
-      // Update Prometheus metrics
-      llmTokensTotal.inc(
-        { provider, model: modelName, type: 'input' },
-        usage.inputTokens
-      );
-      llmTokensTotal.inc(
-        { provider, model: modelName, type: 'output' },
-        usage.outputTokens
-      );
-      llmCostUSD.inc({ provider, model: modelName }, cost);
-
-      // Persist to database (async, don't block response)
-      saveTokenUsage({
-        provider,
-        modelName,
-        promptTokens: usage.inputTokens,
-        completionTokens: usage.outputTokens,
-        totalTokens: usage.totalTokens,
-        costUSD: cost,
-        toolCalls: toolCalls.length,
-        userId,
-        conversationId,
-        endpoint,
-      }).catch((err) => {
-        logger.error('Failed to save token usage', {
-          error: err instanceof Error ? err.message : String(err),
-        });
+        return aggregated ?? new AIMessage('');
       });
+    });
 
-      logger.info('Token usage tracked', {
-        provider,
-        model: modelName,
-        inputTokens: usage.inputTokens,
-        outputTokens: usage.outputTokens,
-        totalTokens: usage.totalTokens,
-        costUSD: cost,
-      });
-    }
+    logger.info('LLM stream completed', {
+      provider,
+      latencyMs: Date.now() - startTime,
+      contentLength: response.content?.toString().length || 0,
+    });
 
-    return {
-      content: response.content?.toString() || '',
-      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
-      usage,
-    };
+    return toAIResponse(response, {
+      provider,
+      config,
+      userId,
+      conversationId,
+      endpoint,
+    });
   } catch (error) {
-    const elapsed = Date.now() - startTime;
-    logger.error('LLM invocation failed', {
+    logger.error('LLM streaming failed', {
       provider,
       error: error instanceof Error ? error.message : 'Unknown error',
-      latencyMs: elapsed,
+      latencyMs: Date.now() - startTime,
+      emitted,
     });
     throw error;
   }
 }
 
+/**
+ * Convert a LangChain response into an AIResponse
+ * Extracts tool calls and records token usage and cost.
+ */
+function toAIResponse(
+  response: AIMessage | AIMessageChunk,
+  context: {
+    provider: AIProvider;
+    config?: Partial<ProviderConfig>;
+    userId?: string;
+    conversationId?: string;
+    endpoint?: string;
+  }
+): AIResponse {
+  const { provider, config, userId, conversationId, endpoint } = context;
+
+  // Extract tool calls if present
+  const toolCalls: ToolCall[] = [];
+  if (response.additional_kwargs?.function_call) {
+    // OpenAI format (single function call)
+    const fc = response.additional_kwargs.function_call as {
+      name: string;
+      arguments: string;
+    };
+    toolCalls.push({
+      id: 'call_0',
+      name: fc.name,
+      arguments: fc.arguments,
+    });
+  } else if (response.additional_kwargs?.tool_calls) {
+    // OpenAI format (multiple tool calls)
+    const tcs = response.additional_kwargs.tool_calls as Array<{
+      id?: string;
+      function?: { name: string; arguments: string };
+      name?: string;
+      arguments?: string;
+    }>;
+    tcs.forEach((tc, idx: number) => {
+      toolCalls.push({
+        id: tc.id || `call_${idx}`,
+        name: tc.function?.name || tc.name || '',
+        arguments: tc.function?.arguments || tc.arguments || '{}',
+      });
+    });
+  } else if (response.tool_calls && response.tool_calls.length > 0) {
+    // LangChain standard format (e.g., aggregated stream chunks)
+    response.tool_calls.forEach((tc, idx: number) => {
+      toolCalls.push({
+        id: tc.id || `call_${idx}`,
+        name: tc.name,
+        arguments: JSON.stringify(tc.args ?? {}),
+      });
+    });
+  }
+
+  // Extract usage information if available
+  const usageMeta = response.usage_metadata as
+    | {
+        input_tokens?: number;
+        output_tokens?: number;
+        total_tokens?: number;
+      }
+    | undefined;
+
+  const usage = usageMeta
+    ? {
+        inputTokens: usageMeta.input_tokens || 0,
+        outputTokens: usageMeta.output_tokens || 0,
+        totalTokens: usageMeta.total_tokens || 0,
+      }
+    : undefined;
+
+  // Track token usage and cost
+  if (usage) {
+    const modelName = config?.model || PROVIDER_MODELS[provider].default;
+    const cost = estimateCost(modelName, usage.inputTokens, usage.outputTokens);
+
+    // Update Prometheus metrics
+    llmTokensTotal.inc(
+      { provider, model: modelName, type: 'input' },
+      usage.inputTokens
+    );
+    llmTokensTotal.inc(
+      { provider, model: modelName, type: 'output' },
+      usage.outputTokens
+    );
+    llmCostUSD.inc({ provider, model: modelName }, cost);
+
+    // Persist to database (async, don't block response)
+    saveTokenUsage({
+      provider,
+      modelName,
+      promptTokens: usage.inputTokens,
+      completionTokens: usage.outputTokens,
+      totalTokens: usage.totalTokens,
+      costUSD: cost,
+      toolCalls: toolCalls.length,
+      userId,
+      conversationId,
+      endpoint,
+    }).catch((err) => {
+      logger.error('Failed to save token usage', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    });
+
+    logger.info('Token usage tracked', {
+      provider,
+      model: modelName,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      totalTokens: usage.totalTokens,
+      costUSD: cost,
+    });
+  }
+
+  return {
+    content: response.content?.toString() || '',
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    usage,
+  };
+}
+
 /**
  * Save token usage to database
  */
@@ -28,11 +28,21 @@ import { randomUUID } from 'crypto';
 
 import { NextResponse } from 'next/server';
 
+import * as approvalService from '@/features/approvals';
+import * as budgetService from '@/features/budgets';
 import * as cartService from '@/features/cart';
 import * as catalogService from '@/features/catalog';
 import * as checkoutService from '@/features/checkout';
+import * as deliveryLocationService from '@/features/delivery-locations';
+import * as erpService from '@/features/erp';
+import * as purchaseOrderService from '@/features/purchase-orders';
+import * as receivingService from '@/features/receiving';
+import * as supplierService from '@/features/suppliers';
+import * as webhookService from '@/features/webhooks';
 import { logger } from '@/lib/logger/winston.config';
 
+import { InvalidCursorError } from './pagination';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -82,21 +92,85 @@ function getStatusCode(error: unknown): number {
     error instanceof cartService.CartLimitError ||
     error instanceof catalogService.ValidationError ||
     error instanceof checkoutService.ValidationError ||
-    error instanceof checkoutService.EmptyCartError
+    error instanceof checkoutService.EmptyCartError ||
+    error instanceof approvalService.ValidationError ||
+    error instanceof budgetService.ValidationError ||
+    error instanceof supplierService.ValidationError ||
+    error instanceof deliveryLocationService.ValidationError ||
+    error instanceof purchaseOrderService.ValidationError ||
+    error instanceof receivingService.ValidationError ||
+    error instanceof erpService.ValidationError ||
+    error instanceof webhookService.ValidationError ||
+    error instanceof InvalidCursorError
   ) {
     return 400;
   }
 
+  // 403 - Forbidden
+  if (
+    error instanceof cartService.CartPermissionError ||
+    error instanceof approvalService.ApprovalPermissionError ||
+    error instanceof budgetService.CostCenterPermissionError
+  ) {
+    return 403;
+  }
+
   // 404 - Not Found
-  if (error instanceof cartService.ItemNotFoundError) {
+  if (
+    error instanceof cartService.ItemNotFoundError ||
+    error instanceof cartService.CartNotFoundError ||
+    error instanceof cartService.SavedCartNotFoundError ||
+    error instanceof cartService.PurchaseRequestNotFoundError ||
+    error instanceof catalogService.ItemNotFoundError ||
+    error instanceof catalogService.SearchSynonymNotFoundError ||
+    error instanceof catalogService.CategoryAttributeSchemaNotFoundError ||
+    error instanceof catalogService.CategoryNotFoundError ||
+    error instanceof approvalService.PurchaseRequestNotFoundError ||
+    error instanceof budgetService.BudgetNotFoundError ||
+    error instanceof supplierService.SupplierNotFoundError ||
+    error instanceof deliveryLocationService.DeliveryLocationNotFoundError ||
+    error instanceof purchaseOrderService.PurchaseOrderNotFoundError ||
+    error instanceof purchaseOrderService.PurchaseRequestNotFoundError ||
+    error instanceof erpService.PurchaseRequestNotFoundError ||
+    error instanceof erpService.ErpOutboxEntryNotFoundError ||
+    error instanceof webhookService.WebhookSubscriptionNotFoundError ||
+    error instanceof webhookService.WebhookDeliveryNotFoundError
+  ) {
     return 404;
   }
 
   // 409 - Conflict
-  if (error instanceof catalogService.DuplicateItemError) {
+  if (
+    error instanceof cartService.CartConflictError ||
+    error instanceof catalogService.DuplicateItemError ||
+    error instanceof catalogService.ItemInUseError ||
+    error instanceof catalogService.ItemNotPendingReviewError ||
+    error instanceof catalogService.CategoryInUseError ||
+    error instanceof approvalService.InvalidApprovalTransitionError ||
+    error instanceof budgetService.BudgetExceededError ||
+    error instanceof checkoutService.CheckoutConfirmationRequiredError ||
+    error instanceof supplierService.SupplierInUseError ||
+    error instanceof purchaseOrderService.PurchaseRequestNotApprovedError ||
+    error instanceof purchaseOrderService.InvalidPurchaseOrderTransitionError ||
+    error instanceof receivingService.PurchaseOrderClosedError ||
+    error instanceof receivingService.DuplicateInvoiceError ||
+    error instanceof erpService.ErpNotSubmittedError ||
+    error instanceof erpService.InvalidErpOutboxStateError ||
+    error instanceof webhookService.InvalidWebhookDeliveryStateError
+  ) {
     return 409;
   }
 
+  // 422 - Unprocessable (idempotency key reused for another request)
+  if (error instanceof checkoutService.IdempotencyKeyReusedError) {
+    return 422;
+  }
+
+  // 502 - Bad Gateway (ERP unreachable or returned an error)
+  if (error instanceof erpService.ErpConnectorError) {
+    return 502;
+  }
+
   // 500 - Internal Server Error (default)
   return 500;
 }
@@ -114,18 +188,158 @@ function getErrorCode(error: unknown): string {
   if (error instanceof cartService.CartLimitError) {
     return 'CART_LIMIT_EXCEEDED';
   }
+  if (error instanceof cartService.CartNotFoundError) {
+    return 'CART_NOT_FOUND';
+  }
+  if (error instanceof cartService.CartPermissionError) {
+    return 'CART_FORBIDDEN';
+  }
+  if (error instanceof cartService.CartConflictError) {
+    return 'CART_CONFLICT';
+  }
+  if (error instanceof cartService.SavedCartNotFoundError) {
+    return 'SAVED_CART_NOT_FOUND';
+  }
+  if (error instanceof cartService.PurchaseRequestNotFoundError) {
+    return 'PURCHASE_REQUEST_NOT_FOUND';
+  }
   if (error instanceof catalogService.ValidationError) {
     return 'VALIDATION_ERROR';
   }
   if (error instanceof catalogService.DuplicateItemError) {
     return 'DUPLICATE_ITEM';
   }
+  if (error instanceof catalogService.ItemNotFoundError) {
+    return 'ITEM_NOT_FOUND';
+  }
+  if (error instanceof catalogService.ItemInUseError) {
+    return 'ITEM_IN_USE';
+  }
+  if (error instanceof catalogService.ItemNotPendingReviewError) {
+    return 'ITEM_NOT_PENDING_REVIEW';
+  }
+  if (error instanceof catalogService.SearchSynonymNotFoundError) {
+    return 'SEARCH_SYNONYM_NOT_FOUND';
+  }
+  if (error instanceof catalogService.CategoryAttributeSchemaNotFoundError) {
+    return 'ATTRIBUTE_SCHEMA_NOT_FOUND';
+  }
+  if (error instanceof catalogService.CategoryNotFoundError) {
+    return 'CATEGORY_NOT_FOUND';
+  }
+  if (error instanceof catalogService.CategoryInUseError) {
+    return 'CATEGORY_IN_USE';
+  }
   if (error instanceof checkoutService.ValidationError) {
     return 'VALIDATION_ERROR';
   }
   if (error instanceof checkoutService.EmptyCartError) {
     return 'EMPTY_CART';
   }
+  if (error instanceof approvalService.ValidationError) {
+    return 'VALIDATION_ERROR';
+  }
+  if (error instanceof approvalService.ApprovalPermissionError) {
+    return 'APPROVAL_FORBIDDEN';
+  }
+  if (error instanceof approvalService.PurchaseRequestNotFoundError) {
+    return 'PURCHASE_REQUEST_NOT_FOUND';
+  }
+  if (error instanceof approvalService.InvalidApprovalTransitionError) {
+    return 'INVALID_APPROVAL_TRANSITION';
+  }
+  if (error instanceof budgetService.ValidationError) {
+    return 'VALIDATION_ERROR';
+  }
+  if (error instanceof budgetService.BudgetNotFoundError) {
+    return 'BUDGET_NOT_FOUND';
+  }
+  if (error instanceof budgetService.BudgetExceededError) {
+    return 'BUDGET_EXCEEDED';
+  }
+  if (error instanceof budgetService.CostCenterPermissionError) {
+    return 'COST_CENTER_FORBIDDEN';
+  }
+  if (error instanceof checkoutService.CheckoutConfirmationRequiredError) {
+    return 'CHECKOUT_CONFIRMATION_REQUIRED';
+  }
+  if (error instanceof checkoutService.IdempotencyKeyReusedError) {
+    return 'IDEMPOTENCY_KEY_REUSED';
+  }
+  if (error instanceof supplierService.ValidationError) {
+    return 'VALIDATION_ERROR';
+  }
+  if (error instanceof supplierService.SupplierNotFoundError) {
+    return 'SUPPLIER_NOT_FOUND';
+  }
+  if (error instanceof supplierService.SupplierInUseError) {
+    return 'SUPPLIER_IN_USE';
+  }
+  if (error instanceof deliveryLocationService.ValidationError) {
+    return 'VALIDATION_ERROR';
+  }
+  if (error instanceof deliveryLocationService.DeliveryLocationNotFoundError) {
+    return 'DELIVERY_LOCATION_NOT_FOUND';
+  }
+  if (error instanceof purchaseOrderService.ValidationError) {
+    return 'VALIDATION_ERROR';
+  }
+  if (error instanceof purchaseOrderService.PurchaseOrderNotFoundError) {
+    return 'PURCHASE_ORDER_NOT_FOUND';
+  }
+  if (error instanceof purchaseOrderService.PurchaseRequestNotFoundError) {
+    return 'PURCHASE_REQUEST_NOT_FOUND';
+  }
+  if (error instanceof purchaseOrderService.PurchaseRequestNotApprovedError) {
+    return 'PURCHASE_REQUEST_NOT_APPROVED';
+  }
+  if (
+    error instanceof purchaseOrderService.InvalidPurchaseOrderTransitionError
+  ) {
+    return 'INVALID_PURCHASE_ORDER_TRANSITION';
+  }
+  if (error instanceof receivingService.ValidationError) {
+    return 'VALIDATION_ERROR';
+  }
+  if (error instanceof receivingService.PurchaseOrderClosedError) {
+    return 'PURCHASE_ORDER_CLOSED';
+  }
+  if (error instanceof receivingService.DuplicateInvoiceError) {
+    return 'DUPLICATE_INVOICE';
+  }
+  if (error instanceof erpService.ValidationError) {
+    return 'VALIDATION_ERROR';
+  }
+  if (error instanceof erpService.PurchaseRequestNotFoundError) {
+    return 'PURCHASE_REQUEST_NOT_FOUND';
+  }
+  if (error instanceof erpService.ErpOutboxEntryNotFoundError) {
+    return 'ERP_OUTBOX_ENTRY_NOT_FOUND';
+  }
+  if (error instanceof erpService.ErpNotSubmittedError) {
+    return 'ERP_NOT_SUBMITTED';
+  }
+  if (error instanceof erpService.InvalidErpOutboxStateError) {
+    return 'INVALID_ERP_OUTBOX_STATE';
+  }
+  if (error instanceof erpService.ErpConnectorError) {
+    return 'ERP_UNAVAILABLE';
+  }
+  if (error instanceof webhookService.ValidationError) {
+    return 'VALIDATION_ERROR';
+  }
+  if (error instanceof webhookService.WebhookSubscriptionNotFoundError) {
+    return 'WEBHOOK_SUBSCRIPTION_NOT_FOUND';
+  }
+  if (error instanceof webhookService.WebhookDeliveryNotFoundError) {
+    return 'WEBHOOK_DELIVERY_NOT_FOUND';
+  }
+  if (error instanceof webhookService.InvalidWebhookDeliveryStateError) {
+    return 'INVALID_WEBHOOK_DELIVERY_STATE';
+  }
+  if (error instanceof InvalidCursorError) {
+    return 'INVALID_CURSOR';
+  }
 
   // Generic error
   return 'INTERNAL_ERROR';
@@ -241,6 +455,33 @@ export function unauthorized(
   );
 }
 
+/**
+ * Create a forbidden (403) response
+ * Use this for authorization failures (authenticated but not allowed)
+ */
+export function forbidden(
+  message = 'You do not have permission to perform this action',
+  context?: ErrorContext
+): NextResponse<ApiErrorResponse> {
+  const correlationId = randomUUID();
+
+  logger.warn('Forbidden API access', {
+    correlationId,
+    message,
+    ...(context && { route: context.route, userId: context.userId }),
+  });
+
+  return NextResponse.json(
+    {
+      error: 'FORBIDDEN',
+      message,
+      correlationId,
+      timestamp: new Date().toISOString(),
+    },
+    { status: 403 }
+  );
+}
+
 /**
  * Create a bad request (400) response for validation errors
  * Use this for input validation failures
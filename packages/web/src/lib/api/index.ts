@@ -5,4 +5,6 @@
  */
 
 export * from './errorHandler';
+export * from './pagination';
 export * from './withAuth';
+export * from './withCronAuth';
@@ -0,0 +1,106 @@
+import { Types } from 'mongoose';
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildCursorFilter,
+  decodeCursor,
+  encodeCursor,
+  InvalidCursorError,
+  parsePageParams,
+  toPage,
+} from './pagination';
+
+describe('pagination', () => {
+  const id = '65a1b2c3d4e5f6a7b8c9d0e1';
+
+  describe('parsePageParams', () => {
+    it('should default, cap and read the cursor', () => {
+      expect(parsePageParams(new URLSearchParams())).toEqual({
+        cursor: undefined,
+        limit: 20,
+      });
+      expect(
+        parsePageParams(new URLSearchParams('limit=500&cursor=abc'))
+      ).toEqual({ cursor: 'abc', limit: 100 });
+      expect(
+        parsePageParams(new URLSearchParams('limit=-3'), { defaultLimit: 50 })
+      ).toEqual({ cursor: undefined, limit: 50 });
+    });
+  });
+
+  describe('encodeCursor / decodeCursor', () => {
+    it('should round-trip dates and numbers', () => {
+      const createdAt = new Date('2025-03-01T10:00:00.000Z');
+
+      expect(
+        decodeCursor(
+          encodeCursor({ field: 'createdAt', value: createdAt, id }),
+          'createdAt'
+        )
+      ).toEqual({ field: 'createdAt', value: createdAt, id });
+      expect(
+        decodeCursor(
+          encodeCursor({ field: 'estimatedPrice', value: 12.5, id }),
+          'estimatedPrice'
+        )
+      ).toEqual({ field: 'estimatedPrice', value: 12.5, id });
+    });
+
+    it('should reject malformed cursors and other sort fields', () => {
+      const cursor = encodeCursor({ field: 'createdAt', value: 1, id });
+
+      expect(() => decodeCursor('not-a-cursor', 'createdAt')).toThrow(
+        InvalidCursorError
+      );
+      expect(() => decodeCursor(cursor, 'updatedAt')).toThrow(
+        InvalidCursorError
+      );
+    });
+  });
+
+  describe('buildCursorFilter', () => {
+    it('should start after the cursor position in the sort direction', () => {
+      const cursor = encodeCursor({ field: 'createdAt', value: 5, id });
+
+      expect(buildCursorFilter(undefined, 'createdAt', -1)).toEqual({});
+      expect(buildCursorFilter(cursor, 'createdAt', -1)).toEqual({
+        $or: [
+          { createdAt: { $lt: 5 } },
+          { createdAt: 5, _id: { $lt: new Types.ObjectId(id) } },
+        ],
+      });
+      expect(buildCursorFilter(cursor, 'createdAt', 1)).toMatchObject({
+        $or: [{ createdAt: { $gt: 5 } }, { _id: { $gt: expect.anything() } }],
+      });
+    });
+  });
+
+  describe('toPage', () => {
+    const rows = [1, 2, 3].map((n) => ({ id, n }));
+    const position = (row: { id: string; n: number }) => ({
+      field: 'n',
+      value: row.n,
+      id: row.id,
+    });
+
+    it('should trim the extra row and point the cursor at the last item', () => {
+      const page = toPage(rows, 2, position);
+
+      expect(page.items).toEqual(rows.slice(0, 2));
+      expect(page.hasMore).toBe(true);
+      expect(decodeCursor(page.nextCursor!, 'n')).toEqual({
+        field: 'n',
+        value: 2,
+        id,
+      });
+    });
+
+    it('should end on the last page', () => {
+      expect(toPage(rows, 3, position)).toEqual({
+        items: rows,
+        nextCursor: null,
+        hasMore: false,
+      });
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Cursor Pagination
+ *
+ * Shared contract for list endpoints:
+ * - Request: `cursor` (opaque, from the previous page) and `limit`
+ * - Response: the page items plus `nextCursor` and `hasMore`
+ *
+ * Lists are ordered by one field plus `_id` as tie-breaker, both in the
+ * same direction. A cursor records the sort field and the position of the
+ * last item of a page; the next page starts strictly after it, so items
+ * inserted meanwhile never shift or repeat rows (unlike skip/offset).
+ *
+ * Usage in a service:
+ *   const rows = await Model.find({ ...filter, ...buildCursorFilter(cursor, 'createdAt', -1) })
+ *     .sort({ createdAt: -1, _id: -1 })
+ *     .limit(limit + 1);
+ *   return toPage(rows.map(mapToEntity), limit, (row) => ({ field: 'createdAt', value: row.createdAt, id: row.id }));
+ */
+
+import { Types } from 'mongoose';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PageParams {
+  /** Cursor from the previous page (omit for the first page) */
+  cursor?: string;
+
+  /** Page size */
+  limit?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+
+  /** Cursor for the next page (null on the last page) */
+  nextCursor: string | null;
+
+  hasMore: boolean;
+}
+
+/**
+ * Position of the last item of a page
+ */
+export interface CursorPosition {
+  /** Sort field */
+  field: string;
+
+  /** Sort field value of the item */
+  value: string | number | Date;
+
+  /** Item ID (tie-breaker) */
+  id: string;
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export class InvalidCursorError extends Error {
+  constructor(message = 'Invalid pagination cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Read `cursor` and `limit` query params
+ * Missing or invalid limits fall back to the default; limits above the
+ * maximum are capped.
+ */
+export function parsePageParams(
+  searchParams: URLSearchParams,
+  options: { defaultLimit?: number; maxLimit?: number } = {}
+): Required<Pick<PageParams, 'limit'>> & Pick<PageParams, 'cursor'> {
+  const { defaultLimit = DEFAULT_PAGE_LIMIT, maxLimit = MAX_PAGE_LIMIT } =
+    options;
+  const limit = parseInt(searchParams.get('limit') ?? '', 10);
+
+  return {
+    cursor: searchParams.get('cursor')?.trim() || undefined,
+    limit:
+      Number.isNaN(limit) || limit < 1
+        ? defaultLimit
+        : Math.min(limit, maxLimit),
+  };
+}
+
+/**
+ * Encode a position as an opaque URL-safe cursor
+ */
+export function encodeCursor(position: CursorPosition): string {
+  const payload = {
+    f: position.field,
+    v:
+      position.value instanceof Date
+        ? position.value.toISOString()
+        : position.value,
+    d: position.value instanceof Date ? 1 : undefined,
+    i: position.id,
+  };
+
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor
+ *
+ * @param field - Sort field the cursor must have been created for
+ * @throws {InvalidCursorError} if the cursor is malformed or belongs to a
+ *   different sort order
+ */
+export function decodeCursor(cursor: string, field: string): CursorPosition {
+  let payload: { f?: unknown; v?: unknown; d?: unknown; i?: unknown };
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (
+    !payload ||
+    payload.f !== field ||
+    typeof payload.i !== 'string' ||
+    !Types.ObjectId.isValid(payload.i) ||
+    (typeof payload.v !== 'string' && typeof payload.v !== 'number')
+  ) {
+    throw new InvalidCursorError();
+  }
+
+  const value = payload.d ? new Date(payload.v) : payload.v;
+  if (value instanceof Date && Number.isNaN(value.getTime())) {
+    throw new InvalidCursorError();
+  }
+
+  return { field, value, id: payload.i };
+}
+
+/**
+ * Build the filter for the page after a cursor
+ * Returns an empty filter for the first page.
+ *
+ * @throws {InvalidCursorError} if the cursor is invalid
+ */
+export function buildCursorFilter(
+  cursor: string | undefined,
+  field: string,
+  direction: 1 | -1
+): Record<string, unknown> {
+  if (!cursor) {
+    return {};
+  }
+
+  const { value, id } = decodeCursor(cursor, field);
+  const operator = direction === 1 ? '$gt' : '$lt';
+
+  return {
+    $or: [
+      { [field]: { [operator]: value } },
+      { [field]: value, _id: { [operator]: new Types.ObjectId(id) } },
+    ],
+  };
+}
+
+/**
+ * Build a page from rows fetched with `limit + 1`
+ * The extra row only tells whether there is a next page.
+ */
+export function toPage<T>(
+  rows: T[],
+  limit: number,
+  getPosition: (row: T) => CursorPosition
+): Page<T> {
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    items,
+    nextCursor:
+      hasMore && items.length > 0
+        ? encodeCursor(getPosition(items[items.length - 1]))
+        : null,
+    hasMore,
+  };
+}
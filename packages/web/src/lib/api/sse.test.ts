@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+
+import { createSseParser, formatSseEvent } from './sse';
+
+describe('sse', () => {
+  describe('formatSseEvent', () => {
+    it('should encode the event name and JSON data', () => {
+      expect(formatSseEvent('token', { delta: 'Hi\nthere' })).toBe(
+        'event: token\ndata: {"delta":"Hi\\nthere"}\n\n'
+      );
+    });
+  });
+
+  describe('createSseParser', () => {
+    it('should round-trip formatted events', () => {
+      const parse = createSseParser();
+
+      const messages = parse(
+        formatSseEvent('token', { delta: 'a' }) +
+          formatSseEvent('done', { ok: true })
+      );
+
+      expect(messages).toEqual([
+        { event: 'token', data: '{"delta":"a"}' },
+        { event: 'done', data: '{"ok":true}' },
+      ]);
+    });
+
+    it('should buffer events split across chunks', () => {
+      const parse = createSseParser();
+      const encoded = formatSseEvent('tool_start', { name: 'get_cart' });
+
+      expect(parse(encoded.slice(0, 10))).toEqual([]);
+      expect(parse(encoded.slice(10))).toEqual([
+        { event: 'tool_start', data: '{"name":"get_cart"}' },
+      ]);
+    });
+
+    it('should ignore comments and default the event name', () => {
+      const parse = createSseParser();
+
+      expect(
+        parse(': keep-alive\r\n\r\ndata: one\r\ndata: two\r\n\r\n')
+      ).toEqual([{ event: 'message', data: 'one\ntwo' }]);
+    });
+  });
+});
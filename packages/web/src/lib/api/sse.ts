@@ -0,0 +1,85 @@
+/**
+ * Server-Sent Events helpers
+ *
+ * Encoding on the server and incremental decoding in the browser, so
+ * both sides agree on the wire format:
+ *
+ *   event: <name>
+ *   data: <JSON>
+ *   <blank line>
+ *
+ * NOTE: Not re-exported from '@/lib/api' (that barrel pulls in server-only
+ * auth code); import from '@/lib/api/sse' directly.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SseMessage {
+  /** Event name ('message' when the event line is omitted) */
+  event: string;
+
+  /** Raw data (multiple data lines joined with newlines) */
+  data: string;
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Encode one event
+ * JSON never contains raw newlines, so the data fits on one line.
+ */
+export function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Create an incremental parser for a text/event-stream body
+ * Feed it decoded chunks as they arrive; events split across chunks are
+ * buffered until complete.
+ *
+ * @returns Function that takes a chunk and returns the completed events
+ */
+export function createSseParser(): (chunk: string) => SseMessage[] {
+  let buffer = '';
+
+  return (chunk: string) => {
+    buffer += chunk.replace(/\r\n?/g, '\n');
+
+    const messages: SseMessage[] = [];
+    let boundary = buffer.indexOf('\n\n');
+
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith(':')) {
+          continue; // comment / keep-alive
+        }
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const value =
+          separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+        if (field === 'event') {
+          event = value;
+        } else if (field === 'data') {
+          data.push(value);
+        }
+      }
+
+      if (data.length > 0) {
+        messages.push({ event, data: data.join('\n') });
+      }
+      boundary = buffer.indexOf('\n\n');
+    }
+
+    return messages;
+  };
+}
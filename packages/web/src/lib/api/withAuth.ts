@@ -14,6 +14,12 @@
  *   // ... route logic
  *   return NextResponse.json({ data });
  * });
+ *
+ * // With role-based access control (see lib/auth/permissions.ts)
+ * export const PUT = withAuth(
+ *   { permissions: [Permission.CatalogUpdate] },
+ *   async (request, { userId, role }) => { ... }
+ * );
  * ```
  */
 
@@ -21,8 +27,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 
 import { authConfig } from '@/lib/auth/config';
+import {
+  hasAllPermissions,
+  normalizeRole,
+  type Permission,
+  type Role,
+} from '@/lib/auth/permissions';
 
-import { unauthorized } from './errorHandler';
+import { forbidden, unauthorized } from './errorHandler';
 
 // ============================================================================
 // Types
@@ -35,6 +47,9 @@ export interface AuthContext {
   /** Authenticated user ID */
   userId: string;
 
+  /** Authenticated user's role (from the session JWT) */
+  role: Role;
+
   /** Route params (for dynamic routes like /api/items/[id]) */
   params?: Record<string, string>;
 }
@@ -47,6 +62,27 @@ export type AuthenticatedHandler = (
   context: AuthContext
 ) => Promise<NextResponse> | NextResponse;
 
+/**
+ * Access requirements for an authenticated route
+ */
+export interface AuthOptions {
+  /** User must have one of these roles */
+  roles?: Role[];
+
+  /** User must have all of these permissions */
+  permissions?: Permission[];
+}
+
+/**
+ * Next.js route handler signature produced by withAuth
+ */
+type RouteHandler = (
+  request: NextRequest,
+  context?: {
+    params: Promise<Record<string, string>> | Record<string, string>;
+  }
+) => Promise<NextResponse>;
+
 // ============================================================================
 // Higher-Order Function
 // ============================================================================
@@ -56,10 +92,12 @@ export type AuthenticatedHandler = (
  *
  * Automatically:
  * - Checks for valid session
- * - Extracts userId from session
+ * - Extracts userId and role from session
  * - Returns 401 if not authenticated
- * - Passes userId to handler if authenticated
+ * - Returns 403 if the role lacks the required roles/permissions
+ * - Passes userId and role to handler if authorized
  *
+ * @param options - Optional access requirements (roles and/or permissions)
  * @param handler - The route handler function that requires authentication
  * @returns Wrapped handler with authentication check
  *
@@ -82,13 +120,21 @@ export type AuthenticatedHandler = (
  * });
  * ```
  */
-export function withAuth(handler: AuthenticatedHandler) {
-  return async (
-    request: NextRequest,
-    context?: {
-      params: Promise<Record<string, string>> | Record<string, string>;
-    }
-  ) => {
+export function withAuth(handler: AuthenticatedHandler): RouteHandler;
+export function withAuth(
+  options: AuthOptions,
+  handler: AuthenticatedHandler
+): RouteHandler;
+export function withAuth(
+  optionsOrHandler: AuthOptions | AuthenticatedHandler,
+  maybeHandler?: AuthenticatedHandler
+): RouteHandler {
+  const options: AuthOptions =
+    typeof optionsOrHandler === 'function' ? {} : optionsOrHandler;
+  const handler =
+    typeof optionsOrHandler === 'function' ? optionsOrHandler : maybeHandler!;
+
+  return async (request, context) => {
     // Check authentication
     const session = await getServerSession(authConfig);
 
@@ -96,6 +142,23 @@ export function withAuth(handler: AuthenticatedHandler) {
       return unauthorized();
     }
 
+    // Check authorization
+    const role = normalizeRole(session.user.role);
+
+    if (options.roles && !options.roles.includes(role)) {
+      return forbidden('Your role does not have access to this resource', {
+        route: `${request.method} ${request.nextUrl.pathname}`,
+        userId: session.user.id,
+      });
+    }
+
+    if (options.permissions && !hasAllPermissions(role, options.permissions)) {
+      return forbidden('You do not have permission to perform this action', {
+        route: `${request.method} ${request.nextUrl.pathname}`,
+        userId: session.user.id,
+      });
+    }
+
     // Await params if it's a promise (Next.js 15+ dynamic routes)
     const params = context?.params
       ? context.params instanceof Promise
@@ -106,6 +169,7 @@ export function withAuth(handler: AuthenticatedHandler) {
     // Call handler with authenticated context
     return handler(request, {
       userId: session.user.id,
+      role,
       params,
     });
   };
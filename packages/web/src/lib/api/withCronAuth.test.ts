@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { isCronRequestAuthorized, withCronAuth } from './withCronAuth';
+
+const URL = 'http://localhost:3000/api/cron/erp-outbox';
+
+function cronRequest(authorization?: string) {
+  return new NextRequest(URL, {
+    method: 'POST',
+    headers: authorization ? { authorization } : {},
+  });
+}
+
+describe('withCronAuth', () => {
+  beforeEach(() => {
+    vi.stubEnv('CRON_SECRET', 'cron-secret');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('isCronRequestAuthorized', () => {
+    it('should accept the secret as a bearer token', () => {
+      expect(isCronRequestAuthorized(cronRequest('Bearer cron-secret'))).toBe(
+        true
+      );
+    });
+
+    it('should reject a missing or wrong token', () => {
+      expect(isCronRequestAuthorized(cronRequest())).toBe(false);
+      expect(isCronRequestAuthorized(cronRequest('Bearer other'))).toBe(false);
+      expect(isCronRequestAuthorized(cronRequest('cron-secret'))).toBe(false);
+    });
+
+    it('should reject every request while CRON_SECRET is not set', () => {
+      vi.stubEnv('CRON_SECRET', '');
+
+      expect(isCronRequestAuthorized(cronRequest('Bearer '))).toBe(false);
+    });
+  });
+
+  it('should only call the handler for authorized requests', async () => {
+    const handler = vi.fn(() => NextResponse.json({ success: true }));
+    const route = withCronAuth(handler);
+
+    const denied = await route(cronRequest('Bearer other'));
+    const allowed = await route(cronRequest('Bearer cron-secret'));
+
+    expect(denied.status).toBe(401);
+    expect(allowed.status).toBe(200);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
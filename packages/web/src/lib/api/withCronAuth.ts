@@ -0,0 +1,81 @@
+/**
+ * Scheduler Authentication Wrapper for API Routes
+ *
+ * Cron routes (src/app/api/cron) are called by a scheduler, not a signed-in
+ * user, so they are authenticated with a shared secret instead of a session:
+ *
+ *   Authorization: Bearer <CRON_SECRET>
+ *
+ * Usage:
+ * ```typescript
+ * import { withCronAuth } from '@/lib/api';
+ *
+ * export const POST = withCronAuth(async () => {
+ *   const summary = await processSomething();
+ *   return NextResponse.json({ success: true, data: summary });
+ * });
+ * ```
+ *
+ * Schedulers: the compose `scheduler` service (packages/infra/compose.yaml)
+ * and Cloud Scheduler jobs (packages/infra/pulumi/gcp/scheduling).
+ */
+
+import { timingSafeEqual } from 'crypto';
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { unauthorized } from './errorHandler';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Scheduler route handler function signature
+ */
+export type CronHandler = (
+  request: NextRequest
+) => Promise<NextResponse> | NextResponse;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Check the request's bearer token against CRON_SECRET
+ * Always false while CRON_SECRET is not set, so cron routes stay closed
+ * until a secret is configured.
+ */
+export function isCronRequestAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const authorization = request.headers.get('authorization');
+
+  if (!secret || !authorization?.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const expected = Buffer.from(secret);
+  const received = Buffer.from(authorization.slice('Bearer '.length));
+
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+// ============================================================================
+// Higher-Order Function
+// ============================================================================
+
+/**
+ * Wraps a scheduler route handler with the CRON_SECRET check
+ * Returns 401 unless the request carries the secret as a bearer token.
+ */
+export function withCronAuth(handler: CronHandler) {
+  return async (request: NextRequest): Promise<NextResponse> => {
+    if (!isCronRequestAuthorized(request)) {
+      return unauthorized('A valid scheduler token is required');
+    }
+
+    return handler(request);
+  };
+}
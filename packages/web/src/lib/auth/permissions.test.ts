@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  hasAllPermissions,
+  hasPermission,
+  normalizeRole,
+  Permission,
+  ROLE_PERMISSIONS,
+} from './permissions';
+
+describe('permissions', () => {
+  describe('normalizeRole', () => {
+    it('should keep known roles', () => {
+      expect(normalizeRole('buyer')).toBe('buyer');
+      expect(normalizeRole('admin')).toBe('admin');
+    });
+
+    it('should fall back to requester for unknown or missing roles', () => {
+      expect(normalizeRole(undefined)).toBe('requester');
+      expect(normalizeRole('superuser')).toBe('requester');
+    });
+  });
+
+  describe('policy map', () => {
+    it('should only let buyers and admins edit catalog items', () => {
+      expect(hasPermission('requester', Permission.CatalogUpdate)).toBe(false);
+      expect(hasPermission('buyer', Permission.CatalogUpdate)).toBe(true);
+      expect(hasPermission('admin', Permission.CatalogUpdate)).toBe(true);
+    });
+
+    it("should only let admins view other users' usage", () => {
+      expect(hasPermission('requester', Permission.UsageReadAll)).toBe(false);
+      expect(hasPermission('buyer', Permission.UsageReadAll)).toBe(false);
+      expect(hasPermission('admin', Permission.UsageReadAll)).toBe(true);
+    });
+
+    it('should only let admins manage budgets', () => {
+      expect(hasPermission('requester', Permission.BudgetManage)).toBe(false);
+      expect(hasPermission('buyer', Permission.BudgetManage)).toBe(false);
+      expect(hasPermission('admin', Permission.BudgetManage)).toBe(true);
+      expect(hasPermission('requester', Permission.BudgetRead)).toBe(true);
+    });
+
+    it('should only let admins manage delivery locations', () => {
+      for (const role of ['requester', 'buyer'] as const) {
+        expect(hasPermission(role, Permission.DeliveryLocationManage)).toBe(
+          false
+        );
+      }
+      expect(hasPermission('admin', Permission.DeliveryLocationManage)).toBe(
+        true
+      );
+    });
+
+    it('should only let buyers and admins manage suppliers', () => {
+      expect(hasPermission('requester', Permission.SupplierManage)).toBe(false);
+      expect(hasPermission('buyer', Permission.SupplierManage)).toBe(true);
+      expect(hasPermission('admin', Permission.SupplierManage)).toBe(true);
+      expect(hasPermission('requester', Permission.SupplierRead)).toBe(true);
+    });
+
+    it('should only let buyers and admins view and manage purchase orders', () => {
+      for (const permission of [
+        Permission.PurchaseOrderRead,
+        Permission.PurchaseOrderManage,
+      ]) {
+        expect(hasPermission('requester', permission)).toBe(false);
+        expect(hasPermission('buyer', permission)).toBe(true);
+        expect(hasPermission('admin', permission)).toBe(true);
+      }
+    });
+
+    it('should only let buyers and admins record receipts and invoices', () => {
+      for (const permission of [
+        Permission.ReceivingManage,
+        Permission.InvoiceManage,
+      ]) {
+        expect(hasPermission('requester', permission)).toBe(false);
+        expect(hasPermission('buyer', permission)).toBe(true);
+        expect(hasPermission('admin', permission)).toBe(true);
+      }
+    });
+
+    it('should only let admins operate the ERP integration', () => {
+      expect(hasPermission('requester', Permission.ErpManage)).toBe(false);
+      expect(hasPermission('buyer', Permission.ErpManage)).toBe(false);
+      expect(hasPermission('admin', Permission.ErpManage)).toBe(true);
+    });
+
+    it('should only let buyers and admins bulk import catalog items', () => {
+      expect(hasPermission('requester', Permission.CatalogImport)).toBe(false);
+      expect(hasPermission('buyer', Permission.CatalogImport)).toBe(true);
+      expect(hasPermission('admin', Permission.CatalogImport)).toBe(true);
+    });
+
+    it('should only let buyers and admins review registered items', () => {
+      expect(hasPermission('requester', Permission.CatalogReview)).toBe(false);
+      expect(hasPermission('buyer', Permission.CatalogReview)).toBe(true);
+      expect(hasPermission('admin', Permission.CatalogReview)).toBe(true);
+    });
+
+    it('should only let admins edit search synonyms', () => {
+      expect(hasPermission('requester', Permission.CatalogSynonymManage)).toBe(
+        false
+      );
+      expect(hasPermission('buyer', Permission.CatalogSynonymManage)).toBe(
+        false
+      );
+      expect(hasPermission('admin', Permission.CatalogSynonymManage)).toBe(
+        true
+      );
+    });
+
+    it('should only let admins edit the category taxonomy', () => {
+      expect(hasPermission('requester', Permission.CatalogCategoryManage)).toBe(
+        false
+      );
+      expect(hasPermission('buyer', Permission.CatalogCategoryManage)).toBe(
+        false
+      );
+      expect(hasPermission('admin', Permission.CatalogCategoryManage)).toBe(
+        true
+      );
+    });
+
+    it('should only let buyers and admins view spend analytics', () => {
+      expect(hasPermission('requester', Permission.SpendAnalyticsRead)).toBe(
+        false
+      );
+      expect(hasPermission('buyer', Permission.SpendAnalyticsRead)).toBe(true);
+      expect(hasPermission('admin', Permission.SpendAnalyticsRead)).toBe(true);
+    });
+
+    it('should only let admins delete catalog items', () => {
+      expect(hasPermission('requester', Permission.CatalogDelete)).toBe(false);
+      expect(hasPermission('buyer', Permission.CatalogDelete)).toBe(false);
+      expect(hasPermission('admin', Permission.CatalogDelete)).toBe(true);
+    });
+
+    it('should only let admins manage webhooks', () => {
+      expect(hasPermission('requester', Permission.WebhookManage)).toBe(false);
+      expect(hasPermission('buyer', Permission.WebhookManage)).toBe(false);
+      expect(hasPermission('admin', Permission.WebhookManage)).toBe(true);
+    });
+
+    it('should let every role use the core purchasing flow', () => {
+      const core = [
+        Permission.CatalogRead,
+        Permission.CartManage,
+        Permission.PurchaseCreate,
+        Permission.AgentUse,
+      ];
+
+      for (const role of ['requester', 'buyer', 'admin']) {
+        expect(hasAllPermissions(role, core)).toBe(true);
+      }
+    });
+
+    it('should grant admins every permission', () => {
+      expect(ROLE_PERMISSIONS.admin).toEqual(Object.values(Permission));
+    });
+
+    it('should treat unknown roles as requesters', () => {
+      expect(hasPermission('superuser', Permission.UserManage)).toBe(false);
+      expect(hasPermission(undefined, Permission.CatalogRead)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Role-Based Access Control Policy
+ *
+ * Central permission map for ProcureFlow roles:
+ * - requester: employees browsing the catalog and submitting purchase requests
+ * - buyer: procurement specialists who maintain the catalog and review requests
+ * - admin: system administrators with full access
+ *
+ * API routes declare the permissions they need via `withAuth({ permissions })`.
+ * Keep this module free of server-only imports so UI components can use
+ * `hasPermission` to hide actions the user cannot perform.
+ */
+
+import type { User } from '@/domain/entities';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Role names (mirror UserRole in user.schema.ts)
+ */
+export type Role = NonNullable<User['role']>;
+
+/**
+ * All known roles
+ */
+export const ROLES: readonly Role[] = ['requester', 'buyer', 'admin'];
+
+/**
+ * Default role for users without one (matches the schema default)
+ */
+export const DEFAULT_ROLE: Role = 'requester';
+
+/**
+ * Permissions checked by API routes
+ */
+export enum Permission {
+  // Catalog
+  CatalogRead = 'catalog:read',
+  CatalogCreate = 'catalog:create',
+  CatalogUpdate = 'catalog:update',
+  CatalogImport = 'catalog:import',
+  CatalogDelete = 'catalog:delete',
+  CatalogReview = 'catalog:review',
+  CatalogSynonymManage = 'catalog:synonyms',
+  CatalogCategoryManage = 'catalog:categories',
+
+  // Cart & checkout
+  CartManage = 'cart:manage',
+  PurchaseCreate = 'purchase:create',
+  PurchaseRead = 'purchase:read',
+  DeliveryLocationManage = 'delivery_locations:manage',
+
+  // Approvals
+  ApprovalReview = 'approval:review',
+
+  // Budgets & spend analytics
+  BudgetRead = 'budgets:read',
+  BudgetManage = 'budgets:manage',
+  SpendAnalyticsRead = 'spend:read',
+
+  // Suppliers
+  SupplierRead = 'suppliers:read',
+  SupplierManage = 'suppliers:manage',
+
+  // Purchase orders
+  PurchaseOrderRead = 'purchase_orders:read',
+  PurchaseOrderManage = 'purchase_orders:manage',
+
+  // Receiving & invoice matching
+  ReceivingManage = 'receiving:manage',
+  InvoiceManage = 'invoices:manage',
+
+  // ERP integration
+  ErpManage = 'erp:manage',
+
+  // Webhooks
+  WebhookManage = 'webhooks:manage',
+
+  // Agent
+  AgentUse = 'agent:use',
+
+  // Usage & settings
+  UsageReadOwn = 'usage:read_own',
+  UsageReadAll = 'usage:read_all',
+  SettingsManageOwn = 'settings:manage_own',
+
+  // Administration
+  UserManage = 'users:manage',
+}
+
+// ============================================================================
+// Policy Map
+// ============================================================================
+
+/**
+ * Permissions shared by every authenticated user
+ */
+const BASE_PERMISSIONS: Permission[] = [
+  Permission.CatalogRead,
+  Permission.CatalogCreate,
+  Permission.CartManage,
+  Permission.PurchaseCreate,
+  Permission.PurchaseRead,
+  Permission.BudgetRead,
+  Permission.SupplierRead,
+  Permission.AgentUse,
+  Permission.UsageReadOwn,
+  Permission.SettingsManageOwn,
+];
+
+/**
+ * Role → permissions policy
+ * - Only buyers (and admins) can edit catalog items, including prices
+ * - Only buyers (and admins) can bulk import catalog items
+ * - Only buyers (and admins) can archive catalog items; only admins can
+ *   delete them
+ * - Only buyers (and admins) can review user-registered catalog items;
+ *   items they register themselves skip the review queue
+ * - Only admins can edit the catalog search synonym dictionary
+ * - Only admins can edit the category taxonomy
+ * - Only buyers (and admins) can review purchase requests
+ * - Only admins can maintain the delivery location list
+ * - Only admins can view other users' usage or assign elevated roles
+ * - Only admins can manage budgets; others see their own cost center's budget
+ * - Only buyers (and admins) can view organization-wide spend analytics
+ * - Only buyers (and admins) can maintain supplier master data
+ * - Only buyers (and admins) can view and manage purchase orders
+ * - Only buyers (and admins) can record goods receipts and supplier invoices
+ * - Only admins can operate the ERP outbox and ERP submissions
+ * - Only admins can register webhook endpoints and redeliver events
+ */
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  requester: BASE_PERMISSIONS,
+  buyer: [
+    ...BASE_PERMISSIONS,
+    Permission.CatalogUpdate,
+    Permission.CatalogImport,
+    Permission.CatalogReview,
+    Permission.ApprovalReview,
+    Permission.SpendAnalyticsRead,
+    Permission.SupplierManage,
+    Permission.PurchaseOrderRead,
+    Permission.PurchaseOrderManage,
+    Permission.ReceivingManage,
+    Permission.InvoiceManage,
+  ],
+  admin: Object.values(Permission),
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Narrow an arbitrary role value (e.g., from the JWT) to a known role
+ * Unknown or missing roles fall back to the least-privileged role.
+ */
+export function normalizeRole(role: unknown): Role {
+  return ROLES.includes(role as Role) ? (role as Role) : DEFAULT_ROLE;
+}
+
+/**
+ * Check whether a role grants a permission
+ */
+export function hasPermission(role: unknown, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[normalizeRole(role)].includes(permission);
+}
+
+/**
+ * Check whether a role grants all of the given permissions
+ */
+export function hasAllPermissions(
+  role: unknown,
+  permissions: readonly Permission[]
+): boolean {
+  return permissions.every((permission) => hasPermission(role, permission));
+}
@@ -163,9 +163,33 @@ export function generateSearchCacheKey(params: {
   limit?: number;
   maxPrice?: number;
   includeArchived?: boolean;
+  minPrice?: number;
+  categories?: string[];
+  branch?: string[];
+  supplierIds?: string[];
+  units?: string[];
+  statuses?: string[];
+  sort?: string;
+  mode?: string;
+  facets?: boolean;
+  cursor?: string;
 }): string {
-  const { q, limit, maxPrice, includeArchived } = params;
-  return `search:${q || 'all'}:${limit || 10}:${maxPrice || 'noprice'}:${includeArchived || false}`;
+  const { q, limit, maxPrice, includeArchived, ...filters } = params;
+  const base = `search:${q || 'all'}:${limit || 10}:${maxPrice || 'noprice'}:${includeArchived || false}`;
+
+  // Facet filters (sorted so the same selection always hits the same key)
+  const extra = Object.entries(filters)
+    .filter(([, value]) =>
+      Array.isArray(value) ? value.length > 0 : value !== undefined
+    )
+    .map(([key, value]) =>
+      Array.isArray(value)
+        ? `${key}=${[...value].sort().join('|')}`
+        : `${key}=${value}`
+    )
+    .sort();
+
+  return extra.length > 0 ? `${base}:${extra.join(':')}` : base;
 }
 
 /**
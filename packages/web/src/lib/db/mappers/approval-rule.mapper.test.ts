@@ -0,0 +1,70 @@
+import { Types } from 'mongoose';
+import { describe, expect, it } from 'vitest';
+
+import type { ApprovalRuleDocument } from '@/domain/documents';
+
+import { mapApprovalRuleToEntity } from './approval-rule.mapper';
+
+describe('approval-rule.mapper', () => {
+  describe('mapApprovalRuleToEntity', () => {
+    it('should map approval rule document to entity correctly', () => {
+      const mockRule: ApprovalRuleDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        name: 'High value purchases',
+        description: 'Admin sign-off above 5000',
+        minTotal: 5000,
+        categories: ['Electronics'],
+        steps: [
+          {
+            name: 'Admin approval',
+            approverRole: 'admin',
+            approverIds: [new Types.ObjectId('507f1f77bcf86cd799439012')],
+          },
+        ],
+        priority: 20,
+        isActive: true,
+        createdAt: new Date('2024-01-15T10:00:00Z'),
+        updatedAt: new Date('2024-01-15T10:00:00Z'),
+      };
+
+      const result = mapApprovalRuleToEntity(mockRule);
+
+      expect(result).toEqual({
+        id: '507f1f77bcf86cd799439011',
+        name: 'High value purchases',
+        description: 'Admin sign-off above 5000',
+        minTotal: 5000,
+        maxTotal: undefined,
+        categories: ['Electronics'],
+        steps: [
+          {
+            name: 'Admin approval',
+            approverRole: 'admin',
+            approverIds: ['507f1f77bcf86cd799439012'],
+          },
+        ],
+        priority: 20,
+        isActive: true,
+        createdAt: mockRule.createdAt,
+        updatedAt: mockRule.updatedAt,
+      });
+    });
+
+    it('should default missing categories and approver IDs to empty arrays', () => {
+      const mockRule: ApprovalRuleDocument = {
+        _id: '507f1f77bcf86cd799439011',
+        name: 'Buyer review',
+        steps: [{ name: 'Buyer review', approverRole: 'buyer' }],
+        priority: 10,
+        isActive: true,
+        createdAt: new Date('2024-01-15'),
+        updatedAt: new Date('2024-01-15'),
+      };
+
+      const result = mapApprovalRuleToEntity(mockRule);
+
+      expect(result.categories).toEqual([]);
+      expect(result.steps[0].approverIds).toEqual([]);
+    });
+  });
+});
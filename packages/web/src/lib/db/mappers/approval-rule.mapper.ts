@@ -0,0 +1,33 @@
+/**
+ * Approval Rule Mapper
+ *
+ * Converts Mongoose documents to domain entities for approval rules.
+ */
+
+import type { ApprovalRuleDocument } from '@/domain/documents';
+import type { ApprovalRule } from '@/domain/entities';
+
+/**
+ * Maps an ApprovalRuleDocument from Mongoose to an ApprovalRule domain entity
+ */
+export function mapApprovalRuleToEntity(
+  doc: ApprovalRuleDocument
+): ApprovalRule {
+  return {
+    id: doc._id.toString(),
+    name: doc.name,
+    description: doc.description,
+    minTotal: doc.minTotal,
+    maxTotal: doc.maxTotal,
+    categories: doc.categories || [],
+    steps: doc.steps.map((step) => ({
+      name: step.name,
+      approverRole: step.approverRole,
+      approverIds: (step.approverIds || []).map((id) => id.toString()),
+    })),
+    priority: doc.priority,
+    isActive: doc.isActive,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  };
+}
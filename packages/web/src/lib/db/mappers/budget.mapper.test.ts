@@ -0,0 +1,64 @@
+import { Types } from 'mongoose';
+import { describe, expect, it } from 'vitest';
+
+import type { BudgetDocument } from '@/domain/documents';
+import { BudgetEnforcement } from '@/domain/entities';
+
+import { mapBudgetToEntity } from './budget.mapper';
+
+describe('budget.mapper', () => {
+  describe('mapBudgetToEntity', () => {
+    it('should map budget document to entity correctly', () => {
+      const mockBudget: BudgetDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        name: 'Operations FY2025',
+        costCenter: 'CC-100',
+        department: 'Operations',
+        periodStart: new Date('2025-01-01T00:00:00Z'),
+        periodEnd: new Date('2025-12-31T23:59:59Z'),
+        amount: 50000,
+        enforcement: BudgetEnforcement.Block,
+        isActive: true,
+        createdAt: new Date('2024-12-15T10:00:00Z'),
+        updatedAt: new Date('2024-12-15T10:00:00Z'),
+      };
+
+      const result = mapBudgetToEntity(mockBudget);
+
+      expect(result).toEqual({
+        id: '507f1f77bcf86cd799439011',
+        name: 'Operations FY2025',
+        costCenter: 'CC-100',
+        department: 'Operations',
+        periodStart: mockBudget.periodStart,
+        periodEnd: mockBudget.periodEnd,
+        amount: 50000,
+        enforcement: BudgetEnforcement.Block,
+        isActive: true,
+        createdAt: mockBudget.createdAt,
+        updatedAt: mockBudget.updatedAt,
+      });
+    });
+
+    it('should handle string _id and missing department', () => {
+      const mockBudget: BudgetDocument = {
+        _id: '507f1f77bcf86cd799439011',
+        name: 'Marketing Q1',
+        costCenter: 'CC-200',
+        periodStart: new Date('2025-01-01'),
+        periodEnd: new Date('2025-03-31'),
+        amount: 10000,
+        enforcement: BudgetEnforcement.Warn,
+        isActive: false,
+        createdAt: new Date('2024-12-15'),
+        updatedAt: new Date('2024-12-15'),
+      };
+
+      const result = mapBudgetToEntity(mockBudget);
+
+      expect(result.id).toBe('507f1f77bcf86cd799439011');
+      expect(result.department).toBeUndefined();
+      expect(result.isActive).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Budget Mapper
+ *
+ * Converts Mongoose documents to domain entities for budgets.
+ */
+
+import type { BudgetDocument } from '@/domain/documents';
+import type { Budget } from '@/domain/entities';
+
+/**
+ * Maps a BudgetDocument from Mongoose to a Budget domain entity
+ */
+export function mapBudgetToEntity(doc: BudgetDocument): Budget {
+  return {
+    id: doc._id.toString(),
+    name: doc.name,
+    costCenter: doc.costCenter,
+    department: doc.department,
+    periodStart: doc.periodStart,
+    periodEnd: doc.periodEnd,
+    amount: doc.amount,
+    enforcement: doc.enforcement,
+    isActive: doc.isActive,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  };
+}
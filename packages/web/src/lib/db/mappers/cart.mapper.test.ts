@@ -9,6 +9,7 @@ import { Types } from 'mongoose';
 import { describe, expect, it } from 'vitest';
 
 import type { CartDocument, CartItemDocument } from '@/domain/documents';
+import { CartRole } from '@/domain/entities';
 
 import { mapCartToEntity, mapCartItemToEntity } from './cart.mapper';
 
@@ -256,5 +257,81 @@ describe('cart.mapper', () => {
       expect(result.items[0].itemId).toBe(itemId1.toString());
       expect(result.items[1].itemId).toBe(itemId2.toString());
     });
+
+    it('should map a shared cart with members, attribution and version', () => {
+      // Arrange
+      const ownerId = new Types.ObjectId();
+      const collaboratorId = new Types.ObjectId();
+      const mockCartDoc: CartDocument = {
+        _id: new Types.ObjectId(),
+        userId: null,
+        name: 'Office move',
+        isShared: true,
+        members: [
+          {
+            userId: ownerId,
+            name: 'Olivia Owner',
+            role: CartRole.Owner,
+            addedAt: new Date('2024-01-01'),
+          },
+          {
+            userId: collaboratorId,
+            name: 'Carl Collaborator',
+            role: CartRole.Collaborator,
+            addedAt: new Date('2024-01-02'),
+          },
+        ],
+        items: [
+          {
+            itemId: new Types.ObjectId(),
+            name: 'Desk',
+            unitPrice: 250,
+            quantity: 2,
+            addedBy: collaboratorId,
+            addedAt: new Date('2024-01-03'),
+          },
+        ],
+        totalCost: 500,
+        createdAt: new Date('2024-01-01'),
+        updatedAt: new Date('2024-01-03'),
+        __v: 4,
+      };
+
+      // Act
+      const result = mapCartToEntity(mockCartDoc);
+
+      // Assert
+      expect(result.userId).toBe(ownerId.toString());
+      expect(result.name).toBe('Office move');
+      expect(result.isShared).toBe(true);
+      expect(result.version).toBe(4);
+      expect(result.members.map((member) => member.role)).toEqual([
+        CartRole.Owner,
+        CartRole.Collaborator,
+      ]);
+      expect(result.items[0].addedBy).toBe(collaboratorId.toString());
+      expect(result.items[0].addedByName).toBe('Carl Collaborator');
+    });
+
+    it('should default a personal cart to no members and version 0', () => {
+      // Arrange
+      const mockCartDoc: CartDocument = {
+        _id: new Types.ObjectId(),
+        userId: new Types.ObjectId(),
+        items: [],
+        totalCost: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      // Act
+      const result = mapCartToEntity(mockCartDoc);
+
+      // Assert
+      expect(result.isShared).toBe(false);
+      expect(result.members).toEqual([]);
+      expect(result.version).toBe(0);
+      expect(result).not.toHaveProperty('name');
+    });
   });
 });
@@ -5,13 +5,23 @@
  * Eliminates code duplication across services.
  */
 
-import type { CartDocument, CartItemDocument } from '@/domain/documents';
-import type { Cart, CartItem } from '@/domain/entities';
+import type {
+  CartDocument,
+  CartItemDocument,
+  CartMemberDocument,
+} from '@/domain/documents';
+import type { Cart, CartItem, CartMember } from '@/domain/entities';
+import { CartRole } from '@/domain/entities';
 
 /**
  * Maps a CartItemDocument from Mongoose to a CartItem domain entity
+ *
+ * @param memberNames - Names by user ID, to attribute lines of shared carts
  */
-export function mapCartItemToEntity(item: CartItemDocument): CartItem {
+export function mapCartItemToEntity(
+  item: CartItemDocument,
+  memberNames?: Map<string, string>
+): CartItem {
   // Debug log to see what data we're receiving
   if (!item.name || item.unitPrice === undefined) {
     console.warn('[mapCartItemToEntity] Missing cart item data:', {
@@ -24,6 +34,9 @@ export function mapCartItemToEntity(item: CartItemDocument): CartItem {
     });
   }
 
+  const addedBy = item.addedBy?.toString();
+  const addedByName = addedBy ? memberNames?.get(addedBy) : undefined;
+
   return {
     itemId: item.itemId?.toString() || '',
     name: item.name || 'Unknown Item',
@@ -31,6 +44,20 @@ export function mapCartItemToEntity(item: CartItemDocument): CartItem {
     quantity: item.quantity || 1,
     subtotal: item.subtotal || (item.unitPrice || 0) * (item.quantity || 1),
     addedAt: item.addedAt || new Date(),
+    ...(addedBy && { addedBy }),
+    ...(addedByName && { addedByName }),
+  };
+}
+
+/**
+ * Maps a CartMemberDocument to a CartMember domain entity
+ */
+export function mapCartMemberToEntity(member: CartMemberDocument): CartMember {
+  return {
+    userId: member.userId.toString(),
+    name: member.name,
+    role: member.role,
+    addedAt: member.addedAt,
   };
 }
 
@@ -38,12 +65,23 @@ export function mapCartItemToEntity(item: CartItemDocument): CartItem {
  * Maps a CartDocument from Mongoose to a Cart domain entity
  */
 export function mapCartToEntity(cart: CartDocument): Cart {
-  const items = cart.items.map(mapCartItemToEntity);
+  const members = (cart.members ?? []).map(mapCartMemberToEntity);
+  const memberNames = new Map(
+    members.map((member) => [member.userId, member.name])
+  );
+  const items = cart.items.map((item) =>
+    mapCartItemToEntity(item, memberNames)
+  );
   const total = items.reduce((sum, item) => sum + item.subtotal, 0);
+  const owner = members.find((member) => member.role === CartRole.Owner);
 
   return {
     id: cart._id.toString(),
-    userId: cart.userId.toString(),
+    userId: cart.userId?.toString() ?? owner?.userId ?? '',
+    ...(cart.name && { name: cart.name }),
+    isShared: Boolean(cart.isShared),
+    members,
+    version: cart.__v ?? 0,
     items,
     totalCost: total,
     createdAt: cart.createdAt,
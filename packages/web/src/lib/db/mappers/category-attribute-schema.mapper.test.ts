@@ -0,0 +1,59 @@
+import { Types } from 'mongoose';
+import { describe, expect, it } from 'vitest';
+
+import type { CategoryAttributeSchemaDocument } from '@/domain/documents';
+import { ItemAttributeType } from '@/domain/entities';
+
+import { mapCategoryAttributeSchemaToEntity } from './category-attribute-schema.mapper';
+
+describe('category-attribute-schema.mapper', () => {
+  describe('mapCategoryAttributeSchemaToEntity', () => {
+    it('should map category attribute schema document to entity correctly', () => {
+      const mockSchema: CategoryAttributeSchemaDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        category: 'Office Supplies',
+        attributes: [
+          {
+            key: 'color',
+            label: 'Color',
+            type: ItemAttributeType.Select,
+            options: ['Blue', 'Black'],
+            required: true,
+          },
+          {
+            key: 'tip_size',
+            label: 'Tip size',
+            type: ItemAttributeType.Number,
+            unit: 'mm',
+            required: false,
+          },
+        ],
+        createdAt: new Date('2025-01-10T10:00:00Z'),
+        updatedAt: new Date('2025-01-11T10:00:00Z'),
+      };
+
+      expect(mapCategoryAttributeSchemaToEntity(mockSchema)).toEqual({
+        id: '507f1f77bcf86cd799439011',
+        category: 'Office Supplies',
+        attributes: [
+          {
+            key: 'color',
+            label: 'Color',
+            type: ItemAttributeType.Select,
+            options: ['Blue', 'Black'],
+            required: true,
+          },
+          {
+            key: 'tip_size',
+            label: 'Tip size',
+            type: ItemAttributeType.Number,
+            unit: 'mm',
+            required: false,
+          },
+        ],
+        createdAt: mockSchema.createdAt,
+        updatedAt: mockSchema.updatedAt,
+      });
+    });
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Category Attribute Schema Mapper
+ *
+ * Converts Mongoose documents to domain entities for category attribute
+ * schemas.
+ */
+
+import type { CategoryAttributeSchemaDocument } from '@/domain/documents';
+import type {
+  CategoryAttributeSchema,
+  ItemAttributeDefinition,
+} from '@/domain/entities';
+
+/**
+ * Maps a CategoryAttributeSchemaDocument from Mongoose to a
+ * CategoryAttributeSchema domain entity
+ */
+export function mapCategoryAttributeSchemaToEntity(
+  schema: CategoryAttributeSchemaDocument
+): CategoryAttributeSchema {
+  return {
+    id: schema._id.toString(),
+    category: schema.category,
+    attributes: (schema.attributes ?? []).map(
+      (attribute): ItemAttributeDefinition => ({
+        key: attribute.key,
+        label: attribute.label,
+        type: attribute.type,
+        options: attribute.options && [...attribute.options],
+        unit: attribute.unit,
+        required: attribute.required ?? false,
+      })
+    ),
+    createdAt: schema.createdAt,
+    updatedAt: schema.updatedAt,
+  };
+}
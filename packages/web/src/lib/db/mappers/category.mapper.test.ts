@@ -0,0 +1,46 @@
+import { Types } from 'mongoose';
+import { describe, expect, it } from 'vitest';
+
+import type { CategoryDocument } from '@/domain/documents';
+
+import { mapCategoryToEntity } from './category.mapper';
+
+describe('category.mapper', () => {
+  describe('mapCategoryToEntity', () => {
+    it('should map category document to entity correctly', () => {
+      const mockCategory: CategoryDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        name: 'Copy Paper',
+        key: 'copy paper',
+        code: '14111507',
+        description: 'Printer and copier paper',
+        parentCategoryId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        createdAt: new Date('2025-01-10T10:00:00Z'),
+        updatedAt: new Date('2025-01-11T10:00:00Z'),
+      };
+
+      expect(mapCategoryToEntity(mockCategory)).toEqual({
+        id: '507f1f77bcf86cd799439011',
+        name: 'Copy Paper',
+        code: '14111507',
+        description: 'Printer and copier paper',
+        parentCategoryId: '507f1f77bcf86cd799439012',
+        createdAt: mockCategory.createdAt,
+        updatedAt: mockCategory.updatedAt,
+      });
+    });
+
+    it('should leave root categories without a parent', () => {
+      const entity = mapCategoryToEntity({
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        name: 'Office Supplies',
+        key: 'office supplies',
+        createdAt: new Date('2025-01-10T10:00:00Z'),
+        updatedAt: new Date('2025-01-10T10:00:00Z'),
+      });
+
+      expect(entity.parentCategoryId).toBeUndefined();
+      expect(entity.code).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Category Mapper
+ *
+ * Converts Mongoose documents to domain entities for taxonomy categories.
+ */
+
+import type { CategoryDocument } from '@/domain/documents';
+import type { Category } from '@/domain/entities';
+
+/**
+ * Maps a CategoryDocument from Mongoose to a Category domain entity
+ */
+export function mapCategoryToEntity(category: CategoryDocument): Category {
+  return {
+    id: category._id.toString(),
+    name: category.name,
+    code: category.code,
+    description: category.description,
+    parentCategoryId: category.parentCategoryId?.toString(),
+    createdAt: category.createdAt,
+    updatedAt: category.updatedAt,
+  };
+}
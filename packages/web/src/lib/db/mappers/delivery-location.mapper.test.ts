@@ -0,0 +1,44 @@
+import { Types } from 'mongoose';
+import { describe, expect, it } from 'vitest';
+
+import type { DeliveryLocationDocument } from '@/domain/documents';
+
+import { mapDeliveryLocationToEntity } from './delivery-location.mapper';
+
+describe('delivery-location.mapper', () => {
+  describe('mapDeliveryLocationToEntity', () => {
+    it('should map delivery location document to entity correctly', () => {
+      const mockLocation: DeliveryLocationDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        name: 'HQ - Receiving dock',
+        address: '1 Main St, Springfield',
+        isActive: false,
+        createdAt: new Date('2025-01-10T10:00:00Z'),
+        updatedAt: new Date('2025-02-01T10:00:00Z'),
+      };
+
+      const result = mapDeliveryLocationToEntity(mockLocation);
+
+      expect(result).toEqual({
+        id: '507f1f77bcf86cd799439011',
+        name: 'HQ - Receiving dock',
+        address: '1 Main St, Springfield',
+        isActive: false,
+        createdAt: mockLocation.createdAt,
+        updatedAt: mockLocation.updatedAt,
+      });
+    });
+
+    it('should default to an active location', () => {
+      const result = mapDeliveryLocationToEntity({
+        _id: new Types.ObjectId(),
+        name: 'Warehouse',
+        address: '9 Dock Rd',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      } as DeliveryLocationDocument);
+
+      expect(result.isActive).toBe(true);
+    });
+  });
+});
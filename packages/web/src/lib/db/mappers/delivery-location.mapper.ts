@@ -0,0 +1,25 @@
+/**
+ * Delivery Location Mapper
+ *
+ * Converts Mongoose documents to domain entities for delivery locations.
+ */
+
+import type { DeliveryLocationDocument } from '@/domain/documents';
+import type { DeliveryLocation } from '@/domain/entities';
+
+/**
+ * Maps a DeliveryLocationDocument from Mongoose to a DeliveryLocation
+ * domain entity
+ */
+export function mapDeliveryLocationToEntity(
+  doc: DeliveryLocationDocument
+): DeliveryLocation {
+  return {
+    id: doc._id.toString(),
+    name: doc.name,
+    address: doc.address,
+    isActive: doc.isActive ?? true,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  };
+}
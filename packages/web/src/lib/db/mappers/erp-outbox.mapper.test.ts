@@ -0,0 +1,48 @@
+import { Types } from 'mongoose';
+import { describe, expect, it } from 'vitest';
+
+import type { ErpOutboxEntryDocument } from '@/domain/documents';
+import { ErpOperation, ErpOutboxStatus } from '@/domain/entities';
+
+import { mapErpOutboxEntryToEntity } from './erp-outbox.mapper';
+
+describe('erp-outbox.mapper', () => {
+  describe('mapErpOutboxEntryToEntity', () => {
+    it('should map outbox entry document to entity correctly', () => {
+      const mockEntry: ErpOutboxEntryDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        purchaseRequestId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        requestNumber: 'PR-2025-0007',
+        operation: ErpOperation.Submit,
+        connector: 'http',
+        status: ErpOutboxStatus.Pending,
+        attempts: 2,
+        nextAttemptAt: new Date('2025-03-01T10:05:00Z'),
+        lockedAt: null,
+        lastError: 'ERP responded with 503',
+        createdAt: new Date('2025-03-01T10:00:00Z'),
+        updatedAt: new Date('2025-03-01T10:01:00Z'),
+        __v: 0,
+      };
+
+      const result = mapErpOutboxEntryToEntity(mockEntry);
+
+      expect(result).toEqual({
+        id: '507f1f77bcf86cd799439011',
+        purchaseRequestId: '507f1f77bcf86cd799439012',
+        requestNumber: 'PR-2025-0007',
+        operation: ErpOperation.Submit,
+        connector: 'http',
+        status: ErpOutboxStatus.Pending,
+        attempts: 2,
+        nextAttemptAt: mockEntry.nextAttemptAt,
+        lastError: 'ERP responded with 503',
+        erpReference: undefined,
+        completedAt: undefined,
+        createdAt: mockEntry.createdAt,
+        updatedAt: mockEntry.updatedAt,
+      });
+      expect(result).not.toHaveProperty('lockedAt');
+    });
+  });
+});
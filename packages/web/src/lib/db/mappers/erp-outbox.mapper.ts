@@ -0,0 +1,31 @@
+/**
+ * ERP Outbox Mapper
+ *
+ * Converts Mongoose documents to domain entities for ERP outbox entries.
+ */
+
+import type { ErpOutboxEntryDocument } from '@/domain/documents';
+import type { ErpOutboxEntry } from '@/domain/entities';
+
+/**
+ * Maps an ErpOutboxEntryDocument from Mongoose to an ErpOutboxEntry domain entity
+ */
+export function mapErpOutboxEntryToEntity(
+  entry: ErpOutboxEntryDocument
+): ErpOutboxEntry {
+  return {
+    id: entry._id.toString(),
+    purchaseRequestId: entry.purchaseRequestId.toString(),
+    requestNumber: entry.requestNumber,
+    operation: entry.operation,
+    connector: entry.connector,
+    status: entry.status,
+    attempts: entry.attempts ?? 0,
+    nextAttemptAt: entry.nextAttemptAt,
+    lastError: entry.lastError,
+    erpReference: entry.erpReference,
+    completedAt: entry.completedAt,
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+  };
+}
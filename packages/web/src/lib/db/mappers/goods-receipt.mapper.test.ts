@@ -0,0 +1,137 @@
+import { Types } from 'mongoose';
+import { describe, expect, it } from 'vitest';
+
+import type {
+  GoodsReceiptDocument,
+  SupplierInvoiceDocument,
+} from '@/domain/documents';
+import { ReceiptRejectionReason } from '@/domain/entities';
+
+import {
+  mapGoodsReceiptToEntity,
+  mapSupplierInvoiceToEntity,
+} from './goods-receipt.mapper';
+
+describe('goods-receipt.mapper', () => {
+  describe('mapGoodsReceiptToEntity', () => {
+    it('should map goods receipt document to entity correctly', () => {
+      const mockReceipt: GoodsReceiptDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        receiptNumber: 'GR-2025-0001',
+        purchaseOrderId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        poNumber: 'PO-2025-0001',
+        purchaseRequestId: new Types.ObjectId('507f1f77bcf86cd799439013'),
+        requestNumber: 'PR-2025-0001',
+        lines: [
+          {
+            itemId: new Types.ObjectId('507f1f77bcf86cd799439014'),
+            name: 'Monitor',
+            quantityReceived: 5,
+            quantityRejected: 1,
+            rejectionReason: ReceiptRejectionReason.Damaged,
+            note: 'Cracked screen',
+          },
+        ],
+        notes: 'Packing slip 4471',
+        receivedByUserId: new Types.ObjectId('507f1f77bcf86cd799439015'),
+        receivedAt: new Date('2025-03-05T09:00:00Z'),
+        createdAt: new Date('2025-03-05T09:30:00Z'),
+      };
+
+      const result = mapGoodsReceiptToEntity(mockReceipt);
+
+      expect(result).toEqual({
+        id: '507f1f77bcf86cd799439011',
+        receiptNumber: 'GR-2025-0001',
+        purchaseOrderId: '507f1f77bcf86cd799439012',
+        poNumber: 'PO-2025-0001',
+        purchaseRequestId: '507f1f77bcf86cd799439013',
+        requestNumber: 'PR-2025-0001',
+        lines: [
+          {
+            itemId: '507f1f77bcf86cd799439014',
+            itemName: 'Monitor',
+            quantityReceived: 5,
+            quantityRejected: 1,
+            rejectionReason: ReceiptRejectionReason.Damaged,
+            note: 'Cracked screen',
+          },
+        ],
+        notes: 'Packing slip 4471',
+        receivedByUserId: '507f1f77bcf86cd799439015',
+        receivedAt: mockReceipt.receivedAt,
+        createdAt: mockReceipt.createdAt,
+      });
+    });
+
+    it('should default a missing rejected quantity to 0', () => {
+      const mockReceipt = {
+        _id: '507f1f77bcf86cd799439011',
+        receiptNumber: 'GR-2025-0002',
+        purchaseOrderId: '507f1f77bcf86cd799439012',
+        poNumber: 'PO-2025-0001',
+        purchaseRequestId: '507f1f77bcf86cd799439013',
+        requestNumber: 'PR-2025-0001',
+        lines: [
+          {
+            itemId: '507f1f77bcf86cd799439014',
+            name: 'Monitor',
+            quantityReceived: 2,
+          },
+        ],
+        receivedByUserId: '507f1f77bcf86cd799439015',
+        receivedAt: new Date('2025-03-05'),
+        createdAt: new Date('2025-03-05'),
+      } as unknown as GoodsReceiptDocument;
+
+      const result = mapGoodsReceiptToEntity(mockReceipt);
+
+      expect(result.lines[0].quantityRejected).toBe(0);
+      expect(result.lines[0].rejectionReason).toBeUndefined();
+    });
+  });
+
+  describe('mapSupplierInvoiceToEntity', () => {
+    it('should map supplier invoice document to entity correctly', () => {
+      const mockInvoice: SupplierInvoiceDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439021'),
+        invoiceNumber: 'INV-8812',
+        purchaseOrderId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        supplierId: new Types.ObjectId('507f1f77bcf86cd799439022'),
+        invoiceDate: new Date('2025-03-06'),
+        lines: [
+          {
+            itemId: new Types.ObjectId('507f1f77bcf86cd799439014'),
+            quantity: 4,
+            unitPrice: 150,
+            subtotal: 600,
+          },
+        ],
+        total: 600,
+        recordedByUserId: new Types.ObjectId('507f1f77bcf86cd799439015'),
+        createdAt: new Date('2025-03-07'),
+      };
+
+      const result = mapSupplierInvoiceToEntity(mockInvoice);
+
+      expect(result).toEqual({
+        id: '507f1f77bcf86cd799439021',
+        invoiceNumber: 'INV-8812',
+        purchaseOrderId: '507f1f77bcf86cd799439012',
+        supplierId: '507f1f77bcf86cd799439022',
+        invoiceDate: mockInvoice.invoiceDate,
+        lines: [
+          {
+            itemId: '507f1f77bcf86cd799439014',
+            quantity: 4,
+            unitPrice: 150,
+            subtotal: 600,
+          },
+        ],
+        total: 600,
+        recordedByUserId: '507f1f77bcf86cd799439015',
+        createdAt: mockInvoice.createdAt,
+      });
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Goods Receipt Mapper
+ *
+ * Converts Mongoose documents to domain entities for goods receipts
+ * and supplier invoices.
+ */
+
+import type {
+  GoodsReceiptDocument,
+  GoodsReceiptLineDocument,
+  SupplierInvoiceDocument,
+  SupplierInvoiceLineDocument,
+} from '@/domain/documents';
+import type {
+  GoodsReceipt,
+  GoodsReceiptLine,
+  SupplierInvoice,
+  SupplierInvoiceLine,
+} from '@/domain/entities';
+
+/**
+ * Maps a GoodsReceiptLineDocument sub-document to a GoodsReceiptLine domain entity
+ */
+export function mapGoodsReceiptLineToEntity(
+  line: GoodsReceiptLineDocument
+): GoodsReceiptLine {
+  return {
+    itemId: line.itemId.toString(),
+    itemName: line.name,
+    quantityReceived: line.quantityReceived,
+    quantityRejected: line.quantityRejected ?? 0,
+    rejectionReason: line.rejectionReason,
+    note: line.note,
+  };
+}
+
+/**
+ * Maps a GoodsReceiptDocument from Mongoose to a GoodsReceipt domain entity
+ */
+export function mapGoodsReceiptToEntity(
+  receipt: GoodsReceiptDocument
+): GoodsReceipt {
+  return {
+    id: receipt._id.toString(),
+    receiptNumber: receipt.receiptNumber,
+    purchaseOrderId: receipt.purchaseOrderId.toString(),
+    poNumber: receipt.poNumber,
+    purchaseRequestId: receipt.purchaseRequestId.toString(),
+    requestNumber: receipt.requestNumber,
+    lines: receipt.lines.map(mapGoodsReceiptLineToEntity),
+    notes: receipt.notes,
+    receivedByUserId: receipt.receivedByUserId.toString(),
+    receivedAt: receipt.receivedAt,
+    createdAt: receipt.createdAt,
+  };
+}
+
+/**
+ * Maps a SupplierInvoiceLineDocument sub-document to a SupplierInvoiceLine domain entity
+ */
+export function mapSupplierInvoiceLineToEntity(
+  line: SupplierInvoiceLineDocument
+): SupplierInvoiceLine {
+  return {
+    itemId: line.itemId.toString(),
+    quantity: line.quantity,
+    unitPrice: line.unitPrice,
+    subtotal: line.subtotal,
+  };
+}
+
+/**
+ * Maps a SupplierInvoiceDocument from Mongoose to a SupplierInvoice domain entity
+ */
+export function mapSupplierInvoiceToEntity(
+  invoice: SupplierInvoiceDocument
+): SupplierInvoice {
+  return {
+    id: invoice._id.toString(),
+    invoiceNumber: invoice.invoiceNumber,
+    purchaseOrderId: invoice.purchaseOrderId.toString(),
+    supplierId: invoice.supplierId.toString(),
+    invoiceDate: invoice.invoiceDate,
+    lines: invoice.lines.map(mapSupplierInvoiceLineToEntity),
+    total: invoice.total,
+    recordedByUserId: invoice.recordedByUserId.toString(),
+    createdAt: invoice.createdAt,
+  };
+}
@@ -9,3 +9,15 @@ export * from './cart.mapper';
 export * from './item.mapper';
 export * from './purchase-request.mapper';
 export * from './conversation.mapper';
+export * from './approval-rule.mapper';
+export * from './budget.mapper';
+export * from './supplier.mapper';
+export * from './delivery-location.mapper';
+export * from './purchase-order.mapper';
+export * from './goods-receipt.mapper';
+export * from './erp-outbox.mapper';
+export * from './webhook.mapper';
+export * from './search-synonym.mapper';
+export * from './category-attribute-schema.mapper';
+export * from './category.mapper';
+export * from './saved-cart.mapper';
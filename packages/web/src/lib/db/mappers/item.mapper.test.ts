@@ -1,10 +1,10 @@
 import { Types } from 'mongoose';
 import { describe, expect, it } from 'vitest';
 
-import type { ItemDocument } from '@/domain/documents';
-import { ItemStatus } from '@/domain/entities';
+import type { ItemDocument, ItemRevisionDocument } from '@/domain/documents';
+import { ItemReviewDecision, ItemStatus } from '@/domain/entities';
 
-import { mapItemToEntity } from './item.mapper';
+import { mapItemRevisionToEntity, mapItemToEntity } from './item.mapper';
 
 describe('item.mapper', () => {
   describe('mapItemToEntity', () => {
@@ -34,12 +34,40 @@ describe('item.mapper', () => {
         unit: 'each',
         status: ItemStatus.Active,
         preferredSupplier: 'TechSupply Inc.',
+        suppliers: [],
         createdByUserId: '507f1f77bcf86cd799439012',
         createdAt: mockItem.createdAt,
         updatedAt: mockItem.updatedAt,
       });
     });
 
+    it('should map attributes, variant parent and unit conversions', () => {
+      const mockItem: ItemDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        name: 'Gel Pen - Blue',
+        category: 'Office Supplies',
+        description: 'Gel pen with 0.5 mm tip',
+        estimatedPrice: 1.2,
+        unit: 'each',
+        unitConversions: [{ unit: 'box', factor: 12 }],
+        orderUnit: 'box',
+        sku: 'PEN-GEL-BLU',
+        attributes: { color: 'Blue', tip_size: 0.5 },
+        parentItemId: new Types.ObjectId('507f1f77bcf86cd799439013'),
+        status: ItemStatus.Active,
+        createdAt: new Date('2024-01-15'),
+        updatedAt: new Date('2024-01-15'),
+      };
+
+      const result = mapItemToEntity(mockItem);
+
+      expect(result.unitConversions).toEqual([{ unit: 'box', factor: 12 }]);
+      expect(result.orderUnit).toBe('box');
+      expect(result.sku).toBe('PEN-GEL-BLU');
+      expect(result.attributes).toEqual({ color: 'Blue', tip_size: 0.5 });
+      expect(result.parentItemId).toBe('507f1f77bcf86cd799439013');
+    });
+
     it('should convert ObjectId fields to strings', () => {
       const mockItem: ItemDocument = {
         _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
@@ -151,6 +179,63 @@ describe('item.mapper', () => {
       expect(result.estimatedPrice).toBe(1499.99);
     });
 
+    it('should map supplier offers with string supplier IDs', () => {
+      const mockItem: ItemDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        name: 'Printer Paper',
+        category: 'Office Supplies',
+        description: 'A4 printer paper, 500 sheets',
+        estimatedPrice: 6.5,
+        status: ItemStatus.Active,
+        suppliers: [
+          {
+            supplierId: new Types.ObjectId('507f1f77bcf86cd799439021'),
+            unitPrice: 5.99,
+            supplierSku: 'PP-A4-500',
+            leadTimeDays: 3,
+          },
+          {
+            supplierId: '507f1f77bcf86cd799439022',
+            unitPrice: 6.25,
+          },
+        ],
+        createdAt: new Date('2024-01-15'),
+        updatedAt: new Date('2024-01-15'),
+      };
+
+      const result = mapItemToEntity(mockItem);
+
+      expect(result.suppliers).toEqual([
+        {
+          supplierId: '507f1f77bcf86cd799439021',
+          unitPrice: 5.99,
+          supplierSku: 'PP-A4-500',
+          leadTimeDays: 3,
+        },
+        {
+          supplierId: '507f1f77bcf86cd799439022',
+          unitPrice: 6.25,
+          supplierSku: undefined,
+          leadTimeDays: undefined,
+        },
+      ]);
+    });
+
+    it('should default suppliers to an empty list', () => {
+      const mockItem: ItemDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        name: 'Desk Lamp',
+        category: 'Furniture',
+        description: 'LED desk lamp with dimmer',
+        estimatedPrice: 39.99,
+        status: ItemStatus.Active,
+        createdAt: new Date('2024-01-15'),
+        updatedAt: new Date('2024-01-15'),
+      };
+
+      expect(mapItemToEntity(mockItem).suppliers).toEqual([]);
+    });
+
     it('should handle string createdByUserId (legacy compatibility)', () => {
       const mockItem: ItemDocument = {
         _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
@@ -168,5 +253,65 @@ describe('item.mapper', () => {
 
       expect(result.createdByUserId).toBe('507f1f77bcf86cd799439012');
     });
+
+    it('should map the review with string IDs', () => {
+      const reviewedAt = new Date('2024-01-16T09:00:00Z');
+      const mockItem: ItemDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        name: 'Monitor 24in',
+        category: 'Electronics',
+        description: '24-inch LED monitor',
+        estimatedPrice: 189.99,
+        status: ItemStatus.Inactive,
+        review: {
+          decision: ItemReviewDecision.Merged,
+          mergedIntoItemId: new Types.ObjectId('507f1f77bcf86cd799439013'),
+          reviewedByUserId: new Types.ObjectId('507f1f77bcf86cd799439014'),
+          reviewedAt,
+        },
+        createdAt: new Date('2024-01-15'),
+        updatedAt: new Date('2024-01-16'),
+      };
+
+      expect(mapItemToEntity(mockItem).review).toEqual({
+        decision: ItemReviewDecision.Merged,
+        reason: undefined,
+        mergedIntoItemId: '507f1f77bcf86cd799439013',
+        reviewedByUserId: '507f1f77bcf86cd799439014',
+        reviewedAt,
+      });
+    });
+  });
+
+  describe('mapItemRevisionToEntity', () => {
+    it('should map revision document to entity with string IDs', () => {
+      const createdAt = new Date('2024-02-01T10:00:00Z');
+      const mockRevision: ItemRevisionDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439021'),
+        itemId: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        changes: [
+          { field: 'estimatedPrice', from: 29.99, to: 34.5 },
+          { field: 'unit', to: 'box' },
+        ],
+        reason: 'Supplier price increase',
+        changedByUserId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        changedByName: 'Bea Buyer',
+        createdAt,
+        updatedAt: createdAt,
+      };
+
+      expect(mapItemRevisionToEntity(mockRevision)).toEqual({
+        id: '507f1f77bcf86cd799439021',
+        itemId: '507f1f77bcf86cd799439011',
+        changes: [
+          { field: 'estimatedPrice', from: 29.99, to: 34.5 },
+          { field: 'unit', from: undefined, to: 'box' },
+        ],
+        reason: 'Supplier price increase',
+        changedByUserId: '507f1f77bcf86cd799439012',
+        changedByName: 'Bea Buyer',
+        createdAt,
+      });
+    });
   });
 });
@@ -1,13 +1,14 @@
 /**
  * Item Mapper
  *
- * Converts Mongoose documents to domain entities for catalog items.
+ * Converts Mongoose documents to domain entities for catalog items and
+ * their revisions.
  * Eliminates code duplication across services.
  */
 
-import type { ItemDocument } from '@/domain/documents';
+import type { ItemDocument, ItemRevisionDocument } from '@/domain/documents';
 import { ItemStatus } from '@/domain/entities';
-import type { Item } from '@/domain/entities';
+import type { Item, ItemRevision, ItemSupplierOffer } from '@/domain/entities';
 
 /**
  * Maps an ItemDocument from Mongoose to an Item domain entity
@@ -20,10 +21,54 @@ export function mapItemToEntity(doc: ItemDocument): Item {
     description: doc.description,
     estimatedPrice: doc.estimatedPrice,
     unit: doc.unit,
+    unitConversions: doc.unitConversions?.map((conversion) => ({
+      unit: conversion.unit,
+      factor: conversion.factor,
+    })),
+    orderUnit: doc.orderUnit,
+    sku: doc.sku,
+    attributes: doc.attributes && { ...doc.attributes },
+    parentItemId: doc.parentItemId?.toString(),
     status: doc.status || ItemStatus.Active,
     preferredSupplier: doc.preferredSupplier,
+    suppliers: (doc.suppliers || []).map(
+      (offer): ItemSupplierOffer => ({
+        supplierId: offer.supplierId.toString(),
+        unitPrice: offer.unitPrice,
+        supplierSku: offer.supplierSku,
+        leadTimeDays: offer.leadTimeDays,
+      })
+    ),
+    review: doc.review && {
+      decision: doc.review.decision,
+      reason: doc.review.reason,
+      mergedIntoItemId: doc.review.mergedIntoItemId?.toString(),
+      reviewedByUserId: doc.review.reviewedByUserId.toString(),
+      reviewedAt: doc.review.reviewedAt,
+    },
     createdByUserId: doc.createdByUserId?.toString(),
     createdAt: doc.createdAt,
     updatedAt: doc.updatedAt,
   };
 }
+
+/**
+ * Maps an ItemRevisionDocument from Mongoose to an ItemRevision domain entity
+ */
+export function mapItemRevisionToEntity(
+  doc: ItemRevisionDocument
+): ItemRevision {
+  return {
+    id: doc._id.toString(),
+    itemId: doc.itemId.toString(),
+    changes: doc.changes.map((change) => ({
+      field: change.field,
+      from: change.from,
+      to: change.to,
+    })),
+    reason: doc.reason,
+    changedByUserId: doc.changedByUserId.toString(),
+    changedByName: doc.changedByName,
+    createdAt: doc.createdAt,
+  };
+}
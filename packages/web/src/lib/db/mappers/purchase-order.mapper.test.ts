@@ -0,0 +1,138 @@
+import { Types } from 'mongoose';
+import { describe, expect, it } from 'vitest';
+
+import type { PurchaseOrderDocument } from '@/domain/documents';
+import { PurchaseOrderStatus, SupplierPaymentTerms } from '@/domain/entities';
+
+import { mapPurchaseOrderToEntity } from './purchase-order.mapper';
+
+describe('purchase-order.mapper', () => {
+  describe('mapPurchaseOrderToEntity', () => {
+    it('should map purchase order document to entity correctly', () => {
+      const issuedAt = new Date('2025-03-01T10:00:00Z');
+      const mockOrder: PurchaseOrderDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        poNumber: 'PO-2025-0001',
+        purchaseRequestId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        requestNumber: 'PR-2025-0007',
+        supplierId: new Types.ObjectId('507f1f77bcf86cd799439013'),
+        supplierName: 'TechSupply Inc.',
+        supplierEmail: 'orders@techsupply.example',
+        paymentTerms: SupplierPaymentTerms.Net45,
+        items: [
+          {
+            itemId: new Types.ObjectId('507f1f77bcf86cd799439014'),
+            name: 'USB-C Cable',
+            category: 'Electronics',
+            description: '2m braided cable',
+            supplierSku: 'TS-USBC-2M',
+            unitPrice: 9.5,
+            quantity: 4,
+            subtotal: 38,
+            leadTimeDays: 3,
+          },
+        ],
+        total: 38,
+        status: PurchaseOrderStatus.Acknowledged,
+        statusHistory: [
+          {
+            toStatus: PurchaseOrderStatus.Issued,
+            changedAt: issuedAt,
+          },
+          {
+            fromStatus: PurchaseOrderStatus.Issued,
+            toStatus: PurchaseOrderStatus.Acknowledged,
+            userId: new Types.ObjectId('507f1f77bcf86cd799439015'),
+            note: 'Confirmed by phone',
+            changedAt: new Date('2025-03-02T09:00:00Z'),
+          },
+        ],
+        expectedDeliveryDate: new Date('2025-03-04T10:00:00Z'),
+        costCenter: 'CC-100',
+        createdAt: issuedAt,
+        updatedAt: new Date('2025-03-02T09:00:00Z'),
+      };
+
+      const result = mapPurchaseOrderToEntity(mockOrder);
+
+      expect(result).toEqual({
+        id: '507f1f77bcf86cd799439011',
+        poNumber: 'PO-2025-0001',
+        purchaseRequestId: '507f1f77bcf86cd799439012',
+        requestNumber: 'PR-2025-0007',
+        supplierId: '507f1f77bcf86cd799439013',
+        supplierName: 'TechSupply Inc.',
+        supplierEmail: 'orders@techsupply.example',
+        paymentTerms: SupplierPaymentTerms.Net45,
+        items: [
+          {
+            itemId: '507f1f77bcf86cd799439014',
+            itemName: 'USB-C Cable',
+            itemCategory: 'Electronics',
+            itemDescription: '2m braided cable',
+            supplierSku: 'TS-USBC-2M',
+            unitPrice: 9.5,
+            quantity: 4,
+            subtotal: 38,
+            leadTimeDays: 3,
+          },
+        ],
+        total: 38,
+        status: PurchaseOrderStatus.Acknowledged,
+        statusHistory: [
+          {
+            fromStatus: undefined,
+            toStatus: PurchaseOrderStatus.Issued,
+            userId: undefined,
+            note: undefined,
+            changedAt: issuedAt,
+          },
+          {
+            fromStatus: PurchaseOrderStatus.Issued,
+            toStatus: PurchaseOrderStatus.Acknowledged,
+            userId: '507f1f77bcf86cd799439015',
+            note: 'Confirmed by phone',
+            changedAt: new Date('2025-03-02T09:00:00Z'),
+          },
+        ],
+        expectedDeliveryDate: mockOrder.expectedDeliveryDate,
+        costCenter: 'CC-100',
+        createdAt: issuedAt,
+        updatedAt: mockOrder.updatedAt,
+      });
+    });
+
+    it('should default missing description and status history', () => {
+      const mockOrder = {
+        _id: '507f1f77bcf86cd799439011',
+        poNumber: 'PO-2025-0002',
+        purchaseRequestId: '507f1f77bcf86cd799439012',
+        requestNumber: 'PR-2025-0008',
+        supplierId: '507f1f77bcf86cd799439013',
+        supplierName: 'Paper Co.',
+        paymentTerms: SupplierPaymentTerms.Net30,
+        items: [
+          {
+            itemId: '507f1f77bcf86cd799439014',
+            name: 'A4 Paper',
+            category: 'Office Supplies',
+            unitPrice: 5,
+            quantity: 10,
+            subtotal: 50,
+          },
+        ],
+        total: 50,
+        status: PurchaseOrderStatus.Issued,
+        createdAt: new Date('2025-03-01'),
+        updatedAt: new Date('2025-03-01'),
+      } as unknown as PurchaseOrderDocument;
+
+      const result = mapPurchaseOrderToEntity(mockOrder);
+
+      expect(result.items[0].itemDescription).toBe('');
+      expect(result.items[0].supplierSku).toBeUndefined();
+      expect(result.statusHistory).toEqual([]);
+      expect(result.supplierEmail).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Purchase Order Mapper
+ *
+ * Converts Mongoose documents to domain entities for purchase orders.
+ */
+
+import type {
+  PurchaseOrderDocument,
+  PurchaseOrderItemDocument,
+  PurchaseOrderStatusChangeDocument,
+} from '@/domain/documents';
+import type {
+  PurchaseOrder,
+  PurchaseOrderItem,
+  PurchaseOrderStatusChange,
+} from '@/domain/entities';
+
+/**
+ * Maps a PurchaseOrderItemDocument sub-document to a PurchaseOrderItem domain entity
+ */
+export function mapPurchaseOrderItemToEntity(
+  item: PurchaseOrderItemDocument
+): PurchaseOrderItem {
+  return {
+    itemId: item.itemId.toString(),
+    itemName: item.name,
+    itemCategory: item.category,
+    itemDescription: item.description || '',
+    supplierSku: item.supplierSku,
+    unitPrice: item.unitPrice,
+    quantity: item.quantity,
+    subtotal: item.subtotal,
+    leadTimeDays: item.leadTimeDays,
+  };
+}
+
+/**
+ * Maps a PurchaseOrderStatusChangeDocument sub-document to a domain entity
+ */
+export function mapPurchaseOrderStatusChangeToEntity(
+  change: PurchaseOrderStatusChangeDocument
+): PurchaseOrderStatusChange {
+  return {
+    fromStatus: change.fromStatus,
+    toStatus: change.toStatus,
+    userId: change.userId?.toString(),
+    note: change.note,
+    changedAt: change.changedAt,
+  };
+}
+
+/**
+ * Maps a PurchaseOrderDocument from Mongoose to a PurchaseOrder domain entity
+ */
+export function mapPurchaseOrderToEntity(
+  order: PurchaseOrderDocument
+): PurchaseOrder {
+  return {
+    id: order._id.toString(),
+    poNumber: order.poNumber,
+    purchaseRequestId: order.purchaseRequestId.toString(),
+    requestNumber: order.requestNumber,
+    supplierId: order.supplierId.toString(),
+    supplierName: order.supplierName,
+    supplierEmail: order.supplierEmail,
+    paymentTerms: order.paymentTerms,
+    items: order.items.map(mapPurchaseOrderItemToEntity),
+    total: order.total,
+    status: order.status,
+    statusHistory: (order.statusHistory || []).map(
+      mapPurchaseOrderStatusChangeToEntity
+    ),
+    expectedDeliveryDate: order.expectedDeliveryDate,
+    costCenter: order.costCenter,
+    createdAt: order.createdAt,
+    updatedAt: order.updatedAt,
+  };
+}
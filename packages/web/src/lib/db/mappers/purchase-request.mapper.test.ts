@@ -5,7 +5,12 @@ import type {
   PurchaseRequestDocument,
   PurchaseRequestItemDocument,
 } from '@/domain/documents';
-import { PurchaseRequestStatus } from '@/domain/entities';
+import {
+  ApprovalAction,
+  ApprovalStepStatus,
+  ErpSyncStatus,
+  PurchaseRequestStatus,
+} from '@/domain/entities';
 
 import {
   mapPurchaseRequestItemToEntity,
@@ -134,6 +139,9 @@ describe('purchase-request.mapper', () => {
         notes: 'Urgent purchase request for new employee',
         source: 'ui',
         status: PurchaseRequestStatus.Submitted,
+        approvalSteps: [],
+        currentApprovalStep: undefined,
+        statusHistory: [],
         createdAt: mockRequest.createdAt,
         updatedAt: mockRequest.updatedAt,
       });
@@ -364,4 +372,184 @@ describe('purchase-request.mapper', () => {
       expect(result.items[0].itemId).toBe('');
     });
   });
+
+  describe('approval workflow fields', () => {
+    it('should map approval steps and status history', () => {
+      const changedAt = new Date('2024-01-15T10:00:00Z');
+      const mockRequest: PurchaseRequestDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        userId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        requestNumber: 'PR-2024-0009',
+        items: [
+          {
+            itemId: new Types.ObjectId('507f1f77bcf86cd799439013'),
+            name: 'Laptop',
+            category: 'Electronics',
+            description: 'Business laptop',
+            unitPrice: 1299.99,
+            quantity: 1,
+            subtotal: 1299.99,
+          },
+        ],
+        total: 1299.99,
+        source: 'ui',
+        status: PurchaseRequestStatus.PendingApproval,
+        approvalSteps: [
+          {
+            name: 'Buyer review',
+            approverRole: 'buyer',
+            approverIds: [new Types.ObjectId('507f1f77bcf86cd799439014')],
+            status: ApprovalStepStatus.Pending,
+          },
+        ],
+        currentApprovalStep: 0,
+        statusHistory: [
+          {
+            toStatus: PurchaseRequestStatus.PendingApproval,
+            action: ApprovalAction.Submit,
+            actorUserId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+            changedAt,
+          },
+        ],
+        createdAt: new Date('2024-01-15'),
+        updatedAt: new Date('2024-01-15'),
+      };
+
+      const result = mapPurchaseRequestToEntity(mockRequest);
+
+      expect(result.currentApprovalStep).toBe(0);
+      expect(result.approvalSteps).toEqual([
+        {
+          name: 'Buyer review',
+          approverRole: 'buyer',
+          approverIds: ['507f1f77bcf86cd799439014'],
+          status: ApprovalStepStatus.Pending,
+          decidedByUserId: undefined,
+          decidedAt: undefined,
+          comment: undefined,
+        },
+      ]);
+      expect(result.statusHistory[0].actorUserId).toBe(
+        '507f1f77bcf86cd799439012'
+      );
+      expect(result.statusHistory[0].action).toBe(ApprovalAction.Submit);
+    });
+
+    it('should default missing approval fields for legacy requests', () => {
+      const mockRequest: PurchaseRequestDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        userId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        requestNumber: 'PR-2024-0010',
+        items: [],
+        total: 0,
+        source: 'ui',
+        status: PurchaseRequestStatus.Submitted,
+        currentApprovalStep: null,
+        createdAt: new Date('2024-01-15'),
+        updatedAt: new Date('2024-01-15'),
+      };
+
+      const result = mapPurchaseRequestToEntity(mockRequest);
+
+      expect(result.approvalSteps).toEqual([]);
+      expect(result.statusHistory).toEqual([]);
+      expect(result.currentApprovalStep).toBeUndefined();
+    });
+
+    it('should map the cost center snapshot', () => {
+      const mockRequest: PurchaseRequestDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        userId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        requestNumber: 'PR-2024-0011',
+        items: [],
+        total: 250,
+        source: 'ui',
+        status: PurchaseRequestStatus.PendingApproval,
+        costCenter: 'CC-100',
+        createdAt: new Date('2024-01-15'),
+        updatedAt: new Date('2024-01-15'),
+      };
+
+      const result = mapPurchaseRequestToEntity(mockRequest);
+
+      expect(result.costCenter).toBe('CC-100');
+    });
+
+    it('should map the ERP reference and status', () => {
+      const mockRequest: PurchaseRequestDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        userId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        requestNumber: 'PR-2024-0012',
+        items: [],
+        total: 250,
+        source: 'ui',
+        status: PurchaseRequestStatus.Approved,
+        erpReference: 'ERP-88213',
+        erpStatus: ErpSyncStatus.Submitted,
+        erpStatusUpdatedAt: new Date('2024-01-16'),
+        createdAt: new Date('2024-01-15'),
+        updatedAt: new Date('2024-01-16'),
+      };
+
+      const result = mapPurchaseRequestToEntity(mockRequest);
+
+      expect(result.erpReference).toBe('ERP-88213');
+      expect(result.erpStatus).toBe(ErpSyncStatus.Submitted);
+      expect(result.erpStatusUpdatedAt).toEqual(new Date('2024-01-16'));
+    });
+
+    it('should map checkout details and per-line overrides', () => {
+      const requestedDeliveryDate = new Date('2024-02-01T00:00:00Z');
+      const mockRequest: PurchaseRequestDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        userId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        requestNumber: 'PR-2024-0013',
+        items: [
+          {
+            itemId: new Types.ObjectId('507f1f77bcf86cd799439013'),
+            name: 'Pallet Jack',
+            category: 'Warehouse',
+            description: 'Manual pallet jack',
+            unitPrice: 450,
+            quantity: 1,
+            subtotal: 450,
+            glCode: '6100.20',
+            deliveryLocation: {
+              locationId: new Types.ObjectId('507f1f77bcf86cd799439015'),
+              name: 'Warehouse',
+              address: '9 Dock Rd',
+            },
+          },
+        ],
+        total: 450,
+        source: 'ui',
+        status: PurchaseRequestStatus.Submitted,
+        costCenter: 'CC-100',
+        glCode: '6000',
+        deliveryLocation: {
+          locationId: new Types.ObjectId('507f1f77bcf86cd799439014'),
+          name: 'HQ',
+          address: '1 Main St',
+        },
+        requestedDeliveryDate,
+        createdAt: new Date('2024-01-15'),
+        updatedAt: new Date('2024-01-15'),
+      };
+
+      const result = mapPurchaseRequestToEntity(mockRequest);
+
+      expect(result.glCode).toBe('6000');
+      expect(result.deliveryLocation).toEqual({
+        locationId: '507f1f77bcf86cd799439014',
+        name: 'HQ',
+        address: '1 Main St',
+      });
+      expect(result.requestedDeliveryDate).toEqual(requestedDeliveryDate);
+      expect(result.items[0].glCode).toBe('6100.20');
+      expect(result.items[0].deliveryLocation?.locationId).toBe(
+        '507f1f77bcf86cd799439015'
+      );
+      expect(result.items[0].requestedDeliveryDate).toBeUndefined();
+    });
+  });
 });
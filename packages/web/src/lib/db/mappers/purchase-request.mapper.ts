@@ -6,11 +6,33 @@
  */
 
 import type {
+  ApprovalStepDocument,
+  DeliveryLocationSnapshotDocument,
   PurchaseRequestDocument,
   PurchaseRequestItemDocument,
+  PurchaseRequestStatusChangeDocument,
 } from '@/domain/documents';
 import { PurchaseRequestStatus } from '@/domain/entities';
-import type { PurchaseRequest, PurchaseRequestItem } from '@/domain/entities';
+import type {
+  ApprovalStep,
+  DeliveryLocationSnapshot,
+  PurchaseRequest,
+  PurchaseRequestItem,
+  PurchaseRequestStatusChange,
+} from '@/domain/entities';
+
+/**
+ * Maps a DeliveryLocationSnapshotDocument sub-document to a domain entity
+ */
+export function mapDeliveryLocationSnapshotToEntity(
+  snapshot: DeliveryLocationSnapshotDocument
+): DeliveryLocationSnapshot {
+  return {
+    locationId: snapshot.locationId.toString(),
+    name: snapshot.name,
+    address: snapshot.address,
+  };
+}
 
 /**
  * Maps a PurchaseRequestItemDocument from Mongoose to a PurchaseRequestItem domain entity
@@ -26,6 +48,45 @@ export function mapPurchaseRequestItemToEntity(
     unitPrice: item.unitPrice,
     quantity: item.quantity,
     subtotal: item.subtotal,
+    glCode: item.glCode,
+    deliveryLocation: item.deliveryLocation
+      ? mapDeliveryLocationSnapshotToEntity(item.deliveryLocation)
+      : undefined,
+    requestedDeliveryDate: item.requestedDeliveryDate,
+  };
+}
+
+/**
+ * Maps an ApprovalStepDocument sub-document to an ApprovalStep domain entity
+ */
+export function mapApprovalStepToEntity(
+  step: ApprovalStepDocument
+): ApprovalStep {
+  return {
+    name: step.name,
+    approverRole: step.approverRole,
+    approverIds: (step.approverIds || []).map((id) => id.toString()),
+    status: step.status,
+    decidedByUserId: step.decidedByUserId?.toString(),
+    decidedAt: step.decidedAt,
+    comment: step.comment,
+  };
+}
+
+/**
+ * Maps a PurchaseRequestStatusChangeDocument sub-document to a domain entity
+ */
+export function mapStatusChangeToEntity(
+  change: PurchaseRequestStatusChangeDocument
+): PurchaseRequestStatusChange {
+  return {
+    fromStatus: change.fromStatus,
+    toStatus: change.toStatus,
+    action: change.action,
+    actorUserId: change.actorUserId?.toString(),
+    stepName: change.stepName,
+    comment: change.comment,
+    changedAt: change.changedAt,
   };
 }
 
@@ -44,6 +105,18 @@ export function mapPurchaseRequestToEntity(
     notes: request.notes || '',
     source: request.source,
     status: request.status as PurchaseRequestStatus,
+    approvalSteps: (request.approvalSteps || []).map(mapApprovalStepToEntity),
+    currentApprovalStep: request.currentApprovalStep ?? undefined,
+    statusHistory: (request.statusHistory || []).map(mapStatusChangeToEntity),
+    costCenter: request.costCenter,
+    glCode: request.glCode,
+    deliveryLocation: request.deliveryLocation
+      ? mapDeliveryLocationSnapshotToEntity(request.deliveryLocation)
+      : undefined,
+    requestedDeliveryDate: request.requestedDeliveryDate,
+    erpReference: request.erpReference,
+    erpStatus: request.erpStatus,
+    erpStatusUpdatedAt: request.erpStatusUpdatedAt,
     createdAt: request.createdAt,
     updatedAt: request.updatedAt,
   };
@@ -0,0 +1,62 @@
+import { Types } from 'mongoose';
+import { describe, expect, it } from 'vitest';
+
+import type { SavedCartDocument } from '@/domain/documents';
+import { SavedCartKind } from '@/domain/entities';
+
+import { mapSavedCartToEntity } from './saved-cart.mapper';
+
+describe('saved-cart.mapper', () => {
+  describe('mapSavedCartToEntity', () => {
+    it('should map saved cart document to entity with its total', () => {
+      const mockSavedCart: SavedCartDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        userId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        name: 'Monthly kitchen restock',
+        kind: SavedCartKind.Template,
+        items: [
+          {
+            itemId: new Types.ObjectId('507f1f77bcf86cd799439013'),
+            name: 'Coffee Beans',
+            unitPrice: 12.5,
+            quantity: 4,
+          },
+          {
+            itemId: new Types.ObjectId('507f1f77bcf86cd799439014'),
+            name: 'Paper Cups',
+            unitPrice: 3,
+            quantity: 10,
+          },
+        ],
+        lastUsedAt: new Date('2025-02-01T10:00:00Z'),
+        createdAt: new Date('2025-01-10T10:00:00Z'),
+        updatedAt: new Date('2025-01-11T10:00:00Z'),
+      };
+
+      expect(mapSavedCartToEntity(mockSavedCart)).toEqual({
+        id: '507f1f77bcf86cd799439011',
+        userId: '507f1f77bcf86cd799439012',
+        name: 'Monthly kitchen restock',
+        kind: SavedCartKind.Template,
+        items: [
+          {
+            itemId: '507f1f77bcf86cd799439013',
+            name: 'Coffee Beans',
+            unitPrice: 12.5,
+            quantity: 4,
+          },
+          {
+            itemId: '507f1f77bcf86cd799439014',
+            name: 'Paper Cups',
+            unitPrice: 3,
+            quantity: 10,
+          },
+        ],
+        totalCost: 80,
+        lastUsedAt: mockSavedCart.lastUsedAt,
+        createdAt: mockSavedCart.createdAt,
+        updatedAt: mockSavedCart.updatedAt,
+      });
+    });
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Saved Cart Mapper
+ *
+ * Converts Mongoose documents to domain entities for saved carts and
+ * cart templates.
+ */
+
+import type { SavedCartDocument } from '@/domain/documents';
+import type { SavedCart } from '@/domain/entities';
+
+/**
+ * Maps a SavedCartDocument from Mongoose to a SavedCart domain entity
+ */
+export function mapSavedCartToEntity(savedCart: SavedCartDocument): SavedCart {
+  const items = (savedCart.items ?? []).map((item) => ({
+    itemId: item.itemId.toString(),
+    name: item.name,
+    unitPrice: item.unitPrice,
+    quantity: item.quantity,
+  }));
+
+  return {
+    id: savedCart._id.toString(),
+    userId: savedCart.userId.toString(),
+    name: savedCart.name,
+    kind: savedCart.kind,
+    items,
+    totalCost: items.reduce(
+      (sum, item) => sum + item.unitPrice * item.quantity,
+      0
+    ),
+    lastUsedAt: savedCart.lastUsedAt,
+    createdAt: savedCart.createdAt,
+    updatedAt: savedCart.updatedAt,
+  };
+}
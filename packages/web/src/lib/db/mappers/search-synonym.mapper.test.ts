@@ -0,0 +1,28 @@
+import { Types } from 'mongoose';
+import { describe, expect, it } from 'vitest';
+
+import type { SearchSynonymDocument } from '@/domain/documents';
+
+import { mapSearchSynonymToEntity } from './search-synonym.mapper';
+
+describe('search-synonym.mapper', () => {
+  describe('mapSearchSynonymToEntity', () => {
+    it('should map search synonym document to entity correctly', () => {
+      const mockSynonym: SearchSynonymDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        terms: ['usb c', 'type c'],
+        createdByUserId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        createdAt: new Date('2025-01-10T10:00:00Z'),
+        updatedAt: new Date('2025-01-11T10:00:00Z'),
+      };
+
+      expect(mapSearchSynonymToEntity(mockSynonym)).toEqual({
+        id: '507f1f77bcf86cd799439011',
+        terms: ['usb c', 'type c'],
+        createdByUserId: '507f1f77bcf86cd799439012',
+        createdAt: mockSynonym.createdAt,
+        updatedAt: mockSynonym.updatedAt,
+      });
+    });
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Search Synonym Mapper
+ *
+ * Converts Mongoose documents to domain entities for search synonym groups.
+ */
+
+import type { SearchSynonymDocument } from '@/domain/documents';
+import type { SearchSynonym } from '@/domain/entities';
+
+/**
+ * Maps a SearchSynonymDocument from Mongoose to a SearchSynonym domain entity
+ */
+export function mapSearchSynonymToEntity(
+  synonym: SearchSynonymDocument
+): SearchSynonym {
+  return {
+    id: synonym._id.toString(),
+    terms: [...(synonym.terms ?? [])],
+    createdByUserId: synonym.createdByUserId.toString(),
+    createdAt: synonym.createdAt,
+    updatedAt: synonym.updatedAt,
+  };
+}
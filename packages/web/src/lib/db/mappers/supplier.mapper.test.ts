@@ -0,0 +1,75 @@
+import { Types } from 'mongoose';
+import { describe, expect, it } from 'vitest';
+
+import type { SupplierDocument } from '@/domain/documents';
+import { SupplierPaymentTerms, SupplierStatus } from '@/domain/entities';
+
+import { mapSupplierToEntity } from './supplier.mapper';
+
+describe('supplier.mapper', () => {
+  describe('mapSupplierToEntity', () => {
+    it('should map supplier document to entity correctly', () => {
+      const mockSupplier: SupplierDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        name: 'TechSupply Inc.',
+        contact: {
+          name: 'Dana Lee',
+          email: 'orders@techsupply.example',
+          phone: '+1 555 0100',
+        },
+        address: '100 Market St, Springfield',
+        website: 'https://techsupply.example',
+        taxId: 'US-12-3456789',
+        paymentTerms: SupplierPaymentTerms.Net45,
+        leadTimeDays: 5,
+        status: SupplierStatus.Blocked,
+        blockedReason: 'Expired insurance certificate',
+        notes: 'Preferred for peripherals',
+        createdAt: new Date('2025-01-10T10:00:00Z'),
+        updatedAt: new Date('2025-02-01T10:00:00Z'),
+      };
+
+      const result = mapSupplierToEntity(mockSupplier);
+
+      expect(result).toEqual({
+        id: '507f1f77bcf86cd799439011',
+        name: 'TechSupply Inc.',
+        contact: {
+          name: 'Dana Lee',
+          email: 'orders@techsupply.example',
+          phone: '+1 555 0100',
+        },
+        address: '100 Market St, Springfield',
+        website: 'https://techsupply.example',
+        taxId: 'US-12-3456789',
+        paymentTerms: SupplierPaymentTerms.Net45,
+        leadTimeDays: 5,
+        status: SupplierStatus.Blocked,
+        blockedReason: 'Expired insurance certificate',
+        notes: 'Preferred for peripherals',
+        createdAt: mockSupplier.createdAt,
+        updatedAt: mockSupplier.updatedAt,
+      });
+    });
+
+    it('should default missing contact, terms and status', () => {
+      const mockSupplier = {
+        _id: '507f1f77bcf86cd799439011',
+        name: 'Paper Co.',
+        createdAt: new Date('2025-01-10'),
+        updatedAt: new Date('2025-01-10'),
+      } as unknown as SupplierDocument;
+
+      const result = mapSupplierToEntity(mockSupplier);
+
+      expect(result.id).toBe('507f1f77bcf86cd799439011');
+      expect(result.contact).toEqual({
+        name: undefined,
+        email: undefined,
+        phone: undefined,
+      });
+      expect(result.paymentTerms).toBe(SupplierPaymentTerms.Net30);
+      expect(result.status).toBe(SupplierStatus.Active);
+    });
+  });
+});
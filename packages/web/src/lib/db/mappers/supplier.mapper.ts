@@ -0,0 +1,34 @@
+/**
+ * Supplier Mapper
+ *
+ * Converts Mongoose documents to domain entities for suppliers.
+ */
+
+import type { SupplierDocument } from '@/domain/documents';
+import type { Supplier } from '@/domain/entities';
+import { SupplierPaymentTerms, SupplierStatus } from '@/domain/entities';
+
+/**
+ * Maps a SupplierDocument from Mongoose to a Supplier domain entity
+ */
+export function mapSupplierToEntity(doc: SupplierDocument): Supplier {
+  return {
+    id: doc._id.toString(),
+    name: doc.name,
+    contact: {
+      name: doc.contact?.name,
+      email: doc.contact?.email,
+      phone: doc.contact?.phone,
+    },
+    address: doc.address,
+    website: doc.website,
+    taxId: doc.taxId,
+    paymentTerms: doc.paymentTerms || SupplierPaymentTerms.Net30,
+    leadTimeDays: doc.leadTimeDays,
+    status: doc.status || SupplierStatus.Active,
+    blockedReason: doc.blockedReason,
+    notes: doc.notes,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  };
+}
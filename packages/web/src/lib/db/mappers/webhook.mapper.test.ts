@@ -0,0 +1,104 @@
+import { Types } from 'mongoose';
+import { describe, expect, it } from 'vitest';
+
+import type {
+  WebhookDeliveryDocument,
+  WebhookSubscriptionDocument,
+} from '@/domain/documents';
+import { WebhookDeliveryStatus, WebhookEventType } from '@/domain/entities';
+
+import {
+  mapWebhookDeliveryToEntity,
+  mapWebhookSubscriptionToEntity,
+} from './webhook.mapper';
+
+describe('webhook.mapper', () => {
+  describe('mapWebhookSubscriptionToEntity', () => {
+    it('should map subscription document without the secret', () => {
+      const mockSubscription: WebhookSubscriptionDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        url: 'https://hooks.example.com/procureflow',
+        description: 'Accounting sync',
+        events: [WebhookEventType.PurchaseRequestCreated],
+        secret: 'whsec_test',
+        active: true,
+        createdByUserId: new Types.ObjectId('507f1f77bcf86cd799439012'),
+        createdAt: new Date('2025-03-01T10:00:00Z'),
+        updatedAt: new Date('2025-03-01T10:00:00Z'),
+        __v: 0,
+      };
+
+      const result = mapWebhookSubscriptionToEntity(mockSubscription);
+
+      expect(result).toEqual({
+        id: '507f1f77bcf86cd799439011',
+        url: 'https://hooks.example.com/procureflow',
+        description: 'Accounting sync',
+        events: [WebhookEventType.PurchaseRequestCreated],
+        active: true,
+        createdByUserId: '507f1f77bcf86cd799439012',
+        createdAt: mockSubscription.createdAt,
+        updatedAt: mockSubscription.updatedAt,
+      });
+      expect(result).not.toHaveProperty('secret');
+    });
+  });
+
+  describe('mapWebhookDeliveryToEntity', () => {
+    it('should map delivery document with its event and attempt log', () => {
+      const payload = {
+        id: 'evt_1',
+        type: WebhookEventType.ItemCreated,
+        createdAt: '2025-03-01T10:00:00.000Z',
+        data: { item: { id: 'item-1' } },
+      };
+      const mockDelivery: WebhookDeliveryDocument = {
+        _id: new Types.ObjectId('507f1f77bcf86cd799439021'),
+        subscriptionId: new Types.ObjectId('507f1f77bcf86cd799439011'),
+        eventId: 'evt_1',
+        eventType: WebhookEventType.ItemCreated,
+        payload,
+        status: WebhookDeliveryStatus.Pending,
+        attempts: 1,
+        nextAttemptAt: new Date('2025-03-01T10:00:10Z'),
+        lockedAt: null,
+        attemptLog: [
+          {
+            attemptedAt: new Date('2025-03-01T10:00:00Z'),
+            responseStatus: 500,
+            error: 'Endpoint responded with 500',
+            durationMs: 120,
+          },
+        ],
+        redeliveryOf: new Types.ObjectId('507f1f77bcf86cd799439020'),
+        createdAt: new Date('2025-03-01T10:00:00Z'),
+        updatedAt: new Date('2025-03-01T10:00:01Z'),
+        __v: 0,
+      };
+
+      const result = mapWebhookDeliveryToEntity(mockDelivery);
+
+      expect(result).toEqual({
+        id: '507f1f77bcf86cd799439021',
+        subscriptionId: '507f1f77bcf86cd799439011',
+        event: payload,
+        status: WebhookDeliveryStatus.Pending,
+        attempts: 1,
+        nextAttemptAt: mockDelivery.nextAttemptAt,
+        attemptLog: [
+          {
+            attemptedAt: new Date('2025-03-01T10:00:00Z'),
+            responseStatus: 500,
+            error: 'Endpoint responded with 500',
+            durationMs: 120,
+          },
+        ],
+        deliveredAt: undefined,
+        redeliveryOf: '507f1f77bcf86cd799439020',
+        createdAt: mockDelivery.createdAt,
+        updatedAt: mockDelivery.updatedAt,
+      });
+      expect(result).not.toHaveProperty('lockedAt');
+    });
+  });
+});
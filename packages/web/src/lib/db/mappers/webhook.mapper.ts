@@ -0,0 +1,62 @@
+/**
+ * Webhook Mapper
+ *
+ * Converts Mongoose documents to domain entities for webhook subscriptions
+ * and deliveries.
+ */
+
+import type {
+  WebhookDeliveryDocument,
+  WebhookSubscriptionDocument,
+} from '@/domain/documents';
+import type {
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookSubscription,
+} from '@/domain/entities';
+
+/**
+ * Maps a WebhookSubscriptionDocument from Mongoose to a WebhookSubscription domain entity
+ * The signing secret is intentionally not mapped.
+ */
+export function mapWebhookSubscriptionToEntity(
+  subscription: WebhookSubscriptionDocument
+): WebhookSubscription {
+  return {
+    id: subscription._id.toString(),
+    url: subscription.url,
+    description: subscription.description,
+    events: subscription.events ?? [],
+    active: subscription.active ?? true,
+    createdByUserId: subscription.createdByUserId.toString(),
+    createdAt: subscription.createdAt,
+    updatedAt: subscription.updatedAt,
+  };
+}
+
+/**
+ * Maps a WebhookDeliveryDocument from Mongoose to a WebhookDelivery domain entity
+ * The stored payload is the event envelope that was posted.
+ */
+export function mapWebhookDeliveryToEntity(
+  delivery: WebhookDeliveryDocument
+): WebhookDelivery {
+  return {
+    id: delivery._id.toString(),
+    subscriptionId: delivery.subscriptionId.toString(),
+    event: delivery.payload as unknown as WebhookEvent,
+    status: delivery.status,
+    attempts: delivery.attempts ?? 0,
+    nextAttemptAt: delivery.nextAttemptAt,
+    attemptLog: (delivery.attemptLog ?? []).map((attempt) => ({
+      attemptedAt: attempt.attemptedAt,
+      responseStatus: attempt.responseStatus,
+      error: attempt.error,
+      durationMs: attempt.durationMs,
+    })),
+    deliveredAt: delivery.deliveredAt,
+    redeliveryOf: delivery.redeliveryOf?.toString(),
+    createdAt: delivery.createdAt,
+    updatedAt: delivery.updatedAt,
+  };
+}
@@ -24,9 +24,27 @@ import mongoose from 'mongoose';
 import type {
   UserDocument,
   ItemDocument,
+  ItemRevisionDocument,
+  ItemEmbeddingDocument,
+  SearchSynonymDocument,
+  CategoryAttributeSchemaDocument,
+  CategoryDocument,
   CartDocument,
+  SavedCartDocument,
   PurchaseRequestDocument,
   AgentConversationDocument,
+  ApprovalRuleDocument,
+  BudgetDocument,
+  SupplierDocument,
+  DeliveryLocationDocument,
+  PurchaseOrderDocument,
+  GoodsReceiptDocument,
+  SupplierInvoiceDocument,
+  ErpOutboxEntryDocument,
+  IdempotencyKeyDocument,
+  SequenceCounterDocument,
+  WebhookSubscriptionDocument,
+  WebhookDeliveryDocument,
 } from '@/domain/documents';
 
 // Import schemas
@@ -36,30 +54,127 @@ import AgentConversationSchema, {
   MAX_MESSAGES_PER_CONVERSATION,
   MessageSender,
 } from './schemas/agent-conversation.schema';
+import ApprovalRuleSchema, {
+  APPROVAL_RULE_COLLECTION_NAME,
+} from './schemas/approval-rule.schema';
+import BudgetSchema, {
+  BUDGET_COLLECTION_NAME,
+  BudgetEnforcement,
+} from './schemas/budget.schema';
 import CartSchema, {
   CART_COLLECTION_NAME,
+  CartRole,
   MAX_CART_ITEMS,
+  MAX_CART_MEMBERS,
+  MAX_CART_NAME_LENGTH,
   MAX_ITEM_QUANTITY,
   MIN_ITEM_QUANTITY,
 } from './schemas/cart.schema';
+import CategoryAttributeSchemaSchema, {
+  CATEGORY_ATTRIBUTE_SCHEMA_COLLECTION_NAME,
+  ItemAttributeType,
+  MAX_ATTRIBUTE_OPTIONS,
+  MAX_CATEGORY_ATTRIBUTES,
+} from './schemas/category-attribute-schema.schema';
+import CategorySchema, {
+  CATEGORY_COLLECTION_NAME,
+  MAX_CATEGORY_CODE_LENGTH,
+  MAX_CATEGORY_NAME_LENGTH,
+} from './schemas/category.schema';
+import DeliveryLocationSchema, {
+  DELIVERY_LOCATION_COLLECTION_NAME,
+  MAX_DELIVERY_ADDRESS_LENGTH,
+  MAX_DELIVERY_LOCATION_NAME_LENGTH,
+} from './schemas/delivery-location.schema';
+import ErpOutboxSchema, {
+  ERP_OUTBOX_COLLECTION_NAME,
+  ErpOperation,
+  ErpOutboxStatus,
+  MAX_ERP_ERROR_LENGTH,
+} from './schemas/erp-outbox.schema';
+import GoodsReceiptSchema, {
+  GOODS_RECEIPT_COLLECTION_NAME,
+  ReceiptRejectionReason,
+  MAX_RECEIPT_NOTE_LENGTH,
+} from './schemas/goods-receipt.schema';
+import IdempotencyKeySchema, {
+  IDEMPOTENCY_KEY_COLLECTION_NAME,
+  IDEMPOTENCY_KEY_TTL_SECONDS,
+  MAX_IDEMPOTENCY_KEY_LENGTH,
+} from './schemas/idempotency-key.schema';
+import ItemEmbeddingSchema, {
+  ITEM_EMBEDDING_COLLECTION_NAME,
+} from './schemas/item-embedding.schema';
+import ItemRevisionSchema, {
+  DEFAULT_ITEM_REVISION_REASON,
+  ITEM_REVISION_COLLECTION_NAME,
+  MAX_ITEM_REVISION_REASON_LENGTH,
+} from './schemas/item-revision.schema';
 import ItemSchema, {
   ITEM_COLLECTION_NAME,
+  ItemReviewDecision,
   ItemStatus,
+  MAX_ITEM_REVIEW_REASON_LENGTH,
+  MAX_ITEM_SKU_LENGTH,
 } from './schemas/item.schema';
+import PurchaseOrderSchema, {
+  PURCHASE_ORDER_COLLECTION_NAME,
+  PurchaseOrderStatus,
+  MAX_PURCHASE_ORDER_NOTE_LENGTH,
+} from './schemas/purchase-order.schema';
 import PurchaseRequestSchema, {
+  ApprovalAction,
+  ApprovalStepStatus,
+  ErpSyncStatus,
+  MAX_GL_CODE_LENGTH,
   MAX_REQUEST_ITEMS,
   PURCHASE_REQUEST_COLLECTION_NAME,
   PurchaseRequestSource,
   PurchaseRequestStatus,
 } from './schemas/purchase-request.schema';
+import SavedCartSchema, {
+  MAX_SAVED_CART_NAME_LENGTH,
+  MAX_SAVED_CARTS,
+  SAVED_CART_COLLECTION_NAME,
+  SavedCartKind,
+} from './schemas/saved-cart.schema';
+import SearchSynonymSchema, {
+  MAX_SYNONYM_TERM_LENGTH,
+  MAX_SYNONYM_TERMS,
+  MIN_SYNONYM_TERMS,
+  SEARCH_SYNONYM_COLLECTION_NAME,
+} from './schemas/search-synonym.schema';
+import SequenceCounterSchema, {
+  SEQUENCE_COUNTER_COLLECTION_NAME,
+} from './schemas/sequence-counter.schema';
+import SupplierInvoiceSchema, {
+  SUPPLIER_INVOICE_COLLECTION_NAME,
+} from './schemas/supplier-invoice.schema';
+import SupplierSchema, {
+  MAX_SUPPLIER_NAME_LENGTH,
+  SUPPLIER_COLLECTION_NAME,
+  SupplierPaymentTerms,
+  SupplierStatus,
+} from './schemas/supplier.schema';
 import type { ITokenUsage } from './schemas/tokenUsage.schema';
 import TokenUsageSchema, {
   TOKEN_USAGE_COLLECTION_NAME,
 } from './schemas/tokenUsage.schema';
 import UserSchema, {
+  MAX_COST_CENTER_LENGTH,
   USER_COLLECTION_NAME,
   UserRole,
 } from './schemas/user.schema';
+import {
+  MAX_WEBHOOK_ATTEMPT_LOG,
+  MAX_WEBHOOK_URL_LENGTH,
+  WEBHOOK_DELIVERY_COLLECTION_NAME,
+  WEBHOOK_SUBSCRIPTION_COLLECTION_NAME,
+  WebhookDeliverySchema,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  WebhookSubscriptionSchema,
+} from './schemas/webhook.schema';
 
 // ============================================================================
 // Model Creation with Hot Reload Support
@@ -112,10 +227,66 @@ export const ItemModel = getOrCreateModel<ItemDocument>(
   ItemSchema
 );
 
+/**
+ * ItemRevision Model
+ *
+ * Represents one update of a catalog item (field-level diff).
+ * Used for: item audit trail, price history.
+ */
+export const ItemRevisionModel = getOrCreateModel<ItemRevisionDocument>(
+  ITEM_REVISION_COLLECTION_NAME,
+  ItemRevisionSchema
+);
+
+/**
+ * ItemEmbedding Model
+ *
+ * Represents the embedding vector of a catalog item.
+ * Used for: semantic catalog search.
+ */
+export const ItemEmbeddingModel = getOrCreateModel<ItemEmbeddingDocument>(
+  ITEM_EMBEDDING_COLLECTION_NAME,
+  ItemEmbeddingSchema
+);
+
+/**
+ * SearchSynonym Model
+ *
+ * Represents a group of equivalent catalog search terms.
+ * Used for: synonym-aware catalog search.
+ */
+export const SearchSynonymModel = getOrCreateModel<SearchSynonymDocument>(
+  SEARCH_SYNONYM_COLLECTION_NAME,
+  SearchSynonymSchema
+);
+
+/**
+ * CategoryAttributeSchema Model
+ *
+ * Represents the attribute definitions of a catalog category.
+ * Used for: structured item attributes, variant pickers.
+ */
+export const CategoryAttributeSchemaModel =
+  getOrCreateModel<CategoryAttributeSchemaDocument>(
+    CATEGORY_ATTRIBUTE_SCHEMA_COLLECTION_NAME,
+    CategoryAttributeSchemaSchema
+  );
+
+/**
+ * Category Model
+ *
+ * Represents a node of the catalog category taxonomy.
+ * Used for: item category validation, drill-down browsing, spend rollup.
+ */
+export const CategoryModel = getOrCreateModel<CategoryDocument>(
+  CATEGORY_COLLECTION_NAME,
+  CategorySchema
+);
+
 /**
  * Cart Model
  *
- * Represents a user's shopping cart with line items.
+ * Represents a user's shopping cart or a shared team cart with line items.
  * Used for: cart management, checkout preparation.
  */
 export const CartModel = getOrCreateModel<CartDocument>(
@@ -123,6 +294,17 @@ export const CartModel = getOrCreateModel<CartDocument>(
   CartSchema
 );
 
+/**
+ * SavedCart Model
+ *
+ * Represents a named saved cart or cart template of a user.
+ * Used for: saving carts for later, reusable order templates.
+ */
+export const SavedCartModel = getOrCreateModel<SavedCartDocument>(
+  SAVED_CART_COLLECTION_NAME,
+  SavedCartSchema
+);
+
 /**
  * PurchaseRequest Model
  *
@@ -134,6 +316,139 @@ export const PurchaseRequestModel = getOrCreateModel<PurchaseRequestDocument>(
   PurchaseRequestSchema
 );
 
+/**
+ * ApprovalRule Model
+ *
+ * Represents a configurable approval chain rule.
+ * Used for: resolving approval steps when a purchase request is submitted.
+ */
+export const ApprovalRuleModel = getOrCreateModel<ApprovalRuleDocument>(
+  APPROVAL_RULE_COLLECTION_NAME,
+  ApprovalRuleSchema
+);
+
+/**
+ * Budget Model
+ *
+ * Represents a department / cost center budget for a fiscal period.
+ * Used for: spend tracking, checkout budget enforcement, burn-down charts.
+ */
+export const BudgetModel = getOrCreateModel<BudgetDocument>(
+  BUDGET_COLLECTION_NAME,
+  BudgetSchema
+);
+
+/**
+ * Supplier Model
+ *
+ * Represents vendor master data.
+ * Used for: supplier management, item supplier offers, request routing.
+ */
+export const SupplierModel = getOrCreateModel<SupplierDocument>(
+  SUPPLIER_COLLECTION_NAME,
+  SupplierSchema
+);
+
+/**
+ * DeliveryLocation Model
+ *
+ * Represents a company site purchases can be delivered to.
+ * Used for: checkout delivery location pickers, purchase request snapshots.
+ */
+export const DeliveryLocationModel = getOrCreateModel<DeliveryLocationDocument>(
+  DELIVERY_LOCATION_COLLECTION_NAME,
+  DeliveryLocationSchema
+);
+
+/**
+ * PurchaseOrder Model
+ *
+ * Represents a per-supplier order generated from an approved request.
+ * Used for: supplier ordering, printable PO documents, receiving.
+ */
+export const PurchaseOrderModel = getOrCreateModel<PurchaseOrderDocument>(
+  PURCHASE_ORDER_COLLECTION_NAME,
+  PurchaseOrderSchema
+);
+
+/**
+ * GoodsReceipt Model
+ *
+ * Represents a delivery received against a purchase order.
+ * Used for: receiving, three-way match, audit evidence.
+ */
+export const GoodsReceiptModel = getOrCreateModel<GoodsReceiptDocument>(
+  GOODS_RECEIPT_COLLECTION_NAME,
+  GoodsReceiptSchema
+);
+
+/**
+ * SupplierInvoice Model
+ *
+ * Represents a supplier invoice billed against a purchase order.
+ * Used for: three-way match before payment.
+ */
+export const SupplierInvoiceModel = getOrCreateModel<SupplierInvoiceDocument>(
+  SUPPLIER_INVOICE_COLLECTION_NAME,
+  SupplierInvoiceSchema
+);
+
+/**
+ * ErpOutbox Model
+ *
+ * Represents a queued ERP operation for a purchase request.
+ * Used for: reliable ERP submission with retries, integration monitoring.
+ */
+export const ErpOutboxModel = getOrCreateModel<ErpOutboxEntryDocument>(
+  ERP_OUTBOX_COLLECTION_NAME,
+  ErpOutboxSchema
+);
+
+/**
+ * IdempotencyKey Model
+ *
+ * Represents a checkout idempotency key and the request it created.
+ * Used for: deduplicating retried and double-submitted checkouts.
+ */
+export const IdempotencyKeyModel = getOrCreateModel<IdempotencyKeyDocument>(
+  IDEMPOTENCY_KEY_COLLECTION_NAME,
+  IdempotencyKeySchema
+);
+
+/**
+ * SequenceCounter Model
+ *
+ * Represents a named counter for document numbers.
+ * Used for: purchase order numbers (PO-YYYY-####) without duplicates.
+ */
+export const SequenceCounterModel = getOrCreateModel<SequenceCounterDocument>(
+  SEQUENCE_COUNTER_COLLECTION_NAME,
+  SequenceCounterSchema
+);
+
+/**
+ * WebhookSubscription Model
+ *
+ * Represents an endpoint subscribed to lifecycle events.
+ * Used for: outbound integrations (Slack bots, accounting tools).
+ */
+export const WebhookSubscriptionModel =
+  getOrCreateModel<WebhookSubscriptionDocument>(
+    WEBHOOK_SUBSCRIPTION_COLLECTION_NAME,
+    WebhookSubscriptionSchema
+  );
+
+/**
+ * WebhookDelivery Model
+ *
+ * Represents one event sent to one subscription, with its attempt log.
+ * Used for: delivery retries, redelivery, troubleshooting.
+ */
+export const WebhookDeliveryModel = getOrCreateModel<WebhookDeliveryDocument>(
+  WEBHOOK_DELIVERY_COLLECTION_NAME,
+  WebhookDeliverySchema
+);
+
 /**
  * AgentConversation Model
  *
@@ -165,23 +480,101 @@ export const TokenUsageModel = getOrCreateModel<ITokenUsage>(
 export {
   USER_COLLECTION_NAME,
   ITEM_COLLECTION_NAME,
+  ITEM_REVISION_COLLECTION_NAME,
+  ITEM_EMBEDDING_COLLECTION_NAME,
+  SEARCH_SYNONYM_COLLECTION_NAME,
+  CATEGORY_ATTRIBUTE_SCHEMA_COLLECTION_NAME,
+  CATEGORY_COLLECTION_NAME,
   CART_COLLECTION_NAME,
+  SAVED_CART_COLLECTION_NAME,
   PURCHASE_REQUEST_COLLECTION_NAME,
+  APPROVAL_RULE_COLLECTION_NAME,
+  BUDGET_COLLECTION_NAME,
+  SUPPLIER_COLLECTION_NAME,
+  PURCHASE_ORDER_COLLECTION_NAME,
+  GOODS_RECEIPT_COLLECTION_NAME,
+  SUPPLIER_INVOICE_COLLECTION_NAME,
+  ERP_OUTBOX_COLLECTION_NAME,
+  WEBHOOK_SUBSCRIPTION_COLLECTION_NAME,
+  WEBHOOK_DELIVERY_COLLECTION_NAME,
   AGENT_CONVERSATION_COLLECTION_NAME,
   TOKEN_USAGE_COLLECTION_NAME,
 };
 
 // User enums and constants
-export { UserRole };
+export { UserRole, MAX_COST_CENTER_LENGTH };
 
 // Item enums and constants
-export { ItemStatus };
+export {
+  ItemStatus,
+  ItemReviewDecision,
+  DEFAULT_ITEM_REVISION_REASON,
+  MAX_ITEM_REVIEW_REASON_LENGTH,
+  MAX_ITEM_REVISION_REASON_LENGTH,
+  MAX_ITEM_SKU_LENGTH,
+};
+
+// Search synonym constants
+export { MIN_SYNONYM_TERMS, MAX_SYNONYM_TERMS, MAX_SYNONYM_TERM_LENGTH };
 
-// Cart constants
-export { MAX_CART_ITEMS, MIN_ITEM_QUANTITY, MAX_ITEM_QUANTITY };
+// Category attribute schema enums and constants
+export { ItemAttributeType, MAX_CATEGORY_ATTRIBUTES, MAX_ATTRIBUTE_OPTIONS };
+
+// Category constants
+export { MAX_CATEGORY_NAME_LENGTH, MAX_CATEGORY_CODE_LENGTH };
+
+// Cart enums and constants
+export {
+  CartRole,
+  MAX_CART_ITEMS,
+  MIN_ITEM_QUANTITY,
+  MAX_ITEM_QUANTITY,
+  MAX_CART_MEMBERS,
+  MAX_CART_NAME_LENGTH,
+};
+
+// Saved cart enums and constants
+export { SavedCartKind, MAX_SAVED_CARTS, MAX_SAVED_CART_NAME_LENGTH };
 
 // PurchaseRequest enums and constants
-export { PurchaseRequestStatus, PurchaseRequestSource, MAX_REQUEST_ITEMS };
+export {
+  PurchaseRequestStatus,
+  PurchaseRequestSource,
+  ApprovalAction,
+  ApprovalStepStatus,
+  ErpSyncStatus,
+  MAX_REQUEST_ITEMS,
+  MAX_GL_CODE_LENGTH,
+};
+
+// Budget enums
+export { BudgetEnforcement };
+
+// Supplier enums and constants
+export { SupplierStatus, SupplierPaymentTerms, MAX_SUPPLIER_NAME_LENGTH };
+
+// DeliveryLocation constants
+export { MAX_DELIVERY_LOCATION_NAME_LENGTH, MAX_DELIVERY_ADDRESS_LENGTH };
+
+// PurchaseOrder enums and constants
+export { PurchaseOrderStatus, MAX_PURCHASE_ORDER_NOTE_LENGTH };
+
+// GoodsReceipt enums and constants
+export { ReceiptRejectionReason, MAX_RECEIPT_NOTE_LENGTH };
+
+// ErpOutbox enums and constants
+export { ErpOperation, ErpOutboxStatus, MAX_ERP_ERROR_LENGTH };
+
+// IdempotencyKey constants
+export { MAX_IDEMPOTENCY_KEY_LENGTH, IDEMPOTENCY_KEY_TTL_SECONDS };
+
+// Webhook enums and constants
+export {
+  WebhookEventType,
+  WebhookDeliveryStatus,
+  MAX_WEBHOOK_URL_LENGTH,
+  MAX_WEBHOOK_ATTEMPT_LOG,
+};
 
 // AgentConversation enums and constants
 export { MessageSender, ConversationStatus, MAX_MESSAGES_PER_CONVERSATION };
@@ -239,8 +632,26 @@ export function isAgentConversationModel(doc: {
 const models = {
   User: UserModel,
   Item: ItemModel,
+  ItemRevision: ItemRevisionModel,
+  ItemEmbedding: ItemEmbeddingModel,
+  SearchSynonym: SearchSynonymModel,
+  CategoryAttributeSchema: CategoryAttributeSchemaModel,
+  Category: CategoryModel,
   Cart: CartModel,
+  SavedCart: SavedCartModel,
   PurchaseRequest: PurchaseRequestModel,
+  ApprovalRule: ApprovalRuleModel,
+  Budget: BudgetModel,
+  Supplier: SupplierModel,
+  DeliveryLocation: DeliveryLocationModel,
+  PurchaseOrder: PurchaseOrderModel,
+  GoodsReceipt: GoodsReceiptModel,
+  SupplierInvoice: SupplierInvoiceModel,
+  ErpOutbox: ErpOutboxModel,
+  IdempotencyKey: IdempotencyKeyModel,
+  SequenceCounter: SequenceCounterModel,
+  WebhookSubscription: WebhookSubscriptionModel,
+  WebhookDelivery: WebhookDeliveryModel,
   AgentConversation: AgentConversationModel,
   TokenUsage: TokenUsageModel,
 };
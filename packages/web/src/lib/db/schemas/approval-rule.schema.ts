@@ -0,0 +1,215 @@
+/**
+ * Approval Rule Schema for MongoDB/Mongoose
+ *
+ * Configures which approval chain applies to a purchase request.
+ * Rules match on request total (threshold ranges) and/or item categories;
+ * the steps of every matching rule are chained in priority order.
+ *
+ * Scope:
+ * - Threshold and category based rules
+ * - Per-step approver assignment by role or explicit users
+ *
+ * Future enhancements:
+ * - Department/cost-center scoped rules
+ * - Delegation and out-of-office substitutes
+ */
+
+import { Schema } from 'mongoose';
+
+import {
+  APPROVER_ROLES,
+  MAX_APPROVAL_COMMENT_LENGTH,
+} from './purchase-request.schema';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const APPROVAL_RULE_COLLECTION_NAME = 'approval_rules';
+
+// Validation limits
+export const MAX_APPROVAL_RULE_STEPS = 10; // Maximum steps contributed by one rule
+
+// ============================================================================
+// Sub-document Schemas
+// ============================================================================
+
+/**
+ * ApprovalRuleStep Sub-document Schema
+ *
+ * Template for an approval step copied onto matching purchase requests.
+ */
+const ApprovalRuleStepSchema = new Schema(
+  {
+    /**
+     * Step label shown to users
+     */
+    name: {
+      type: String,
+      required: [true, 'Step name is required'],
+      trim: true,
+      maxlength: [100, 'Step name must not exceed 100 characters'],
+    },
+
+    /**
+     * Role allowed to act on this step
+     */
+    approverRole: {
+      type: String,
+      enum: {
+        values: APPROVER_ROLES,
+        message: 'Invalid approver role: {VALUE}',
+      },
+    },
+
+    /**
+     * Specific users allowed to act on this step
+     */
+    approverIds: {
+      type: [Schema.Types.ObjectId],
+      ref: 'User',
+      default: [],
+    },
+  },
+  {
+    _id: false,
+    timestamps: false,
+  }
+);
+
+// ============================================================================
+// Main Approval Rule Schema
+// ============================================================================
+
+/**
+ * Approval Rule Schema
+ *
+ * Validations:
+ * - name: required, unique
+ * - minTotal/maxTotal: non-negative
+ * - steps: 1-MAX_APPROVAL_RULE_STEPS entries, each with a role or approver IDs
+ */
+export const ApprovalRuleSchema = new Schema(
+  {
+    /**
+     * Rule name
+     * - Required, unique
+     */
+    name: {
+      type: String,
+      required: [true, 'Rule name is required'],
+      unique: true,
+      trim: true,
+      maxlength: [100, 'Rule name must not exceed 100 characters'],
+    },
+
+    /**
+     * Optional description
+     */
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [
+        MAX_APPROVAL_COMMENT_LENGTH,
+        `Description must not exceed ${MAX_APPROVAL_COMMENT_LENGTH} characters`,
+      ],
+    },
+
+    /**
+     * Inclusive lower bound on request total
+     */
+    minTotal: {
+      type: Number,
+      min: [0, 'Minimum total must be non-negative'],
+    },
+
+    /**
+     * Exclusive upper bound on request total
+     */
+    maxTotal: {
+      type: Number,
+      min: [0, 'Maximum total must be non-negative'],
+    },
+
+    /**
+     * Item categories this rule applies to
+     * - Empty means "any category"
+     */
+    categories: {
+      type: [String],
+      default: [],
+    },
+
+    /**
+     * Approval steps contributed by this rule
+     */
+    steps: {
+      type: [ApprovalRuleStepSchema],
+      required: true,
+      validate: {
+        validator: function (
+          steps: Array<{ approverRole?: string; approverIds?: unknown[] }>
+        ) {
+          return (
+            steps.length > 0 &&
+            steps.length <= MAX_APPROVAL_RULE_STEPS &&
+            steps.every(
+              (step) =>
+                !!step.approverRole ||
+                (step.approverIds && step.approverIds.length > 0)
+            )
+          );
+        },
+        message: `Rule must have 1-${MAX_APPROVAL_RULE_STEPS} steps, each with an approver role or approver IDs`,
+      },
+    },
+
+    /**
+     * Evaluation order (ascending)
+     */
+    priority: {
+      type: Number,
+      default: 100,
+    },
+
+    /**
+     * Whether the rule is considered during resolution
+     */
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    // Automatic timestamps: createdAt, updatedAt
+    timestamps: true,
+
+    // Collection name
+    collection: APPROVAL_RULE_COLLECTION_NAME,
+
+    // Optimize JSON output
+    toJSON: {
+      transform: function (_doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// ============================================================================
+// Indexes
+// ============================================================================
+
+/**
+ * NOTE: Explicit .index() calls are commented out to avoid Turbopack compatibility issues.
+ */
+
+// Index on isActive + priority for rule resolution
+// ApprovalRuleSchema.index({ isActive: 1, priority: 1 });
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export default ApprovalRuleSchema;
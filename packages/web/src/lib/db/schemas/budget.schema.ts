@@ -0,0 +1,171 @@
+/**
+ * Budget Schema for MongoDB/Mongoose
+ *
+ * Spending limit for a department / cost center over a fiscal period.
+ * Committed spend is derived from purchase requests charged to the
+ * cost center, so budgets only store the allocation itself.
+ *
+ * Scope:
+ * - One active budget per cost center and period
+ * - Warn or block enforcement at checkout
+ *
+ * Future enhancements:
+ * - Budget transfers and mid-period adjustments
+ * - Per-category sub-budgets
+ */
+
+import { Schema } from 'mongoose';
+
+import { MAX_COST_CENTER_LENGTH } from './user.schema';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const BUDGET_COLLECTION_NAME = 'budgets';
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+/**
+ * Checkout behavior when a budget would be exceeded
+ * - warn: checkout proceeds with a warning
+ * - block: checkout is rejected
+ */
+export enum BudgetEnforcement {
+  Warn = 'warn',
+  Block = 'block',
+}
+
+// ============================================================================
+// Main Budget Schema
+// ============================================================================
+
+/**
+ * Budget Schema
+ *
+ * Validations:
+ * - name, costCenter, periodStart, periodEnd, amount: required
+ * - amount: non-negative
+ * - periodEnd: on or after periodStart
+ */
+export const BudgetSchema = new Schema(
+  {
+    /**
+     * Budget name (e.g., "Operations FY2025")
+     */
+    name: {
+      type: String,
+      required: [true, 'Budget name is required'],
+      trim: true,
+      maxlength: [100, 'Budget name must not exceed 100 characters'],
+    },
+
+    /**
+     * Cost center this budget applies to
+     * - Matched against User.costCenter at checkout
+     */
+    costCenter: {
+      type: String,
+      required: [true, 'Cost center is required'],
+      trim: true,
+      maxlength: [
+        MAX_COST_CENTER_LENGTH,
+        `Cost center must not exceed ${MAX_COST_CENTER_LENGTH} characters`,
+      ],
+    },
+
+    /**
+     * Optional department label for display
+     */
+    department: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Department must not exceed 100 characters'],
+    },
+
+    /**
+     * Fiscal period start (inclusive)
+     */
+    periodStart: {
+      type: Date,
+      required: [true, 'Period start is required'],
+    },
+
+    /**
+     * Fiscal period end (inclusive)
+     */
+    periodEnd: {
+      type: Date,
+      required: [true, 'Period end is required'],
+      validate: {
+        validator: function (this: { periodStart?: Date }, value: Date) {
+          return !this.periodStart || value >= this.periodStart;
+        },
+        message: 'Period end must be on or after period start',
+      },
+    },
+
+    /**
+     * Budgeted amount for the period
+     */
+    amount: {
+      type: Number,
+      required: [true, 'Budget amount is required'],
+      min: [0, 'Budget amount must be non-negative'],
+    },
+
+    /**
+     * Checkout behavior when the budget would be exceeded
+     */
+    enforcement: {
+      type: String,
+      enum: {
+        values: Object.values(BudgetEnforcement),
+        message: 'Invalid budget enforcement: {VALUE}',
+      },
+      default: BudgetEnforcement.Warn,
+    },
+
+    /**
+     * Whether the budget is tracked and enforced
+     */
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    // Automatic timestamps: createdAt, updatedAt
+    timestamps: true,
+
+    // Collection name
+    collection: BUDGET_COLLECTION_NAME,
+
+    // Optimize JSON output
+    toJSON: {
+      transform: function (_doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// ============================================================================
+// Indexes
+// ============================================================================
+
+/**
+ * NOTE: Explicit .index() calls are commented out to avoid Turbopack compatibility issues.
+ */
+
+// Index on costCenter + period for checkout lookups
+// BudgetSchema.index({ costCenter: 1, isActive: 1, periodStart: 1, periodEnd: 1 });
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export default BudgetSchema;
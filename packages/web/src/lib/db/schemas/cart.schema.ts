@@ -9,9 +9,17 @@
  * - Embedded CartItem sub-documents with snapshot pattern
  * - Associated with authenticated user
  *
+ * Named carts and templates are stored separately (saved-cart.schema).
+ *
+ * Shared team carts (e.g., "Office move") live in the same collection:
+ * - No userId (that is the personal cart key); the owner and collaborators
+ *   are listed in members
+ * - Each line records who added it
+ * - Optimistic concurrency: saving a cart changed by someone else since it
+ *   was loaded fails with a VersionError
+ *
  * Future enhancements:
  * - Persist cart across sessions
- * - Multiple saved cart drafts per user
  * - Session-based carts for unauthenticated users
  */
 
@@ -28,6 +36,22 @@ export const MAX_CART_ITEMS = 50; // Reasonable limit to prevent abuse
 export const MIN_ITEM_QUANTITY = 1;
 export const MAX_ITEM_QUANTITY = 999; // Business Rule BR-2.2
 
+// Shared cart limits
+export const MAX_CART_MEMBERS = 20; // Owner and collaborators
+export const MAX_CART_NAME_LENGTH = 100;
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+/**
+ * Role of a member of a shared cart
+ */
+export enum CartRole {
+  Owner = 'owner',
+  Collaborator = 'collaborator',
+}
+
 // ============================================================================
 // Type Definitions
 // ============================================================================
@@ -41,9 +65,18 @@ interface ICartItem {
   unitPrice: number;
   quantity: number;
   addedAt: Date;
+  addedBy?: Types.ObjectId | null;
   subtotal?: number; // Virtual property
 }
 
+/**
+ * CartMember document type for TypeScript
+ */
+interface ICartMember {
+  userId: Types.ObjectId;
+  role: CartRole;
+}
+
 // ============================================================================
 // Sub-document Schemas
 // ============================================================================
@@ -125,6 +158,16 @@ const CartItemSchema = new Schema(
       default: Date.now,
       required: true,
     },
+
+    /**
+     * User who added the line
+     * - Attribution on shared carts ("added by Alex")
+     * - Unset on lines added before attribution
+     */
+    addedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
   },
   {
     // Don't add timestamps to sub-documents
@@ -152,6 +195,44 @@ CartItemSchema.virtual('subtotal').get(function () {
 CartItemSchema.set('toJSON', { virtuals: true });
 CartItemSchema.set('toObject', { virtuals: true });
 
+/**
+ * CartMember Sub-document Schema
+ *
+ * A user with access to a shared cart. The name is a snapshot from when
+ * the user joined, used for line attribution.
+ */
+const CartMemberSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+
+    name: {
+      type: String,
+      required: [true, 'Member name is required'],
+      trim: true,
+    },
+
+    role: {
+      type: String,
+      enum: {
+        values: Object.values(CartRole),
+        message: '{VALUE} is not a valid cart role',
+      },
+      required: [true, 'Role is required'],
+    },
+
+    addedAt: {
+      type: Date,
+      default: Date.now,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
 // ============================================================================
 // Main Cart Schema
 // ============================================================================
@@ -160,12 +241,14 @@ CartItemSchema.set('toObject', { virtuals: true });
  * Cart Schema
  *
  * Validations:
- * - userId: required (each cart belongs to a user)
+ * - userId: required for personal carts (each belongs to a user)
+ * - name and exactly one owner member: required for shared carts
+ * - members: max 20
  * - items: array of CartItem sub-documents, max 50 items
  * - At least 1 item required for checkout (enforced at application level)
  *
  * Indexes:
- * - userId (for user cart lookups)
+ * - userId (for user cart lookups, unique among personal carts)
  *
  * Business Rules:
  * - BR-2.1: Cart must contain at least 1 item to allow checkout
@@ -176,19 +259,78 @@ CartItemSchema.set('toObject', { virtuals: true });
 export const CartSchema = new Schema(
   {
     /**
-     * Reference to user who owns this cart
-     * - Required
+     * Reference to user whose personal cart this is
+     * - Required for personal carts, unset for shared carts
      * - ObjectId type to match User._id
-     * - Each user has exactly one cart (enforced via unique constraint)
+     * - Each user has exactly one personal cart (enforced via unique
+     *   constraint; sparse so that shared carts are not indexed)
      */
     userId: {
       type: Schema.Types.ObjectId,
       ref: 'User',
-      required: [true, 'User ID is required'],
-      unique: true, // Each user can only have one cart
+      required: [
+        function (this: { isShared?: boolean }) {
+          return !this.isShared;
+        },
+        'User ID is required',
+      ],
+      unique: true, // Each user can only have one personal cart
+      sparse: true, // Shared carts have no userId
       index: true, // Fast lookups by userId
     },
 
+    /**
+     * Whether this is a shared team cart
+     */
+    isShared: {
+      type: Boolean,
+      default: false,
+    },
+
+    /**
+     * Name of a shared cart (e.g., "Office move")
+     */
+    name: {
+      type: String,
+      trim: true,
+      maxlength: [
+        MAX_CART_NAME_LENGTH,
+        `Name must not exceed ${MAX_CART_NAME_LENGTH} characters`,
+      ],
+      required: [
+        function (this: { isShared?: boolean }) {
+          return Boolean(this.isShared);
+        },
+        'Name is required for a shared cart',
+      ],
+    },
+
+    /**
+     * Owner and collaborators of a shared cart
+     * - Exactly one owner
+     * - Max 20 members
+     */
+    members: {
+      type: [CartMemberSchema],
+      default: [],
+      validate: {
+        validator: function (
+          this: { isShared?: boolean },
+          members: ICartMember[]
+        ) {
+          if (!this.isShared) {
+            return members.length === 0;
+          }
+          return (
+            members.length <= MAX_CART_MEMBERS &&
+            members.filter((member) => member.role === CartRole.Owner)
+              .length === 1
+          );
+        },
+        message: `A shared cart has one owner and at most ${MAX_CART_MEMBERS} members`,
+      },
+    },
+
     /**
      * Line items in the cart
      * - Array of CartItem sub-documents
@@ -205,16 +347,6 @@ export const CartSchema = new Schema(
         message: `Cart cannot have more than ${MAX_CART_ITEMS} items`,
       },
     },
-
-    /**
-     * Indicates if this is a saved cart draft
-     * [Future]: For saving carts without checking out
-     */
-    isDraft: {
-      type: Boolean,
-      default: false,
-      // Not used in MVP - prepared for future feature
-    },
   },
   {
     // Automatic timestamps: createdAt, updatedAt
@@ -223,6 +355,9 @@ export const CartSchema = new Schema(
     // Enable validation before save
     validateBeforeSave: true,
 
+    // Refuse saves of a cart changed by someone else since it was loaded
+    optimisticConcurrency: true,
+
     // Collection name
     collection: CART_COLLECTION_NAME,
 
@@ -277,12 +412,15 @@ CartSchema.virtual('totalQuantity').get(function () {
 
 /**
  * NOTE: Explicit .index() calls are commented out to avoid Turbopack compatibility issues.
- * The unique index on userId is already defined via schema field option { unique: true }.
+ * The sparse unique index on userId is already defined via schema field options.
  * Other indexes can be created manually via MongoDB or enabled when not using Turbopack.
  */
 
 // Index on userId for fast cart lookups by user
-// CartSchema.index({ userId: 1 }, { unique: true }); // Each user has one active cart
+// CartSchema.index({ userId: 1 }, { unique: true, sparse: true }); // Each user has one personal cart
+
+// Shared carts of a member
+// CartSchema.index({ 'members.userId': 1 });
 
 // Index on updatedAt for cleanup of stale carts
 // CartSchema.index({ updatedAt: 1 });
@@ -0,0 +1,160 @@
+/**
+ * Category Attribute Schema Schema for MongoDB/Mongoose
+ *
+ * Defines the structured attributes items of a category have (e.g.,
+ * "Pens": color (select), tip size (number, mm)). Item attributes are
+ * validated against the schema of their category in the catalog service,
+ * and variants of a product differ in these attributes.
+ *
+ * One schema per category; categories are matched case-insensitively.
+ */
+
+import { Schema } from 'mongoose';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const CATEGORY_ATTRIBUTE_SCHEMA_COLLECTION_NAME =
+  'category_attribute_schemas';
+
+// Attribute definitions per category
+export const MAX_CATEGORY_ATTRIBUTES = 20;
+
+// Options per select attribute
+export const MAX_ATTRIBUTE_OPTIONS = 50;
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+/**
+ * Value type of a category attribute
+ */
+export enum ItemAttributeType {
+  Text = 'text',
+  Number = 'number',
+  Select = 'select',
+}
+
+// ============================================================================
+// Sub-schemas
+// ============================================================================
+
+/**
+ * Attribute definition (embedded)
+ */
+const ItemAttributeDefinitionSchema = new Schema(
+  {
+    key: {
+      type: String,
+      required: [true, 'Attribute key is required'],
+      trim: true,
+      lowercase: true,
+      maxlength: [40, 'Attribute key must not exceed 40 characters'],
+    },
+    label: {
+      type: String,
+      required: [true, 'Attribute label is required'],
+      trim: true,
+      maxlength: [60, 'Attribute label must not exceed 60 characters'],
+    },
+    type: {
+      type: String,
+      enum: {
+        values: Object.values(ItemAttributeType),
+        message: 'Invalid attribute type: {VALUE}',
+      },
+      required: [true, 'Attribute type is required'],
+    },
+    options: {
+      type: [{ type: String, trim: true, maxlength: 100 }],
+      default: undefined,
+    },
+    unit: {
+      type: String,
+      trim: true,
+      maxlength: [20, 'Attribute unit must not exceed 20 characters'],
+    },
+    required: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  { _id: false }
+);
+
+// ============================================================================
+// Main Category Attribute Schema Schema
+// ============================================================================
+
+/**
+ * Category Attribute Schema Schema
+ *
+ * Validations:
+ * - category: required, trimmed, max length 100
+ * - attributes: at most 20 definitions with unique keys (enforced in the
+ *   item attribute service)
+ */
+export const CategoryAttributeSchemaSchema = new Schema(
+  {
+    /**
+     * Category name (as used on items)
+     */
+    category: {
+      type: String,
+      required: [true, 'Category is required'],
+      trim: true,
+      maxlength: [100, 'Category must not exceed 100 characters'],
+    },
+
+    /**
+     * Attribute definitions, in display order
+     */
+    attributes: {
+      type: [ItemAttributeDefinitionSchema],
+      default: [],
+      validate: {
+        validator: function (attributes: unknown[]) {
+          return attributes.length <= MAX_CATEGORY_ATTRIBUTES;
+        },
+        message: `A category can have at most ${MAX_CATEGORY_ATTRIBUTES} attributes`,
+      },
+    },
+  },
+  {
+    // Automatic timestamps: createdAt, updatedAt
+    timestamps: true,
+
+    // Collection name
+    collection: CATEGORY_ATTRIBUTE_SCHEMA_COLLECTION_NAME,
+
+    // Optimize JSON output
+    toJSON: {
+      transform: function (_doc, ret: Record<string, unknown>) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// ============================================================================
+// Indexes
+// ============================================================================
+
+/**
+ * NOTE: Explicit .index() calls are commented out to avoid Turbopack compatibility issues.
+ */
+
+// Unique case-insensitive index on category
+// CategoryAttributeSchemaSchema.index(
+//   { category: 1 },
+//   { unique: true, collation: { locale: 'en', strength: 2 } }
+// );
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export default CategoryAttributeSchemaSchema;
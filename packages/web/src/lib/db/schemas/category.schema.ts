@@ -0,0 +1,133 @@
+/**
+ * Category Schema for MongoDB/Mongoose
+ *
+ * Admin-managed category taxonomy: a tree of categories (e.g.,
+ * "Office Supplies" → "Paper Products" → "Copy Paper"), each with an
+ * optional classification code (e.g., UNSPSC "14111507").
+ *
+ * Items reference their category by name (Item.category); names are
+ * unique across the tree, compared by their normalized key ("Office-
+ * Supplies" and "office supplies" are the same category).
+ */
+
+import { Schema } from 'mongoose';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const CATEGORY_COLLECTION_NAME = 'categories';
+
+// Maximum length of a category name (matches Item.category)
+export const MAX_CATEGORY_NAME_LENGTH = 100;
+
+// Maximum length of a classification code
+export const MAX_CATEGORY_CODE_LENGTH = 20;
+
+// ============================================================================
+// Main Category Schema
+// ============================================================================
+
+/**
+ * Category Schema
+ *
+ * Validations:
+ * - name: required, 2-100 characters
+ * - key: required normalized name (unique)
+ * - code: optional, uppercase, max length 20 (unique when set)
+ * - description: optional, max length 500
+ * - parentCategoryId: optional reference to the parent category
+ */
+export const CategorySchema = new Schema(
+  {
+    /**
+     * Display name (what Item.category holds)
+     */
+    name: {
+      type: String,
+      required: [true, 'Category name is required'],
+      trim: true,
+      minlength: [2, 'Category name must be at least 2 characters'],
+      maxlength: [
+        MAX_CATEGORY_NAME_LENGTH,
+        `Category name must not exceed ${MAX_CATEGORY_NAME_LENGTH} characters`,
+      ],
+    },
+
+    /**
+     * Normalized name for lookups and uniqueness (see normalizeCategoryKey)
+     */
+    key: {
+      type: String,
+      required: [true, 'Category key is required'],
+    },
+
+    /**
+     * Classification code (e.g., UNSPSC)
+     */
+    code: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      maxlength: [
+        MAX_CATEGORY_CODE_LENGTH,
+        `Category code must not exceed ${MAX_CATEGORY_CODE_LENGTH} characters`,
+      ],
+    },
+
+    /**
+     * Description shown to admins and buyers
+     */
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Description must not exceed 500 characters'],
+    },
+
+    /**
+     * Parent category (root categories have none)
+     */
+    parentCategoryId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Category',
+    },
+  },
+  {
+    // Automatic timestamps: createdAt, updatedAt
+    timestamps: true,
+
+    // Collection name
+    collection: CATEGORY_COLLECTION_NAME,
+
+    // Optimize JSON output
+    toJSON: {
+      transform: function (_doc, ret: Record<string, unknown>) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// ============================================================================
+// Indexes
+// ============================================================================
+
+/**
+ * NOTE: Explicit .index() calls are commented out to avoid Turbopack compatibility issues.
+ */
+
+// Unique normalized name
+// CategorySchema.index({ key: 1 }, { unique: true });
+
+// Unique classification code, when set
+// CategorySchema.index({ code: 1 }, { unique: true, sparse: true });
+
+// Children of a category
+// CategorySchema.index({ parentCategoryId: 1 });
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export default CategorySchema;
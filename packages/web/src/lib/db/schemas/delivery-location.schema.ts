@@ -0,0 +1,109 @@
+/**
+ * Delivery Location Schema for MongoDB/Mongoose
+ *
+ * Managed list of company sites purchases can be delivered to. The
+ * requester picks one at checkout; the purchase request keeps a snapshot
+ * of its name and address.
+ *
+ * Scope:
+ * - Location CRUD for admins
+ * - Active / inactive status (inactive locations can't be chosen)
+ *
+ * Future enhancements:
+ * - Receiving contacts and opening hours per location
+ */
+
+import { Schema } from 'mongoose';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DELIVERY_LOCATION_COLLECTION_NAME = 'delivery_locations';
+
+export const MAX_DELIVERY_LOCATION_NAME_LENGTH = 100;
+export const MAX_DELIVERY_ADDRESS_LENGTH = 500;
+
+// ============================================================================
+// Main Delivery Location Schema
+// ============================================================================
+
+/**
+ * Delivery Location Schema
+ *
+ * Validations:
+ * - name: required, unique, max length 100
+ * - address: required, max length 500
+ */
+export const DeliveryLocationSchema = new Schema(
+  {
+    /**
+     * Location name (e.g., "HQ - Receiving dock")
+     * - Unique across locations
+     */
+    name: {
+      type: String,
+      required: [true, 'Location name is required'],
+      trim: true,
+      unique: true,
+      maxlength: [
+        MAX_DELIVERY_LOCATION_NAME_LENGTH,
+        `Location name must not exceed ${MAX_DELIVERY_LOCATION_NAME_LENGTH} characters`,
+      ],
+    },
+
+    /**
+     * Full postal address
+     */
+    address: {
+      type: String,
+      required: [true, 'Address is required'],
+      trim: true,
+      maxlength: [
+        MAX_DELIVERY_ADDRESS_LENGTH,
+        `Address must not exceed ${MAX_DELIVERY_ADDRESS_LENGTH} characters`,
+      ],
+    },
+
+    /**
+     * Whether the location can be chosen at checkout
+     */
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    // Automatic timestamps: createdAt, updatedAt
+    timestamps: true,
+
+    // Collection name
+    collection: DELIVERY_LOCATION_COLLECTION_NAME,
+
+    // Optimize JSON output
+    toJSON: {
+      transform: function (_doc, ret: Record<string, unknown>) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// ============================================================================
+// Indexes
+// ============================================================================
+
+/**
+ * NOTE: Explicit .index() calls are commented out to avoid Turbopack compatibility issues.
+ * The unique index on name is already defined via schema field option { unique: true }.
+ */
+
+// Index on isActive for checkout location pickers
+// DeliveryLocationSchema.index({ isActive: 1, name: 1 });
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export default DeliveryLocationSchema;
@@ -0,0 +1,215 @@
+/**
+ * ERP Outbox Schema for MongoDB/Mongoose
+ *
+ * Transactional outbox for ERP operations. Approving a purchase request
+ * only writes an outbox entry; a worker sends pending entries through the
+ * configured ERP connector and retries failures with exponential backoff.
+ *
+ * Scope:
+ * - Submit and cancel operations per purchase request
+ * - Attempt counter, next attempt time and last error per entry
+ * - Stale claim recovery (entries locked by a crashed worker)
+ *
+ * Future enhancements:
+ * - Dead-letter notifications for failed entries
+ * - Purchase order and goods receipt operations
+ */
+
+import { Schema } from 'mongoose';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const ERP_OUTBOX_COLLECTION_NAME = 'erp_outbox';
+
+// Maximum length stored for the last error message
+export const MAX_ERP_ERROR_LENGTH = 2000;
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+/**
+ * Operation to perform in the ERP
+ */
+export enum ErpOperation {
+  Submit = 'submit',
+  Cancel = 'cancel',
+}
+
+/**
+ * Outbox entry status
+ * - pending: waiting for the next attempt
+ * - processing: claimed by a worker
+ * - completed: the ERP accepted the operation
+ * - failed: gave up after the maximum number of attempts (or a permanent error)
+ * - cancelled: dropped before it was sent
+ */
+export enum ErpOutboxStatus {
+  Pending = 'pending',
+  Processing = 'processing',
+  Completed = 'completed',
+  Failed = 'failed',
+  Cancelled = 'cancelled',
+}
+
+// ============================================================================
+// Main ERP Outbox Schema
+// ============================================================================
+
+/**
+ * ERP Outbox Schema
+ *
+ * Validations:
+ * - purchaseRequestId, requestNumber: required
+ * - operation, status: enum validation
+ * - attempts: non-negative integer
+ */
+export const ErpOutboxSchema = new Schema(
+  {
+    /**
+     * Purchase request the operation applies to
+     */
+    purchaseRequestId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PurchaseRequest',
+      required: [true, 'Purchase request is required'],
+    },
+
+    /**
+     * Snapshot: purchase request number
+     */
+    requestNumber: {
+      type: String,
+      required: [true, 'Request number is required'],
+      trim: true,
+    },
+
+    /**
+     * Operation to perform
+     */
+    operation: {
+      type: String,
+      enum: {
+        values: Object.values(ErpOperation),
+        message: 'Invalid ERP operation: {VALUE}',
+      },
+      required: true,
+    },
+
+    /**
+     * Connector name (e.g., "file", "http")
+     */
+    connector: {
+      type: String,
+      required: [true, 'Connector is required'],
+      trim: true,
+    },
+
+    /**
+     * Processing status
+     */
+    status: {
+      type: String,
+      enum: {
+        values: Object.values(ErpOutboxStatus),
+        message: 'Invalid outbox status: {VALUE}',
+      },
+      default: ErpOutboxStatus.Pending,
+      required: true,
+    },
+
+    /**
+     * Attempts made so far
+     */
+    attempts: {
+      type: Number,
+      default: 0,
+      min: [0, 'Attempts must be non-negative'],
+      validate: {
+        validator: Number.isInteger,
+        message: 'Attempts must be an integer',
+      },
+    },
+
+    /**
+     * Earliest time of the next attempt
+     */
+    nextAttemptAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+
+    /**
+     * When a worker claimed the entry
+     * - Cleared when the attempt finishes
+     */
+    lockedAt: {
+      type: Date,
+      default: null,
+    },
+
+    /**
+     * Error message of the last failed attempt
+     */
+    lastError: {
+      type: String,
+      maxlength: [
+        MAX_ERP_ERROR_LENGTH,
+        `Error must not exceed ${MAX_ERP_ERROR_LENGTH} characters`,
+      ],
+    },
+
+    /**
+     * ERP reference returned by a successful submit
+     */
+    erpReference: {
+      type: String,
+      trim: true,
+    },
+
+    /**
+     * When the operation succeeded
+     */
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    // Automatic timestamps: createdAt, updatedAt
+    timestamps: true,
+
+    // Collection name
+    collection: ERP_OUTBOX_COLLECTION_NAME,
+
+    // Optimize JSON output
+    toJSON: {
+      transform: function (_doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// ============================================================================
+// Indexes
+// ============================================================================
+
+/**
+ * NOTE: Explicit .index() calls are commented out to avoid Turbopack compatibility issues.
+ */
+
+// Index on status + nextAttemptAt for the worker's due-entry query
+// ErpOutboxSchema.index({ status: 1, nextAttemptAt: 1 });
+
+// Index on purchaseRequestId for request → entries lookups
+// ErpOutboxSchema.index({ purchaseRequestId: 1, createdAt: -1 });
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export default ErpOutboxSchema;
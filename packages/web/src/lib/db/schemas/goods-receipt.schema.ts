@@ -0,0 +1,266 @@
+/**
+ * Goods Receipt Schema for MongoDB/Mongoose
+ *
+ * Records a delivery received against a purchase order: quantities per
+ * line, rejected (damaged, wrong, poor quality) units and receiving notes.
+ * Receipts are append-only audit evidence and are never edited; a purchase
+ * order may have several receipts for partial deliveries.
+ *
+ * Scope:
+ * - Receipt number sequence (GR-YYYY-####)
+ * - Accepted / rejected quantities per purchase order line
+ *
+ * Future enhancements:
+ * - Return-to-vendor workflow for rejected goods
+ * - Photo attachments for damaged goods
+ */
+
+import { Schema } from 'mongoose';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const GOODS_RECEIPT_COLLECTION_NAME = 'goods_receipts';
+
+// Maximum length for receipt and line notes
+export const MAX_RECEIPT_NOTE_LENGTH = 1000;
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+/**
+ * Why received goods were rejected
+ */
+export enum ReceiptRejectionReason {
+  Damaged = 'damaged',
+  WrongItem = 'wrong_item',
+  QualityIssue = 'quality_issue',
+  Other = 'other',
+}
+
+// ============================================================================
+// Sub-document Schemas
+// ============================================================================
+
+/**
+ * GoodsReceiptLine Sub-document Schema
+ */
+const GoodsReceiptLineSchema = new Schema(
+  {
+    /**
+     * Catalog item (matches a purchase order line)
+     */
+    itemId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Item',
+      required: [true, 'Item is required'],
+    },
+
+    /**
+     * Snapshot: item name
+     */
+    name: {
+      type: String,
+      required: [true, 'Item name is required'],
+      trim: true,
+      maxlength: [200, 'Item name must not exceed 200 characters'],
+    },
+
+    /**
+     * Units delivered
+     */
+    quantityReceived: {
+      type: Number,
+      required: [true, 'Received quantity is required'],
+      min: [0, 'Received quantity must be non-negative'],
+      validate: {
+        validator: Number.isInteger,
+        message: 'Received quantity must be an integer',
+      },
+    },
+
+    /**
+     * Units rejected at receiving
+     */
+    quantityRejected: {
+      type: Number,
+      default: 0,
+      min: [0, 'Rejected quantity must be non-negative'],
+      validate: {
+        validator: Number.isInteger,
+        message: 'Rejected quantity must be an integer',
+      },
+    },
+
+    /**
+     * Why units were rejected
+     */
+    rejectionReason: {
+      type: String,
+      enum: {
+        values: Object.values(ReceiptRejectionReason),
+        message: 'Invalid rejection reason: {VALUE}',
+      },
+    },
+
+    /**
+     * Line-level note
+     */
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [
+        MAX_RECEIPT_NOTE_LENGTH,
+        `Note must not exceed ${MAX_RECEIPT_NOTE_LENGTH} characters`,
+      ],
+    },
+  },
+  { _id: false }
+);
+
+// ============================================================================
+// Main Goods Receipt Schema
+// ============================================================================
+
+/**
+ * Goods Receipt Schema
+ *
+ * Validations:
+ * - receiptNumber: required, unique (e.g., "GR-2025-0001")
+ * - purchaseOrderId, purchaseRequestId, receivedByUserId: required references
+ * - lines: at least 1 line
+ */
+export const GoodsReceiptSchema = new Schema(
+  {
+    /**
+     * Unique receipt number
+     * - Format: "GR-YYYY-####" (e.g., "GR-2025-0001")
+     */
+    receiptNumber: {
+      type: String,
+      required: [true, 'Receipt number is required'],
+      unique: true,
+      trim: true,
+      uppercase: true,
+      maxlength: [50, 'Receipt number must not exceed 50 characters'],
+    },
+
+    /**
+     * Purchase order received against
+     */
+    purchaseOrderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PurchaseOrder',
+      required: [true, 'Purchase order is required'],
+    },
+
+    /**
+     * Snapshot: purchase order number
+     */
+    poNumber: {
+      type: String,
+      required: [true, 'PO number is required'],
+      trim: true,
+    },
+
+    /**
+     * Purchase request the order was generated from
+     */
+    purchaseRequestId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PurchaseRequest',
+      required: [true, 'Purchase request is required'],
+    },
+
+    /**
+     * Snapshot: purchase request number
+     */
+    requestNumber: {
+      type: String,
+      required: [true, 'Request number is required'],
+      trim: true,
+    },
+
+    /**
+     * Received lines
+     */
+    lines: {
+      type: [GoodsReceiptLineSchema],
+      required: true,
+      validate: {
+        validator: function (lines: unknown[]) {
+          return lines.length > 0;
+        },
+        message: 'Goods receipt must have at least 1 line',
+      },
+    },
+
+    /**
+     * Receiving note (carrier, packing slip, ...)
+     */
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [
+        MAX_RECEIPT_NOTE_LENGTH,
+        `Notes must not exceed ${MAX_RECEIPT_NOTE_LENGTH} characters`,
+      ],
+    },
+
+    /**
+     * User who recorded the receipt
+     */
+    receivedByUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Receiving user is required'],
+    },
+
+    /**
+     * When the goods arrived
+     */
+    receivedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+  },
+  {
+    // Automatic timestamps: createdAt, updatedAt
+    timestamps: true,
+
+    // Collection name
+    collection: GOODS_RECEIPT_COLLECTION_NAME,
+
+    // Optimize JSON output
+    toJSON: {
+      transform: function (_doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// ============================================================================
+// Indexes
+// ============================================================================
+
+/**
+ * NOTE: Explicit .index() calls are commented out to avoid Turbopack compatibility issues.
+ * The unique index on receiptNumber is already defined via schema field option { unique: true }.
+ */
+
+// Index on purchaseOrderId for order → receipts lookups
+// GoodsReceiptSchema.index({ purchaseOrderId: 1, receivedAt: 1 });
+
+// Index on purchaseRequestId for request → receipts lookups
+// GoodsReceiptSchema.index({ purchaseRequestId: 1 });
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export default GoodsReceiptSchema;
@@ -0,0 +1,121 @@
+/**
+ * Idempotency Key Schema for MongoDB/Mongoose
+ *
+ * Keys clients send with a checkout (Idempotency-Key header or the agent's
+ * checkout tool). The key is stored in the same transaction as the
+ * purchase request it created, so a retried or double-submitted checkout
+ * returns that request instead of creating another one.
+ *
+ * Scope:
+ * - One purchase request per key and user
+ * - Fingerprint of the request the key was sent with; a reused key with a
+ *   different request is refused
+ * - Keys expire after 24 hours (TTL index on createdAt)
+ */
+
+import { Schema } from 'mongoose';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const IDEMPOTENCY_KEY_COLLECTION_NAME = 'idempotency_keys';
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+// How long a key is remembered (24 hours)
+export const IDEMPOTENCY_KEY_TTL_SECONDS = 24 * 60 * 60;
+
+// ============================================================================
+// Main Idempotency Key Schema
+// ============================================================================
+
+/**
+ * Idempotency Key Schema
+ *
+ * Validations:
+ * - key: required, unique, max length 255
+ * - userId, purchaseRequestId, requestHash: required
+ */
+export const IdempotencyKeySchema = new Schema(
+  {
+    /**
+     * Client-generated key (e.g., a UUID)
+     * - Unique across users; a key sent by another user is refused
+     */
+    key: {
+      type: String,
+      required: [true, 'Key is required'],
+      unique: true,
+      maxlength: [
+        MAX_IDEMPOTENCY_KEY_LENGTH,
+        `Key must not exceed ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+      ],
+    },
+
+    /**
+     * User who sent the key
+     */
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User is required'],
+    },
+
+    /**
+     * Purchase request created with the key
+     */
+    purchaseRequestId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PurchaseRequest',
+      required: [true, 'Purchase request is required'],
+    },
+
+    /**
+     * Fingerprint of the checkout request and the cart lines it ordered
+     * (see getCheckoutFingerprint)
+     */
+    requestHash: {
+      type: String,
+      required: [true, 'Request hash is required'],
+    },
+
+    /**
+     * When the key was stored
+     * - TTL: the key is removed IDEMPOTENCY_KEY_TTL_SECONDS later
+     */
+    createdAt: {
+      type: Date,
+      default: Date.now,
+      expires: IDEMPOTENCY_KEY_TTL_SECONDS,
+    },
+  },
+  {
+    // Collection name
+    collection: IDEMPOTENCY_KEY_COLLECTION_NAME,
+
+    // Optimize JSON output
+    toJSON: {
+      transform: function (_doc, ret: Record<string, unknown>) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// ============================================================================
+// Indexes
+// ============================================================================
+
+/**
+ * NOTE: Explicit .index() calls are commented out to avoid Turbopack compatibility issues.
+ * The unique index on key and the TTL index on createdAt are already defined
+ * via schema field options { unique: true } and { expires }.
+ */
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export default IdempotencyKeySchema;
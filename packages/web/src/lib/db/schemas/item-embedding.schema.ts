@@ -0,0 +1,115 @@
+/**
+ * Item Embedding Schema for MongoDB/Mongoose
+ *
+ * Vector index for semantic catalog search: one embedding per item and
+ * provider. Vectors are refreshed when an item is created, updated or
+ * imported, and backfilled by db:backfill-embeddings (e.g., after a
+ * provider switch).
+ *
+ * Scope:
+ * - Vector of the item's name, category and description
+ * - Hash of the embedded text, to skip re-embedding unchanged items
+ *
+ * On Atlas, create a Vector Search index on this collection and set
+ * ATLAS_VECTOR_SEARCH_INDEX:
+ *   { fields: [
+ *     { type: 'vector', path: 'vector', numDimensions: <provider dimensions>,
+ *       similarity: 'cosine' },
+ *     { type: 'filter', path: 'provider' } ] }
+ * Without it, searches compare the query with every stored vector.
+ */
+
+import { Schema } from 'mongoose';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const ITEM_EMBEDDING_COLLECTION_NAME = 'item_embeddings';
+
+// ============================================================================
+// Main Item Embedding Schema
+// ============================================================================
+
+/**
+ * Item Embedding Schema
+ *
+ * Validations:
+ * - itemId, provider, contentHash, vector: required
+ */
+export const ItemEmbeddingSchema = new Schema(
+  {
+    /**
+     * Embedded item
+     */
+    itemId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Item',
+      required: [true, 'Item is required'],
+    },
+
+    /**
+     * Provider and model the vector was computed with
+     * (e.g., "openai:text-embedding-3-small")
+     */
+    provider: {
+      type: String,
+      required: [true, 'Provider is required'],
+      trim: true,
+    },
+
+    /**
+     * SHA-256 of the embedded text
+     */
+    contentHash: {
+      type: String,
+      required: [true, 'Content hash is required'],
+    },
+
+    /**
+     * Embedding vector
+     */
+    vector: {
+      type: [Number],
+      required: true,
+      validate: {
+        validator: function (vector: number[]) {
+          return vector.length > 0;
+        },
+        message: 'Embedding vector must not be empty',
+      },
+    },
+  },
+  {
+    // Automatic timestamps: createdAt, updatedAt
+    timestamps: true,
+
+    // Collection name
+    collection: ITEM_EMBEDDING_COLLECTION_NAME,
+
+    // Optimize JSON output
+    toJSON: {
+      transform: function (_doc, ret: Record<string, unknown>) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// ============================================================================
+// Indexes
+// ============================================================================
+
+/**
+ * NOTE: Explicit .index() calls are commented out to avoid Turbopack compatibility issues.
+ */
+
+// Unique index on itemId + provider (one vector per item and provider)
+// ItemEmbeddingSchema.index({ itemId: 1, provider: 1 }, { unique: true });
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export default ItemEmbeddingSchema;
@@ -0,0 +1,185 @@
+/**
+ * Item Revision Schema for MongoDB/Mongoose
+ *
+ * Audit trail of catalog item updates: which fields changed (old and new
+ * values), who changed them, when and why. Revisions are append-only and
+ * are never edited; the price history of an item is read from them.
+ *
+ * Scope:
+ * - Field-level diff of name, category, description, price, unit and
+ *   supplier offers
+ * - Acting user (with a name snapshot) and reason (a default reason is
+ *   recorded when none is given)
+ *
+ * Future enhancements:
+ * - Revert an item to a previous revision
+ */
+
+import { Schema } from 'mongoose';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const ITEM_REVISION_COLLECTION_NAME = 'item_revisions';
+
+// Maximum length for the reason of an item update
+export const MAX_ITEM_REVISION_REASON_LENGTH = 500;
+
+// Reason recorded when an update does not give one
+export const DEFAULT_ITEM_REVISION_REASON = 'No reason given';
+
+// Item fields tracked by the revision history
+export const ITEM_REVISION_FIELDS = [
+  'name',
+  'category',
+  'description',
+  'estimatedPrice',
+  'unit',
+  'unitConversions',
+  'orderUnit',
+  'sku',
+  'attributes',
+  'parentItemId',
+  'preferredSupplier',
+  'suppliers',
+] as const;
+
+// ============================================================================
+// Sub-document Schemas
+// ============================================================================
+
+/**
+ * ItemFieldChange Sub-document Schema
+ */
+const ItemFieldChangeSchema = new Schema(
+  {
+    /**
+     * Changed field
+     */
+    field: {
+      type: String,
+      enum: {
+        values: ITEM_REVISION_FIELDS,
+        message: 'Invalid item field: {VALUE}',
+      },
+      required: [true, 'Field is required'],
+    },
+
+    /**
+     * Value before the change (absent when the field was unset)
+     */
+    from: {
+      type: Schema.Types.Mixed,
+    },
+
+    /**
+     * Value after the change (absent when the field was cleared)
+     */
+    to: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  { _id: false }
+);
+
+// ============================================================================
+// Main Item Revision Schema
+// ============================================================================
+
+/**
+ * Item Revision Schema
+ *
+ * Validations:
+ * - itemId, changedByUserId: required references
+ * - changes: at least 1 change
+ * - reason: required, max length 500
+ */
+export const ItemRevisionSchema = new Schema(
+  {
+    /**
+     * Revised item
+     */
+    itemId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Item',
+      required: [true, 'Item is required'],
+    },
+
+    /**
+     * Changed fields
+     */
+    changes: {
+      type: [ItemFieldChangeSchema],
+      required: true,
+      validate: {
+        validator: function (changes: unknown[]) {
+          return changes.length > 0;
+        },
+        message: 'Item revision must have at least 1 change',
+      },
+    },
+
+    /**
+     * Why the item was changed
+     */
+    reason: {
+      type: String,
+      required: [true, 'Reason is required'],
+      trim: true,
+      maxlength: [
+        MAX_ITEM_REVISION_REASON_LENGTH,
+        `Reason must not exceed ${MAX_ITEM_REVISION_REASON_LENGTH} characters`,
+      ],
+    },
+
+    /**
+     * User who changed the item
+     */
+    changedByUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Changing user is required'],
+    },
+
+    /**
+     * Snapshot: name of the user who changed the item
+     */
+    changedByName: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    // Automatic timestamps: createdAt, updatedAt
+    timestamps: true,
+
+    // Collection name
+    collection: ITEM_REVISION_COLLECTION_NAME,
+
+    // Optimize JSON output
+    toJSON: {
+      transform: function (_doc, ret: Record<string, unknown>) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// ============================================================================
+// Indexes
+// ============================================================================
+
+/**
+ * NOTE: Explicit .index() calls are commented out to avoid Turbopack compatibility issues.
+ */
+
+// Index on itemId for item → history lookups, newest first
+// ItemRevisionSchema.index({ itemId: 1, createdAt: -1 });
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export default ItemRevisionSchema;
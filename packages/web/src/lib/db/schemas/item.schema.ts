@@ -7,12 +7,14 @@
  * Scope: [MVP]
  * - Core catalog for Search & Register journey
  * - User-registered items with ownership tracking
+ * - Buyer review of user-registered items (approve, reject, merge)
+ * - Structured attributes (defined per category, see
+ *   category-attribute-schema.schema), SKU
+ * - Variants: items grouped under a parent product (one level deep)
+ * - Units of measure with conversions and an order unit (pack size)
  *
  * Future enhancements:
  * - Category hierarchy (separate Category collection)
- * - Unit of measure standardization
- * - Supplier relationship management
- * - Rich approval workflows for user-registered items
  */
 
 import { Schema, Types } from 'mongoose';
@@ -23,6 +25,10 @@ import { Schema, Types } from 'mongoose';
 
 export const ITEM_COLLECTION_NAME = 'items';
 
+export const MAX_ITEM_REVIEW_REASON_LENGTH = 500;
+
+export const MAX_ITEM_SKU_LENGTH = 64;
+
 // ============================================================================
 // Enums
 // ============================================================================
@@ -31,14 +37,117 @@ export const ITEM_COLLECTION_NAME = 'items';
  * Item status in the catalog
  * [MVP]: active - item is available for selection
  * [MVP]: inactive - item removed from active catalog (soft delete)
- * [Future]: pending_review - awaiting buyer approval for user-registered items
+ * pending_review - awaiting buyer approval for user-registered items
  */
 export enum ItemStatus {
   Active = 'active',
   Inactive = 'inactive',
-  PendingReview = 'pending_review', // [Future]
+  PendingReview = 'pending_review',
+}
+
+/**
+ * Buyer decision on a user-registered item
+ */
+export enum ItemReviewDecision {
+  Approved = 'approved',
+  Rejected = 'rejected',
+  Merged = 'merged',
 }
 
+// ============================================================================
+// Sub-schemas
+// ============================================================================
+
+/**
+ * Supplier offer (embedded)
+ * Links the item to a supplier with a supplier-specific price.
+ */
+const ItemSupplierOfferSchema = new Schema(
+  {
+    supplierId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Supplier',
+      required: [true, 'Supplier is required'],
+    },
+    unitPrice: {
+      type: Number,
+      required: [true, 'Supplier unit price is required'],
+      min: [0.01, 'Supplier unit price must be greater than 0'],
+      max: [1000000, 'Supplier unit price must not exceed 1,000,000'],
+    },
+    supplierSku: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Supplier SKU must not exceed 100 characters'],
+    },
+    leadTimeDays: {
+      type: Number,
+      min: [0, 'Lead time must be non-negative'],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Unit conversion (embedded)
+ * One `unit` equals `factor` base units (e.g., 1 box = 12 each).
+ */
+const ItemUnitConversionSchema = new Schema(
+  {
+    unit: {
+      type: String,
+      required: [true, 'Conversion unit is required'],
+      trim: true,
+      maxlength: [50, 'Unit must not exceed 50 characters'],
+    },
+    factor: {
+      type: Number,
+      required: [true, 'Conversion factor is required'],
+      min: [2, 'Conversion factor must be at least 2'],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Buyer review (embedded)
+ * Set once a pending user-registered item is decided.
+ */
+const ItemReviewSchema = new Schema(
+  {
+    decision: {
+      type: String,
+      enum: {
+        values: Object.values(ItemReviewDecision),
+        message: 'Invalid review decision: {VALUE}',
+      },
+      required: [true, 'Review decision is required'],
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [
+        MAX_ITEM_REVIEW_REASON_LENGTH,
+        `Reason must not exceed ${MAX_ITEM_REVIEW_REASON_LENGTH} characters`,
+      ],
+    },
+    mergedIntoItemId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Item',
+    },
+    reviewedByUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Reviewer is required'],
+    },
+    reviewedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
 // ============================================================================
 // Schema Definition
 // ============================================================================
@@ -124,8 +233,8 @@ export const ItemSchema = new Schema(
     },
 
     /**
-     * Unit of measure (e.g., "each", "box", "pack")
-     * [Future]: For more precise quantity management
+     * Base unit of measure (e.g., "each", "kg")
+     * - Prices and cart quantities are expressed in this unit
      */
     unit: {
       type: String,
@@ -135,10 +244,64 @@ export const ItemSchema = new Schema(
       // Not required in MVP
     },
 
+    /**
+     * Larger units in base units (e.g., box of 12)
+     * - Units are unique and differ from the base unit (enforced in the
+     *   catalog service)
+     */
+    unitConversions: {
+      type: [ItemUnitConversionSchema],
+      default: undefined,
+    },
+
+    /**
+     * Unit the item must be ordered in
+     * - One of unitConversions; cart quantities must be multiples of its
+     *   factor (the pack size)
+     */
+    orderUnit: {
+      type: String,
+      trim: true,
+      maxlength: [50, 'Order unit must not exceed 50 characters'],
+    },
+
+    /**
+     * Stock keeping unit
+     * - Optional, unique across the catalog (enforced in the catalog
+     *   service)
+     */
+    sku: {
+      type: String,
+      trim: true,
+      maxlength: [
+        MAX_ITEM_SKU_LENGTH,
+        `SKU must not exceed ${MAX_ITEM_SKU_LENGTH} characters`,
+      ],
+    },
+
+    /**
+     * Structured attributes keyed by attribute key (e.g., color, capacity)
+     * - Validated against the category attribute schema in the catalog
+     *   service
+     */
+    attributes: {
+      type: Schema.Types.Mixed,
+    },
+
+    /**
+     * Parent product of a variant
+     * - Variants share the parent's category; parents cannot be variants
+     *   themselves (one level deep)
+     */
+    parentItemId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Item',
+    },
+
     /**
      * Item status in the catalog
      * [MVP]: Defaults to 'active'
-     * [Future]: 'pending_review' for items awaiting buyer approval
+     * 'pending_review' for user-registered items awaiting buyer approval
      */
     status: {
       type: String,
@@ -151,8 +314,8 @@ export const ItemSchema = new Schema(
     },
 
     /**
-     * Preferred supplier name
-     * [Future]: For supplier relationship management
+     * Preferred supplier name (free text)
+     * - Predates the supplier master data; see `suppliers`
      */
     preferredSupplier: {
       type: String,
@@ -161,6 +324,24 @@ export const ItemSchema = new Schema(
       // Not required in MVP
     },
 
+    /**
+     * Suppliers offering this item
+     * - Supplier-specific prices and lead times
+     * - At most one offer per supplier (enforced in the catalog service)
+     */
+    suppliers: {
+      type: [ItemSupplierOfferSchema],
+      default: [],
+    },
+
+    /**
+     * Buyer review of a user-registered item
+     * - Absent until the item leaves the review queue
+     */
+    review: {
+      type: ItemReviewSchema,
+    },
+
     /**
      * User ID who created/registered this item
      * - Optional: null for seeded/pre-loaded items
@@ -215,8 +396,20 @@ export const ItemSchema = new Schema(
 // Index on status for active item queries
 // ItemSchema.index({ status: 1 });
 
+// Compound index on status + price for price range filters and price sorting
+// ItemSchema.index({ status: 1, estimatedPrice: 1 });
+
 // Index on createdByUserId for user's registered items
-// ItemSchema.index({ createdByUserId: 1 });
+// ItemSchema.index({ createdByUserId: 1, createdAt: -1 });
+
+// Index on supplier offers for "items from supplier" lookups
+// ItemSchema.index({ 'suppliers.supplierId': 1 });
+
+// Sparse unique index on SKU
+// ItemSchema.index({ sku: 1 }, { unique: true, sparse: true });
+
+// Index on parent item for variant family lookups
+// ItemSchema.index({ parentItemId: 1 });
 
 // ============================================================================
 // Virtual Properties
@@ -0,0 +1,401 @@
+/**
+ * Purchase Order Schema for MongoDB/Mongoose
+ *
+ * One purchase order per supplier, generated from an approved purchase
+ * request. Lines are snapshots of the request lines priced with the
+ * supplier's offer, so later catalog or supplier changes don't alter
+ * issued orders.
+ *
+ * Scope:
+ * - PO number sequence (PO-YYYY-####)
+ * - Issued → acknowledged → partially received → closed lifecycle
+ * - Supplier and payment terms snapshot for the printable document
+ *
+ * Future enhancements:
+ * - Change orders / revisions after issue
+ * - Electronic transmission to suppliers
+ */
+
+import { Schema } from 'mongoose';
+
+import { SupplierPaymentTerms } from './supplier.schema';
+import { MAX_COST_CENTER_LENGTH } from './user.schema';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const PURCHASE_ORDER_COLLECTION_NAME = 'purchase_orders';
+
+// Maximum length for status change notes
+export const MAX_PURCHASE_ORDER_NOTE_LENGTH = 1000;
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+/**
+ * Purchase order status
+ * - issued: sent to the supplier
+ * - acknowledged: supplier confirmed the order
+ * - partially_received: some goods have been received
+ * - closed: fulfilled or cancelled
+ */
+export enum PurchaseOrderStatus {
+  Issued = 'issued',
+  Acknowledged = 'acknowledged',
+  PartiallyReceived = 'partially_received',
+  Closed = 'closed',
+}
+
+// ============================================================================
+// Sub-document Schemas
+// ============================================================================
+
+/**
+ * PurchaseOrderItem Sub-document Schema
+ *
+ * Snapshot of a purchase request line with the supplier's price.
+ */
+const PurchaseOrderItemSchema = new Schema(
+  {
+    /**
+     * Reference to the catalog item
+     */
+    itemId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Item',
+      required: [true, 'Item is required'],
+    },
+
+    /**
+     * Snapshot: item name
+     */
+    name: {
+      type: String,
+      required: [true, 'Item name is required'],
+      trim: true,
+      maxlength: [200, 'Item name must not exceed 200 characters'],
+    },
+
+    /**
+     * Snapshot: item category
+     */
+    category: {
+      type: String,
+      required: [true, 'Item category is required'],
+      trim: true,
+      maxlength: [100, 'Category must not exceed 100 characters'],
+    },
+
+    /**
+     * Snapshot: item description
+     */
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Description must not exceed 2000 characters'],
+    },
+
+    /**
+     * Supplier's SKU / part number
+     */
+    supplierSku: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Supplier SKU must not exceed 100 characters'],
+    },
+
+    /**
+     * Supplier-specific unit price
+     */
+    unitPrice: {
+      type: Number,
+      required: [true, 'Unit price is required'],
+      min: [0.01, 'Unit price must be greater than 0'],
+    },
+
+    /**
+     * Quantity ordered
+     */
+    quantity: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+      min: [1, 'Quantity must be at least 1'],
+      validate: {
+        validator: Number.isInteger,
+        message: 'Quantity must be an integer',
+      },
+    },
+
+    /**
+     * Subtotal for this line (unitPrice * quantity)
+     */
+    subtotal: {
+      type: Number,
+      required: [true, 'Subtotal is required'],
+      min: [0, 'Subtotal must be greater than or equal to 0'],
+    },
+
+    /**
+     * Lead time quoted for this line, in days
+     */
+    leadTimeDays: {
+      type: Number,
+      min: [0, 'Lead time must be non-negative'],
+    },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+/**
+ * StatusHistory Sub-document Schema
+ *
+ * Append-only record of purchase order status changes.
+ */
+const PurchaseOrderStatusHistorySchema = new Schema(
+  {
+    /**
+     * Status before the change (absent when the order was issued)
+     */
+    fromStatus: {
+      type: String,
+      enum: {
+        values: Object.values(PurchaseOrderStatus),
+        message: 'Invalid status: {VALUE}',
+      },
+    },
+
+    /**
+     * Status after the change
+     */
+    toStatus: {
+      type: String,
+      enum: {
+        values: Object.values(PurchaseOrderStatus),
+        message: 'Invalid status: {VALUE}',
+      },
+      required: true,
+    },
+
+    /**
+     * User who made the change (absent for system changes)
+     */
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+
+    /**
+     * Optional note
+     */
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [
+        MAX_PURCHASE_ORDER_NOTE_LENGTH,
+        `Note must not exceed ${MAX_PURCHASE_ORDER_NOTE_LENGTH} characters`,
+      ],
+    },
+
+    /**
+     * Change timestamp
+     */
+    changedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+// ============================================================================
+// Main Purchase Order Schema
+// ============================================================================
+
+/**
+ * Purchase Order Schema
+ *
+ * Validations:
+ * - poNumber: required, unique (e.g., "PO-2025-0001")
+ * - purchaseRequestId, supplierId: required references
+ * - items: at least 1 line
+ * - status: enum validation
+ */
+export const PurchaseOrderSchema = new Schema(
+  {
+    /**
+     * Unique purchase order number
+     * - Format: "PO-YYYY-####" (e.g., "PO-2025-0001")
+     */
+    poNumber: {
+      type: String,
+      required: [true, 'PO number is required'],
+      unique: true,
+      trim: true,
+      uppercase: true,
+      maxlength: [50, 'PO number must not exceed 50 characters'],
+    },
+
+    /**
+     * Purchase request this order was generated from
+     */
+    purchaseRequestId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PurchaseRequest',
+      required: [true, 'Purchase request is required'],
+    },
+
+    /**
+     * Snapshot: purchase request number
+     */
+    requestNumber: {
+      type: String,
+      required: [true, 'Request number is required'],
+      trim: true,
+    },
+
+    /**
+     * Supplier receiving the order
+     */
+    supplierId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Supplier',
+      required: [true, 'Supplier is required'],
+    },
+
+    /**
+     * Snapshot: supplier name
+     */
+    supplierName: {
+      type: String,
+      required: [true, 'Supplier name is required'],
+      trim: true,
+    },
+
+    /**
+     * Snapshot: supplier contact email (order recipient)
+     */
+    supplierEmail: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
+
+    /**
+     * Snapshot: payment terms at issue time
+     */
+    paymentTerms: {
+      type: String,
+      enum: {
+        values: Object.values(SupplierPaymentTerms),
+        message: 'Invalid payment terms: {VALUE}',
+      },
+      required: true,
+    },
+
+    /**
+     * Order lines
+     */
+    items: {
+      type: [PurchaseOrderItemSchema],
+      required: true,
+      validate: {
+        validator: function (items: unknown[]) {
+          return items.length > 0;
+        },
+        message: 'Purchase order must have at least 1 item',
+      },
+    },
+
+    /**
+     * Order total (sum of line subtotals)
+     */
+    total: {
+      type: Number,
+      required: [true, 'Total is required'],
+      min: [0, 'Total must be greater than or equal to 0'],
+    },
+
+    /**
+     * Current status
+     */
+    status: {
+      type: String,
+      enum: {
+        values: Object.values(PurchaseOrderStatus),
+        message: 'Invalid status: {VALUE}',
+      },
+      default: PurchaseOrderStatus.Issued,
+      required: true,
+    },
+
+    /**
+     * Status audit trail (oldest first)
+     */
+    statusHistory: {
+      type: [PurchaseOrderStatusHistorySchema],
+      default: [],
+    },
+
+    /**
+     * Expected delivery date
+     */
+    expectedDeliveryDate: {
+      type: Date,
+    },
+
+    /**
+     * Cost center charged (copied from the purchase request)
+     */
+    costCenter: {
+      type: String,
+      trim: true,
+      maxlength: [
+        MAX_COST_CENTER_LENGTH,
+        `Cost center must not exceed ${MAX_COST_CENTER_LENGTH} characters`,
+      ],
+    },
+  },
+  {
+    // Automatic timestamps: createdAt, updatedAt
+    timestamps: true,
+
+    // Collection name
+    collection: PURCHASE_ORDER_COLLECTION_NAME,
+
+    // Optimize JSON output
+    toJSON: {
+      transform: function (_doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// ============================================================================
+// Indexes
+// ============================================================================
+
+/**
+ * NOTE: Explicit .index() calls are commented out to avoid Turbopack compatibility issues.
+ * The unique index on poNumber is already defined via schema field option { unique: true }.
+ */
+
+// Index on purchaseRequestId for request → orders lookups
+// PurchaseOrderSchema.index({ purchaseRequestId: 1 });
+
+// Index on supplierId + status for supplier order lists
+// PurchaseOrderSchema.index({ supplierId: 1, status: 1 });
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export default PurchaseOrderSchema;
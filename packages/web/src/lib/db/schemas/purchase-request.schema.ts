@@ -1,24 +1,25 @@
 /**
  * Purchase Request Schema for MongoDB/Mongoose
  *
- * Represents a simulated purchase request submitted to the ERP.
- * In the tech case, requests are logged to MongoDB instead of being
- * sent to a real ERP system.
+ * Represents a purchase request submitted to the ERP.
+ * Requests are stored in MongoDB; approved requests are queued in the
+ * ERP outbox and sent through the configured ERP connector.
  *
  * Scope: [MVP]
  * - Simulated ERP submission for Cart & Checkout journey
  * - Embedded PurchaseRequestItem sub-documents with immutable snapshots
  * - Tracks request source (UI or Agent)
- *
- * Future enhancements:
- * - Real ERP integration
- * - Approval workflows (PendingApproval, Approved, Rejected statuses)
- * - Delivery location and requested delivery date
- * - Budget validation
+ * - Multi-step approval chain with embedded steps and status history
+ * - Cost center snapshot for department budget tracking
+ * - ERP reference number and sync status
+ * - Delivery location snapshot, requested delivery date and GL code chosen
+ *   at checkout, with optional per-line overrides
  */
 
 import { Schema, Types } from 'mongoose';
 
+import { MAX_COST_CENTER_LENGTH } from './user.schema';
+
 // ============================================================================
 // Constants
 // ============================================================================
@@ -28,6 +29,7 @@ export const PURCHASE_REQUEST_COLLECTION_NAME = 'purchase_requests';
 // Validation limits
 export const MAX_REQUEST_ITEMS = 100; // Maximum items per request
 export const MAX_NOTES_LENGTH = 2000; // Maximum length for notes field
+export const MAX_GL_CODE_LENGTH = 30; // Maximum length for GL account codes
 
 // ============================================================================
 // Enums
@@ -36,15 +38,57 @@ export const MAX_NOTES_LENGTH = 2000; // Maximum length for notes field
 /**
  * Purchase request status
  * [MVP]: submitted - default status for tech case
- * [Future]: pending_approval, approved, rejected - for approval workflows
+ * pending_approval, approved, rejected, returned_for_changes - approval workflow
  */
 export enum PurchaseRequestStatus {
   Submitted = 'submitted',
-  PendingApproval = 'pending_approval', // [Future]
-  Approved = 'approved', // [Future]
-  Rejected = 'rejected', // [Future]
+  PendingApproval = 'pending_approval',
+  Approved = 'approved',
+  Rejected = 'rejected',
+  ReturnedForChanges = 'returned_for_changes',
+}
+
+/**
+ * ERP sync status (see ErpSyncStatus in domain entities)
+ */
+export enum ErpSyncStatus {
+  Queued = 'queued',
+  Submitted = 'submitted',
+  Accepted = 'accepted',
+  Rejected = 'rejected',
+  Cancelled = 'cancelled',
+  Failed = 'failed',
+}
+
+/**
+ * Approval state-machine actions recorded in status history
+ */
+export enum ApprovalAction {
+  Submit = 'submit',
+  Approve = 'approve',
+  Reject = 'reject',
+  ReturnForChanges = 'return_for_changes',
+  Resubmit = 'resubmit',
+}
+
+/**
+ * Status of an individual approval step
+ */
+export enum ApprovalStepStatus {
+  Pending = 'pending',
+  Approved = 'approved',
+  Rejected = 'rejected',
+  Returned = 'returned',
 }
 
+/**
+ * Roles that can be assigned as approvers
+ */
+export const APPROVER_ROLES = ['requester', 'buyer', 'admin'] as const;
+
+// Maximum length for approval comments
+export const MAX_APPROVAL_COMMENT_LENGTH = 1000;
+
 /**
  * Purchase request source
  * Indicates how the request was created
@@ -69,12 +113,62 @@ interface IPurchaseRequestItem {
   unitPrice: number;
   quantity: number;
   subtotal: number;
+  glCode?: string;
+  deliveryLocation?: {
+    locationId: Types.ObjectId;
+    name: string;
+    address: string;
+  };
+  requestedDeliveryDate?: Date;
 }
 
 // ============================================================================
 // Sub-document Schemas
 // ============================================================================
 
+/**
+ * DeliveryLocationSnapshot Sub-document Schema
+ *
+ * Copy of a managed delivery location taken at checkout, so the request
+ * keeps its ship-to address even if the location is later edited or removed.
+ */
+const DeliveryLocationSnapshotSchema = new Schema(
+  {
+    /**
+     * Reference to the managed delivery location
+     */
+    locationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'DeliveryLocation',
+      required: [true, 'Delivery location ID is required'],
+    },
+
+    /**
+     * Snapshot: location name at checkout
+     */
+    name: {
+      type: String,
+      required: [true, 'Delivery location name is required'],
+      trim: true,
+      maxlength: [100, 'Delivery location name must not exceed 100 characters'],
+    },
+
+    /**
+     * Snapshot: delivery address at checkout
+     */
+    address: {
+      type: String,
+      required: [true, 'Delivery address is required'],
+      trim: true,
+      maxlength: [500, 'Delivery address must not exceed 500 characters'],
+    },
+  },
+  {
+    _id: false,
+    timestamps: false,
+  }
+);
+
 /**
  * PurchaseRequestItem Sub-document Schema
  *
@@ -174,6 +268,35 @@ const PurchaseRequestItemSchema = new Schema(
       required: [true, 'Subtotal is required'],
       min: [0, 'Subtotal must be greater than or equal to 0'],
     },
+
+    /**
+     * Line override: GL account code
+     * - Absent when the line uses the request's GL code
+     */
+    glCode: {
+      type: String,
+      trim: true,
+      maxlength: [
+        MAX_GL_CODE_LENGTH,
+        `GL code must not exceed ${MAX_GL_CODE_LENGTH} characters`,
+      ],
+    },
+
+    /**
+     * Line override: delivery location snapshot
+     * - Absent when the line ships to the request's location
+     */
+    deliveryLocation: {
+      type: DeliveryLocationSnapshotSchema,
+    },
+
+    /**
+     * Line override: requested delivery date
+     * - Absent when the line uses the request's date
+     */
+    requestedDeliveryDate: {
+      type: Date,
+    },
   },
   {
     // Don't add timestamps to sub-documents
@@ -189,6 +312,174 @@ const PurchaseRequestItemSchema = new Schema(
   }
 );
 
+/**
+ * ApprovalStep Sub-document Schema
+ *
+ * One approver assignment in the request's approval chain. The chain is
+ * resolved from approval rules when the request is submitted and is then
+ * frozen on the request, so later rule changes don't affect it.
+ */
+const ApprovalStepSchema = new Schema(
+  {
+    /**
+     * Step label (e.g., "Buyer review")
+     */
+    name: {
+      type: String,
+      required: [true, 'Approval step name is required'],
+      trim: true,
+      maxlength: [100, 'Approval step name must not exceed 100 characters'],
+    },
+
+    /**
+     * Role allowed to act on this step
+     */
+    approverRole: {
+      type: String,
+      enum: {
+        values: APPROVER_ROLES,
+        message: 'Invalid approver role: {VALUE}',
+      },
+    },
+
+    /**
+     * Specific users allowed to act on this step
+     */
+    approverIds: {
+      type: [Schema.Types.ObjectId],
+      ref: 'User',
+      default: [],
+    },
+
+    /**
+     * Step decision status
+     */
+    status: {
+      type: String,
+      enum: {
+        values: Object.values(ApprovalStepStatus),
+        message: 'Invalid approval step status: {VALUE}',
+      },
+      default: ApprovalStepStatus.Pending,
+      required: true,
+    },
+
+    /**
+     * User who decided this step
+     */
+    decidedByUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+
+    /**
+     * Decision timestamp
+     */
+    decidedAt: {
+      type: Date,
+    },
+
+    /**
+     * Approver comment
+     */
+    comment: {
+      type: String,
+      trim: true,
+      maxlength: [
+        MAX_APPROVAL_COMMENT_LENGTH,
+        `Comment must not exceed ${MAX_APPROVAL_COMMENT_LENGTH} characters`,
+      ],
+    },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+/**
+ * StatusHistory Sub-document Schema
+ *
+ * Append-only record of every state-machine transition.
+ */
+const StatusHistorySchema = new Schema(
+  {
+    /**
+     * Status before the transition (absent for initial submission)
+     */
+    fromStatus: {
+      type: String,
+      enum: {
+        values: Object.values(PurchaseRequestStatus),
+        message: 'Invalid status: {VALUE}',
+      },
+    },
+
+    /**
+     * Status after the transition
+     */
+    toStatus: {
+      type: String,
+      enum: {
+        values: Object.values(PurchaseRequestStatus),
+        message: 'Invalid status: {VALUE}',
+      },
+      required: true,
+    },
+
+    /**
+     * Action that triggered the transition
+     */
+    action: {
+      type: String,
+      enum: {
+        values: Object.values(ApprovalAction),
+        message: 'Invalid approval action: {VALUE}',
+      },
+      required: true,
+    },
+
+    /**
+     * User who performed the action
+     */
+    actorUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+
+    /**
+     * Approval step the action applied to
+     */
+    stepName: {
+      type: String,
+      trim: true,
+    },
+
+    /**
+     * Optional comment
+     */
+    comment: {
+      type: String,
+      trim: true,
+      maxlength: [
+        MAX_APPROVAL_COMMENT_LENGTH,
+        `Comment must not exceed ${MAX_APPROVAL_COMMENT_LENGTH} characters`,
+      ],
+    },
+
+    /**
+     * Transition timestamp
+     */
+    changedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: false,
+  }
+);
+
 // ============================================================================
 // Main Purchase Request Schema
 // ============================================================================
@@ -302,7 +593,7 @@ export const PurchaseRequestSchema = new Schema(
     /**
      * Purchase request status
      * [MVP]: Defaults to 'submitted'
-     * [Future]: pending_approval, approved, rejected
+     * Driven by the approval workflow once a chain is resolved
      */
     status: {
       type: String,
@@ -315,23 +606,101 @@ export const PurchaseRequestSchema = new Schema(
     },
 
     /**
-     * Delivery location
-     * [Future]: For advanced logistics
+     * Approval chain (frozen at submission)
      */
-    deliveryLocation: {
+    approvalSteps: {
+      type: [ApprovalStepSchema],
+      default: [],
+    },
+
+    /**
+     * Index of the step awaiting a decision
+     * - null when the chain is complete or empty
+     */
+    currentApprovalStep: {
+      type: Number,
+      min: [0, 'Approval step index must be non-negative'],
+      default: null,
+    },
+
+    /**
+     * State-machine transition history (oldest first)
+     */
+    statusHistory: {
+      type: [StatusHistorySchema],
+      default: [],
+    },
+
+    /**
+     * Cost center charged for this request
+     * - Chosen at checkout; defaults to the requester's cost center
+     */
+    costCenter: {
       type: String,
       trim: true,
-      maxlength: [500, 'Delivery location must not exceed 500 characters'],
-      // Not required in MVP
+      maxlength: [
+        MAX_COST_CENTER_LENGTH,
+        `Cost center must not exceed ${MAX_COST_CENTER_LENGTH} characters`,
+      ],
+    },
+
+    /**
+     * GL account code charged for this request
+     * - Lines may override it
+     */
+    glCode: {
+      type: String,
+      trim: true,
+      maxlength: [
+        MAX_GL_CODE_LENGTH,
+        `GL code must not exceed ${MAX_GL_CODE_LENGTH} characters`,
+      ],
+    },
+
+    /**
+     * Reference number assigned by the ERP
+     * - Set when the submission succeeds
+     */
+    erpReference: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'ERP reference must not exceed 100 characters'],
+    },
+
+    /**
+     * Last known ERP status
+     */
+    erpStatus: {
+      type: String,
+      enum: {
+        values: Object.values(ErpSyncStatus),
+        message: 'Invalid ERP status: {VALUE}',
+      },
+    },
+
+    /**
+     * When the ERP status last changed
+     */
+    erpStatusUpdatedAt: {
+      type: Date,
+    },
+
+    /**
+     * Delivery location snapshot
+     * - Chosen at checkout from the managed delivery locations
+     * - Lines may override it
+     */
+    deliveryLocation: {
+      type: DeliveryLocationSnapshotSchema,
     },
 
     /**
      * Requested delivery date
-     * [Future]: For scheduling
+     * - Validated at checkout against supplier lead times
+     * - Lines may override it
      */
     requestedDeliveryDate: {
       type: Date,
-      // Not required in MVP
     },
   },
   {
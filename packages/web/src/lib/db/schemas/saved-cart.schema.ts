@@ -0,0 +1,179 @@
+/**
+ * Saved Cart Schema for MongoDB/Mongoose
+ *
+ * Named copies of a user's cart:
+ * - saved: a cart parked for later (restoring it empties the saved cart)
+ * - template: a reusable list, e.g. "Monthly kitchen restock"
+ *
+ * Lines keep the item name and price from when the cart was saved; they
+ * are re-priced against the catalog when restored into the cart.
+ */
+
+import { Schema } from 'mongoose';
+
+import {
+  MAX_CART_ITEMS,
+  MAX_ITEM_QUANTITY,
+  MIN_ITEM_QUANTITY,
+} from './cart.schema';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SAVED_CART_COLLECTION_NAME = 'saved_carts';
+
+// Maximum number of saved carts and templates per user
+export const MAX_SAVED_CARTS = 50;
+
+// Maximum length of a saved cart name
+export const MAX_SAVED_CART_NAME_LENGTH = 100;
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+/**
+ * Kind of saved cart
+ */
+export enum SavedCartKind {
+  Saved = 'saved',
+  Template = 'template',
+}
+
+// ============================================================================
+// Sub-document Schemas
+// ============================================================================
+
+/**
+ * Saved cart line (snapshot of a cart line)
+ */
+const SavedCartItemSchema = new Schema(
+  {
+    itemId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Item',
+      required: [true, 'Item ID is required'],
+    },
+
+    name: {
+      type: String,
+      required: [true, 'Item name is required'],
+      trim: true,
+      maxlength: [200, 'Item name must not exceed 200 characters'],
+    },
+
+    unitPrice: {
+      type: Number,
+      required: [true, 'Unit price is required'],
+      min: [0, 'Unit price must not be negative'],
+    },
+
+    quantity: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+      min: [
+        MIN_ITEM_QUANTITY,
+        `Quantity must be at least ${MIN_ITEM_QUANTITY}`,
+      ],
+      max: [MAX_ITEM_QUANTITY, `Quantity must not exceed ${MAX_ITEM_QUANTITY}`],
+    },
+  },
+  { _id: false }
+);
+
+// ============================================================================
+// Main Saved Cart Schema
+// ============================================================================
+
+/**
+ * Saved Cart Schema
+ *
+ * Validations:
+ * - userId, name, kind: required
+ * - name: max length 100 (unique per user, enforced by the service)
+ * - items: 1 to 50 lines
+ */
+export const SavedCartSchema = new Schema(
+  {
+    /**
+     * Owner
+     */
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+
+    /**
+     * Name shown in the cart (e.g., "Monthly kitchen restock")
+     */
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [
+        MAX_SAVED_CART_NAME_LENGTH,
+        `Name must not exceed ${MAX_SAVED_CART_NAME_LENGTH} characters`,
+      ],
+    },
+
+    kind: {
+      type: String,
+      enum: {
+        values: Object.values(SavedCartKind),
+        message: '{VALUE} is not a valid saved cart kind',
+      },
+      required: [true, 'Kind is required'],
+    },
+
+    items: {
+      type: [SavedCartItemSchema],
+      validate: {
+        validator: function (items: unknown[]) {
+          return items.length >= 1 && items.length <= MAX_CART_ITEMS;
+        },
+        message: `A saved cart must have between 1 and ${MAX_CART_ITEMS} items`,
+      },
+    },
+
+    /**
+     * When the saved cart was last restored into the cart
+     */
+    lastUsedAt: {
+      type: Date,
+    },
+  },
+  {
+    // Automatic timestamps: createdAt, updatedAt
+    timestamps: true,
+
+    // Collection name
+    collection: SAVED_CART_COLLECTION_NAME,
+
+    // Optimize JSON output
+    toJSON: {
+      transform: function (_doc, ret: Record<string, unknown>) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// ============================================================================
+// Indexes
+// ============================================================================
+
+/**
+ * NOTE: Explicit .index() calls are commented out to avoid Turbopack compatibility issues.
+ */
+
+// Saved carts of a user, most recently updated first
+// SavedCartSchema.index({ userId: 1, updatedAt: -1 });
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export default SavedCartSchema;
@@ -0,0 +1,108 @@
+/**
+ * Search Synonym Schema for MongoDB/Mongoose
+ *
+ * Admin-managed dictionary of equivalent catalog search terms. Each
+ * document is a group of terms that match each other when searching
+ * (e.g., "notepad" / "notebook", "usb c" / "type c").
+ *
+ * Terms are stored normalized (lowercase, single spaces) so lookups are
+ * exact string comparisons.
+ */
+
+import { Schema } from 'mongoose';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SEARCH_SYNONYM_COLLECTION_NAME = 'search_synonyms';
+
+// Terms per synonym group
+export const MIN_SYNONYM_TERMS = 2;
+export const MAX_SYNONYM_TERMS = 20;
+
+// Maximum length of a single term
+export const MAX_SYNONYM_TERM_LENGTH = 50;
+
+// ============================================================================
+// Main Search Synonym Schema
+// ============================================================================
+
+/**
+ * Search Synonym Schema
+ *
+ * Validations:
+ * - terms: 2 to 20 lowercase terms, each max length 50
+ * - createdByUserId: required reference
+ */
+export const SearchSynonymSchema = new Schema(
+  {
+    /**
+     * Equivalent terms (normalized)
+     */
+    terms: {
+      type: [
+        {
+          type: String,
+          trim: true,
+          lowercase: true,
+          maxlength: [
+            MAX_SYNONYM_TERM_LENGTH,
+            `Term must not exceed ${MAX_SYNONYM_TERM_LENGTH} characters`,
+          ],
+        },
+      ],
+      required: true,
+      validate: {
+        validator: function (terms: string[]) {
+          return (
+            terms.length >= MIN_SYNONYM_TERMS &&
+            terms.length <= MAX_SYNONYM_TERMS
+          );
+        },
+        message: `Synonym group must have ${MIN_SYNONYM_TERMS} to ${MAX_SYNONYM_TERMS} terms`,
+      },
+    },
+
+    /**
+     * Admin who created the group
+     */
+    createdByUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Creating user is required'],
+    },
+  },
+  {
+    // Automatic timestamps: createdAt, updatedAt
+    timestamps: true,
+
+    // Collection name
+    collection: SEARCH_SYNONYM_COLLECTION_NAME,
+
+    // Optimize JSON output
+    toJSON: {
+      transform: function (_doc, ret: Record<string, unknown>) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// ============================================================================
+// Indexes
+// ============================================================================
+
+/**
+ * NOTE: Explicit .index() calls are commented out to avoid Turbopack compatibility issues.
+ */
+
+// Multikey index on terms for "which group contains this term" lookups
+// SearchSynonymSchema.index({ terms: 1 });
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export default SearchSynonymSchema;
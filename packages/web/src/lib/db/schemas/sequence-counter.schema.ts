@@ -0,0 +1,73 @@
+/**
+ * Sequence Counter Schema for MongoDB/Mongoose
+ *
+ * Named counters for human-readable document numbers. A number is taken
+ * with one atomic $inc on the counter, so concurrent writers never get the
+ * same number.
+ *
+ * Scope:
+ * - One counter per sequence and year (e.g., "purchase_order:2025")
+ * - Last number handed out
+ */
+
+import { Schema } from 'mongoose';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SEQUENCE_COUNTER_COLLECTION_NAME = 'sequence_counters';
+
+// ============================================================================
+// Main Sequence Counter Schema
+// ============================================================================
+
+/**
+ * Sequence Counter Schema
+ *
+ * Validations:
+ * - _id: required (counter name)
+ * - sequence: required, non-negative
+ */
+export const SequenceCounterSchema = new Schema(
+  {
+    /**
+     * Counter name (e.g., "purchase_order:2025")
+     */
+    _id: {
+      type: String,
+      required: true,
+    },
+
+    /**
+     * Last number handed out
+     */
+    sequence: {
+      type: Number,
+      required: true,
+      min: [0, 'Sequence cannot be negative'],
+      default: 0,
+    },
+  },
+  {
+    // Automatic timestamps: createdAt, updatedAt
+    timestamps: true,
+
+    // Collection name
+    collection: SEQUENCE_COUNTER_COLLECTION_NAME,
+
+    // Optimize JSON output
+    toJSON: {
+      transform: function (_doc, ret: Record<string, unknown>) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export default SequenceCounterSchema;
@@ -0,0 +1,194 @@
+/**
+ * Supplier Invoice Schema for MongoDB/Mongoose
+ *
+ * Invoices received from suppliers against purchase orders. Billed
+ * quantities and prices are compared with the purchase order and goods
+ * receipts (three-way match) before payment.
+ *
+ * Scope:
+ * - Invoice lines per purchase order item
+ * - Invoice numbers unique per supplier
+ *
+ * Future enhancements:
+ * - Payment status and scheduling
+ * - Tax and freight lines
+ */
+
+import { Schema } from 'mongoose';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SUPPLIER_INVOICE_COLLECTION_NAME = 'supplier_invoices';
+
+// ============================================================================
+// Sub-document Schemas
+// ============================================================================
+
+/**
+ * SupplierInvoiceLine Sub-document Schema
+ */
+const SupplierInvoiceLineSchema = new Schema(
+  {
+    /**
+     * Catalog item (matches a purchase order line)
+     */
+    itemId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Item',
+      required: [true, 'Item is required'],
+    },
+
+    /**
+     * Units billed
+     */
+    quantity: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+      min: [1, 'Quantity must be at least 1'],
+      validate: {
+        validator: Number.isInteger,
+        message: 'Quantity must be an integer',
+      },
+    },
+
+    /**
+     * Billed unit price
+     */
+    unitPrice: {
+      type: Number,
+      required: [true, 'Unit price is required'],
+      min: [0, 'Unit price must be non-negative'],
+    },
+
+    /**
+     * Line amount (quantity * unitPrice)
+     */
+    subtotal: {
+      type: Number,
+      required: [true, 'Subtotal is required'],
+      min: [0, 'Subtotal must be non-negative'],
+    },
+  },
+  { _id: false }
+);
+
+// ============================================================================
+// Main Supplier Invoice Schema
+// ============================================================================
+
+/**
+ * Supplier Invoice Schema
+ *
+ * Validations:
+ * - invoiceNumber, purchaseOrderId, supplierId, invoiceDate: required
+ * - lines: at least 1 line
+ */
+export const SupplierInvoiceSchema = new Schema(
+  {
+    /**
+     * Supplier's invoice number
+     * - Unique per supplier (enforced in the receiving service)
+     */
+    invoiceNumber: {
+      type: String,
+      required: [true, 'Invoice number is required'],
+      trim: true,
+      maxlength: [100, 'Invoice number must not exceed 100 characters'],
+    },
+
+    /**
+     * Purchase order billed
+     */
+    purchaseOrderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PurchaseOrder',
+      required: [true, 'Purchase order is required'],
+    },
+
+    /**
+     * Supplier that issued the invoice
+     */
+    supplierId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Supplier',
+      required: [true, 'Supplier is required'],
+    },
+
+    /**
+     * Invoice date
+     */
+    invoiceDate: {
+      type: Date,
+      required: [true, 'Invoice date is required'],
+    },
+
+    /**
+     * Billed lines
+     */
+    lines: {
+      type: [SupplierInvoiceLineSchema],
+      required: true,
+      validate: {
+        validator: function (lines: unknown[]) {
+          return lines.length > 0;
+        },
+        message: 'Invoice must have at least 1 line',
+      },
+    },
+
+    /**
+     * Invoice total (sum of line subtotals)
+     */
+    total: {
+      type: Number,
+      required: [true, 'Total is required'],
+      min: [0, 'Total must be non-negative'],
+    },
+
+    /**
+     * User who recorded the invoice
+     */
+    recordedByUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Recording user is required'],
+    },
+  },
+  {
+    // Automatic timestamps: createdAt, updatedAt
+    timestamps: true,
+
+    // Collection name
+    collection: SUPPLIER_INVOICE_COLLECTION_NAME,
+
+    // Optimize JSON output
+    toJSON: {
+      transform: function (_doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// ============================================================================
+// Indexes
+// ============================================================================
+
+/**
+ * NOTE: Explicit .index() calls are commented out to avoid Turbopack compatibility issues.
+ */
+
+// Unique invoice number per supplier
+// SupplierInvoiceSchema.index({ supplierId: 1, invoiceNumber: 1 }, { unique: true });
+
+// Index on purchaseOrderId for order → invoices lookups
+// SupplierInvoiceSchema.index({ purchaseOrderId: 1 });
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export default SupplierInvoiceSchema;
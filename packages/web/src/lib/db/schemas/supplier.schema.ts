@@ -0,0 +1,235 @@
+/**
+ * Supplier Schema for MongoDB/Mongoose
+ *
+ * Vendor master data: contact details, payment terms, lead times,
+ * tax identification and whether the supplier may receive new orders.
+ * Catalog items reference suppliers through embedded supplier offers.
+ *
+ * Scope:
+ * - Supplier CRUD for buyers and admins
+ * - Active / blocked status
+ *
+ * Future enhancements:
+ * - Multiple contacts and addresses per supplier
+ * - Supplier performance scoring
+ */
+
+import { Schema } from 'mongoose';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SUPPLIER_COLLECTION_NAME = 'suppliers';
+
+export const MAX_SUPPLIER_NAME_LENGTH = 200;
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+/**
+ * Supplier status
+ * - active: purchase requests can be routed to the supplier
+ * - blocked: supplier may not receive new orders
+ */
+export enum SupplierStatus {
+  Active = 'active',
+  Blocked = 'blocked',
+}
+
+/**
+ * Payment terms agreed with the supplier
+ */
+export enum SupplierPaymentTerms {
+  Prepaid = 'prepaid',
+  Net15 = 'net_15',
+  Net30 = 'net_30',
+  Net45 = 'net_45',
+  Net60 = 'net_60',
+  Net90 = 'net_90',
+}
+
+// ============================================================================
+// Sub-schemas
+// ============================================================================
+
+/**
+ * Primary contact (embedded)
+ */
+const SupplierContactSchema = new Schema(
+  {
+    name: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Contact name must not exceed 100 characters'],
+    },
+    email: {
+      type: String,
+      trim: true,
+      lowercase: true,
+      maxlength: [254, 'Contact email must not exceed 254 characters'],
+      match: [/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'Invalid contact email'],
+    },
+    phone: {
+      type: String,
+      trim: true,
+      maxlength: [50, 'Contact phone must not exceed 50 characters'],
+    },
+  },
+  { _id: false }
+);
+
+// ============================================================================
+// Main Supplier Schema
+// ============================================================================
+
+/**
+ * Supplier Schema
+ *
+ * Validations:
+ * - name: required, unique, max length 200
+ * - paymentTerms, status: enum validation
+ * - leadTimeDays: non-negative integer
+ */
+export const SupplierSchema = new Schema(
+  {
+    /**
+     * Supplier (legal or trading) name
+     * - Unique across suppliers
+     */
+    name: {
+      type: String,
+      required: [true, 'Supplier name is required'],
+      trim: true,
+      unique: true,
+      maxlength: [
+        MAX_SUPPLIER_NAME_LENGTH,
+        `Supplier name must not exceed ${MAX_SUPPLIER_NAME_LENGTH} characters`,
+      ],
+    },
+
+    /**
+     * Primary contact
+     */
+    contact: {
+      type: SupplierContactSchema,
+      default: () => ({}),
+    },
+
+    /**
+     * Postal address
+     */
+    address: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Address must not exceed 500 characters'],
+    },
+
+    /**
+     * Website URL
+     */
+    website: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Website must not exceed 200 characters'],
+    },
+
+    /**
+     * Tax identification number (e.g., VAT / EIN)
+     */
+    taxId: {
+      type: String,
+      trim: true,
+      maxlength: [50, 'Tax ID must not exceed 50 characters'],
+    },
+
+    /**
+     * Payment terms
+     */
+    paymentTerms: {
+      type: String,
+      enum: {
+        values: Object.values(SupplierPaymentTerms),
+        message: 'Invalid payment terms: {VALUE}',
+      },
+      default: SupplierPaymentTerms.Net30,
+    },
+
+    /**
+     * Default lead time in days
+     * - Item offers may override it
+     */
+    leadTimeDays: {
+      type: Number,
+      min: [0, 'Lead time must be non-negative'],
+      validate: {
+        validator: Number.isInteger,
+        message: 'Lead time must be a whole number of days',
+      },
+    },
+
+    /**
+     * Whether the supplier can receive new orders
+     */
+    status: {
+      type: String,
+      enum: {
+        values: Object.values(SupplierStatus),
+        message: 'Invalid supplier status: {VALUE}',
+      },
+      default: SupplierStatus.Active,
+    },
+
+    /**
+     * Why the supplier was blocked
+     */
+    blockedReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Blocked reason must not exceed 500 characters'],
+    },
+
+    /**
+     * Internal notes
+     */
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Notes must not exceed 2000 characters'],
+    },
+  },
+  {
+    // Automatic timestamps: createdAt, updatedAt
+    timestamps: true,
+
+    // Collection name
+    collection: SUPPLIER_COLLECTION_NAME,
+
+    // Optimize JSON output
+    toJSON: {
+      transform: function (_doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// ============================================================================
+// Indexes
+// ============================================================================
+
+/**
+ * NOTE: Explicit .index() calls are commented out to avoid Turbopack compatibility issues.
+ * The unique index on name is already defined via schema field option { unique: true }.
+ */
+
+// Index on status for active supplier lookups
+// SupplierSchema.index({ status: 1 });
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export default SupplierSchema;
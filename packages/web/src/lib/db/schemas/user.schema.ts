@@ -22,6 +22,9 @@ import { Schema } from 'mongoose';
 
 export const USER_COLLECTION_NAME = 'users';
 
+// Validation limits
+export const MAX_COST_CENTER_LENGTH = 50; // Maximum length for cost center codes
+
 // ============================================================================
 // Enums
 // ============================================================================
@@ -147,6 +150,19 @@ export const UserSchema = new Schema(
       default: UserRole.Requester,
       required: true,
     },
+
+    /**
+     * Cost center the user's purchases are charged to
+     * - Optional; used to match department budgets at checkout
+     */
+    costCenter: {
+      type: String,
+      trim: true,
+      maxlength: [
+        MAX_COST_CENTER_LENGTH,
+        `Cost center must not exceed ${MAX_COST_CENTER_LENGTH} characters`,
+      ],
+    },
   },
   {
     // Automatic timestamps: createdAt, updatedAt
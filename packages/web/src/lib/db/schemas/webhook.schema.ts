@@ -0,0 +1,331 @@
+/**
+ * Webhook Schemas for MongoDB/Mongoose
+ *
+ * Outbound webhooks: endpoints subscribed to purchase request and catalog
+ * lifecycle events, and one delivery record per event and endpoint.
+ * Payloads are signed with the subscription's secret (HMAC-SHA256).
+ *
+ * Scope:
+ * - Subscription registration (URL, events, active flag, secret)
+ * - Delivery log with per-attempt status codes and errors
+ * - Retries with exponential backoff and manual redelivery
+ *
+ * Future enhancements:
+ * - Automatic disabling of endpoints that keep failing
+ * - Per-subscription filters (e.g., only one cost center)
+ */
+
+import { Schema } from 'mongoose';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const WEBHOOK_SUBSCRIPTION_COLLECTION_NAME = 'webhook_subscriptions';
+export const WEBHOOK_DELIVERY_COLLECTION_NAME = 'webhook_deliveries';
+
+export const MAX_WEBHOOK_URL_LENGTH = 2000;
+
+// Attempts kept in a delivery's log (oldest are dropped)
+export const MAX_WEBHOOK_ATTEMPT_LOG = 20;
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+/**
+ * Lifecycle events delivered to subscribers (see WebhookEventType in domain entities)
+ */
+export enum WebhookEventType {
+  PurchaseRequestCreated = 'purchase_request.created',
+  PurchaseRequestStatusChanged = 'purchase_request.status_changed',
+  ItemCreated = 'item.created',
+  ItemUpdated = 'item.updated',
+  ItemDeleted = 'item.deleted',
+  ItemReviewed = 'item.reviewed',
+}
+
+/**
+ * Delivery status
+ * - pending: waiting for the first attempt or a retry
+ * - delivered: endpoint answered with 2xx
+ * - failed: gave up after the maximum number of attempts
+ */
+export enum WebhookDeliveryStatus {
+  Pending = 'pending',
+  Delivered = 'delivered',
+  Failed = 'failed',
+}
+
+// ============================================================================
+// Webhook Subscription Schema
+// ============================================================================
+
+/**
+ * Webhook Subscription Schema
+ *
+ * Validations:
+ * - url: required, http(s), max length 2000
+ * - events: at least 1, enum validation
+ * - secret: required
+ */
+export const WebhookSubscriptionSchema = new Schema(
+  {
+    /**
+     * Endpoint URL
+     */
+    url: {
+      type: String,
+      required: [true, 'URL is required'],
+      trim: true,
+      maxlength: [
+        MAX_WEBHOOK_URL_LENGTH,
+        `URL must not exceed ${MAX_WEBHOOK_URL_LENGTH} characters`,
+      ],
+      match: [/^https?:\/\//i, 'URL must start with http:// or https://'],
+    },
+
+    /**
+     * Optional label
+     */
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Description must not exceed 200 characters'],
+    },
+
+    /**
+     * Subscribed events
+     */
+    events: {
+      type: [
+        {
+          type: String,
+          enum: {
+            values: Object.values(WebhookEventType),
+            message: 'Invalid webhook event: {VALUE}',
+          },
+        },
+      ],
+      validate: {
+        validator: function (events: unknown[]) {
+          return events.length > 0;
+        },
+        message: 'Subscribe to at least 1 event',
+      },
+    },
+
+    /**
+     * HMAC-SHA256 signing secret
+     * - Only returned to the client when the subscription is created
+     */
+    secret: {
+      type: String,
+      required: [true, 'Secret is required'],
+    },
+
+    /**
+     * Whether new events are delivered
+     */
+    active: {
+      type: Boolean,
+      default: true,
+    },
+
+    /**
+     * User who registered the endpoint
+     */
+    createdByUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Creator is required'],
+    },
+  },
+  {
+    // Automatic timestamps: createdAt, updatedAt
+    timestamps: true,
+
+    // Collection name
+    collection: WEBHOOK_SUBSCRIPTION_COLLECTION_NAME,
+
+    // Never serialize the secret
+    toJSON: {
+      transform: function (_doc, ret) {
+        delete ret.__v;
+        delete ret.secret;
+        return ret;
+      },
+    },
+  }
+);
+
+// ============================================================================
+// Webhook Delivery Schema
+// ============================================================================
+
+/**
+ * Delivery attempt Sub-document Schema
+ */
+const WebhookDeliveryAttemptSchema = new Schema(
+  {
+    attemptedAt: {
+      type: Date,
+      required: true,
+    },
+    responseStatus: {
+      type: Number,
+    },
+    error: {
+      type: String,
+      maxlength: [1000, 'Error must not exceed 1000 characters'],
+    },
+    durationMs: {
+      type: Number,
+      required: true,
+      min: [0, 'Duration must be non-negative'],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Webhook Delivery Schema
+ *
+ * Validations:
+ * - subscriptionId, eventId, eventType, payload: required
+ * - status: enum validation
+ */
+export const WebhookDeliverySchema = new Schema(
+  {
+    /**
+     * Receiving subscription
+     */
+    subscriptionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'WebhookSubscription',
+      required: [true, 'Subscription is required'],
+    },
+
+    /**
+     * Event identifier (shared by redeliveries of the same event)
+     */
+    eventId: {
+      type: String,
+      required: [true, 'Event ID is required'],
+    },
+
+    /**
+     * Event type
+     */
+    eventType: {
+      type: String,
+      enum: {
+        values: Object.values(WebhookEventType),
+        message: 'Invalid webhook event: {VALUE}',
+      },
+      required: true,
+    },
+
+    /**
+     * Event envelope as posted to the endpoint
+     */
+    payload: {
+      type: Schema.Types.Mixed,
+      required: [true, 'Payload is required'],
+    },
+
+    /**
+     * Delivery status
+     */
+    status: {
+      type: String,
+      enum: {
+        values: Object.values(WebhookDeliveryStatus),
+        message: 'Invalid delivery status: {VALUE}',
+      },
+      default: WebhookDeliveryStatus.Pending,
+      required: true,
+    },
+
+    /**
+     * Attempts made so far
+     */
+    attempts: {
+      type: Number,
+      default: 0,
+      min: [0, 'Attempts must be non-negative'],
+    },
+
+    /**
+     * Earliest time of the next attempt
+     */
+    nextAttemptAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+
+    /**
+     * When a worker claimed the delivery
+     */
+    lockedAt: {
+      type: Date,
+      default: null,
+    },
+
+    /**
+     * Most recent attempts (capped at MAX_WEBHOOK_ATTEMPT_LOG)
+     */
+    attemptLog: {
+      type: [WebhookDeliveryAttemptSchema],
+      default: [],
+    },
+
+    /**
+     * When the endpoint accepted the event
+     */
+    deliveredAt: {
+      type: Date,
+    },
+
+    /**
+     * Delivery this one manually re-sends
+     */
+    redeliveryOf: {
+      type: Schema.Types.ObjectId,
+      ref: 'WebhookDelivery',
+    },
+  },
+  {
+    // Automatic timestamps: createdAt, updatedAt
+    timestamps: true,
+
+    // Collection name
+    collection: WEBHOOK_DELIVERY_COLLECTION_NAME,
+
+    // Optimize JSON output
+    toJSON: {
+      transform: function (_doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// ============================================================================
+// Indexes
+// ============================================================================
+
+/**
+ * NOTE: Explicit .index() calls are commented out to avoid Turbopack compatibility issues.
+ */
+
+// Index on events + active for fan-out lookups
+// WebhookSubscriptionSchema.index({ active: 1, events: 1 });
+
+// Index on status + nextAttemptAt for the retry worker
+// WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+
+// Index on subscriptionId for the delivery log
+// WebhookDeliverySchema.index({ subscriptionId: 1, createdAt: -1 });
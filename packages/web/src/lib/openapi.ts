@@ -19,6 +19,7 @@ export interface OpenAPIDocument {
   paths: Record<string, unknown>;
   components: {
     schemas: Record<string, unknown>;
+    parameters?: Record<string, unknown>;
     securitySchemes?: Record<string, unknown>;
   };
   security?: Array<Record<string, unknown>>;
@@ -32,7 +33,7 @@ export function getOpenApiDocument(): OpenAPIDocument {
       title: 'ProcureFlow API',
       version: '1.0.0',
       description:
-        'REST API for ProcureFlow - AI-native procurement platform. Most endpoints require authentication via NextAuth session.',
+        'REST API for ProcureFlow - AI-native procurement platform. Most endpoints require authentication via NextAuth session. Access is role-based (requester, buyer, admin); requests lacking the required permission return 403.',
     },
     servers: [
       {
@@ -67,33 +68,126 @@ export function getOpenApiDocument(): OpenAPIDocument {
         get: {
           summary: 'Search catalog items',
           description:
-            'Search for items in the catalog by keyword (optional). Public endpoint - no authentication required.',
+            "Search for items in the catalog by keyword (optional) with category, price range, supplier, unit and status filters. Returns facet counts computed with every filter except the facet's own. Requires authentication (catalog:read).",
           tags: ['Catalog'],
+          security: [{ session: [] }],
           parameters: [
             {
               name: 'q',
               in: 'query',
               description:
-                'Search keyword (searches name, description, category)',
+                'Search keyword (searches name, description, category). Tolerates typos and matches synonyms from the synonym dictionary.',
               required: false,
               schema: {
                 type: 'string',
               },
             },
+            {
+              $ref: '#/components/parameters/Cursor',
+            },
             {
               name: 'limit',
               in: 'query',
-              description: 'Maximum number of results',
+              description: 'Page size (max 100)',
               required: false,
               schema: {
                 type: 'integer',
                 default: 50,
               },
             },
+            {
+              name: 'category',
+              in: 'query',
+              description: 'Category filter (repeatable, case-insensitive)',
+              required: false,
+              schema: { type: 'array', items: { type: 'string' } },
+              style: 'form',
+              explode: true,
+            },
+            {
+              name: 'branch',
+              in: 'query',
+              description:
+                'Category drill-down (repeatable): items of the category or any of its subcategories in the taxonomy',
+              required: false,
+              schema: { type: 'array', items: { type: 'string' } },
+              style: 'form',
+              explode: true,
+            },
+            {
+              name: 'minPrice',
+              in: 'query',
+              description: 'Minimum estimated price (inclusive)',
+              required: false,
+              schema: { type: 'number', minimum: 0 },
+            },
+            {
+              name: 'maxPrice',
+              in: 'query',
+              description: 'Maximum estimated price (inclusive)',
+              required: false,
+              schema: { type: 'number', minimum: 0 },
+            },
+            {
+              name: 'supplierId',
+              in: 'query',
+              description: 'Supplier filter (repeatable)',
+              required: false,
+              schema: { type: 'array', items: { type: 'string' } },
+              style: 'form',
+              explode: true,
+            },
+            {
+              name: 'unit',
+              in: 'query',
+              description: 'Unit of measure filter (repeatable)',
+              required: false,
+              schema: { type: 'array', items: { type: 'string' } },
+              style: 'form',
+              explode: true,
+            },
+            {
+              name: 'status',
+              in: 'query',
+              description: 'Status filter (repeatable, default active)',
+              required: false,
+              schema: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                  enum: ['active', 'pending_review', 'inactive'],
+                },
+              },
+              style: 'form',
+              explode: true,
+            },
+            {
+              name: 'sort',
+              in: 'query',
+              description: 'Result order',
+              required: false,
+              schema: {
+                type: 'string',
+                enum: ['relevance', 'price_asc', 'price_desc', 'newest'],
+                default: 'relevance',
+              },
+            },
+            {
+              name: 'mode',
+              in: 'query',
+              description:
+                'Keyword matching: MongoDB text search, or a hybrid of text score and embedding similarity',
+              required: false,
+              schema: {
+                type: 'string',
+                enum: ['keyword', 'semantic'],
+                default: 'keyword',
+              },
+            },
           ],
           responses: {
             '200': {
-              description: 'List of matching items',
+              description: 'List of matching items with facet counts',
               content: {
                 'application/json': {
                   schema: {
@@ -108,17 +202,39 @@ export function getOpenApiDocument(): OpenAPIDocument {
                       count: {
                         type: 'integer',
                       },
+                      nextCursor: {
+                        type: 'string',
+                        nullable: true,
+                      },
+                      hasMore: {
+                        type: 'boolean',
+                      },
+                      total: {
+                        type: 'integer',
+                        description: 'Total number of matching items',
+                      },
+                      facets: {
+                        $ref: '#/components/schemas/CatalogFacets',
+                      },
+                      didYouMean: {
+                        type: 'string',
+                        description:
+                          'Corrected keyword, present when the keyword was misspelled',
+                      },
                     },
                   },
                 },
               },
             },
+            '400': {
+              description: 'Invalid filter, sort or cursor parameter',
+            },
           },
         },
         post: {
           summary: 'Create new catalog item',
           description:
-            'Register a new item in the catalog (requires authentication)',
+            'Register a new item in the catalog (requires authentication). Items registered by users without catalog:review are created pending review and join the catalog once a buyer approves them.',
           tags: ['Catalog'],
           security: [{ session: [] }],
           requestBody: {
@@ -154,62 +270,220 @@ export function getOpenApiDocument(): OpenAPIDocument {
           },
         },
       },
-      '/cart': {
+      '/items/import': {
+        post: {
+          summary: 'Bulk import catalog items',
+          description:
+            'Validate (dry run, default) or import a CSV, XLSX or JSON file (max 5 MB, 5000 rows). Each row is checked like POST /items: required fields, positive price and duplicate detection against the catalog and earlier rows. all_or_nothing imports nothing unless every row is valid; per_row imports the valid rows. Requires catalog:import (buyer or admin).',
+          tags: ['Catalog'],
+          security: [{ session: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  required: ['file'],
+                  properties: {
+                    file: {
+                      type: 'string',
+                      format: 'binary',
+                      description:
+                        'CSV/XLSX with a header row, or a JSON array of items. Columns: name, category, description, estimatedPrice (or price), unit, preferredSupplier',
+                    },
+                    dryRun: {
+                      type: 'string',
+                      enum: ['true', 'false'],
+                      default: 'true',
+                    },
+                    mode: {
+                      type: 'string',
+                      enum: ['all_or_nothing', 'per_row'],
+                      default: 'all_or_nothing',
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Dry-run report, or an import that created nothing',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/CatalogImportResponse',
+                  },
+                },
+              },
+            },
+            '201': {
+              description: 'Items imported',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/CatalogImportResponse',
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Missing, unsupported or unreadable file',
+            },
+            '403': {
+              description: 'Forbidden (requires catalog:import)',
+            },
+            '409': {
+              description:
+                'All-or-nothing import rejected because of invalid or duplicate rows (report in data)',
+            },
+          },
+        },
+      },
+      '/items/export': {
         get: {
-          summary: 'Get user cart',
+          summary: 'Export catalog items',
           description:
-            "Retrieve the current user's cart (requires authentication)",
-          tags: ['Cart'],
+            'Download the filtered catalog, newest first. CSV and JSON are streamed. The CSV/XLSX columns are accepted by POST /items/import. Requires catalog:read.',
+          tags: ['Catalog'],
           security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'format',
+              in: 'query',
+              required: false,
+              schema: {
+                type: 'string',
+                enum: ['csv', 'xlsx', 'json'],
+                default: 'csv',
+              },
+            },
+            {
+              name: 'q',
+              in: 'query',
+              description: 'Keyword filter',
+              required: false,
+              schema: {
+                type: 'string',
+              },
+            },
+            {
+              name: 'category',
+              in: 'query',
+              description: 'Category filter (exact, case-insensitive)',
+              required: false,
+              schema: {
+                type: 'string',
+              },
+            },
+            {
+              name: 'status',
+              in: 'query',
+              description: "Item status or 'all'",
+              required: false,
+              schema: {
+                type: 'string',
+                enum: ['active', 'pending_review', 'inactive', 'all'],
+                default: 'active',
+              },
+            },
+          ],
           responses: {
             '200': {
-              description: 'User cart',
+              description: 'Catalog file (attachment)',
               content: {
+                'text/csv': {
+                  schema: {
+                    type: 'string',
+                  },
+                },
+                'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet':
+                  {
+                    schema: {
+                      type: 'string',
+                      format: 'binary',
+                    },
+                  },
                 'application/json': {
                   schema: {
-                    $ref: '#/components/schemas/Cart',
+                    type: 'array',
+                    items: {
+                      $ref: '#/components/schemas/Item',
+                    },
                   },
                 },
               },
             },
-            '401': {
-              description: 'Unauthorized',
+            '400': {
+              description: 'Invalid format or status',
             },
           },
         },
       },
-      '/cart/items': {
+      '/items/archive': {
         post: {
-          summary: 'Add item to cart',
-          description: 'Add an item to the cart (requires authentication)',
-          tags: ['Cart'],
+          summary: 'Archive catalog items',
+          description:
+            'Archive up to 100 items at once. Archived items leave search results and every cart, and stay resolvable by ID from purchase request history. Nothing is archived if an ID does not exist. Requires catalog:update (buyer or admin).',
+          tags: ['Catalog'],
           security: [{ session: [] }],
           requestBody: {
             required: true,
             content: {
               'application/json': {
                 schema: {
-                  $ref: '#/components/schemas/AddToCartRequest',
+                  type: 'object',
+                  required: ['itemIds'],
+                  properties: {
+                    itemIds: {
+                      type: 'array',
+                      minItems: 1,
+                      maxItems: 100,
+                      items: {
+                        type: 'string',
+                      },
+                    },
+                  },
                 },
               },
             },
           },
           responses: {
             '200': {
-              description: 'Item added to cart',
+              description: 'Items archived',
               content: {
                 'application/json': {
                   schema: {
-                    $ref: '#/components/schemas/Cart',
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'array',
+                        items: {
+                          $ref: '#/components/schemas/Item',
+                        },
+                      },
+                      archivedCount: {
+                        type: 'integer',
+                        description:
+                          'Items that were active before (already archived items are skipped)',
+                      },
+                      cartsUpdated: {
+                        type: 'integer',
+                        description: 'Carts the items were removed from',
+                      },
+                    },
                   },
                 },
               },
             },
             '400': {
-              description: 'Validation error',
+              description: 'Missing, invalid or too many item IDs',
             },
-            '401': {
-              description: 'Unauthorized',
+            '403': {
+              description: 'Forbidden (requires catalog:update)',
             },
             '404': {
               description: 'Item not found',
@@ -217,21 +491,22 @@ export function getOpenApiDocument(): OpenAPIDocument {
           },
         },
       },
-      '/cart/items/{itemId}': {
-        patch: {
-          summary: 'Update cart item quantity',
+      '/items/{id}': {
+        put: {
+          summary: 'Update a catalog item',
           description:
-            'Update the quantity of an item in the cart (requires authentication)',
-          tags: ['Cart'],
+            'Update item fields (including the price). Every change is recorded in the item history with the acting user and the reason ("No reason given" when none is sent). Requires catalog:update (buyer or admin).',
+          tags: ['Catalog'],
           security: [{ session: [] }],
           parameters: [
             {
-              name: 'itemId',
+              name: 'id',
               in: 'path',
               required: true,
               schema: {
                 type: 'string',
               },
+              description: 'Item ID',
             },
           ],
           requestBody: {
@@ -240,12 +515,37 @@ export function getOpenApiDocument(): OpenAPIDocument {
               'application/json': {
                 schema: {
                   type: 'object',
-                  required: ['quantity'],
                   properties: {
-                    quantity: {
-                      type: 'integer',
-                      minimum: 1,
-                      maximum: 999,
+                    name: { type: 'string' },
+                    category: { type: 'string' },
+                    description: { type: 'string' },
+                    estimatedPrice: { type: 'number', format: 'float' },
+                    unit: { type: 'string' },
+                    unitConversions: {
+                      type: 'array',
+                      items: {
+                        $ref: '#/components/schemas/ItemUnitConversion',
+                      },
+                    },
+                    orderUnit: { type: 'string' },
+                    sku: { type: 'string', maxLength: 64 },
+                    attributes: { type: 'object' },
+                    parentItemId: {
+                      type: 'string',
+                      nullable: true,
+                      description: 'Parent product; empty to detach a variant',
+                    },
+                    preferredSupplier: { type: 'string' },
+                    suppliers: {
+                      type: 'array',
+                      items: {
+                        $ref: '#/components/schemas/ItemSupplierOffer',
+                      },
+                    },
+                    reason: {
+                      type: 'string',
+                      maxLength: 500,
+                      description: 'Why the item is changed',
                     },
                   },
                 },
@@ -254,94 +554,197 @@ export function getOpenApiDocument(): OpenAPIDocument {
           },
           responses: {
             '200': {
-              description: 'Cart updated',
+              description: 'Item updated',
               content: {
                 'application/json': {
                   schema: {
-                    $ref: '#/components/schemas/Cart',
+                    $ref: '#/components/schemas/Item',
                   },
                 },
               },
             },
             '400': {
-              description: 'Validation error',
+              description: 'Validation error or too long reason',
             },
-            '401': {
-              description: 'Unauthorized',
+            '403': {
+              description: 'Forbidden (requires catalog:update)',
+            },
+            '404': {
+              description: 'Item not found',
             },
           },
         },
         delete: {
-          summary: 'Remove item from cart',
-          description: 'Remove an item from the cart (requires authentication)',
-          tags: ['Cart'],
+          summary: 'Delete a catalog item',
+          description:
+            'Delete an item permanently. Refused while the item is in an open cart or on a purchase request; archive it instead. Requires catalog:delete (admin).',
+          tags: ['Catalog'],
           security: [{ session: [] }],
           parameters: [
             {
-              name: 'itemId',
+              name: 'id',
               in: 'path',
               required: true,
               schema: {
                 type: 'string',
               },
+              description: 'Item ID',
             },
           ],
           responses: {
             '200': {
-              description: 'Item removed',
-              content: {
-                'application/json': {
-                  schema: {
-                    $ref: '#/components/schemas/Cart',
-                  },
-                },
-              },
+              description: 'Item deleted',
             },
-            '401': {
-              description: 'Unauthorized',
+            '400': {
+              description: 'Invalid item ID',
+            },
+            '403': {
+              description: 'Forbidden (requires catalog:delete)',
+            },
+            '404': {
+              description: 'Item not found',
+            },
+            '409': {
+              description: 'Item is in an open cart or on a purchase request',
             },
           },
         },
       },
-      '/checkout': {
-        post: {
-          summary: 'Complete checkout',
+      '/items/{id}/history': {
+        get: {
+          summary: 'List the history of a catalog item',
           description:
-            'Create purchase request and clear cart (requires authentication)',
-          tags: ['Checkout'],
+            'Revisions of an item, newest first (cursor-paginated): changed fields with old and new values, the user who made the change, when and why. Requires catalog:read.',
+          tags: ['Catalog'],
           security: [{ session: [] }],
-          requestBody: {
-            required: false,
-            content: {
-              'application/json': {
-                schema: {
-                  type: 'object',
-                  properties: {
-                    notes: {
-                      type: 'string',
-                      description: 'Optional notes/justification',
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Item ID',
+            },
+            { $ref: '#/components/parameters/Cursor' },
+            { $ref: '#/components/parameters/Limit' },
+          ],
+          responses: {
+            '200': {
+              description: 'Page of item revisions',
+              content: {
+                'application/json': {
+                  schema: {
+                    allOf: [
+                      { $ref: '#/components/schemas/PageInfo' },
+                      {
+                        type: 'object',
+                        properties: {
+                          success: { type: 'boolean' },
+                          data: {
+                            type: 'array',
+                            items: {
+                              $ref: '#/components/schemas/ItemRevision',
+                            },
+                          },
+                        },
+                      },
+                    ],
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid item ID or cursor',
+            },
+            '404': {
+              description: 'Item not found',
+            },
+          },
+        },
+      },
+      '/items/{id}/variants': {
+        get: {
+          summary: 'List the variant family of a catalog item',
+          description:
+            'The parent product first, then its variants by name (e.g., "Pen - Blue" and "Pen - Black" under "Pen"). Works for the parent and for any variant; archived and pending family members are left out, except the requested item. Requires catalog:read.',
+          tags: ['Catalog'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Item ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Variant family',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'array',
+                        items: { $ref: '#/components/schemas/Item' },
+                      },
+                      count: { type: 'integer' },
                     },
                   },
                 },
               },
             },
+            '400': {
+              description: 'Invalid item ID',
+            },
+            '404': {
+              description: 'Item not found',
+            },
           },
+        },
+      },
+      '/items/{id}/archive': {
+        post: {
+          summary: 'Archive a catalog item',
+          description:
+            'Archive an item: it leaves search results and every cart, and stays resolvable by ID from purchase request history. Archiving an archived item is a no-op. Requires catalog:update (buyer or admin).',
+          tags: ['Catalog'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Item ID',
+            },
+          ],
           responses: {
-            '201': {
-              description: 'Checkout completed',
+            '200': {
+              description: 'Item archived',
               content: {
                 'application/json': {
                   schema: {
                     type: 'object',
                     properties: {
-                      message: {
-                        type: 'string',
+                      success: {
+                        type: 'boolean',
                       },
-                      purchaseRequest: {
-                        $ref: '#/components/schemas/PurchaseRequest',
+                      data: {
+                        $ref: '#/components/schemas/Item',
                       },
-                      note: {
-                        type: 'string',
+                      cartsUpdated: {
+                        type: 'integer',
+                        description: 'Carts the item was removed from',
                       },
                     },
                   },
@@ -349,130 +752,6231 @@ export function getOpenApiDocument(): OpenAPIDocument {
               },
             },
             '400': {
-              description: 'Empty cart or validation error',
+              description: 'Invalid item ID',
             },
-            '401': {
-              description: 'Unauthorized',
+            '403': {
+              description: 'Forbidden (requires catalog:update)',
+            },
+            '404': {
+              description: 'Item not found',
             },
           },
         },
       },
-      '/agent/chat': {
+      '/items/{id}/unarchive': {
         post: {
-          summary: 'Send message to AI agent',
+          summary: 'Restore an archived catalog item',
           description:
-            'Conversational interface to the procurement agent (requires authentication)',
-          tags: ['Agent'],
+            'Return an archived item to the active catalog. Carts it was removed from are not refilled. Requires catalog:update (buyer or admin).',
+          tags: ['Catalog'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Item ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Item restored',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/Item',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid item ID, or the item is pending review',
+            },
+            '403': {
+              description: 'Forbidden (requires catalog:update)',
+            },
+            '404': {
+              description: 'Item not found',
+            },
+          },
+        },
+      },
+      '/items/synonyms': {
+        get: {
+          summary: 'List search synonym groups',
+          description:
+            'Synonym groups used by catalog search, newest first. Searching for any term of a group also matches the others. Requires catalog:synonyms (admin).',
+          tags: ['Catalog'],
+          security: [{ session: [] }],
+          responses: {
+            '200': {
+              description: 'List of synonym groups',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'array',
+                        items: {
+                          $ref: '#/components/schemas/SearchSynonym',
+                        },
+                      },
+                      count: { type: 'integer' },
+                    },
+                  },
+                },
+              },
+            },
+            '403': {
+              description: 'Forbidden (requires catalog:synonyms)',
+            },
+          },
+        },
+        post: {
+          summary: 'Create a search synonym group',
+          description:
+            'Terms are normalized (lowercase, punctuation as spaces: "USB-C" becomes "usb c") and may belong to one group only. Requires catalog:synonyms (admin).',
+          tags: ['Catalog'],
           security: [{ session: [] }],
           requestBody: {
             required: true,
             content: {
               'application/json': {
                 schema: {
-                  $ref: '#/components/schemas/AgentChatRequest',
+                  $ref: '#/components/schemas/SearchSynonymRequest',
                 },
               },
             },
           },
           responses: {
-            '200': {
-              description: 'Agent response',
+            '201': {
+              description: 'Synonym group created',
               content: {
                 'application/json': {
                   schema: {
-                    $ref: '#/components/schemas/AgentChatResponse',
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: { $ref: '#/components/schemas/SearchSynonym' },
+                    },
                   },
                 },
               },
             },
             '400': {
-              description: 'Validation error',
+              description:
+                'Invalid terms (fewer than 2, too many, too long or already in another group)',
+            },
+            '403': {
+              description: 'Forbidden (requires catalog:synonyms)',
             },
           },
         },
       },
-    },
-    components: {
-      securitySchemes: {
-        session: {
-          type: 'apiKey',
-          in: 'cookie',
-          name: 'next-auth.session-token',
-          description:
-            'NextAuth session cookie. Authenticate by logging in at the root path.',
+      '/items/synonyms/{id}': {
+        put: {
+          summary: 'Replace the terms of a search synonym group',
+          description: 'Requires catalog:synonyms (admin).',
+          tags: ['Catalog'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/SearchSynonymRequest',
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Synonym group updated',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: { $ref: '#/components/schemas/SearchSynonym' },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid ID or terms',
+            },
+            '403': {
+              description: 'Forbidden (requires catalog:synonyms)',
+            },
+            '404': {
+              description: 'Synonym group not found',
+            },
+          },
         },
-      },
-      schemas: {
-        HealthResponse: {
-          type: 'object',
-          properties: {
-            status: {
-              type: 'string',
-              enum: ['ok', 'degraded'],
+        delete: {
+          summary: 'Delete a search synonym group',
+          description: 'Requires catalog:synonyms (admin).',
+          tags: ['Catalog'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
             },
-            timestamp: {
-              type: 'string',
-              format: 'date-time',
+          ],
+          responses: {
+            '200': {
+              description: 'Synonym group deleted',
             },
-            service: {
-              type: 'string',
+            '400': {
+              description: 'Invalid ID',
             },
-            version: {
-              type: 'string',
+            '403': {
+              description: 'Forbidden (requires catalog:synonyms)',
             },
-            environment: {
-              type: 'string',
+            '404': {
+              description: 'Synonym group not found',
             },
-            checks: {
-              type: 'object',
-              properties: {
-                api: {
-                  type: 'string',
-                },
-                db: {
-                  type: 'string',
+          },
+        },
+      },
+      '/items/attribute-schemas': {
+        get: {
+          summary: 'List category attribute schemas',
+          description:
+            'Structured attributes items of each category have, by category. Requires catalog:read.',
+          tags: ['Catalog'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'category',
+              in: 'query',
+              required: false,
+              schema: { type: 'string' },
+              description: 'Only the schema of this category (any case)',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'List of attribute schemas',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'array',
+                        items: {
+                          $ref: '#/components/schemas/CategoryAttributeSchema',
+                        },
+                      },
+                      count: { type: 'integer' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        put: {
+          summary: 'Create or replace the attribute schema of a category',
+          description:
+            'Items of the category are checked against the schema when they are created, or when their attributes or category change. Requires catalog:update.',
+          tags: ['Catalog'],
+          security: [{ session: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['category', 'attributes'],
+                  properties: {
+                    category: { type: 'string', maxLength: 100 },
+                    attributes: {
+                      type: 'array',
+                      maxItems: 20,
+                      items: {
+                        $ref: '#/components/schemas/ItemAttributeDefinition',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Attribute schema saved',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        $ref: '#/components/schemas/CategoryAttributeSchema',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description:
+                'Invalid category or attribute definitions (bad or duplicate keys, select without options)',
+            },
+            '403': {
+              description: 'Forbidden (requires catalog:update)',
+            },
+          },
+        },
+      },
+      '/items/attribute-schemas/{id}': {
+        delete: {
+          summary: 'Delete a category attribute schema',
+          description: 'Items keep their attributes. Requires catalog:update.',
+          tags: ['Catalog'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Attribute schema deleted',
+            },
+            '400': {
+              description: 'Invalid ID',
+            },
+            '403': {
+              description: 'Forbidden (requires catalog:update)',
+            },
+            '404': {
+              description: 'Attribute schema not found',
+            },
+          },
+        },
+      },
+      '/items/categories': {
+        get: {
+          summary: 'List the category taxonomy',
+          description:
+            'Every category by name (flat; parentCategoryId links subcategories to their parent). While the taxonomy is empty, items accept any category; afterwards item categories must name a taxonomy category. Requires catalog:read.',
+          tags: ['Catalog'],
+          security: [{ session: [] }],
+          responses: {
+            '200': {
+              description: 'List of categories',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'array',
+                        items: { $ref: '#/components/schemas/Category' },
+                      },
+                      count: { type: 'integer' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        post: {
+          summary: 'Create a category',
+          description:
+            'Names are unique across the taxonomy, compared case- and punctuation-insensitively. Categories nest at most 5 levels deep. Requires catalog:categories (admin).',
+          tags: ['Catalog'],
+          security: [{ session: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/CategoryRequest' },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Category created',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: { $ref: '#/components/schemas/Category' },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description:
+                'Invalid name, code or parent (duplicate, missing parent or too deep)',
+            },
+            '403': {
+              description: 'Forbidden (requires catalog:categories)',
+            },
+          },
+        },
+      },
+      '/items/categories/{id}': {
+        put: {
+          summary: 'Update a category',
+          description:
+            'Rename, recode or move a category. A new name is applied to the items and attribute schema of the category. A category cannot move under itself or one of its subcategories. Requires catalog:categories (admin).',
+          tags: ['Catalog'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/CategoryRequest' },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Category updated',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: { $ref: '#/components/schemas/Category' },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid ID, name, code or parent',
+            },
+            '403': {
+              description: 'Forbidden (requires catalog:categories)',
+            },
+            '404': {
+              description: 'Category not found',
+            },
+          },
+        },
+        delete: {
+          summary: 'Delete a category',
+          description:
+            'Only categories without subcategories and items can be deleted. Requires catalog:categories (admin).',
+          tags: ['Catalog'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: { type: 'string' },
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Category deleted',
+            },
+            '400': {
+              description: 'Invalid ID',
+            },
+            '403': {
+              description: 'Forbidden (requires catalog:categories)',
+            },
+            '404': {
+              description: 'Category not found',
+            },
+            '409': {
+              description: 'Category has subcategories or items',
+            },
+          },
+        },
+      },
+      '/items/categories/spend': {
+        get: {
+          summary: 'Spend per category branch',
+          description:
+            'Committed purchase request spend (same statuses as budgets) rolled up the category tree. Purchase request lines are matched to categories by name, case- and punctuation-insensitively; other names are listed as uncategorized. Requires spend:read (buyer, admin).',
+          tags: ['Catalog'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'startDate',
+              in: 'query',
+              required: false,
+              schema: { type: 'string', format: 'date' },
+              description: 'Period start (inclusive)',
+            },
+            {
+              name: 'endDate',
+              in: 'query',
+              required: false,
+              schema: { type: 'string', format: 'date' },
+              description: 'Period end (inclusive, whole day)',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Spend rollup',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: { type: 'boolean' },
+                      data: {
+                        $ref: '#/components/schemas/CategorySpendRollup',
+                      },
+                      filters: {
+                        type: 'object',
+                        properties: {
+                          startDate: { type: 'string', format: 'date-time' },
+                          endDate: { type: 'string', format: 'date-time' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid dates',
+            },
+            '403': {
+              description: 'Forbidden (requires spend:read)',
+            },
+          },
+        },
+      },
+      '/items/review': {
+        get: {
+          summary: 'List items awaiting review',
+          description:
+            'User-registered items pending buyer review, oldest first (cursor-paginated). Each entry lists active items similar to the submission as merge candidates. Requires catalog:review (buyer or admin).',
+          tags: ['Catalog'],
+          security: [{ session: [] }],
+          parameters: [
+            { $ref: '#/components/parameters/Cursor' },
+            { $ref: '#/components/parameters/Limit' },
+          ],
+          responses: {
+            '200': {
+              description: 'Page of review queue entries',
+              content: {
+                'application/json': {
+                  schema: {
+                    allOf: [
+                      { $ref: '#/components/schemas/PageInfo' },
+                      {
+                        type: 'object',
+                        properties: {
+                          success: { type: 'boolean' },
+                          data: {
+                            type: 'array',
+                            items: {
+                              $ref: '#/components/schemas/PendingItemReview',
+                            },
+                          },
+                        },
+                      },
+                    ],
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid cursor',
+            },
+            '403': {
+              description: 'Forbidden (requires catalog:review)',
+            },
+          },
+        },
+      },
+      '/items/submissions': {
+        get: {
+          summary: 'List my item submissions',
+          description:
+            'Items registered by the authenticated user, newest first (cursor-paginated), with the outcome of their review. Requires catalog:create.',
+          tags: ['Catalog'],
+          security: [{ session: [] }],
+          parameters: [
+            { $ref: '#/components/parameters/Cursor' },
+            { $ref: '#/components/parameters/Limit' },
+          ],
+          responses: {
+            '200': {
+              description: 'Page of submitted items',
+              content: {
+                'application/json': {
+                  schema: {
+                    allOf: [
+                      { $ref: '#/components/schemas/PageInfo' },
+                      {
+                        type: 'object',
+                        properties: {
+                          success: { type: 'boolean' },
+                          data: {
+                            type: 'array',
+                            items: {
+                              $ref: '#/components/schemas/Item',
+                            },
+                          },
+                        },
+                      },
+                    ],
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid cursor',
+            },
+            '403': {
+              description: 'Forbidden (requires catalog:create)',
+            },
+          },
+        },
+      },
+      '/items/{id}/approve': {
+        post: {
+          summary: 'Approve a user-registered item',
+          description:
+            'Add an item pending review to the active catalog. Publishes item.reviewed. Requires catalog:review (buyer or admin).',
+          tags: ['Catalog'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Item ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Item approved',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/Item',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid item ID',
+            },
+            '403': {
+              description: 'Forbidden (requires catalog:review)',
+            },
+            '404': {
+              description: 'Item not found',
+            },
+            '409': {
+              description: 'Item is not pending review',
+            },
+          },
+        },
+      },
+      '/items/{id}/reject': {
+        post: {
+          summary: 'Reject a user-registered item',
+          description:
+            'Archive an item pending review with a reason shown to the requester. Publishes item.reviewed. Requires catalog:review (buyer or admin).',
+          tags: ['Catalog'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Item ID',
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['reason'],
+                  properties: {
+                    reason: {
+                      type: 'string',
+                      maxLength: 500,
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Item rejected',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/Item',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid item ID, or missing or too long reason',
+            },
+            '403': {
+              description: 'Forbidden (requires catalog:review)',
+            },
+            '404': {
+              description: 'Item not found',
+            },
+            '409': {
+              description: 'Item is not pending review',
+            },
+          },
+        },
+      },
+      '/items/{id}/merge': {
+        post: {
+          summary: 'Merge a user-registered item into an existing item',
+          description:
+            'Archive an item pending review and point the requester at an existing active item (typically one of the duplicates listed in the review queue). Publishes item.reviewed. Requires catalog:review (buyer or admin).',
+          tags: ['Catalog'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Item ID',
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['targetItemId'],
+                  properties: {
+                    targetItemId: {
+                      type: 'string',
+                      description: 'ID of the active item to merge into',
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Item merged',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/Item',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description:
+                'Invalid item ID, or the target is the item itself or not active',
+            },
+            '403': {
+              description: 'Forbidden (requires catalog:review)',
+            },
+            '404': {
+              description: 'Item or target item not found',
+            },
+            '409': {
+              description: 'Item is not pending review',
+            },
+          },
+        },
+      },
+      '/cart': {
+        get: {
+          summary: 'Get user cart',
+          description:
+            "Retrieve the current user's cart (requires authentication)",
+          tags: ['Cart'],
+          security: [{ session: [] }],
+          responses: {
+            '200': {
+              description: 'User cart',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/Cart',
+                  },
+                },
+              },
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+          },
+        },
+      },
+      '/cart/items': {
+        post: {
+          summary: 'Add item to cart',
+          description: 'Add an item to the cart (requires authentication)',
+          tags: ['Cart'],
+          security: [{ session: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/AddToCartRequest',
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Item added to cart',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/Cart',
+                  },
+                },
+              },
+            },
+            '400': {
+              description:
+                'Validation error (e.g., quantity not a whole number of packs)',
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+            '404': {
+              description: 'Item not found',
+            },
+          },
+        },
+      },
+      '/cart/items/{itemId}': {
+        patch: {
+          summary: 'Update cart item quantity',
+          description:
+            'Update the quantity of an item in the cart (requires authentication)',
+          tags: ['Cart'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'itemId',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['quantity'],
+                  properties: {
+                    quantity: {
+                      type: 'integer',
+                      minimum: 1,
+                      maximum: 999,
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Cart updated',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/Cart',
+                  },
+                },
+              },
+            },
+            '400': {
+              description:
+                'Validation error (e.g., quantity not a whole number of packs)',
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+          },
+        },
+        delete: {
+          summary: 'Remove item from cart',
+          description: 'Remove an item from the cart (requires authentication)',
+          tags: ['Cart'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'itemId',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Item removed',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/Cart',
+                  },
+                },
+              },
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+          },
+        },
+      },
+      '/cart/saved': {
+        get: {
+          summary: 'List saved carts and templates',
+          description:
+            "List the current user's saved carts and templates, most recently updated first",
+          tags: ['Cart'],
+          security: [{ session: [] }],
+          responses: {
+            '200': {
+              description: 'Saved carts and templates',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'array',
+                        items: {
+                          $ref: '#/components/schemas/SavedCart',
+                        },
+                      },
+                      count: {
+                        type: 'integer',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+          },
+        },
+        post: {
+          summary: 'Save the cart',
+          description:
+            'Save the cart under a name. A saved cart empties the cart; a template keeps it.',
+          tags: ['Cart'],
+          security: [{ session: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['name'],
+                  properties: {
+                    name: {
+                      type: 'string',
+                      maxLength: 100,
+                    },
+                    kind: {
+                      type: 'string',
+                      enum: ['saved', 'template'],
+                      default: 'saved',
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Saved cart created',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/SavedCart',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description:
+                'Validation error (e.g., empty cart, name already used, maximum number of saved carts reached)',
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+            '409': {
+              description: 'CART_CONFLICT - the cart changed while saving',
+            },
+          },
+        },
+      },
+      '/cart/saved/{id}': {
+        delete: {
+          summary: 'Delete a saved cart or template',
+          tags: ['Cart'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Saved cart ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Saved cart deleted',
+            },
+            '400': {
+              description: 'Invalid ID format',
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+            '404': {
+              description: 'Saved cart not found',
+            },
+          },
+        },
+      },
+      '/cart/saved/{id}/restore': {
+        post: {
+          summary: 'Restore a saved cart or apply a template',
+          description:
+            'Merge the lines into the cart at current catalog prices. Deleted and archived items are skipped. A saved cart is removed once restored; a template is kept.',
+          tags: ['Cart'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Saved cart ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Lines added to the cart and lines skipped',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/CartRestoreResult',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid ID format',
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+            '404': {
+              description: 'Saved cart not found',
+            },
+            '409': {
+              description: 'CART_CONFLICT - the cart changed while restoring',
+            },
+          },
+        },
+      },
+      '/cart/shared': {
+        get: {
+          summary: 'List shared carts',
+          description:
+            'Shared team carts the current user owns or collaborates on, most recently updated first',
+          tags: ['Cart'],
+          security: [{ session: [] }],
+          responses: {
+            '200': {
+              description: 'Shared carts',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'array',
+                        items: {
+                          $ref: '#/components/schemas/Cart',
+                        },
+                      },
+                      count: {
+                        type: 'integer',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+          },
+        },
+        post: {
+          summary: 'Create a shared cart',
+          description:
+            'Create a shared team cart owned by the current user. Collaborators can add, change and remove lines; only the owner checks out.',
+          tags: ['Cart'],
+          security: [{ session: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['name'],
+                  properties: {
+                    name: {
+                      type: 'string',
+                      maxLength: 100,
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Shared cart created',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/Cart',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Validation error',
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+          },
+        },
+      },
+      '/cart/shared/{id}': {
+        get: {
+          summary: 'Get a shared cart',
+          description:
+            'Shared cart with its members, who added each line and its version',
+          tags: ['Cart'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Shared cart ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Shared cart',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/Cart',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid ID format',
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+            '404': {
+              description: 'Shared cart not found or user not a member',
+            },
+          },
+        },
+        delete: {
+          summary: 'Delete a shared cart',
+          description: 'Only the owner can delete a shared cart',
+          tags: ['Cart'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Shared cart ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Shared cart deleted',
+            },
+            '400': {
+              description: 'Invalid ID format',
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+            '403': {
+              description: 'Not the cart owner',
+            },
+            '404': {
+              description: 'Shared cart not found or user not a member',
+            },
+          },
+        },
+      },
+      '/cart/shared/{id}/members': {
+        post: {
+          summary: 'Invite a collaborator',
+          description:
+            'Add an existing user as collaborator, by email. Only the owner can invite.',
+          tags: ['Cart'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Shared cart ID',
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['email'],
+                  properties: {
+                    email: {
+                      type: 'string',
+                      format: 'email',
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Collaborator added',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/Cart',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description:
+                'No user with that email, already a member, or member limit reached',
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+            '403': {
+              description: 'Not the cart owner',
+            },
+            '404': {
+              description: 'Shared cart not found or user not a member',
+            },
+            '409': {
+              description:
+                'CART_CONFLICT - the cart changed since the given version',
+            },
+          },
+        },
+      },
+      '/cart/shared/{id}/members/{memberId}': {
+        delete: {
+          summary: 'Remove a collaborator',
+          description:
+            'The owner removes any collaborator; a collaborator can remove themselves to leave the cart. The owner cannot be removed.',
+          tags: ['Cart'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Shared cart ID',
+            },
+            {
+              name: 'memberId',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'User ID of the member',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Member removed',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/Cart',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid ID format',
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+            '403': {
+              description: 'Not allowed to remove that member',
+            },
+            '404': {
+              description: 'Shared cart not found or user not a member',
+            },
+            '409': {
+              description:
+                'CART_CONFLICT - the cart changed since the given version',
+            },
+          },
+        },
+      },
+      '/cart/shared/{id}/items': {
+        post: {
+          summary: 'Add item to a shared cart',
+          description:
+            'Add an item to a shared cart; the line records who added it',
+          tags: ['Cart'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Shared cart ID',
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['itemId'],
+                  properties: {
+                    itemId: {
+                      type: 'string',
+                    },
+                    quantity: {
+                      type: 'integer',
+                      minimum: 1,
+                      maximum: 999,
+                    },
+                    version: {
+                      type: 'integer',
+                      description:
+                        'Cart version the change is based on (optimistic concurrency)',
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Item added to the shared cart',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/Cart',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Validation error',
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+            '404': {
+              description: 'Shared cart not found or user not a member',
+            },
+            '409': {
+              description:
+                'CART_CONFLICT - the cart changed since the given version',
+            },
+          },
+        },
+      },
+      '/cart/shared/{id}/items/{itemId}': {
+        patch: {
+          summary: 'Update shared cart item quantity',
+          tags: ['Cart'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Shared cart ID',
+            },
+            {
+              name: 'itemId',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Item ID',
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['quantity'],
+                  properties: {
+                    quantity: {
+                      type: 'integer',
+                      minimum: 1,
+                      maximum: 999,
+                    },
+                    version: {
+                      type: 'integer',
+                      description:
+                        'Cart version the change is based on (optimistic concurrency)',
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Shared cart updated',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/Cart',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Validation error',
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+            '404': {
+              description: 'Shared cart not found or user not a member',
+            },
+            '409': {
+              description:
+                'CART_CONFLICT - the cart changed since the given version',
+            },
+          },
+        },
+        delete: {
+          summary: 'Remove item from a shared cart',
+          tags: ['Cart'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Shared cart ID',
+            },
+            {
+              name: 'itemId',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Item ID',
+            },
+            {
+              name: 'version',
+              in: 'query',
+              required: false,
+              schema: {
+                type: 'integer',
+              },
+              description: 'Cart version the change is based on',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Item removed',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/Cart',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Validation error',
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+            '404': {
+              description: 'Shared cart not found or user not a member',
+            },
+            '409': {
+              description:
+                'CART_CONFLICT - the cart changed since the given version',
+            },
+          },
+        },
+      },
+      '/checkout': {
+        post: {
+          summary: 'Complete checkout',
+          description:
+            'Create purchase request and clear cart in one transaction (requires authentication). Send an Idempotency-Key to make retries safe.',
+          tags: ['Checkout'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'Idempotency-Key',
+              in: 'header',
+              description:
+                'Unique key of this checkout attempt (e.g., a UUID). A repeated key with the same body returns the original purchase request instead of creating another one; keys expire after 24 hours.',
+              required: false,
+              schema: {
+                type: 'string',
+                minLength: 1,
+                maxLength: 255,
+              },
+            },
+          ],
+          requestBody: {
+            required: false,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    notes: {
+                      type: 'string',
+                      description: 'Optional notes/justification',
+                    },
+                    confirmedTotal: {
+                      type: 'number',
+                      format: 'float',
+                      description:
+                        'Total confirmed after reviewing cart changes (see GET /checkout/review); required when the review requires confirmation',
+                    },
+                    cartId: {
+                      type: 'string',
+                      description:
+                        'Shared cart to check out (owner only); the personal cart when omitted',
+                    },
+                    version: {
+                      type: 'integer',
+                      description: 'Shared cart version the owner reviewed',
+                    },
+                    costCenter: {
+                      type: 'string',
+                      maxLength: 50,
+                      description:
+                        "Cost center to charge (default: the requester's cost center); its budget is checked. Another cost center requires budget management permission and must be known (have a budget or be assigned to a user).",
+                    },
+                    glCode: {
+                      type: 'string',
+                      maxLength: 30,
+                      description:
+                        'GL account code (letters, digits, dots and dashes)',
+                    },
+                    deliveryLocationId: {
+                      type: 'string',
+                      description:
+                        'Active delivery location (see GET /delivery-locations)',
+                    },
+                    requestedDeliveryDate: {
+                      type: 'string',
+                      format: 'date',
+                      description:
+                        'Requested delivery date (YYYY-MM-DD); must be no earlier than today plus the supplier lead time of every line',
+                    },
+                    lineOverrides: {
+                      type: 'array',
+                      description:
+                        'Cart lines whose GL code, delivery location or date differ from the request',
+                      items: {
+                        $ref: '#/components/schemas/CheckoutLineOverride',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Checkout completed',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      message: {
+                        type: 'string',
+                      },
+                      purchaseRequest: {
+                        $ref: '#/components/schemas/PurchaseRequest',
+                      },
+                      budget: {
+                        allOf: [{ $ref: '#/components/schemas/BudgetCheck' }],
+                        nullable: true,
+                        description:
+                          'Department budget check (null if no budget applies)',
+                      },
+                      note: {
+                        type: 'string',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '200': {
+              description:
+                'Checkout already completed with this Idempotency-Key; returns the original purchase request (budget is null)',
+            },
+            '400': {
+              description:
+                'Empty cart or validation error (e.g., inactive delivery location, delivery date earlier than the supplier lead time allows, invalid or already used Idempotency-Key)',
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+            '403': {
+              description:
+                'Not the owner of the shared cart; COST_CENTER_FORBIDDEN - charging another cost center without budget management permission',
+            },
+            '404': {
+              description: 'Shared cart not found or user not a member',
+            },
+            '409': {
+              description:
+                'BUDGET_EXCEEDED - cart total exceeds a blocking department budget; CHECKOUT_CONFIRMATION_REQUIRED - prices changed or items became unavailable and the new total was not confirmed; CART_CONFLICT - the shared cart changed since the given version, or a line was changed or removed during checkout',
+            },
+            '422': {
+              description:
+                'IDEMPOTENCY_KEY_REUSED - the Idempotency-Key was already used with a different body',
+            },
+          },
+        },
+      },
+      '/checkout/review': {
+        get: {
+          summary: 'Review cart before checkout',
+          description:
+            'Compare the cart against the live catalog: price changes, items no longer available and the total checkout will use',
+          tags: ['Checkout'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'cartId',
+              in: 'query',
+              required: false,
+              schema: {
+                type: 'string',
+              },
+              description:
+                'Shared cart to review (owner only); the personal cart when omitted',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Cart review',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/CheckoutReview',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Empty cart',
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+          },
+        },
+      },
+      '/budgets': {
+        get: {
+          summary: 'List budgets',
+          description:
+            "Department budgets with committed spend. Admins see all budgets; other users see their cost center's budgets.",
+          tags: ['Budgets'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'costCenter',
+              in: 'query',
+              required: false,
+              schema: {
+                type: 'string',
+              },
+              description: 'Filter by cost center (admins only)',
+            },
+            {
+              name: 'active',
+              in: 'query',
+              required: false,
+              schema: {
+                type: 'boolean',
+              },
+              description: 'Only return active budgets',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Budgets with spend status',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'array',
+                        items: {
+                          $ref: '#/components/schemas/BudgetStatus',
+                        },
+                      },
+                      count: {
+                        type: 'integer',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+          },
+        },
+        post: {
+          summary: 'Create budget',
+          description:
+            'Create a budget for a cost center and fiscal period (admins only)',
+          tags: ['Budgets'],
+          security: [{ session: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/BudgetRequest',
+                },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Budget created',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/Budget',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description:
+                'Validation error or overlapping active budget for the cost center',
+            },
+            '403': {
+              description: 'Forbidden',
+            },
+          },
+        },
+      },
+      '/budgets/{id}': {
+        get: {
+          summary: 'Get budget burn-down',
+          description:
+            'Budget spend status and daily burn-down series for the fiscal period',
+          tags: ['Budgets'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Budget ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Budget status and burn-down series',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          status: {
+                            $ref: '#/components/schemas/BudgetStatus',
+                          },
+                          series: {
+                            type: 'array',
+                            items: {
+                              $ref: '#/components/schemas/BudgetBurnDownPoint',
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Budget not found',
+            },
+          },
+        },
+        put: {
+          summary: 'Update budget',
+          description: 'Update a budget (admins only)',
+          tags: ['Budgets'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Budget ID',
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/BudgetRequest',
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Budget updated',
+            },
+            '400': {
+              description: 'Validation error',
+            },
+            '403': {
+              description: 'Forbidden',
+            },
+            '404': {
+              description: 'Budget not found',
+            },
+          },
+        },
+      },
+      '/budgets/check': {
+        get: {
+          summary: 'Check cart against budget',
+          description:
+            "Check the current cart total against the active budget of the user's cost center",
+          tags: ['Budgets'],
+          security: [{ session: [] }],
+          responses: {
+            '200': {
+              description: 'Budget check (data is null if no budget applies)',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        allOf: [{ $ref: '#/components/schemas/BudgetCheck' }],
+                        nullable: true,
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+          },
+        },
+      },
+      '/suppliers': {
+        get: {
+          summary: 'List suppliers',
+          description: 'Supplier master data sorted by name',
+          tags: ['Suppliers'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'q',
+              in: 'query',
+              required: false,
+              schema: {
+                type: 'string',
+              },
+              description: 'Match supplier name or tax ID',
+            },
+            {
+              name: 'status',
+              in: 'query',
+              required: false,
+              schema: {
+                type: 'string',
+                enum: ['active', 'blocked'],
+              },
+              description: 'Filter by supplier status',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'List of suppliers',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'array',
+                        items: {
+                          $ref: '#/components/schemas/Supplier',
+                        },
+                      },
+                      count: {
+                        type: 'integer',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+          },
+        },
+        post: {
+          summary: 'Create supplier',
+          description: 'Create a supplier (buyers and admins only)',
+          tags: ['Suppliers'],
+          security: [{ session: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/SupplierRequest',
+                },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Supplier created',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/Supplier',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Validation error or duplicate supplier name',
+            },
+            '403': {
+              description: 'Forbidden',
+            },
+          },
+        },
+      },
+      '/suppliers/{id}': {
+        get: {
+          summary: 'Get supplier',
+          tags: ['Suppliers'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Supplier ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Supplier',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/Supplier',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Supplier not found',
+            },
+          },
+        },
+        put: {
+          summary: 'Update supplier',
+          description:
+            "Update a supplier (buyers and admins only). Set status to 'blocked' to stop routing new orders to it.",
+          tags: ['Suppliers'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Supplier ID',
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/SupplierRequest',
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Supplier updated',
+            },
+            '400': {
+              description: 'Validation error',
+            },
+            '403': {
+              description: 'Forbidden',
+            },
+            '404': {
+              description: 'Supplier not found',
+            },
+          },
+        },
+        delete: {
+          summary: 'Delete supplier',
+          description:
+            'Delete a supplier (buyers and admins only). Suppliers still offered on catalog items cannot be deleted; block them instead.',
+          tags: ['Suppliers'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Supplier ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Supplier deleted',
+            },
+            '403': {
+              description: 'Forbidden',
+            },
+            '404': {
+              description: 'Supplier not found',
+            },
+            '409': {
+              description: 'Supplier is offered on catalog items',
+            },
+          },
+        },
+      },
+      '/delivery-locations': {
+        get: {
+          summary: 'List delivery locations',
+          description:
+            'Company delivery locations sorted by name (active only unless an admin asks for inactive ones)',
+          tags: ['Delivery Locations'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'includeInactive',
+              in: 'query',
+              required: false,
+              schema: {
+                type: 'boolean',
+              },
+              description: 'Include inactive locations (admins only)',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'List of delivery locations',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'array',
+                        items: {
+                          $ref: '#/components/schemas/DeliveryLocation',
+                        },
+                      },
+                      count: {
+                        type: 'integer',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+          },
+        },
+        post: {
+          summary: 'Create delivery location',
+          description: 'Create a delivery location (admins only)',
+          tags: ['Delivery Locations'],
+          security: [{ session: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/DeliveryLocationRequest',
+                },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Delivery location created',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/DeliveryLocation',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Validation error or duplicate location name',
+            },
+            '403': {
+              description: 'Forbidden',
+            },
+          },
+        },
+      },
+      '/delivery-locations/{id}': {
+        put: {
+          summary: 'Update delivery location',
+          description:
+            'Update a delivery location (admins only). Set isActive to false to stop it from being chosen at checkout.',
+          tags: ['Delivery Locations'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Delivery location ID',
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/DeliveryLocationRequest',
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Delivery location updated',
+            },
+            '400': {
+              description: 'Validation error',
+            },
+            '403': {
+              description: 'Forbidden',
+            },
+            '404': {
+              description: 'Delivery location not found',
+            },
+          },
+        },
+        delete: {
+          summary: 'Delete delivery location',
+          description:
+            'Delete a delivery location (admins only). Submitted purchase requests keep their snapshot of it.',
+          tags: ['Delivery Locations'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Delivery location ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Delivery location deleted',
+            },
+            '403': {
+              description: 'Forbidden',
+            },
+            '404': {
+              description: 'Delivery location not found',
+            },
+          },
+        },
+      },
+      '/items/{id}/suppliers': {
+        get: {
+          summary: 'List item supplier offers',
+          description:
+            'Suppliers offering a catalog item with supplier-specific prices, cheapest first',
+          tags: ['Suppliers'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Item ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Supplier offers',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'array',
+                        items: {
+                          allOf: [
+                            {
+                              $ref: '#/components/schemas/ItemSupplierOffer',
+                            },
+                            {
+                              type: 'object',
+                              properties: {
+                                supplier: {
+                                  $ref: '#/components/schemas/Supplier',
+                                },
+                              },
+                            },
+                          ],
+                        },
+                      },
+                      count: {
+                        type: 'integer',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Item not found',
+            },
+          },
+        },
+      },
+      '/purchase-orders': {
+        get: {
+          summary: 'List purchase orders',
+          description:
+            'Purchase orders issued from approved requests, most recent first (buyers and admins)',
+          tags: ['Purchase Orders'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'status',
+              in: 'query',
+              schema: {
+                type: 'string',
+                enum: [
+                  'issued',
+                  'acknowledged',
+                  'partially_received',
+                  'closed',
+                ],
+              },
+            },
+            {
+              name: 'supplierId',
+              in: 'query',
+              schema: {
+                type: 'string',
+              },
+            },
+            {
+              name: 'purchaseRequestId',
+              in: 'query',
+              schema: {
+                type: 'string',
+              },
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Purchase orders',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'array',
+                        items: {
+                          $ref: '#/components/schemas/PurchaseOrder',
+                        },
+                      },
+                      count: {
+                        type: 'integer',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '403': {
+              description: 'Forbidden',
+            },
+          },
+        },
+      },
+      '/purchase-orders/{id}': {
+        get: {
+          summary: 'Get purchase order',
+          tags: ['Purchase Orders'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Purchase order ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Purchase order',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/PurchaseOrder',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Purchase order not found',
+            },
+          },
+        },
+        put: {
+          summary: 'Update purchase order status',
+          description:
+            'Move an order forward (issued → acknowledged → partially_received → closed). Open orders can be closed at any time.',
+          tags: ['Purchase Orders'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Purchase order ID',
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['status'],
+                  properties: {
+                    status: {
+                      type: 'string',
+                      enum: ['acknowledged', 'partially_received', 'closed'],
+                    },
+                    note: {
+                      type: 'string',
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Purchase order updated',
+            },
+            '400': {
+              description: 'Invalid status',
+            },
+            '403': {
+              description: 'Forbidden',
+            },
+            '404': {
+              description: 'Purchase order not found',
+            },
+            '409': {
+              description: 'Status transition not allowed',
+            },
+          },
+        },
+      },
+      '/purchase-orders/{id}/document': {
+        get: {
+          summary: 'Printable purchase order',
+          description:
+            'Purchase order rendered as a standalone HTML page for printing or saving as PDF',
+          tags: ['Purchase Orders'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Purchase order ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Purchase order document',
+              content: {
+                'text/html': {
+                  schema: {
+                    type: 'string',
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Purchase order not found',
+            },
+          },
+        },
+      },
+      '/purchase/{id}/purchase-orders': {
+        get: {
+          summary: 'List purchase orders for a request',
+          tags: ['Purchase Orders'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Purchase request ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Purchase orders generated from the request',
+            },
+          },
+        },
+        post: {
+          summary: 'Generate purchase orders for a request',
+          description:
+            'Issue one purchase order per supplier for the lines of an approved request that are not yet ordered. Orders are issued automatically on approval; use this to retry or to order lines that had no active supplier.',
+          tags: ['Purchase Orders'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Purchase request ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Purchase orders and unsourced lines',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          purchaseOrders: {
+                            type: 'array',
+                            items: {
+                              $ref: '#/components/schemas/PurchaseOrder',
+                            },
+                          },
+                          unsourcedItems: {
+                            type: 'array',
+                            items: {
+                              type: 'object',
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Purchase request not found',
+            },
+            '409': {
+              description: 'Purchase request is not approved',
+            },
+          },
+        },
+      },
+      '/purchase-orders/{id}/receipts': {
+        get: {
+          summary: 'List goods receipts for a purchase order',
+          tags: ['Receiving'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Purchase order ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Goods receipts, oldest first',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'array',
+                        items: {
+                          $ref: '#/components/schemas/GoodsReceipt',
+                        },
+                      },
+                      count: {
+                        type: 'integer',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Purchase order not found',
+            },
+          },
+        },
+        post: {
+          summary: 'Record a goods receipt',
+          description:
+            'Record received and rejected quantities for one delivery. Accepted quantities (received minus rejected) may not exceed what is still outstanding. The purchase order moves to partially received or closed automatically.',
+          tags: ['Receiving'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Purchase order ID',
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['lines'],
+                  properties: {
+                    lines: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        required: ['itemId', 'quantityReceived'],
+                        properties: {
+                          itemId: {
+                            type: 'string',
+                          },
+                          quantityReceived: {
+                            type: 'integer',
+                            minimum: 1,
+                          },
+                          quantityRejected: {
+                            type: 'integer',
+                            minimum: 0,
+                          },
+                          rejectionReason: {
+                            type: 'string',
+                            enum: [
+                              'damaged',
+                              'wrong_item',
+                              'quality_issue',
+                              'other',
+                            ],
+                          },
+                          note: {
+                            type: 'string',
+                          },
+                        },
+                      },
+                    },
+                    notes: {
+                      type: 'string',
+                    },
+                    receivedAt: {
+                      type: 'string',
+                      format: 'date-time',
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Goods receipt recorded',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/GoodsReceipt',
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid receipt lines',
+            },
+            '404': {
+              description: 'Purchase order not found',
+            },
+            '409': {
+              description: 'Purchase order is closed',
+            },
+          },
+        },
+      },
+      '/purchase-orders/{id}/invoices': {
+        get: {
+          summary: 'List supplier invoices for a purchase order',
+          tags: ['Receiving'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Purchase order ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Supplier invoices, oldest first',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'array',
+                        items: {
+                          $ref: '#/components/schemas/SupplierInvoice',
+                        },
+                      },
+                      count: {
+                        type: 'integer',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        post: {
+          summary: 'Record a supplier invoice',
+          tags: ['Receiving'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Purchase order ID',
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['invoiceNumber', 'invoiceDate', 'lines'],
+                  properties: {
+                    invoiceNumber: {
+                      type: 'string',
+                    },
+                    invoiceDate: {
+                      type: 'string',
+                      format: 'date',
+                    },
+                    lines: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        required: ['itemId', 'quantity', 'unitPrice'],
+                        properties: {
+                          itemId: {
+                            type: 'string',
+                          },
+                          quantity: {
+                            type: 'integer',
+                            minimum: 1,
+                          },
+                          unitPrice: {
+                            type: 'number',
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Supplier invoice recorded',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/SupplierInvoice',
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid invoice',
+            },
+            '409': {
+              description: 'Invoice number already recorded for this supplier',
+            },
+          },
+        },
+      },
+      '/purchase-orders/{id}/match': {
+        get: {
+          summary: 'Three-way match for a purchase order',
+          description:
+            'Compare ordered, received and invoiced quantities and prices per line',
+          tags: ['Receiving'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Purchase order ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Three-way match result',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ThreeWayMatch',
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Purchase order not found',
+            },
+          },
+        },
+      },
+      '/purchase/{id}/receipts': {
+        get: {
+          summary: 'List goods receipts for a purchase request',
+          tags: ['Receiving'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Purchase request ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Goods receipts across the request purchase orders',
+            },
+          },
+        },
+      },
+      '/purchase/{id}/erp': {
+        get: {
+          summary: 'Poll ERP status of a purchase request',
+          description:
+            'Fetch the current status from the configured ERP connector and record it on the request',
+          tags: ['ERP'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Purchase request ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Current ERP reference and status',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          erpReference: {
+                            type: 'string',
+                          },
+                          erpStatus: {
+                            type: 'string',
+                            enum: [
+                              'queued',
+                              'submitted',
+                              'accepted',
+                              'rejected',
+                              'cancelled',
+                              'failed',
+                            ],
+                          },
+                          erpStatusUpdatedAt: {
+                            type: 'string',
+                            format: 'date-time',
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Purchase request not found',
+            },
+            '409': {
+              description: 'Request has not been submitted to the ERP',
+            },
+            '502': {
+              description: 'ERP unreachable or returned an error',
+            },
+          },
+        },
+      },
+      '/purchase/{id}/erp/cancel': {
+        post: {
+          summary: 'Cancel a purchase request in the ERP',
+          description:
+            'Drops a submission still waiting in the outbox, otherwise queues a cancel operation',
+          tags: ['ERP'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Purchase request ID',
+            },
+          ],
+          responses: {
+            '202': {
+              description: 'Cancellation accepted',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          erpReference: {
+                            type: 'string',
+                          },
+                          erpStatus: {
+                            type: 'string',
+                            enum: [
+                              'queued',
+                              'submitted',
+                              'accepted',
+                              'rejected',
+                              'cancelled',
+                              'failed',
+                            ],
+                          },
+                          erpStatusUpdatedAt: {
+                            type: 'string',
+                            format: 'date-time',
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Purchase request not found',
+            },
+            '409': {
+              description:
+                'Request was never queued, was rejected by the ERP, or its submission is in progress',
+            },
+          },
+        },
+      },
+      '/erp/outbox': {
+        get: {
+          summary: 'List ERP outbox entries',
+          tags: ['ERP'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'status',
+              in: 'query',
+              schema: {
+                type: 'string',
+                enum: [
+                  'pending',
+                  'processing',
+                  'completed',
+                  'failed',
+                  'cancelled',
+                ],
+              },
+            },
+            {
+              name: 'purchaseRequestId',
+              in: 'query',
+              schema: {
+                type: 'string',
+              },
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Outbox entries, most recent first',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'array',
+                        items: {
+                          $ref: '#/components/schemas/ErpOutboxEntry',
+                        },
+                      },
+                      count: {
+                        type: 'integer',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/erp/outbox/process': {
+        post: {
+          summary: 'Process the ERP outbox',
+          description:
+            'Send due entries through the configured ERP connector. Transient failures are retried with exponential backoff. The outbox is drained on a schedule by POST /cron/erp-outbox; use this endpoint to run a batch by hand.',
+          tags: ['ERP'],
+          security: [{ session: [] }],
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    limit: {
+                      type: 'integer',
+                      minimum: 1,
+                      maximum: 100,
+                      default: 20,
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Run summary',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          processed: {
+                            type: 'integer',
+                          },
+                          completed: {
+                            type: 'integer',
+                          },
+                          retried: {
+                            type: 'integer',
+                          },
+                          failed: {
+                            type: 'integer',
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/cron/erp-outbox': {
+        post: {
+          summary: 'Process the ERP outbox (scheduler)',
+          description:
+            'Sends up to 100 due outbox entries through the configured ERP connector. Called every minute by the compose scheduler service or Cloud Scheduler; authenticated with the CRON_SECRET bearer token instead of a session.',
+          tags: ['ERP'],
+          security: [{ cronSecret: [] }],
+          responses: {
+            '200': {
+              description: 'Run summary',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          processed: {
+                            type: 'integer',
+                          },
+                          completed: {
+                            type: 'integer',
+                          },
+                          retried: {
+                            type: 'integer',
+                          },
+                          failed: {
+                            type: 'integer',
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '401': {
+              description: 'Missing or invalid scheduler token',
+            },
+          },
+        },
+      },
+      '/erp/outbox/{id}/retry': {
+        post: {
+          summary: 'Retry a failed ERP outbox entry',
+          tags: ['ERP'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Outbox entry ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Entry requeued',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/ErpOutboxEntry',
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Outbox entry not found',
+            },
+            '409': {
+              description: 'Entry has not failed',
+            },
+          },
+        },
+      },
+      '/webhooks': {
+        get: {
+          summary: 'List webhook endpoints',
+          tags: ['Webhooks'],
+          security: [{ session: [] }],
+          responses: {
+            '200': {
+              description: 'Webhook endpoints, newest first',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'array',
+                        items: {
+                          $ref: '#/components/schemas/WebhookSubscription',
+                        },
+                      },
+                      count: {
+                        type: 'integer',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        post: {
+          summary: 'Register a webhook endpoint',
+          description:
+            'Payloads are signed with HMAC-SHA256. The X-ProcureFlow-Signature header has the form t=<unix seconds>,v1=<hex digest of "<t>.<raw body>">. The signing secret is only returned in this response.',
+          tags: ['Webhooks'],
+          security: [{ session: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/WebhookSubscriptionInput',
+                },
+              },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Endpoint registered',
+              content: {
+                'application/json': {
+                  schema: {
+                    allOf: [
+                      {
+                        $ref: '#/components/schemas/WebhookSubscription',
+                      },
+                      {
+                        type: 'object',
+                        properties: {
+                          secret: {
+                            type: 'string',
+                            example: 'whsec_3f9a...',
+                          },
+                        },
+                      },
+                    ],
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid URL or events',
+            },
+          },
+        },
+      },
+      '/webhooks/{id}': {
+        get: {
+          summary: 'Get a webhook endpoint',
+          tags: ['Webhooks'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Webhook endpoint',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/WebhookSubscription',
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Webhook endpoint not found',
+            },
+          },
+        },
+        put: {
+          summary: 'Update a webhook endpoint',
+          tags: ['Webhooks'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/WebhookSubscriptionInput',
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Endpoint updated',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/WebhookSubscription',
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid URL or events',
+            },
+            '404': {
+              description: 'Webhook endpoint not found',
+            },
+          },
+        },
+        delete: {
+          summary: 'Remove a webhook endpoint and its delivery log',
+          tags: ['Webhooks'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Endpoint removed',
+            },
+            '404': {
+              description: 'Webhook endpoint not found',
+            },
+          },
+        },
+      },
+      '/webhooks/{id}/deliveries': {
+        get: {
+          summary: 'List webhook deliveries',
+          description:
+            'Delivery log of an endpoint with every attempt, most recent first (at most 200)',
+          tags: ['Webhooks'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+            },
+            {
+              name: 'status',
+              in: 'query',
+              schema: {
+                type: 'string',
+                enum: ['pending', 'delivered', 'failed'],
+              },
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Deliveries',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'array',
+                        items: {
+                          $ref: '#/components/schemas/WebhookDelivery',
+                        },
+                      },
+                      count: {
+                        type: 'integer',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Webhook endpoint not found',
+            },
+          },
+        },
+      },
+      '/webhooks/deliveries/process': {
+        post: {
+          summary: 'Process pending webhook deliveries',
+          description:
+            'Retry deliveries whose backoff has elapsed. Deliveries are retried on a schedule by POST /cron/webhook-deliveries; use this endpoint to run a batch by hand.',
+          tags: ['Webhooks'],
+          security: [{ session: [] }],
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    limit: {
+                      type: 'integer',
+                      minimum: 1,
+                      maximum: 100,
+                      default: 20,
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Run summary',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          processed: {
+                            type: 'integer',
+                          },
+                          delivered: {
+                            type: 'integer',
+                          },
+                          retried: {
+                            type: 'integer',
+                          },
+                          failed: {
+                            type: 'integer',
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/cron/webhook-deliveries': {
+        post: {
+          summary: 'Process pending webhook deliveries (scheduler)',
+          description:
+            'Retries up to 100 deliveries whose backoff has elapsed. Called every minute by the compose scheduler service or Cloud Scheduler; authenticated with the CRON_SECRET bearer token instead of a session.',
+          tags: ['Webhooks'],
+          security: [{ cronSecret: [] }],
+          responses: {
+            '200': {
+              description: 'Run summary',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          processed: {
+                            type: 'integer',
+                          },
+                          delivered: {
+                            type: 'integer',
+                          },
+                          retried: {
+                            type: 'integer',
+                          },
+                          failed: {
+                            type: 'integer',
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '401': {
+              description: 'Missing or invalid scheduler token',
+            },
+          },
+        },
+      },
+      '/webhooks/deliveries/{deliveryId}/redeliver': {
+        post: {
+          summary: 'Redeliver a webhook event',
+          description:
+            'Creates a new delivery of the same event (same event ID) and attempts it immediately',
+          tags: ['Webhooks'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'deliveryId',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+            },
+          ],
+          responses: {
+            '201': {
+              description: 'New delivery with the outcome of its first attempt',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/WebhookDelivery',
+                  },
+                },
+              },
+            },
+            '404': {
+              description: 'Delivery not found',
+            },
+            '409': {
+              description:
+                'Delivery is still pending or its endpoint is inactive',
+            },
+          },
+        },
+      },
+      '/purchase': {
+        get: {
+          summary: 'List purchase requests',
+          description:
+            'Purchase requests of the authenticated user, most recent first (cursor-paginated)',
+          tags: ['Purchase Requests'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'status',
+              in: 'query',
+              required: false,
+              schema: { type: 'string' },
+            },
+            { $ref: '#/components/parameters/Cursor' },
+            { $ref: '#/components/parameters/Limit' },
+          ],
+          responses: {
+            '200': {
+              description: 'Page of purchase requests',
+              content: {
+                'application/json': {
+                  schema: {
+                    allOf: [
+                      { $ref: '#/components/schemas/PageInfo' },
+                      {
+                        type: 'object',
+                        properties: {
+                          success: { type: 'boolean' },
+                          count: { type: 'integer' },
+                          data: {
+                            type: 'array',
+                            items: {
+                              $ref: '#/components/schemas/PurchaseRequest',
+                            },
+                          },
+                        },
+                      },
+                    ],
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid status or cursor',
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+          },
+        },
+      },
+      '/agent/conversations': {
+        get: {
+          summary: 'List agent conversations',
+          description:
+            'Conversation summaries of the authenticated user, most recently updated first (cursor-paginated, default page size 10)',
+          tags: ['Agent'],
+          security: [{ session: [] }],
+          parameters: [
+            { $ref: '#/components/parameters/Cursor' },
+            { $ref: '#/components/parameters/Limit' },
+          ],
+          responses: {
+            '200': {
+              description: 'Page of conversation summaries',
+              content: {
+                'application/json': {
+                  schema: {
+                    allOf: [
+                      { $ref: '#/components/schemas/PageInfo' },
+                      {
+                        type: 'object',
+                        properties: {
+                          success: { type: 'boolean' },
+                          data: {
+                            type: 'array',
+                            items: {
+                              $ref: '#/components/schemas/ConversationSummary',
+                            },
+                          },
+                        },
+                      },
+                    ],
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid cursor',
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+          },
+        },
+      },
+      '/settings/conversations': {
+        get: {
+          summary: 'List conversations (settings)',
+          description:
+            'Conversations of the authenticated user with message counts, most recently updated first (cursor-paginated)',
+          tags: ['Settings'],
+          security: [{ session: [] }],
+          parameters: [
+            { $ref: '#/components/parameters/Cursor' },
+            { $ref: '#/components/parameters/Limit' },
+          ],
+          responses: {
+            '200': {
+              description: 'Page of conversations',
+              content: {
+                'application/json': {
+                  schema: {
+                    allOf: [
+                      { $ref: '#/components/schemas/PageInfo' },
+                      {
+                        type: 'object',
+                        properties: {
+                          conversations: {
+                            type: 'array',
+                            items: {
+                              $ref: '#/components/schemas/ConversationSummary',
+                            },
+                          },
+                        },
+                      },
+                    ],
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid cursor',
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+          },
+        },
+      },
+      '/usage': {
+        get: {
+          summary: 'Query token usage',
+          description:
+            "Token usage records, most recent first (cursor-paginated, default page size 100, max 1000). Summary and breakdowns cover all matching records. Other users' usage requires usage:read_all.",
+          tags: ['Usage'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'userId',
+              in: 'query',
+              required: false,
+              schema: { type: 'string' },
+            },
+            {
+              name: 'conversationId',
+              in: 'query',
+              required: false,
+              schema: { type: 'string' },
+            },
+            {
+              name: 'provider',
+              in: 'query',
+              required: false,
+              schema: { type: 'string' },
+            },
+            {
+              name: 'startDate',
+              in: 'query',
+              required: false,
+              schema: { type: 'string', format: 'date-time' },
+            },
+            {
+              name: 'endDate',
+              in: 'query',
+              required: false,
+              schema: { type: 'string', format: 'date-time' },
+            },
+            { $ref: '#/components/parameters/Cursor' },
+            { $ref: '#/components/parameters/Limit' },
+          ],
+          responses: {
+            '200': {
+              description: 'Page of usage records with summary',
+              content: {
+                'application/json': {
+                  schema: {
+                    allOf: [
+                      { $ref: '#/components/schemas/PageInfo' },
+                      {
+                        type: 'object',
+                        properties: {
+                          pagination: {
+                            type: 'object',
+                            properties: {
+                              total: { type: 'integer' },
+                              limit: { type: 'integer' },
+                            },
+                          },
+                          summary: { type: 'object' },
+                          breakdowns: { type: 'object' },
+                          usage: {
+                            type: 'array',
+                            items: { type: 'object' },
+                          },
+                        },
+                      },
+                    ],
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid cursor',
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+            '403': {
+              description: "Not allowed to view other users' usage",
+            },
+          },
+        },
+      },
+      '/approvals': {
+        get: {
+          summary: 'List pending approvals',
+          description:
+            'Purchase requests whose current approval step the authenticated user can act on',
+          tags: ['Approvals'],
+          security: [{ session: [] }],
+          responses: {
+            '200': {
+              description: 'Requests awaiting approval',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        type: 'array',
+                        items: {
+                          $ref: '#/components/schemas/PurchaseRequest',
+                        },
+                      },
+                      count: {
+                        type: 'integer',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+          },
+        },
+      },
+      '/purchase/{id}/approve': {
+        post: {
+          summary: 'Approve purchase request',
+          description:
+            'Approve the current approval step; the last approval moves the request to approved',
+          tags: ['Approvals'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Purchase request ID',
+            },
+          ],
+          requestBody: {
+            required: false,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/ApprovalActionRequest',
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Updated purchase request',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/PurchaseRequest',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Validation error',
+            },
+            '403': {
+              description: 'User is not allowed to act on this request',
+            },
+            '404': {
+              description: 'Purchase request not found',
+            },
+            '409': {
+              description: 'Action not allowed in the current status',
+            },
+          },
+        },
+      },
+      '/purchase/{id}/reject': {
+        post: {
+          summary: 'Reject purchase request',
+          description: 'Reject the request at its current approval step',
+          tags: ['Approvals'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Purchase request ID',
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/ApprovalActionRequest',
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Updated purchase request',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/PurchaseRequest',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Validation error (comment is required)',
+            },
+            '403': {
+              description: 'User is not allowed to act on this request',
+            },
+            '404': {
+              description: 'Purchase request not found',
+            },
+            '409': {
+              description: 'Action not allowed in the current status',
+            },
+          },
+        },
+      },
+      '/purchase/{id}/return': {
+        post: {
+          summary: 'Return purchase request for changes',
+          description: 'Send the request back to the requester for changes',
+          tags: ['Approvals'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Purchase request ID',
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/ApprovalActionRequest',
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Updated purchase request',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/PurchaseRequest',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Validation error (comment is required)',
+            },
+            '403': {
+              description: 'User is not allowed to act on this request',
+            },
+            '404': {
+              description: 'Purchase request not found',
+            },
+            '409': {
+              description: 'Action not allowed in the current status',
+            },
+          },
+        },
+      },
+      '/purchase/{id}/resubmit': {
+        post: {
+          summary: 'Resubmit purchase request',
+          description:
+            'Resubmit a request returned for changes (requester only); restarts the approval chain',
+          tags: ['Approvals'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Purchase request ID',
+            },
+          ],
+          requestBody: {
+            required: false,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/ApprovalActionRequest',
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Updated purchase request',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/PurchaseRequest',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Validation error',
+            },
+            '403': {
+              description: 'User is not allowed to act on this request',
+            },
+            '404': {
+              description: 'Purchase request not found',
+            },
+            '409': {
+              description: 'Action not allowed in the current status',
+            },
+          },
+        },
+      },
+      '/purchase/{id}/reorder': {
+        post: {
+          summary: 'Reorder purchase request',
+          description:
+            'Put the lines of a past purchase request (requester only) back into the cart at current catalog prices. Deleted and archived items are skipped.',
+          tags: ['Cart'],
+          security: [{ session: [] }],
+          parameters: [
+            {
+              name: 'id',
+              in: 'path',
+              required: true,
+              schema: {
+                type: 'string',
+              },
+              description: 'Purchase request ID',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Lines added to the cart and lines skipped',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      success: {
+                        type: 'boolean',
+                      },
+                      data: {
+                        $ref: '#/components/schemas/CartRestoreResult',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Invalid ID format',
+            },
+            '401': {
+              description: 'Unauthorized',
+            },
+            '404': {
+              description: 'Purchase request not found',
+            },
+            '409': {
+              description: 'CART_CONFLICT - the cart changed while restoring',
+            },
+          },
+        },
+      },
+      '/agent/chat': {
+        post: {
+          summary: 'Send message to AI agent',
+          description:
+            'Conversational interface to the procurement agent (requires authentication)',
+          tags: ['Agent'],
+          security: [{ session: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/AgentChatRequest',
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Agent response',
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/AgentChatResponse',
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Validation error',
+            },
+          },
+        },
+      },
+      '/agent/chat/stream': {
+        post: {
+          summary: 'Send message to AI agent (streaming)',
+          description:
+            'Same as POST /agent/chat, but the response is streamed as Server-Sent Events: token (text delta), tool_start, tool_end (with durationMs and success), done (conversationId and final agent message with items, cart and purchaseRequest) and error. Invalid messages fail with a JSON 400 before streaming starts (requires authentication)',
+          tags: ['Agent'],
+          security: [{ session: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  $ref: '#/components/schemas/AgentChatRequest',
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Event stream of agent progress',
+              content: {
+                'text/event-stream': {
+                  schema: {
+                    type: 'string',
+                  },
+                },
+              },
+            },
+            '400': {
+              description: 'Validation error',
+            },
+          },
+        },
+      },
+    },
+    components: {
+      parameters: {
+        Cursor: {
+          name: 'cursor',
+          in: 'query',
+          description:
+            'Opaque cursor from the nextCursor of the previous page (omit for the first page)',
+          required: false,
+          schema: { type: 'string' },
+        },
+        Limit: {
+          name: 'limit',
+          in: 'query',
+          description: 'Page size (default 20, max 100, unless noted)',
+          required: false,
+          schema: { type: 'integer', minimum: 1 },
+        },
+      },
+      securitySchemes: {
+        session: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'next-auth.session-token',
+          description:
+            'NextAuth session cookie. Authenticate by logging in at the root path.',
+        },
+        cronSecret: {
+          type: 'http',
+          scheme: 'bearer',
+          description:
+            'CRON_SECRET shared with the scheduler. Only accepted by the /cron endpoints.',
+        },
+      },
+      schemas: {
+        HealthResponse: {
+          type: 'object',
+          properties: {
+            status: {
+              type: 'string',
+              enum: ['ok', 'degraded'],
+            },
+            timestamp: {
+              type: 'string',
+              format: 'date-time',
+            },
+            service: {
+              type: 'string',
+            },
+            version: {
+              type: 'string',
+            },
+            environment: {
+              type: 'string',
+            },
+            checks: {
+              type: 'object',
+              properties: {
+                api: {
+                  type: 'string',
+                },
+                db: {
+                  type: 'string',
+                },
+              },
+            },
+            uptime: {
+              type: 'number',
+            },
+          },
+        },
+        Item: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+            },
+            name: {
+              type: 'string',
+            },
+            category: {
+              type: 'string',
+            },
+            description: {
+              type: 'string',
+            },
+            estimatedPrice: {
+              type: 'number',
+              format: 'float',
+              description: 'Estimated unit price in the default currency',
+            },
+            unit: {
+              type: 'string',
+              description: 'Base unit of measure (prices and quantities)',
+            },
+            unitConversions: {
+              type: 'array',
+              description: 'Larger units in base units (e.g., box of 12)',
+              items: { $ref: '#/components/schemas/ItemUnitConversion' },
+            },
+            orderUnit: {
+              type: 'string',
+              description:
+                'Unit the item is ordered in (one of unitConversions); cart quantities must be multiples of its factor',
+            },
+            sku: {
+              type: 'string',
+              maxLength: 64,
+              description: 'Stock keeping unit (unique)',
+            },
+            attributes: {
+              type: 'object',
+              description:
+                'Structured attributes keyed by attribute key, checked against the category attribute schema',
+              additionalProperties: {
+                oneOf: [{ type: 'string' }, { type: 'number' }],
+              },
+              example: { color: 'Blue', tip_size: 0.5 },
+            },
+            parentItemId: {
+              type: 'string',
+              description:
+                'Parent product this item is a variant of (same category, one level deep)',
+            },
+            status: {
+              type: 'string',
+              enum: ['active', 'pending_review', 'inactive'],
+              description: 'Item status in the catalog',
+            },
+            preferredSupplier: {
+              type: 'string',
+            },
+            suppliers: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/ItemSupplierOffer',
+              },
+            },
+            supplierCount: {
+              type: 'integer',
+              description:
+                'Number of active suppliers offering the item (search results only)',
+            },
+            createdByUserId: {
+              type: 'string',
+              description: 'User ID of the person who registered this item',
+            },
+            review: {
+              $ref: '#/components/schemas/ItemReview',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        ItemReview: {
+          type: 'object',
+          description: 'Outcome of the buyer review of a user-registered item',
+          properties: {
+            decision: {
+              type: 'string',
+              enum: ['approved', 'rejected', 'merged'],
+            },
+            reason: {
+              type: 'string',
+              description: 'Rejection reason',
+            },
+            mergedIntoItemId: {
+              type: 'string',
+              description: 'Existing item the submission was merged into',
+            },
+            reviewedByUserId: {
+              type: 'string',
+            },
+            reviewedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        ItemRevision: {
+          type: 'object',
+          description: 'One update of a catalog item',
+          properties: {
+            id: { type: 'string' },
+            itemId: { type: 'string' },
+            changes: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  field: {
+                    type: 'string',
+                    enum: [
+                      'name',
+                      'category',
+                      'description',
+                      'estimatedPrice',
+                      'unit',
+                      'unitConversions',
+                      'orderUnit',
+                      'sku',
+                      'attributes',
+                      'parentItemId',
+                      'preferredSupplier',
+                      'suppliers',
+                    ],
+                  },
+                  from: { description: 'Value before the change' },
+                  to: { description: 'Value after the change' },
+                },
+              },
+            },
+            reason: { type: 'string' },
+            changedByUserId: { type: 'string' },
+            changedByName: { type: 'string' },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        ItemUnitConversion: {
+          type: 'object',
+          required: ['unit', 'factor'],
+          properties: {
+            unit: { type: 'string', example: 'box' },
+            factor: {
+              type: 'integer',
+              minimum: 2,
+              description: 'Base units per unit',
+              example: 12,
+            },
+          },
+        },
+        ItemAttributeDefinition: {
+          type: 'object',
+          required: ['key', 'label', 'type'],
+          properties: {
+            key: {
+              type: 'string',
+              pattern: '^[a-z][a-z0-9_]{0,39}$',
+              example: 'color',
+            },
+            label: { type: 'string', example: 'Color' },
+            type: { type: 'string', enum: ['text', 'number', 'select'] },
+            options: {
+              type: 'array',
+              description: 'Allowed values (select attributes)',
+              items: { type: 'string' },
+            },
+            unit: {
+              type: 'string',
+              description: 'Unit shown after the value (number attributes)',
+            },
+            required: { type: 'boolean', default: false },
+          },
+        },
+        CategoryAttributeSchema: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            category: { type: 'string' },
+            attributes: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/ItemAttributeDefinition' },
+            },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        Category: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            name: { type: 'string', example: 'Paper Products' },
+            code: {
+              type: 'string',
+              description: 'Classification code (e.g., UNSPSC)',
+            },
+            description: { type: 'string' },
+            parentCategoryId: {
+              type: 'string',
+              description: 'Parent category (root categories have none)',
+            },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        CategoryRequest: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', minLength: 2, maxLength: 100 },
+            code: {
+              type: 'string',
+              nullable: true,
+              maxLength: 20,
+              description:
+                'Letters, digits, dots and dashes (stored uppercase); null clears it',
+            },
+            description: { type: 'string', nullable: true, maxLength: 500 },
+            parentCategoryId: {
+              type: 'string',
+              nullable: true,
+              description: 'Parent category; null or omitted for a root',
+            },
+          },
+        },
+        CategorySpendNode: {
+          type: 'object',
+          properties: {
+            categoryId: { type: 'string' },
+            name: { type: 'string' },
+            code: { type: 'string' },
+            amount: {
+              type: 'number',
+              description: 'Spend on items of the category itself',
+            },
+            total: {
+              type: 'number',
+              description: 'Spend on the category and its subcategories',
+            },
+            children: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/CategorySpendNode' },
+            },
+          },
+        },
+        CategorySpendRollup: {
+          type: 'object',
+          properties: {
+            branches: {
+              type: 'array',
+              description: 'Root categories, highest total first',
+              items: { $ref: '#/components/schemas/CategorySpendNode' },
+            },
+            uncategorized: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  category: { type: 'string' },
+                  amount: { type: 'number' },
+                },
+              },
+            },
+            total: { type: 'number' },
+          },
+        },
+        SearchSynonym: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            terms: {
+              type: 'array',
+              description: 'Equivalent terms (normalized)',
+              items: { type: 'string' },
+            },
+            createdByUserId: { type: 'string' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        SearchSynonymRequest: {
+          type: 'object',
+          required: ['terms'],
+          properties: {
+            terms: {
+              type: 'array',
+              minItems: 2,
+              maxItems: 20,
+              items: { type: 'string', maxLength: 50 },
+              example: ['usb-c', 'type c'],
+            },
+          },
+        },
+        PendingItemReview: {
+          type: 'object',
+          properties: {
+            item: {
+              $ref: '#/components/schemas/Item',
+            },
+            duplicates: {
+              type: 'array',
+              description: 'Active items similar to the submission',
+              items: {
+                $ref: '#/components/schemas/Item',
+              },
+            },
+          },
+        },
+        CreateItemRequest: {
+          type: 'object',
+          required: ['name', 'category', 'description', 'estimatedPrice'],
+          properties: {
+            name: {
+              type: 'string',
+              minLength: 2,
+              maxLength: 200,
+            },
+            category: {
+              type: 'string',
+              minLength: 2,
+              maxLength: 100,
+            },
+            description: {
+              type: 'string',
+              minLength: 10,
+              maxLength: 2000,
+            },
+            estimatedPrice: {
+              type: 'number',
+              format: 'float',
+              minimum: 0.01,
+            },
+            unit: {
+              type: 'string',
+            },
+            unitConversions: {
+              type: 'array',
+              description: 'Larger units in base units (e.g., box of 12)',
+              items: { $ref: '#/components/schemas/ItemUnitConversion' },
+            },
+            orderUnit: {
+              type: 'string',
+              description:
+                'Unit the item is ordered in (one of unitConversions); cart quantities must be multiples of its factor',
+            },
+            sku: {
+              type: 'string',
+              maxLength: 64,
+              description: 'Stock keeping unit (unique)',
+            },
+            attributes: {
+              type: 'object',
+              description:
+                'Structured attributes keyed by attribute key, checked against the category attribute schema',
+              additionalProperties: {
+                oneOf: [{ type: 'string' }, { type: 'number' }],
+              },
+              example: { color: 'Blue', tip_size: 0.5 },
+            },
+            parentItemId: {
+              type: 'string',
+              description:
+                'Parent product this item is a variant of (same category, one level deep)',
+            },
+            preferredSupplier: {
+              type: 'string',
+            },
+            suppliers: {
+              type: 'array',
+              description: 'Supplier offers (requires suppliers:manage)',
+              items: {
+                $ref: '#/components/schemas/ItemSupplierOffer',
+              },
+            },
+          },
+        },
+        Cart: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+            },
+            userId: {
+              type: 'string',
+              description: 'User of a personal cart, owner of a shared cart',
+            },
+            name: {
+              type: 'string',
+              description: 'Name of a shared cart',
+            },
+            isShared: {
+              type: 'boolean',
+            },
+            members: {
+              type: 'array',
+              description: 'Owner and collaborators (empty for personal carts)',
+              items: {
+                $ref: '#/components/schemas/CartMember',
+              },
+            },
+            version: {
+              type: 'integer',
+              description:
+                'Incremented on every change; send it back with changes to detect concurrent edits',
+            },
+            items: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/CartItem',
+              },
+            },
+            totalCost: {
+              type: 'number',
+              format: 'float',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        CartItem: {
+          type: 'object',
+          properties: {
+            itemId: {
+              type: 'string',
+            },
+            name: {
+              type: 'string',
+              description:
+                'Snapshot of item name at the time of adding to cart',
+            },
+            unitPrice: {
+              type: 'number',
+              format: 'float',
+              description:
+                'Snapshot of item price at the time of adding to cart',
+            },
+            quantity: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 999,
+            },
+            subtotal: {
+              type: 'number',
+              format: 'float',
+            },
+            addedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            addedBy: {
+              type: 'string',
+              description: 'User who added the line (shared carts)',
+            },
+            addedByName: {
+              type: 'string',
+            },
+          },
+        },
+        CartMember: {
+          type: 'object',
+          properties: {
+            userId: {
+              type: 'string',
+            },
+            name: {
+              type: 'string',
+            },
+            role: {
+              type: 'string',
+              enum: ['owner', 'collaborator'],
+            },
+            addedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        SavedCart: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+            },
+            userId: {
+              type: 'string',
+            },
+            name: {
+              type: 'string',
+            },
+            kind: {
+              type: 'string',
+              enum: ['saved', 'template'],
+            },
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  itemId: {
+                    type: 'string',
+                  },
+                  name: {
+                    type: 'string',
+                  },
+                  unitPrice: {
+                    type: 'number',
+                    format: 'float',
+                    description: 'Price when the cart was saved',
+                  },
+                  quantity: {
+                    type: 'integer',
+                  },
+                },
+              },
+            },
+            totalCost: {
+              type: 'number',
+              format: 'float',
+              description: 'Total at the prices when the cart was saved',
+            },
+            lastUsedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        CartRestoreResult: {
+          type: 'object',
+          properties: {
+            cart: {
+              $ref: '#/components/schemas/Cart',
+            },
+            added: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  itemId: {
+                    type: 'string',
+                  },
+                  name: {
+                    type: 'string',
+                  },
+                  quantity: {
+                    type: 'integer',
+                    description: 'Quantity added (whole packs)',
+                  },
+                  unitPrice: {
+                    type: 'number',
+                    format: 'float',
+                    description: 'Current catalog price',
+                  },
+                  previousUnitPrice: {
+                    type: 'number',
+                    format: 'float',
+                    description: 'Price when saved or ordered',
+                  },
+                },
+              },
+            },
+            skipped: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  itemId: {
+                    type: 'string',
+                  },
+                  name: {
+                    type: 'string',
+                  },
+                  quantity: {
+                    type: 'integer',
+                  },
+                  reason: {
+                    type: 'string',
+                    enum: [
+                      'not_found',
+                      'archived',
+                      'unavailable',
+                      'cart_full',
+                      'quantity_limit',
+                    ],
+                  },
+                },
+              },
+            },
+          },
+        },
+        CheckoutReview: {
+          type: 'object',
+          properties: {
+            priceChanges: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  itemId: {
+                    type: 'string',
+                  },
+                  name: {
+                    type: 'string',
+                  },
+                  quantity: {
+                    type: 'integer',
+                  },
+                  cartUnitPrice: {
+                    type: 'number',
+                    format: 'float',
+                    description: 'Price snapshot in the cart',
+                  },
+                  currentUnitPrice: {
+                    type: 'number',
+                    format: 'float',
+                    description: 'Current catalog price',
+                  },
+                },
+              },
+            },
+            unavailable: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  itemId: {
+                    type: 'string',
+                  },
+                  name: {
+                    type: 'string',
+                  },
+                  quantity: {
+                    type: 'integer',
+                  },
+                  reason: {
+                    type: 'string',
+                    enum: ['not_found', 'archived', 'unavailable'],
+                  },
+                },
+              },
+            },
+            cartTotal: {
+              type: 'number',
+              format: 'float',
+              description: 'Total at the cart price snapshots',
+            },
+            total: {
+              type: 'number',
+              format: 'float',
+              description: 'Total the purchase request will have',
+            },
+            requiresConfirmation: {
+              type: 'boolean',
+            },
+          },
+        },
+        AddToCartRequest: {
+          type: 'object',
+          required: ['itemId'],
+          properties: {
+            itemId: {
+              type: 'string',
+            },
+            quantity: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 999,
+              default: 1,
+            },
+          },
+        },
+        PurchaseRequest: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+            },
+            userId: {
+              type: 'string',
+            },
+            requestNumber: {
+              type: 'string',
+              description: 'Purchase request number (e.g., PR-2024-0001)',
+            },
+            items: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/PurchaseRequestItem',
+              },
+            },
+            total: {
+              type: 'number',
+              format: 'float',
+              description: 'Total estimated cost of the purchase request',
+            },
+            notes: {
+              type: 'string',
+            },
+            source: {
+              type: 'string',
+              enum: ['ui', 'agent'],
+              description: 'Source of the purchase request',
+            },
+            status: {
+              type: 'string',
+              enum: [
+                'submitted',
+                'pending_approval',
+                'approved',
+                'rejected',
+                'returned_for_changes',
+              ],
+              description: 'Purchase request status',
+            },
+            approvalSteps: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/ApprovalStep',
+              },
+              description: 'Approval chain resolved at submission',
+            },
+            currentApprovalStep: {
+              type: 'integer',
+              description: 'Index of the step awaiting a decision',
+            },
+            statusHistory: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/PurchaseRequestStatusChange',
+              },
+              description: 'State-machine transition history (oldest first)',
+            },
+            costCenter: {
+              type: 'string',
+              description:
+                "Cost center charged for this request (chosen at checkout; defaults to the requester's)",
+            },
+            glCode: {
+              type: 'string',
+              description: 'GL account code charged for this request',
+            },
+            erpReference: {
+              type: 'string',
+              description: 'Reference number assigned by the ERP',
+            },
+            erpStatus: {
+              type: 'string',
+              enum: [
+                'queued',
+                'submitted',
+                'accepted',
+                'rejected',
+                'cancelled',
+                'failed',
+              ],
+              description: 'Last known ERP status',
+            },
+            erpStatusUpdatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            deliveryLocation: {
+              $ref: '#/components/schemas/DeliveryLocationSnapshot',
+            },
+            requestedDeliveryDate: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Requested delivery date (midnight UTC)',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        PurchaseRequestItem: {
+          type: 'object',
+          properties: {
+            itemId: {
+              type: 'string',
+              description: 'Reference to the original catalog item',
+            },
+            itemName: {
+              type: 'string',
+              description: 'Snapshot: item name at checkout',
+            },
+            itemCategory: {
+              type: 'string',
+              description: 'Snapshot: item category at checkout',
+            },
+            itemDescription: {
+              type: 'string',
+              description: 'Snapshot: item description at checkout',
+            },
+            unitPrice: {
+              type: 'number',
+              format: 'float',
+              description: 'Snapshot: unit price at checkout',
+            },
+            quantity: {
+              type: 'integer',
+              description: 'Quantity requested',
+            },
+            subtotal: {
+              type: 'number',
+              format: 'float',
+              description: 'Subtotal for this line (unitPrice * quantity)',
+            },
+            glCode: {
+              type: 'string',
+              description: "Line override of the request's GL code",
+            },
+            deliveryLocation: {
+              $ref: '#/components/schemas/DeliveryLocationSnapshot',
+            },
+            requestedDeliveryDate: {
+              type: 'string',
+              format: 'date-time',
+              description: "Line override of the request's delivery date",
+            },
+          },
+        },
+        CheckoutLineOverride: {
+          type: 'object',
+          required: ['itemId'],
+          properties: {
+            itemId: {
+              type: 'string',
+              description: 'Catalog item of the cart line',
+            },
+            glCode: {
+              type: 'string',
+              maxLength: 30,
+            },
+            deliveryLocationId: {
+              type: 'string',
+            },
+            requestedDeliveryDate: {
+              type: 'string',
+              format: 'date',
+            },
+          },
+        },
+        DeliveryLocation: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+            },
+            name: {
+              type: 'string',
+            },
+            address: {
+              type: 'string',
+            },
+            isActive: {
+              type: 'boolean',
+              description: 'Whether the location can be chosen at checkout',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        DeliveryLocationRequest: {
+          type: 'object',
+          required: ['name', 'address'],
+          properties: {
+            name: {
+              type: 'string',
+              maxLength: 100,
+            },
+            address: {
+              type: 'string',
+              maxLength: 500,
+            },
+            isActive: {
+              type: 'boolean',
+              default: true,
+            },
+          },
+        },
+        DeliveryLocationSnapshot: {
+          type: 'object',
+          description: 'Delivery location as it was at checkout',
+          properties: {
+            locationId: {
+              type: 'string',
+            },
+            name: {
+              type: 'string',
+            },
+            address: {
+              type: 'string',
+            },
+          },
+        },
+        ApprovalStep: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+            },
+            approverRole: {
+              type: 'string',
+              enum: ['requester', 'buyer', 'admin'],
+            },
+            approverIds: {
+              type: 'array',
+              items: {
+                type: 'string',
+              },
+            },
+            status: {
+              type: 'string',
+              enum: ['pending', 'approved', 'rejected', 'returned'],
+            },
+            decidedByUserId: {
+              type: 'string',
+            },
+            decidedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            comment: {
+              type: 'string',
+            },
+          },
+        },
+        PurchaseRequestStatusChange: {
+          type: 'object',
+          properties: {
+            fromStatus: {
+              type: 'string',
+            },
+            toStatus: {
+              type: 'string',
+            },
+            action: {
+              type: 'string',
+              enum: [
+                'submit',
+                'approve',
+                'reject',
+                'return_for_changes',
+                'resubmit',
+              ],
+            },
+            actorUserId: {
+              type: 'string',
+            },
+            stepName: {
+              type: 'string',
+            },
+            comment: {
+              type: 'string',
+            },
+            changedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        ApprovalActionRequest: {
+          type: 'object',
+          properties: {
+            comment: {
+              type: 'string',
+              maxLength: 1000,
+              description: 'Decision comment (required for reject and return)',
+            },
+          },
+        },
+        Budget: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+            },
+            name: {
+              type: 'string',
+            },
+            costCenter: {
+              type: 'string',
+            },
+            department: {
+              type: 'string',
+            },
+            periodStart: {
+              type: 'string',
+              format: 'date-time',
+            },
+            periodEnd: {
+              type: 'string',
+              format: 'date-time',
+            },
+            amount: {
+              type: 'number',
+              format: 'float',
+            },
+            enforcement: {
+              type: 'string',
+              enum: ['warn', 'block'],
+              description: 'Checkout behavior when the budget is exceeded',
+            },
+            isActive: {
+              type: 'boolean',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        BudgetRequest: {
+          type: 'object',
+          required: [
+            'name',
+            'costCenter',
+            'periodStart',
+            'periodEnd',
+            'amount',
+          ],
+          properties: {
+            name: {
+              type: 'string',
+              maxLength: 100,
+            },
+            costCenter: {
+              type: 'string',
+              maxLength: 50,
+            },
+            department: {
+              type: 'string',
+              maxLength: 100,
+            },
+            periodStart: {
+              type: 'string',
+              format: 'date',
+            },
+            periodEnd: {
+              type: 'string',
+              format: 'date',
+            },
+            amount: {
+              type: 'number',
+              format: 'float',
+              minimum: 0,
+            },
+            enforcement: {
+              type: 'string',
+              enum: ['warn', 'block'],
+              default: 'warn',
+            },
+            isActive: {
+              type: 'boolean',
+              default: true,
+            },
+          },
+        },
+        BudgetStatus: {
+          type: 'object',
+          properties: {
+            budget: {
+              $ref: '#/components/schemas/Budget',
+            },
+            committed: {
+              type: 'number',
+              format: 'float',
+              description:
+                'Sum of submitted, pending, returned and approved request totals',
+            },
+            remaining: {
+              type: 'number',
+              format: 'float',
+            },
+            utilization: {
+              type: 'number',
+              format: 'float',
+              description: 'Committed spend as a fraction of the budget',
+            },
+          },
+        },
+        BudgetCheck: {
+          allOf: [
+            { $ref: '#/components/schemas/BudgetStatus' },
+            {
+              type: 'object',
+              properties: {
+                amount: {
+                  type: 'number',
+                  format: 'float',
+                  description: 'Amount being checked (cart total)',
+                },
+                remainingAfter: {
+                  type: 'number',
+                  format: 'float',
+                },
+                exceedsBudget: {
+                  type: 'boolean',
+                },
+                blocked: {
+                  type: 'boolean',
+                },
+                message: {
+                  type: 'string',
+                },
+              },
+            },
+          ],
+        },
+        BudgetBurnDownPoint: {
+          type: 'object',
+          properties: {
+            date: {
+              type: 'string',
+              format: 'date',
+            },
+            committed: {
+              type: 'number',
+              format: 'float',
+            },
+            remaining: {
+              type: 'number',
+              format: 'float',
+            },
+            ideal: {
+              type: 'number',
+              format: 'float',
+              description: 'Remaining balance under an even spend rate',
+            },
+          },
+        },
+        ItemSupplierOffer: {
+          type: 'object',
+          required: ['supplierId', 'unitPrice'],
+          properties: {
+            supplierId: {
+              type: 'string',
+            },
+            unitPrice: {
+              type: 'number',
+              format: 'float',
+              minimum: 0.01,
+              description: 'Supplier-specific unit price',
+            },
+            supplierSku: {
+              type: 'string',
+            },
+            leadTimeDays: {
+              type: 'integer',
+              minimum: 0,
+            },
+          },
+        },
+        Supplier: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+            },
+            name: {
+              type: 'string',
+            },
+            contact: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                },
+                email: {
+                  type: 'string',
+                  format: 'email',
+                },
+                phone: {
+                  type: 'string',
+                },
+              },
+            },
+            address: {
+              type: 'string',
+            },
+            website: {
+              type: 'string',
+            },
+            taxId: {
+              type: 'string',
+            },
+            paymentTerms: {
+              type: 'string',
+              enum: [
+                'prepaid',
+                'net_15',
+                'net_30',
+                'net_45',
+                'net_60',
+                'net_90',
+              ],
+            },
+            leadTimeDays: {
+              type: 'integer',
+              description: 'Default lead time in days',
+            },
+            status: {
+              type: 'string',
+              enum: ['active', 'blocked'],
+            },
+            blockedReason: {
+              type: 'string',
+            },
+            notes: {
+              type: 'string',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        SupplierRequest: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: {
+              type: 'string',
+              maxLength: 200,
+            },
+            contact: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                },
+                email: {
+                  type: 'string',
+                  format: 'email',
+                },
+                phone: {
+                  type: 'string',
+                },
+              },
+            },
+            address: {
+              type: 'string',
+            },
+            website: {
+              type: 'string',
+            },
+            taxId: {
+              type: 'string',
+            },
+            paymentTerms: {
+              type: 'string',
+              enum: [
+                'prepaid',
+                'net_15',
+                'net_30',
+                'net_45',
+                'net_60',
+                'net_90',
+              ],
+              default: 'net_30',
+            },
+            leadTimeDays: {
+              type: 'integer',
+              minimum: 0,
+            },
+            status: {
+              type: 'string',
+              enum: ['active', 'blocked'],
+              default: 'active',
+            },
+            blockedReason: {
+              type: 'string',
+            },
+            notes: {
+              type: 'string',
+            },
+          },
+        },
+        PurchaseOrder: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+            },
+            poNumber: {
+              type: 'string',
+              example: 'PO-2025-0001',
+            },
+            purchaseRequestId: {
+              type: 'string',
+            },
+            requestNumber: {
+              type: 'string',
+            },
+            supplierId: {
+              type: 'string',
+            },
+            supplierName: {
+              type: 'string',
+            },
+            supplierEmail: {
+              type: 'string',
+            },
+            paymentTerms: {
+              type: 'string',
+              enum: [
+                'prepaid',
+                'net_15',
+                'net_30',
+                'net_45',
+                'net_60',
+                'net_90',
+              ],
+            },
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  itemId: {
+                    type: 'string',
+                  },
+                  itemName: {
+                    type: 'string',
+                  },
+                  itemCategory: {
+                    type: 'string',
+                  },
+                  itemDescription: {
+                    type: 'string',
+                  },
+                  supplierSku: {
+                    type: 'string',
+                  },
+                  unitPrice: {
+                    type: 'number',
+                  },
+                  quantity: {
+                    type: 'integer',
+                  },
+                  subtotal: {
+                    type: 'number',
+                  },
+                  leadTimeDays: {
+                    type: 'integer',
+                  },
+                },
+              },
+            },
+            total: {
+              type: 'number',
+            },
+            status: {
+              type: 'string',
+              enum: ['issued', 'acknowledged', 'partially_received', 'closed'],
+            },
+            statusHistory: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  fromStatus: {
+                    type: 'string',
+                  },
+                  toStatus: {
+                    type: 'string',
+                  },
+                  userId: {
+                    type: 'string',
+                  },
+                  note: {
+                    type: 'string',
+                  },
+                  changedAt: {
+                    type: 'string',
+                    format: 'date-time',
+                  },
+                },
+              },
+            },
+            expectedDeliveryDate: {
+              type: 'string',
+              format: 'date-time',
+            },
+            costCenter: {
+              type: 'string',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        GoodsReceipt: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+            },
+            receiptNumber: {
+              type: 'string',
+              example: 'GR-2025-0001',
+            },
+            purchaseOrderId: {
+              type: 'string',
+            },
+            poNumber: {
+              type: 'string',
+            },
+            purchaseRequestId: {
+              type: 'string',
+            },
+            requestNumber: {
+              type: 'string',
+            },
+            lines: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  itemId: {
+                    type: 'string',
+                  },
+                  itemName: {
+                    type: 'string',
+                  },
+                  quantityReceived: {
+                    type: 'integer',
+                  },
+                  quantityRejected: {
+                    type: 'integer',
+                  },
+                  rejectionReason: {
+                    type: 'string',
+                    enum: ['damaged', 'wrong_item', 'quality_issue', 'other'],
+                  },
+                  note: {
+                    type: 'string',
+                  },
+                },
+              },
+            },
+            notes: {
+              type: 'string',
+            },
+            receivedByUserId: {
+              type: 'string',
+            },
+            receivedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        SupplierInvoice: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+            },
+            invoiceNumber: {
+              type: 'string',
+            },
+            purchaseOrderId: {
+              type: 'string',
+            },
+            supplierId: {
+              type: 'string',
+            },
+            invoiceDate: {
+              type: 'string',
+              format: 'date-time',
+            },
+            lines: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  itemId: {
+                    type: 'string',
+                  },
+                  quantity: {
+                    type: 'integer',
+                  },
+                  unitPrice: {
+                    type: 'number',
+                  },
+                  subtotal: {
+                    type: 'number',
+                  },
+                },
+              },
+            },
+            total: {
+              type: 'number',
+            },
+            recordedByUserId: {
+              type: 'string',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        ThreeWayMatch: {
+          type: 'object',
+          properties: {
+            purchaseOrderId: {
+              type: 'string',
+            },
+            poNumber: {
+              type: 'string',
+            },
+            status: {
+              type: 'string',
+              enum: [
+                'pending',
+                'matched',
+                'quantity_mismatch',
+                'price_mismatch',
+              ],
+            },
+            lines: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  itemId: {
+                    type: 'string',
+                  },
+                  itemName: {
+                    type: 'string',
+                  },
+                  quantityOrdered: {
+                    type: 'integer',
+                  },
+                  unitPrice: {
+                    type: 'number',
+                  },
+                  quantityReceived: {
+                    type: 'integer',
+                  },
+                  quantityRejected: {
+                    type: 'integer',
+                  },
+                  quantityInvoiced: {
+                    type: 'integer',
+                  },
+                  amountInvoiced: {
+                    type: 'number',
+                  },
+                  status: {
+                    type: 'string',
+                    enum: [
+                      'pending',
+                      'matched',
+                      'quantity_mismatch',
+                      'price_mismatch',
+                    ],
+                  },
                 },
               },
             },
-            uptime: {
-              type: 'number',
+            unmatchedInvoiceItemIds: {
+              type: 'array',
+              items: {
+                type: 'string',
+              },
             },
           },
         },
-        Item: {
+        ErpOutboxEntry: {
           type: 'object',
           properties: {
             id: {
               type: 'string',
+              description: 'Entry ID (also sent to the ERP as idempotency key)',
             },
-            name: {
+            purchaseRequestId: {
               type: 'string',
             },
-            category: {
+            requestNumber: {
               type: 'string',
             },
-            description: {
+            operation: {
               type: 'string',
+              enum: ['submit', 'cancel'],
             },
-            estimatedPrice: {
-              type: 'number',
-              format: 'float',
-              description: 'Estimated unit price in the default currency',
-            },
-            unit: {
+            connector: {
               type: 'string',
+              example: 'http',
             },
             status: {
               type: 'string',
-              enum: ['active', 'pending_review', 'inactive'],
-              description: 'Item status in the catalog',
+              enum: [
+                'pending',
+                'processing',
+                'completed',
+                'failed',
+                'cancelled',
+              ],
             },
-            preferredSupplier: {
+            attempts: {
+              type: 'integer',
+            },
+            nextAttemptAt: {
               type: 'string',
+              format: 'date-time',
             },
-            createdByUserId: {
+            lastError: {
               type: 'string',
-              description: 'User ID of the person who registered this item',
+            },
+            erpReference: {
+              type: 'string',
+            },
+            completedAt: {
+              type: 'string',
+              format: 'date-time',
             },
             createdAt: {
               type: 'string',
@@ -484,56 +6988,64 @@ export function getOpenApiDocument(): OpenAPIDocument {
             },
           },
         },
-        CreateItemRequest: {
+        WebhookSubscriptionInput: {
           type: 'object',
-          required: ['name', 'category', 'description', 'estimatedPrice'],
+          required: ['url', 'events'],
           properties: {
-            name: {
+            url: {
               type: 'string',
-              minLength: 2,
-              maxLength: 200,
+              format: 'uri',
+              example: 'https://hooks.example.com/procureflow',
             },
-            category: {
-              type: 'string',
-              minLength: 2,
-              maxLength: 100,
+            events: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/WebhookEventType',
+              },
             },
             description: {
               type: 'string',
-              minLength: 10,
-              maxLength: 2000,
-            },
-            estimatedPrice: {
-              type: 'number',
-              format: 'float',
-              minimum: 0.01,
-            },
-            unit: {
-              type: 'string',
             },
-            preferredSupplier: {
-              type: 'string',
+            active: {
+              type: 'boolean',
+              default: true,
             },
           },
         },
-        Cart: {
+        WebhookEventType: {
+          type: 'string',
+          enum: [
+            'purchase_request.created',
+            'purchase_request.status_changed',
+            'item.created',
+            'item.updated',
+            'item.deleted',
+            'item.reviewed',
+          ],
+        },
+        WebhookSubscription: {
           type: 'object',
           properties: {
             id: {
               type: 'string',
             },
-            userId: {
+            url: {
               type: 'string',
             },
-            items: {
+            description: {
+              type: 'string',
+            },
+            events: {
               type: 'array',
               items: {
-                $ref: '#/components/schemas/CartItem',
+                $ref: '#/components/schemas/WebhookEventType',
               },
             },
-            totalCost: {
-              type: 'number',
-              format: 'float',
+            active: {
+              type: 'boolean',
+            },
+            createdByUserId: {
+              type: 'string',
             },
             createdAt: {
               type: 'string',
@@ -545,141 +7057,241 @@ export function getOpenApiDocument(): OpenAPIDocument {
             },
           },
         },
-        CartItem: {
+        WebhookDelivery: {
           type: 'object',
           properties: {
-            itemId: {
+            id: {
               type: 'string',
+              description: 'Delivery ID (sent as X-ProcureFlow-Delivery)',
             },
-            name: {
+            subscriptionId: {
               type: 'string',
-              description:
-                'Snapshot of item name at the time of adding to cart',
             },
-            unitPrice: {
-              type: 'number',
-              format: 'float',
-              description:
-                'Snapshot of item price at the time of adding to cart',
+            event: {
+              type: 'object',
+              description: 'Envelope posted to the endpoint',
+              properties: {
+                id: {
+                  type: 'string',
+                  description: 'Event ID (identical across redeliveries)',
+                },
+                type: {
+                  $ref: '#/components/schemas/WebhookEventType',
+                },
+                createdAt: {
+                  type: 'string',
+                  format: 'date-time',
+                },
+                data: {
+                  type: 'object',
+                  description:
+                    '{ purchaseRequest } for purchase_request.created, { purchaseRequest, previousStatus, status } for purchase_request.status_changed, { item } for item events',
+                },
+              },
             },
-            quantity: {
+            status: {
+              type: 'string',
+              enum: ['pending', 'delivered', 'failed'],
+            },
+            attempts: {
               type: 'integer',
-              minimum: 1,
-              maximum: 999,
             },
-            subtotal: {
-              type: 'number',
-              format: 'float',
+            nextAttemptAt: {
+              type: 'string',
+              format: 'date-time',
             },
-            addedAt: {
+            attemptLog: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  attemptedAt: {
+                    type: 'string',
+                    format: 'date-time',
+                  },
+                  responseStatus: {
+                    type: 'integer',
+                  },
+                  error: {
+                    type: 'string',
+                  },
+                  durationMs: {
+                    type: 'integer',
+                  },
+                },
+              },
+            },
+            deliveredAt: {
               type: 'string',
               format: 'date-time',
             },
-          },
-        },
-        AddToCartRequest: {
-          type: 'object',
-          required: ['itemId'],
-          properties: {
-            itemId: {
+            redeliveryOf: {
               type: 'string',
             },
-            quantity: {
-              type: 'integer',
-              minimum: 1,
-              maximum: 999,
-              default: 1,
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
             },
           },
         },
-        PurchaseRequest: {
+        CatalogImportRow: {
           type: 'object',
           properties: {
-            id: {
-              type: 'string',
+            rowNumber: {
+              type: 'integer',
+              description: 'Row in the file (header is row 1 in CSV/XLSX)',
             },
-            userId: {
+            status: {
               type: 'string',
+              enum: ['valid', 'invalid', 'duplicate'],
             },
-            requestNumber: {
-              type: 'string',
-              description: 'Purchase request number (e.g., PR-2024-0001)',
+            item: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                category: { type: 'string' },
+                description: { type: 'string' },
+                estimatedPrice: { type: 'number' },
+                unit: { type: 'string' },
+                preferredSupplier: { type: 'string' },
+              },
             },
-            items: {
+            errors: {
+              type: 'array',
+              items: { type: 'string' },
+            },
+            duplicates: {
               type: 'array',
+              description: 'Existing catalog items this row may duplicate',
               items: {
-                $ref: '#/components/schemas/PurchaseRequestItem',
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  name: { type: 'string' },
+                  category: { type: 'string' },
+                },
               },
             },
-            total: {
-              type: 'number',
-              format: 'float',
-              description: 'Total estimated cost of the purchase request',
-            },
-            notes: {
-              type: 'string',
-            },
-            source: {
-              type: 'string',
-              enum: ['ui', 'agent'],
-              description: 'Source of the purchase request',
-            },
-            status: {
-              type: 'string',
-              enum: ['submitted', 'pending_approval', 'approved', 'rejected'],
-              description: 'Purchase request status',
-            },
-            deliveryLocation: {
-              type: 'string',
-              description: 'Delivery location (future)',
-            },
-            requestedDeliveryDate: {
-              type: 'string',
-              format: 'date-time',
-              description: 'Requested delivery date (future)',
+            duplicateOfRow: {
+              type: 'integer',
+              description: 'Earlier row in the file with the same item',
             },
-            createdAt: {
+            itemId: {
               type: 'string',
-              format: 'date-time',
+              description: 'Created item (after import)',
             },
-            updatedAt: {
-              type: 'string',
-              format: 'date-time',
+          },
+        },
+        CatalogImportResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                dryRun: { type: 'boolean' },
+                mode: {
+                  type: 'string',
+                  enum: ['all_or_nothing', 'per_row'],
+                },
+                committed: {
+                  type: 'boolean',
+                  description: 'Present when dryRun is false',
+                },
+                created: {
+                  type: 'integer',
+                  description: 'Present when dryRun is false',
+                },
+                report: {
+                  type: 'object',
+                  properties: {
+                    totalRows: { type: 'integer' },
+                    validRows: { type: 'integer' },
+                    invalidRows: { type: 'integer' },
+                    duplicateRows: { type: 'integer' },
+                    rows: {
+                      type: 'array',
+                      items: {
+                        $ref: '#/components/schemas/CatalogImportRow',
+                      },
+                    },
+                  },
+                },
+              },
             },
           },
         },
-        PurchaseRequestItem: {
+        PageInfo: {
           type: 'object',
+          description:
+            'Cursor pagination fields of list responses. Pass nextCursor as the cursor query parameter to get the next page.',
           properties: {
-            itemId: {
+            nextCursor: {
               type: 'string',
-              description: 'Reference to the original catalog item',
+              nullable: true,
+              description: 'Cursor for the next page (null on the last page)',
             },
-            itemName: {
-              type: 'string',
-              description: 'Snapshot: item name at checkout',
+            hasMore: { type: 'boolean' },
+          },
+        },
+        ConversationSummary: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            title: { type: 'string' },
+            lastMessagePreview: { type: 'string' },
+            messageCount: {
+              type: 'integer',
+              description: 'Settings list only',
             },
-            itemCategory: {
-              type: 'string',
-              description: 'Snapshot: item category at checkout',
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        FacetBucket: {
+          type: 'object',
+          properties: {
+            value: { type: 'string' },
+            count: { type: 'integer' },
+          },
+        },
+        CatalogFacets: {
+          type: 'object',
+          properties: {
+            categories: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/FacetBucket' },
             },
-            itemDescription: {
-              type: 'string',
-              description: 'Snapshot: item description at checkout',
+            suppliers: {
+              type: 'array',
+              items: {
+                allOf: [
+                  { $ref: '#/components/schemas/FacetBucket' },
+                  {
+                    type: 'object',
+                    properties: { name: { type: 'string' } },
+                  },
+                ],
+              },
             },
-            unitPrice: {
-              type: 'number',
-              format: 'float',
-              description: 'Snapshot: unit price at checkout',
+            units: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/FacetBucket' },
             },
-            quantity: {
-              type: 'integer',
-              description: 'Quantity requested',
+            statuses: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/FacetBucket' },
             },
-            subtotal: {
-              type: 'number',
-              format: 'float',
-              description: 'Subtotal for this line (unitPrice * quantity)',
+            price: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                min: { type: 'number' },
+                max: { type: 'number' },
+              },
             },
           },
         },
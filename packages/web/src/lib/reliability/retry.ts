@@ -3,6 +3,8 @@
  *
  * Handles transient failures (429, 500, 503, timeouts) with smart retry
  * strategies, exponential backoff, and jitter to avoid thundering herd.
+ * The error classification and backoff calculation are also used by the
+ * ERP outbox to schedule its own retries.
  *
  * @module lib/reliability/retry
  */
@@ -56,7 +58,7 @@ const PROVIDER_RETRY_CONFIG: Record<
  * @param error - Error to check
  * @returns True if error is retryable
  */
-function isRetryableError(error: unknown): boolean {
+export function isRetryableError(error: unknown): boolean {
   if (!error) {
     return false;
   }
@@ -99,15 +101,19 @@ function isRetryableError(error: unknown): boolean {
  * Formula: min(baseDelay * 2^attempt + jitter, maxDelay)
  * Jitter prevents thundering herd problem.
  *
- * NOTE: Currently unused - p-retry handles backoff internally.
- * Kept for future custom retry logic if needed.
+ * NOTE: p-retry handles backoff internally for LLM calls; this is used
+ * where retries are scheduled rather than awaited (ERP outbox).
  *
  * @param attemptNumber - Current attempt number (1-indexed)
+ * @param options - Base and maximum delay in milliseconds
  * @returns Delay in milliseconds
  */
-function _calculateRetryDelay(attemptNumber: number): number {
-  const baseDelay = 1000; // 1 second
-  const maxDelay = 30_000; // 30 seconds
+export function calculateRetryDelay(
+  attemptNumber: number,
+  options: { baseDelay?: number; maxDelay?: number } = {}
+): number {
+  const baseDelay = options.baseDelay ?? 1000; // 1 second
+  const maxDelay = options.maxDelay ?? 30_000; // 30 seconds
 
   // Exponential backoff: 1s, 2s, 4s, 8s, 16s, 30s (capped)
   const exponentialDelay = baseDelay * Math.pow(2, attemptNumber - 1);
@@ -83,6 +83,25 @@ export const SearchCatalogArgsSchema = z
         'Search query cannot be only whitespace'
       ),
     category: z.string().optional(),
+    categories: z
+      .array(z.string().min(1).max(100))
+      .max(20, 'At most 20 categories')
+      .optional(),
+    suppliers: z
+      .array(
+        z
+          .string()
+          .regex(/^[0-9a-fA-F]{24}$/, 'Suppliers must be given by supplier ID')
+      )
+      .max(20, 'At most 20 suppliers')
+      .optional(),
+    units: z
+      .array(z.string().min(1).max(50))
+      .max(20, 'At most 20 units')
+      .optional(),
+    status: z
+      .array(z.enum(['active', 'pending_review', 'inactive']))
+      .optional(),
     minPrice: z
       .number()
       .nonnegative('Minimum price cannot be negative')
@@ -97,6 +116,7 @@ export const SearchCatalogArgsSchema = z
       .positive()
       .max(100, 'Limit cannot exceed 100')
       .optional(),
+    sort: z.enum(['relevance', 'price_asc', 'price_desc', 'newest']).optional(),
   })
   .refine(
     (data) => {
@@ -165,6 +185,30 @@ export const UpdateCartQuantityArgsSchema = z.object({
   cartId: z.string().optional(),
 });
 
+/**
+ * register_item tool arguments
+ * Limits mirror catalog item creation (BR-1.2, BR-1.5)
+ */
+export const RegisterItemArgsSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Name must be at least 2 characters')
+    .max(200, 'Name must not exceed 200 characters'),
+  category: z
+    .string()
+    .trim()
+    .min(2, 'Category must be at least 2 characters')
+    .max(100, 'Category must not exceed 100 characters'),
+  description: z
+    .string()
+    .trim()
+    .min(10, 'Description must be at least 10 characters')
+    .max(2000, 'Description must not exceed 2000 characters'),
+  estimatedPrice: z.number().positive('Estimated price must be positive'),
+  unit: z.string().trim().max(50, 'Unit too long').optional(),
+});
+
 /**
  * get_cart tool arguments
  */
@@ -172,11 +216,58 @@ export const GetCartArgsSchema = z.object({
   // No arguments required - gets cart for authenticated user
 });
 
+/**
+ * analyze_cart tool arguments
+ */
+export const AnalyzeCartArgsSchema = z.object({
+  // No arguments required - analyzes cart for authenticated user
+});
+
+/**
+ * reorder tool arguments
+ */
+export const ReorderArgsSchema = z.object({
+  purchaseRequest: z
+    .string()
+    .trim()
+    .min(1, 'Purchase request cannot be empty')
+    .max(100, 'Purchase request too long'),
+});
+
 /**
  * checkout tool arguments
  */
+const DeliveryDateSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD for delivery dates');
+
 export const CheckoutArgsSchema = z.object({
   notes: z.string().max(500).optional(),
+  confirmedTotal: z.number().nonnegative().optional(),
+  costCenter: z.string().trim().max(50, 'Cost center too long').optional(),
+  glCode: z.string().trim().max(30, 'GL code too long').optional(),
+  deliveryLocation: z
+    .string()
+    .trim()
+    .max(100, 'Delivery location too long')
+    .optional(),
+  requestedDeliveryDate: DeliveryDateSchema.optional(),
+  lineOverrides: z
+    .array(
+      z.object({
+        itemId: z.string().trim().min(1, 'Item ID cannot be empty'),
+        glCode: z.string().trim().max(30, 'GL code too long').optional(),
+        deliveryLocation: z
+          .string()
+          .trim()
+          .max(100, 'Delivery location too long')
+          .optional(),
+        requestedDeliveryDate: DeliveryDateSchema.optional(),
+      })
+    )
+    .max(100, 'Too many line overrides')
+    .optional(),
 });
 
 /**
@@ -185,10 +276,13 @@ export const CheckoutArgsSchema = z.object({
 export const ToolArgsSchemas = {
   search_catalog: SearchCatalogArgsSchema,
   get_item_details: GetItemDetailsArgsSchema,
+  register_item: RegisterItemArgsSchema,
   add_to_cart: AddToCartArgsSchema,
   remove_from_cart: RemoveFromCartArgsSchema,
   update_cart_quantity: UpdateCartQuantityArgsSchema,
   get_cart: GetCartArgsSchema,
+  analyze_cart: AnalyzeCartArgsSchema,
+  reorder: ReorderArgsSchema,
   checkout: CheckoutArgsSchema,
 } as const;
 